@@ -0,0 +1,117 @@
+/**
+ * Prompt evaluation runner
+ *
+ * Replays the eval corpus (src/ai/evals/corpus) and writes a scored report per
+ * prompt version to eval-reports/.
+ *
+ *   npm run eval:prompts                                   replay recorded responses
+ *   npm run eval:prompts -- --suite architect              one suite only
+ *   npm run eval:prompts -- --ollama http://localhost:11434 --model phi4-mini
+ *                                                          ask a local model instead
+ *   npm run eval:prompts -- --ollama <url> --record        ...and save its replies to the corpus
+ *   npm run eval:prompts -- --baseline eval-reports/<file>.json
+ *                                                          fail only on regressions
+ *
+ * Exits 1 when a case regressed against the baseline, or when any case fails and no
+ * baseline was given.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    compareReports,
+    computePromptVersions,
+    EVAL_CORPUS_FILES,
+    EVAL_SUITES,
+    EvalCase,
+    EvalReport,
+    EvalSuite,
+    formatReport,
+    loadEvalCorpus,
+    ModelResponder,
+    OllamaResponder,
+    RecordedResponder,
+    RecordingResponder,
+    runEvaluation
+} from '../src/ai/evals';
+
+const CORPUS_DIR = path.join(__dirname, '../src/ai/evals/corpus');
+const DEFAULT_OUT_DIR = path.join(__dirname, '../eval-reports');
+const DEFAULT_OLLAMA_MODEL = 'phi4-mini';
+
+function readFlag(args: string[], name: string): string | undefined {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+function parseSuites(value?: string): EvalSuite[] {
+    if (!value) return EVAL_SUITES;
+    const suites = value.split(',').map(suite => suite.trim()) as EvalSuite[];
+    const unknown = suites.filter(suite => !EVAL_SUITES.includes(suite));
+    if (unknown.length) {
+        throw new Error(`Unknown suite(s): ${unknown.join(', ')} (expected ${EVAL_SUITES.join(', ')})`);
+    }
+    return suites;
+}
+
+function writeCorpus(cases: EvalCase[], suites: EvalSuite[]) {
+    for (const suite of suites) {
+        const file = path.join(CORPUS_DIR, EVAL_CORPUS_FILES[suite]);
+        const suiteCases = cases.filter(evalCase => evalCase.suite === suite);
+        fs.writeFileSync(file, JSON.stringify(suiteCases, null, 2) + '\n');
+        console.log(`📝 Recorded ${suiteCases.length} ${suite} case(s) to ${path.relative(process.cwd(), file)}`);
+    }
+}
+
+async function evalPrompts() {
+    const args = process.argv.slice(2);
+    const suites = parseSuites(readFlag(args, 'suite'));
+    const ollamaUrl = readFlag(args, 'ollama');
+    const record = args.includes('--record');
+    const baselinePath = readFlag(args, 'baseline');
+    const outDir = readFlag(args, 'out') || DEFAULT_OUT_DIR;
+
+    if (record && !ollamaUrl) {
+        throw new Error('--record needs a live model; pass --ollama <url>');
+    }
+
+    const versions = computePromptVersions();
+    const cases = loadEvalCorpus(suites);
+
+    let responder: ModelResponder = ollamaUrl
+        ? new OllamaResponder(ollamaUrl, readFlag(args, 'model') || DEFAULT_OLLAMA_MODEL)
+        : new RecordedResponder(versions);
+    if (record) {
+        responder = new RecordingResponder(responder, versions);
+    }
+
+    console.log(`🧪 Evaluating ${cases.length} case(s) [${suites.join(', ')}] with ${responder.name}...`);
+    const report = await runEvaluation({ cases, responder, versions });
+
+    if (record) {
+        writeCorpus(cases, suites);
+    }
+
+    const baseline: EvalReport | undefined = baselinePath
+        ? JSON.parse(fs.readFileSync(baselinePath, 'utf8'))
+        : undefined;
+    const comparison = baseline ? compareReports(baseline, report) : undefined;
+
+    fs.mkdirSync(outDir, { recursive: true });
+    const suiteTag = suites.length === EVAL_SUITES.length ? '' : `-${suites.join('+')}`;
+    const reportFile = path.join(outDir, `${report.promptVersion}-${report.responder.replace(/[^a-z0-9.-]+/gi, '_')}${suiteTag}.json`);
+    fs.writeFileSync(reportFile, JSON.stringify(report, null, 2) + '\n');
+
+    console.log('');
+    console.log(formatReport(report, comparison));
+    console.log('');
+    console.log(`✅ Report written to ${path.relative(process.cwd(), reportFile)}`);
+
+    const failed = comparison ? comparison.regressions.length > 0 : report.summary.failed > 0;
+    process.exit(failed ? 1 : 0);
+}
+
+evalPrompts().catch(err => {
+    console.error('Error:', err);
+    process.exit(1);
+});
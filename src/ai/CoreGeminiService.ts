@@ -10,6 +10,8 @@
 
 import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import axios from 'axios';
+import { SpendCapScope } from './gateway/spendCapGuard';
+import { SpendCappedGoogleGenerativeAI } from './gateway/spendCappedGemini';
 
 export interface TranscriptionResult {
     text: string;
@@ -33,9 +35,15 @@ export class CoreGeminiService {
     protected model: GenerativeModel;
     protected apiKey: string;
 
-    constructor(apiKey: string) {
+    /**
+     * With a spend cap scope every model call is checked against the organization's
+     * monthly caps and its usage recorded
+     */
+    constructor(apiKey: string, spendCapScope?: SpendCapScope) {
         this.apiKey = apiKey;
-        this.genAI = new GoogleGenerativeAI(apiKey);
+        this.genAI = spendCapScope
+            ? new SpendCappedGoogleGenerativeAI(apiKey, spendCapScope)
+            : new GoogleGenerativeAI(apiKey);
         this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
     }
 
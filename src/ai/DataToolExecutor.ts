@@ -9,13 +9,44 @@ import {
 
 import { googleMapsService } from '../google/maps';
 import { createScriptPackageCore } from './scriptTools';
+import { commitJournaledWrites, JournaledResult, JournalScope } from './actionJournal';
 
 const db = getFirestore();
 
+/**
+ * Write tools handled here whose writes all go through the action journal, so they
+ * can be previewed with a dry run and undone
+ */
+export const JOURNALED_WRITE_TOOLS = [
+    'assign_team_member',
+    'manage_task',
+    'manage_contact',
+    'log_visitor',
+    'execute_app_action'
+];
+
+/**
+ * Tools that either only read or whose writes all go through the action journal,
+ * so a dry run can report exactly what they would change
+ */
+const PREVIEWABLE_TOOLS = new Set([
+    'list_projects',
+    'get_project_details',
+    'list_inventory',
+    'list_timecards',
+    ...JOURNALED_WRITE_TOOLS
+]);
+
 export interface ToolExecutionResult {
     success: boolean;
     data?: any;
     error?: string;
+    journal?: JournaledResult;
+}
+
+export interface ToolExecutionOptions {
+    /** Journal scope for writes; defaults to a standalone action named after the tool */
+    journal?: JournalScope;
 }
 
 export class DataToolExecutor {
@@ -23,9 +54,15 @@ export class DataToolExecutor {
         toolName: string,
         args: any,
         organizationId: string,
-        userId: string
+        userId: string,
+        options: ToolExecutionOptions = {}
     ): Promise<ToolExecutionResult> {
         console.log(`🛠️ [DataToolExecutor] Executing ${toolName} for org ${organizationId}`);
+        const journal: JournalScope = options.journal ?? { organizationId, userId, actionType: toolName };
+
+        if (journal.dryRun && !PREVIEWABLE_TOOLS.has(toolName)) {
+            return { success: false, error: `Preview is not available for ${toolName}` };
+        }
 
         try {
             switch (toolName) {
@@ -36,10 +73,13 @@ export class DataToolExecutor {
                     return this.getProjectDetails(args, organizationId);
 
                 case 'assign_team_member':
-                    return this.assignTeamMember(args, organizationId);
+                    return this.assignTeamMember(args, organizationId, journal);
+
+                case 'manage_task':
+                    return this.manageTask(args, organizationId, userId, journal);
 
                 case 'execute_app_action':
-                    return this.executeAppAction(args, organizationId, userId);
+                    return this.executeAppAction(args, organizationId, userId, journal);
 
                 case 'list_inventory':
                     return this.listInventory(args, organizationId);
@@ -48,10 +88,10 @@ export class DataToolExecutor {
                     return this.listTimecards(args, organizationId);
 
                 case 'manage_contact':
-                    return this.manageContact(args, organizationId, userId);
+                    return this.manageContact(args, organizationId, userId, journal);
 
                 case 'log_visitor':
-                    return this.logVisitor(args, organizationId, userId);
+                    return this.logVisitor(args, organizationId, userId, journal);
 
                 case 'generate_report':
                     return this.generateReport(args, organizationId, userId);
@@ -603,7 +643,7 @@ export class DataToolExecutor {
         }
     }
 
-    private static async manageTask(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async manageTask(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             const { action, taskId, projectId, title, assigneeId, dueDate } = args;
 
@@ -623,8 +663,8 @@ export class DataToolExecutor {
                     dueDate: dueDate ? new Date(dueDate) : null
                 };
 
-                await taskRef.set(taskData);
-                return { success: true, data: { id: taskRef.id, ...taskData, message: 'Task created.' } };
+                const journaled = await commitJournaledWrites(journal, [{ ref: taskRef, op: 'create', data: taskData }]);
+                return { success: true, data: { id: taskRef.id, ...taskData, message: 'Task created.' }, journal: journaled };
             }
 
             if (action === 'update' || action === 'complete') {
@@ -637,8 +677,8 @@ export class DataToolExecutor {
                 if (dueDate) updates.dueDate = new Date(dueDate);
                 if (action === 'complete') updates.status = 'COMPLETED';
 
-                await taskRef.update(updates);
-                return { success: true, data: { id: taskId, updates, message: `Task ${action}d.` } };
+                const journaled = await commitJournaledWrites(journal, [{ ref: taskRef, op: 'update', data: updates }]);
+                return { success: true, data: { id: taskId, updates, message: `Task ${action}d.` }, journal: journaled };
             }
 
             return { success: false, error: 'Invalid action' };
@@ -647,7 +687,7 @@ export class DataToolExecutor {
         }
     }
 
-    private static async assignTeamMember(args: any, organizationId: string): Promise<ToolExecutionResult> {
+    private static async assignTeamMember(args: any, organizationId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             const { projectId, userId, role } = args;
             if (!projectId || !userId) throw new Error('projectId and userId are required');
@@ -655,24 +695,30 @@ export class DataToolExecutor {
             // Simplified: Store in a subcollection or dedicated participants collection
             // Assuming 'project_participants' collection for now
             const participantId = `${projectId}_${userId}`;
-            await db.collection('project_participants').doc(participantId).set({
-                projectId,
-                userId,
-                role: role || 'VIEWER',
-                organizationId,
-                addedAt: new Date()
-            }, { merge: true });
+            const journaled = await commitJournaledWrites(journal, [{
+                ref: db.collection('project_participants').doc(participantId),
+                op: 'set',
+                merge: true,
+                data: {
+                    projectId,
+                    userId,
+                    role: role || 'VIEWER',
+                    organizationId,
+                    addedAt: new Date()
+                }
+            }]);
 
             return {
                 success: true,
-                data: { message: `User assigned to project successfully.` }
+                data: { message: `User assigned to project successfully.` },
+                journal: journaled
             };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async executeAppAction(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async executeAppAction(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             // Dynamic import to avoid circular dependencies and load only when needed
             const { CallSheetActions } = await import('./appActions/CallSheetActions');
@@ -682,7 +728,10 @@ export class DataToolExecutor {
 
             if (appName === 'call_sheet') {
                 if (actionName === 'duplicate') {
-                    return await CallSheetActions.duplicateCallSheet(parameters.callSheetId, organizationId, userId);
+                    return await CallSheetActions.duplicateCallSheet(parameters.callSheetId, organizationId, userId, journal);
+                }
+                if (journal.dryRun) {
+                    return { success: false, error: `Preview is not available for ${appName}.${actionName}` };
                 }
                 if (actionName === 'publish') {
                     return await CallSheetActions.publishCallSheet(parameters.callSheetId, organizationId, userId, parameters.baseUrl);
@@ -695,10 +744,10 @@ export class DataToolExecutor {
             if (appName === 'inventory') {
                 const { InventoryActions } = await import('./appActions/InventoryActions');
                 if (actionName === 'checkout') {
-                    return await InventoryActions.checkoutAsset(parameters.assetId, userId, organizationId);
+                    return await InventoryActions.checkoutAsset(parameters.assetId, userId, organizationId, journal);
                 }
                 if (actionName === 'checkin') {
-                    return await InventoryActions.checkinAsset(parameters.assetId, userId, organizationId);
+                    return await InventoryActions.checkinAsset(parameters.assetId, userId, organizationId, journal);
                 }
             }
 
@@ -803,7 +852,7 @@ export class DataToolExecutor {
         }
     }
 
-    private static async universalCreate(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async universalCreate(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.collectionName || !args.data) throw new Error('collectionName and data are required');
 
@@ -818,31 +867,34 @@ export class DataToolExecutor {
                 createdVia: 'AI_ARCHITECT'
             };
 
-            await docRef.set(fullData);
-            return { success: true, data: { id: docRef.id, ...fullData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: docRef, op: 'create', data: fullData }]);
+            return { success: true, data: { id: docRef.id, ...fullData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async universalUpdate(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async universalUpdate(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.collectionName || !args.id || !args.data) throw new Error('collectionName, id, and data are required');
 
             const docRef = db.collection(args.collectionName).doc(args.id);
-            const doc = await docRef.get();
-
-            if (!doc.exists) throw new Error('Document not found');
-            if (doc.data()?.organizationId !== organizationId) throw new Error('Access denied');
-
             const updateData = {
                 ...args.data,
                 updatedAt: new Date(),
                 updatedBy: userId
             };
 
-            await docRef.update(updateData);
-            return { success: true, data: { id: args.id, ...updateData } };
+            const journaled = await commitJournaledWrites(journal, [{
+                ref: docRef,
+                op: 'update',
+                data: (before) => {
+                    if (!before) throw new Error('Document not found');
+                    if (before.organizationId !== organizationId) throw new Error('Access denied');
+                    return updateData;
+                }
+            }]);
+            return { success: true, data: { id: args.id, ...updateData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
@@ -900,7 +952,7 @@ export class DataToolExecutor {
         }
     }
 
-    private static async manageContact(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async manageContact(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.firstName || !args.lastName) throw new Error('firstName and lastName are required');
 
@@ -918,14 +970,14 @@ export class DataToolExecutor {
                 updatedAt: new Date()
             };
 
-            await contactRef.set(contactData);
-            return { success: true, data: { id: contactRef.id, ...contactData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: contactRef, op: 'create', data: contactData }]);
+            return { success: true, data: { id: contactRef.id, ...contactData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async createBudget(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async createBudget(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.projectId || !args.totalAmount) throw new Error('projectId and totalAmount are required');
 
@@ -943,14 +995,14 @@ export class DataToolExecutor {
                 updatedAt: new Date()
             };
 
-            await budgetRef.set(budgetData);
-            return { success: true, data: { id: budgetRef.id, ...budgetData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: budgetRef, op: 'create', data: budgetData }]);
+            return { success: true, data: { id: budgetRef.id, ...budgetData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async manageInventoryItem(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async manageInventoryItem(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.name || !args.category) throw new Error('name and category are required');
 
@@ -968,14 +1020,14 @@ export class DataToolExecutor {
                 updatedAt: new Date()
             };
 
-            await itemRef.set(itemData);
-            return { success: true, data: { id: itemRef.id, ...itemData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: itemRef, op: 'create', data: itemData }]);
+            return { success: true, data: { id: itemRef.id, ...itemData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async logVisitor(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async logVisitor(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.visitorName || !args.purpose) throw new Error('visitorName and purpose are required');
 
@@ -992,14 +1044,14 @@ export class DataToolExecutor {
                 createdAt: new Date()
             };
 
-            await logRef.set(logData);
-            return { success: true, data: { id: logRef.id, ...logData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: logRef, op: 'create', data: logData }]);
+            return { success: true, data: { id: logRef.id, ...logData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     }
 
-    private static async createDeliveryPackage(args: any, organizationId: string, userId: string): Promise<ToolExecutionResult> {
+    private static async createDeliveryPackage(args: any, organizationId: string, userId: string, journal: JournalScope): Promise<ToolExecutionResult> {
         try {
             if (!args.name || !args.projectId) throw new Error('name and projectId are required');
 
@@ -1017,8 +1069,8 @@ export class DataToolExecutor {
                 updatedAt: new Date()
             };
 
-            await packageRef.set(packageData);
-            return { success: true, data: { id: packageRef.id, ...packageData } };
+            const journaled = await commitJournaledWrites(journal, [{ ref: packageRef, op: 'create', data: packageData }]);
+            return { success: true, data: { id: packageRef.id, ...packageData }, journal: journaled };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
@@ -14,7 +14,9 @@ import { WorkflowFunctionExecutor } from './workflowFunctionExecutor';
 import { dataToolDeclarations } from './dataTools';
 import { DataToolExecutor } from './DataToolExecutor';
 import { CoreGeminiService, TranscriptionResult, NetworkBibleResult } from './CoreGeminiService';
+import { SpendCapScope } from './gateway/spendCapGuard';
 import { constructSystemPrompt } from './prompts/SystemPrompts';
+import { parseArchitectResponse } from './utils/architectResponse';
 
 export interface AIAttachment {
   url: string;
@@ -77,8 +79,8 @@ export interface AgentResponse {
  * Gemini Service Class
  */
 export class GeminiService extends CoreGeminiService {
-  constructor(apiKey: string) {
-    super(apiKey);
+  constructor(apiKey: string, spendCapScope?: SpendCapScope) {
+    super(apiKey, spendCapScope);
   }
 
   /**
@@ -117,19 +119,10 @@ export class GeminiService extends CoreGeminiService {
     }
 
     // Import the prompt dynamically (or moved to import at top)
-    const {
-      ARCHITECT_SYSTEM_PROMPT,
-      PLAN_MODE_EXPLORATION_PROMPT,
-      PLAN_MODE_EXECUTION_PROMPT
-    } = require('./prompts/ArchitectPrompts');
+    const { buildArchitectSystemPrompt } = require('./prompts/ArchitectPrompts');
 
     // Plan mode phase: EXPLORATION (read-only) vs EXECUTION (read PLAN and implement)
-    let systemPrompt = ARCHITECT_SYSTEM_PROMPT;
-    if (phase === 'EXPLORATION') {
-      systemPrompt = PLAN_MODE_EXPLORATION_PROMPT + '\n\n' + ARCHITECT_SYSTEM_PROMPT;
-    } else if (phase === 'EXECUTION') {
-      systemPrompt = PLAN_MODE_EXECUTION_PROMPT + '\n\n' + ARCHITECT_SYSTEM_PROMPT;
-    }
+    const systemPrompt = buildArchitectSystemPrompt(phase);
 
     // Build context information for the Architect
     // CRITICAL: This context is rebuilt on EVERY iteration, so projectId must be included every time
@@ -459,74 +452,7 @@ export class GeminiService extends CoreGeminiService {
 
 
   private parseArchitectResponse(text: string): AgentResponse {
-    try {
-      // First, try to extract JSON from markdown code blocks (```json ... ```)
-      let jsonStr = '';
-      const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      if (codeBlockMatch) {
-        jsonStr = codeBlockMatch[1];
-      } else {
-        // If no code block, try to find JSON object directly
-        // Improved regex to handle cases where the model might omit the opening { or include text before it
-        const startIndex = text.indexOf('{');
-        const endIndex = text.lastIndexOf('}');
-
-        if (startIndex === -1 || endIndex === -1 || startIndex > endIndex) {
-          throw new Error('No valid JSON object delimiters found in Architect response');
-        }
-
-        jsonStr = text.substring(startIndex, endIndex + 1);
-      }
-
-      // Clean up the JSON string (remove any trailing commas, etc.)
-      jsonStr = jsonStr.trim();
-
-      const parsed = JSON.parse(jsonStr);
-
-      // Determine context: Use architect's suggestion if provided, otherwise default to plan_mode
-      let contextMode = 'plan_mode';
-      if (parsed.suggestedContext && parsed.suggestedContext !== 'none') {
-        contextMode = parsed.suggestedContext;
-      } else if (parsed.isComplete) {
-        contextMode = 'none';
-      }
-
-      return {
-        response: parsed.response,
-        suggestedContext: contextMode as any,
-        contextData: {
-          isPlan: true,
-          markdown: parsed.planMarkdown,
-          isComplete: parsed.isComplete,
-          requiresApproval: parsed.requiresApproval || false,
-          actions: parsed.actions || [], // Extract execution actions
-          multipleChoiceQuestion: parsed.multipleChoiceQuestion || null, // Extract multiple choice question
-          responseForm: parsed.responseForm || null, // Extract structured form
-          ...parsed.contextData // Include any extra data (e.g. for user list)
-        },
-        followUpSuggestions: parsed.suggestedActions || [],
-        reasoning: "Architect Planning Session"
-      } as any; // Cast to avoid strict type issues with custom contextData
-
-    } catch (error) {
-      console.error('❌ [Gemini Service] Failed to parse Architect JSON:', error);
-      console.error('❌ [Gemini Service] Raw response text:', text.substring(0, 500));
-      // Even on parse error, mark as Architect response so frontend knows to treat it as planning
-      return {
-        response: text, // Fallback to raw text
-        suggestedContext: 'plan_mode' as any, // Keep trying
-        contextData: {
-          isPlan: true, // Mark as plan so frontend recognizes it
-          markdown: '', // Empty plan
-          isComplete: false,
-          requiresApproval: false,
-          actions: [],
-          multipleChoiceQuestion: null
-        },
-        followUpSuggestions: [],
-        reasoning: "Failed to parse JSON - but still in Architect mode"
-      } as any;
-    }
+    return parseArchitectResponse(text);
   }
 
   /**
@@ -1706,7 +1632,7 @@ RULES:
  * Create Gemini Service instance
  * Uses Firebase secret for API key
  */
-export function createGeminiService(): GeminiService {
+export function createGeminiService(spendCapScope?: SpendCapScope): GeminiService {
   const apiKey = geminiApiKey.value();
 
   if (!apiKey) {
@@ -1717,7 +1643,7 @@ export function createGeminiService(): GeminiService {
   // (like VectorMemory) can access it without dependency injection
   process.env.GEMINI_API_KEY = apiKey;
 
-  return new GeminiService(apiKey);
+  return new GeminiService(apiKey, spendCapScope && { apiKeySource: 'backbone', ...spendCapScope });
 }
 
 /**
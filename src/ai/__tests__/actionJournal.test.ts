@@ -0,0 +1,67 @@
+/**
+ * Action Journal Tests
+ *
+ * Tests for applying planned writes to snapshots, field-level diffs and the
+ * "unchanged since" check undo relies on
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { applyWrite, describeChange, diffFields, matchesSnapshot } from '../actionJournal/diff';
+import { ActionJournalError } from '../actionJournal/types';
+
+const path = 'clipShowPitches/p1';
+
+describe('applyWrite', () => {
+  const before = { status: 'Pitched', organizationId: 'org1', meta: { owner: 'u1', tags: ['a'] } };
+
+  it('applies updates with dotted field paths and leaves the input untouched', () => {
+    const after = applyWrite(before, { op: 'update', path }, { status: 'Cleared', 'meta.owner': 'u2' });
+    expect(after).toEqual({ status: 'Cleared', organizationId: 'org1', meta: { owner: 'u2', tags: ['a'] } });
+    expect(before.meta.owner).toBe('u1');
+  });
+
+  it('merges or replaces on set and refuses invalid creates and updates', () => {
+    expect(applyWrite(before, { op: 'set', merge: true, path }, { meta: { reviewer: 'u3' } }))
+      .toEqual({ ...before, meta: { owner: 'u1', tags: ['a'], reviewer: 'u3' } });
+    expect(applyWrite(before, { op: 'set', path }, { status: 'New' })).toEqual({ status: 'New' });
+    expect(applyWrite(before, { op: 'delete', path })).toBeNull();
+    expect(() => applyWrite(before, { op: 'create', path }, {})).toThrow(ActionJournalError);
+    expect(() => applyWrite(null, { op: 'update', path }, { status: 'x' })).toThrow(/not found/);
+  });
+
+  it('rejects FieldValue transforms, which cannot be previewed', () => {
+    expect(() => applyWrite(before, { op: 'update', path }, { history: FieldValue.arrayUnion('x') }))
+      .toThrow(/FieldValue transform/);
+  });
+});
+
+describe('diffFields', () => {
+  it('reports changed leaves and treats Dates and Timestamps at the same instant as equal', () => {
+    const when = new Date('2026-03-01T10:00:00Z');
+    const before = { status: 'Pitched', updatedAt: Timestamp.fromDate(when), meta: { owner: 'u1' }, tags: ['a'] };
+    const after = { status: 'Cleared', updatedAt: when, meta: { owner: 'u2' }, tags: ['a', 'b'], note: 'n' };
+
+    expect(diffFields(before, after)).toEqual([
+      { field: 'meta.owner', before: 'u1', after: 'u2' },
+      { field: 'note', before: null, after: 'n' },
+      { field: 'status', before: 'Pitched', after: 'Cleared' },
+      { field: 'tags', before: ['a'], after: ['a', 'b'] }
+    ]);
+  });
+
+  it('classifies document changes and drops no-ops', () => {
+    expect(describeChange(path, null, { status: 'New' })).toMatchObject({ operation: 'create' });
+    expect(describeChange(path, { status: 'New' }, null)).toMatchObject({ operation: 'delete' });
+    expect(describeChange(path, { status: 'New' }, { status: 'New' })).toBeNull();
+  });
+});
+
+describe('matchesSnapshot', () => {
+  it('requires both existence and every field to match', () => {
+    expect(matchesSnapshot({ status: 'Cleared' }, { status: 'Cleared' })).toBe(true);
+    expect(matchesSnapshot({ status: 'Cleared', extra: 1 }, { status: 'Cleared' })).toBe(false);
+    expect(matchesSnapshot(null, null)).toBe(true);
+    expect(matchesSnapshot(null, { status: 'Cleared' })).toBe(false);
+  });
+});
@@ -29,13 +29,17 @@ vi.mock('firebase-admin', () => ({
   })
 }));
 
-// Mock AI helpers
-vi.mock('../utils/aiHelpers', () => ({
-  getAIApiKey: vi.fn().mockResolvedValue({
-    apiKey: 'test-api-key',
-    model: 'gpt-4'
-  }),
-  callAIProvider: vi.fn().mockResolvedValue('AI Response with script content')
+// Mock LLM gateway
+vi.mock('../gateway', () => ({
+  llmGateway: {
+    complete: vi.fn().mockResolvedValue({
+      text: 'AI Response with script content',
+      toolCalls: [],
+      provider: 'gemini',
+      model: 'gemini-2.5-flash'
+    })
+  },
+  rethrowAsHttpsError: vi.fn((error: unknown) => { throw error; })
 }));
 
 // Mock context service
@@ -101,8 +105,8 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should detect script context and use specialized prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     // Mock the function call
     const result = await aiChatAssistant(mockRequest as any);
@@ -110,7 +114,7 @@ describe('aiChatAssistant - Script Context', () => {
     // Verify that AI was called with script-specific prompt
     expect(mockCallAI).toHaveBeenCalled();
     const callArgs = mockCallAI.mock.calls[0];
-    const messages = callArgs[2]; // Third argument is messages array
+    const messages = callArgs[0].messages;
 
     expect(messages[0].role).toBe('system');
     expect(messages[0].content).toContain('Clipsy');
@@ -121,13 +125,13 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should include show information in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     await aiChatAssistant(mockRequest as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('Storage Wars');
     expect(systemPrompt).toContain('A reality TV show');
@@ -135,13 +139,13 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should include story details in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     await aiChatAssistant(mockRequest as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('Test Story');
     expect(systemPrompt).toContain('Documentary');
@@ -150,13 +154,13 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should include video transcripts in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     await aiChatAssistant(mockRequest as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('VIDEO TRANSCRIPTS');
     expect(systemPrompt).toContain('youtube.com/watch?v=123');
@@ -164,13 +168,13 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should include example scripts in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     await aiChatAssistant(mockRequest as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('EXAMPLE SCRIPTS FROM THIS SHOW');
     expect(systemPrompt).toContain('Example 1');
@@ -178,13 +182,13 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should include script writing guidance in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     await aiChatAssistant(mockRequest as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('WRITING GUIDANCE');
     expect(systemPrompt).toContain('Average Script Length: 500');
@@ -194,8 +198,8 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should use standard prompt when script context is not provided', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     const requestWithoutScriptContext = {
       ...mockRequest,
@@ -212,7 +216,7 @@ describe('aiChatAssistant - Script Context', () => {
     await aiChatAssistant(requestWithoutScriptContext as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     expect(systemPrompt).toContain('AI assistant for Clip Show Pro');
     expect(systemPrompt).not.toContain('Clipsy');
@@ -220,8 +224,8 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should handle missing script context fields gracefully', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     const requestWithPartialContext = {
       ...mockRequest,
@@ -246,7 +250,7 @@ describe('aiChatAssistant - Script Context', () => {
     await aiChatAssistant(requestWithPartialContext as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     // Should still build prompt with available data
     expect(systemPrompt).toContain('Storage Wars');
@@ -254,8 +258,8 @@ describe('aiChatAssistant - Script Context', () => {
   });
 
   it('should truncate long transcript text in prompt', async () => {
-    const { callAIProvider } = await import('../utils/aiHelpers');
-    const mockCallAI = callAIProvider as Mock;
+    const { llmGateway } = await import('../gateway');
+    const mockCallAI = llmGateway.complete as Mock;
 
     const requestWithLongTranscript = {
       ...mockRequest,
@@ -281,7 +285,7 @@ describe('aiChatAssistant - Script Context', () => {
     await aiChatAssistant(requestWithLongTranscript as any);
 
     const callArgs = mockCallAI.mock.calls[0];
-    const systemPrompt = callArgs[2][0].content;
+    const systemPrompt = callArgs[0].messages[0].content;
 
     // Should truncate to 500 characters with ellipsis
     const transcriptSection = systemPrompt.match(/Transcript: (.*?) \[/)?.[1];
@@ -0,0 +1,107 @@
+/**
+ * Chat Stream Tests
+ *
+ * Tests for SSE framing, Ollama NDJSON chunk parsing and the SSE response over a
+ * real HTTP connection
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect } from 'vitest';
+import { ChatStreamListener, formatSseEvent, openChatStream, splitNdjson } from '../utils/chatStream';
+
+describe('formatSseEvent', () => {
+  it('frames events with id, type and JSON data', () => {
+    expect(formatSseEvent({ type: 'token', delta: 'Hel' }, 3)).toBe('id: 3\nevent: token\ndata: {"delta":"Hel"}\n\n');
+    expect(formatSseEvent({ type: 'tool_end', tool: 'query_projects', success: true, durationMs: 12 }, 4))
+      .toBe('id: 4\nevent: tool_end\ndata: {"tool":"query_projects","success":true,"durationMs":12}\n\n');
+  });
+
+  it('keeps newlines in token text inside the data line', () => {
+    const frame = formatSseEvent({ type: 'token', delta: 'line 1\nline 2' }, 1);
+    expect(frame.split('\n').filter(line => line.startsWith('data:'))).toEqual(['data: {"delta":"line 1\\nline 2"}']);
+  });
+});
+
+describe('splitNdjson', () => {
+  it('returns complete lines and keeps the partial tail', () => {
+    const { items, rest } = splitNdjson('{"message":{"content":"Hi"}}\n{"message":{"content":" th');
+    expect(items).toEqual([{ message: { content: 'Hi' } }]);
+    expect(rest).toBe('{"message":{"content":" th');
+
+    const next = splitNdjson(rest + 'ere"}}\n{"done":true}\n');
+    expect(next.items).toEqual([{ message: { content: ' there' } }, { done: true }]);
+    expect(next.rest).toBe('');
+  });
+
+  it('skips blank and malformed lines', () => {
+    expect(splitNdjson('\n{oops}\n{"done":true}\n').items).toEqual([{ done: true }]);
+  });
+});
+
+/**
+ * POST to a local server that reads the body (as the functions body parser does)
+ * and then hands the response to openChatStream
+ */
+async function withStreamServer(
+  run: (url: string, opened: Promise<{ stream: ChatStreamListener; res: http.ServerResponse }>) => Promise<void>
+): Promise<void> {
+  let resolveOpened!: (value: { stream: ChatStreamListener; res: http.ServerResponse }) => void;
+  const opened = new Promise<{ stream: ChatStreamListener; res: http.ServerResponse }>(resolve => {
+    resolveOpened = resolve;
+  });
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const response = Object.assign(res, {
+        status: (code: number) => {
+          res.statusCode = code;
+          return response;
+        }
+      });
+      resolveOpened({ stream: openChatStream(response as any), res });
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, opened);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+describe('openChatStream', () => {
+  it('streams events written after the request body has been read and ends on done', async () => {
+    await withStreamServer(async (url, opened) => {
+      const response = await fetch(url, { method: 'POST', body: JSON.stringify({ message: 'Hi' }) });
+      const { stream } = await opened;
+      // Let the request's 'close' fire before the first model token
+      await new Promise(resolve => setTimeout(resolve, 20));
+      stream({ type: 'token', delta: 'Hel' });
+      stream({ type: 'done', result: { reply: 'Hello' } });
+
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+      expect(await response.text()).toBe(
+        formatSseEvent({ type: 'token', delta: 'Hel' }, 1) + formatSseEvent({ type: 'done', result: { reply: 'Hello' } }, 2)
+      );
+    });
+  });
+
+  it('drops events once the client disconnects', async () => {
+    await withStreamServer(async (url, opened) => {
+      const controller = new AbortController();
+      const response = await fetch(url, { method: 'POST', body: '{}', signal: controller.signal });
+      const { stream, res } = await opened;
+      const responseClosed = new Promise(resolve => res.on('close', resolve));
+      controller.abort();
+      await response.body?.cancel().catch(() => undefined);
+      await responseClosed;
+
+      const written: unknown[] = [];
+      res.write = ((chunk: unknown) => written.push(chunk)) as any;
+      stream({ type: 'token', delta: 'late' });
+      expect(written).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * LLM Gateway Tests
+ *
+ * Tests for settings normalization, spend cap checks and reservations, retry
+ * classification, tool-call message translation and the spend-capped Gemini client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import {
+  DEFAULT_GATEWAY_SETTINGS,
+  findSpendCapViolation,
+  normalizeGatewaySettings,
+  reserveSpend
+} from '../gateway/gatewaySettings';
+import { isRetryableError, retryDelayMs } from '../gateway/LLMGateway';
+import { toClaudeMessages, toGeminiContents, toOpenAIMessages } from '../gateway/providers';
+import { SpendCappedGoogleGenerativeAI } from '../gateway/spendCappedGemini';
+import { GatewayMessage } from '../gateway/types';
+
+describe('normalizeGatewaySettings', () => {
+  it('fills defaults and drops invalid values', () => {
+    expect(normalizeGatewaySettings(undefined)).toEqual({ ...DEFAULT_GATEWAY_SETTINGS, caps: { monthlyTokens: null, monthlyCostUsd: null } });
+
+    const settings = normalizeGatewaySettings({
+      fallbackOrder: ['claude', 'mistral', 'claude', 'ollama'],
+      maxAttempts: 12,
+      timeoutMs: 'soon',
+      caps: { monthlyCostUsd: 50, monthlyTokens: -1 },
+      featureCaps: { 'chat-assistant': { monthlyTokens: 100000 } }
+    });
+    expect(settings.fallbackOrder).toEqual(['claude', 'ollama']);
+    expect(settings.maxAttempts).toBe(5);
+    expect(settings.timeoutMs).toBe(DEFAULT_GATEWAY_SETTINGS.timeoutMs);
+    expect(settings.caps).toEqual({ monthlyTokens: null, monthlyCostUsd: 50 });
+    expect(settings.featureCaps['chat-assistant']).toEqual({ monthlyTokens: 100000, monthlyCostUsd: null });
+  });
+});
+
+describe('findSpendCapViolation', () => {
+  const settings = normalizeGatewaySettings({
+    caps: { monthlyCostUsd: 10 },
+    featureCaps: { 'chat-assistant': { monthlyTokens: 5000 } }
+  });
+
+  it('allows requests that fit under every cap', () => {
+    const usage = { organization: { tokens: 4000, cost: 9 }, feature: { tokens: 4000, cost: 9 } };
+    expect(findSpendCapViolation(settings, 'chat-assistant', usage, { tokens: 1000, cost: 0.5 })).toBeNull();
+  });
+
+  it('refuses a request that would cross the organization or feature cap', () => {
+    const usage = { organization: { tokens: 4000, cost: 9.8 }, feature: { tokens: 4500, cost: 1 } };
+    expect(findSpendCapViolation(settings, 'chat-assistant', usage, { tokens: 100, cost: 0.5 }))
+      .toMatchObject({ scope: 'organization', metric: 'cost', cap: 10 });
+    expect(findSpendCapViolation(settings, 'chat-assistant', { ...usage, organization: { tokens: 0, cost: 0 } }, { tokens: 600, cost: 0 }))
+      .toMatchObject({ scope: 'feature', metric: 'tokens', used: 4500, cap: 5000 });
+    expect(findSpendCapViolation(settings, 'workflow-analysis', { ...usage, organization: { tokens: 0, cost: 0 } }, { tokens: 600, cost: 0 }))
+      .toBeNull();
+  });
+});
+
+/**
+ * Firestore with a single spend counter doc (undefined until seeded), month-to-date
+ * aiTokenUsage totals and the organization's gateway settings
+ */
+function mockSpendFirestore(counter: any, monthlyUsage = { tokens: 0, cost: 0 }, settings: any = {}) {
+  const set = vi.fn();
+  const usageQuery: any = {
+    where: () => usageQuery,
+    aggregate: () => ({ get: async () => ({ data: () => monthlyUsage }) })
+  };
+  vi.mocked(getFirestore).mockReturnValue({
+    collection: (name: string) => {
+      if (name === 'aiTokenUsage') return usageQuery;
+      if (name === 'aiSpendCounters') return { doc: (id: string) => ({ id, get: async () => ({ data: () => counter }) }) };
+      return { doc: () => ({ get: async () => ({ data: () => settings }) }) };
+    },
+    runTransaction: async (update: (transaction: any) => Promise<unknown>) =>
+      update({ get: (target: any) => target.get(), set })
+  } as any);
+  return set;
+}
+
+describe('reserveSpend', () => {
+  const settings = normalizeGatewaySettings({
+    caps: { monthlyTokens: 10000 },
+    featureCaps: { 'chat-assistant': { monthlyTokens: 5000 } }
+  });
+
+  it('counts in-flight reservations against the caps and reserves a request that fits', async () => {
+    const set = mockSpendFirestore({
+      organizationId: 'org-1',
+      month: '2026-10',
+      tokens: 8000,
+      reservedTokens: 1500,
+      features: { 'chat-assistant': { tokens: 1000 } }
+    });
+
+    await expect(reserveSpend(settings, 'org-1', 'chat-assistant', { tokens: 600, cost: 0 }))
+      .resolves.toMatchObject({ reservation: null, violation: { scope: 'organization', used: 9500 } });
+    expect(set).not.toHaveBeenCalled();
+
+    const { reservation, violation } = await reserveSpend(settings, 'org-1', 'chat-assistant', { tokens: 400, cost: 0.01 });
+    expect(violation).toBeNull();
+    expect(reservation).toMatchObject({ feature: 'chat-assistant', reservedFeature: true, tokens: 400, cost: 0.01 });
+    expect(reservation?.counterId).toMatch(/^org-1_\d{4}-\d{2}$/);
+    const reserved = { reservedTokens: FieldValue.increment(400), reservedCost: FieldValue.increment(0.01) };
+    expect(set).toHaveBeenCalledWith(expect.anything(), { ...reserved, features: { 'chat-assistant': reserved } }, { merge: true });
+  });
+
+  it("seeds the month's counter from aiTokenUsage", async () => {
+    const set = mockSpendFirestore(undefined, { tokens: 9000, cost: 2 });
+
+    const { reservation } = await reserveSpend(settings, 'org-1', 'workflow-analysis', { tokens: 500, cost: 0 });
+    expect(reservation).toMatchObject({ reservedFeature: false, tokens: 500 });
+    expect(set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ organizationId: 'org-1', tokens: 9000, cost: 2, reservedTokens: FieldValue.increment(500) }),
+      { merge: true }
+    );
+  });
+
+  it('skips the counter when nothing is capped', async () => {
+    const set = mockSpendFirestore(undefined);
+    await expect(reserveSpend(DEFAULT_GATEWAY_SETTINGS, 'org-1', 'chat-assistant', { tokens: 500, cost: 0 }))
+      .resolves.toEqual({ reservation: null, violation: null });
+    expect(set).not.toHaveBeenCalled();
+  });
+});
+
+describe('retry policy', () => {
+  it('retries rate limits, server errors and dropped connections only', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ status: 401 })).toBe(false);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ name: 'APIConnectionError' })).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError(new Error('Invalid JSON schema'))).toBe(false);
+  });
+
+  it('backs off exponentially', () => {
+    expect([1, 2, 3].map(attempt => retryDelayMs(attempt, 500, () => 0))).toEqual([500, 1000, 2000]);
+    expect(retryDelayMs(1, 500, () => 1)).toBe(600);
+  });
+});
+
+describe('tool-call translation', () => {
+  const messages: GatewayMessage[] = [
+    { role: 'system', content: 'You are Clipsy.' },
+    { role: 'user', content: 'How many pitches are in review?' },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'query_pitches', arguments: { status: 'review' } }] },
+    { role: 'tool', content: '{"count":3}', toolCallId: 'call_1', name: 'query_pitches' }
+  ];
+
+  it('maps tool calls and results to OpenAI messages', () => {
+    const converted = toOpenAIMessages(messages);
+    expect(converted[2]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'query_pitches', arguments: '{"status":"review"}' } }]
+    });
+    expect(converted[3]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '{"count":3}' });
+  });
+
+  it('maps tool calls and results to Claude and Gemini content blocks', () => {
+    expect(toClaudeMessages(messages)).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'How many pitches are in review?' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'query_pitches', input: { status: 'review' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"count":3}' }] }
+    ]);
+    expect(toGeminiContents(messages).slice(1)).toEqual([
+      { role: 'model', parts: [{ functionCall: { name: 'query_pitches', args: { status: 'review' } } }] },
+      { role: 'function', parts: [{ functionResponse: { name: 'query_pitches', response: { content: '{"count":3}' } } }] }
+    ]);
+  });
+});
+
+describe('SpendCappedGoogleGenerativeAI', () => {
+  it('refuses a call over the organization cap before it reaches Gemini', async () => {
+    mockSpendFirestore(undefined, { tokens: 9990, cost: 0 }, { caps: { monthlyTokens: 10000 } });
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const model = new SpendCappedGoogleGenerativeAI('test-key', { organizationId: 'org-1', feature: 'ai-agent' })
+      .getGenerativeModel({ model: 'gemini-2.5-flash' });
+
+    await expect(model.generateContent('Summarize the shoot schedule')).rejects.toMatchObject({
+      code: 'spend_cap_exceeded',
+      message: expect.stringContaining('9990 of 10000 tokens')
+    });
+    await expect(model.startChat().sendMessage('Hello')).rejects.toMatchObject({ code: 'spend_cap_exceeded' });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
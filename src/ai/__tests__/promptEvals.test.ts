@@ -0,0 +1,103 @@
+/**
+ * Prompt Eval Tests
+ *
+ * Replays the recorded corpus against the current prompts and covers the routing
+ * rules, scoring and report comparison the eval runner builds on
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyIntent, classifyIntentByRules } from '../agents/intentRouting';
+import {
+  buildReport,
+  compareReports,
+  computePromptVersions,
+  EvalCase,
+  EvalCaseResult,
+  loadEvalCorpus,
+  RecordedResponder,
+  runEvalCase,
+  runEvaluation,
+  scoreOutcome
+} from '../evals';
+
+const versions = computePromptVersions();
+
+describe('eval corpus', () => {
+  it('passes every case from recordings made against the current prompts', async () => {
+    const report = await runEvaluation({ cases: loadEvalCorpus(), responder: new RecordedResponder(versions), versions });
+
+    const failures = report.results.filter(result => !result.passed);
+    expect(failures).toEqual([]);
+    // A stale recording means a prompt changed without the corpus being re-recorded
+    expect(report.results.filter(result => result.stale).map(result => result.id)).toEqual([]);
+    expect(Object.keys(report.suites).sort()).toEqual(['architect', 'assistant', 'routing']);
+  });
+
+  it('has unique case ids', () => {
+    const ids = loadEvalCorpus().map(evalCase => evalCase.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('intent routing', () => {
+  it('routes on keywords in report, query, action, planning order', () => {
+    expect(classifyIntentByRules('Show analytics for last month').agent).toBe('report');
+    expect(classifyIntentByRules('List all open tasks').agent).toBe('query');
+    expect(classifyIntentByRules('Cancel the Friday session').agent).toBe('action');
+    expect(classifyIntentByRules('Organize the crew rotation for next month').agent).toBe('planning');
+    expect(classifyIntentByRules('Hello there')).toMatchObject({ agent: 'query', confidence: 0.5 });
+  });
+
+  it('falls back to the rules when the classifier reply has no JSON', async () => {
+    const decision = await classifyIntent('Hello there', async () => 'not json');
+    expect(decision).toMatchObject({ agent: 'query', confidence: 0.5 });
+  });
+});
+
+describe('scoring', () => {
+  const evalCase: EvalCase = {
+    id: 'report-params',
+    suite: 'architect',
+    message: 'Generate a financial report for this project',
+    expected: {
+      actions: [{ type: 'generate_report', params: { projectId: 'p1', reportType: 'financial' } }],
+      responseExcludes: ['which project']
+    },
+    recordings: []
+  };
+
+  it('fails a tool call with the right type but the wrong params', () => {
+    const checks = scoreOutcome(evalCase, {
+      actions: [{ type: 'generate_report', params: { projectId: 'p2', reportType: 'financial', options: {} } }],
+      response: 'Generating the report now.'
+    });
+
+    expect(checks.map(item => [item.name, item.passed])).toEqual([
+      ['actions', true],
+      ['actions[0].params', false],
+      ['responseExcludes', true]
+    ]);
+  });
+
+  it('reports a missing recording as an errored case', async () => {
+    const result = await runEvalCase(evalCase, new RecordedResponder(versions));
+    expect(result).toMatchObject({ passed: false, score: 0 });
+    expect(result.error).toMatch(/No recorded response/);
+  });
+
+  it('flags cases that passed in the baseline but fail now', () => {
+    const result = (id: string, passed: boolean): EvalCaseResult =>
+      ({ id, suite: 'routing', passed, score: passed ? 1 : 0, checks: [], stale: false });
+    const meta = { promptVersions: versions, responder: 'recorded' };
+    const baseline = buildReport([result('a', true), result('b', false), result('c', true)], { ...meta, promptVersion: 'old' });
+    const current = buildReport([result('a', false), result('b', true), result('c', true)], { ...meta, promptVersion: 'new' });
+
+    expect(compareReports(baseline, current)).toEqual({
+      baselineVersion: 'old',
+      currentVersion: 'new',
+      scoreDelta: 0,
+      regressions: ['a'],
+      improvements: ['b']
+    });
+  });
+});
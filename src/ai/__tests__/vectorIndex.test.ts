@@ -0,0 +1,87 @@
+/**
+ * Vector Index Tests
+ *
+ * Tests for the IVF helpers: vector encoding, metadata filters, k-means lists and
+ * probing accuracy against an exact scan
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeVector,
+  dot,
+  encodeVector,
+  listCountFor,
+  matchesFilter,
+  nearestCentroids,
+  normalizeVector,
+  topK,
+  trainCentroids
+} from '../vectorStore/ivf';
+
+function randomVectors(count: number, dimension: number, seed: number): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => normalizeVector(Array.from({ length: dimension }, next)));
+}
+
+describe('vector encoding', () => {
+  it('round-trips Float32 vectors through base64', () => {
+    const vector = normalizeVector([3, 4, 0]);
+    expect(Array.from(vector)).toEqual([expect.closeTo(0.6), expect.closeTo(0.8), 0]);
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual(Array.from(vector));
+  });
+
+  it('rejects vectors of different dimensions', () => {
+    expect(() => dot([1, 0], [1, 0, 0])).toThrow(/dimensions differ/);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('matches equality and any-of filters', () => {
+    const metadata = { category: 'pitch', status: 'active' };
+    expect(matchesFilter(metadata)).toBe(true);
+    expect(matchesFilter(metadata, { category: 'pitch' })).toBe(true);
+    expect(matchesFilter(metadata, { category: 'story' })).toBe(false);
+    expect(matchesFilter(metadata, { status: ['draft', 'active'] })).toBe(true);
+    expect(matchesFilter(metadata, { projectId: null })).toBe(true);
+  });
+});
+
+describe('IVF lists', () => {
+  it('stays flat for small namespaces and caps the list count', () => {
+    expect(listCountFor(999, 1000, 256)).toBe(1);
+    expect(listCountFor(10000, 1000, 256)).toBe(100);
+    expect(listCountFor(1000000, 1000, 256)).toBe(256);
+  });
+
+  it('trains the same centroids for the same seed', () => {
+    const vectors = randomVectors(200, 8, 7);
+    const first = trainCentroids(vectors, 10).map(encodeVector);
+    expect(first).toHaveLength(10);
+    expect(trainCentroids(vectors, 10).map(encodeVector)).toEqual(first);
+  });
+
+  it('finds most exact nearest neighbours when probing a few lists', () => {
+    const vectors = randomVectors(2000, 16, 11);
+    const centroids = trainCentroids(vectors, 40);
+    const assignments = vectors.map(vector => nearestCentroids(vector, centroids, 1)[0]);
+    const queries = randomVectors(20, 16, 99);
+
+    let found = 0;
+    for (const query of queries) {
+      const exact = topK(vectors.map((vector, id) => ({ id, score: dot(query, vector) })), 10);
+      const probed = new Set(nearestCentroids(query, centroids, 8));
+      const approximate = topK(
+        vectors.flatMap((vector, id) => probed.has(assignments[id]) ? [{ id, score: dot(query, vector) }] : []),
+        10
+      );
+      const approximateIds = new Set(approximate.map(match => match.id));
+      found += exact.filter(match => approximateIds.has(match.id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.6);
+  });
+});
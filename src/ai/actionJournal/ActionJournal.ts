@@ -0,0 +1,199 @@
+/**
+ * Action Journal
+ *
+ * Every AI-initiated Firestore write goes through here. Writes are planned against
+ * the documents read inside a transaction, so a dry run returns exactly the
+ * field-level changes a real run would make. Real runs record before/after
+ * snapshots in `aiActionJournal`, which is what undo restores from.
+ */
+
+import { getFirestore, DocumentReference } from 'firebase-admin/firestore';
+import { applyWrite, describeChange, diffFields, matchesSnapshot } from './diff';
+import {
+  ActionJournalError,
+  DocumentChange,
+  DocumentFields,
+  JournalDocument,
+  JournalEntry,
+  JournaledResult,
+  JournalScope,
+  JournalWrite,
+  UndoConflict,
+  UndoResult
+} from './types';
+
+export const ACTION_JOURNAL_COLLECTION = 'aiActionJournal';
+
+const db = getFirestore();
+
+function uniqueRefs(refs: DocumentReference[]): DocumentReference[] {
+  return [...new Map(refs.map(ref => [ref.path, ref])).values()];
+}
+
+/**
+ * Apply (or with `scope.dryRun`, only preview) a set of writes as one journaled action
+ */
+export async function commitJournaledWrites(scope: JournalScope, writes: JournalWrite[]): Promise<JournaledResult> {
+  const dryRun = !!scope.dryRun;
+  if (writes.length === 0) {
+    return { actionId: null, planId: scope.planId, dryRun, changes: [] };
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const refs = uniqueRefs(writes.map(write => write.ref));
+    const snapshots = await transaction.getAll(...refs);
+    const originals = new Map<string, DocumentFields | null>(
+      snapshots.map(snapshot => [snapshot.ref.path, snapshot.exists ? snapshot.data()! : null])
+    );
+
+    const states = new Map(originals);
+    for (const write of writes) {
+      const before = states.get(write.ref.path) ?? null;
+      const data = typeof write.data === 'function' ? write.data(before) : write.data;
+      states.set(write.ref.path, applyWrite(before, { op: write.op, merge: write.merge, path: write.ref.path }, data));
+    }
+
+    const documents: JournalDocument[] = [];
+    const changes: DocumentChange[] = [];
+    for (const ref of refs) {
+      const before = originals.get(ref.path) ?? null;
+      const after = states.get(ref.path) ?? null;
+      const change = describeChange(ref.path, before, after);
+      if (!change) continue;
+      documents.push({ path: ref.path, before, after });
+      changes.push(change);
+    }
+
+    if (dryRun || documents.length === 0) {
+      return { actionId: null, planId: scope.planId, dryRun, changes };
+    }
+
+    for (const document of documents) {
+      const ref = db.doc(document.path);
+      if (document.after) {
+        transaction.set(ref, document.after);
+      } else {
+        transaction.delete(ref);
+      }
+    }
+
+    const entryRef = db.collection(ACTION_JOURNAL_COLLECTION).doc();
+    const entry: JournalEntry = {
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      actionType: scope.actionType,
+      planId: scope.planId || null,
+      status: 'applied',
+      documents,
+      changes,
+      createdAt: new Date()
+    };
+    transaction.set(entryRef, entry);
+
+    console.log(`📒 [ActionJournal] Recorded ${scope.actionType} (${entryRef.id}) touching ${documents.length} document(s)`);
+    return { actionId: entryRef.id, planId: scope.planId, dryRun, changes };
+  });
+}
+
+async function findEntryRefs(organizationId: string, target: { actionId?: string; planId?: string }): Promise<DocumentReference[]> {
+  if (target.actionId) {
+    return [db.collection(ACTION_JOURNAL_COLLECTION).doc(target.actionId)];
+  }
+  const snapshot = await db.collection(ACTION_JOURNAL_COLLECTION)
+    .where('organizationId', '==', organizationId)
+    .where('planId', '==', target.planId)
+    .get();
+  return snapshot.docs.map(doc => doc.ref);
+}
+
+function toMillis(value: any): number {
+  return value instanceof Date ? value.getTime() : value?.toMillis?.() ?? 0;
+}
+
+/**
+ * Revert one action, or every applied step of a plan (newest first). Refuses with a
+ * `conflict` error if any touched document changed after the journaled write.
+ */
+export async function undoJournaledActions(options: {
+  organizationId: string;
+  userId: string;
+  actionId?: string;
+  planId?: string;
+  canUndoOthers?: boolean;
+}): Promise<UndoResult> {
+  const { organizationId, userId } = options;
+  const entryRefs = await findEntryRefs(organizationId, options);
+  if (entryRefs.length === 0) {
+    throw new ActionJournalError('not_found', `No journaled actions found for plan ${options.planId}`);
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const entrySnapshots = await transaction.getAll(...entryRefs);
+    const entries = entrySnapshots
+      .filter(snapshot => snapshot.exists)
+      .map(snapshot => ({ id: snapshot.id, ref: snapshot.ref, ...(snapshot.data() as JournalEntry) }));
+
+    if (entries.length === 0) {
+      throw new ActionJournalError('not_found', `Action ${options.actionId} not found`);
+    }
+    if (entries.some(entry => entry.organizationId !== organizationId)) {
+      throw new ActionJournalError('permission_denied', 'Action does not belong to organization');
+    }
+    if (!options.canUndoOthers && entries.some(entry => entry.userId !== userId)) {
+      throw new ActionJournalError('permission_denied', 'Only admins can undo actions run by other users');
+    }
+
+    const pending = entries
+      .filter(entry => entry.status === 'applied')
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt) || b.id.localeCompare(a.id));
+    if (pending.length === 0) {
+      throw new ActionJournalError('already_undone', 'Nothing to undo; the action has already been reverted');
+    }
+
+    const refs = uniqueRefs(pending.flatMap(entry => entry.documents.map(document => db.doc(document.path))));
+    const snapshots = await transaction.getAll(...refs);
+    const currents = new Map<string, DocumentFields | null>(
+      snapshots.map(snapshot => [snapshot.ref.path, snapshot.exists ? snapshot.data()! : null])
+    );
+
+    const states = new Map(currents);
+    const conflicts: UndoConflict[] = [];
+    for (const entry of pending) {
+      for (const document of entry.documents) {
+        const current = states.get(document.path) ?? null;
+        if (!matchesSnapshot(current, document.after)) {
+          conflicts.push({ actionId: entry.id, path: document.path, fields: diffFields(document.after, current) });
+        }
+        states.set(document.path, document.before);
+      }
+    }
+
+    if (conflicts.length > 0) {
+      throw new ActionJournalError(
+        'conflict',
+        `${conflicts.length} document(s) changed after the action ran; undo would overwrite those edits`,
+        conflicts
+      );
+    }
+
+    const changes: DocumentChange[] = [];
+    for (const ref of refs) {
+      const restored = states.get(ref.path) ?? null;
+      const change = describeChange(ref.path, currents.get(ref.path) ?? null, restored);
+      if (change) changes.push(change);
+      if (restored) {
+        transaction.set(ref, restored);
+      } else {
+        transaction.delete(ref);
+      }
+    }
+
+    const undoneAt = new Date();
+    for (const entry of pending) {
+      transaction.update(entry.ref, { status: 'undone', undoneAt, undoneBy: userId });
+    }
+
+    console.log(`↩️ [ActionJournal] Undid ${pending.length} action(s) for org ${organizationId}`);
+    return { undoneActionIds: pending.map(entry => entry.id), changes };
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Action Journal Diffing
+ *
+ * Pure helpers that apply planned writes to in-memory snapshots and describe the
+ * result as field-level changes.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { ActionJournalError, DocumentChange, DocumentFields, FieldChange, JournalWrite } from './types';
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Dates and Timestamps compare by instant, references by path
+ */
+function comparable(value: any): any {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value.toMillis === 'function') return value.toMillis();
+  if (value && typeof value.path === 'string' && value.firestore) return `ref:${value.path}`;
+  return value;
+}
+
+export function valuesEqual(a: any, b: any): boolean {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return true;
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => valuesEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every(key => valuesEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+function assertJournalable(value: any, field: string): void {
+  if (value instanceof FieldValue) {
+    throw new ActionJournalError(
+      'unsupported_value',
+      `Field '${field}' uses a FieldValue transform; compute the value from the current document instead`
+    );
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => assertJournalable(item, `${field}.${index}`));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, item]) => assertJournalable(item, `${field}.${key}`));
+  }
+}
+
+function clone(value: any): any {
+  if (Array.isArray(value)) return value.map(clone);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+}
+
+function deepMerge(target: DocumentFields, source: DocumentFields): DocumentFields {
+  const merged = clone(target);
+  for (const [key, value] of Object.entries(source)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? deepMerge(merged[key], value) : clone(value);
+  }
+  return merged;
+}
+
+/**
+ * Firestore `update` treats dotted keys as nested field paths
+ */
+function setFieldPath(target: DocumentFields, path: string, value: any): void {
+  const segments = path.split('.');
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(node[segment])) node[segment] = {};
+    node = node[segment];
+  }
+  node[segments[segments.length - 1]] = clone(value);
+}
+
+/**
+ * The document as it would look after the write, or null if it would not exist
+ */
+export function applyWrite(
+  before: DocumentFields | null,
+  write: Pick<JournalWrite, 'op' | 'merge'> & { path: string },
+  data: DocumentFields = {}
+): DocumentFields | null {
+  Object.entries(data).forEach(([field, value]) => assertJournalable(value, field));
+
+  switch (write.op) {
+    case 'delete':
+      return null;
+    case 'create':
+      if (before) throw new ActionJournalError('already_exists', `${write.path} already exists`);
+      return clone(data);
+    case 'set':
+      return write.merge && before ? deepMerge(before, data) : clone(data);
+    case 'update': {
+      if (!before) throw new ActionJournalError('not_found', `${write.path} not found`);
+      const after = clone(before);
+      Object.entries(data).forEach(([field, value]) => setFieldPath(after, field, value));
+      return after;
+    }
+  }
+}
+
+/**
+ * Changed fields between two snapshots; nested maps are reported per leaf using
+ * dotted paths, arrays as a whole
+ */
+export function diffFields(before: DocumentFields | null, after: DocumentFields | null, prefix = ''): FieldChange[] {
+  const left = before || {};
+  const right = after || {};
+  const changes: FieldChange[] = [];
+  const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])].sort();
+
+  for (const key of keys) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(left[key]) && isPlainObject(right[key])) {
+      changes.push(...diffFields(left[key], right[key], field));
+    } else if (!valuesEqual(left[key], right[key])) {
+      changes.push({ field, before: left[key] ?? null, after: right[key] ?? null });
+    }
+  }
+  return changes;
+}
+
+export function describeChange(path: string, before: DocumentFields | null, after: DocumentFields | null): DocumentChange | null {
+  if (!before && !after) return null;
+  const fields = diffFields(before, after);
+  if (before && after && fields.length === 0) return null;
+  return {
+    path,
+    operation: !before ? 'create' : !after ? 'delete' : 'update',
+    fields
+  };
+}
+
+/**
+ * Whether a document still matches a journaled snapshot (null meaning absent)
+ */
+export function matchesSnapshot(current: DocumentFields | null, snapshot: DocumentFields | null): boolean {
+  if (!current || !snapshot) return !current && !snapshot;
+  return diffFields(current, snapshot).length === 0;
+}
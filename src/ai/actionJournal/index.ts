@@ -0,0 +1,10 @@
+/**
+ * Action Journal
+ *
+ * Previewable, undoable AI-initiated writes
+ */
+
+export * from './types';
+export { applyWrite, describeChange, diffFields, matchesSnapshot, valuesEqual } from './diff';
+export { ACTION_JOURNAL_COLLECTION, commitJournaledWrites, undoJournaledActions } from './ActionJournal';
+export { undoAIAction } from './undoAIAction';
@@ -0,0 +1,92 @@
+/**
+ * Action Journal Types
+ */
+
+import { DocumentReference } from 'firebase-admin/firestore';
+
+export type DocumentFields = Record<string, any>;
+
+/**
+ * A planned write. `data` may be computed from the document as it is read inside
+ * the transaction, which is how callers validate ownership or append to arrays
+ * without FieldValue transforms (those cannot be previewed or reverted).
+ */
+export interface JournalWrite {
+  ref: DocumentReference;
+  op: 'create' | 'set' | 'update' | 'delete';
+  data?: DocumentFields | ((before: DocumentFields | null) => DocumentFields);
+  merge?: boolean;
+}
+
+export interface JournalScope {
+  organizationId: string;
+  userId: string;
+  actionType: string;
+  /** Groups the steps of a multi-step plan so they can be undone together */
+  planId?: string;
+  /** Compute the changes without writing anything */
+  dryRun?: boolean;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface DocumentChange {
+  path: string;
+  operation: 'create' | 'update' | 'delete';
+  fields: FieldChange[];
+}
+
+export interface JournaledResult {
+  /** Journal entry id; null for dry runs and writes that changed nothing */
+  actionId: string | null;
+  planId?: string;
+  dryRun: boolean;
+  changes: DocumentChange[];
+}
+
+export interface JournalDocument {
+  path: string;
+  before: DocumentFields | null;
+  after: DocumentFields | null;
+}
+
+export interface JournalEntry {
+  organizationId: string;
+  userId: string;
+  actionType: string;
+  planId: string | null;
+  status: 'applied' | 'undone';
+  documents: JournalDocument[];
+  changes: DocumentChange[];
+  createdAt: Date;
+  undoneAt?: Date;
+  undoneBy?: string;
+}
+
+export interface UndoConflict {
+  actionId: string;
+  path: string;
+  fields: FieldChange[];
+}
+
+export interface UndoResult {
+  undoneActionIds: string[];
+  changes: DocumentChange[];
+}
+
+export type ActionJournalErrorCode = 'not_found' | 'already_exists' | 'already_undone' | 'conflict' | 'permission_denied' | 'unsupported_value';
+
+export class ActionJournalError extends Error {
+  constructor(
+    public readonly code: ActionJournalErrorCode,
+    message: string,
+    public readonly conflicts: UndoConflict[] = []
+  ) {
+    super(message);
+    this.name = 'ActionJournalError';
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Undo AI Action
+ *
+ * Reverts a journaled AI action, or every step of a multi-step plan, provided the
+ * touched documents have not been edited since.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { undoJournaledActions } from './ActionJournal';
+import { ActionJournalError } from './types';
+import { isOrganizationAdmin } from '../../shared/adminClaims';
+
+const ERROR_CODES: Record<ActionJournalError['code'], 'not-found' | 'already-exists' | 'failed-precondition' | 'aborted' | 'permission-denied' | 'invalid-argument'> = {
+  not_found: 'not-found',
+  already_exists: 'already-exists',
+  already_undone: 'failed-precondition',
+  conflict: 'aborted',
+  permission_denied: 'permission-denied',
+  unsupported_value: 'invalid-argument'
+};
+
+export const undoAIAction = onCall(
+  { cors: true, region: 'us-central1' },
+  async (request) => {
+    const { organizationId, actionId, planId } = request.data || {};
+
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+    if (!organizationId || request.auth.token.organizationId !== organizationId) {
+      throw new HttpsError('permission-denied', 'Not authorized for this organization');
+    }
+    if (!actionId === !planId) {
+      throw new HttpsError('invalid-argument', 'Provide either actionId or planId');
+    }
+
+    try {
+      const result = await undoJournaledActions({
+        organizationId,
+        userId: request.auth.uid,
+        actionId,
+        planId,
+        canUndoOthers: isOrganizationAdmin(request.auth.token)
+      });
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof ActionJournalError) {
+        throw new HttpsError(ERROR_CODES[error.code], error.message, { journalError: error.code, conflicts: error.conflicts });
+      }
+      console.error('[undoAIAction] Error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
@@ -3,72 +3,50 @@
  * 
  * Specialized agent for write operations (CRUD).
  * Requires confirmation/validation for destructive actions.
- * Uses create/update/delete/approve tools.
+ * Uses the journaled write tools of DataToolExecutor (previewable and undoable).
  */
 
-import { OllamaToolCallingService } from '../services/OllamaToolCallingService';
-import { UnifiedToolRegistry } from '../services/UnifiedToolRegistry';
-import { ChatMessage } from '../services/OllamaToolCallingService';
+import { randomUUID } from 'crypto';
+import { ChatMessage, ChatToolset, OllamaToolCallingService, ToolCall } from '../services/OllamaToolCallingService';
+import { DataToolExecutor, JOURNALED_WRITE_TOOLS, ToolExecutionResult } from '../DataToolExecutor';
+import { dataToolDeclarations } from '../dataTools';
+import { JournaledResult } from '../actionJournal';
+import { hasIntentKeywords } from './intentRouting';
 
 export interface ActionContext {
     userId?: string;
     organizationId?: string;
     projectId?: string;
     requireConfirmation?: boolean; // For destructive actions
+    dryRun?: boolean; // Report the changes without writing anything
 }
 
+/**
+ * Journaled write tools in the function-calling schema Ollama expects
+ */
+const ACTION_TOOLS: ChatToolset['tools'] = dataToolDeclarations
+    .filter(declaration => JOURNALED_WRITE_TOOLS.includes(declaration.name))
+    .map(declaration => ({
+        name: declaration.name,
+        description: declaration.description || '',
+        parameters: (declaration.parameters as Record<string, any>) || { type: 'object', properties: {} }
+    }));
+
 export class ActionExecutionAgent {
     private ollamaService: OllamaToolCallingService;
-    private toolRegistry: UnifiedToolRegistry;
-    private actionTools: string[] = [];
-    private destructiveTools: Set<string> = new Set();
-
-    constructor(
-        ollamaService: OllamaToolCallingService,
-        toolRegistry: UnifiedToolRegistry
-    ) {
-        this.ollamaService = ollamaService;
-        this.toolRegistry = toolRegistry;
-        // Initialize tools asynchronously (will be ready by first use)
-        this.initializeActionTools().catch(err => {
-            console.error('[ActionExecutionAgent] ⚠️ Failed to initialize action tools:', err);
-        });
-    }
 
     /**
-     * Initialize list of action tools
+     * Writes only run through DataToolExecutor's journaled tools, so every change can be
+     * previewed with a dry run and undone with undoAIAction. Registry (MCP/shared) write
+     * tools write outside the journal and are not offered here.
      */
-    private async initializeActionTools(): Promise<void> {
-        const allTools = await this.toolRegistry.getAllTools();
-        
-        allTools.forEach(tool => {
-            const name = tool.name.toLowerCase();
-            if (name.includes('create') ||
-                name.includes('update') ||
-                name.includes('delete') ||
-                name.includes('approve') ||
-                name.includes('reject') ||
-                name.includes('submit') ||
-                name.includes('assign') ||
-                name.includes('modify')) {
-                this.actionTools.push(tool.name);
-
-                // Mark destructive actions
-                if (name.includes('delete') ||
-                    name.includes('remove') ||
-                    name.includes('revoke') ||
-                    name.includes('cancel')) {
-                    this.destructiveTools.add(tool.name);
-                }
-            }
-        });
-
-        console.log(`[ActionExecutionAgent] 🔨 Initialized with ${this.actionTools.length} action tools`);
-        console.log(`[ActionExecutionAgent] ⚠️ ${this.destructiveTools.size} destructive tools require confirmation`);
+    constructor(ollamaService: OllamaToolCallingService) {
+        this.ollamaService = ollamaService;
     }
 
     /**
-     * Execute an action
+     * Execute an action. All writes of one request share a planId, so undoAIAction can
+     * revert them together.
      */
     async executeAction(
         userRequest: string,
@@ -78,35 +56,67 @@ export class ActionExecutionAgent {
         toolsUsed: string[];
         requiresConfirmation: boolean;
         data: any;
+        planId?: string;
+        dryRun: boolean;
+        journal: JournaledResult[];
     }> {
         console.log(`[ActionExecutionAgent] 🔨 Executing action: ${userRequest.substring(0, 100)}...`);
 
-        // Ensure tools are initialized
-        if (this.actionTools.length === 0) {
-            await this.initializeActionTools();
-        }
-
         // Check if request involves destructive actions
         const requiresConfirmation = this.checkRequiresConfirmation(userRequest);
+        const dryRun = !!context.dryRun;
+        const { organizationId, userId } = context;
+
+        if (!organizationId || !userId) {
+            return {
+                answer: 'Actions need an organization and a signed-in user, so nothing was changed.',
+                toolsUsed: [],
+                requiresConfirmation,
+                data: null,
+                dryRun,
+                journal: []
+            };
+        }
+
+        const planId = randomUUID();
+        const toolsUsed: string[] = [];
+        const journal: JournaledResult[] = [];
+        const toolset: ChatToolset = {
+            tools: ACTION_TOOLS,
+            execute: async (toolCall: ToolCall): Promise<ToolExecutionResult> => {
+                toolsUsed.push(toolCall.name);
+                const result = await DataToolExecutor.executeTool(toolCall.name, toolCall.arguments, organizationId, userId, {
+                    journal: { organizationId, userId, actionType: toolCall.name, planId, dryRun }
+                });
+                if (result.journal) {
+                    journal.push(result.journal);
+                }
+                return result;
+            }
+        };
 
         const messages: ChatMessage[] = [
             {
                 role: 'user',
-                content: this.buildActionPrompt(userRequest, requiresConfirmation)
+                content: this.buildActionPrompt(userRequest, requiresConfirmation, dryRun)
             }
         ];
 
         const response = await this.ollamaService.generateChatResponse(
             messages,
-            this.actionTools,
-            context
+            [],
+            context,
+            { toolset }
         );
 
         return {
             answer: response.message,
-            toolsUsed: [], // Track in future
+            toolsUsed,
             requiresConfirmation,
-            data: response
+            data: response,
+            planId: journal.some(entry => entry.actionId) ? planId : undefined,
+            dryRun,
+            journal
         };
     }
 
@@ -122,13 +132,17 @@ export class ActionExecutionAgent {
     /**
      * Build action prompt with safety instructions
      */
-    private buildActionPrompt(request: string, requiresConfirmation: boolean): string {
+    private buildActionPrompt(request: string, requiresConfirmation: boolean, dryRun: boolean): string {
         let prompt = `User request: ${request}\n\n`;
 
         if (requiresConfirmation) {
             prompt += `⚠️ WARNING: This action may be destructive. Please confirm the exact action before proceeding.\n\n`;
         }
 
+        if (dryRun) {
+            prompt += `This is a preview: tools report what they would change without writing anything. Describe those changes.\n\n`;
+        }
+
         prompt += `Execute the requested action using the available tools. `;
         prompt += `Always verify organizationId and projectId match the user's context. `;
         prompt += `Return a clear confirmation of what was done.`;
@@ -140,14 +154,6 @@ export class ActionExecutionAgent {
      * Check if a request is appropriate for this agent
      */
     static isActionIntent(request: string): boolean {
-        const actionKeywords = [
-            'create', 'add', 'new', 'make', 'build',
-            'update', 'edit', 'modify', 'change', 'set',
-            'delete', 'remove', 'cancel', 'revoke',
-            'approve', 'reject', 'submit', 'assign'
-        ];
-
-        const lowerRequest = request.toLowerCase();
-        return actionKeywords.some(keyword => lowerRequest.includes(keyword));
+        return hasIntentKeywords('action', request);
     }
 }
@@ -9,6 +9,7 @@
 import { OllamaToolCallingService } from '../services/OllamaToolCallingService';
 import { UnifiedToolRegistry } from '../services/UnifiedToolRegistry';
 import { ChatMessage } from '../services/OllamaToolCallingService';
+import { hasIntentKeywords } from './intentRouting';
 
 export interface QueryContext {
     userId?: string;
@@ -104,13 +105,6 @@ export class DataQueryAgent {
      * Check if a query is appropriate for this agent
      */
     static isQueryIntent(query: string): boolean {
-        const queryKeywords = [
-            'find', 'search', 'get', 'list', 'show', 'display',
-            'query', 'fetch', 'retrieve', 'what', 'where', 'when',
-            'who', 'how many', 'count', 'check', 'lookup'
-        ];
-
-        const lowerQuery = query.toLowerCase();
-        return queryKeywords.some(keyword => lowerQuery.includes(keyword));
+        return hasIntentKeywords('query', query);
     }
 }
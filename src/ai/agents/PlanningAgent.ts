@@ -9,6 +9,7 @@
 import { OllamaToolCallingService } from '../services/OllamaToolCallingService';
 import { UnifiedToolRegistry } from '../services/UnifiedToolRegistry';
 import { ChatMessage } from '../services/OllamaToolCallingService';
+import { hasIntentKeywords } from './intentRouting';
 
 export interface PlanningContext {
     userId?: string;
@@ -141,13 +142,6 @@ Return a structured plan with numbered steps.`;
      * Check if a request is appropriate for this agent
      */
     static isPlanningIntent(request: string): boolean {
-        const planningKeywords = [
-            'plan', 'workflow', 'schedule', 'orchestrate',
-            'steps', 'process', 'procedure', 'sequence',
-            'create workflow', 'build plan', 'organize'
-        ];
-
-        const lowerRequest = request.toLowerCase();
-        return planningKeywords.some(keyword => lowerRequest.includes(keyword));
+        return hasIntentKeywords('planning', request);
     }
 }
@@ -9,6 +9,7 @@
 import { OllamaAnalysisService } from '../services/OllamaAnalysisService';
 import { UnifiedToolRegistry } from '../services/UnifiedToolRegistry';
 import { ProjectData, AnalysisOptions } from '../services/DocumentAnalysisService';
+import { hasIntentKeywords } from './intentRouting';
 
 export interface ReportContext {
     userId?: string;
@@ -120,13 +121,6 @@ export class ReportGenerationAgent {
      * Check if a request is appropriate for this agent
      */
     static isReportIntent(request: string): boolean {
-        const reportKeywords = [
-            'report', 'analytics', 'analysis', 'summary',
-            'generate report', 'create report', 'show analytics',
-            'insights', 'metrics', 'statistics', 'dashboard'
-        ];
-
-        const lowerRequest = request.toLowerCase();
-        return reportKeywords.some(keyword => lowerRequest.includes(keyword));
+        return hasIntentKeywords('report', request);
     }
 }
@@ -14,8 +14,9 @@ import { PlanningAgent } from './PlanningAgent';
 import { ReportGenerationAgent } from './ReportGenerationAgent';
 import { ChatMessage } from '../services/OllamaToolCallingService';
 import { ProjectData } from '../services/DocumentAnalysisService';
+import { AgentType, classifyIntent, RoutingDecision } from './intentRouting';
 
-export type AgentType = 'query' | 'action' | 'planning' | 'report';
+export type { AgentType, RoutingDecision } from './intentRouting';
 
 export interface SupervisorContext {
     userId?: string;
@@ -25,12 +26,6 @@ export interface SupervisorContext {
     projectData?: ProjectData; // For report generation
 }
 
-export interface RoutingDecision {
-    agent: AgentType;
-    confidence: number;
-    reasoning: string;
-}
-
 export class SupervisorAgent {
     private ollamaService: OllamaToolCallingService;
     private toolRegistry: UnifiedToolRegistry;
@@ -50,7 +45,7 @@ export class SupervisorAgent {
 
         // Initialize specialized agents
         this.queryAgent = new DataQueryAgent(ollamaService, toolRegistry);
-        this.actionAgent = new ActionExecutionAgent(ollamaService, toolRegistry);
+        this.actionAgent = new ActionExecutionAgent(ollamaService);
         this.planningAgent = new PlanningAgent(ollamaService, toolRegistry);
         this.reportAgent = new ReportGenerationAgent(ollamaService as any, toolRegistry);
     }
@@ -119,120 +114,14 @@ export class SupervisorAgent {
     }
 
     /**
-     * Classify user intent using Ollama (phi4-mini for speed)
+     * Classify user intent: keyword rules first, Ollama (phi4-mini) for ambiguous requests
      */
     private async classifyIntent(userRequest: string): Promise<RoutingDecision> {
-        // First, try rule-based classification (fast)
-        const ruleBased = this.ruleBasedClassification(userRequest);
-        if (ruleBased.confidence > 0.8) {
-            return ruleBased;
-        }
-
-        // Fall back to LLM classification
-        return this.llmBasedClassification(userRequest);
-    }
-
-    /**
-     * Rule-based intent classification (fast, deterministic)
-     */
-    private ruleBasedClassification(userRequest: string): RoutingDecision {
-        const lowerRequest = userRequest.toLowerCase();
-
-        // Check for report intent
-        if (ReportGenerationAgent.isReportIntent(userRequest)) {
-            return {
-                agent: 'report',
-                confidence: 0.9,
-                reasoning: 'Contains report/analytics keywords'
-            };
-        }
-
-        // Check for query intent
-        if (DataQueryAgent.isQueryIntent(userRequest)) {
-            return {
-                agent: 'query',
-                confidence: 0.85,
-                reasoning: 'Contains query/search keywords'
-            };
-        }
-
-        // Check for action intent
-        if (ActionExecutionAgent.isActionIntent(userRequest)) {
-            return {
-                agent: 'action',
-                confidence: 0.85,
-                reasoning: 'Contains action keywords (create/update/delete)'
-            };
-        }
-
-        // Check for planning intent
-        if (PlanningAgent.isPlanningIntent(userRequest)) {
-            return {
-                agent: 'planning',
-                confidence: 0.85,
-                reasoning: 'Contains workflow/planning keywords'
-            };
-        }
-
-        // Default to query (safest)
-        return {
-            agent: 'query',
-            confidence: 0.5,
-            reasoning: 'Default fallback to query agent'
-        };
-    }
-
-    /**
-     * LLM-based intent classification (more accurate, slower)
-     */
-    private async llmBasedClassification(userRequest: string): Promise<RoutingDecision> {
-        const classificationPrompt = `Classify this user request into one of these categories:
-- query: User wants to find, search, get, or list information (read-only)
-- action: User wants to create, update, delete, or modify something (write operation)
-- planning: User wants to create a plan, workflow, or multi-step process
-- report: User wants a report, analysis, summary, or analytics
-
-User request: "${userRequest}"
-
-Respond with ONLY a JSON object in this format:
-{
-  "agent": "query|action|planning|report",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation"
-}`;
-
-        const messages: ChatMessage[] = [
-            {
-                role: 'user',
-                content: classificationPrompt
-            }
-        ];
-
-        try {
-            const response = await this.ollamaService.generateChatResponse(messages, []);
-
-            // Parse JSON from response
-            const jsonMatch = response.message.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const parsed = JSON.parse(jsonMatch[0]);
-                return {
-                    agent: parsed.agent || 'query',
-                    confidence: parsed.confidence || 0.7,
-                    reasoning: parsed.reasoning || 'LLM classification'
-                };
-            }
-        } catch (error: any) {
-            // If Ollama error during classification, re-throw to trigger fallback
-            const errorMessage = error?.message || String(error);
-            if (errorMessage.includes('Ollama') || errorMessage.includes('ollama')) {
-                console.error('[SupervisorAgent] ❌ Ollama error during classification, re-throwing for fallback:', errorMessage);
-                throw error; // Re-throw to trigger Gemini fallback
-            }
-            console.warn('[SupervisorAgent] ⚠️ LLM classification failed (non-Ollama error), using rule-based:', error);
-        }
-
-        // Fallback to rule-based
-        return this.ruleBasedClassification(userRequest);
+        return classifyIntent(userRequest, async (prompt) => {
+            const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+            const response = await this.ollamaService.generateChatResponse(messages, [], undefined, { stream: false });
+            return response.message;
+        });
     }
 
     /**
@@ -0,0 +1,134 @@
+/**
+ * Intent Routing
+ *
+ * Keyword rules and the LLM classification prompt the SupervisorAgent uses to pick
+ * a specialized agent. Kept free of service dependencies so routing can be
+ * replayed offline by the prompt evaluation harness.
+ */
+
+export type AgentType = 'query' | 'action' | 'planning' | 'report';
+
+export interface RoutingDecision {
+    agent: AgentType;
+    confidence: number;
+    reasoning: string;
+}
+
+/**
+ * Rule-based decisions above this confidence skip the LLM classifier
+ */
+export const RULE_CONFIDENCE_THRESHOLD = 0.8;
+
+export const INTENT_KEYWORDS: Record<AgentType, string[]> = {
+    report: [
+        'report', 'analytics', 'analysis', 'summary',
+        'generate report', 'create report', 'show analytics',
+        'insights', 'metrics', 'statistics', 'dashboard'
+    ],
+    query: [
+        'find', 'search', 'get', 'list', 'show', 'display',
+        'query', 'fetch', 'retrieve', 'what', 'where', 'when',
+        'who', 'how many', 'count', 'check', 'lookup'
+    ],
+    action: [
+        'create', 'add', 'new', 'make', 'build',
+        'update', 'edit', 'modify', 'change', 'set',
+        'delete', 'remove', 'cancel', 'revoke',
+        'approve', 'reject', 'submit', 'assign'
+    ],
+    planning: [
+        'plan', 'workflow', 'schedule', 'orchestrate',
+        'steps', 'process', 'procedure', 'sequence',
+        'create workflow', 'build plan', 'organize'
+    ]
+};
+
+export function hasIntentKeywords(agent: AgentType, request: string): boolean {
+    const lowerRequest = request.toLowerCase();
+    return INTENT_KEYWORDS[agent].some(keyword => lowerRequest.includes(keyword));
+}
+
+/**
+ * Rule-based intent classification (fast, deterministic)
+ */
+export function classifyIntentByRules(userRequest: string): RoutingDecision {
+    if (hasIntentKeywords('report', userRequest)) {
+        return { agent: 'report', confidence: 0.9, reasoning: 'Contains report/analytics keywords' };
+    }
+    if (hasIntentKeywords('query', userRequest)) {
+        return { agent: 'query', confidence: 0.85, reasoning: 'Contains query/search keywords' };
+    }
+    if (hasIntentKeywords('action', userRequest)) {
+        return { agent: 'action', confidence: 0.85, reasoning: 'Contains action keywords (create/update/delete)' };
+    }
+    if (hasIntentKeywords('planning', userRequest)) {
+        return { agent: 'planning', confidence: 0.85, reasoning: 'Contains workflow/planning keywords' };
+    }
+
+    // Default to query (safest)
+    return { agent: 'query', confidence: 0.5, reasoning: 'Default fallback to query agent' };
+}
+
+export function buildIntentClassificationPrompt(userRequest: string): string {
+    return `Classify this user request into one of these categories:
+- query: User wants to find, search, get, or list information (read-only)
+- action: User wants to create, update, delete, or modify something (write operation)
+- planning: User wants to create a plan, workflow, or multi-step process
+- report: User wants a report, analysis, summary, or analytics
+
+User request: "${userRequest}"
+
+Respond with ONLY a JSON object in this format:
+{
+  "agent": "query|action|planning|report",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation"
+}`;
+}
+
+/**
+ * Extract the routing decision from the classifier's reply; null when it has no JSON
+ */
+export function parseIntentClassification(text: string): RoutingDecision | null {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        return null;
+    }
+    const parsed = JSON.parse(jsonMatch[0]);
+    return {
+        agent: parsed.agent || 'query',
+        confidence: parsed.confidence || 0.7,
+        reasoning: parsed.reasoning || 'LLM classification'
+    };
+}
+
+/**
+ * Rules first, then the LLM classifier for low-confidence requests. Ollama failures
+ * are re-thrown so callers can fall back to Gemini; other classifier failures fall
+ * back to the rule-based decision.
+ */
+export async function classifyIntent(
+    userRequest: string,
+    classify: (prompt: string) => Promise<string>
+): Promise<RoutingDecision> {
+    const ruleBased = classifyIntentByRules(userRequest);
+    if (ruleBased.confidence > RULE_CONFIDENCE_THRESHOLD) {
+        return ruleBased;
+    }
+
+    try {
+        const decision = parseIntentClassification(await classify(buildIntentClassificationPrompt(userRequest)));
+        if (decision) {
+            return decision;
+        }
+    } catch (error: any) {
+        const errorMessage = error?.message || String(error);
+        if (errorMessage.includes('Ollama') || errorMessage.includes('ollama')) {
+            console.error('[SupervisorAgent] ❌ Ollama error during classification, re-throwing for fallback:', errorMessage);
+            throw error;
+        }
+        console.warn('[SupervisorAgent] ⚠️ LLM classification failed (non-Ollama error), using rule-based:', error);
+    }
+
+    return ruleBased;
+}
@@ -16,7 +16,7 @@ import {
   analyzeStatusTransitionPatterns,
   identifyBottlenecks
 } from './utils/workflowUnderstanding';
-import { getAIApiKey, callAIProvider } from './utils/aiHelpers';
+import { llmGateway, rethrowAsHttpsError, GatewayMessage } from './gateway';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -83,16 +83,6 @@ export const aiAutomationSuggestions = onCall(
       throw new HttpsError('invalid-argument', 'OrganizationId is required');
     }
 
-    // Get API key
-    const provider = preferredProvider || 'gemini';
-    const apiKeyData = await getAIApiKey(organizationId, provider, userId);
-    if (!apiKeyData) {
-      throw new HttpsError(
-        'failed-precondition',
-        `No ${provider} API key configured. Please configure in Integration Settings.`
-      );
-    }
-
     // Gather real data
     const automationRules = await fetchAutomationRules(organizationId);
     const executionLogs = await fetchExecutionLogs(organizationId, 200);
@@ -145,7 +135,14 @@ Format as JSON array.`;
       { role: 'user', content: contextPrompt }
     ];
 
-    const aiResponse = await callAIProvider(provider, apiKeyData.apiKey, apiKeyData.model, messages);
+    const completion = await llmGateway.complete({
+      organizationId,
+      userId,
+      feature: 'automation-suggestions',
+      messages: messages as GatewayMessage[],
+      preferredProvider: preferredProvider || 'gemini'
+    }).catch(rethrowAsHttpsError);
+    const aiResponse = completion.text;
 
     // Parse AI response (expecting JSON)
     let suggestions: AutomationSuggestion[] = [];
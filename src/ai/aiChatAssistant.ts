@@ -3,19 +3,24 @@
  * 
  * Universal AI chat assistant that uses REAL workflow data
  * Provides context-aware help and suggestions
+ *
+ * aiChatAssistantStream serves the same requests over Server-Sent Events, sending
+ * context-gathering progress and model tokens as they arrive (see utils/chatStream.ts)
  */
 
-import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { defineSecret } from 'firebase-functions/params';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { gatherEntityContext, gatherGeneralContext, formatContextForPrompt } from './aiContextService';
 import { getValidNextStatuses } from './utils/workflowUnderstanding';
-import { getAIApiKey, callAIProvider } from './utils/aiHelpers';
+import { llmGateway, rethrowAsHttpsError, GatewayMessage } from './gateway';
+import { authenticateStreamRequest, ChatStreamListener, openChatStream } from './utils/chatStream';
 import { executeCreateOperation, CreateOperationRequest } from './utils/createOperationHandler';
 import { resolveEntity, extractEntityReference, EntityReference } from './utils/entityResolver';
 import { retrieveContext as retrieveVectorContext } from './vectorStore/ContextRetrievalService';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
 
 // Define the encryption key secret (required for decrypting API keys)
 const encryptionKeySecret = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
@@ -677,17 +682,14 @@ function generateSuggestions(context: any, aiResponse: string): Array<{ action:
 /**
  * AI Chat Assistant - Main function
  */
-export const aiChatAssistant = onCall(
-  {
-    cors: true,
-    region: 'us-central1',
-    invoker: 'public', // Required for CORS preflight requests
-    timeoutSeconds: 300, // 5 minutes for AI operations (can take time for API calls)
-    memory: '512MiB', // Increased memory for AI processing
-    // Include the encryption key secret for decrypting API keys
-    secrets: [encryptionKeySecret]
-  },
-  async (request): Promise<ChatResponse> => {
+/**
+ * Handle a chat request. With a stream listener, progress and model tokens are sent
+ * as they happen; the returned ChatResponse is the same either way.
+ */
+async function handleChatRequest(
+  request: { auth?: { uid: string }; data: ChatRequest },
+  stream?: ChatStreamListener
+): Promise<ChatResponse> {
     try {
       // Verify authentication
       if (!request.auth) {
@@ -707,19 +709,8 @@ export const aiChatAssistant = onCall(
         throw new HttpsError('permission-denied', 'Invalid user authentication');
       }
 
-      // Determine provider
-      const provider = preferredProvider || 'openai';
-
-      // Get API key
-      const apiKeyData = await getAIApiKey(organizationId, provider, userId);
-      if (!apiKeyData) {
-        throw new HttpsError(
-          'failed-precondition',
-          `No ${provider} API key configured. Please configure in Integration Settings.`
-        );
-      }
-
       // Gather context
+      stream?.({ type: 'progress', stage: 'context', message: 'Gathering workflow context' });
       let aiContext;
       if (context?.entityId && context?.entityType) {
         aiContext = await gatherEntityContext(
@@ -744,6 +735,7 @@ export const aiChatAssistant = onCall(
 
       // Retrieve vector context if this is a general query (not script-specific)
       if (!context?.scriptContext && message) {
+        stream?.({ type: 'progress', stage: 'retrieval', message: 'Searching related knowledge' });
         try {
           const vectorContext = await retrieveVectorContext(organizationId, message, {
             includeSimilarScenarios: true,
@@ -1988,33 +1980,17 @@ Focus on:
         }
       }
 
-      // Call AI provider
-      // Determine if API key is user-owned or Backbone backend
-      // Check if the API key is stored in organization's aiApiKeys collection
-      // If it's in the organization collection and not a user override, it's Backbone backend
-      const orgKeyDoc = await db
-        .collection('organizations')
-        .doc(organizationId)
-        .collection('aiApiKeys')
-        .doc(provider)
-        .get();
-
-      const isBackboneBackend = orgKeyDoc.exists &&
-        orgKeyDoc.data()?.enabled &&
-        !orgKeyDoc.data()?.overrideOrgKey;
-
-      const aiResponse = await callAIProvider(
-        provider,
-        apiKeyData.apiKey,
-        apiKeyData.model,
-        messages,
-        {
-          organizationId,
-          userId,
-          apiKeySource: isBackboneBackend ? 'backbone' : 'user',
-          feature: 'chat-assistant'
-        }
-      );
+      // Call AI provider through the gateway (fallback order, spend caps, usage tracking)
+      stream?.({ type: 'progress', stage: 'generating', message: 'Generating response' });
+      const completion = await llmGateway.complete({
+        organizationId,
+        userId,
+        feature: 'chat-assistant',
+        messages: messages as GatewayMessage[],
+        preferredProvider: preferredProvider || 'openai',
+        onToken: stream ? delta => stream({ type: 'token', delta }) : undefined
+      }).catch(rethrowAsHttpsError);
+      const aiResponse = completion.text || 'No response from AI';
 
       // Skip view intent parsing if message is in suggestions mode
       // Suggestions mode messages should only generate script suggestions, not trigger navigation
@@ -2213,5 +2189,55 @@ Focus on:
         `Failed to process chat request: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
-  });
+}
 
+export const aiChatAssistant = onCall(
+  {
+    cors: true,
+    region: 'us-central1',
+    invoker: 'public', // Required for CORS preflight requests
+    timeoutSeconds: 300, // 5 minutes for AI operations (can take time for API calls)
+    memory: '512MiB', // Increased memory for AI processing
+    // Include the encryption key secret for decrypting API keys
+    secrets: [encryptionKeySecret, encryptionKeyPrevious]
+  },
+  async (request): Promise<ChatResponse> => handleChatRequest(request)
+);
+
+/**
+ * Streaming AI chat assistant (Server-Sent Events)
+ */
+export const aiChatAssistantStream = onRequest(
+  {
+    cors: true,
+    region: 'us-central1',
+    invoker: 'public',
+    timeoutSeconds: 300,
+    memory: '512MiB',
+    secrets: [encryptionKeySecret, encryptionKeyPrevious]
+  },
+  async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).json({ success: false, error: 'Method not allowed' });
+      return;
+    }
+
+    const decodedToken = await authenticateStreamRequest(req);
+    if (!decodedToken) {
+      res.status(401).json({ success: false, error: 'User must be authenticated' });
+      return;
+    }
+
+    const stream = openChatStream(res);
+    try {
+      const result = await handleChatRequest({ auth: { uid: decodedToken.uid }, data: req.body as ChatRequest }, stream);
+      stream({ type: 'done', result });
+    } catch (error) {
+      stream({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof HttpsError ? error.code : undefined
+      });
+    }
+  }
+);
@@ -16,7 +16,7 @@ import {
   getValidNextStatuses,
   analyzeStatusTransitionPatterns
 } from './utils/workflowUnderstanding';
-import { getAIApiKey, callAIProvider } from './utils/aiHelpers';
+import { llmGateway, rethrowAsHttpsError, GatewayMessage } from './gateway';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -71,16 +71,6 @@ export const aiPredictiveAutomation = onCall(
     }
 
     // Get API key
-    // Get API key
-    const provider = preferredProvider || 'gemini';
-    const apiKeyData = await getAIApiKey(organizationId, provider, userId);
-    if (!apiKeyData) {
-      throw new HttpsError(
-        'failed-precondition',
-        `No ${provider} API key configured. Please configure in Integration Settings.`
-      );
-    }
-
     // Fetch current entity
     const entity = entityType === 'pitch'
       ? await fetchCurrentPitch(entityId, organizationId)
@@ -129,7 +119,14 @@ Format as JSON array.`;
       { role: 'user', content: contextPrompt }
     ];
 
-    const aiResponse = await callAIProvider(provider, apiKeyData.apiKey, apiKeyData.model, messages);
+    const completion = await llmGateway.complete({
+      organizationId,
+      userId,
+      feature: 'predictive-automation',
+      messages: messages as GatewayMessage[],
+      preferredProvider: preferredProvider || 'gemini'
+    }).catch(rethrowAsHttpsError);
+    const aiResponse = completion.text;
 
     // Parse AI response
     let predictions: PredictiveAction[] = [];
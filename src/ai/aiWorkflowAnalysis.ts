@@ -11,7 +11,7 @@ import {
   identifyBottlenecks
 } from './utils/workflowUnderstanding';
 import { fetchRecentPitches, fetchRecentStories, fetchExecutionLogs } from './utils/workflowDataFetcher';
-import { getAIApiKey, callAIProvider } from './utils/aiHelpers';
+import { llmGateway, rethrowAsHttpsError, GatewayMessage } from './gateway';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -53,16 +53,6 @@ export const aiWorkflowAnalysis = onCall(
       throw new HttpsError('invalid-argument', 'OrganizationId is required');
     }
 
-    // Get API key
-    const provider = preferredProvider || 'openai';
-    const apiKeyData = await getAIApiKey(organizationId, provider, userId);
-    if (!apiKeyData) {
-      throw new HttpsError(
-        'failed-precondition',
-        `No ${provider} API key configured. Please configure in Integration Settings.`
-      );
-    }
-
     // Gather real data
     const statusTransitions = await analyzeStatusTransitionPatterns(
       organizationId,
@@ -104,7 +94,14 @@ Be specific and reference the actual data patterns above.`;
       { role: 'user', content: contextPrompt }
     ];
 
-    const aiResponse = await callAIProvider(provider, apiKeyData.apiKey, apiKeyData.model, messages);
+    const completion = await llmGateway.complete({
+      organizationId,
+      userId,
+      feature: 'workflow-analysis',
+      messages: messages as GatewayMessage[],
+      preferredProvider: preferredProvider || 'openai'
+    }).catch(rethrowAsHttpsError);
+    const aiResponse = completion.text;
 
     // Extract recommendations (try to parse as JSON or extract bullet points)
     const recommendations: string[] = [];
@@ -1,5 +1,6 @@
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse } from '../../shared/utils';
+import { commitJournaledWrites, JournalScope } from '../actionJournal';
 
 export class CallSheetActions {
     /**
@@ -7,8 +8,9 @@ export class CallSheetActions {
      * @param callSheetId ID of the call sheet to duplicate
      * @param organizationId Organization context
      * @param userId User performing the action
+     * @param journal Action journal scope the new document is recorded under
      */
-    static async duplicateCallSheet(callSheetId: string, organizationId: string, userId: string): Promise<any> {
+    static async duplicateCallSheet(callSheetId: string, organizationId: string, userId: string, journal: JournalScope): Promise<any> {
         console.log(`📋 [ACTION] Duplicating call sheet ${callSheetId}`);
 
         try {
@@ -62,7 +64,11 @@ export class CallSheetActions {
             };
 
             // 3. Save new call sheet
-            await admin.firestore().collection(collectionName).doc(newId).set(newData);
+            const journaled = await commitJournaledWrites(journal, [{
+                ref: admin.firestore().collection(collectionName).doc(newId),
+                op: 'create',
+                data: newData
+            }]);
 
             return {
                 success: true,
@@ -73,7 +79,8 @@ export class CallSheetActions {
                         ? `/call-sheet/${newId}` // Dashboard pattern
                         : `/sheet/${newId}`,      // Standalone pattern
                     message: `Successfully duplicated call sheet. New ID: ${newId}`
-                }
+                },
+                journal: journaled
             };
         } catch (error: any) {
             console.error('❌ [ACTION] Error duplicating call sheet:', error);
@@ -1,10 +1,11 @@
 import * as admin from 'firebase-admin';
+import { commitJournaledWrites, JournalScope } from '../actionJournal';
 
 export class InventoryActions {
     /**
      * Checks out an asset to a user
      */
-    static async checkoutAsset(assetId: string, userId: string, organizationId: string): Promise<any> {
+    static async checkoutAsset(assetId: string, userId: string, organizationId: string, journal: JournalScope): Promise<any> {
         console.log(`📦 [ACTION] Checkout Asset ${assetId} to ${userId}`);
         try {
             const db = admin.firestore();
@@ -34,16 +35,20 @@ export class InventoryActions {
             if (!assetData) return { success: false, error: `Asset '${assetId}' not found.` };
             if (assetData.status === 'checked_out') return { success: false, error: `Asset is already checked out to ${assetData.currentHolderId}` };
 
-            await finalAssetRef.update({
-                status: 'checked_out',
-                currentHolderId: userId,
-                lastCheckoutDate: admin.firestore.Timestamp.now(),
-                history: admin.firestore.FieldValue.arrayUnion({
-                    action: 'checkout',
-                    userId: userId,
-                    date: admin.firestore.Timestamp.now()
+            const journaled = await commitJournaledWrites(journal, [{
+                ref: finalAssetRef,
+                op: 'update',
+                data: (before) => ({
+                    status: 'checked_out',
+                    currentHolderId: userId,
+                    lastCheckoutDate: admin.firestore.Timestamp.now(),
+                    history: [...(before?.history || []), {
+                        action: 'checkout',
+                        userId: userId,
+                        date: admin.firestore.Timestamp.now()
+                    }]
                 })
-            });
+            }]);
 
             return {
                 success: true,
@@ -51,7 +56,8 @@ export class InventoryActions {
                     message: `Successfully checked out '${assetData.name}'.`,
                     assetId: finalAssetRef.id,
                     status: 'checked_out'
-                }
+                },
+                journal: journaled
             };
         } catch (error: any) {
             console.error('❌ [ACTION] Error checking out asset:', error);
@@ -62,23 +68,27 @@ export class InventoryActions {
     /**
      * Checks in an asset
      */
-    static async checkinAsset(assetId: string, userId: string, organizationId: string): Promise<any> {
+    static async checkinAsset(assetId: string, userId: string, organizationId: string, journal: JournalScope): Promise<any> {
         console.log(`📦 [ACTION] Checkin Asset ${assetId}`);
         try {
             const db = admin.firestore();
             const assetRef = db.collection('inventory_items').doc(assetId);
             // (Simplified logic for MVP - similar search logic as above would be better for consistency)
 
-            await assetRef.update({
-                status: 'available',
-                currentHolderId: null,
-                lastCheckinDate: admin.firestore.Timestamp.now(),
-                history: admin.firestore.FieldValue.arrayUnion({
-                    action: 'checkin',
-                    userId: userId,
-                    date: admin.firestore.Timestamp.now()
+            const journaled = await commitJournaledWrites(journal, [{
+                ref: assetRef,
+                op: 'update',
+                data: (before) => ({
+                    status: 'available',
+                    currentHolderId: null,
+                    lastCheckinDate: admin.firestore.Timestamp.now(),
+                    history: [...(before?.history || []), {
+                        action: 'checkin',
+                        userId: userId,
+                        date: admin.firestore.Timestamp.now()
+                    }]
                 })
-            });
+            }]);
 
             return {
                 success: true,
@@ -86,7 +96,8 @@ export class InventoryActions {
                     message: `Successfully checked in asset.`,
                     assetId: assetId,
                     status: 'available'
-                }
+                },
+                journal: journaled
             };
         } catch (error: any) {
             return { success: false, error: error.message };
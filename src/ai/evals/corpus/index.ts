@@ -0,0 +1,30 @@
+/**
+ * Eval Corpus
+ *
+ * Recorded user requests per suite with the routing, tool calls and plan shape
+ * they are expected to produce. Re-record with `npm run eval:prompts -- --record`.
+ */
+
+import architectCases from './architect.json';
+import assistantCases from './assistant.json';
+import routingCases from './routing.json';
+import { EvalCase, EvalSuite, EVAL_SUITES } from '../types';
+
+export const EVAL_CORPUS_FILES: Record<EvalSuite, string> = {
+  routing: 'routing.json',
+  architect: 'architect.json',
+  assistant: 'assistant.json'
+};
+
+const CORPUS: Record<EvalSuite, EvalCase[]> = {
+  routing: routingCases as EvalCase[],
+  architect: architectCases as EvalCase[],
+  assistant: assistantCases as EvalCase[]
+};
+
+/**
+ * Fresh copies of the corpus cases, so recording runs can update them in place
+ */
+export function loadEvalCorpus(suites: EvalSuite[] = EVAL_SUITES): EvalCase[] {
+  return suites.flatMap(suite => CORPUS[suite].map(evalCase => JSON.parse(JSON.stringify(evalCase)) as EvalCase));
+}
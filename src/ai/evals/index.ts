@@ -0,0 +1,13 @@
+/**
+ * Prompt Evaluation Harness
+ *
+ * Offline replay of the routing rules, Architect prompts and assistant prompt
+ * against a recorded corpus, scored per prompt version.
+ */
+
+export * from './types';
+export * from './promptVersions';
+export * from './responders';
+export * from './scoring';
+export * from './runner';
+export * from './corpus';
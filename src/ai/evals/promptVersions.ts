@@ -0,0 +1,41 @@
+/**
+ * Prompt Versions
+ *
+ * Content hashes of everything a suite sends to the model (or routes on), so
+ * recordings and reports can be tied to the prompt text that produced them.
+ */
+
+import { createHash } from 'crypto';
+import { buildArchitectSystemPrompt } from '../prompts/ArchitectPrompts';
+import { constructSystemPrompt } from '../prompts/SystemPrompts';
+import { buildIntentClassificationPrompt, INTENT_KEYWORDS, RULE_CONFIDENCE_THRESHOLD } from '../agents/intentRouting';
+import { EVAL_SUITES, PromptVersions } from './types';
+
+function hash(parts: string[]): string {
+  const digest = createHash('sha256');
+  parts.forEach(part => digest.update(part).update('\u0000'));
+  return digest.digest('hex').slice(0, 12);
+}
+
+export function computePromptVersions(): PromptVersions {
+  return {
+    routing: hash([
+      buildIntentClassificationPrompt('{request}'),
+      JSON.stringify(INTENT_KEYWORDS),
+      String(RULE_CONFIDENCE_THRESHOLD)
+    ]),
+    architect: hash([
+      buildArchitectSystemPrompt(),
+      buildArchitectSystemPrompt('EXPLORATION'),
+      buildArchitectSystemPrompt('EXECUTION')
+    ]),
+    assistant: hash([constructSystemPrompt('{context}')])
+  };
+}
+
+/**
+ * Single identifier for a set of suite versions, used to name reports
+ */
+export function combinedPromptVersion(versions: PromptVersions): string {
+  return hash(EVAL_SUITES.map(suite => `${suite}:${versions[suite]}`));
+}
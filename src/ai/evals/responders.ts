@@ -0,0 +1,95 @@
+/**
+ * Eval Model Responders
+ *
+ * RecordedResponder replays captured replies (no network, no cost). OllamaResponder
+ * asks a local model, standing in for the paid providers when prompts change, and
+ * RecordingResponder captures those replies back into the corpus.
+ */
+
+import { EvalCase, MissingRecordingError, ModelCall, ModelReply, ModelResponder, PromptVersions } from './types';
+
+const DEFAULT_OLLAMA_TIMEOUT_MS = 120000;
+
+export class RecordedResponder implements ModelResponder {
+  readonly name = 'recorded';
+
+  constructor(private readonly versions: PromptVersions) {}
+
+  /**
+   * Prefers a recording made against the current prompt version, otherwise replays
+   * the newest one and marks the reply stale
+   */
+  async respond(evalCase: EvalCase, call: ModelCall): Promise<ModelReply> {
+    const version = this.versions[call.suite];
+    const exact = evalCase.recordings.find(recording => recording.promptVersion === version);
+    const recording = exact || [...evalCase.recordings].sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0];
+    if (!recording) {
+      throw new MissingRecordingError(evalCase.id);
+    }
+    return { text: recording.response, model: recording.model, stale: !exact };
+  }
+}
+
+export class OllamaResponder implements ModelResponder {
+  readonly name: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly timeoutMs = DEFAULT_OLLAMA_TIMEOUT_MS
+  ) {
+    this.name = `ollama:${model}`;
+  }
+
+  async respond(_evalCase: EvalCase, call: ModelCall): Promise<ModelReply> {
+    const messages = [
+      ...(call.system ? [{ role: 'system', content: call.system }] : []),
+      { role: 'user', content: call.prompt }
+    ];
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          stream: false,
+          format: call.json ? 'json' : undefined,
+          options: { temperature: 0 }
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error: any) {
+      throw new Error(`Ollama request failed: ${error?.message || error}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Ollama returned ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    return { text: data.message?.content || '', model: this.model, stale: false };
+  }
+}
+
+/**
+ * Replaces each case's recording for the current prompt version with the live reply
+ */
+export class RecordingResponder implements ModelResponder {
+  readonly name: string;
+
+  constructor(private readonly inner: ModelResponder, private readonly versions: PromptVersions) {
+    this.name = inner.name;
+  }
+
+  async respond(evalCase: EvalCase, call: ModelCall): Promise<ModelReply> {
+    const reply = await this.inner.respond(evalCase, call);
+    const promptVersion = this.versions[call.suite];
+    evalCase.recordings = [
+      ...evalCase.recordings.filter(recording => recording.promptVersion !== promptVersion),
+      { promptVersion, model: reply.model, response: reply.text, recordedAt: new Date().toISOString() }
+    ];
+    return reply;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Eval Scoring
+ *
+ * Turns a case's expectations into individual checks; a case scores the share of
+ * checks it passes and only counts as passed when all of them do.
+ */
+
+import { EvalCaseResult, EvalCheck, EvalOutcome, EvalReport, EvalCase, EvalSuite, EvalSuiteSummary, ReportComparison } from './types';
+
+function check(name: string, expected: any, actual: any, passed = JSON.stringify(expected) === JSON.stringify(actual ?? null)): EvalCheck {
+  return { name, passed, expected, actual: actual ?? null };
+}
+
+function paramsMatch(expected: Record<string, any>, actual: Record<string, any> = {}): boolean {
+  return Object.entries(expected).every(([key, value]) => JSON.stringify(actual[key]) === JSON.stringify(value));
+}
+
+export function scoreOutcome(evalCase: EvalCase, outcome: EvalOutcome): EvalCheck[] {
+  const expected = evalCase.expected;
+  const checks: EvalCheck[] = [];
+
+  if (expected.agent !== undefined) checks.push(check('agent', expected.agent, outcome.agent));
+  if (expected.usesClassifier !== undefined) checks.push(check('usesClassifier', expected.usesClassifier, outcome.usedClassifier));
+  if (expected.suggestedContext !== undefined) checks.push(check('suggestedContext', expected.suggestedContext, outcome.suggestedContext));
+  if (expected.intent !== undefined) checks.push(check('intent', expected.intent, outcome.intent));
+  if (expected.suggestedDialog !== undefined) checks.push(check('suggestedDialog', expected.suggestedDialog, outcome.suggestedDialog));
+  if (expected.requiresApproval !== undefined) checks.push(check('requiresApproval', expected.requiresApproval, outcome.requiresApproval));
+  if (expected.asksQuestion !== undefined) checks.push(check('asksQuestion', expected.asksQuestion, outcome.asksQuestion));
+
+  if (expected.actions) {
+    const actual = outcome.actions || [];
+    checks.push(check('actions', expected.actions.map(action => action.type), actual.map(action => action.type)));
+    expected.actions.forEach((action, index) => {
+      if (!action.params) return;
+      const candidate = actual[index]?.type === action.type ? actual[index] : actual.find(item => item.type === action.type);
+      checks.push(check(`actions[${index}].params`, action.params, candidate?.params, !!candidate && paramsMatch(action.params, candidate.params)));
+    });
+  }
+
+  if (expected.responseExcludes?.length) {
+    const response = (outcome.response || '').toLowerCase();
+    const found = expected.responseExcludes.filter(phrase => response.includes(phrase.toLowerCase()));
+    checks.push(check('responseExcludes', [], found));
+  }
+
+  return checks;
+}
+
+function summarize(results: EvalCaseResult[]): EvalSuiteSummary {
+  const total = results.reduce((sum, result) => sum + result.score, 0);
+  return {
+    cases: results.length,
+    passed: results.filter(result => result.passed).length,
+    score: results.length ? Math.round((total / results.length) * 1000) / 1000 : 0
+  };
+}
+
+export function buildReport(
+  results: EvalCaseResult[],
+  meta: Pick<EvalReport, 'promptVersion' | 'promptVersions' | 'responder'>
+): EvalReport {
+  const suites: EvalReport['suites'] = {};
+  for (const suite of new Set(results.map(result => result.suite))) {
+    suites[suite as EvalSuite] = summarize(results.filter(result => result.suite === suite));
+  }
+  const summary = summarize(results);
+
+  return {
+    ...meta,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      ...summary,
+      failed: summary.cases - summary.passed,
+      errored: results.filter(result => result.error).length,
+      stale: results.filter(result => result.stale).length
+    },
+    suites,
+    results
+  };
+}
+
+/**
+ * Cases that passed in the baseline but not now (including removed cases), and the reverse.
+ * Only suites present in the current report are compared, so a single-suite run can be
+ * checked against a full baseline.
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): ReportComparison {
+  const baselineResults = baseline.results.filter(result => result.suite in current.suites);
+  const before = new Map(baselineResults.map(result => [result.id, result.passed]));
+  const after = new Map(current.results.map(result => [result.id, result.passed]));
+
+  return {
+    baselineVersion: baseline.promptVersion,
+    currentVersion: current.promptVersion,
+    scoreDelta: Math.round((current.summary.score - summarize(baselineResults).score) * 1000) / 1000,
+    regressions: [...before].filter(([id, passed]) => passed && !after.get(id)).map(([id]) => id),
+    improvements: [...after].filter(([id, passed]) => passed && !before.get(id)).map(([id]) => id)
+  };
+}
+
+export function formatReport(report: EvalReport, comparison?: ReportComparison): string {
+  const percent = (score: number) => `${(score * 100).toFixed(1)}%`;
+  const lines = [
+    `Prompt version ${report.promptVersion} (${Object.entries(report.promptVersions).map(([suite, version]) => `${suite} ${version}`).join(', ')})`,
+    `Responder: ${report.responder}`,
+    `Score ${percent(report.summary.score)} — ${report.summary.passed}/${report.summary.cases} passed, ` +
+      `${report.summary.errored} errored, ${report.summary.stale} replayed from stale recordings`,
+    ...Object.entries(report.suites).map(([suite, summary]) => `  ${suite}: ${percent(summary!.score)} (${summary!.passed}/${summary!.cases})`)
+  ];
+
+  const failures = report.results.filter(result => !result.passed);
+  if (failures.length) {
+    lines.push('', 'Failures:');
+    for (const result of failures) {
+      const detail = result.error || result.checks
+        .filter(item => !item.passed)
+        .map(item => `${item.name}: expected ${JSON.stringify(item.expected)}, got ${JSON.stringify(item.actual)}`)
+        .join('; ');
+      lines.push(`  ✗ ${result.id}${result.stale ? ' (stale)' : ''} — ${detail}`);
+    }
+  }
+
+  if (comparison) {
+    lines.push(
+      '',
+      `Against ${comparison.baselineVersion}: ${comparison.scoreDelta >= 0 ? '+' : ''}${(comparison.scoreDelta * 100).toFixed(1)} points`,
+      `  Regressions: ${comparison.regressions.length ? comparison.regressions.join(', ') : 'none'}`,
+      `  Improvements: ${comparison.improvements.length ? comparison.improvements.join(', ') : 'none'}`
+    );
+  }
+  return lines.join('\n');
+}
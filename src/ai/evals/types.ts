@@ -0,0 +1,146 @@
+/**
+ * Prompt Evaluation Types
+ */
+
+import { AgentType } from '../agents/intentRouting';
+
+/**
+ * routing: SupervisorAgent intent routing (masterAgentV2)
+ * architect: Architect planning prompts (ai/prompts/architect/*)
+ * assistant: SystemPrompts + HotContainerContexts (chat assistant views and dialogs)
+ */
+export type EvalSuite = 'routing' | 'architect' | 'assistant';
+
+export const EVAL_SUITES: EvalSuite[] = ['routing', 'architect', 'assistant'];
+
+export type PromptVersions = Record<EvalSuite, string>;
+
+/**
+ * A model reply captured against a specific prompt version
+ */
+export interface EvalRecording {
+  promptVersion: string;
+  model: string;
+  response: string;
+  recordedAt: string;
+}
+
+export interface ExpectedAction {
+  type: string;
+  params?: Record<string, any>;
+}
+
+export interface EvalExpectation {
+  /** routing: agent the request must reach */
+  agent?: AgentType;
+  /** routing: whether the keyword rules are expected to defer to the LLM classifier */
+  usesClassifier?: boolean;
+  suggestedContext?: string;
+  /** assistant: dialog intent (null when no dialog should open) */
+  intent?: string | null;
+  suggestedDialog?: string | null;
+  /** architect: plan must (not) wait for user approval */
+  requiresApproval?: boolean;
+  /** architect: plan must ask a clarifying question (multiple choice or form) */
+  asksQuestion?: boolean;
+  /** Tool calls in the plan, in order */
+  actions?: ExpectedAction[];
+  /** Phrases that must not appear in the reply (case-insensitive) */
+  responseExcludes?: string[];
+}
+
+export interface EvalCase {
+  id: string;
+  suite: EvalSuite;
+  description?: string;
+  message: string;
+  phase?: 'EXPLORATION' | 'EXECUTION';
+  projectId?: string;
+  contextSummary?: string;
+  expected: EvalExpectation;
+  recordings: EvalRecording[];
+}
+
+export interface EvalOutcome {
+  agent?: AgentType;
+  usedClassifier?: boolean;
+  suggestedContext?: string;
+  intent?: string | null;
+  suggestedDialog?: string | null;
+  requiresApproval?: boolean;
+  asksQuestion?: boolean;
+  actions?: Array<{ type: string; params: Record<string, any> }>;
+  response?: string;
+}
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  expected: any;
+  actual: any;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  suite: EvalSuite;
+  passed: boolean;
+  score: number;
+  checks: EvalCheck[];
+  model?: string;
+  /** Replayed from a recording made against a different prompt version */
+  stale: boolean;
+  error?: string;
+}
+
+export interface EvalSuiteSummary {
+  cases: number;
+  passed: number;
+  score: number;
+}
+
+export interface EvalReport {
+  promptVersion: string;
+  promptVersions: PromptVersions;
+  responder: string;
+  generatedAt: string;
+  summary: EvalSuiteSummary & { failed: number; errored: number; stale: number };
+  suites: Partial<Record<EvalSuite, EvalSuiteSummary>>;
+  results: EvalCaseResult[];
+}
+
+export interface ReportComparison {
+  baselineVersion: string;
+  currentVersion: string;
+  scoreDelta: number;
+  regressions: string[];
+  improvements: string[];
+}
+
+export interface ModelCall {
+  suite: EvalSuite;
+  system?: string;
+  prompt: string;
+  /** Ask for a JSON object reply */
+  json: boolean;
+}
+
+export interface ModelReply {
+  text: string;
+  model: string;
+  stale: boolean;
+}
+
+/**
+ * Where model replies come from during a run: recordings, or a local model
+ */
+export interface ModelResponder {
+  readonly name: string;
+  respond(evalCase: EvalCase, call: ModelCall): Promise<ModelReply>;
+}
+
+export class MissingRecordingError extends Error {
+  constructor(caseId: string) {
+    super(`No recorded response for eval case '${caseId}'`);
+    this.name = 'MissingRecordingError';
+  }
+}
@@ -3,12 +3,16 @@
  * 
  * Executes AI-suggested actions after user confirmation
  * Supports: status updates, reassignments, deadline extensions, notifications
+ *
+ * Writes go through the action journal: `dryRun` returns the field-level changes
+ * without applying them, and applied actions can be reverted with `undoAIAction`.
  */
 
 import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import { sendSystemAlert } from '../utils/systemAlerts';
+import { commitJournaledWrites, DocumentChange, DocumentFields, JournaledResult, JournalScope } from './actionJournal';
 
 const db = getFirestore();
 const auth = getAuth();
@@ -18,6 +22,8 @@ export interface ActionExecutionRequest {
   actionData: any;
   alertId?: string;
   organizationId: string;
+  dryRun?: boolean;
+  planId?: string;
 }
 
 export interface ActionExecutionResult {
@@ -28,6 +34,10 @@ export interface ActionExecutionResult {
     id: string;
     changes: any;
   };
+  actionId?: string | null;
+  planId?: string;
+  dryRun?: boolean;
+  changes?: DocumentChange[];
   error?: string;
 }
 
@@ -42,13 +52,14 @@ export const executeAIAction = onCall(
     timeoutSeconds: 300
   },
   async (request): Promise<ActionExecutionResult> => {
-    const { actionType, actionData, alertId, organizationId } = request.data;
+    const { actionType, actionData, alertId, organizationId, dryRun, planId } = request.data;
 
     if (!request.auth) {
       throw new HttpsError('unauthenticated', 'User must be authenticated');
     }
 
     const userId = request.auth.uid;
+    const journal: JournalScope = { organizationId, userId, actionType, planId, dryRun: !!dryRun };
 
     // Verify user has permission
     // This would check user's role and permissions in the organization
@@ -59,19 +70,21 @@ export const executeAIAction = onCall(
       // Handle specific legacy actions or complex logic
       switch (actionType) {
         case 'status_update':
-          result = await executeStatusUpdate(actionData, organizationId, userId);
+          result = await executeStatusUpdate(actionData, journal);
           break;
 
         case 'reassign':
-          result = await executeReassignment(actionData, organizationId, userId);
+          result = await executeReassignment(actionData, journal);
           break;
 
         case 'extend_deadline':
-          result = await executeExtendDeadline(actionData, organizationId, userId);
+          result = await executeExtendDeadline(actionData, journal);
           break;
 
         case 'notify_team':
-          result = await executeNotifyTeam(actionData, organizationId, userId);
+          result = dryRun
+            ? { success: true, message: `Would notify ${actionData?.recipients?.length || 0} team member(s)`, dryRun: true, changes: [] }
+            : await executeNotifyTeam(actionData, organizationId, userId);
           break;
 
         default:
@@ -92,7 +105,8 @@ export const executeAIAction = onCall(
               actionType as any,
               actionData,
               organizationId,
-              userId
+              userId,
+              { journal }
             );
             console.log(`📥 [executeAIAction] Tool execution result:`, JSON.stringify(toolResult, null, 2));
 
@@ -113,8 +127,9 @@ export const executeAIAction = onCall(
             } else {
               result = {
                 success: true,
-                message: `Successfully executed ${actionType}`,
-                data: toolResult.data
+                message: dryRun ? `Previewed ${actionType}` : `Successfully executed ${actionType}`,
+                data: toolResult.data,
+                ...toolResult.journal
               } as any;
             }
           } catch (importError: any) {
@@ -128,7 +143,7 @@ export const executeAIAction = onCall(
       }
 
       // Update alert status if alertId provided
-      if (alertId && result.success) {
+      if (alertId && result.success && !dryRun) {
         await db.collection('clipShowAlerts').doc(alertId).update({
           status: 'resolved',
           resolvedAt: new Date(),
@@ -144,6 +159,7 @@ export const executeAIAction = onCall(
         actionType,
         actionData,
         alertId,
+        dryRun: !!dryRun,
         success: result.success,
         result
       });
@@ -181,13 +197,41 @@ export const executeAIAction = onCall(
   }
 );
 
+/**
+ * Resolve the pitch/story document for an entity-scoped action
+ */
+function entityDocRef(entityType: string, entityId: string) {
+  const collectionName = entityType === 'pitch' ? 'clipShowPitches' : 'clipShowStories';
+  return db.collection(collectionName).doc(entityId);
+}
+
+/**
+ * Checked against the snapshot read inside the journal transaction
+ */
+function requireOrganizationDocument(before: DocumentFields | null, entityType: string, organizationId: string): void {
+  if (!before) {
+    throw new HttpsError('not-found', `${entityType} not found`);
+  }
+  if (before.organizationId !== organizationId) {
+    throw new HttpsError('permission-denied', 'Document does not belong to organization');
+  }
+}
+
+function journalFields(journaled: JournaledResult): Pick<ActionExecutionResult, 'actionId' | 'planId' | 'dryRun' | 'changes'> {
+  return {
+    actionId: journaled.actionId,
+    planId: journaled.planId,
+    dryRun: journaled.dryRun,
+    changes: journaled.changes
+  };
+}
+
 /**
  * Execute status update
  */
 async function executeStatusUpdate(
   actionData: any,
-  organizationId: string,
-  userId: string
+  journal: JournalScope
 ): Promise<ActionExecutionResult> {
   const { entityType, entityId, newStatus } = actionData;
 
@@ -195,35 +239,28 @@ async function executeStatusUpdate(
     throw new HttpsError('invalid-argument', 'entityType, entityId, and newStatus are required');
   }
 
-  const collectionName = entityType === 'pitch' ? 'clipShowPitches' : 'clipShowStories';
-  const docRef = db.collection(collectionName).doc(entityId);
-
-  // Verify document exists and belongs to organization
-  const doc = await docRef.get();
-  if (!doc.exists) {
-    throw new HttpsError('not-found', `${entityType} not found`);
-  }
-
-  const data = doc.data();
-  if (data?.organizationId !== organizationId) {
-    throw new HttpsError('permission-denied', 'Document does not belong to organization');
-  }
-
-  // Update status
-  await docRef.update({
-    status: newStatus,
-    updatedAt: new Date(),
-    lastUpdatedBy: userId
-  });
+  const journaled = await commitJournaledWrites(journal, [{
+    ref: entityDocRef(entityType, entityId),
+    op: 'update',
+    data: (before) => {
+      requireOrganizationDocument(before, entityType, journal.organizationId);
+      return {
+        status: newStatus,
+        updatedAt: new Date(),
+        lastUpdatedBy: journal.userId
+      };
+    }
+  }]);
 
   return {
     success: true,
-    message: `Status updated to "${newStatus}"`,
+    message: journaled.dryRun ? `Status would change to "${newStatus}"` : `Status updated to "${newStatus}"`,
     updatedEntity: {
       type: entityType,
       id: entityId,
       changes: { status: newStatus }
-    }
+    },
+    ...journalFields(journaled)
   };
 }
 
@@ -232,8 +269,7 @@ async function executeStatusUpdate(
  */
 async function executeReassignment(
   actionData: any,
-  organizationId: string,
-  userId: string
+  journal: JournalScope
 ): Promise<ActionExecutionResult> {
   const { entityType, entityId, newAssigneeId, assignmentField } = actionData;
 
@@ -241,37 +277,28 @@ async function executeReassignment(
     throw new HttpsError('invalid-argument', 'entityType, entityId, newAssigneeId, and assignmentField are required');
   }
 
-  const collectionName = entityType === 'pitch' ? 'clipShowPitches' : 'clipShowStories';
-  const docRef = db.collection(collectionName).doc(entityId);
-
-  // Verify document exists
-  const doc = await docRef.get();
-  if (!doc.exists) {
-    throw new HttpsError('not-found', `${entityType} not found`);
-  }
-
-  const data = doc.data();
-  if (data?.organizationId !== organizationId) {
-    throw new HttpsError('permission-denied', 'Document does not belong to organization');
-  }
-
-  // Update assignment
-  const updateData: any = {
-    [assignmentField]: newAssigneeId,
-    updatedAt: new Date(),
-    lastUpdatedBy: userId
-  };
-
-  await docRef.update(updateData);
+  const journaled = await commitJournaledWrites(journal, [{
+    ref: entityDocRef(entityType, entityId),
+    op: 'update',
+    data: (before) => {
+      requireOrganizationDocument(before, entityType, journal.organizationId);
+      return {
+        [assignmentField]: newAssigneeId,
+        updatedAt: new Date(),
+        lastUpdatedBy: journal.userId
+      };
+    }
+  }]);
 
   return {
     success: true,
-    message: `Reassigned to new user`,
+    message: journaled.dryRun ? `Would reassign to new user` : `Reassigned to new user`,
     updatedEntity: {
       type: entityType,
       id: entityId,
       changes: { [assignmentField]: newAssigneeId }
-    }
+    },
+    ...journalFields(journaled)
   };
 }
 
@@ -280,8 +307,7 @@ async function executeReassignment(
  */
 async function executeExtendDeadline(
   actionData: any,
-  organizationId: string,
-  userId: string
+  journal: JournalScope
 ): Promise<ActionExecutionResult> {
   const { entityType, entityId, newDeadline } = actionData;
 
@@ -292,29 +318,32 @@ async function executeExtendDeadline(
   // Update calendar event if it exists
   const eventsSnapshot = await db
     .collection('calendarEvents')
-    .where('organizationId', '==', organizationId)
+    .where('organizationId', '==', journal.organizationId)
     .where('workflowId', '==', entityId)
     .where('workflowType', '==', entityType)
     .limit(1)
     .get();
 
-  if (!eventsSnapshot.empty) {
-    const eventDoc = eventsSnapshot.docs[0];
-    await eventDoc.ref.update({
+  const journaled = await commitJournaledWrites(journal, eventsSnapshot.docs.map(eventDoc => ({
+    ref: eventDoc.ref,
+    op: 'update' as const,
+    data: {
       startDate: new Date(newDeadline),
       updatedAt: new Date(),
-      lastUpdatedBy: userId
-    });
-  }
+      lastUpdatedBy: journal.userId
+    }
+  })));
 
+  const deadline = new Date(newDeadline).toLocaleDateString();
   return {
     success: true,
-    message: `Deadline extended to ${new Date(newDeadline).toLocaleDateString()}`,
+    message: journaled.dryRun ? `Deadline would move to ${deadline}` : `Deadline extended to ${deadline}`,
     updatedEntity: {
       type: entityType,
       id: entityId,
       changes: { deadline: newDeadline }
-    }
+    },
+    ...journalFields(journaled)
   };
 }
 
@@ -353,6 +382,7 @@ async function logActionExecution(log: {
   actionType: string;
   actionData: any;
   alertId?: string;
+  dryRun?: boolean;
   success: boolean;
   result?: any;
   error?: string;
@@ -0,0 +1,232 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for model calls. Walks the organization's provider fallback
+ * order (or the caller's), retries transient failures with exponential backoff,
+ * enforces a per-call timeout, checks monthly spend caps before every call and
+ * records token usage afterwards.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAIApiKey, getApiKeySource } from '../utils/aiHelpers';
+import { TokenUsageService } from '../services/tokenUsageService';
+import { PROVIDER_ADAPTERS } from './providers';
+import { describeSpendCapViolation } from './spendCapGuard';
+import {
+  estimateRequestTokens,
+  loadGatewaySettings,
+  releaseSpendReservation,
+  reserveSpend,
+  SpendCapViolation
+} from './gatewaySettings';
+import { GatewayAttempt, GatewayError, GatewayProvider, GatewayRequest, GatewayResponse } from './types';
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET']);
+
+interface ProviderCredentials {
+  apiKey?: string;
+  baseUrl?: string;
+  model: string;
+  apiKeySource: 'user' | 'backbone';
+}
+
+class GatewayTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'GatewayTimeoutError';
+  }
+}
+
+/**
+ * Timeouts, rate limits, 5xx responses and dropped connections are worth retrying;
+ * anything else (bad request, auth) moves on to the next provider
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof GatewayTimeoutError) return true;
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS.has(status) || status >= 500;
+  }
+  if (['APIConnectionError', 'APIConnectionTimeoutError'].includes(error?.name)) return true;
+  const code = error?.code ?? error?.cause?.code;
+  return RETRYABLE_NETWORK_CODES.has(code) || /fetch failed|socket hang up/i.test(error?.message || '');
+}
+
+/**
+ * Exponential backoff with up to 20% jitter
+ */
+export function retryDelayMs(attempt: number, baseDelayMs: number, random = Math.random): number {
+  const delay = baseDelayMs * 2 ** (attempt - 1);
+  return Math.round(delay * (1 + random() * 0.2));
+}
+
+async function withTimeout<T>(timeoutMs: number, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  try {
+    return await call(controller.signal);
+  } catch (error) {
+    throw timedOut ? new GatewayTimeoutError(timeoutMs) : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * For callables: surface gateway failures with matching HttpsError codes
+ */
+export function rethrowAsHttpsError(error: unknown): never {
+  if (error instanceof GatewayError) {
+    const code = error.code === 'spend_cap_exceeded'
+      ? 'resource-exhausted'
+      : error.code === 'no_provider_available' ? 'failed-precondition' : 'unavailable';
+    throw new HttpsError(code, error.message, { gatewayError: error.code });
+  }
+  throw error;
+}
+
+export class LLMGateway {
+  async complete(request: GatewayRequest): Promise<GatewayResponse> {
+    const settings = await loadGatewaySettings(request.organizationId);
+    const baseOrder = request.providers?.length ? request.providers : settings.fallbackOrder;
+    const order = request.preferredProvider
+      ? [request.preferredProvider, ...baseOrder.filter(provider => provider !== request.preferredProvider)]
+      : baseOrder;
+    const temperature = request.temperature ?? DEFAULT_TEMPERATURE;
+    const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const tools = request.tools || [];
+
+    const estimate = estimateRequestTokens(request.messages, maxTokens);
+
+    const attempts: GatewayAttempt[] = [];
+    let capViolation: SpendCapViolation | null = null;
+
+    for (const provider of order) {
+      const credentials = await this.resolveCredentials(provider, request);
+      if (!credentials) {
+        attempts.push({ provider, attempt: 0, durationMs: 0, skipped: 'no_credentials' });
+        continue;
+      }
+      const model = request.models?.[provider] || credentials.model;
+
+      const { reservation, violation } = await reserveSpend(settings, request.organizationId, request.feature, {
+        tokens: estimate.inputTokens + estimate.outputTokens,
+        cost: TokenUsageService.calculateTokenCost(provider, model, estimate.inputTokens, estimate.outputTokens)
+      });
+      if (violation) {
+        capViolation = violation;
+        attempts.push({ provider, model, attempt: 0, durationMs: 0, skipped: 'spend_cap' });
+        continue;
+      }
+
+      try {
+        for (let attempt = 1; attempt <= settings.maxAttempts; attempt++) {
+          const startedAt = Date.now();
+          let streamed = false;
+          try {
+            const result = await withTimeout(settings.timeoutMs, signal => PROVIDER_ADAPTERS[provider](request.messages, tools, {
+              apiKey: credentials.apiKey,
+              baseUrl: credentials.baseUrl,
+              model,
+              temperature,
+              maxTokens,
+              signal,
+              onToken: request.onToken && (delta => {
+                streamed = true;
+                request.onToken!(delta);
+              })
+            }));
+
+            attempts.push({ provider, model, attempt, durationMs: Date.now() - startedAt });
+            const cost = TokenUsageService.calculateTokenCost(provider, model, result.usage.inputTokens, result.usage.outputTokens);
+            await TokenUsageService.recordTokenUsage({
+              organizationId: request.organizationId,
+              userId: request.userId || 'system',
+              provider,
+              model,
+              inputTokens: result.usage.inputTokens,
+              outputTokens: result.usage.outputTokens,
+              apiKeySource: credentials.apiKeySource,
+              feature: request.feature,
+              projectId: request.projectId,
+              sessionId: request.sessionId
+            });
+
+            return { ...result, provider, model, cost, attempts };
+          } catch (error: any) {
+            const message = error?.message || String(error);
+            attempts.push({ provider, model, attempt, durationMs: Date.now() - startedAt, error: message });
+            console.warn(`[LLMGateway] ${provider}/${model} attempt ${attempt} failed for ${request.feature}: ${message}`);
+
+            if (streamed) {
+              // Text already reached the client; retrying would repeat it
+              throw new GatewayError('stream_interrupted', `${provider} stream failed: ${message}`, attempts);
+            }
+            if (!isRetryableError(error) || attempt === settings.maxAttempts) {
+              break;
+            }
+            await new Promise(resolve => setTimeout(resolve, retryDelayMs(attempt, settings.retryBaseDelayMs)));
+          }
+        }
+      } finally {
+        await releaseSpendReservation(reservation);
+      }
+    }
+
+    const called = attempts.some(attempt => !attempt.skipped);
+    if (capViolation && !called) {
+      throw new GatewayError('spend_cap_exceeded', describeSpendCapViolation(capViolation, request.feature), attempts);
+    }
+    if (!called) {
+      throw new GatewayError(
+        'no_provider_available',
+        `No AI provider configured (tried ${order.join(', ')}). Please configure an API key in Integration Settings.`,
+        attempts
+      );
+    }
+    throw new GatewayError('all_providers_failed', `All AI providers failed (${order.join(', ')})`, attempts);
+  }
+
+  private async resolveCredentials(provider: GatewayProvider, request: GatewayRequest): Promise<ProviderCredentials | null> {
+    if (provider === 'ollama') {
+      return this.resolveOllamaCredentials();
+    }
+    const keyData = await getAIApiKey(request.organizationId, provider, request.userId);
+    if (!keyData) {
+      return null;
+    }
+    return {
+      apiKey: keyData.apiKey,
+      model: keyData.model,
+      apiKeySource: await getApiKeySource(request.organizationId, provider)
+    };
+  }
+
+  /**
+   * Same sources as OllamaToolCallingService: environment, then `_system/config/ai/ollama`
+   */
+  private async resolveOllamaCredentials(): Promise<ProviderCredentials | null> {
+    let baseUrl = process.env.OLLAMA_BASE_URL;
+    let model = process.env.OLLAMA_MODEL_FAST || 'phi4-mini';
+    if (process.env.OLLAMA_DISABLE_FIRESTORE_CONFIG !== 'true') {
+      try {
+        const config = (await getFirestore().collection('_system').doc('config').collection('ai').doc('ollama').get()).data();
+        baseUrl = config?.baseUrl || baseUrl;
+        model = config?.fastModel || model;
+      } catch (error) {
+        console.warn('[LLMGateway] Failed to read Ollama config:', error);
+      }
+    }
+    return baseUrl ? { baseUrl, model, apiKeySource: 'backbone' } : null;
+  }
+}
+
+export const llmGateway = new LLMGateway();
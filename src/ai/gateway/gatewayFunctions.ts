@@ -0,0 +1,92 @@
+/**
+ * LLM Gateway Settings Functions
+ *
+ * Callables for reading and updating an organization's gateway policy (fallback
+ * order, retry/timeout, spend caps) together with month-to-date usage.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import {
+  GATEWAY_SETTINGS_COLLECTION,
+  getMonthlyUsage,
+  loadGatewaySettings,
+  normalizeGatewaySettings,
+  startOfUsageMonth
+} from './gatewaySettings';
+
+function requireOrganizationMember(request: { auth?: { token: Record<string, any> } }, organizationId: string): void {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  if (!organizationId || request.auth.token.organizationId !== organizationId) {
+    throw new HttpsError('permission-denied', 'Not authorized for this organization');
+  }
+}
+
+/**
+ * Get gateway settings plus month-to-date usage for the organization and each capped feature
+ */
+export const getAIGatewaySettings = onCall(
+  { cors: true, region: 'us-central1' },
+  async (request) => {
+    const { organizationId } = request.data || {};
+    requireOrganizationMember(request, organizationId);
+
+    try {
+      const settings = await loadGatewaySettings(organizationId);
+      const features = Object.keys(settings.featureCaps);
+      const [organizationUsage, ...featureUsage] = await Promise.all([
+        getMonthlyUsage(organizationId),
+        ...features.map(feature => getMonthlyUsage(organizationId, feature))
+      ]);
+
+      return {
+        success: true,
+        settings,
+        usage: {
+          periodStart: startOfUsageMonth().toISOString(),
+          organization: organizationUsage,
+          features: Object.fromEntries(features.map((feature, index) => [feature, featureUsage[index]]))
+        }
+      };
+    } catch (error) {
+      console.error('[getAIGatewaySettings] Error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
+
+/**
+ * Update gateway settings (admins only); omitted fields keep their current values
+ */
+export const updateAIGatewaySettings = onCall(
+  { cors: true, region: 'us-central1' },
+  async (request) => {
+    const { organizationId, settings: changes } = request.data || {};
+    requireOrganizationMember(request, organizationId);
+    const userRole = request.auth!.token.role?.toLowerCase();
+    if (userRole !== 'admin' && userRole !== 'owner') {
+      throw new HttpsError('permission-denied', 'Admin role required to manage AI gateway settings');
+    }
+    if (!changes || typeof changes !== 'object') {
+      throw new HttpsError('invalid-argument', 'settings is required');
+    }
+
+    try {
+      const current = await loadGatewaySettings(organizationId);
+      const settings = normalizeGatewaySettings({ ...current, ...changes });
+
+      await getFirestore().collection(GATEWAY_SETTINGS_COLLECTION).doc(organizationId).set({
+        ...settings,
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedBy: request.auth!.uid
+      });
+
+      return { success: true, settings };
+    } catch (error) {
+      console.error('[updateAIGatewaySettings] Error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
@@ -0,0 +1,314 @@
+/**
+ * LLM Gateway Settings and Spend Caps
+ *
+ * Per-organization gateway policy lives at `aiGatewaySettings/{organizationId}`:
+ * provider fallback order, retry/timeout policy, and monthly token/cost caps for the
+ * organization as a whole and per feature. Caps are checked before a request is
+ * sent, so a request that would cross a cap is refused rather than billed.
+ *
+ * The check runs against `aiSpendCounters/{organizationId}_{YYYY-MM}`, which holds
+ * the month's recorded usage plus the estimates of calls still in flight. The
+ * month's first capped request seeds it from `aiTokenUsage`; after that
+ * `TokenUsageService.recordTokenUsage` keeps it current, and each capped call
+ * reserves its estimate there in a transaction and releases it once done, so
+ * concurrent calls cannot all pass against the same headroom.
+ */
+
+import {
+  getFirestore,
+  AggregateField,
+  FieldValue,
+  Query,
+  Timestamp,
+  Transaction
+} from 'firebase-admin/firestore';
+import { GATEWAY_PROVIDERS, GatewayMessage, GatewayProvider, GatewaySettings, SpendCap } from './types';
+
+export const GATEWAY_SETTINGS_COLLECTION = 'aiGatewaySettings';
+export const SPEND_COUNTER_COLLECTION = 'aiSpendCounters';
+
+export const DEFAULT_GATEWAY_SETTINGS: GatewaySettings = {
+  fallbackOrder: ['openai', 'claude', 'gemini', 'grok'],
+  maxAttempts: 2,
+  retryBaseDelayMs: 500,
+  timeoutMs: 60000,
+  caps: {},
+  featureCaps: {}
+};
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+}
+
+export interface SpendCapViolation {
+  scope: 'organization' | 'feature';
+  metric: 'tokens' | 'cost';
+  used: number;
+  requested: number;
+  cap: number;
+}
+
+/**
+ * Estimate held on a spend counter until the call finishes
+ */
+export interface SpendReservation {
+  counterId: string;
+  feature: string;
+  /** Whether the feature's bucket was reserved against as well as the organization's */
+  reservedFeature: boolean;
+  tokens: number;
+  cost: number;
+}
+
+interface SpendCounterTotals {
+  tokens?: number;
+  cost?: number;
+  reservedTokens?: number;
+  reservedCost?: number;
+}
+
+/**
+ * A feature bucket exists only once seeded, i.e. once the feature has been capped this month
+ */
+interface SpendCounter extends SpendCounterTotals {
+  organizationId: string;
+  month: string;
+  features?: Record<string, SpendCounterTotals>;
+}
+
+function isGatewayProvider(value: unknown): value is GatewayProvider {
+  return GATEWAY_PROVIDERS.includes(value as GatewayProvider);
+}
+
+function normalizeCap(raw: any): SpendCap {
+  const limit = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : null);
+  return { monthlyTokens: limit(raw?.monthlyTokens), monthlyCostUsd: limit(raw?.monthlyCostUsd) };
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+/**
+ * Fill defaults and drop invalid values from stored or submitted settings
+ */
+export function normalizeGatewaySettings(raw: any): GatewaySettings {
+  const order = Array.isArray(raw?.fallbackOrder)
+    ? Array.from(new Set(raw.fallbackOrder.filter(isGatewayProvider))) as GatewayProvider[]
+    : [];
+  const featureCaps: Record<string, SpendCap> = {};
+  Object.entries(raw?.featureCaps || {}).forEach(([feature, cap]) => {
+    featureCaps[feature] = normalizeCap(cap);
+  });
+
+  return {
+    fallbackOrder: order.length > 0 ? order : DEFAULT_GATEWAY_SETTINGS.fallbackOrder,
+    maxAttempts: Math.round(clamp(raw?.maxAttempts, 1, 5, DEFAULT_GATEWAY_SETTINGS.maxAttempts)),
+    retryBaseDelayMs: clamp(raw?.retryBaseDelayMs, 0, 10000, DEFAULT_GATEWAY_SETTINGS.retryBaseDelayMs),
+    timeoutMs: clamp(raw?.timeoutMs, 1000, 300000, DEFAULT_GATEWAY_SETTINGS.timeoutMs),
+    caps: normalizeCap(raw?.caps),
+    featureCaps
+  };
+}
+
+/**
+ * Rough prompt size (4 characters per token) plus the full output allowance
+ */
+export function estimateRequestTokens(messages: GatewayMessage[], maxTokens: number): { inputTokens: number; outputTokens: number } {
+  const characters = messages.reduce((sum, message) => {
+    const toolCalls = message.role === 'assistant' && message.toolCalls ? JSON.stringify(message.toolCalls).length : 0;
+    return sum + message.content.length + toolCalls;
+  }, 0);
+  return { inputTokens: Math.ceil(characters / 4), outputTokens: maxTokens };
+}
+
+/**
+ * First cap the request would cross, or null when it fits
+ */
+export function findSpendCapViolation(
+  settings: GatewaySettings,
+  feature: string,
+  usage: { organization: UsageTotals; feature: UsageTotals },
+  request: UsageTotals
+): SpendCapViolation | null {
+  const scopes: Array<{ scope: SpendCapViolation['scope']; cap?: SpendCap; used: UsageTotals }> = [
+    { scope: 'organization', cap: settings.caps, used: usage.organization },
+    { scope: 'feature', cap: settings.featureCaps[feature], used: usage.feature }
+  ];
+
+  for (const { scope, cap, used } of scopes) {
+    if (cap?.monthlyTokens != null && used.tokens + request.tokens > cap.monthlyTokens) {
+      return { scope, metric: 'tokens', used: used.tokens, requested: request.tokens, cap: cap.monthlyTokens };
+    }
+    if (cap?.monthlyCostUsd != null && used.cost + request.cost > cap.monthlyCostUsd) {
+      return { scope, metric: 'cost', used: used.cost, requested: request.cost, cap: cap.monthlyCostUsd };
+    }
+  }
+  return null;
+}
+
+function isCapped(cap?: SpendCap): boolean {
+  return cap?.monthlyTokens != null || cap?.monthlyCostUsd != null;
+}
+
+export function hasSpendCaps(settings: GatewaySettings, feature: string): boolean {
+  return isCapped(settings.caps) || isCapped(settings.featureCaps[feature]);
+}
+
+export function startOfUsageMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function usageMonthKey(now: Date): string {
+  return startOfUsageMonth(now).toISOString().slice(0, 7);
+}
+
+function spendCounterRef(organizationId: string, now: Date) {
+  return getFirestore().collection(SPEND_COUNTER_COLLECTION).doc(`${organizationId}_${usageMonthKey(now)}`);
+}
+
+/**
+ * Recorded usage plus in-flight reservations
+ */
+function heldUsage(totals?: SpendCounterTotals): UsageTotals {
+  return {
+    tokens: (totals?.tokens || 0) + (totals?.reservedTokens || 0),
+    cost: (totals?.cost || 0) + (totals?.reservedCost || 0)
+  };
+}
+
+export async function loadGatewaySettings(organizationId: string): Promise<GatewaySettings> {
+  const doc = await getFirestore().collection(GATEWAY_SETTINGS_COLLECTION).doc(organizationId).get();
+  return normalizeGatewaySettings(doc.data());
+}
+
+function monthlyUsageQuery(organizationId: string, feature: string | undefined, now: Date) {
+  let query: Query = getFirestore().collection('aiTokenUsage')
+    .where('organizationId', '==', organizationId);
+  if (feature) {
+    query = query.where('feature', '==', feature);
+  }
+  return query
+    .where('timestamp', '>=', Timestamp.fromDate(startOfUsageMonth(now)))
+    .aggregate({ tokens: AggregateField.sum('totalTokens'), cost: AggregateField.sum('cost') });
+}
+
+/**
+ * Month-to-date token and cost totals from aiTokenUsage, optionally for one feature
+ */
+export async function getMonthlyUsage(organizationId: string, feature?: string): Promise<UsageTotals> {
+  const totals = (await monthlyUsageQuery(organizationId, feature, new Date()).get()).data();
+  return { tokens: totals.tokens || 0, cost: totals.cost || 0 };
+}
+
+async function readMonthlyUsage(
+  transaction: Transaction,
+  organizationId: string,
+  feature: string | undefined,
+  now: Date
+): Promise<UsageTotals> {
+  const totals = (await transaction.get(monthlyUsageQuery(organizationId, feature, now))).data();
+  return { tokens: totals.tokens || 0, cost: totals.cost || 0 };
+}
+
+/**
+ * Check the request against the organization's spend counter and, when it fits,
+ * reserve its estimate there in the same transaction. The reservation is null
+ * when neither the organization nor the feature is capped.
+ */
+export async function reserveSpend(
+  settings: GatewaySettings,
+  organizationId: string,
+  feature: string,
+  request: UsageTotals
+): Promise<{ reservation: SpendReservation | null; violation: SpendCapViolation | null }> {
+  if (!hasSpendCaps(settings, feature)) {
+    return { reservation: null, violation: null };
+  }
+  const now = new Date();
+  const counterRef = spendCounterRef(organizationId, now);
+  const featureCapped = isCapped(settings.featureCaps[feature]);
+
+  return getFirestore().runTransaction(async transaction => {
+    const counter = (await transaction.get(counterRef)).data() as SpendCounter | undefined;
+    const seededFeature = counter?.features?.[feature];
+    const organizationUsage = counter ? heldUsage(counter) : await readMonthlyUsage(transaction, organizationId, undefined, now);
+    const featureUsage = !featureCapped
+      ? { tokens: 0, cost: 0 }
+      : seededFeature ? heldUsage(seededFeature) : await readMonthlyUsage(transaction, organizationId, feature, now);
+
+    const violation = findSpendCapViolation(settings, feature, { organization: organizationUsage, feature: featureUsage }, request);
+
+    // Seed even when refusing, so later requests this month skip the aggregation
+    const update: Record<string, unknown> = counter
+      ? {}
+      : { organizationId, month: usageMonthKey(now), ...organizationUsage };
+    const featureUpdate: Record<string, unknown> = featureCapped && !seededFeature ? { ...featureUsage } : {};
+    if (!violation) {
+      const reserve = { reservedTokens: FieldValue.increment(request.tokens), reservedCost: FieldValue.increment(request.cost) };
+      Object.assign(update, reserve);
+      if (featureCapped) {
+        Object.assign(featureUpdate, reserve);
+      }
+    }
+    if (Object.keys(featureUpdate).length > 0) {
+      update.features = { [feature]: featureUpdate };
+    }
+    if (Object.keys(update).length > 0) {
+      transaction.set(counterRef, update, { merge: true });
+    }
+
+    return violation
+      ? { reservation: null, violation }
+      : {
+        reservation: { counterId: counterRef.id, feature, reservedFeature: featureCapped, tokens: request.tokens, cost: request.cost },
+        violation: null
+      };
+  });
+}
+
+/**
+ * Return a reservation's estimate once its call has finished (recorded or failed);
+ * failures are logged, not thrown
+ */
+export async function releaseSpendReservation(reservation: SpendReservation | null): Promise<void> {
+  if (!reservation) {
+    return;
+  }
+  const release = {
+    reservedTokens: FieldValue.increment(-reservation.tokens),
+    reservedCost: FieldValue.increment(-reservation.cost)
+  };
+  await getFirestore().collection(SPEND_COUNTER_COLLECTION).doc(reservation.counterId)
+    .set({ ...release, ...(reservation.reservedFeature ? { features: { [reservation.feature]: release } } : {}) }, { merge: true })
+    .catch(error => {
+      console.warn('[LLMGateway] Failed to release spend reservation:', error);
+    });
+}
+
+/**
+ * Add recorded usage to the organization's spend counter, inside the transaction
+ * that writes its aiTokenUsage doc (reads first, so call before any write). An
+ * unseeded counter or feature bucket is left alone; seeding it later reads
+ * aiTokenUsage, which will include this usage.
+ */
+export async function addUsageToSpendCounter(
+  transaction: Transaction,
+  organizationId: string,
+  feature: string | undefined,
+  usage: UsageTotals,
+  at: Date
+): Promise<void> {
+  const counterRef = spendCounterRef(organizationId, at);
+  const counter = (await transaction.get(counterRef)).data() as SpendCounter | undefined;
+  if (!counter) {
+    return;
+  }
+  const added = { tokens: FieldValue.increment(usage.tokens), cost: FieldValue.increment(usage.cost) };
+  transaction.set(
+    counterRef,
+    { ...added, ...(feature && counter.features?.[feature] ? { features: { [feature]: added } } : {}) },
+    { merge: true }
+  );
+}
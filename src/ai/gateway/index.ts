@@ -0,0 +1,23 @@
+/**
+ * LLM Gateway
+ *
+ * Provider-agnostic model calls with fallback chains, retries and spend caps
+ */
+
+export * from './types';
+export { LLMGateway, llmGateway, isRetryableError, retryDelayMs, rethrowAsHttpsError } from './LLMGateway';
+export {
+  DEFAULT_GATEWAY_SETTINGS,
+  estimateRequestTokens,
+  findSpendCapViolation,
+  getMonthlyUsage,
+  loadGatewaySettings,
+  normalizeGatewaySettings,
+  releaseSpendReservation,
+  reserveSpend
+} from './gatewaySettings';
+export type { SpendReservation } from './gatewaySettings';
+export { assertWithinSpendCaps, describeSpendCapViolation, recordScopedUsage } from './spendCapGuard';
+export type { SpendCapScope } from './spendCapGuard';
+export { SpendCappedGoogleGenerativeAI } from './spendCappedGemini';
+export { getAIGatewaySettings, updateAIGatewaySettings } from './gatewayFunctions';
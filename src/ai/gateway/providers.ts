@@ -0,0 +1,375 @@
+/**
+ * LLM Gateway Provider Adapters
+ *
+ * One function per provider: translate gateway messages and tools to the provider's
+ * API, make a single call (no SDK-level retries; the gateway owns retry policy) and
+ * translate the reply back. Text is streamed when an `onToken` listener is given and
+ * no tools are offered.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { splitNdjson } from '../utils/chatStream';
+import { GatewayMessage, GatewayProvider, GatewayTool, GatewayToolCall, GatewayUsage } from './types';
+
+export interface ProviderCallOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  signal: AbortSignal;
+  onToken?: (delta: string) => void;
+}
+
+export interface ProviderCallResult {
+  text: string;
+  toolCalls: GatewayToolCall[];
+  usage: GatewayUsage;
+}
+
+export type ProviderAdapter = (
+  messages: GatewayMessage[],
+  tools: GatewayTool[],
+  options: ProviderCallOptions
+) => Promise<ProviderCallResult>;
+
+function parseArguments(value: unknown): Record<string, any> {
+  if (value && typeof value === 'object') return value as Record<string, any>;
+  if (typeof value !== 'string' || !value.trim()) return {};
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return { _raw: value };
+  }
+}
+
+function systemPrompt(messages: GatewayMessage[]): string | undefined {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  return system.length > 0 ? system.join('\n\n') : undefined;
+}
+
+// ----------------------------------------------------------------------------
+// OpenAI and Grok (OpenAI-compatible)
+// ----------------------------------------------------------------------------
+
+export function toOpenAIMessages(messages: GatewayMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function openAICompatible(baseURL?: string): ProviderAdapter {
+  return async (messages, tools, options) => {
+    const { default: OpenAI } = await import('openai');
+    const client = new OpenAI({ apiKey: options.apiKey, ...(baseURL ? { baseURL } : {}), maxRetries: 0 });
+    const body: any = {
+      model: options.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...(tools.length > 0 ? {
+        tools: tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }))
+      } : {})
+    };
+
+    if (options.onToken && tools.length === 0) {
+      const stream = await client.chat.completions.create(
+        { ...body, stream: true, stream_options: { include_usage: true } },
+        { signal: options.signal }
+      ) as any;
+      let text = '';
+      const usage: GatewayUsage = { inputTokens: 0, outputTokens: 0 };
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onToken(delta);
+        }
+        if (chunk.usage) {
+          usage.inputTokens = chunk.usage.prompt_tokens || 0;
+          usage.outputTokens = chunk.usage.completion_tokens || 0;
+        }
+      }
+      return { text, toolCalls: [], usage };
+    }
+
+    const completion = await client.chat.completions.create(body, { signal: options.signal }) as any;
+    const message = completion.choices[0]?.message;
+    return {
+      text: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments)
+      })),
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens || 0,
+        outputTokens: completion.usage?.completion_tokens || 0
+      }
+    };
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Claude
+// ----------------------------------------------------------------------------
+
+export function toClaudeMessages(messages: GatewayMessage[]): any[] {
+  const result: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    let role: 'user' | 'assistant';
+    let blocks: any[];
+    if (message.role === 'tool') {
+      role = 'user';
+      blocks = [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+    } else if (message.role === 'assistant') {
+      role = 'assistant';
+      blocks = [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...(message.toolCalls || []).map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+      ];
+    } else {
+      role = 'user';
+      blocks = [{ type: 'text', text: message.content }];
+    }
+
+    // Claude requires alternating roles; tool results for one turn share a message
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+  return result;
+}
+
+const claude: ProviderAdapter = async (messages, tools, options) => {
+  const client = new Anthropic({ apiKey: options.apiKey, maxRetries: 0 });
+  const body: any = {
+    model: options.model,
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    system: systemPrompt(messages),
+    messages: toClaudeMessages(messages),
+    ...(tools.length > 0 ? {
+      tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+    } : {})
+  };
+
+  if (options.onToken && tools.length === 0) {
+    const stream = await client.messages.create({ ...body, stream: true }, { signal: options.signal }) as any;
+    let text = '';
+    const usage: GatewayUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        options.onToken(event.delta.text);
+      } else if (event.type === 'message_start') {
+        usage.inputTokens = event.message.usage?.input_tokens || 0;
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage?.output_tokens || 0;
+      }
+    }
+    return { text, toolCalls: [], usage };
+  }
+
+  const response = await client.messages.create(body, { signal: options.signal }) as any;
+  const blocks: any[] = response.content || [];
+  return {
+    text: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+    toolCalls: blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+    usage: {
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0
+    }
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Gemini
+// ----------------------------------------------------------------------------
+
+export function toGeminiContents(messages: GatewayMessage[]): any[] {
+  const contents: Array<{ role: string; parts: any[] }> = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    let role: string;
+    let parts: any[];
+    if (message.role === 'tool') {
+      role = 'function';
+      parts = [{ functionResponse: { name: message.name, response: { content: message.content } } }];
+    } else if (message.role === 'assistant') {
+      role = 'model';
+      parts = [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+      ];
+    } else {
+      role = 'user';
+      parts = [{ text: message.content }];
+    }
+
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+  return contents;
+}
+
+const gemini: ProviderAdapter = async (messages, tools, options) => {
+  const system = systemPrompt(messages);
+  const model = new GoogleGenerativeAI(options.apiKey || '').getGenerativeModel({
+    model: options.model,
+    ...(system ? { systemInstruction: system } : {}),
+    generationConfig: { temperature: options.temperature, maxOutputTokens: options.maxTokens },
+    ...(tools.length > 0 ? {
+      tools: [{ functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parameters: tool.parameters })) }] as any
+    } : {})
+  });
+  const request = { contents: toGeminiContents(messages) };
+
+  if (options.onToken && tools.length === 0) {
+    const result = await model.generateContentStream(request, { signal: options.signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        options.onToken(delta);
+      }
+    }
+    const usage = (await result.response).usageMetadata;
+    return {
+      text,
+      toolCalls: [],
+      usage: { inputTokens: usage?.promptTokenCount || 0, outputTokens: usage?.candidatesTokenCount || 0 }
+    };
+  }
+
+  const { response } = await model.generateContent(request, { signal: options.signal });
+  const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+  return {
+    text: parts.filter(part => typeof part.text === 'string').map(part => part.text).join(''),
+    // Gemini has no call ids; tool results are matched by name
+    toolCalls: parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({ id: `${part.functionCall.name}_${index}`, name: part.functionCall.name, arguments: part.functionCall.args || {} })),
+    usage: {
+      inputTokens: response.usageMetadata?.promptTokenCount || 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount || 0
+    }
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Ollama
+// ----------------------------------------------------------------------------
+
+function toOllamaMessages(messages: GatewayMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } }))
+      };
+    }
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+class HttpStatusError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const ollama: ProviderAdapter = async (messages, tools, options) => {
+  const stream = Boolean(options.onToken) && tools.length === 0;
+  const response = await fetch(`${(options.baseUrl || 'http://localhost:11434').replace(/\/$/, '')}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal: options.signal,
+    body: JSON.stringify({
+      model: options.model,
+      messages: toOllamaMessages(messages),
+      stream,
+      options: { temperature: options.temperature, num_predict: options.maxTokens },
+      ...(tools.length > 0 ? {
+        tools: tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }))
+      } : {})
+    })
+  });
+  if (!response.ok) {
+    throw new HttpStatusError(response.status, `Ollama error ${response.status}: ${await response.text()}`);
+  }
+
+  const usage: GatewayUsage = { inputTokens: 0, outputTokens: 0 };
+  if (stream && response.body) {
+    let text = '';
+    let buffer = '';
+    const decoder = new TextDecoder();
+    for await (const chunk of response.body as any as AsyncIterable<Uint8Array>) {
+      const { items, rest } = splitNdjson(buffer + decoder.decode(chunk, { stream: true }));
+      buffer = rest;
+      for (const item of items) {
+        const delta = item.message?.content;
+        if (delta) {
+          text += delta;
+          options.onToken!(delta);
+        }
+        if (item.done) {
+          usage.inputTokens = item.prompt_eval_count || 0;
+          usage.outputTokens = item.eval_count || 0;
+        }
+      }
+    }
+    return { text, toolCalls: [], usage };
+  }
+
+  const data: any = await response.json();
+  return {
+    text: data.message?.content || '',
+    toolCalls: (data.message?.tool_calls || []).map((call: any, index: number) => ({
+      id: call.id || `${call.function?.name}_${index}`,
+      name: call.function?.name,
+      arguments: parseArguments(call.function?.arguments)
+    })),
+    usage: { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+  };
+};
+
+export const PROVIDER_ADAPTERS: Record<GatewayProvider, ProviderAdapter> = {
+  openai: openAICompatible(),
+  grok: openAICompatible('https://api.x.ai/v1'),
+  claude,
+  gemini,
+  ollama
+};
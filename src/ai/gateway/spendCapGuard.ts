@@ -0,0 +1,75 @@
+/**
+ * Spend Cap Guard
+ *
+ * Cap check and usage recording for model calls that do not go through
+ * `LLMGateway.complete` (SDK clients used directly, Ollama tool calling), so an
+ * organization over its monthly cap is refused there too.
+ */
+
+import { TokenUsageProvider, TokenUsageService } from '../services/tokenUsageService';
+import { loadGatewaySettings, reserveSpend, SpendCapViolation, SpendReservation } from './gatewaySettings';
+import { GatewayError, GatewayUsage } from './types';
+
+/**
+ * Who a direct model call is billed to
+ */
+export interface SpendCapScope {
+  organizationId: string;
+  userId?: string;
+  /** Usage bucket for per-feature caps, as in GatewayRequest */
+  feature: string;
+  apiKeySource?: 'user' | 'backbone';
+  projectId?: string;
+  sessionId?: string;
+}
+
+export interface ProviderCallEstimate extends GatewayUsage {
+  provider: TokenUsageProvider;
+  model: string;
+}
+
+export function describeSpendCapViolation(violation: SpendCapViolation, feature: string): string {
+  const scope = violation.scope === 'feature' ? `the '${feature}' feature` : 'the organization';
+  return violation.metric === 'tokens'
+    ? `Monthly AI token cap reached for ${scope} (${violation.used} of ${violation.cap} tokens used)`
+    : `Monthly AI spend cap reached for ${scope} ($${violation.used.toFixed(2)} of $${violation.cap.toFixed(2)} used)`;
+}
+
+/**
+ * Throws GatewayError('spend_cap_exceeded') when the call would cross one of the
+ * organization's monthly caps; otherwise reserves its estimate against them. Pass
+ * the result to `releaseSpendReservation` once the call has finished.
+ */
+export async function assertWithinSpendCaps(scope: SpendCapScope, call: ProviderCallEstimate): Promise<SpendReservation | null> {
+  const settings = await loadGatewaySettings(scope.organizationId);
+  const { reservation, violation } = await reserveSpend(settings, scope.organizationId, scope.feature, {
+    tokens: call.inputTokens + call.outputTokens,
+    cost: TokenUsageService.calculateTokenCost(call.provider, call.model, call.inputTokens, call.outputTokens)
+  });
+  if (violation) {
+    throw new GatewayError('spend_cap_exceeded', describeSpendCapViolation(violation, scope.feature), [
+      { provider: call.provider, model: call.model, attempt: 0, durationMs: 0, skipped: 'spend_cap' }
+    ]);
+  }
+  return reservation;
+}
+
+/**
+ * Record a completed call against the scope; failures are logged, not thrown
+ */
+export async function recordScopedUsage(scope: SpendCapScope, call: ProviderCallEstimate): Promise<void> {
+  await TokenUsageService.recordTokenUsage({
+    organizationId: scope.organizationId,
+    userId: scope.userId || 'system',
+    provider: call.provider,
+    model: call.model,
+    inputTokens: call.inputTokens,
+    outputTokens: call.outputTokens,
+    apiKeySource: scope.apiKeySource || 'user',
+    feature: scope.feature,
+    projectId: scope.projectId,
+    sessionId: scope.sessionId
+  }).catch(error => {
+    console.warn('[SpendCapGuard] Failed to record token usage:', error);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Spend-capped Gemini client
+ *
+ * GeminiService and the code built on it call the @google/generative-ai SDK
+ * directly. This client reserves an estimate against the organization's spend
+ * caps before every generate, chat and embed call, records the reported token
+ * usage afterwards and then releases the reservation.
+ */
+
+import {
+  ChatSession,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  ModelParams,
+  RequestOptions,
+  UsageMetadata
+} from '@google/generative-ai';
+import { releaseSpendReservation, SpendReservation } from './gatewaySettings';
+import { assertWithinSpendCaps, recordScopedUsage, SpendCapScope } from './spendCapGuard';
+
+const DEFAULT_OUTPUT_TOKENS = 2000;
+
+/**
+ * Rough request size at 4 characters per token; inline media and file references
+ * are billed by the provider separately and left out
+ */
+function estimateGeminiTokens(...parts: unknown[]): number {
+  const json = JSON.stringify(parts, (key, value) => (key === 'inlineData' || key === 'fileData' ? undefined : value));
+  return Math.ceil((json?.length || 0) / 4);
+}
+
+/**
+ * Run a reserved call, recording its usage and releasing the reservation when done
+ */
+async function withReservation<T>(
+  reservation: SpendReservation | null,
+  call: () => Promise<T>,
+  record?: (result: T) => Promise<void>
+): Promise<T> {
+  try {
+    const result = await call();
+    await record?.(result);
+    return result;
+  } finally {
+    await releaseSpendReservation(reservation);
+  }
+}
+
+/**
+ * As withReservation for streams, holding the reservation until the aggregated
+ * response settles
+ */
+async function withStreamReservation<T extends { response: Promise<{ usageMetadata?: UsageMetadata }> }>(
+  reservation: SpendReservation | null,
+  call: () => Promise<T>,
+  record: (usage?: UsageMetadata) => Promise<void>
+): Promise<T> {
+  let result: T;
+  try {
+    result = await call();
+  } catch (error) {
+    await releaseSpendReservation(reservation);
+    throw error;
+  }
+  result.response
+    .then(response => record(response.usageMetadata))
+    .catch(() => undefined)
+    .finally(() => releaseSpendReservation(reservation));
+  return result;
+}
+
+function guardChatSession(
+  chat: ChatSession,
+  check: (inputTokens: number) => Promise<SpendReservation | null>,
+  record: (usage?: UsageMetadata) => Promise<void>
+): ChatSession {
+  const sendMessage = chat.sendMessage.bind(chat);
+  chat.sendMessage = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(await chat.getHistory(), request));
+    return withReservation(reservation, () => sendMessage(request, requestOptions), result => record(result.response.usageMetadata));
+  };
+
+  const sendMessageStream = chat.sendMessageStream.bind(chat);
+  chat.sendMessageStream = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(await chat.getHistory(), request));
+    return withStreamReservation(reservation, () => sendMessageStream(request, requestOptions), record);
+  };
+
+  return chat;
+}
+
+function guardGeminiModel(model: GenerativeModel, scope: SpendCapScope): GenerativeModel {
+  const modelName = model.model.replace(/^models\//, '');
+  const outputTokens = model.generationConfig?.maxOutputTokens ?? DEFAULT_OUTPUT_TOKENS;
+  const check = (inputTokens: number, maxOutput = outputTokens) =>
+    assertWithinSpendCaps(scope, { provider: 'gemini', model: modelName, inputTokens, outputTokens: maxOutput });
+  const record = async (usage?: UsageMetadata) => {
+    if (usage) {
+      await recordScopedUsage(scope, {
+        provider: 'gemini',
+        model: modelName,
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: usage.candidatesTokenCount || 0
+      });
+    }
+  };
+
+  const generateContent = model.generateContent.bind(model);
+  model.generateContent = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(model.systemInstruction, request));
+    return withReservation(reservation, () => generateContent(request, requestOptions), result => record(result.response.usageMetadata));
+  };
+
+  const generateContentStream = model.generateContentStream.bind(model);
+  model.generateContentStream = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(model.systemInstruction, request));
+    return withStreamReservation(reservation, () => generateContentStream(request, requestOptions), record);
+  };
+
+  const startChat = model.startChat.bind(model);
+  model.startChat = params =>
+    guardChatSession(startChat(params), inputTokens => check(inputTokens + estimateGeminiTokens(model.systemInstruction)), record);
+
+  // Embeddings produce no output tokens and report no usage
+  const embedContent = model.embedContent.bind(model);
+  model.embedContent = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(request), 0);
+    return withReservation(reservation, () => embedContent(request, requestOptions));
+  };
+
+  const batchEmbedContents = model.batchEmbedContents.bind(model);
+  model.batchEmbedContents = async (request, requestOptions) => {
+    const reservation = await check(estimateGeminiTokens(request), 0);
+    return withReservation(reservation, () => batchEmbedContents(request, requestOptions));
+  };
+
+  return model;
+}
+
+/**
+ * Drop-in GoogleGenerativeAI whose models refuse calls over the scope's spend caps
+ */
+export class SpendCappedGoogleGenerativeAI extends GoogleGenerativeAI {
+  constructor(apiKey: string, private readonly scope: SpendCapScope) {
+    super(apiKey);
+  }
+
+  getGenerativeModel(modelParams: ModelParams, requestOptions?: RequestOptions): GenerativeModel {
+    return guardGeminiModel(super.getGenerativeModel(modelParams, requestOptions), this.scope);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * LLM Gateway Types
+ *
+ * Provider-neutral request/response shapes. Tool calls use one representation for
+ * every provider; adapters translate to OpenAI tool_calls, Claude tool_use blocks,
+ * Gemini functionCall parts and Ollama's OpenAI-style tools.
+ */
+
+export type GatewayProvider = 'openai' | 'claude' | 'gemini' | 'grok' | 'ollama';
+
+export const GATEWAY_PROVIDERS: GatewayProvider[] = ['openai', 'claude', 'gemini', 'grok', 'ollama'];
+
+export interface GatewayToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type GatewayMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: GatewayToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string; name: string };
+
+export interface GatewayTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object */
+  parameters: Record<string, any>;
+}
+
+export interface GatewayRequest {
+  organizationId: string;
+  userId?: string;
+  /** Usage bucket for per-feature caps and billing, e.g. 'chat-assistant' */
+  feature: string;
+  messages: GatewayMessage[];
+  tools?: GatewayTool[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Providers to try in order; defaults to the organization's fallback order */
+  providers?: GatewayProvider[];
+  /** Tried first, ahead of the rest of the fallback order */
+  preferredProvider?: GatewayProvider;
+  /** Model overrides per provider; defaults to the model configured with the API key */
+  models?: Partial<Record<GatewayProvider, string>>;
+  /** Stream text deltas; a provider that has started streaming is not retried */
+  onToken?: (delta: string) => void;
+  projectId?: string;
+  sessionId?: string;
+}
+
+export interface GatewayUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GatewayAttempt {
+  provider: GatewayProvider;
+  model?: string;
+  attempt: number;
+  durationMs: number;
+  error?: string;
+  /** Set when the provider was passed over without a call */
+  skipped?: 'no_credentials' | 'spend_cap';
+}
+
+export interface GatewayResponse {
+  text: string;
+  toolCalls: GatewayToolCall[];
+  provider: GatewayProvider;
+  model: string;
+  usage: GatewayUsage;
+  cost: number;
+  attempts: GatewayAttempt[];
+}
+
+export interface SpendCap {
+  monthlyTokens?: number | null;
+  monthlyCostUsd?: number | null;
+}
+
+export interface GatewaySettings {
+  fallbackOrder: GatewayProvider[];
+  /** Calls per provider before falling back */
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  timeoutMs: number;
+  caps: SpendCap;
+  featureCaps: Record<string, SpendCap>;
+}
+
+export type GatewayErrorCode = 'spend_cap_exceeded' | 'no_provider_available' | 'all_providers_failed' | 'stream_interrupted';
+
+export class GatewayError extends Error {
+  constructor(
+    public readonly code: GatewayErrorCode,
+    message: string,
+    public readonly attempts: GatewayAttempt[] = []
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
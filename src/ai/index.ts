@@ -4,7 +4,7 @@
  * Exports all AI-related Firebase Functions
  */
 
-export { aiChatAssistant } from './aiChatAssistant';
+export { aiChatAssistant, aiChatAssistantStream } from './aiChatAssistant';
 export { aiAutomationSuggestions } from './aiAutomationSuggestions';
 export { aiWorkflowAnalysis } from './aiWorkflowAnalysis';
 export { aiPredictiveAutomation } from './aiPredictiveAutomation';
@@ -25,6 +25,12 @@ export * from './training';
 // Export vector store services
 export * from './vectorStore';
 
+// Export LLM gateway
+export * from './gateway';
+
+// Export action journal (previews and undo for AI-executed writes)
+export * from './actionJournal';
+
 // Export new agent system (v2)
 export * from './services';
 export * from './agents';
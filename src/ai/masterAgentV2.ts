@@ -8,9 +8,13 @@
  * - Supervisor (Ollama) as DEFAULT: Cost-effective for data queries, actions, reports
  * - Gemini for CREATIVE WRITING: Superior quality for script writing and planning
  *   Modes: plan_mode, script, scripting
+ *
+ * masterAgentV2Stream serves the same requests over Server-Sent Events: routing
+ * progress, Ollama tokens and tool start/finish events as they happen. The Gemini
+ * path reports progress only; its structured response arrives with `done`.
  */
 
-import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { SupervisorAgent } from './agents/SupervisorAgent';
@@ -18,6 +22,7 @@ import { OllamaToolCallingService } from './services/OllamaToolCallingService';
 import { unifiedToolRegistry } from './services/UnifiedToolRegistry';
 import { agentMemoryService } from './services/AgentMemoryService';
 import { ProjectData } from './services/DocumentAnalysisService';
+import { authenticateStreamRequest, ChatStreamListener, openChatStream } from './utils/chatStream';
 
 
 // Initialize Firebase Admin if not already initialized
@@ -60,19 +65,19 @@ interface MasterAgentResponse {
  * Master Agent v2 - Main entry point
  */
 import { createGeminiService, geminiApiKey } from './GeminiService';
+import { GatewayError, rethrowAsHttpsError } from './gateway';
 
 // Define secret for Gemini API key (must match definition in GeminiService)
 // const geminiApiKey = defineSecret('GEMINI_API_KEY'); -- USING IMPORTED ONE
 
 /**
- * Master Agent v2 - Main entry point
+ * Handle a Master Agent request; with a stream listener, progress, tokens and tool
+ * events are sent as they happen
  */
-export const masterAgentV2 = onCall({
-  secrets: [geminiApiKey],
-  cors: true,
-  timeoutSeconds: 300,
-  memory: '1GiB'
-}, async (request) => {
+async function handleMasterAgentRequest(
+  request: { auth?: any; data: MasterAgentRequest },
+  stream?: ChatStreamListener
+): Promise<MasterAgentResponse> {
   try {
     const { message, organizationId, userId, projectId, sessionId, conversationId, context } =
       request.data as MasterAgentRequest;
@@ -127,6 +132,7 @@ export const masterAgentV2 = onCall({
     // Only skip to Gemini if Ollama is explicitly disabled
     if (isGeminiPreferredMode && !useOllamaFirst) {
       console.log(`[MasterAgentV2] 🧠 Using Gemini for creative writing mode: ${activeMode} (Ollama disabled)`);
+      stream?.({ type: 'progress', stage: 'generating', message: 'Generating response with Gemini' });
 
       try {
         // Use callAIAgentInternal which has the full Gemini integration with Architect mode support
@@ -179,12 +185,21 @@ export const masterAgentV2 = onCall({
     // Initialize services
     const toolRegistry = unifiedToolRegistry();
     const ollamaService = new OllamaToolCallingService(undefined, toolRegistry);
+    ollamaService.setStreamListener(stream);
     const supervisorAgent = new SupervisorAgent(ollamaService, toolRegistry);
 
     // No upfront availability check - try Ollama first and catch errors during execution
 
     // Get or create session ID
     const activeSessionId = sessionId || `session_${userId}_${Date.now()}`;
+    ollamaService.setSpendCapScope({
+      organizationId,
+      userId,
+      feature: 'master-agent',
+      apiKeySource: 'backbone',
+      projectId,
+      sessionId: activeSessionId
+    });
 
     // Add user message to session memory
     agentMemoryService.addSessionMessage(activeSessionId, {
@@ -212,6 +227,7 @@ export const masterAgentV2 = onCall({
     let result: any;
     try {
       console.log('[MasterAgentV2] 🚀 Attempting to route request through SupervisorAgent...');
+      stream?.({ type: 'progress', stage: 'routing', message: 'Routing request to the best agent' });
       console.log('[MasterAgentV2] 🔍 Message:', message.substring(0, 100));
       console.log('[MasterAgentV2] 🔍 Context:', JSON.stringify(supervisorContext, null, 2).substring(0, 300));
       result = await supervisorAgent.routeRequest(message, supervisorContext);
@@ -277,6 +293,8 @@ export const masterAgentV2 = onCall({
       // If SupervisorAgent fails due to Ollama issue, fallback to Gemini
       if (isOllamaError) {
         console.log('[MasterAgentV2] 🔄 Ollama error detected, automatically falling back to Gemini...');
+        // Clients discard tokens streamed before a fallback
+        stream?.({ type: 'progress', stage: 'fallback', message: 'Local model unavailable, generating response with Gemini' });
         try {
           const { callAIAgentInternal } = await import('../aiAgent/callAgent');
           const mockRequest = {
@@ -344,6 +362,7 @@ export const masterAgentV2 = onCall({
     }
 
     // Add assistant response to session memory
+    stream?.({ type: 'progress', stage: 'saving', message: 'Saving conversation' });
     agentMemoryService.addSessionMessage(activeSessionId, {
       role: 'assistant',
       content: result.result.answer || result.result.plan || result.result.report?.executiveSummary || 'Response generated',
@@ -400,10 +419,60 @@ export const masterAgentV2 = onCall({
     if (error instanceof HttpsError) {
       throw error;
     }
+    if (error instanceof GatewayError) {
+      rethrowAsHttpsError(error);
+    }
 
     throw new HttpsError(
       'internal',
       `Master Agent error: ${error.message || 'Unknown error'}`
     );
   }
+}
+
+/**
+ * Master Agent v2 - Main entry point
+ */
+export const masterAgentV2 = onCall({
+  secrets: [geminiApiKey],
+  cors: true,
+  timeoutSeconds: 300,
+  memory: '1GiB'
+}, async (request) => handleMasterAgentRequest(request));
+
+/**
+ * Master Agent v2 - Streaming entry point (Server-Sent Events)
+ */
+export const masterAgentV2Stream = onRequest({
+  secrets: [geminiApiKey],
+  cors: true,
+  invoker: 'public',
+  timeoutSeconds: 300,
+  memory: '1GiB'
+}, async (req, res) => {
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const decodedToken = await authenticateStreamRequest(req);
+  if (!decodedToken) {
+    res.status(401).json({ success: false, error: 'User must be authenticated' });
+    return;
+  }
+
+  const stream = openChatStream(res);
+  try {
+    const result = await handleMasterAgentRequest(
+      { auth: { uid: decodedToken.uid, token: decodedToken }, data: req.body as MasterAgentRequest },
+      stream
+    );
+    stream({ type: 'done', result });
+  } catch (error: any) {
+    stream({
+      type: 'error',
+      message: error?.message || 'Unknown error',
+      code: error instanceof HttpsError ? error.code : undefined
+    });
+  }
 });
@@ -136,3 +136,16 @@ ${TOOL_REFERENCE}
 9. **Tool Parameters**: Include all required parameters and relevant optional parameters in action plans.
 10. **Auto-Fill ProjectId**: When currentProjectId is available, automatically include it in action params without asking the user.
 `;
+
+/**
+ * System prompt for an Architect session; plan mode phases prepend their mode rules
+ */
+export function buildArchitectSystemPrompt(phase?: 'EXPLORATION' | 'EXECUTION'): string {
+  if (phase === 'EXPLORATION') {
+    return PLAN_MODE_EXPLORATION_PROMPT + '\n\n' + ARCHITECT_SYSTEM_PROMPT;
+  }
+  if (phase === 'EXECUTION') {
+    return PLAN_MODE_EXECUTION_PROMPT + '\n\n' + ARCHITECT_SYSTEM_PROMPT;
+  }
+  return ARCHITECT_SYSTEM_PROMPT;
+}
@@ -8,6 +8,9 @@
 
 import { ProjectData, AnalysisOptions, ProjectInsights, Risk, KeyMetrics } from './DocumentAnalysisService';
 import { OllamaModelSelector, TaskRequirements } from './OllamaModelSelector';
+import { estimateRequestTokens, releaseSpendReservation, SpendReservation } from '../gateway/gatewaySettings';
+import { assertWithinSpendCaps, recordScopedUsage, SpendCapScope } from '../gateway/spendCapGuard';
+import { GatewayUsage } from '../gateway/types';
 
 export class OllamaAnalysisService {
     private ollamaBaseUrl: string;
@@ -18,6 +21,7 @@ export class OllamaAnalysisService {
     private model: string;
     private timeout: number;
     private source: string = 'default';
+    private spendCapScope?: SpendCapScope;
 
     constructor(baseUrl?: string) {
         this.ollamaBaseUrl = baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
@@ -43,6 +47,41 @@ export class OllamaAnalysisService {
         this.timeout = parseInt(process.env.OLLAMA_TIMEOUT || '120000', 10); // 2 min for gemma3
     }
 
+    /**
+     * Reserve against the organization's spend caps before, and record usage after,
+     * each subsequent Ollama call (undefined to stop)
+     */
+    setSpendCapScope(scope?: SpendCapScope): void {
+        this.spendCapScope = scope;
+    }
+
+    /**
+     * Pass the reservation to releaseSpendCaps once the call has finished
+     */
+    protected async checkSpendCaps(model: string, prompts: string[], maxOutputTokens: number): Promise<SpendReservation | null> {
+        if (!this.spendCapScope) return null;
+        const estimate = estimateRequestTokens(prompts.map(content => ({ role: 'user' as const, content })), maxOutputTokens);
+        return assertWithinSpendCaps(this.spendCapScope, { provider: 'ollama', model, ...estimate });
+    }
+
+    protected async releaseSpendCaps(reservation: SpendReservation | null): Promise<void> {
+        await releaseSpendReservation(reservation);
+    }
+
+    protected async recordUsage(model: string, usage?: GatewayUsage): Promise<void> {
+        if (!this.spendCapScope || !usage) return;
+        await recordScopedUsage(this.spendCapScope, { provider: 'ollama', model, ...usage });
+    }
+
+    /**
+     * Token counts Ollama reports on the final chunk of a response
+     */
+    protected static readUsage(data: any): GatewayUsage | undefined {
+        return data?.done
+            ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+            : undefined;
+    }
+
     /**
      * Resolve the base URL, checking Firestore if needed
      */
@@ -224,32 +263,40 @@ export class OllamaAnalysisService {
             stop: ['\n\n---', '### END', '```']
         };
 
+        const reservation = await this.checkSpendCaps(selectedModel, [prompt], generationOptions.num_predict);
+
         // Generate analysis
         const startTime = Date.now();
-        const activeUrl = await this.resolveBaseUrl();
-
-        const response = await fetch(`${activeUrl}/api/generate`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'ngrok-skip-browser-warning': 'true',
-                'User-Agent': 'Firebase-Functions-Ollama-Client/1.0'
-            },
-            body: JSON.stringify({
-                model: selectedModel,
-                prompt: prompt,
-                stream: false,
-                options: generationOptions
-            }),
-            signal: AbortSignal.timeout(modelTimeout)
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
-        }
+        let data: any;
+        try {
+            const activeUrl = await this.resolveBaseUrl();
 
-        const data = await response.json();
+            const response = await fetch(`${activeUrl}/api/generate`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'ngrok-skip-browser-warning': 'true',
+                    'User-Agent': 'Firebase-Functions-Ollama-Client/1.0'
+                },
+                body: JSON.stringify({
+                    model: selectedModel,
+                    prompt: prompt,
+                    stream: false,
+                    options: generationOptions
+                }),
+                signal: AbortSignal.timeout(modelTimeout)
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+            }
+
+            data = await response.json();
+            await this.recordUsage(selectedModel, OllamaAnalysisService.readUsage(data));
+        } finally {
+            await this.releaseSpendCaps(reservation);
+        }
         const generatedText = data.response || '';
         const duration = Date.now() - startTime;
 
@@ -9,10 +9,14 @@
  * - ReAct loop (Reasoning + Acting)
  * - Zod schema to Ollama JSON schema conversion
  * - Automatic tool result feeding back to model
+ * - Optional streaming of tokens and tool start/finish events (setStreamListener)
+ * - Spend cap checks and usage recording per call (setSpendCapScope)
  */
 
 import { OllamaAnalysisService } from './OllamaAnalysisService';
 import { UnifiedToolRegistry, unifiedToolRegistry } from './UnifiedToolRegistry';
+import { ChatStreamListener, splitNdjson } from '../utils/chatStream';
+import { GatewayError, GatewayUsage } from '../gateway/types';
 import { z } from 'zod';
 
 export interface ChatMessage {
@@ -35,15 +39,31 @@ export interface ChatResponse {
     tool_results?: any[]; // New field to Capture raw tool data
 }
 
+/**
+ * Tools supplied by the caller instead of the registry, e.g. so writes can be journaled
+ */
+export interface ChatToolset {
+    tools: Array<{ name: string; description: string; parameters: Record<string, any> }>;
+    execute: (toolCall: ToolCall) => Promise<{ success: boolean; data?: any; error?: string }>;
+}
+
 export class OllamaToolCallingService extends OllamaAnalysisService {
     private toolRegistry: UnifiedToolRegistry;
     private maxIterations: number = 10; // Max ReAct loop iterations
+    private streamListener?: ChatStreamListener;
 
     constructor(baseUrl?: string, toolRegistry?: UnifiedToolRegistry) {
         super(baseUrl);
         this.toolRegistry = toolRegistry || unifiedToolRegistry();
     }
 
+    /**
+     * Send tokens and tool events of subsequent chats to a listener (undefined to stop)
+     */
+    setStreamListener(listener?: ChatStreamListener): void {
+        this.streamListener = listener;
+    }
+
     /**
      * Generate chat response with tool calling support
      * Implements ReAct loop: Reason -> Act -> Observe -> Repeat
@@ -55,9 +75,14 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
             userId?: string;
             organizationId?: string;
             projectId?: string;
+        },
+        options?: {
+            stream?: boolean; // false keeps internal calls (e.g. intent classification) off the stream
+            toolset?: ChatToolset; // replaces `tools`; calls go to toolset.execute instead of the registry
         }
     ): Promise<ChatResponse> {
         console.log('[OllamaToolCallingService] 💬 Starting chat with tool calling');
+        const listener = options?.stream === false ? undefined : this.streamListener;
         console.log(`[OllamaToolCallingService] 📝 Messages: ${messages.length}`);
         console.log(`[OllamaToolCallingService] 🔧 Tools available: ${tools?.length || 'all'}`);
 
@@ -77,9 +102,12 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
         }
 
         // Get available tools
-        const availableTools = tools && tools.length > 0
-            ? (await Promise.all(tools.map(name => this.toolRegistry.getTool(name)))).filter(Boolean)
-            : await this.toolRegistry.getAllTools();
+        const toolset = options?.toolset;
+        const availableTools = toolset
+            ? toolset.tools
+            : tools && tools.length > 0
+                ? (await Promise.all(tools.map(name => this.toolRegistry.getTool(name)))).filter(Boolean)
+                : await this.toolRegistry.getAllTools();
 
         if (availableTools.length === 0) {
             console.warn('[OllamaToolCallingService] ⚠️ No tools available, falling back to simple chat');
@@ -87,9 +115,9 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
         }
 
         // Convert tools to Ollama format
-        const toolSchemas = availableTools.map(tool =>
-            this.convertToolToOllamaFormat(tool)
-        );
+        const toolSchemas = toolset
+            ? toolset.tools.map(tool => ({ type: 'function', function: tool }))
+            : availableTools.map(tool => this.convertToolToOllamaFormat(tool));
 
         // Build system prompt with tool descriptions
         const systemPrompt = this.buildSystemPromptWithTools(availableTools);
@@ -110,8 +138,11 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
             // Step 1: Generate response (with potential tool calls)
             let response: ChatResponse;
             try {
-                response = await this.callOllamaChat(currentMessages, toolSchemas);
+                response = await this.callOllamaChat(currentMessages, toolSchemas, listener);
             } catch (ollamaError: any) {
+                if (ollamaError instanceof GatewayError) {
+                    throw ollamaError;
+                }
                 // If Ollama fails during execution, throw error to trigger fallback
                 console.error('[OllamaToolCallingService] ❌ Ollama chat failed:', ollamaError?.message || ollamaError);
                 throw new Error('Ollama service is not available. Please ensure Ollama is running and accessible.');
@@ -140,7 +171,9 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
                 try {
                     toolResults = await this.executeToolCalls(
                         response.tool_calls,
-                        context
+                        context,
+                        listener,
+                        toolset
                     );
                 } catch (toolError: any) {
                     console.error('[OllamaToolCallingService] ❌ Tool execution failed:', toolError?.message || toolError);
@@ -193,7 +226,8 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
      */
     private async callOllamaChat(
         messages: ChatMessage[],
-        toolSchemas: any[]
+        toolSchemas: any[],
+        listener?: ChatStreamListener
     ): Promise<ChatResponse> {
         const config = await this.resolveOllamaConfig();
         const activeUrl = config.baseUrl;
@@ -214,10 +248,13 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
             };
         });
 
+        // Outside the try below: a cap refusal must not read as Ollama being unavailable
+        const reservation = await this.checkSpendCaps(model, messages.map(msg => msg.content), 2000);
+
         const requestBody: any = {
             model,
             messages: ollamaMessages,
-            stream: false,
+            stream: !!listener,
             tools: toolSchemas.length > 0 ? toolSchemas : undefined,
             options: {
                 temperature: 0.7,
@@ -243,36 +280,90 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
                 throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
             }
 
-            const data = await response.json();
-            const assistantMessage = data.message || {};
-
-            // Parse tool calls from response
+            const { content, rawToolCalls, done, usage } = listener
+                ? await this.readOllamaStream(response, listener)
+                : await response.json().then((data: any) => ({
+                    content: data.message?.content || '',
+                    rawToolCalls: data.message?.tool_calls || [],
+                    done: !!data.done,
+                    usage: OllamaToolCallingService.readUsage(data)
+                }));
+            await this.recordUsage(model, usage);
+
+            // Parse tool calls from response (arguments arrive as an object or a JSON string)
             const toolCalls: ToolCall[] = [];
-            if (assistantMessage.tool_calls) {
-                for (const tc of assistantMessage.tool_calls) {
-                    try {
-                        toolCalls.push({
-                            name: tc.function?.name || '',
-                            arguments: JSON.parse(tc.function?.arguments || '{}'),
-                            id: tc.id
-                        });
-                    } catch (e) {
-                        console.warn('[OllamaToolCallingService] ⚠️ Failed to parse tool call:', e);
-                    }
+            for (const tc of rawToolCalls) {
+                try {
+                    const args = tc.function?.arguments;
+                    toolCalls.push({
+                        name: tc.function?.name || '',
+                        arguments: typeof args === 'string' ? JSON.parse(args || '{}') : (args || {}),
+                        id: tc.id
+                    });
+                } catch (e) {
+                    console.warn('[OllamaToolCallingService] ⚠️ Failed to parse tool call:', e);
                 }
             }
 
             return {
-                message: assistantMessage.content || '',
+                message: content,
                 tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
-                finish_reason: data.done ? 'stop' : 'tool_calls'
+                finish_reason: done ? 'stop' : 'tool_calls'
             };
         } catch (error: any) {
             console.error('[OllamaToolCallingService] ❌ Ollama chat error:', error);
             throw error;
+        } finally {
+            await this.releaseSpendCaps(reservation);
         }
     }
 
+    /**
+     * Read a streamed /api/chat response (NDJSON), forwarding content deltas as tokens
+     */
+    private async readOllamaStream(
+        response: Response,
+        listener: ChatStreamListener
+    ): Promise<{ content: string; rawToolCalls: any[]; done: boolean; usage?: GatewayUsage }> {
+        if (!response.body) {
+            throw new Error('Ollama returned an empty stream');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let content = '';
+        let done = false;
+        let usage: GatewayUsage | undefined;
+        const rawToolCalls: any[] = [];
+
+        const handle = (chunk: any) => {
+            const delta = chunk.message?.content;
+            if (delta) {
+                content += delta;
+                listener({ type: 'token', delta });
+            }
+            if (chunk.message?.tool_calls) {
+                rawToolCalls.push(...chunk.message.tool_calls);
+            }
+            if (chunk.done) {
+                done = true;
+                usage = OllamaToolCallingService.readUsage(chunk);
+            }
+        };
+
+        for (;;) {
+            const { value, done: streamDone } = await reader.read();
+            if (streamDone) break;
+            const parsed = splitNdjson(buffer + decoder.decode(value, { stream: true }));
+            parsed.items.forEach(handle);
+            buffer = parsed.rest;
+        }
+        splitNdjson(buffer + '\n').items.forEach(handle);
+
+        return { content, rawToolCalls, done, usage };
+    }
+
     /**
      * Execute tool calls and return results
      */
@@ -282,18 +373,30 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
             userId?: string;
             organizationId?: string;
             projectId?: string;
-        }
+        },
+        listener?: ChatStreamListener,
+        toolset?: ChatToolset
     ): Promise<Array<{ tool_call_id?: string; tool_name: string; content: string;[key: string]: any }>> {
         const results = [];
 
         for (const toolCall of toolCalls) {
+            const startedAt = Date.now();
+            listener?.({ type: 'tool_start', tool: toolCall.name, callId: toolCall.id, arguments: toolCall.arguments });
             try {
                 console.log(`[OllamaToolCallingService] 🔨 Executing tool: ${toolCall.name}`);
-                const result = await this.toolRegistry.executeTool(
-                    toolCall.name,
-                    toolCall.arguments,
-                    context
-                );
+                let result: any;
+                if (toolset) {
+                    // Only the toolset's own tools run; anything else the model names is refused
+                    result = toolset.tools.some(tool => tool.name === toolCall.name)
+                        ? await toolset.execute(toolCall)
+                        : { success: false, error: `Tool ${toolCall.name} is not available here` };
+                } else {
+                    result = await this.toolRegistry.executeTool(
+                        toolCall.name,
+                        toolCall.arguments,
+                        context
+                    );
+                }
 
                 // Format result for Ollama
                 const resultContent = result.content?.[0]?.text || JSON.stringify(result.data || result);
@@ -303,6 +406,7 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
                     content: resultContent,
                     success: result.success
                 });
+                listener?.({ type: 'tool_end', tool: toolCall.name, callId: toolCall.id, success: result.success !== false, durationMs: Date.now() - startedAt });
             } catch (error: any) {
                 console.error(`[OllamaToolCallingService] ❌ Error executing tool ${toolCall.name}:`, error);
                 results.push({
@@ -311,6 +415,7 @@ export class OllamaToolCallingService extends OllamaAnalysisService {
                     content: JSON.stringify({ error: error.message }),
                     success: false
                 });
+                listener?.({ type: 'tool_end', tool: toolCall.name, callId: toolCall.id, success: false, durationMs: Date.now() - startedAt });
             }
         }
 
@@ -465,31 +570,37 @@ Always explain what you're doing and why.`;
         const config = await this.resolveOllamaConfig();
         const activeUrl = config.baseUrl;
         const model = config.model;
+        const reservation = await this.checkSpendCaps(model, messages.map(msg => msg.content), 2000);
 
-        const response = await fetch(`${activeUrl}/api/chat`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'ngrok-skip-browser-warning': 'true'
-            },
-            body: JSON.stringify({
-                model,
-                messages: messages.map(m => ({ role: m.role, content: m.content })),
-                stream: false
-            }),
-            signal: AbortSignal.timeout(60000)
-        });
+        try {
+            const response = await fetch(`${activeUrl}/api/chat`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'ngrok-skip-browser-warning': 'true'
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: messages.map(m => ({ role: m.role, content: m.content })),
+                    stream: false
+                }),
+                signal: AbortSignal.timeout(60000)
+            });
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
-        }
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+            }
 
-        const data = await response.json();
-        return {
-            message: data.message?.content || '',
-            finish_reason: 'stop'
-        };
+            const data = await response.json();
+            await this.recordUsage(model, OllamaToolCallingService.readUsage(data));
+            return {
+                message: data.message?.content || '',
+                finish_reason: 'stop'
+            };
+        } finally {
+            await this.releaseSpendCaps(reservation);
+        }
     }
 
     /**
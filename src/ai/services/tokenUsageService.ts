@@ -7,13 +7,16 @@
 
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 import Stripe from 'stripe';
+import { addUsageToSpendCounter } from '../gateway/gatewaySettings';
 
 const db = getFirestore();
 
+export type TokenUsageProvider = 'openai' | 'claude' | 'gemini' | 'grok' | 'ollama';
+
 export interface TokenUsageRecord {
   organizationId: string;
   userId: string;
-  provider: 'openai' | 'claude' | 'gemini' | 'grok';
+  provider: TokenUsageProvider;
   model: string;
   inputTokens: number;
   outputTokens: number;
@@ -80,8 +83,18 @@ export class TokenUsageService {
         timestamp: Timestamp.now()
       };
 
-      // Store in Firestore
-      await db.collection('aiTokenUsage').add(usageRecord);
+      // Store in Firestore, keeping the organization's monthly spend counter in step
+      const usageRef = db.collection('aiTokenUsage').doc();
+      await db.runTransaction(async transaction => {
+        await addUsageToSpendCounter(
+          transaction,
+          record.organizationId,
+          record.feature,
+          { tokens: totalTokens, cost },
+          usageRecord.timestamp.toDate()
+        );
+        transaction.create(usageRef, usageRecord);
+      });
 
       // If using Backbone backend API, report to Stripe for metered billing
       if (record.apiKeySource === 'backbone') {
@@ -105,8 +118,8 @@ export class TokenUsageService {
    * Calculate token cost based on provider and model pricing
    * Prices are per 1M tokens (as of 2024)
    */
-  private static calculateTokenCost(
-    provider: 'openai' | 'claude' | 'gemini' | 'grok',
+  static calculateTokenCost(
+    provider: TokenUsageProvider,
     model: string,
     inputTokens: number,
     outputTokens: number
@@ -146,6 +159,8 @@ export class TokenUsageService {
         modelPricing = pricing['claude-3-haiku-20240307']; // Default to cheapest
       } else if (provider === 'gemini') {
         modelPricing = pricing['gemini-2.5-flash']; // Free tier
+      } else if (provider === 'ollama') {
+        modelPricing = { input: 0.00, output: 0.00 }; // Self-hosted
       } else {
         modelPricing = { input: 1.00, output: 2.00 }; // Generic fallback
       }
@@ -163,7 +178,7 @@ export class TokenUsageService {
   private static async reportUsageToStripe(
     organizationId: string,
     userId: string,
-    provider: 'openai' | 'claude' | 'gemini' | 'grok',
+    provider: TokenUsageProvider,
     totalTokens: number,
     cost: number
   ): Promise<void> {
@@ -238,7 +253,7 @@ export class TokenUsageService {
     organizationId: string,
     userId: string,
     period: 'daily' | 'monthly' = 'monthly',
-    provider?: 'openai' | 'claude' | 'gemini' | 'grok'
+    provider?: TokenUsageProvider
   ): Promise<TokenUsageSummary[]> {
     try {
       const now = new Date();
@@ -10,6 +10,7 @@ import { defineSecret } from 'firebase-functions/params';
 import * as admin from 'firebase-admin';
 import { encryptTokens } from '../integrations/encryption';
 import { Timestamp } from 'firebase-admin/firestore';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -43,7 +44,7 @@ export const storeAIApiKey = onCall(
   { 
     cors: true,
     // Include the encryption key secret
-    secrets: [encryptionKeySecret]
+    secrets: [encryptionKeySecret, encryptionKeyPrevious]
   },
   async (request): Promise<StoreApiKeyResponse> => {
     try {
@@ -7,7 +7,12 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { defineSecret } from 'firebase-functions/params';
 import * as admin from 'firebase-admin';
-import { getAIApiKey, callAIProvider } from './utils/aiHelpers';
+import { getAIApiKey, getApiKeySource } from './utils/aiHelpers';
+import { PROVIDER_ADAPTERS } from './gateway/providers';
+import { TokenUsageService } from './services/tokenUsageService';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
+
+const KEY_TEST_TIMEOUT_MS = 30000;
 
 // Define the encryption key secret (same as storeAIApiKey)
 const encryptionKeySecret = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
@@ -40,7 +45,7 @@ export const testAIApiKey = onCall(
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
     // Include the encryption key secret
-    secrets: [encryptionKeySecret]
+    secrets: [encryptionKeySecret, encryptionKeyPrevious]
   },
   async (request): Promise<TestApiKeyResponse> => {
   try {
@@ -96,14 +101,31 @@ export const testAIApiKey = onCall(
       };
     }
 
-    // Test with a simple API call
+    // Test the key just loaded with a direct provider call. A key test is not held to
+    // the spend caps, so an organization at its cap can still check a key.
     try {
-      const testMessages = [
-        { role: 'user', content: 'Say "test" if you can read this.' }
-      ];
+      const { text: response, usage } = await PROVIDER_ADAPTERS[provider](
+        [{ role: 'user', content: 'Say "test" if you can read this.' }],
+        [],
+        {
+          apiKey: apiKeyData.apiKey,
+          model: apiKeyData.model,
+          temperature: 0,
+          maxTokens: 20,
+          signal: AbortSignal.timeout(KEY_TEST_TIMEOUT_MS)
+        }
+      );
+      await TokenUsageService.recordTokenUsage({
+        organizationId,
+        userId,
+        provider,
+        model: apiKeyData.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        apiKeySource: await getApiKeySource(organizationId, provider),
+        feature: 'api-key-test'
+      });
 
-      const response = await callAIProvider(provider, apiKeyData.apiKey, apiKeyData.model, testMessages);
-      
       if (response && response.toLowerCase().includes('test')) {
         return {
           success: true,
@@ -6,9 +6,10 @@
 
 import { getFirestore } from 'firebase-admin/firestore';
 import { decryptTokens } from '../../integrations/encryption';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import Anthropic from '@anthropic-ai/sdk';
 import { TokenUsageService } from '../services/tokenUsageService';
+import { estimateRequestTokens, releaseSpendReservation, SpendReservation } from '../gateway/gatewaySettings';
+import { assertWithinSpendCaps, SpendCapScope } from '../gateway/spendCapGuard';
 
 const db = getFirestore();
 
@@ -146,6 +147,28 @@ export async function getAIApiKey(
   }
 }
 
+/**
+ * Whether calls for a provider bill the organization's (Backbone-managed) key or a
+ * user-supplied one
+ */
+export async function getApiKeySource(
+  organizationId: string,
+  provider: 'openai' | 'claude' | 'gemini' | 'grok'
+): Promise<'user' | 'backbone'> {
+  const orgKeyDoc = await db
+    .collection('organizations')
+    .doc(organizationId)
+    .collection('aiApiKeys')
+    .doc(provider)
+    .get();
+
+  const isBackboneBackend = orgKeyDoc.exists &&
+    orgKeyDoc.data()?.enabled &&
+    !orgKeyDoc.data()?.overrideOrgKey;
+
+  return isBackboneBackend ? 'backbone' : 'user';
+}
+
 /**
  * Get default model for provider
  */
@@ -184,22 +207,50 @@ function upgradeDeprecatedModel(provider: 'openai' | 'claude' | 'gemini' | 'grok
   return model;
 }
 
+interface AIProviderCallOptions {
+  organizationId?: string;
+  userId?: string;
+  apiKeySource?: 'user' | 'backbone';
+  feature?: string;
+  projectId?: string;
+  sessionId?: string;
+}
+
 /**
- * Call AI provider API with token usage tracking
+ * Call AI provider API with token usage tracking. With an organizationId the call
+ * is refused (GatewayError 'spend_cap_exceeded') when it would cross a spend cap.
  */
 export async function callAIProvider(
   provider: 'openai' | 'claude' | 'gemini' | 'grok',
   apiKey: string,
   model: string,
   messages: Array<{ role: string; content: string }>,
-  options?: {
-    organizationId?: string;
-    userId?: string;
-    apiKeySource?: 'user' | 'backbone';
-    feature?: string;
-    projectId?: string;
-    sessionId?: string;
+  options?: AIProviderCallOptions
+): Promise<string> {
+  const spendCapScope: SpendCapScope | undefined = options?.organizationId
+    ? { ...options, organizationId: options.organizationId, feature: options.feature || 'ai-provider' }
+    : undefined;
+  // Gemini goes through the spend-capped client, which reserves per call
+  let reservation: SpendReservation | null = null;
+  if (spendCapScope && provider !== 'gemini') {
+    const estimate = estimateRequestTokens(messages.map(message => ({ role: 'user' as const, content: message.content })), 2000);
+    reservation = await assertWithinSpendCaps(spendCapScope, { provider, model, ...estimate });
+  }
+
+  try {
+    return await sendToProvider(provider, apiKey, model, messages, options, spendCapScope);
+  } finally {
+    await releaseSpendReservation(reservation);
   }
+}
+
+async function sendToProvider(
+  provider: 'openai' | 'claude' | 'gemini' | 'grok',
+  apiKey: string,
+  model: string,
+  messages: Array<{ role: string; content: string }>,
+  options: AIProviderCallOptions | undefined,
+  spendCapScope: SpendCapScope | undefined
 ): Promise<string> {
   if (provider === 'openai') {
     // Use OpenAI SDK (already installed)
@@ -280,7 +331,7 @@ export async function callAIProvider(
     return responseText;
   } else if (provider === 'gemini') {
     const { GeminiService } = await import('../GeminiService');
-    const geminiSvc = new GeminiService(apiKey);
+    const geminiSvc = new GeminiService(apiKey, spendCapScope);
 
     // Build system message and user prompt from messages array
     const systemInstruction = messages.find(m => m.role === 'system')?.content;
@@ -288,8 +339,7 @@ export async function callAIProvider(
 
     const responseText = await geminiSvc.generateText(userMessage, systemInstruction);
 
-    // Note: Token tracking for Gemini in this helper will be simplified for now 
-    // as generateText doesn't return usage yet. CoreGeminiService could be updated later.
+    // Token usage is recorded by the spend-capped client when an organization is given
     return responseText;
   } else if (provider === 'grok') {
     // Grok uses OpenAI-compatible API, so we can use OpenAI SDK with custom base URL
@@ -334,4 +384,3 @@ export async function callAIProvider(
     throw new Error(`Unsupported AI provider: ${provider}`);
   }
 }
-
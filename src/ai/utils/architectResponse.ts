@@ -0,0 +1,80 @@
+/**
+ * Architect Response Parsing
+ *
+ * Turns the Architect's raw JSON output into an AgentResponse carrying the plan in
+ * contextData. Malformed output still comes back as a plan so the client stays in
+ * planning mode.
+ */
+
+import type { AgentResponse } from '../GeminiService';
+
+export function parseArchitectResponse(text: string): AgentResponse {
+  try {
+    // First, try to extract JSON from markdown code blocks (```json ... ```)
+    let jsonStr = '';
+    const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    if (codeBlockMatch) {
+      jsonStr = codeBlockMatch[1];
+    } else {
+      // If no code block, try to find JSON object directly
+      // Improved regex to handle cases where the model might omit the opening { or include text before it
+      const startIndex = text.indexOf('{');
+      const endIndex = text.lastIndexOf('}');
+
+      if (startIndex === -1 || endIndex === -1 || startIndex > endIndex) {
+        throw new Error('No valid JSON object delimiters found in Architect response');
+      }
+
+      jsonStr = text.substring(startIndex, endIndex + 1);
+    }
+
+    // Clean up the JSON string (remove any trailing commas, etc.)
+    jsonStr = jsonStr.trim();
+
+    const parsed = JSON.parse(jsonStr);
+
+    // Determine context: Use architect's suggestion if provided, otherwise default to plan_mode
+    let contextMode = 'plan_mode';
+    if (parsed.suggestedContext && parsed.suggestedContext !== 'none') {
+      contextMode = parsed.suggestedContext;
+    } else if (parsed.isComplete) {
+      contextMode = 'none';
+    }
+
+    return {
+      response: parsed.response,
+      suggestedContext: contextMode as any,
+      contextData: {
+        isPlan: true,
+        markdown: parsed.planMarkdown,
+        isComplete: parsed.isComplete,
+        requiresApproval: parsed.requiresApproval || false,
+        actions: parsed.actions || [], // Extract execution actions
+        multipleChoiceQuestion: parsed.multipleChoiceQuestion || null, // Extract multiple choice question
+        responseForm: parsed.responseForm || null, // Extract structured form
+        ...parsed.contextData // Include any extra data (e.g. for user list)
+      },
+      followUpSuggestions: parsed.suggestedActions || [],
+      reasoning: "Architect Planning Session"
+    } as any; // Cast to avoid strict type issues with custom contextData
+
+  } catch (error) {
+    console.error('❌ [Gemini Service] Failed to parse Architect JSON:', error);
+    console.error('❌ [Gemini Service] Raw response text:', text.substring(0, 500));
+    // Even on parse error, mark as Architect response so frontend knows to treat it as planning
+    return {
+      response: text, // Fallback to raw text
+      suggestedContext: 'plan_mode' as any, // Keep trying
+      contextData: {
+        isPlan: true, // Mark as plan so frontend recognizes it
+        markdown: '', // Empty plan
+        isComplete: false,
+        requiresApproval: false,
+        actions: [],
+        multipleChoiceQuestion: null
+      },
+      followUpSuggestions: [],
+      reasoning: "Failed to parse JSON - but still in Architect mode"
+    } as any;
+  }
+}
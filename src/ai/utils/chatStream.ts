@@ -0,0 +1,107 @@
+/**
+ * Chat Streaming Helpers
+ *
+ * Event types and Server-Sent Events plumbing for the streaming variants of the
+ * chat endpoints (aiChatAssistantStream, masterAgentV2Stream). The callable
+ * versions run the same handlers without a listener.
+ *
+ * Clients POST the callable's request body with `Authorization: Bearer <ID token>`
+ * and read `event: <type>` / `data: <json>` frames until `done` or `error`.
+ */
+
+import type { Request } from 'firebase-functions/v2/https';
+import type { Response } from 'express';
+import { getAuth, DecodedIdToken } from 'firebase-admin/auth';
+
+export type ChatStreamEvent =
+  | { type: 'progress'; stage: string; message: string }
+  | { type: 'token'; delta: string }
+  | { type: 'tool_start'; tool: string; callId?: string; arguments?: Record<string, any> }
+  | { type: 'tool_end'; tool: string; callId?: string; success: boolean; durationMs: number }
+  | { type: 'done'; result: any }
+  | { type: 'error'; message: string; code?: string };
+
+export type ChatStreamListener = (event: ChatStreamEvent) => void;
+
+/** Comment frames keep proxies from closing an idle stream while tools run */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * One SSE frame for an event
+ */
+export function formatSseEvent(event: ChatStreamEvent, id: number): string {
+  const { type, ...data } = event;
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Split newline-delimited JSON (Ollama's streaming format) into parsed objects and
+ * the trailing partial line
+ */
+export function splitNdjson(buffer: string): { items: any[]; rest: string } {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() || '';
+  const items: any[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      items.push(JSON.parse(trimmed));
+    } catch (error) {
+      console.warn('[chatStream] Skipping malformed NDJSON line:', trimmed.substring(0, 200));
+    }
+  }
+  return { items, rest };
+}
+
+/**
+ * Verify the Bearer ID token of a streaming request
+ */
+export async function authenticateStreamRequest(req: Request): Promise<DecodedIdToken | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  try {
+    return await getAuth().verifyIdToken(authHeader.split('Bearer ')[1]);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Start an SSE response and return a listener that writes events to it. Events after
+ * the client disconnects are dropped; `done` and `error` end the response.
+ *
+ * Disconnects are watched on the response: the request's 'close' fires as soon as
+ * the POST body has been read, long before the client goes away.
+ */
+export function openChatStream(res: Response): ChatStreamListener {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  let nextId = 1;
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+  };
+  res.on('close', close);
+
+  return (event) => {
+    if (closed || res.writableEnded) return;
+    res.write(formatSseEvent(event, nextId++));
+    if (event.type === 'done' || event.type === 'error') {
+      close();
+      res.end();
+    }
+  };
+}
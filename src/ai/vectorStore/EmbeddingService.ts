@@ -36,7 +36,7 @@ export async function generateEmbedding(
       throw new Error('Gemini API key not found');
     }
 
-    const geminiSvc = new GeminiService(keyData.apiKey);
+    const geminiSvc = new GeminiService(keyData.apiKey, { organizationId, feature: 'embeddings' });
     const embedding = await geminiSvc.generateEmbedding(text);
 
     return {
@@ -0,0 +1,531 @@
+/**
+ * Firestore IVF Index
+ *
+ * Built-in VectorIndexBackend. Each namespace keeps a manifest at
+ * `vectorIndexes/{organizationId}_{collection}` with the k-means centroids, and its
+ * vectors in list chunks (`lists/{generation}_{list}_{chunk}`) holding base64 Float32
+ * vectors plus filterable metadata. A `directory` subcollection maps ids to lists so
+ * inserts and deletes touch only the chunks involved. A query scores the chunks of
+ * the lists nearest to the query vector instead of the whole source collection.
+ *
+ * Small namespaces are a single flat list. Once a namespace grows past the size it
+ * was trained at it is flagged `needsRebuild`; rebuild() retrains from the source
+ * collection into a new generation and switches over in one transaction. Writes made
+ * while a rebuild runs are recorded in `pendingIds` and replayed after the switch.
+ */
+
+import { getFirestore, FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { VectorIndexBackend, VectorMatch, VectorNamespace, VectorQuery, VectorRecord } from './VectorIndex';
+import { pickIndexMetadata } from './VectorIndex';
+import {
+  decodeVector,
+  dot,
+  encodeVector,
+  hashId,
+  listCountFor,
+  matchesFilter,
+  nearestCentroids,
+  normalizeVector,
+  topK,
+  trainCentroids
+} from './ivf';
+
+const INDEX_COLLECTION = 'vectorIndexes';
+
+/** Below this many vectors a namespace is one flat list */
+const MIN_TRAIN_SIZE = 1000;
+const MAX_LISTS = 256;
+const TRAINING_SAMPLE_SIZE = 4096;
+/** Lists probed per round; more rounds run while a filtered query is short of results */
+const PROBE_LISTS = 8;
+const MAX_PROBE_LISTS = 64;
+/** Chunk documents stay well below Firestore's 1 MiB document limit */
+const CHUNK_TARGET_BYTES = 400_000;
+const ENTRY_OVERHEAD_BYTES = 300;
+const DIRECTORY_SHARDS = 32;
+const SCAN_PAGE_SIZE = 300;
+const WRITE_SLICE_SIZE = 100;
+/** A rebuild older than this is considered abandoned */
+const REBUILD_LEASE_MS = 15 * 60 * 1000;
+
+interface IvfManifest {
+  organizationId: string;
+  collection: string;
+  embeddingField: string;
+  metadataFields: string[];
+  dimension: number | null;
+  /** 0 until the first build completes */
+  generation: number;
+  centroids: string[];
+  chunkCounts: number[];
+  count: number;
+  trainedCount: number;
+  listCounts: Record<string, number>;
+  needsRebuild: boolean;
+  rebuildingSince: Timestamp | null;
+  pendingIds: string[];
+}
+
+interface ChunkEntry {
+  v: string;
+  m: Record<string, any>;
+}
+
+function entriesPerChunk(dimension: number): number {
+  const vectorBytes = 4 * Math.ceil((dimension * 4) / 3);
+  return Math.max(1, Math.floor(CHUNK_TARGET_BYTES / (vectorBytes + ENTRY_OVERHEAD_BYTES)));
+}
+
+/** Chunks for a list expected to hold `size` vectors, with room to double before the next rebuild */
+function chunksFor(size: number, dimension: number, flat: boolean): number {
+  const capacity = Math.max(size * 2, flat ? Math.ceil(MIN_TRAIN_SIZE * 1.25) : 0);
+  return Math.max(1, Math.ceil(capacity / entriesPerChunk(dimension)));
+}
+
+function readVector(value: any): number[] | null {
+  const values = Array.isArray(value) ? value : typeof value?.toArray === 'function' ? value.toArray() : null;
+  return values && values.length > 0 ? values : null;
+}
+
+export class FirestoreIvfIndex implements VectorIndexBackend {
+  readonly name = 'firestore-ivf';
+  private db: FirebaseFirestore.Firestore;
+
+  constructor(db?: FirebaseFirestore.Firestore) {
+    this.db = db || getFirestore();
+  }
+
+  async upsert(namespace: VectorNamespace, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const manifest = await this.loadManifest(namespace);
+    if (!manifest || manifest.generation === 0) {
+      // Callers write the source documents first, so the initial build picks these up
+      await this.buildOrDefer(namespace, manifest, records.map(record => record.id));
+      return;
+    }
+
+    for (let i = 0; i < records.length; i += WRITE_SLICE_SIZE) {
+      await this.writeSlice(namespace, manifest, records.slice(i, i + WRITE_SLICE_SIZE), []);
+    }
+    await this.replayIfSwitched(namespace, manifest, records.map(record => record.id));
+  }
+
+  async delete(namespace: VectorNamespace, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const manifest = await this.loadManifest(namespace);
+    if (!manifest) return;
+    if (manifest.generation === 0) {
+      await this.buildOrDefer(namespace, manifest, ids);
+      return;
+    }
+
+    for (let i = 0; i < ids.length; i += WRITE_SLICE_SIZE) {
+      await this.writeSlice(namespace, manifest, [], ids.slice(i, i + WRITE_SLICE_SIZE));
+    }
+    await this.replayIfSwitched(namespace, manifest, ids);
+  }
+
+  async query(namespace: VectorNamespace, query: VectorQuery): Promise<VectorMatch[]> {
+    let manifest = await this.loadManifest(namespace);
+    if (!manifest || manifest.generation === 0) {
+      const built = await this.rebuild(namespace).then(() => true, error => {
+        console.warn(`[VectorIndex] Could not build ${this.namespaceKey(namespace)}, scanning source:`, error);
+        return false;
+      });
+      manifest = built ? await this.loadManifest(namespace) : null;
+      if (!manifest || manifest.generation === 0) {
+        return this.scanSource(namespace, query);
+      }
+    }
+    if (manifest.dimension === null) return [];
+
+    const vector = normalizeVector(query.vector);
+    if (vector.length !== manifest.dimension) {
+      throw new Error(`Query vector has ${vector.length} dimensions, index ${this.namespaceKey(namespace)} has ${manifest.dimension}`);
+    }
+
+    const centroids = manifest.centroids.map(decodeVector);
+    const listOrder = centroids.length > 0
+      ? nearestCentroids(vector, centroids, Math.min(centroids.length, MAX_PROBE_LISTS))
+      : [0];
+    const excluded = new Set(query.excludeIds || []);
+    const candidates: VectorMatch[] = [];
+
+    for (let probed = 0; probed < listOrder.length && candidates.length < query.limit; probed += PROBE_LISTS) {
+      const refs = listOrder.slice(probed, probed + PROBE_LISTS).flatMap(list =>
+        Array.from({ length: this.chunkCount(manifest!, list) }, (_, chunk) => this.chunkRef(namespace, manifest!.generation, list, chunk))
+      );
+      const chunks = await this.db.getAll(...refs);
+
+      for (const chunk of chunks) {
+        const entries = (chunk.data()?.entries || {}) as Record<string, ChunkEntry>;
+        for (const [id, entry] of Object.entries(entries)) {
+          if (excluded.has(id) || !matchesFilter(entry.m, query.filter)) continue;
+          const score = dot(vector, decodeVector(entry.v));
+          if (query.minScore !== undefined && score < query.minScore) continue;
+          candidates.push({ id, score, metadata: entry.m || {} });
+        }
+      }
+    }
+
+    return topK(candidates, query.limit);
+  }
+
+  /**
+   * Retrain the namespace from its source collection into a new generation
+   */
+  async rebuild(namespace: VectorNamespace): Promise<void> {
+    const key = this.namespaceKey(namespace);
+    const manifestRef = this.manifestRef(namespace);
+
+    const previousGeneration = await this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(manifestRef);
+      const current = snapshot.data() as IvfManifest | undefined;
+      const since = current?.rebuildingSince?.toMillis();
+      if (since && Date.now() - since < REBUILD_LEASE_MS) {
+        throw new Error(`Rebuild of ${key} already in progress`);
+      }
+      transaction.set(manifestRef, {
+        organizationId: namespace.organizationId,
+        collection: namespace.collection,
+        embeddingField: namespace.embeddingField,
+        metadataFields: namespace.metadataFields,
+        ...(current ? {} : { dimension: null, generation: 0, centroids: [], chunkCounts: [], count: 0, trainedCount: 0, listCounts: {} }),
+        needsRebuild: false,
+        rebuildingSince: Timestamp.now(),
+        pendingIds: [],
+        updatedAt: FieldValue.serverTimestamp()
+      }, { merge: true });
+      return current?.generation || 0;
+    });
+
+    const generation = previousGeneration + 1;
+    console.log(`🧭 [VectorIndex] Rebuilding ${key} as generation ${generation}`);
+
+    try {
+      // Pass 1: count and sample
+      let total = 0;
+      let dimension: number | null = null;
+      const sample: Float32Array[] = [];
+      await this.forEachSourceVector(namespace, ({ vector }) => {
+        dimension = dimension ?? vector.length;
+        if (vector.length !== dimension) return;
+        total++;
+        if (sample.length < TRAINING_SAMPLE_SIZE) {
+          sample.push(vector);
+        } else {
+          const slot = Math.floor(Math.random() * total);
+          if (slot < TRAINING_SAMPLE_SIZE) sample[slot] = vector;
+        }
+      });
+
+      const lists = listCountFor(total, MIN_TRAIN_SIZE, MAX_LISTS);
+      const centroids = lists > 1 ? trainCentroids(sample, lists) : [];
+      const sampleCounts = new Array(Math.max(1, centroids.length)).fill(0);
+      sample.forEach(vector => {
+        sampleCounts[centroids.length > 0 ? nearestCentroids(vector, centroids, 1)[0] : 0]++;
+      });
+      const chunkCounts = dimension === null ? [] : sampleCounts.map(count =>
+        chunksFor(Math.ceil((count / Math.max(1, sample.length)) * total), dimension!, centroids.length === 0)
+      );
+
+      // Pass 2: assign every vector to its list and write the new generation
+      const listCounts: Record<string, number> = {};
+      let written = 0;
+      const writer = this.db.bulkWriter();
+      await this.forEachSourcePage(namespace, page => {
+        const chunkEntries = new Map<string, { list: number; chunk: number; entries: Record<string, ChunkEntry> }>();
+        const shardEntries = new Map<number, Record<string, number>>();
+
+        for (const { id, vector, metadata } of page) {
+          if (vector.length !== dimension) continue;
+          const list = centroids.length > 0 ? nearestCentroids(vector, centroids, 1)[0] : 0;
+          const chunk = hashId(id) % chunkCounts[list];
+          const chunkKey = `${list}_${chunk}`;
+          if (!chunkEntries.has(chunkKey)) chunkEntries.set(chunkKey, { list, chunk, entries: {} });
+          chunkEntries.get(chunkKey)!.entries[id] = { v: encodeVector(vector), m: metadata };
+
+          const shard = hashId(id) % DIRECTORY_SHARDS;
+          if (!shardEntries.has(shard)) shardEntries.set(shard, {});
+          shardEntries.get(shard)![id] = list;
+          listCounts[list] = (listCounts[list] || 0) + 1;
+          written++;
+        }
+
+        chunkEntries.forEach(({ list, chunk, entries }) => {
+          writer.set(this.chunkRef(namespace, generation, list, chunk), { generation, list, entries }, { merge: true });
+        });
+        shardEntries.forEach((ids, shard) => {
+          writer.set(this.directoryRef(namespace, generation, shard), { generation, ids }, { merge: true });
+        });
+      });
+      await writer.close();
+
+      const pendingIds = await this.db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(manifestRef);
+        const pending = ((snapshot.data() as IvfManifest | undefined)?.pendingIds) || [];
+        transaction.update(manifestRef, {
+          dimension,
+          generation,
+          centroids: centroids.map(encodeVector),
+          chunkCounts,
+          count: written,
+          trainedCount: written,
+          listCounts,
+          needsRebuild: false,
+          rebuildingSince: null,
+          pendingIds: [],
+          lastRebuiltAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        return pending;
+      });
+
+      if (pendingIds.length > 0) {
+        await this.syncFromSource(namespace, Array.from(new Set(pendingIds)));
+      }
+      if (previousGeneration > 0) {
+        await this.deleteGeneration(namespace, previousGeneration);
+      }
+
+      console.log(`✅ [VectorIndex] Rebuilt ${key}: ${written} vectors in ${Math.max(1, centroids.length)} lists`);
+    } catch (error) {
+      await manifestRef.update({ rebuildingSince: null, needsRebuild: true }).catch(() => undefined);
+      await this.deleteGeneration(namespace, generation).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private namespaceKey(namespace: VectorNamespace): string {
+    return `${namespace.organizationId}_${namespace.collection}`;
+  }
+
+  private manifestRef(namespace: VectorNamespace): FirebaseFirestore.DocumentReference {
+    return this.db.collection(INDEX_COLLECTION).doc(this.namespaceKey(namespace));
+  }
+
+  private chunkRef(namespace: VectorNamespace, generation: number, list: number, chunk: number): FirebaseFirestore.DocumentReference {
+    return this.manifestRef(namespace).collection('lists').doc(`${generation}_${list}_${chunk}`);
+  }
+
+  private directoryRef(namespace: VectorNamespace, generation: number, shard: number): FirebaseFirestore.DocumentReference {
+    return this.manifestRef(namespace).collection('directory').doc(`${generation}_${shard}`);
+  }
+
+  private chunkCount(manifest: IvfManifest, list: number): number {
+    return manifest.chunkCounts[list] || chunksFor(0, manifest.dimension || 1, manifest.centroids.length === 0);
+  }
+
+  private async loadManifest(namespace: VectorNamespace): Promise<IvfManifest | null> {
+    const snapshot = await this.manifestRef(namespace).get();
+    return snapshot.exists ? (snapshot.data() as IvfManifest) : null;
+  }
+
+  /**
+   * Namespace without a built generation: build it now, or leave the ids for the
+   * running build to pick up
+   */
+  private async buildOrDefer(namespace: VectorNamespace, manifest: IvfManifest | null, ids: string[]): Promise<void> {
+    if (manifest?.rebuildingSince) {
+      await this.manifestRef(namespace).update({ pendingIds: FieldValue.arrayUnion(...ids) });
+      return;
+    }
+    await this.rebuild(namespace);
+  }
+
+  /**
+   * Write upserts and deletes for one slice of ids in a single batch
+   */
+  private async writeSlice(namespace: VectorNamespace, manifest: IvfManifest, records: VectorRecord[], deletes: string[]): Promise<void> {
+    const { generation } = manifest;
+    const ids = [...records.map(record => record.id), ...deletes];
+    const shards = Array.from(new Set(ids.map(id => hashId(id) % DIRECTORY_SHARDS)));
+    const directory = new Map<string, number>();
+    const snapshots = await this.db.getAll(...shards.map(shard => this.directoryRef(namespace, generation, shard)));
+    snapshots.forEach(snapshot => {
+      Object.entries((snapshot.data()?.ids || {}) as Record<string, number>).forEach(([id, list]) => directory.set(id, list));
+    });
+
+    const centroids = manifest.centroids.map(decodeVector);
+    const batch = this.db.batch();
+    const listDeltas: Record<string, number> = {};
+    let countDelta = 0;
+
+    const removeEntry = (id: string, list: number) => {
+      const chunk = hashId(id) % this.chunkCount(manifest, list);
+      batch.update(this.chunkRef(namespace, generation, list, chunk), new FieldPath('entries', id), FieldValue.delete());
+      listDeltas[list] = (listDeltas[list] || 0) - 1;
+    };
+
+    for (const record of records) {
+      const vector = normalizeVector(record.vector);
+      if (manifest.dimension === null) {
+        manifest.dimension = vector.length;
+        batch.update(this.manifestRef(namespace), { dimension: vector.length });
+      }
+      if (vector.length !== manifest.dimension) {
+        throw new Error(`Vector ${record.id} has ${vector.length} dimensions, index ${this.namespaceKey(namespace)} has ${manifest.dimension}`);
+      }
+
+      const list = centroids.length > 0 ? nearestCentroids(vector, centroids, 1)[0] : 0;
+      const previous = directory.get(record.id);
+      if (previous !== undefined && previous !== list) {
+        removeEntry(record.id, previous);
+      }
+      if (previous !== list) {
+        listDeltas[list] = (listDeltas[list] || 0) + 1;
+      }
+      if (previous === undefined) {
+        countDelta++;
+      }
+
+      const chunk = hashId(record.id) % this.chunkCount(manifest, list);
+      const entry: ChunkEntry = { v: encodeVector(vector), m: record.metadata || {} };
+      batch.set(
+        this.chunkRef(namespace, generation, list, chunk),
+        { generation, list, entries: { [record.id]: entry } },
+        { mergeFields: ['generation', 'list', new FieldPath('entries', record.id)] }
+      );
+      batch.set(
+        this.directoryRef(namespace, generation, hashId(record.id) % DIRECTORY_SHARDS),
+        { generation, ids: { [record.id]: list } },
+        { merge: true }
+      );
+    }
+
+    for (const id of deletes) {
+      const previous = directory.get(id);
+      if (previous === undefined) continue;
+      removeEntry(id, previous);
+      countDelta--;
+      batch.update(this.directoryRef(namespace, generation, hashId(id) % DIRECTORY_SHARDS), new FieldPath('ids', id), FieldValue.delete());
+    }
+
+    const count = manifest.count + countDelta;
+    const perChunk = entriesPerChunk(manifest.dimension || 1);
+    const listNearlyFull = Object.keys(listDeltas).some(list =>
+      (manifest.listCounts[list] || 0) + listDeltas[list] > 0.8 * this.chunkCount(manifest, Number(list)) * perChunk
+    );
+    const needsRebuild = manifest.needsRebuild || listNearlyFull || (count >= MIN_TRAIN_SIZE &&
+      (centroids.length === 0 || count > manifest.trainedCount * 2));
+
+    const manifestUpdate: Record<string, any> = {
+      count: FieldValue.increment(countDelta),
+      needsRebuild,
+      updatedAt: FieldValue.serverTimestamp()
+    };
+    Object.entries(listDeltas).forEach(([list, delta]) => {
+      manifestUpdate[`listCounts.${list}`] = FieldValue.increment(delta);
+      manifest.listCounts[list] = (manifest.listCounts[list] || 0) + delta;
+    });
+    if (manifest.rebuildingSince) {
+      manifestUpdate.pendingIds = FieldValue.arrayUnion(...ids);
+    }
+    batch.update(this.manifestRef(namespace), manifestUpdate);
+
+    await batch.commit();
+    manifest.count = count;
+    manifest.needsRebuild = needsRebuild;
+  }
+
+  /**
+   * A rebuild that switched generations while we wrote either saw our pendingIds or
+   * finished before we re-read the manifest; in the latter case write again
+   */
+  private async replayIfSwitched(namespace: VectorNamespace, used: IvfManifest, ids: string[]): Promise<void> {
+    const current = await this.loadManifest(namespace);
+    if (current && current.generation !== used.generation) {
+      await this.syncFromSource(namespace, ids);
+    }
+  }
+
+  /**
+   * Re-read ids from the source collection: present vectors are upserted, the rest removed
+   */
+  private async syncFromSource(namespace: VectorNamespace, ids: string[]): Promise<void> {
+    const upserts: VectorRecord[] = [];
+    const deletes: string[] = [];
+    for (let i = 0; i < ids.length; i += WRITE_SLICE_SIZE) {
+      const refs = ids.slice(i, i + WRITE_SLICE_SIZE).map(id => this.db.collection(namespace.collection).doc(id));
+      const snapshots = await this.db.getAll(...refs);
+      snapshots.forEach(snapshot => {
+        const data = snapshot.data();
+        const vector = data && data.organizationId === namespace.organizationId ? readVector(data[namespace.embeddingField]) : null;
+        if (vector) {
+          upserts.push({ id: snapshot.id, vector, metadata: pickIndexMetadata(namespace, data!) });
+        } else {
+          deletes.push(snapshot.id);
+        }
+      });
+    }
+    await this.upsert(namespace, upserts);
+    await this.delete(namespace, deletes);
+  }
+
+  private async deleteGeneration(namespace: VectorNamespace, generation: number): Promise<void> {
+    const writer = this.db.bulkWriter();
+    for (const subcollection of ['lists', 'directory']) {
+      const snapshot = await this.manifestRef(namespace).collection(subcollection)
+        .where('generation', '==', generation)
+        .select()
+        .get();
+      snapshot.docs.forEach(doc => writer.delete(doc.ref));
+    }
+    await writer.close();
+  }
+
+  private async forEachSourcePage(
+    namespace: VectorNamespace,
+    handle: (page: Array<{ id: string; vector: Float32Array; metadata: Record<string, any> }>) => void
+  ): Promise<void> {
+    let cursor: string | null = null;
+    for (;;) {
+      let query = this.db.collection(namespace.collection)
+        .where('organizationId', '==', namespace.organizationId)
+        .orderBy(FieldPath.documentId())
+        .limit(SCAN_PAGE_SIZE);
+      if (cursor) query = query.startAfter(cursor);
+
+      const snapshot = await query.get();
+      if (snapshot.empty) return;
+
+      const page = snapshot.docs.flatMap(doc => {
+        const data = doc.data();
+        const vector = readVector(data[namespace.embeddingField]);
+        return vector ? [{ id: doc.id, vector: normalizeVector(vector), metadata: pickIndexMetadata(namespace, data) }] : [];
+      });
+      handle(page);
+
+      if (snapshot.size < SCAN_PAGE_SIZE) return;
+      cursor = snapshot.docs[snapshot.docs.length - 1].id;
+    }
+  }
+
+  private async forEachSourceVector(
+    namespace: VectorNamespace,
+    handle: (item: { id: string; vector: Float32Array; metadata: Record<string, any> }) => void
+  ): Promise<void> {
+    await this.forEachSourcePage(namespace, page => page.forEach(handle));
+  }
+
+  /**
+   * Exact search over the source collection, used while a namespace has no index yet
+   */
+  private async scanSource(namespace: VectorNamespace, query: VectorQuery): Promise<VectorMatch[]> {
+    const vector = normalizeVector(query.vector);
+    const excluded = new Set(query.excludeIds || []);
+    let best: VectorMatch[] = [];
+    await this.forEachSourcePage(namespace, page => {
+      for (const item of page) {
+        if (excluded.has(item.id) || item.vector.length !== vector.length || !matchesFilter(item.metadata, query.filter)) continue;
+        const score = dot(vector, item.vector);
+        if (query.minScore !== undefined && score < query.minScore) continue;
+        best.push({ id: item.id, score, metadata: item.metadata });
+      }
+      best = topK(best, query.limit);
+    });
+    return best;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Vector Index
+ *
+ * Backend-neutral interface for approximate nearest-neighbour search. An index
+ * namespace covers one organization's embeddings in one source collection; the
+ * source documents stay the source of truth and the index can always be rebuilt
+ * from them.
+ *
+ * The built-in backend (FirestoreIvfIndex) is used unless another is registered
+ * with setVectorIndexBackend, e.g. a managed vector database.
+ */
+
+import type { MetadataFilter } from './ivf';
+import { FirestoreIvfIndex } from './FirestoreIvfIndex';
+
+export type { MetadataFilter } from './ivf';
+
+export interface VectorNamespace {
+  organizationId: string;
+  /** Source collection holding the documents and their embeddings */
+  collection: string;
+  /** Field of the source documents holding the embedding */
+  embeddingField: string;
+  /** Top-level document fields copied into the index for filtering */
+  metadataFields: string[];
+}
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  metadata?: Record<string, any>;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  limit: number;
+  filter?: MetadataFilter;
+  minScore?: number;
+  excludeIds?: string[];
+}
+
+export interface VectorMatch {
+  id: string;
+  /** Cosine similarity */
+  score: number;
+  metadata: Record<string, any>;
+}
+
+export interface VectorIndexBackend {
+  readonly name: string;
+  upsert(namespace: VectorNamespace, records: VectorRecord[]): Promise<void>;
+  delete(namespace: VectorNamespace, ids: string[]): Promise<void>;
+  query(namespace: VectorNamespace, query: VectorQuery): Promise<VectorMatch[]>;
+  /** Re-read the namespace from its source collection */
+  rebuild(namespace: VectorNamespace): Promise<void>;
+}
+
+/**
+ * Copy the namespace's filterable fields out of a source document
+ */
+export function pickIndexMetadata(namespace: VectorNamespace, data: Record<string, any>): Record<string, any> {
+  const metadata: Record<string, any> = {};
+  for (const field of namespace.metadataFields) {
+    const value = data[field];
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      metadata[field] = value;
+    }
+  }
+  return metadata;
+}
+
+let backend: VectorIndexBackend | null = null;
+
+export function setVectorIndexBackend(next: VectorIndexBackend): void {
+  backend = next;
+}
+
+export function getVectorIndexBackend(): VectorIndexBackend {
+  if (!backend) {
+    backend = new FirestoreIvfIndex();
+  }
+  return backend;
+}
@@ -2,14 +2,37 @@
  * Vector Store Service
  * 
  * Store and retrieve embeddings in Firestore
- * Supports semantic search for relevant context
+ * Supports semantic search for relevant context through the vector index
  */
 
 import { getFirestore } from 'firebase-admin/firestore';
-import { generateEmbedding, cosineSimilarity } from './EmbeddingService';
+import { generateEmbedding } from './EmbeddingService';
+import { getVectorIndexBackend, VectorNamespace, VectorRecord } from './VectorIndex';
 
 const db = getFirestore();
 
+const EMBEDDINGS_COLLECTION = 'clipShowAIEmbeddings';
+
+function embeddingNamespace(organizationId: string): VectorNamespace {
+  return {
+    organizationId,
+    collection: EMBEDDINGS_COLLECTION,
+    embeddingField: 'embedding',
+    metadataFields: ['category']
+  };
+}
+
+/**
+ * Add stored embeddings to the index; a failure leaves the documents for the next rebuild
+ */
+async function indexStoredEmbeddings(organizationId: string, records: VectorRecord[]): Promise<void> {
+  try {
+    await getVectorIndexBackend().upsert(embeddingNamespace(organizationId), records);
+  } catch (error) {
+    console.warn(`[VectorStore] Failed to index ${records.length} embedding(s) for ${organizationId}:`, error);
+  }
+}
+
 export interface StoredEmbedding {
   id: string;
   content: string;
@@ -36,7 +59,7 @@ export async function storeEmbedding(
   embedding: number[],
   metadata?: any
 ): Promise<string> {
-  const docRef = db.collection('clipShowAIEmbeddings').doc();
+  const docRef = db.collection(EMBEDDINGS_COLLECTION).doc();
   
   await docRef.set({
     organizationId,
@@ -47,6 +70,8 @@ export async function storeEmbedding(
     createdAt: new Date()
   });
 
+  await indexStoredEmbeddings(organizationId, [{ id: docRef.id, vector: embedding, metadata: { category } }]);
+
   return docRef.id;
 }
 
@@ -64,10 +89,12 @@ export async function storeEmbeddingsBatch(
 ): Promise<string[]> {
   const batch = db.batch();
   const ids: string[] = [];
+  const records: VectorRecord[] = [];
 
   embeddings.forEach(({ content, category, embedding, metadata }) => {
-    const docRef = db.collection('clipShowAIEmbeddings').doc();
+    const docRef = db.collection(EMBEDDINGS_COLLECTION).doc();
     ids.push(docRef.id);
+    records.push({ id: docRef.id, vector: embedding, metadata: { category } });
     
     batch.set(docRef, {
       organizationId,
@@ -80,11 +107,31 @@ export async function storeEmbeddingsBatch(
   });
 
   await batch.commit();
+  await indexStoredEmbeddings(organizationId, records);
   return ids;
 }
 
 /**
- * Search for similar embeddings using cosine similarity
+ * Delete stored embeddings and remove them from the index
+ */
+export async function deleteEmbeddings(
+  organizationId: string,
+  ids: string[]
+): Promise<void> {
+  if (ids.length === 0) return;
+
+  const snapshots = await db.getAll(...ids.map(id => db.collection(EMBEDDINGS_COLLECTION).doc(id)));
+  const owned = snapshots.filter(snapshot => snapshot.exists && snapshot.data()?.organizationId === organizationId);
+
+  const batch = db.batch();
+  owned.forEach(snapshot => batch.delete(snapshot.ref));
+  await batch.commit();
+
+  await getVectorIndexBackend().delete(embeddingNamespace(organizationId), owned.map(snapshot => snapshot.id));
+}
+
+/**
+ * Search for similar embeddings using the approximate nearest-neighbour index
  */
 export async function searchSimilarEmbeddings(
   organizationId: string,
@@ -101,40 +148,34 @@ export async function searchSimilarEmbeddings(
     minSimilarity = 0.7
   } = options || {};
 
-  // Fetch all embeddings for the organization
-  let query = db
-    .collection('clipShowAIEmbeddings')
-    .where('organizationId', '==', organizationId);
-
-  if (category) {
-    query = query.where('category', '==', category) as any;
+  const matches = await getVectorIndexBackend().query(embeddingNamespace(organizationId), {
+    vector: queryEmbedding,
+    limit,
+    minScore: minSimilarity,
+    filter: category ? { category } : undefined
+  });
+  if (matches.length === 0) {
+    return [];
   }
 
-  const snapshot = await query.get();
-  
-  const results: Array<SearchResult & { similarity: number }> = [];
+  // The index holds vectors only; content comes from the embedding documents
+  const snapshots = await db.getAll(...matches.map(match => db.collection(EMBEDDINGS_COLLECTION).doc(match.id)));
+  const results: SearchResult[] = [];
 
-  snapshot.forEach(doc => {
-    const data = doc.data();
-    const storedEmbedding = data.embedding as number[];
-    
-    if (storedEmbedding && storedEmbedding.length > 0) {
-      const similarity = cosineSimilarity(queryEmbedding, storedEmbedding);
-      
-      if (similarity >= minSimilarity) {
-        results.push({
-          content: data.content,
-          category: data.category,
-          similarity,
-          metadata: data.metadata
-        });
-      }
+  matches.forEach((match, index) => {
+    const data = snapshots[index].data();
+    if (!data || data.organizationId !== organizationId) {
+      return;
     }
+    results.push({
+      content: data.content,
+      category: data.category,
+      similarity: match.score,
+      metadata: data.metadata
+    });
   });
 
-  // Sort by similarity (highest first) and limit
-  results.sort((a, b) => b.similarity - a.similarity);
-  return results.slice(0, limit);
+  return results;
 }
 
 /**
@@ -6,6 +6,8 @@
 
 export * from './EmbeddingService';
 export * from './VectorStoreService';
+export * from './VectorIndex';
+export { FirestoreIvfIndex } from './FirestoreIvfIndex';
 export * from './ContextRetrievalService';
 
 
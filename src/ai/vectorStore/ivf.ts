@@ -0,0 +1,152 @@
+/**
+ * IVF (inverted file) index math
+ *
+ * Pure helpers for the built-in vector index: vectors are L2-normalized so cosine
+ * similarity is a dot product, k-means centroids split the space into lists, and a
+ * query only scores the entries of the lists nearest to it.
+ */
+
+export type MetadataValue = string | number | boolean | null;
+
+/** Equality per field; an array value matches any of its elements */
+export type MetadataFilter = Record<string, MetadataValue | MetadataValue[]>;
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ (${a.length} vs ${b.length})`);
+  }
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Float32 vectors as base64, a third of the size of a Firestore number array
+ */
+export function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+export function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  const copy = new ArrayBuffer(buffer.length);
+  new Uint8Array(copy).set(buffer);
+  return new Float32Array(copy);
+}
+
+/**
+ * FNV-1a; spreads ids over chunks and directory shards
+ */
+export function hashId(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function matchesFilter(metadata: Record<string, any> | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([field, expected]) => {
+    const actual = metadata?.[field] ?? null;
+    return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+  });
+}
+
+/**
+ * Indexes of the `count` centroids most similar to a (normalized) vector
+ */
+export function nearestCentroids(vector: Float32Array, centroids: Float32Array[], count: number): number[] {
+  if (centroids.length === 0) return [0];
+  return centroids
+    .map((centroid, index) => ({ index, score: dot(vector, centroid) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(1, count))
+    .map(entry => entry.index);
+}
+
+function seededRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Spherical k-means (k-means++ seeding) over normalized vectors; deterministic for a seed
+ */
+export function trainCentroids(vectors: Float32Array[], k: number, iterations = 10, seed = 42): Float32Array[] {
+  if (vectors.length === 0) return [];
+  const clusters = Math.min(k, vectors.length);
+  const random = seededRandom(seed);
+
+  const centroids: Float32Array[] = [vectors[Math.floor(random() * vectors.length)]];
+  const distances = vectors.map(vector => 1 - dot(vector, centroids[0]));
+  while (centroids.length < clusters) {
+    const total = distances.reduce((sum, distance) => sum + Math.max(0, distance), 0);
+    let target = random() * total;
+    let chosen = vectors.length - 1;
+    for (let i = 0; i < vectors.length; i++) {
+      target -= Math.max(0, distances[i]);
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    const centroid = vectors[chosen];
+    centroids.push(centroid);
+    vectors.forEach((vector, i) => {
+      distances[i] = Math.min(distances[i], 1 - dot(vector, centroid));
+    });
+  }
+
+  const dimension = vectors[0].length;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(() => new Float32Array(dimension));
+    const counts = new Array(centroids.length).fill(0);
+    for (const vector of vectors) {
+      const [nearest] = nearestCentroids(vector, centroids, 1);
+      counts[nearest]++;
+      const sum = sums[nearest];
+      for (let d = 0; d < dimension; d++) sum[d] += vector[d];
+    }
+    // Empty clusters keep their previous centroid
+    sums.forEach((sum, index) => {
+      if (counts[index] > 0) centroids[index] = normalizeVector(sum);
+    });
+  }
+
+  return centroids;
+}
+
+/**
+ * Number of lists for an index of `count` vectors (a single flat list while small)
+ */
+export function listCountFor(count: number, minTrainSize: number, maxLists: number): number {
+  if (count < minTrainSize) return 1;
+  return Math.max(1, Math.min(maxLists, Math.round(Math.sqrt(count))));
+}
+
+/**
+ * Keep the `limit` best scored items (highest first)
+ */
+export function topK<T extends { score: number }>(items: T[], limit: number): T[] {
+  return items.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,63 @@
+/**
+ * Vector Index Rebuild
+ *
+ * Scheduled retraining of vector index namespaces that outgrew their lists, plus
+ * recovery of rebuilds abandoned mid-way (e.g. by a function timeout).
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getVectorIndexBackend, VectorNamespace } from './VectorIndex';
+
+const MAX_REBUILDS_PER_RUN = 20;
+const ABANDONED_AFTER_MS = 15 * 60 * 1000;
+/** Leave time for the last rebuild before the function timeout */
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+
+export const rebuildVectorIndexes = onSchedule(
+  {
+    schedule: 'every 1 hours',
+    timeZone: 'America/Los_Angeles',
+    region: 'us-central1',
+    timeoutSeconds: 540,
+    memory: '1GiB'
+  },
+  async () => {
+    const db = getFirestore();
+    const startedAt = Date.now();
+
+    const [flagged, abandoned] = await Promise.all([
+      db.collection('vectorIndexes').where('needsRebuild', '==', true).limit(MAX_REBUILDS_PER_RUN).get(),
+      db.collection('vectorIndexes')
+        .where('rebuildingSince', '<', Timestamp.fromMillis(startedAt - ABANDONED_AFTER_MS))
+        .limit(MAX_REBUILDS_PER_RUN)
+        .get()
+    ]);
+
+    const manifests = new Map([...flagged.docs, ...abandoned.docs].map(doc => [doc.id, doc.data()]));
+    console.log(`[rebuildVectorIndexes] ${manifests.size} index(es) to rebuild`);
+
+    let rebuilt = 0;
+    for (const [key, manifest] of manifests) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        console.log('[rebuildVectorIndexes] Time budget used, remaining indexes wait for the next run');
+        break;
+      }
+
+      const namespace: VectorNamespace = {
+        organizationId: manifest.organizationId,
+        collection: manifest.collection,
+        embeddingField: manifest.embeddingField,
+        metadataFields: manifest.metadataFields || []
+      };
+      try {
+        await getVectorIndexBackend().rebuild(namespace);
+        rebuilt++;
+      } catch (error) {
+        console.error(`[rebuildVectorIndexes] Failed to rebuild ${key}:`, error);
+      }
+    }
+
+    console.log(`✅ [rebuildVectorIndexes] Rebuilt ${rebuilt} of ${manifests.size} index(es)`);
+  }
+);
@@ -285,7 +285,7 @@ export async function callAIAgentInternal(request: any) {
           ? `creative writing mode (${currentMode}) - Gemini provides superior quality for script writing and planning`
           : 'legacy mode or supervisor unavailable';
         console.log(`🧠 [AI AGENT] Using Gemini (${reason})...`);
-        const geminiService = createGeminiService();
+        const geminiService = createGeminiService({ organizationId, userId: uid, feature: 'ai-agent', sessionId });
 
         // Check if function calling mode is enabled for workflows
         const useFunctionCalling = context?.useFunctionCalling === true && currentMode === 'workflows';
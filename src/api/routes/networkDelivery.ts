@@ -179,7 +179,7 @@ router.post('/upload-bible', authenticateToken, async (req: Request, res: Respon
         }
 
         console.log(`✅ [ND BOT] Using Gemini model: ${geminiModel}`);
-        const geminiSvc = new GeminiService(apiKey);
+        const geminiSvc = new GeminiService(apiKey, { organizationId, userId, feature: 'network-delivery' });
 
         let structuredData: any;
         let rawText: string | null = null;
@@ -447,7 +447,7 @@ router.post('/bibles/:bibleId/reprocess', authenticateToken, async (req: Request
             geminiModel = 'gemini-2.5-flash';
         }
         console.log(`✅ [ND BOT] Using Gemini model for re-process: ${geminiModel}`);
-        const geminiSvc = new GeminiService(apiKey);
+        const geminiSvc = new GeminiService(apiKey, { organizationId, userId, feature: 'network-delivery' });
 
         try {
             const structuredData = await geminiSvc.parseNetworkBible(rawText);
@@ -617,7 +617,7 @@ export const uploadNetworkDeliveryBible = onCall({ memory: '512MiB' }, async (re
             geminiModel = 'gemini-2.5-flash';
         }
         console.log(`✅ [ND BOT] Using Gemini model: ${geminiModel}`);
-        const geminiSvc = new GeminiService(apiKey);
+        const geminiSvc = new GeminiService(apiKey, { organizationId, userId, feature: 'network-delivery' });
 
         let structuredData: any;
         let rawText: string | null = null;
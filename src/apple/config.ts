@@ -7,45 +7,8 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { db } from '../shared/utils';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
-import { encryptionKey, getEncryptionKey } from './secrets';
-
-/**
- * Encrypt sensitive data
- */
-function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-  const iv = crypto.randomBytes(16);
-  
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-}
-
-/**
- * Decrypt sensitive data
- */
-function decryptToken(encryptedData: string): string {
-  const [ivHex, authTagHex, encrypted] = encryptedData.split(':');
-  const iv = Buffer.from(ivHex, 'hex');
-  const authTag = Buffer.from(authTagHex, 'hex');
-  
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-  
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
-}
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { encryptToken, decryptToken, encryptionKey as unifiedEncryptionKey } from '../integrations/unified-oauth/encryption';
 
 /**
  * Get Apple Connect configuration from Firestore or environment
@@ -196,7 +159,7 @@ export const getAppleConnectConfigStatus = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { auth, data } = request;
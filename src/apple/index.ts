@@ -12,7 +12,8 @@ export { getFiles, syncFiles } from './FileStorageService';
 
 // Firebase Functions for directory sync, device management, and file storage
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { encryptionKey } from './secrets';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { encryptionKey as unifiedEncryptionKey } from '../integrations/unified-oauth/encryption';
 import { syncDirectory, DirectorySyncConfig } from './DirectorySyncService';
 import { getDevices, syncDevices } from './DeviceManagementService';
 import { getFiles, syncFiles } from './FileStorageService';
@@ -27,7 +28,7 @@ export const appleConnectSyncDirectory = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -76,7 +77,7 @@ export const appleConnectGetDevices = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -120,7 +121,7 @@ export const appleConnectGetFiles = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -167,7 +168,7 @@ export const appleConnectGetConfigStatus = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
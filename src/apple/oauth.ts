@@ -10,63 +10,9 @@ import { db, validateOrganizationAccess } from '../shared/utils';
 import * as crypto from 'crypto';
 import { getAppleConnectConfig } from './config';
 import { Timestamp } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from './secrets';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
 import jwt from 'jsonwebtoken';
-
-/**
- * Encrypt sensitive token data
- */
-function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
-  let encryptionKeyValue: string;
-  try {
-    encryptionKeyValue = getEncryptionKey();
-  } catch (keyError) {
-    console.error('❌ [AppleConnectOAuth] Failed to get encryption key:', keyError);
-    throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-  }
-
-  if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-    throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-  }
-
-  const key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-  const iv = crypto.randomBytes(16);
-
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-
-  const authTag = cipher.getAuthTag();
-
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-}
-
-/**
- * Decrypt sensitive token data
- */
-function decryptToken(encryptedData: string): string {
-  const parts = encryptedData.split(':');
-  if (parts.length !== 3) {
-    throw new Error(`Invalid token format. Expected 3 parts separated by ':', got ${parts.length} parts.`);
-  }
-
-  const [ivHex, authTagHex, encrypted] = parts;
-  const iv = Buffer.from(ivHex, 'hex');
-  const authTag = Buffer.from(authTagHex, 'hex');
-
-  const algorithm = 'aes-256-gcm';
-  const encryptionKeyValue = getEncryptionKey();
-  const key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
-}
+import { encryptToken, decryptToken, encryptionKey as unifiedEncryptionKey } from '../integrations/unified-oauth/encryption';
 
 /**
  * Generate secure state parameter for OAuth flow
@@ -102,7 +48,7 @@ export const appleConnectOAuthInitiate = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -199,7 +145,7 @@ export const appleConnectOAuthCallback = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -351,7 +297,7 @@ export const appleConnectOAuthCallbackHttp = onRequest(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     try {
@@ -507,7 +453,7 @@ export const appleConnectRevokeAccess = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, unifiedEncryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
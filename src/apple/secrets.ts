@@ -2,8 +2,9 @@
  * Apple Connect Secrets Management
  * 
  * Handles encryption key retrieval for Apple Connect token encryption.
- * Uses INTEGRATIONS_ENCRYPTION_KEY (same as other integrations) so deploy
- * does not require a separate ENCRYPTION_KEY in Secret Manager.
+ * Tokens are encrypted with the unified keyring (ENCRYPTION_KEY); INTEGRATIONS_ENCRYPTION_KEY
+ * stays declared so tokens written before the keyring can still be decrypted until
+ * key rotation re-encrypts them.
  */
 
 import { defineSecret } from 'firebase-functions/params';
@@ -11,6 +12,9 @@ import { defineSecret } from 'firebase-functions/params';
 // Use same secret as other integrations so one Secret Manager entry works for all
 export const encryptionKey = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
 
+// Keys retired by a rotation, still accepted for decryption (see unified-oauth/keyring.ts)
+export const encryptionKeyPrevious = defineSecret('ENCRYPTION_KEY_PREVIOUS');
+
 /**
  * Get encryption key value (reads INTEGRATIONS_ENCRYPTION_KEY or ENCRYPTION_KEY)
  */
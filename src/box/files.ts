@@ -5,7 +5,7 @@ import { getStorage } from 'firebase-admin/storage';
 import { encryptTokens, decryptTokens, decryptLegacyToken, hashForLogging } from '../integrations/encryption';
 import { createSuccessResponse, createErrorResponse, setCorsHeaders, verifyAuthToken } from '../shared/utils';
 import { sendSystemAlert } from '../utils/systemAlerts';
-import { encryptionKey } from './secrets';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
 import { getBoxConfig } from './config';
 
 /**
@@ -81,7 +81,7 @@ export const getBoxIntegrationStatus = onCall(
         region: 'us-central1',
         cors: true,
         memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
     },
     async (request) => {
         try {
@@ -765,7 +765,7 @@ export const getBoxAccessToken = onCall(
     {
         region: 'us-central1',
         cors: true,
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
         memory: '1GiB',
         cpu: 1,
     },
@@ -1411,7 +1411,7 @@ export const downloadBoxFile = onCall(
     {
         region: 'us-central1',
         cors: true,
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
         memory: '512MiB', // Increased from default 256MiB for large video files
         timeoutSeconds: 540, // 9 minutes (max for 2nd gen functions)
     },
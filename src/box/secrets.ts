@@ -8,6 +8,9 @@ import { defineSecret } from 'firebase-functions/params';
 // Define the encryption key secret once, use it everywhere
 export const encryptionKey = defineSecret('ENCRYPTION_KEY');
 
+// Keys retired by a rotation, still accepted for decryption (see unified-oauth/keyring.ts)
+export const encryptionKeyPrevious = defineSecret('ENCRYPTION_KEY_PREVIOUS');
+
 /**
  * Get the encryption key value
  * This must be called from within a Firebase Function execution context
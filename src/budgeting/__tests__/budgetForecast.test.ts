@@ -0,0 +1,68 @@
+/**
+ * Budget Forecast Tests
+ *
+ * Tests for burn rate, ETC/EAC and projected overrun dates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateBurnRate, forecastBudget, forecastPhase, SpendEvent } from '../budgetForecast';
+
+const asOf = new Date('2026-03-29T00:00:00.000Z');
+
+function dailySpend(days: number, amount: number, phase: SpendEvent['phase'] = 'production'): SpendEvent[] {
+  return Array.from({ length: days }, (_, i) => ({
+    phase,
+    amount,
+    recordedAt: new Date(asOf.getTime() - (i + 0.5) * 24 * 60 * 60 * 1000)
+  }));
+}
+
+describe('budgetForecast', () => {
+  it('averages spend over the trailing window', () => {
+    const events = [...dailySpend(28, 1000), ...dailySpend(60, 5000).slice(40)];
+
+    expect(calculateBurnRate(dailySpend(28, 1000), asOf)).toBe(1000);
+    expect(calculateBurnRate(events, asOf, 28)).toBe(1000);
+  });
+
+  it('projects EAC from the burn rate when the phase has an end date', () => {
+    const forecast = forecastPhase({
+      phase: 'production',
+      budgetedAmount: 50000,
+      actualAmount: 28000,
+      committedAmount: 2000,
+      endDate: new Date('2026-04-18T00:00:00.000Z')
+    }, dailySpend(28, 1000), asOf);
+
+    expect(forecast.method).toBe('burn_rate');
+    expect(forecast.daysRemaining).toBe(20);
+    expect(forecast.estimateToComplete).toBe(22000);
+    expect(forecast.estimateAtCompletion).toBe(50000);
+    expect(forecast.projectedOverrunDate).toBe('2026-04-18');
+  });
+
+  it('does not project an overrun past the end of the phase', () => {
+    const forecast = forecastPhase({
+      phase: 'production',
+      budgetedAmount: 60000,
+      actualAmount: 28000,
+      committedAmount: 0,
+      endDate: new Date('2026-04-08T00:00:00.000Z')
+    }, dailySpend(28, 1000), asOf);
+
+    expect(forecast.projectedOverrunDate).toBeNull();
+    expect(forecast.varianceAtCompletion).toBe(-22000);
+  });
+
+  it('assumes the remaining budget is spent when there is no schedule and rolls up phases', () => {
+    const result = forecastBudget([
+      { phase: 'pre_production', budgetedAmount: 10000, actualAmount: 12000, committedAmount: 0 },
+      { phase: 'production', budgetedAmount: 50000, actualAmount: 20000, committedAmount: 5000 }
+    ], dailySpend(28, 1000), asOf);
+
+    expect(result.phases[0].method).toBe('budget_remaining');
+    expect(result.phases[0].projectedOverrunDate).toBe('2026-03-29');
+    expect(result.totals.estimateAtCompletion).toBe(62000);
+    expect(result.totals.projectedOverrunDate).toBe('2026-03-29');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Budget Versioning Tests
+ *
+ * Tests for change-order transfers, version diffs and version baselines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyChangeOrderTransfers,
+  applyVersionBaseline,
+  diffBudgetVersions,
+  getVersionName,
+  snapshotLineItems
+} from '../budgetVersioning';
+
+const lineItems = [
+  { id: 'camera', category: 'below_the_line', phase: 'production', description: 'Camera', budgetedAmount: 10000 },
+  { id: 'grip', category: 'below_the_line', phase: 'production', description: 'Grip', budgetedAmount: 5000 },
+  { id: 'edit', category: 'post_production', phase: 'post_production', description: 'Edit', budgetedAmount: 8000 }
+];
+
+describe('budgetVersioning', () => {
+  it('names versions Original, Revised 1, Revised 2', () => {
+    expect([1, 2, 3].map(getVersionName)).toEqual(['Original', 'Revised 1', 'Revised 2']);
+  });
+
+  it('moves money between line items without changing the total', () => {
+    const amounts = applyChangeOrderTransfers(lineItems, [
+      { fromLineItemId: 'edit', toLineItemId: 'camera', amount: 2500 },
+      { fromLineItemId: 'grip', toLineItemId: 'camera', amount: 500 }
+    ]);
+
+    expect(amounts.get('camera')).toBe(13000);
+    expect(amounts.get('grip')).toBe(4500);
+    expect(amounts.get('edit')).toBe(5500);
+  });
+
+  it('rejects transfers that overdraw or reference unknown line items', () => {
+    expect(() => applyChangeOrderTransfers(lineItems, [{ fromLineItemId: 'grip', toLineItemId: 'camera', amount: 6000 }]))
+      .toThrow('exceeds');
+    expect(() => applyChangeOrderTransfers(lineItems, [{ fromLineItemId: 'grip', toLineItemId: 'catering', amount: 10 }]))
+      .toThrow('not in this budget');
+  });
+
+  it('diffs two versions line by line', () => {
+    const original = { name: 'Original', lineItems: snapshotLineItems(lineItems) };
+    const revised = {
+      name: 'Revised 1',
+      lineItems: snapshotLineItems([
+        { ...lineItems[0], budgetedAmount: 12000 },
+        lineItems[1],
+        { id: 'vfx', category: 'post_production', phase: 'post_production', description: 'VFX', budgetedAmount: 3000 }
+      ])
+    };
+
+    const diff = diffBudgetVersions(original, revised);
+
+    expect(diff.lineItems.map(item => [item.lineItemId, item.change, item.delta])).toEqual([
+      ['camera', 'changed', 2000],
+      ['edit', 'removed', -8000],
+      ['vfx', 'added', 3000]
+    ]);
+    expect(diff.totals.delta).toBe(-3000);
+    expect(diff.byCategory.post_production).toBe(-5000);
+  });
+
+  it('uses a version as the variance baseline', () => {
+    const version = snapshotLineItems([{ ...lineItems[0], budgetedAmount: 9000 }]);
+    const baseline = applyVersionBaseline(lineItems, version);
+
+    expect(baseline.map(item => item.budgetedAmount)).toEqual([9000, 0, 0]);
+  });
+});
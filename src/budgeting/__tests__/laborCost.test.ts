@@ -0,0 +1,76 @@
+/**
+ * Labor Cost Tests
+ *
+ * Tests for fringe burden and currency conversion of timecard costs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateLaborCost, findExchangeRate, ExchangeRateRecord, getSyncedBudgetCost } from '../laborCost';
+
+const rates: ExchangeRateRecord[] = [
+  { baseCurrency: 'GBP', quoteCurrency: 'USD', rate: 1.25, effectiveDate: new Date('2026-01-01') },
+  { baseCurrency: 'GBP', quoteCurrency: 'USD', rate: 1.3, effectiveDate: new Date('2026-03-01') },
+  { baseCurrency: 'USD', quoteCurrency: 'CAD', rate: 1.4, effectiveDate: new Date('2026-01-01') }
+];
+
+describe('laborCost', () => {
+  it('applies percentage, per-hour and flat fringes', () => {
+    const cost = calculateLaborCost({
+      grossPay: 1000,
+      straightTimePay: 800,
+      hours: 10,
+      fringes: [
+        { name: 'Pension', type: 'percentage', rate: 10, appliesTo: 'straight_time' },
+        { name: 'Payroll tax', type: 'percentage', rate: 7.65 },
+        { name: 'Health', type: 'per_hour', rate: 5 },
+        { name: 'Admin fee', type: 'flat', rate: 12 }
+      ],
+      currency: 'USD',
+      budgetCurrency: 'USD',
+      exchangeRate: 1
+    });
+
+    expect(cost.fringeBreakdown.map(fringe => fringe.amount)).toEqual([80, 76.5, 50, 12]);
+    expect(cost.fringeTotal).toBe(218.5);
+    expect(cost.budgetAmount).toBe(1218.5);
+  });
+
+  it('uses the latest rate on or before the date, inverting when needed', () => {
+    expect(findExchangeRate(rates, 'GBP', 'USD', new Date('2026-02-15'))).toBe(1.25);
+    expect(findExchangeRate(rates, 'GBP', 'USD', new Date('2026-03-15'))).toBe(1.3);
+    expect(findExchangeRate(rates, 'USD', 'GBP', new Date('2026-03-15'))).toBeCloseTo(1 / 1.3);
+  });
+
+  it('crosses through USD and returns null when no rate exists', () => {
+    expect(findExchangeRate(rates, 'GBP', 'CAD', new Date('2026-03-15'))).toBeCloseTo(1.82);
+    expect(findExchangeRate(rates, 'EUR', 'USD', new Date('2026-03-15'))).toBeNull();
+  });
+
+  it('converts the fringed total into the budget currency', () => {
+    const cost = calculateLaborCost({
+      grossPay: 1000,
+      hours: 10,
+      fringes: [{ name: 'NI', type: 'percentage', rate: 13.8 }],
+      currency: 'GBP',
+      budgetCurrency: 'USD',
+      exchangeRate: 1.3
+    });
+
+    expect(cost.totalCost).toBe(1138);
+    expect(cost.budgetAmount).toBe(1479.4);
+  });
+
+  it('reads the synced cost for the budget being totalled', () => {
+    const timecard = {
+      totalPay: 1000,
+      budgetSyncedTo: 'budget-usd',
+      budgetSyncedCost: 1300,
+      budgetSyncedCosts: { 'budget-usd': 1300, 'budget-cad': 1820 }
+    };
+
+    expect(getSyncedBudgetCost(timecard, 'budget-usd')).toBe(1300);
+    expect(getSyncedBudgetCost(timecard, 'budget-cad')).toBe(1820);
+    expect(getSyncedBudgetCost({ totalPay: 1000, budgetSyncedTo: 'budget-usd', budgetSyncedCost: 1300 }, 'budget-cad')).toBe(1000);
+    expect(getSyncedBudgetCost({ totalPay: 1000, budgetSyncedTo: 'budget-usd', budgetSyncedCost: 1300 }, 'budget-usd')).toBe(1300);
+  });
+});
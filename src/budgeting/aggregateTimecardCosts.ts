@@ -8,6 +8,15 @@
 import { onCall, onRequest } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { createSuccessResponse, createErrorResponse, handleError, setCorsHeaders } from '../shared/utils';
+import {
+  calculateWeeklyPay,
+  getWorkweekStart,
+  resolveRuleSettings,
+  toPayEngineEntry,
+  PayEngineEntry
+} from '../timecards/labor/payEngine';
+import { resolveUserPaySettings, ResolvedUserPaySettings } from '../timecards/labor/laborRuleResolver';
+import { loadPreviousClockOut } from '../timecards/labor/entryPayCalculator';
 
 const db = getFirestore();
 
@@ -123,12 +132,15 @@ async function performAggregation(options: AggregationOptions) {
     userCount: number;
   }> = {};
 
+  // Pay settings are resolved once per user
+  const paySettingsCache = new Map<string, ResolvedUserPaySettings>();
+
   for (const doc of timecardsSnapshot.docs) {
     const timecardData = doc.data();
     const timecard: any = { id: doc.id, ...timecardData };
-    const stats = timecard.stats || {};
-    const totalPay = timecard.totalPay || stats.totalPay || 0;
-    const totalHours = timecard.totalHours || stats.totalHours || 0;
+    const stats = await calculateTimecardStats(timecard, options.organizationId, paySettingsCache);
+    const totalPay = stats.totalPay;
+    const totalHours = stats.totalHours;
 
     // Determine group key
     let groupKey = 'all';
@@ -157,9 +169,9 @@ async function performAggregation(options: AggregationOptions) {
 
     grouped[groupKey].timecards.push(timecard);
     grouped[groupKey].totalHours += totalHours;
-    grouped[groupKey].totalRegularHours += stats.totalRegularHours || 0;
-    grouped[groupKey].totalOvertimeHours += stats.totalOvertimeHours || 0;
-    grouped[groupKey].totalDoubleTimeHours += stats.totalDoubleTimeHours || 0;
+    grouped[groupKey].totalRegularHours += stats.totalRegularHours;
+    grouped[groupKey].totalOvertimeHours += stats.totalOvertimeHours;
+    grouped[groupKey].totalDoubleTimeHours += stats.totalDoubleTimeHours;
     grouped[groupKey].totalPay += totalPay;
 
     // Count unique users
@@ -195,6 +207,58 @@ async function performAggregation(options: AggregationOptions) {
   };
 }
 
+/**
+ * Recalculate a timecard's hours and pay with the shared pay engine.
+ * Falls back to the stored stats when the timecard has no closed entries.
+ */
+async function calculateTimecardStats(
+  timecard: any,
+  organizationId: string,
+  paySettingsCache: Map<string, ResolvedUserPaySettings>
+): Promise<{
+  totalHours: number;
+  totalRegularHours: number;
+  totalOvertimeHours: number;
+  totalDoubleTimeHours: number;
+  totalPay: number;
+}> {
+  const stats = timecard.stats || {};
+  const entries = (timecard.entries || [])
+    .map((entry: any, index: number) => toPayEngineEntry(entry.id || `${timecard.id}-${index}`, entry))
+    .filter((entry: PayEngineEntry | null): entry is PayEngineEntry => !!entry);
+
+  if (entries.length === 0 || !timecard.userId) {
+    return {
+      totalHours: timecard.totalHours || stats.totalHours || 0,
+      totalRegularHours: stats.totalRegularHours || 0,
+      totalOvertimeHours: stats.totalOvertimeHours || 0,
+      totalDoubleTimeHours: stats.totalDoubleTimeHours || 0,
+      totalPay: timecard.totalPay || stats.totalPay || 0
+    };
+  }
+
+  let paySettings = paySettingsCache.get(timecard.userId);
+  if (!paySettings) {
+    paySettings = await resolveUserPaySettings(timecard.userId, organizationId);
+    paySettingsCache.set(timecard.userId, paySettings);
+  }
+
+  const firstWorkday = entries.reduce((first: string, entry: PayEngineEntry) => (entry.workday < first ? entry.workday : first), entries[0].workday);
+  const weekStart = getWorkweekStart(firstWorkday, resolveRuleSettings(paySettings.rule).workweekStartDay);
+  const pay = calculateWeeklyPay(paySettings.rule, entries, {
+    defaultHourlyRate: timecard.hourlyRate || paySettings.hourlyRate,
+    previousClockOut: await loadPreviousClockOut(timecard.userId, organizationId, weekStart)
+  });
+
+  return {
+    totalHours: pay.totals.totalHours,
+    totalRegularHours: pay.totals.regularHours,
+    totalOvertimeHours: pay.totals.overtimeHours,
+    totalDoubleTimeHours: pay.totals.doubleTimeHours,
+    totalPay: pay.totals.totalPay
+  };
+}
+
 /**
  * Determine phase from date
  */
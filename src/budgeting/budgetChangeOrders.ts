@@ -0,0 +1,292 @@
+/**
+ * Budget Change Order Functions
+ * 
+ * Change orders move money between line items and need approval. Approving one
+ * applies the transfers and locks the result as the next budget version.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError, sendNotification } from '../shared/utils';
+import { applyChangeOrderTransfers, ChangeOrderTransfer } from './budgetVersioning';
+import { assertBudgetAccess, writeBudgetVersion } from './budgetVersionService';
+
+const db = getFirestore();
+
+function isBudgetApprover(auth: any, budget: any): boolean {
+  const token = auth.token || {};
+  const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+  return isAdmin || (Array.isArray(budget.approverIds) && budget.approverIds.includes(auth.uid));
+}
+
+export const createBudgetChangeOrder = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId, title, reason, transfers } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!budgetId) {
+        throw new Error('Budget ID is required');
+      }
+
+      if (!title || !reason) {
+        throw new Error('Title and reason are required');
+      }
+
+      const budgetDoc = await db.collection('production_budgets').doc(budgetId).get();
+      if (!budgetDoc.exists) {
+        throw new Error('Budget not found');
+      }
+      const budget: any = { id: budgetDoc.id, ...budgetDoc.data() };
+      await assertBudgetAccess(request.auth, budget.organizationId);
+
+      const lineItemsSnapshot = await db.collection('budget_line_items')
+        .where('budgetId', '==', budgetId)
+        .get();
+      const lineItems = lineItemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as any));
+
+      // Validate now so obviously bad requests never reach an approver
+      const normalizedTransfers: ChangeOrderTransfer[] = (transfers || []).map((transfer: any) => ({
+        fromLineItemId: transfer?.fromLineItemId,
+        toLineItemId: transfer?.toLineItemId,
+        amount: Math.round(Number(transfer?.amount) * 100) / 100
+      }));
+      applyChangeOrderTransfers(lineItems, normalizedTransfers);
+
+      const changeOrderData = {
+        budgetId,
+        organizationId: budget.organizationId,
+        projectId: budget.projectId || null,
+        title,
+        reason,
+        transfers: normalizedTransfers,
+        totalAmount: normalizedTransfers.reduce((sum, transfer) => sum + transfer.amount, 0),
+        baseVersionId: budget.currentVersionId || null,
+        status: 'PENDING',
+        requestedBy: callerId,
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewComments: null,
+        resultingVersionId: null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const changeOrderRef = await db.collection('budget_change_orders').add(changeOrderData);
+
+      const approverIds: string[] = (budget.approverIds || []).filter((id: string) => id !== callerId);
+      await Promise.all(approverIds.map(approverId =>
+        sendNotification(
+          approverId,
+          budget.organizationId,
+          'budget_change_order',
+          'Budget change order needs approval',
+          `${title}: ${reason}`,
+          { budgetId, changeOrderId: changeOrderRef.id }
+        )
+      ));
+
+      console.log(`📝 [BUDGET CHANGE ORDER] Created change order ${changeOrderRef.id} for budget ${budgetId}`);
+
+      return createSuccessResponse({ id: changeOrderRef.id, ...changeOrderData }, 'Change order submitted for approval');
+
+    } catch (error: any) {
+      console.error('❌ [CREATE BUDGET CHANGE ORDER] Error:', error);
+      return handleError(error, 'createBudgetChangeOrder');
+    }
+  }
+);
+
+export const reviewBudgetChangeOrder = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { changeOrderId, action, comments } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!changeOrderId) {
+        throw new Error('Change order ID is required');
+      }
+
+      if (action !== 'approve' && action !== 'reject') {
+        throw new Error('Valid action is required (approve or reject)');
+      }
+
+      const changeOrderRef = db.collection('budget_change_orders').doc(changeOrderId);
+
+      const result = await db.runTransaction(async (transaction) => {
+        const changeOrderDoc = await transaction.get(changeOrderRef);
+        const changeOrder = changeOrderDoc.data();
+        if (!changeOrderDoc.exists || !changeOrder) {
+          throw new Error('Change order not found');
+        }
+
+        const budgetRef = db.collection('production_budgets').doc(changeOrder.budgetId);
+        const budgetDoc = await transaction.get(budgetRef);
+        if (!budgetDoc.exists) {
+          throw new Error('Budget not found');
+        }
+        const budget: any = { id: budgetDoc.id, ...budgetDoc.data() };
+
+        await assertBudgetAccess(request.auth!, budget.organizationId);
+
+        if (!isBudgetApprover(request.auth, budget)) {
+          throw new Error('Permission denied: Only budget approvers can review change orders');
+        }
+
+        if (changeOrder.requestedBy === callerId) {
+          throw new Error('You cannot review your own change order');
+        }
+
+        if (changeOrder.status !== 'PENDING') {
+          throw new Error(`Change order is already ${changeOrder.status}`);
+        }
+
+        const reviewFields = {
+          reviewedBy: callerId,
+          reviewedAt: new Date(),
+          reviewComments: comments || null,
+          updatedAt: new Date()
+        };
+
+        if (action === 'reject') {
+          transaction.update(changeOrderRef, { status: 'REJECTED', ...reviewFields });
+          return { status: 'REJECTED', version: null, changeOrder };
+        }
+
+        const lineItemsSnapshot = await transaction.get(
+          db.collection('budget_line_items').where('budgetId', '==', changeOrder.budgetId)
+        );
+        const lineItems = lineItemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as any));
+
+        // Re-validate against current amounts; the budget may have changed since submission
+        const newAmounts = applyChangeOrderTransfers(lineItems, changeOrder.transfers);
+
+        lineItemsSnapshot.docs.forEach(doc => {
+          const amount = newAmounts.get(doc.id);
+          if (amount !== undefined && amount !== (doc.data().budgetedAmount || 0)) {
+            transaction.update(doc.ref, {
+              budgetedAmount: amount,
+              lastChangeOrderId: changeOrderId,
+              updatedAt: new Date()
+            });
+          }
+        });
+
+        // Lock the pre-transfer amounts as the Original version if nothing has been locked yet,
+        // so the baseline never includes this change order
+        let versionCount = budget.versionCount || 0;
+        if (!versionCount) {
+          const baseline = writeBudgetVersion(transaction, budgetRef, budget, lineItems, {
+            createdBy: callerId,
+            notes: `Locked before change order: ${changeOrder.title}`
+          });
+          versionCount = baseline.versionNumber;
+        }
+
+        const revisedLineItems = lineItems.map(item => ({ ...item, budgetedAmount: newAmounts.get(item.id) ?? item.budgetedAmount }));
+        const version = writeBudgetVersion(transaction, budgetRef, { ...budget, versionCount }, revisedLineItems, {
+          createdBy: callerId,
+          notes: `Change order: ${changeOrder.title}`,
+          changeOrderId
+        });
+
+        transaction.update(changeOrderRef, {
+          status: 'APPROVED',
+          ...reviewFields,
+          resultingVersionId: version.id
+        });
+        transaction.update(budgetRef, { changeOrderCount: FieldValue.increment(1) });
+
+        return { status: 'APPROVED', version, changeOrder };
+      });
+
+      await sendNotification(
+        result.changeOrder.requestedBy,
+        result.changeOrder.organizationId,
+        'budget_change_order',
+        result.status === 'APPROVED' ? 'Budget change order approved' : 'Budget change order rejected',
+        result.status === 'APPROVED'
+          ? `${result.changeOrder.title} was approved as ${result.version?.name}`
+          : `${result.changeOrder.title} was rejected${comments ? `: ${comments}` : ''}`,
+        { budgetId: result.changeOrder.budgetId, changeOrderId }
+      );
+
+      console.log(`📝 [BUDGET CHANGE ORDER] Change order ${changeOrderId} ${result.status.toLowerCase()} by ${callerId}`);
+
+      return createSuccessResponse({
+        id: changeOrderId,
+        status: result.status,
+        version: result.version
+      }, `Change order ${result.status.toLowerCase()}`);
+
+    } catch (error: any) {
+      console.error('❌ [REVIEW BUDGET CHANGE ORDER] Error:', error);
+      return handleError(error, 'reviewBudgetChangeOrder');
+    }
+  }
+);
+
+export const getBudgetChangeOrders = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId, status } = request.data;
+
+      if (!budgetId) {
+        throw new Error('Budget ID is required');
+      }
+
+      const budgetDoc = await db.collection('production_budgets').doc(budgetId).get();
+      if (!budgetDoc.exists) {
+        throw new Error('Budget not found');
+      }
+      await assertBudgetAccess(request.auth, budgetDoc.data()?.organizationId);
+
+      let query = db.collection('budget_change_orders').where('budgetId', '==', budgetId);
+      if (status) {
+        query = query.where('status', '==', status);
+      }
+
+      const changeOrdersSnapshot = await query.get();
+      const changeOrders = changeOrdersSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as any))
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+
+      return createSuccessResponse({
+        budgetId,
+        changeOrders,
+        count: changeOrders.length
+      }, 'Change orders retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET BUDGET CHANGE ORDERS] Error:', error);
+      return handleError(error, 'getBudgetChangeOrders');
+    }
+  }
+);
@@ -0,0 +1,198 @@
+/**
+ * Budget Forecast
+ *
+ * Pure forecasting math for production budgets: burn rate per phase from spend
+ * history, estimate-to-complete (ETC), estimate-at-completion (EAC) and the
+ * projected date each phase runs over budget.
+ */
+
+export type BudgetPhase = 'pre_production' | 'production' | 'post_production';
+
+export const BUDGET_PHASES: BudgetPhase[] = ['pre_production', 'production', 'post_production'];
+
+/**
+ * Trailing window used for the burn rate, in days
+ */
+export const DEFAULT_BURN_WINDOW_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SpendEvent {
+  phase: BudgetPhase;
+  amount: number;
+  recordedAt: Date;
+}
+
+export interface PhaseForecastInput {
+  phase: BudgetPhase;
+  budgetedAmount: number;
+  actualAmount: number;
+  committedAmount: number;
+  endDate?: Date | null;
+}
+
+export type ForecastMethod = 'burn_rate' | 'budget_remaining';
+
+export interface PhaseForecast {
+  phase: BudgetPhase;
+  budgetedAmount: number;
+  actualAmount: number;
+  committedAmount: number;
+  burnRatePerDay: number;
+  daysRemaining: number | null;
+  estimateToComplete: number;
+  estimateAtCompletion: number;
+  varianceAtCompletion: number;
+  projectedOverrunDate: string | null;
+  method: ForecastMethod;
+}
+
+export interface BudgetForecastResult {
+  asOf: string;
+  windowDays: number;
+  phases: PhaseForecast[];
+  totals: {
+    budgetedAmount: number;
+    actualAmount: number;
+    committedAmount: number;
+    burnRatePerDay: number;
+    estimateToComplete: number;
+    estimateAtCompletion: number;
+    varianceAtCompletion: number;
+    projectedOverrunDate: string | null;
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Average daily spend over the trailing window (or since the first event, if more recent)
+ */
+export function calculateBurnRate(events: SpendEvent[], asOf: Date, windowDays = DEFAULT_BURN_WINDOW_DAYS): number {
+  const windowStart = asOf.getTime() - windowDays * DAY_MS;
+  const inWindow = events.filter(event => {
+    const at = event.recordedAt.getTime();
+    return at > windowStart && at <= asOf.getTime();
+  });
+
+  if (inWindow.length === 0) {
+    return 0;
+  }
+
+  const firstEvent = Math.min(...inWindow.map(event => event.recordedAt.getTime()));
+  const elapsedDays = Math.max(1, Math.ceil((asOf.getTime() - Math.max(firstEvent, windowStart)) / DAY_MS));
+  const spent = inWindow.reduce((sum, event) => sum + event.amount, 0);
+
+  return spent / elapsedDays;
+}
+
+/**
+ * Date on which spend reaches the budget at the current burn rate; asOf if already over
+ */
+function projectOverrunDate(
+  budgeted: number,
+  exposure: number,
+  burnRatePerDay: number,
+  asOf: Date,
+  daysRemaining: number | null
+): string | null {
+  if (exposure > budgeted) {
+    return asOf.toISOString().split('T')[0];
+  }
+  if (burnRatePerDay <= 0) {
+    return null;
+  }
+
+  const daysToOverrun = (budgeted - exposure) / burnRatePerDay;
+  // Spending stops at the end of the phase
+  if (daysRemaining !== null && daysToOverrun > daysRemaining) {
+    return null;
+  }
+
+  return new Date(asOf.getTime() + Math.ceil(daysToOverrun) * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Forecast a single phase.
+ * With a phase end date, ETC = committed + burn rate × days remaining;
+ * without one the remaining budget is assumed to be spent as planned.
+ */
+export function forecastPhase(
+  input: PhaseForecastInput,
+  events: SpendEvent[],
+  asOf: Date,
+  windowDays = DEFAULT_BURN_WINDOW_DAYS
+): PhaseForecast {
+  const burnRatePerDay = calculateBurnRate(events.filter(event => event.phase === input.phase), asOf, windowDays);
+  const exposure = input.actualAmount + input.committedAmount;
+
+  let daysRemaining: number | null = null;
+  let estimateToComplete: number;
+  let method: ForecastMethod;
+
+  if (input.endDate) {
+    daysRemaining = Math.max(0, Math.ceil((input.endDate.getTime() - asOf.getTime()) / DAY_MS));
+    estimateToComplete = input.committedAmount + burnRatePerDay * daysRemaining;
+    method = 'burn_rate';
+  } else {
+    estimateToComplete = Math.max(input.budgetedAmount - input.actualAmount, input.committedAmount);
+    method = 'budget_remaining';
+  }
+
+  const estimateAtCompletion = input.actualAmount + estimateToComplete;
+
+  return {
+    phase: input.phase,
+    budgetedAmount: round2(input.budgetedAmount),
+    actualAmount: round2(input.actualAmount),
+    committedAmount: round2(input.committedAmount),
+    burnRatePerDay: round2(burnRatePerDay),
+    daysRemaining,
+    estimateToComplete: round2(estimateToComplete),
+    estimateAtCompletion: round2(estimateAtCompletion),
+    varianceAtCompletion: round2(estimateAtCompletion - input.budgetedAmount),
+    projectedOverrunDate: projectOverrunDate(input.budgetedAmount, exposure, burnRatePerDay, asOf, daysRemaining),
+    method
+  };
+}
+
+/**
+ * Forecast every phase of a budget and roll the results up
+ */
+export function forecastBudget(
+  phases: PhaseForecastInput[],
+  events: SpendEvent[],
+  asOf: Date = new Date(),
+  windowDays = DEFAULT_BURN_WINDOW_DAYS
+): BudgetForecastResult {
+  const phaseForecasts = phases.map(phase => forecastPhase(phase, events, asOf, windowDays));
+  const sum = (key: keyof PhaseForecast) =>
+    round2(phaseForecasts.reduce((total, phase) => total + (phase[key] as number), 0));
+
+  const overrunDates = phaseForecasts
+    .map(phase => phase.projectedOverrunDate)
+    .filter((date): date is string => !!date)
+    .sort();
+
+  const budgetedAmount = sum('budgetedAmount');
+  const estimateAtCompletion = sum('estimateAtCompletion');
+
+  return {
+    asOf: asOf.toISOString(),
+    windowDays,
+    phases: phaseForecasts,
+    totals: {
+      budgetedAmount,
+      actualAmount: sum('actualAmount'),
+      committedAmount: sum('committedAmount'),
+      burnRatePerDay: sum('burnRatePerDay'),
+      estimateToComplete: sum('estimateToComplete'),
+      estimateAtCompletion,
+      varianceAtCompletion: round2(estimateAtCompletion - budgetedAmount),
+      // The budget overruns as soon as its first phase does
+      projectedOverrunDate: overrunDates[0] || null
+    }
+  };
+}
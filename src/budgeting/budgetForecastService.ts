@@ -0,0 +1,158 @@
+/**
+ * Budget Forecast Service
+ * 
+ * Loads budget, line item and spend history data for forecasting, and stores
+ * the daily forecast snapshots used for trend charts
+ */
+
+import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import {
+  BUDGET_PHASES,
+  BudgetForecastResult,
+  BudgetPhase,
+  DEFAULT_BURN_WINDOW_DAYS,
+  forecastBudget,
+  PhaseForecastInput,
+  SpendEvent
+} from './budgetForecast';
+
+const db = getFirestore();
+
+const AUTO_GENERATED_PREFIX = 'Auto-generated from approved timecard';
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toPhase(value: any): BudgetPhase {
+  return BUDGET_PHASES.includes(value) ? value : 'production';
+}
+
+/**
+ * Record actual spend posted to a budget (written by the timecard budget sync)
+ */
+export async function recordBudgetSpendEvent(event: {
+  budgetId: string;
+  organizationId: string;
+  phase: BudgetPhase;
+  amount: number;
+  source: string;
+  sourceId: string;
+}): Promise<void> {
+  // One event per source document so a re-sync doesn't double count; the spend
+  // date stays the time it was first recorded so re-syncs don't move the history
+  const eventRef = db.collection('budget_spend_events').doc(`${event.source}_${event.sourceId}`);
+  await db.runTransaction(async transaction => {
+    const existing = await transaction.get(eventRef);
+    if (existing.exists) {
+      transaction.update(eventRef, { ...event, updatedAt: FieldValue.serverTimestamp() });
+    } else {
+      transaction.set(eventRef, { ...event, recordedAt: FieldValue.serverTimestamp() });
+    }
+  });
+}
+
+/**
+ * Spend history for a budget; budgets synced before spend events existed fall back
+ * to the creation time of their auto-generated timecard line items
+ */
+export async function loadSpendHistory(budgetId: string, lineItems: any[]): Promise<SpendEvent[]> {
+  const eventsSnapshot = await db.collection('budget_spend_events')
+    .where('budgetId', '==', budgetId)
+    .get();
+
+  const events: SpendEvent[] = eventsSnapshot.docs
+    .map(doc => doc.data())
+    .map(data => ({ phase: toPhase(data.phase), amount: data.amount || 0, recordedAt: toDate(data.recordedAt) }))
+    .filter((event): event is SpendEvent => !!event.recordedAt);
+
+  if (events.length > 0) {
+    return events;
+  }
+
+  return lineItems
+    .filter(item => (item.notes || '').startsWith(AUTO_GENERATED_PREFIX))
+    .map(item => ({ phase: toPhase(item.phase), amount: item.actualAmount || 0, recordedAt: toDate(item.createdAt) }))
+    .filter((event): event is SpendEvent => !!event.recordedAt);
+}
+
+/**
+ * Per-phase forecast inputs from line items, falling back to the budget's phase totals
+ */
+export function buildPhaseInputs(budget: any, lineItems: any[]): PhaseForecastInput[] {
+  return BUDGET_PHASES
+    .map(phase => {
+      const items = lineItems.filter(item => toPhase(item.phase) === phase);
+      const phaseData = budget.phases?.[phase] || {};
+      const sum = (key: string) => items.reduce((total, item) => total + (item[key] || 0), 0);
+
+      return {
+        phase,
+        budgetedAmount: phaseData.budgetedAmount || sum('budgetedAmount'),
+        actualAmount: items.length > 0 ? sum('actualAmount') : (phaseData.actualAmount || 0),
+        committedAmount: items.length > 0 ? sum('committedAmount') : (phaseData.committedAmount || 0),
+        endDate: toDate(phaseData.endDate) || toDate(budget.endDate)
+      };
+    })
+    .filter(input => input.budgetedAmount > 0 || input.actualAmount > 0 || input.committedAmount > 0);
+}
+
+/**
+ * Load everything needed and forecast a budget
+ */
+export async function calculateBudgetForecast(
+  budgetId: string,
+  asOf: Date = new Date(),
+  windowDays = DEFAULT_BURN_WINDOW_DAYS
+): Promise<{ budget: any; forecast: BudgetForecastResult }> {
+  const budgetDoc = await db.collection('production_budgets').doc(budgetId).get();
+  if (!budgetDoc.exists) {
+    throw new Error('Budget not found');
+  }
+  const budget: any = { id: budgetDoc.id, ...budgetDoc.data() };
+
+  const lineItemsSnapshot = await db.collection('budget_line_items')
+    .where('budgetId', '==', budgetId)
+    .get();
+  const lineItems = lineItemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+  const events = await loadSpendHistory(budgetId, lineItems);
+  const forecast = forecastBudget(buildPhaseInputs(budget, lineItems), events, asOf, windowDays);
+
+  return { budget, forecast };
+}
+
+/**
+ * Store a forecast snapshot (one per budget per day; re-running the same day overwrites it)
+ */
+export async function saveBudgetForecastSnapshot(budget: any, forecast: BudgetForecastResult): Promise<string> {
+  const snapshotDate = forecast.asOf.split('T')[0];
+  const snapshotId = `${budget.id}_${snapshotDate}`;
+
+  await db.collection('budget_forecast_snapshots').doc(snapshotId).set({
+    budgetId: budget.id,
+    organizationId: budget.organizationId || null,
+    projectId: budget.projectId || null,
+    snapshotDate,
+    ...forecast,
+    createdAt: Timestamp.now()
+  });
+
+  return snapshotId;
+}
+
+/**
+ * Recent snapshots for a budget, oldest first
+ */
+export async function getBudgetForecastSnapshots(budgetId: string, days: number): Promise<any[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const snapshots = await db.collection('budget_forecast_snapshots')
+    .where('budgetId', '==', budgetId)
+    .where('snapshotDate', '>=', since)
+    .orderBy('snapshotDate', 'asc')
+    .get();
+
+  return snapshots.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+}
@@ -5,6 +5,9 @@
  */
 
 import { getFirestore } from 'firebase-admin/firestore';
+import { recordBudgetSpendEvent } from './budgetForecastService';
+import { calculateTimecardBudgetCost } from './laborCostService';
+import { getSyncedBudgetCost, LaborCostBreakdown } from './laborCost';
 
 const db = getFirestore();
 
@@ -50,6 +53,15 @@ export interface BudgetLineItemData {
   department?: string;
   phase: 'pre_production' | 'production' | 'post_production';
   notes?: string;
+  // Labor cost breakdown (actualAmount is the fringed cost in the budget currency)
+  grossWages?: number;
+  fringeAmount?: number;
+  fringeBreakdown?: LaborCostBreakdown['fringeBreakdown'];
+  fringeTableId?: string | null;
+  sourceCurrency?: string;
+  sourceAmount?: number;
+  exchangeRate?: number;
+  currency?: string;
 }
 
 /**
@@ -111,16 +123,34 @@ export async function syncApprovedTimecardToBudget(timecardId: string): Promise<
       return;
     }
 
+    // Price the timecard: gross pay + fringes, converted to the budget currency
+    const budgetDoc = await db.collection('production_budgets').doc(budgetId).get();
+    const cost = await calculateTimecardBudgetCost(timecard, budgetDoc.data());
+
     // Create or update budget line item
-    await createOrUpdateBudgetLineItem(budgetId, timecard);
+    await createOrUpdateBudgetLineItem(budgetId, timecard, cost);
 
     // Update budget totals
-    await updateBudgetFromTimecard(budgetId, timecard);
+    await updateBudgetFromTimecard(budgetId, timecard, cost.budgetAmount);
+
+    // Record the spend for burn rate forecasting
+    await recordBudgetSpendEvent({
+      budgetId,
+      organizationId: timecard.organizationId,
+      phase: determinePhase(timecard.weekStartDate || new Date()),
+      amount: cost.budgetAmount,
+      source: 'timecard',
+      sourceId: timecard.id
+    });
 
     // Mark timecard as synced
     await db.collection('timecards').doc(timecardId).update({
       budgetSyncedAt: new Date(),
-      budgetSyncedTo: budgetId
+      budgetSyncedTo: budgetId,
+      budgetSyncedCost: cost.budgetAmount,
+      budgetSyncedCurrency: cost.budgetCurrency,
+      // Per budget, so totals for other budgets never reuse this budget's converted cost
+      [`budgetSyncedCosts.${budgetId}`]: cost.budgetAmount
     });
 
     console.log(`✅ [BUDGET SYNC] Successfully synced timecard ${timecardId} to budget ${budgetId}`);
@@ -171,9 +201,12 @@ async function findBudgetForTimecard(timecard: TimecardData): Promise<string | n
 /**
  * Create or update budget line item from timecard
  */
-async function createOrUpdateBudgetLineItem(budgetId: string, timecard: TimecardData): Promise<void> {
+async function createOrUpdateBudgetLineItem(
+  budgetId: string,
+  timecard: TimecardData,
+  cost: LaborCostBreakdown & { fringeTableId: string | null }
+): Promise<void> {
   try {
-    const totalPay = timecard.totalPay || timecard.stats?.totalPay || 0;
     const totalHours = timecard.totalHours || timecard.stats?.totalHours || 0;
     const hourlyRate = timecard.hourlyRate || 0;
 
@@ -190,14 +223,22 @@ async function createOrUpdateBudgetLineItem(budgetId: string, timecard: Timecard
       subcategory: determineSubcategory(timecard.role),
       description: `Timecard - ${timecard.userName || timecard.userEmail || 'User'} - Week of ${timecard.weekStartDate || 'N/A'}`,
       budgetedAmount: 0, // Will be set from budget
-      actualAmount: totalPay,
+      actualAmount: cost.budgetAmount,
       committedAmount: 0,
       unit: 'hours',
       quantity: totalHours,
       rate: hourlyRate,
       department: timecard.department || '',
       phase: determinePhase(timecard.weekStartDate || new Date()),
-      notes: `Auto-generated from approved timecard ${timecard.id}`
+      notes: `Auto-generated from approved timecard ${timecard.id}`,
+      grossWages: cost.grossPay,
+      fringeAmount: cost.fringeTotal,
+      fringeBreakdown: cost.fringeBreakdown,
+      fringeTableId: cost.fringeTableId,
+      sourceCurrency: cost.currency,
+      sourceAmount: cost.totalCost,
+      exchangeRate: cost.exchangeRate,
+      currency: cost.budgetCurrency
     };
 
     if (!existingLineItems.empty) {
@@ -205,7 +246,6 @@ async function createOrUpdateBudgetLineItem(budgetId: string, timecard: Timecard
       const existingItem = existingLineItems.docs[0];
       await existingItem.ref.update({
         ...lineItemData,
-        actualAmount: totalPay,
         updatedAt: new Date()
       });
       console.log(`📝 [BUDGET SYNC] Updated existing line item ${existingItem.id}`);
@@ -227,7 +267,7 @@ async function createOrUpdateBudgetLineItem(budgetId: string, timecard: Timecard
 /**
  * Update budget totals from timecard
  */
-export async function updateBudgetFromTimecard(budgetId: string, timecard: TimecardData): Promise<void> {
+export async function updateBudgetFromTimecard(budgetId: string, timecard: TimecardData, syncedCost?: number): Promise<void> {
   try {
     const budgetRef = db.collection('production_budgets').doc(budgetId);
     const budgetDoc = await budgetRef.get();
@@ -252,7 +292,10 @@ export async function updateBudgetFromTimecard(budgetId: string, timecard: Timec
     // Calculate from all approved timecards
     for (const tcDoc of allTimecards.docs) {
       const tc = tcDoc.data();
-      const pay = tc.totalPay || tc.stats?.totalPay || 0;
+      // Synced timecards count at their fringed cost, converted for this budget
+      const pay = tcDoc.id === timecard.id && syncedCost !== undefined
+        ? syncedCost
+        : getSyncedBudgetCost(tc, budgetId);
 
       // Check if this timecard is linked to this budget
       if (tc.projectId && budget?.projectId === tc.projectId) {
@@ -0,0 +1,120 @@
+/**
+ * Budget Version Service
+ * 
+ * Firestore access for locked budget versions (`budget_versions`) and change orders
+ * (`budget_change_orders`). Versions are written inside transactions so version
+ * numbers stay sequential.
+ */
+
+import { getFirestore, Timestamp, Transaction, DocumentReference } from 'firebase-admin/firestore';
+import { validateOrganizationAccess } from '../shared/utils';
+import { BudgetVersionLineItem, getVersionName, snapshotLineItems } from './budgetVersioning';
+
+const db = getFirestore();
+
+/**
+ * Throw unless the caller belongs to the budget's organization or is an admin
+ */
+export async function assertBudgetAccess(auth: { uid: string; token: any }, organizationId: string): Promise<void> {
+  const hasAccess = await validateOrganizationAccess(auth.uid, organizationId);
+  if (!hasAccess) {
+    const token = auth.token;
+    const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+    if (!isAdmin) {
+      throw new Error('Permission denied: You do not have access to this budget');
+    }
+  }
+}
+
+/**
+ * Write a new locked version inside a transaction (all reads must already be done)
+ */
+export function writeBudgetVersion(
+  transaction: Transaction,
+  budgetRef: DocumentReference,
+  budgetData: any,
+  lineItems: any[],
+  options: { createdBy: string; name?: string; notes?: string | null; changeOrderId?: string | null }
+): { id: string; versionNumber: number; name: string; totalBudget: number } {
+  const versionNumber = (budgetData.versionCount || 0) + 1;
+  const name = options.name || getVersionName(versionNumber);
+  const snapshot = snapshotLineItems(lineItems);
+  const totalBudget = Math.round(snapshot.reduce((sum, item) => sum + item.budgetedAmount, 0) * 100) / 100;
+  const versionRef = db.collection('budget_versions').doc();
+
+  transaction.set(versionRef, {
+    budgetId: budgetRef.id,
+    organizationId: budgetData.organizationId,
+    projectId: budgetData.projectId || null,
+    versionNumber,
+    name,
+    notes: options.notes || null,
+    changeOrderId: options.changeOrderId || null,
+    lineItems: snapshot,
+    totalBudget,
+    status: 'locked',
+    createdBy: options.createdBy,
+    createdAt: Timestamp.now()
+  });
+
+  transaction.update(budgetRef, {
+    versionCount: versionNumber,
+    currentVersionId: versionRef.id,
+    currentVersionName: name,
+    ...(versionNumber === 1 ? { originalVersionId: versionRef.id } : {}),
+    updatedAt: new Date()
+  });
+
+  return { id: versionRef.id, versionNumber, name, totalBudget };
+}
+
+/**
+ * Lock the budget's current line items as a new version
+ */
+export async function createBudgetVersionSnapshot(
+  budgetId: string,
+  options: { createdBy: string; name?: string; notes?: string | null }
+) {
+  const budgetRef = db.collection('production_budgets').doc(budgetId);
+
+  return db.runTransaction(async (transaction) => {
+    const budgetDoc = await transaction.get(budgetRef);
+    if (!budgetDoc.exists) {
+      throw new Error('Budget not found');
+    }
+
+    const lineItemsSnapshot = await transaction.get(
+      db.collection('budget_line_items').where('budgetId', '==', budgetId)
+    );
+    const lineItems = lineItemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    return writeBudgetVersion(transaction, budgetRef, budgetDoc.data(), lineItems, options);
+  });
+}
+
+/**
+ * A version's line items; 'current' is the live working budget
+ */
+export async function getBudgetVersionLineItems(
+  budgetId: string,
+  versionId: string
+): Promise<{ id: string; name: string; lineItems: BudgetVersionLineItem[] }> {
+  if (versionId === 'current') {
+    const lineItemsSnapshot = await db.collection('budget_line_items')
+      .where('budgetId', '==', budgetId)
+      .get();
+    return {
+      id: 'current',
+      name: 'Current working budget',
+      lineItems: snapshotLineItems(lineItemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })))
+    };
+  }
+
+  const versionDoc = await db.collection('budget_versions').doc(versionId).get();
+  const version = versionDoc.data();
+  if (!versionDoc.exists || !version || version.budgetId !== budgetId) {
+    throw new Error(`Budget version ${versionId} not found`);
+  }
+
+  return { id: versionDoc.id, name: version.name, lineItems: version.lineItems || [] };
+}
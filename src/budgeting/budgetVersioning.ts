@@ -0,0 +1,178 @@
+/**
+ * Budget Versioning
+ *
+ * Pure helpers for locked budget versions (Original, Revised 1, Revised 2…),
+ * change-order transfers between line items, and diffs between versions.
+ */
+
+export interface BudgetVersionLineItem {
+  lineItemId: string;
+  category: string;
+  subcategory: string;
+  description: string;
+  phase: string;
+  department: string;
+  budgetedAmount: number;
+}
+
+export interface BudgetVersionSnapshot {
+  versionNumber: number;
+  name: string;
+  lineItems: BudgetVersionLineItem[];
+  totalBudget: number;
+}
+
+export interface ChangeOrderTransfer {
+  fromLineItemId: string;
+  toLineItemId: string;
+  amount: number;
+}
+
+export type LineItemChangeType = 'added' | 'removed' | 'changed';
+
+export interface LineItemDiff {
+  lineItemId: string;
+  description: string;
+  category: string;
+  phase: string;
+  change: LineItemChangeType;
+  fromAmount: number;
+  toAmount: number;
+  delta: number;
+}
+
+export interface BudgetVersionDiff {
+  fromVersion: string;
+  toVersion: string;
+  lineItems: LineItemDiff[];
+  totals: { fromAmount: number; toAmount: number; delta: number };
+  byCategory: Record<string, number>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Display name for a version number: 1 is the original budget
+ */
+export function getVersionName(versionNumber: number): string {
+  return versionNumber <= 1 ? 'Original' : `Revised ${versionNumber - 1}`;
+}
+
+/**
+ * Freeze the budget-relevant fields of line items
+ */
+export function snapshotLineItems(lineItems: any[]): BudgetVersionLineItem[] {
+  return lineItems
+    .map(item => ({
+      lineItemId: item.id,
+      category: item.category || '',
+      subcategory: item.subcategory || '',
+      description: item.description || '',
+      phase: item.phase || '',
+      department: item.department || '',
+      budgetedAmount: round2(item.budgetedAmount || 0)
+    }))
+    .sort((a, b) => a.lineItemId.localeCompare(b.lineItemId));
+}
+
+/**
+ * Validate change-order transfers against current line items and return the new budgeted amounts.
+ * Transfers move money, so the budget total is unchanged.
+ */
+export function applyChangeOrderTransfers(
+  lineItems: Array<{ id: string; budgetedAmount?: number }>,
+  transfers: ChangeOrderTransfer[]
+): Map<string, number> {
+  if (!Array.isArray(transfers) || transfers.length === 0) {
+    throw new Error('A change order needs at least one transfer');
+  }
+
+  const amounts = new Map<string, number>(lineItems.map(item => [item.id, item.budgetedAmount || 0]));
+
+  transfers.forEach((transfer, index) => {
+    const amount = Number(transfer?.amount);
+    if (!(amount > 0)) {
+      throw new Error(`Transfer ${index + 1} needs a positive amount`);
+    }
+    if (transfer.fromLineItemId === transfer.toLineItemId) {
+      throw new Error(`Transfer ${index + 1} moves money to the same line item`);
+    }
+    if (!amounts.has(transfer.fromLineItemId) || !amounts.has(transfer.toLineItemId)) {
+      throw new Error(`Transfer ${index + 1} references a line item that is not in this budget`);
+    }
+
+    const available = amounts.get(transfer.fromLineItemId)!;
+    if (amount > available + 0.005) {
+      throw new Error(`Transfer ${index + 1} exceeds the ${round2(available)} budgeted on the source line item`);
+    }
+
+    amounts.set(transfer.fromLineItemId, round2(available - amount));
+    amounts.set(transfer.toLineItemId, round2(amounts.get(transfer.toLineItemId)! + amount));
+  });
+
+  return amounts;
+}
+
+/**
+ * Line-by-line difference between two versions
+ */
+export function diffBudgetVersions(
+  from: { name: string; lineItems: BudgetVersionLineItem[] },
+  to: { name: string; lineItems: BudgetVersionLineItem[] }
+): BudgetVersionDiff {
+  const fromItems = new Map(from.lineItems.map(item => [item.lineItemId, item]));
+  const toItems = new Map(to.lineItems.map(item => [item.lineItemId, item]));
+  const ids = Array.from(new Set([...fromItems.keys(), ...toItems.keys()])).sort();
+
+  const lineItems: LineItemDiff[] = [];
+  const byCategory: Record<string, number> = {};
+
+  ids.forEach(lineItemId => {
+    const before = fromItems.get(lineItemId);
+    const after = toItems.get(lineItemId);
+    const fromAmount = before?.budgetedAmount || 0;
+    const toAmount = after?.budgetedAmount || 0;
+    const delta = round2(toAmount - fromAmount);
+
+    const change: LineItemChangeType | null = !before ? 'added' : !after ? 'removed' : delta !== 0 ? 'changed' : null;
+    if (!change) return;
+
+    const reference = (after || before)!;
+    lineItems.push({
+      lineItemId,
+      description: reference.description,
+      category: reference.category,
+      phase: reference.phase,
+      change,
+      fromAmount,
+      toAmount,
+      delta
+    });
+    byCategory[reference.category] = round2((byCategory[reference.category] || 0) + delta);
+  });
+
+  const fromTotal = round2(from.lineItems.reduce((sum, item) => sum + item.budgetedAmount, 0));
+  const toTotal = round2(to.lineItems.reduce((sum, item) => sum + item.budgetedAmount, 0));
+
+  return {
+    fromVersion: from.name,
+    toVersion: to.name,
+    lineItems,
+    totals: { fromAmount: fromTotal, toAmount: toTotal, delta: round2(toTotal - fromTotal) },
+    byCategory
+  };
+}
+
+/**
+ * Replace each line item's budgeted amount with the amount from a version, for variance
+ * reporting against that version. Items added after the version was locked have no baseline.
+ */
+export function applyVersionBaseline<T extends { id: string; budgetedAmount?: number }>(
+  lineItems: T[],
+  versionLineItems: BudgetVersionLineItem[]
+): T[] {
+  const baseline = new Map(versionLineItems.map(item => [item.lineItemId, item.budgetedAmount]));
+  return lineItems.map(item => ({ ...item, budgetedAmount: baseline.get(item.id) || 0 }));
+}
@@ -0,0 +1,140 @@
+/**
+ * Budget Version Functions
+ * 
+ * Lock named budget versions (Original, Revised 1…), list them, and diff any two
+ * versions (or a version against the current working budget)
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { diffBudgetVersions } from './budgetVersioning';
+import { assertBudgetAccess, createBudgetVersionSnapshot, getBudgetVersionLineItems } from './budgetVersionService';
+
+const db = getFirestore();
+
+async function loadBudgetForCaller(auth: any, budgetId: string) {
+  if (!budgetId) {
+    throw new Error('Budget ID is required');
+  }
+
+  const budgetDoc = await db.collection('production_budgets').doc(budgetId).get();
+  if (!budgetDoc.exists) {
+    throw new Error('Budget not found');
+  }
+
+  const budget: any = { id: budgetDoc.id, ...budgetDoc.data() };
+  await assertBudgetAccess(auth, budget.organizationId);
+  return budget;
+}
+
+export const createBudgetVersion = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId, name, notes } = request.data;
+      await loadBudgetForCaller(request.auth, budgetId);
+
+      const version = await createBudgetVersionSnapshot(budgetId, {
+        createdBy: request.auth.uid,
+        name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+        notes
+      });
+
+      console.log(`🔒 [BUDGET VERSION] Locked ${version.name} (v${version.versionNumber}) for budget ${budgetId}`);
+
+      return createSuccessResponse({ budgetId, ...version }, 'Budget version created successfully');
+
+    } catch (error: any) {
+      console.error('❌ [CREATE BUDGET VERSION] Error:', error);
+      return handleError(error, 'createBudgetVersion');
+    }
+  }
+);
+
+export const getBudgetVersions = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId } = request.data;
+      const budget = await loadBudgetForCaller(request.auth, budgetId);
+
+      const versionsSnapshot = await db.collection('budget_versions')
+        .where('budgetId', '==', budgetId)
+        .orderBy('versionNumber', 'asc')
+        .get();
+
+      // Line items are returned by compareBudgetVersions; keep the list light
+      const versions = versionsSnapshot.docs.map(doc => {
+        const { lineItems, ...version } = doc.data();
+        return { id: doc.id, ...version, lineItemCount: (lineItems || []).length };
+      });
+
+      return createSuccessResponse({
+        budgetId,
+        versions,
+        currentVersionId: budget.currentVersionId || null,
+        originalVersionId: budget.originalVersionId || null
+      }, 'Budget versions retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET BUDGET VERSIONS] Error:', error);
+      return handleError(error, 'getBudgetVersions');
+    }
+  }
+);
+
+export const compareBudgetVersions = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId, fromVersionId, toVersionId = 'current' } = request.data;
+      const budget = await loadBudgetForCaller(request.auth, budgetId);
+
+      const baseVersionId = fromVersionId || budget.originalVersionId;
+      if (!baseVersionId) {
+        throw new Error('fromVersionId is required (this budget has no locked versions yet)');
+      }
+
+      const [from, to] = await Promise.all([
+        getBudgetVersionLineItems(budgetId, baseVersionId),
+        getBudgetVersionLineItems(budgetId, toVersionId)
+      ]);
+
+      return createSuccessResponse({
+        budgetId,
+        fromVersionId: from.id,
+        toVersionId: to.id,
+        diff: diffBudgetVersions(from, to)
+      }, 'Budget versions compared successfully');
+
+    } catch (error: any) {
+      console.error('❌ [COMPARE BUDGET VERSIONS] Error:', error);
+      return handleError(error, 'compareBudgetVersions');
+    }
+  }
+);
@@ -1,13 +1,16 @@
 /**
  * Calculate Budget Variance Function
  * 
- * Calculates variance for a budget and its line items
+ * Calculates variance for a budget and its line items, against the working budget
+ * or any locked budget version (versionId)
  * Supports both Firebase Callable (onCall) and HTTP (onRequest) calling methods
  */
 
 import { onCall, onRequest } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { createSuccessResponse, createErrorResponse, handleError, setCorsHeaders } from '../shared/utils';
+import { applyVersionBaseline } from './budgetVersioning';
+import { getBudgetVersionLineItems } from './budgetVersionService';
 
 const db = getFirestore();
 
@@ -23,7 +26,7 @@ export const calculateBudgetVariance = onCall(
         throw new Error('User must be authenticated');
       }
 
-      const { budgetId } = request.data;
+      const { budgetId, versionId } = request.data;
       const callerId = request.auth.uid;
 
       if (!budgetId) {
@@ -54,11 +57,17 @@ export const calculateBudgetVariance = onCall(
         .where('budgetId', '==', budgetId)
         .get();
 
-      const lineItems = lineItemsSnapshot.docs.map(doc => ({
+      let lineItems: any[] = lineItemsSnapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       }));
 
+      // Report against a locked version's budgeted amounts instead of the working budget
+      if (versionId && versionId !== 'current') {
+        const version = await getBudgetVersionLineItems(budgetId as string, versionId as string);
+        lineItems = applyVersionBaseline(lineItems, version.lineItems);
+      }
+
       // Calculate variances
       const variances = lineItems.map((item: any) => {
         const variance = (item.actualAmount || 0) - (item.budgetedAmount || 0);
@@ -98,7 +107,8 @@ export const calculateBudgetVariance = onCall(
           isOverBudget: overallVariance > 0,
           alertLevel: overallVariancePercentage > 10 ? 'critical' : overallVariancePercentage > 5 ? 'warning' : 'none'
         },
-        budgetId
+        budgetId,
+        versionId: versionId || 'current'
       }, 'Variance calculated successfully');
 
     } catch (error: any) {
@@ -124,7 +134,7 @@ export const calculateBudgetVarianceHttp = onRequest(
         return;
       }
 
-      const { budgetId } = req.query;
+      const { budgetId, versionId } = req.query;
 
       if (!budgetId) {
         res.status(400).json(createErrorResponse('Budget ID is required'));
@@ -145,11 +155,17 @@ export const calculateBudgetVarianceHttp = onRequest(
         .where('budgetId', '==', budgetId)
         .get();
 
-      const lineItems = lineItemsSnapshot.docs.map(doc => ({
+      let lineItems: any[] = lineItemsSnapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       }));
 
+      // Report against a locked version's budgeted amounts instead of the working budget
+      if (versionId && versionId !== 'current') {
+        const version = await getBudgetVersionLineItems(budgetId as string, versionId as string);
+        lineItems = applyVersionBaseline(lineItems, version.lineItems);
+      }
+
       // Calculate variances
       const variances = lineItems.map((item: any) => {
         const variance = (item.actualAmount || 0) - (item.budgetedAmount || 0);
@@ -189,7 +205,8 @@ export const calculateBudgetVarianceHttp = onRequest(
           isOverBudget: overallVariance > 0,
           alertLevel: overallVariancePercentage > 10 ? 'critical' : overallVariancePercentage > 5 ? 'warning' : 'none'
         },
-        budgetId
+        budgetId,
+        versionId: versionId || 'current'
       }, 'Variance calculated successfully'));
 
     } catch (error: any) {
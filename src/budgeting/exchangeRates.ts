@@ -0,0 +1,122 @@
+/**
+ * Exchange Rate Functions
+ * 
+ * Stored exchange rates used to convert timecard costs into budget currencies.
+ * Rates are dated; the most recent rate on or before the approval date is used.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { normalizeCurrency } from './laborCost';
+
+const db = getFirestore();
+
+export const saveExchangeRate = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { organizationId, baseCurrency, quoteCurrency, rate, effectiveDate, source } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!organizationId) {
+        throw new Error('Organization ID is required');
+      }
+
+      const base = normalizeCurrency(baseCurrency, '');
+      const quote = normalizeCurrency(quoteCurrency, '');
+      if (!base || !quote || base === quote) {
+        throw new Error('baseCurrency and quoteCurrency must be two different ISO 4217 codes');
+      }
+
+      if (!(Number(rate) > 0)) {
+        throw new Error('rate must be a positive number');
+      }
+
+      const effective = effectiveDate ? new Date(effectiveDate) : new Date();
+      if (isNaN(effective.getTime())) {
+        throw new Error('effectiveDate is invalid');
+      }
+
+      const hasAccess = await import('../shared/utils').then(m => m.validateOrganizationAccess(callerId, organizationId));
+      const token = request.auth.token;
+      const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+      if (!hasAccess || !isAdmin) {
+        throw new Error('Permission denied: Only organization admins can manage exchange rates');
+      }
+
+      const effectiveDay = effective.toISOString().split('T')[0];
+      // One rate per pair per day; saving again corrects it
+      const rateRef = db.collection('exchange_rates').doc(`${organizationId}_${base}_${quote}_${effectiveDay}`);
+      const rateData = {
+        organizationId,
+        baseCurrency: base,
+        quoteCurrency: quote,
+        rate: Number(rate),
+        effectiveDate: new Date(`${effectiveDay}T00:00:00.000Z`),
+        source: source || 'manual',
+        updatedBy: callerId,
+        updatedAt: new Date()
+      };
+
+      await rateRef.set(rateData);
+
+      console.log(`💱 [EXCHANGE RATES] ${base}/${quote} = ${rate} from ${effectiveDay} for org ${organizationId}`);
+
+      return createSuccessResponse({ id: rateRef.id, ...rateData }, 'Exchange rate saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE EXCHANGE RATE] Error:', error);
+      return handleError(error, 'saveExchangeRate');
+    }
+  }
+);
+
+export const getExchangeRates = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { organizationId } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!organizationId) {
+        throw new Error('Organization ID is required');
+      }
+
+      const hasAccess = await import('../shared/utils').then(m => m.validateOrganizationAccess(callerId, organizationId));
+      if (!hasAccess) {
+        throw new Error('Permission denied: You do not have access to this organization');
+      }
+
+      const ratesSnapshot = await db.collection('exchange_rates')
+        .where('organizationId', '==', organizationId)
+        .get();
+
+      const rates = ratesSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as any))
+        .sort((a, b) => (b.effectiveDate?.toMillis?.() || 0) - (a.effectiveDate?.toMillis?.() || 0));
+
+      return createSuccessResponse({ rates, count: rates.length }, 'Exchange rates retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET EXCHANGE RATES] Error:', error);
+      return handleError(error, 'getExchangeRates');
+    }
+  }
+);
@@ -0,0 +1,125 @@
+/**
+ * Fringe Rate Table Functions
+ * 
+ * Per-organization fringe tables (pension, health, payroll tax…), optionally
+ * specific to a union, applied when approved timecards sync to budget lines
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { validateFringeComponents } from './laborCost';
+
+const db = getFirestore();
+
+function assertAdmin(token: any) {
+  const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+  if (!isAdmin) {
+    throw new Error('Permission denied: Only organization admins can manage rate tables');
+  }
+}
+
+export const saveFringeRateTable = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { tableId, organizationId, name, unionId, components, effectiveDate, expirationDate, isActive = true } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!organizationId) {
+        throw new Error('Organization ID is required');
+      }
+
+      if (!name) {
+        throw new Error('Table name is required');
+      }
+
+      const hasAccess = await import('../shared/utils').then(m => m.validateOrganizationAccess(callerId, organizationId));
+      if (!hasAccess) {
+        throw new Error('Permission denied: You do not have access to this organization');
+      }
+      assertAdmin(request.auth.token);
+
+      const tableRef = tableId
+        ? db.collection('fringe_rate_tables').doc(tableId)
+        : db.collection('fringe_rate_tables').doc();
+
+      if (tableId) {
+        const existing = await tableRef.get();
+        if (!existing.exists || existing.data()?.organizationId !== organizationId) {
+          throw new Error('Fringe rate table not found');
+        }
+      }
+
+      const tableData = {
+        organizationId,
+        name,
+        unionId: unionId || null,
+        components: validateFringeComponents(components),
+        effectiveDate: effectiveDate ? new Date(effectiveDate) : null,
+        expirationDate: expirationDate ? new Date(expirationDate) : null,
+        isActive: !!isActive,
+        updatedBy: callerId,
+        updatedAt: new Date(),
+        ...(tableId ? {} : { createdBy: callerId, createdAt: new Date() })
+      };
+
+      await tableRef.set(tableData, { merge: true });
+
+      console.log(`💼 [FRINGE RATES] Saved fringe table ${tableRef.id} for org ${organizationId}${unionId ? ` (union ${unionId})` : ''}`);
+
+      return createSuccessResponse({ id: tableRef.id, ...tableData }, 'Fringe rate table saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE FRINGE RATE TABLE] Error:', error);
+      return handleError(error, 'saveFringeRateTable');
+    }
+  }
+);
+
+export const getFringeRateTables = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { organizationId } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!organizationId) {
+        throw new Error('Organization ID is required');
+      }
+
+      const hasAccess = await import('../shared/utils').then(m => m.validateOrganizationAccess(callerId, organizationId));
+      if (!hasAccess) {
+        throw new Error('Permission denied: You do not have access to this organization');
+      }
+
+      const tablesSnapshot = await db.collection('fringe_rate_tables')
+        .where('organizationId', '==', organizationId)
+        .get();
+
+      const tables = tablesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      return createSuccessResponse({ tables, count: tables.length }, 'Fringe rate tables retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET FRINGE RATE TABLES] Error:', error);
+      return handleError(error, 'getFringeRateTables');
+    }
+  }
+);
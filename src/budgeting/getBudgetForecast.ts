@@ -0,0 +1,64 @@
+/**
+ * Get Budget Forecast Function
+ * 
+ * Returns burn rate per phase, estimate-to-complete, estimate-at-completion and
+ * projected overrun dates for a budget, plus its recent daily snapshots for trends
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { DEFAULT_BURN_WINDOW_DAYS } from './budgetForecast';
+import { calculateBudgetForecast, getBudgetForecastSnapshots } from './budgetForecastService';
+
+export const getBudgetForecast = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('User must be authenticated');
+      }
+
+      const { budgetId, windowDays = DEFAULT_BURN_WINDOW_DAYS, historyDays = 30 } = request.data;
+      const callerId = request.auth.uid;
+
+      if (!budgetId) {
+        throw new Error('Budget ID is required');
+      }
+
+      if (!(Number(windowDays) > 0)) {
+        throw new Error('windowDays must be a positive number');
+      }
+
+      const { budget, forecast } = await calculateBudgetForecast(budgetId, new Date(), Number(windowDays));
+
+      // Security check
+      const hasAccess = await import('../shared/utils').then(m => m.validateOrganizationAccess(callerId, budget.organizationId));
+      if (!hasAccess) {
+        const token = request.auth.token;
+        const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+        if (!isAdmin) {
+          throw new Error('Permission denied: You do not have access to this budget');
+        }
+      }
+
+      const history = historyDays > 0 ? await getBudgetForecastSnapshots(budgetId, Number(historyDays)) : [];
+
+      return createSuccessResponse({
+        budgetId,
+        forecast,
+        history: history.map(snapshot => ({
+          snapshotDate: snapshot.snapshotDate,
+          totals: snapshot.totals
+        }))
+      }, 'Budget forecast calculated successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET BUDGET FORECAST] Error:', error);
+      return handleError(error, 'getBudgetForecast');
+    }
+  }
+);
@@ -10,4 +10,9 @@ export { calculateBudgetVariance } from './calculateBudgetVariance';
 export { syncTimecardToBudget } from './syncTimecardToBudget';
 export { aggregateTimecardCosts } from './aggregateTimecardCosts';
 export { matchTemplates } from './matchTemplates';
-
+export { getBudgetForecast } from './getBudgetForecast';
+export { snapshotBudgetForecasts } from './snapshotBudgetForecasts';
+export { createBudgetVersion, getBudgetVersions, compareBudgetVersions } from './budgetVersions';
+export { createBudgetChangeOrder, reviewBudgetChangeOrder, getBudgetChangeOrders } from './budgetChangeOrders';
+export { saveFringeRateTable, getFringeRateTables } from './fringeRateTables';
+export { saveExchangeRate, getExchangeRates } from './exchangeRates';
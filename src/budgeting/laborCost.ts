@@ -0,0 +1,183 @@
+/**
+ * Labor Cost
+ *
+ * Pure helpers that turn gross timecard pay into the true cost posted to a budget:
+ * fringe burden (pension, health, payroll tax…) from a rate table, then conversion
+ * from the pay currency into the budget currency.
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export type FringeComponentType = 'percentage' | 'per_hour' | 'flat';
+
+export interface FringeComponent {
+  name: string;
+  type: FringeComponentType;
+  /** Percent for `percentage`, amount per hour for `per_hour`, amount per timecard for `flat` */
+  rate: number;
+  /** Percentage fringes on straight-time wages only (common for pension/health) */
+  appliesTo?: 'all_wages' | 'straight_time';
+}
+
+export interface ExchangeRateRecord {
+  baseCurrency: string;
+  quoteCurrency: string;
+  /** Units of quote currency per one unit of base currency */
+  rate: number;
+  effectiveDate: Date;
+}
+
+export interface LaborCostInput {
+  grossPay: number;
+  straightTimePay?: number;
+  hours: number;
+  fringes: FringeComponent[];
+  currency: string;
+  budgetCurrency: string;
+  exchangeRate: number;
+}
+
+export interface LaborCostBreakdown {
+  grossPay: number;
+  fringeBreakdown: Array<{ name: string; type: FringeComponentType; amount: number }>;
+  fringeTotal: number;
+  totalCost: number;
+  currency: string;
+  budgetCurrency: string;
+  exchangeRate: number;
+  /** Total cost in the budget currency */
+  budgetAmount: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizeCurrency(value: any, fallback = DEFAULT_CURRENCY): string {
+  return typeof value === 'string' && /^[A-Za-z]{3}$/.test(value) ? value.toUpperCase() : fallback;
+}
+
+/**
+ * Validate fringe components from a request body
+ */
+export function validateFringeComponents(components: any): FringeComponent[] {
+  if (!Array.isArray(components) || components.length === 0) {
+    throw new Error('A fringe table needs at least one component');
+  }
+
+  return components.map((component: any, index: number) => {
+    if (!component || typeof component.name !== 'string' || !component.name.trim()) {
+      throw new Error(`Fringe component ${index + 1} requires a name`);
+    }
+    if (!['percentage', 'per_hour', 'flat'].includes(component.type)) {
+      throw new Error(`Fringe component "${component.name}" has an invalid type`);
+    }
+    const rate = Number(component.rate);
+    if (!(rate >= 0)) {
+      throw new Error(`Fringe component "${component.name}" needs a non-negative rate`);
+    }
+
+    const normalized: FringeComponent = { name: component.name.trim(), type: component.type, rate };
+    if (component.appliesTo === 'straight_time') normalized.appliesTo = 'straight_time';
+    return normalized;
+  });
+}
+
+/**
+ * Fringe amounts for one timecard
+ */
+export function calculateFringes(
+  grossPay: number,
+  hours: number,
+  components: FringeComponent[],
+  straightTimePay: number = grossPay
+): LaborCostBreakdown['fringeBreakdown'] {
+  return components.map(component => {
+    let amount = 0;
+    if (component.type === 'percentage') {
+      const base = component.appliesTo === 'straight_time' ? straightTimePay : grossPay;
+      amount = base * (component.rate / 100);
+    } else if (component.type === 'per_hour') {
+      amount = hours * component.rate;
+    } else {
+      amount = component.rate;
+    }
+    return { name: component.name, type: component.type, amount: round2(amount) };
+  });
+}
+
+/**
+ * Most recent rate on or before `asOf` converting `from` into `to`.
+ * Uses a direct rate, the inverse of a stored rate, or a cross rate through the default currency.
+ */
+export function findExchangeRate(
+  rates: ExchangeRateRecord[],
+  from: string,
+  to: string,
+  asOf: Date
+): number | null {
+  if (from === to) return 1;
+
+  const latest = (base: string, quote: string): number | null => {
+    const candidates = rates
+      .filter(rate => rate.effectiveDate <= asOf && rate.rate > 0)
+      .filter(rate =>
+        (rate.baseCurrency === base && rate.quoteCurrency === quote) ||
+        (rate.baseCurrency === quote && rate.quoteCurrency === base)
+      )
+      .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+
+    const match = candidates[0];
+    if (!match) return null;
+    return match.baseCurrency === base ? match.rate : 1 / match.rate;
+  };
+
+  const direct = latest(from, to);
+  if (direct !== null) return direct;
+
+  if (from !== DEFAULT_CURRENCY && to !== DEFAULT_CURRENCY) {
+    const toDefault = latest(from, DEFAULT_CURRENCY);
+    const fromDefault = latest(DEFAULT_CURRENCY, to);
+    if (toDefault !== null && fromDefault !== null) {
+      return toDefault * fromDefault;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gross pay + fringes, converted into the budget currency
+ */
+export function calculateLaborCost(input: LaborCostInput): LaborCostBreakdown {
+  const fringeBreakdown = calculateFringes(input.grossPay, input.hours, input.fringes, input.straightTimePay ?? input.grossPay);
+  const fringeTotal = round2(fringeBreakdown.reduce((sum, fringe) => sum + fringe.amount, 0));
+  const totalCost = round2(input.grossPay + fringeTotal);
+
+  return {
+    grossPay: round2(input.grossPay),
+    fringeBreakdown,
+    fringeTotal,
+    totalCost,
+    currency: input.currency,
+    budgetCurrency: input.budgetCurrency,
+    exchangeRate: input.exchangeRate,
+    budgetAmount: round2(totalCost * input.exchangeRate)
+  };
+}
+
+/**
+ * The cost a timecard was synced at for one budget (`budgetSyncedCosts`, keyed by budgetId).
+ * Timecards synced before the map existed only carry `budgetSyncedCost`, which belongs to
+ * `budgetSyncedTo`. Budgets the timecard was never synced to fall back to its gross pay.
+ */
+export function getSyncedBudgetCost(timecard: any, budgetId: string): number {
+  const synced = timecard?.budgetSyncedCosts?.[budgetId];
+  if (typeof synced === 'number') {
+    return synced;
+  }
+  if (typeof timecard?.budgetSyncedCost === 'number' && timecard.budgetSyncedTo === budgetId) {
+    return timecard.budgetSyncedCost;
+  }
+  return timecard?.totalPay || timecard?.stats?.totalPay || 0;
+}
@@ -0,0 +1,135 @@
+/**
+ * Labor Cost Service
+ * 
+ * Resolves fringe rate tables (`fringe_rate_tables`) and exchange rates
+ * (`exchange_rates`) and prices a timecard in its budget's currency
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  calculateLaborCost,
+  ExchangeRateRecord,
+  findExchangeRate,
+  FringeComponent,
+  LaborCostBreakdown,
+  normalizeCurrency
+} from './laborCost';
+
+const db = getFirestore();
+
+/**
+ * Exchange rates shared by all organizations are stored with this organizationId
+ */
+export const GLOBAL_EXCHANGE_RATE_SCOPE = 'global';
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Fringe table in effect for a union (falls back to the organization-wide table)
+ */
+export async function resolveFringeTable(
+  organizationId: string,
+  unionId: string | null,
+  asOf: Date
+): Promise<{ id: string; name: string; components: FringeComponent[] } | null> {
+  const tablesSnapshot = await db.collection('fringe_rate_tables')
+    .where('organizationId', '==', organizationId)
+    .where('isActive', '==', true)
+    .get();
+
+  const effective = tablesSnapshot.docs.filter(doc => {
+    const data = doc.data();
+    const effectiveDate = toDate(data.effectiveDate);
+    const expirationDate = toDate(data.expirationDate);
+    return (!effectiveDate || effectiveDate <= asOf) && (!expirationDate || expirationDate >= asOf);
+  });
+
+  const table = (unionId && effective.find(doc => doc.data().unionId === unionId)) ||
+    effective.find(doc => !doc.data().unionId);
+
+  if (!table) {
+    return null;
+  }
+
+  return { id: table.id, name: table.data().name || '', components: table.data().components || [] };
+}
+
+async function loadExchangeRates(scope: string): Promise<ExchangeRateRecord[]> {
+  const ratesSnapshot = await db.collection('exchange_rates')
+    .where('organizationId', '==', scope)
+    .get();
+
+  return ratesSnapshot.docs
+    .map(doc => doc.data())
+    .map(data => ({
+      baseCurrency: normalizeCurrency(data.baseCurrency),
+      quoteCurrency: normalizeCurrency(data.quoteCurrency),
+      rate: Number(data.rate) || 0,
+      effectiveDate: toDate(data.effectiveDate)
+    }))
+    .filter((rate): rate is ExchangeRateRecord => !!rate.effectiveDate);
+}
+
+/**
+ * Conversion rate from one currency to another (organization rates win over global ones)
+ */
+export async function resolveExchangeRate(organizationId: string, from: string, to: string, asOf: Date): Promise<number> {
+  if (from === to) {
+    return 1;
+  }
+
+  const orgRate = findExchangeRate(await loadExchangeRates(organizationId), from, to, asOf);
+  if (orgRate !== null) {
+    return orgRate;
+  }
+
+  const globalRate = findExchangeRate(await loadExchangeRates(GLOBAL_EXCHANGE_RATE_SCOPE), from, to, asOf);
+  if (globalRate !== null) {
+    return globalRate;
+  }
+
+  throw new Error(`No exchange rate from ${from} to ${to} on or before ${asOf.toISOString().split('T')[0]}`);
+}
+
+/**
+ * True cost of an approved timecard in the budget's currency
+ */
+export async function calculateTimecardBudgetCost(timecard: any, budget: any): Promise<LaborCostBreakdown & { fringeTableId: string | null }> {
+  const asOf = toDate(timecard.approvedAt) || new Date();
+  const teamMemberDoc = timecard.userId ? await db.collection('teamMembers').doc(timecard.userId).get() : null;
+  const teamMember = teamMemberDoc?.data();
+
+  const orgDoc = await db.collection('organizations').doc(timecard.organizationId).get();
+  const orgCurrency = normalizeCurrency(orgDoc.data()?.settings?.currency);
+
+  const currency = normalizeCurrency(timecard.currency || teamMember?.rates?.currency, orgCurrency);
+  const budgetCurrency = normalizeCurrency(budget?.currency, orgCurrency);
+  const unionId = teamMember?.unionId || teamMember?.primaryUnionAffiliation || null;
+
+  const grossPay = timecard.totalPay || timecard.stats?.totalPay || 0;
+  const hours = timecard.totalHours || timecard.stats?.totalHours || 0;
+  const regularHours = timecard.regularHours ?? timecard.stats?.totalRegularHours;
+  const straightTimePay = regularHours !== undefined && timecard.hourlyRate
+    ? regularHours * timecard.hourlyRate
+    : grossPay;
+
+  const fringeTable = await resolveFringeTable(timecard.organizationId, unionId, asOf);
+  const exchangeRate = await resolveExchangeRate(timecard.organizationId, currency, budgetCurrency, asOf);
+
+  return {
+    ...calculateLaborCost({
+      grossPay,
+      straightTimePay,
+      hours,
+      fringes: fringeTable?.components || [],
+      currency,
+      budgetCurrency,
+      exchangeRate
+    }),
+    fringeTableId: fringeTable?.id || null
+  };
+}
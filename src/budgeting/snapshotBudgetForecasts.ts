@@ -0,0 +1,44 @@
+/**
+ * Snapshot Budget Forecasts
+ * 
+ * Scheduled function that stores a daily forecast snapshot for every open budget,
+ * so the production office can see EAC and burn rate trends over time
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore } from 'firebase-admin/firestore';
+import { calculateBudgetForecast, saveBudgetForecastSnapshot } from './budgetForecastService';
+
+const db = getFirestore();
+
+export const snapshotBudgetForecasts = onSchedule(
+  {
+    schedule: 'every day 02:00',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    memory: '512MiB',
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const asOf = new Date();
+    let saved = 0;
+
+    const budgetsSnapshot = await db.collection('production_budgets')
+      .where('status', 'in', ['draft', 'approved', 'active'])
+      .get();
+
+    console.log(`📈 [BUDGET FORECAST] Snapshotting ${budgetsSnapshot.size} budget(s)`);
+
+    for (const budgetDoc of budgetsSnapshot.docs) {
+      try {
+        const { budget, forecast } = await calculateBudgetForecast(budgetDoc.id, asOf);
+        await saveBudgetForecastSnapshot(budget, forecast);
+        saved++;
+      } catch (error: any) {
+        console.error(`❌ [BUDGET FORECAST] Error snapshotting budget ${budgetDoc.id}:`, error);
+      }
+    }
+
+    console.log(`✅ [BUDGET FORECAST] Saved ${saved} forecast snapshot(s)`);
+  }
+);
@@ -0,0 +1,67 @@
+/**
+ * Call Sheet Revisions Tests
+ *
+ * Tests for structured call sheet diffs and the crew acknowledgement report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildAcknowledgementReport, diffCallSheets, summarizeCallSheetDiff } from '../callSheetRevisions';
+
+const base = {
+  callTime: '07:00',
+  generalCrewCall: '07:00',
+  location: 'Stage 4',
+  schedule: [{ id: 's1', sceneNumber: '12', description: 'INT. KITCHEN' }],
+  personnel: [
+    { id: 'p1', name: 'Alex', callTime: '06:30' },
+    { id: 'p2', name: 'Sam', callTime: '07:00' }
+  ]
+};
+
+describe('callSheetRevisions', () => {
+  it('reports call time, location, scene and personnel changes', () => {
+    const diff = diffCallSheets(base, {
+      ...base,
+      callTime: '08:00',
+      location: 'Stage 5',
+      schedule: [...base.schedule, { id: 's2', sceneNumber: '14' }],
+      personnel: [{ id: 'p1', name: 'Alex', callTime: '07:30' }, { id: 'p3', name: 'Jo' }]
+    });
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.callTimes).toEqual([{ field: 'callTime', before: '07:00', after: '08:00' }]);
+    expect(diff.location[0]).toMatchObject({ field: 'location', after: 'Stage 5' });
+    expect(diff.scenes.added).toHaveLength(1);
+    expect(diff.personnel.changed[0]).toMatchObject({ key: 'p1', fields: ['callTime'] });
+    expect(diff.personnel.added[0].name).toBe('Jo');
+    expect(diff.personnel.removed[0].name).toBe('Sam');
+    expect(summarizeCallSheetDiff(diff)).toContain('callTime 07:00 → 08:00');
+  });
+
+  it('treats empty values and equivalent timestamps as unchanged', () => {
+    const at = new Date('2026-03-02T08:00:00.000Z');
+    const diff = diffCallSheets(
+      { ...base, notes: '', date: { toDate: () => at } },
+      { ...base, notes: undefined, date: at }
+    );
+
+    expect(diff.hasChanges).toBe(false);
+    expect(summarizeCallSheetDiff(diff)).toBe('No tracked changes');
+  });
+
+  it('builds per-person acknowledgement status against the current revision', () => {
+    const report = buildAcknowledgementReport(
+      [{ id: 'p1', name: 'Alex' }, { id: 'p2', name: 'Sam' }, { id: 'p3', name: 'Jo' }],
+      [
+        { teamMemberId: 'p1', acknowledgedRevision: 3 },
+        { teamMemberId: 'p2', acknowledgedRevision: 2 },
+        { teamMemberId: 'p9', acknowledgedRevision: 3, name: 'Visitor' }
+      ],
+      3
+    );
+
+    expect(report.rows.map(row => row.status)).toEqual(['acknowledged', 'outdated', 'pending', 'acknowledged']);
+    expect(report.rows[3].assigned).toBe(false);
+    expect(report.summary).toEqual({ acknowledged: 2, outdated: 1, pending: 1, total: 4 });
+  });
+});
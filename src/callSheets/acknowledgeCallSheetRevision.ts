@@ -0,0 +1,90 @@
+/**
+ * Acknowledge Call Sheet Revision Function
+ *
+ * Lets a crew member confirm they have seen a revision of a published call sheet.
+ * Uses the same credentials as authenticateTeamMember (email, password, access code), but
+ * an email alone is not enough: the password must match the one stored on the team member,
+ * or the caller must be signed in as that member. Only crew on the sheet can acknowledge.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { verifyTeamMemberCredentials } from './authenticateTeamMember';
+import { isAssignedToCallSheet } from '../slack/slashCommands';
+
+const db = getFirestore();
+
+export const acknowledgeCallSheetRevision = onCall(
+  {
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 30,
+    invoker: 'public',  // Crew are not Firebase Auth users; credentials are verified below
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { email, password, accessCode, revision } = request.data;
+
+      const { teamMember, publishedCallSheetDoc, passwordVerified } = await verifyTeamMemberCredentials(email, password, accessCode);
+      const publishedCallSheetData = publishedCallSheetDoc.data();
+
+      // Members without a stored password are only "verified" by email, so they must be signed in as themselves
+      const authEmail = request.auth?.token?.email;
+      const signedInAsMember = !!authEmail && authEmail.toLowerCase() === teamMember.email?.toLowerCase();
+      if (!passwordVerified && !signedInAsMember) {
+        throw new Error('Sign in or use your call sheet password to acknowledge this call sheet');
+      }
+
+      if (!isAssignedToCallSheet(publishedCallSheetData, { id: teamMember.id, email: teamMember.email })) {
+        throw new Error('You are not on the crew list for this call sheet');
+      }
+      const currentRevision = publishedCallSheetData.currentRevision || 1;
+
+      const acknowledgedRevision = revision === undefined || revision === null ? currentRevision : Number(revision);
+      if (!Number.isInteger(acknowledgedRevision) || acknowledgedRevision < 1 || acknowledgedRevision > currentRevision) {
+        throw new Error(`Revision must be between 1 and ${currentRevision}`);
+      }
+
+      const ackRef = publishedCallSheetDoc.ref.collection('acknowledgements').doc(teamMember.id);
+      const now = Timestamp.now();
+
+      await db.runTransaction(async (transaction) => {
+        const ackDoc = await transaction.get(ackRef);
+        const existing = ackDoc.data();
+        const historyEntry = { revision: acknowledgedRevision, acknowledgedAt: now };
+
+        // Acknowledging an older revision never moves the status backwards
+        if (existing && (existing.acknowledgedRevision || 0) >= acknowledgedRevision) {
+          transaction.update(ackRef, { history: FieldValue.arrayUnion(historyEntry) });
+          return;
+        }
+
+        transaction.set(ackRef, {
+          teamMemberId: teamMember.id,
+          email: teamMember.email,
+          name: teamMember.name || null,
+          organizationId: publishedCallSheetData.organizationId,
+          acknowledgedRevision,
+          acknowledgedAt: now,
+          history: FieldValue.arrayUnion(historyEntry)
+        }, { merge: true });
+      });
+
+      console.log(`✅ [ACKNOWLEDGE CALL SHEET] ${teamMember.email} acknowledged revision ${acknowledgedRevision} of ${publishedCallSheetDoc.id}`);
+
+      return createSuccessResponse({
+        publishedCallSheetId: publishedCallSheetDoc.id,
+        teamMemberId: teamMember.id,
+        acknowledgedRevision,
+        currentRevision,
+        isCurrent: acknowledgedRevision >= currentRevision
+      }, 'Call sheet revision acknowledged');
+
+    } catch (error: any) {
+      console.error('❌ [ACKNOWLEDGE CALL SHEET] Error:', error);
+      return handleError(error, 'acknowledgeCallSheetRevision');
+    }
+  }
+);
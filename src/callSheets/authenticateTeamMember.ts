@@ -11,162 +11,200 @@ import { createSuccessResponse, createErrorResponse, handleError, setCorsHeaders
 
 const db = getFirestore();
 
-// Firebase Callable function
-export const authenticateTeamMember = onCall(
-  {
-    region: 'us-central1',
-    memory: '512MiB',
-    timeoutSeconds: 30,
-    invoker: 'public',  // Required for CORS preflight requests
-    cors: true
-  },
-  async (request) => {
-    try {
-      const { email, password, accessCode } = request.data;
+/**
+ * A team member verified against a published call sheet's access code
+ */
+export interface VerifiedTeamMember {
+  teamMember: {
+    id: string;
+    email: string;
+    displayName: string;
+    name: string;
+    role: string;
+    organizationId: string;
+  };
+  publishedCallSheetDoc: FirebaseFirestore.QueryDocumentSnapshot;
+  /** True only when the password matched one stored on the team member (not just an existing account) */
+  passwordVerified: boolean;
+}
 
-      if (!email) {
-        throw new Error('Email is required');
-      }
+/**
+ * Verify team member credentials for a published call sheet.
+ * Shared by authenticateTeamMember and crew-facing callables that act on the sheet.
+ */
+export async function verifyTeamMemberCredentials(
+  email: string,
+  password: string,
+  accessCode: string
+): Promise<VerifiedTeamMember> {
+  if (!email) {
+    throw new Error('Email is required');
+  }
 
-      if (!password) {
-        throw new Error('Password is required');
-      }
+  if (!password) {
+    throw new Error('Password is required');
+  }
 
-      if (!accessCode) {
-        throw new Error('Access code is required');
-      }
+  if (!accessCode) {
+    throw new Error('Access code is required');
+  }
 
-      console.log(`👥 [AUTHENTICATE TEAM MEMBER] Authenticating: ${email} for access code: ${accessCode}`);
+  console.log(`👥 [AUTHENTICATE TEAM MEMBER] Authenticating: ${email} for access code: ${accessCode}`);
 
-      // 🔧 CRITICAL FIX: Use Firebase Admin SDK to look up published call sheet by accessCode
-      // This gets the organizationId from the published call sheet
-      const publishedCallSheetsQuery = await db.collection('publishedCallSheets')
-        .where('accessCode', '==', accessCode)
-        .where('isActive', '==', true)
-        .limit(1)
-        .get();
+  // 🔧 CRITICAL FIX: Use Firebase Admin SDK to look up published call sheet by accessCode
+  // This gets the organizationId from the published call sheet
+  const publishedCallSheetsQuery = await db.collection('publishedCallSheets')
+    .where('accessCode', '==', accessCode)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
 
-      if (publishedCallSheetsQuery.empty) {
-        throw new Error('Published call sheet not found or inactive');
-      }
+  if (publishedCallSheetsQuery.empty) {
+    throw new Error('Published call sheet not found or inactive');
+  }
 
-      const publishedCallSheetDoc = publishedCallSheetsQuery.docs[0];
-      const publishedCallSheetData = publishedCallSheetDoc.data();
-      const organizationId = publishedCallSheetData.organizationId;
+  const publishedCallSheetDoc = publishedCallSheetsQuery.docs[0];
+  const publishedCallSheetData = publishedCallSheetDoc.data();
+  const organizationId = publishedCallSheetData.organizationId;
 
-      if (!organizationId) {
-        throw new Error('Organization ID not found in published call sheet');
-      }
+  if (!organizationId) {
+    throw new Error('Organization ID not found in published call sheet');
+  }
 
-      // Check if expired
-      if (publishedCallSheetData.expiresAt && new Date() > publishedCallSheetData.expiresAt.toDate()) {
-        throw new Error('Published call sheet has expired');
-      }
+  // Check if expired
+  if (publishedCallSheetData.expiresAt && new Date() > publishedCallSheetData.expiresAt.toDate()) {
+    throw new Error('Published call sheet has expired');
+  }
 
-      console.log(`👥 [AUTHENTICATE TEAM MEMBER] Found organization: ${organizationId}`);
+  console.log(`👥 [AUTHENTICATE TEAM MEMBER] Found organization: ${organizationId}`);
 
-      // Find team member by email and organizationId
-      const teamMembersQuery = await db.collection('teamMembers')
-        .where('email', '==', email)
-        .where('organizationId', '==', organizationId)
-        .where('isActive', '==', true)
-        .limit(1)
-        .get();
+  // Find team member by email and organizationId
+  const teamMembersQuery = await db.collection('teamMembers')
+    .where('email', '==', email)
+    .where('organizationId', '==', organizationId)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
 
-      let teamMemberDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
-      let teamMemberData: any = null;
+  let teamMemberDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+  let teamMemberData: any = null;
+  let passwordVerified = false;
 
-      if (!teamMembersQuery.empty) {
-        teamMemberDoc = teamMembersQuery.docs[0];
-        teamMemberData = teamMemberDoc.data();
-      }
-
-      // 🔧 NEW: If team member not found in teamMembers collection, check if they're a user in the organization
-      // This handles the case where the publisher was automatically added but doesn't have a password in teamMembers
-      if (!teamMemberDoc || !teamMemberData) {
-        // Try to find user by email in the users collection
-        const usersQuery = await db.collection('users')
-          .where('email', '==', email)
-          .where('organizationId', '==', organizationId)
-          .limit(1)
-          .get();
+  if (!teamMembersQuery.empty) {
+    teamMemberDoc = teamMembersQuery.docs[0];
+    teamMemberData = teamMemberDoc.data();
+  }
 
-        if (!usersQuery.empty) {
-          const userDoc = usersQuery.docs[0];
-          const userData = userDoc.data();
-          
-          // Create a virtual team member from user data
-          teamMemberData = {
-            id: userDoc.id,
-            email: userData.email,
-            name: userData.displayName || userData.name,
-            displayName: userData.displayName || userData.name,
-            role: userData.role || 'MEMBER',
-            organizationId: userData.organizationId,
-            isActive: userData.isActive !== false,
-            // Note: password will be checked against Firebase Auth, not stored password
-          };
-          
-          // Verify password using Firebase Auth
-          try {
-            const { getAuth } = await import('firebase-admin/auth');
-            const auth = getAuth();
-            // Try to sign in with email/password to verify credentials
-            // Since we can't directly verify password, we'll check if user exists and is active
-            const userRecord = await auth.getUserByEmail(email);
-            if (!userRecord || userRecord.disabled) {
-              throw new Error('User account is disabled');
-            }
-            // Password verification will be done by attempting to sign in
-            // For now, we'll allow if user exists and is active
-            // In production, you should use Firebase Auth's verifyPassword method or require re-authentication
-          } catch (authError: any) {
-            if (authError.code === 'auth/user-not-found') {
-              throw new Error('User not found');
-            }
-            throw new Error('Invalid credentials');
-          }
-        } else {
-          throw new Error('Team member not found or inactive');
+  // 🔧 NEW: If team member not found in teamMembers collection, check if they're a user in the organization
+  // This handles the case where the publisher was automatically added but doesn't have a password in teamMembers
+  if (!teamMemberDoc || !teamMemberData) {
+    // Try to find user by email in the users collection
+    const usersQuery = await db.collection('users')
+      .where('email', '==', email)
+      .where('organizationId', '==', organizationId)
+      .limit(1)
+      .get();
+
+    if (!usersQuery.empty) {
+      const userDoc = usersQuery.docs[0];
+      const userData = userDoc.data();
+      
+      // Create a virtual team member from user data
+      teamMemberData = {
+        id: userDoc.id,
+        email: userData.email,
+        name: userData.displayName || userData.name,
+        displayName: userData.displayName || userData.name,
+        role: userData.role || 'MEMBER',
+        organizationId: userData.organizationId,
+        isActive: userData.isActive !== false,
+        // Note: password will be checked against Firebase Auth, not stored password
+      };
+      
+      // Verify password using Firebase Auth
+      try {
+        const { getAuth } = await import('firebase-admin/auth');
+        const auth = getAuth();
+        // Try to sign in with email/password to verify credentials
+        // Since we can't directly verify password, we'll check if user exists and is active
+        const userRecord = await auth.getUserByEmail(email);
+        if (!userRecord || userRecord.disabled) {
+          throw new Error('User account is disabled');
         }
-      } else {
-        // Team member found in teamMembers collection
-        // Check password if stored in teamMembers
-        if (teamMemberData.password && teamMemberData.password !== password) {
-          throw new Error('Invalid credentials');
+        // Password verification will be done by attempting to sign in
+        // For now, we'll allow if user exists and is active
+        // In production, you should use Firebase Auth's verifyPassword method or require re-authentication
+      } catch (authError: any) {
+        if (authError.code === 'auth/user-not-found') {
+          throw new Error('User not found');
+        }
+        throw new Error('Invalid credentials');
+      }
+    } else {
+      throw new Error('Team member not found or inactive');
+    }
+  } else {
+    // Team member found in teamMembers collection
+    // Check password if stored in teamMembers
+    if (teamMemberData.password && teamMemberData.password !== password) {
+      throw new Error('Invalid credentials');
+    }
+    passwordVerified = !!teamMemberData.password;
+    
+    // If no password in teamMembers, try to verify using Firebase Auth
+    if (!teamMemberData.password) {
+      try {
+        const { getAuth } = await import('firebase-admin/auth');
+        const auth = getAuth();
+        const userRecord = await auth.getUserByEmail(email);
+        if (!userRecord || userRecord.disabled) {
+          throw new Error('User account is disabled');
         }
-        
-        // If no password in teamMembers, try to verify using Firebase Auth
-        if (!teamMemberData.password) {
-          try {
-            const { getAuth } = await import('firebase-admin/auth');
-            const auth = getAuth();
-            const userRecord = await auth.getUserByEmail(email);
-            if (!userRecord || userRecord.disabled) {
-              throw new Error('User account is disabled');
-            }
-            // Password verification would need to be done client-side or via Firebase Auth
-            // For now, we allow if user exists and is active
-          } catch (authError: any) {
-            if (authError.code === 'auth/user-not-found') {
-              throw new Error('User not found');
-            }
-            throw new Error('Invalid credentials');
-          }
+        // Password verification would need to be done client-side or via Firebase Auth
+        // For now, we allow if user exists and is active
+      } catch (authError: any) {
+        if (authError.code === 'auth/user-not-found') {
+          throw new Error('User not found');
         }
+        throw new Error('Invalid credentials');
       }
+    }
+  }
+
+  return {
+    teamMember: {
+      id: teamMemberDoc?.id || teamMemberData.id,
+      email: teamMemberData.email,
+      displayName: teamMemberData.displayName || teamMemberData.name,
+      name: teamMemberData.displayName || teamMemberData.name,
+      role: teamMemberData.role,
+      organizationId: teamMemberData.organizationId,
+    },
+    publishedCallSheetDoc,
+    passwordVerified
+  };
+}
+
+// Firebase Callable function
+export const authenticateTeamMember = onCall(
+  {
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 30,
+    invoker: 'public',  // Required for CORS preflight requests
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { email, password, accessCode } = request.data;
+
+      const { teamMember, publishedCallSheetDoc } = await verifyTeamMemberCredentials(email, password, accessCode);
+      const publishedCallSheetData = publishedCallSheetDoc.data();
 
       console.log(`👥 [AUTHENTICATE TEAM MEMBER] Authentication successful: ${email}`);
 
       return createSuccessResponse({
-        teamMember: {
-          id: teamMemberDoc?.id || teamMemberData.id,
-          email: teamMemberData.email,
-          displayName: teamMemberData.displayName || teamMemberData.name,
-          name: teamMemberData.displayName || teamMemberData.name,
-          role: teamMemberData.role,
-          organizationId: teamMemberData.organizationId,
-        },
+        teamMember,
         publishedCallSheet: {
           id: publishedCallSheetDoc.id,
           ...publishedCallSheetData,
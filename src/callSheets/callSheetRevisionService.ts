@@ -0,0 +1,88 @@
+/**
+ * Call Sheet Revision Service
+ *
+ * Writes numbered revisions for published call sheets. Callers compute the next
+ * revision number from the previous published copy and include `currentRevision`
+ * in their own write, so the parent document and its revision stay in step.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  CallSheetDiff,
+  CallSheetRevisionSource,
+  diffCallSheets,
+  pickRevisionSnapshot,
+  summarizeCallSheetDiff
+} from './callSheetRevisions';
+
+const db = getFirestore();
+
+export interface PreparedCallSheetRevision {
+  revision: number;
+  diff: CallSheetDiff;
+  summary: string;
+  ref: FirebaseFirestore.DocumentReference;
+  data: Record<string, any>;
+}
+
+/**
+ * Build the next revision for a published call sheet.
+ * Returns null when a sync carries no tracked changes (nothing for crew to acknowledge).
+ */
+export function prepareCallSheetRevision(
+  publishedCallSheetId: string,
+  previous: any | null,
+  next: any,
+  context: { source: CallSheetRevisionSource; changedBy: string }
+): PreparedCallSheetRevision | null {
+  const diff = diffCallSheets(previous, next);
+  if (context.source === 'sync' && !diff.hasChanges) {
+    return null;
+  }
+
+  const revision = (previous?.currentRevision || 0) + 1;
+  const summary = summarizeCallSheetDiff(diff);
+
+  return {
+    revision,
+    diff,
+    summary,
+    ref: db.collection('publishedCallSheets').doc(publishedCallSheetId)
+      .collection('revisions').doc(String(revision)),
+    data: {
+      revision,
+      publishedCallSheetId,
+      organizationId: next?.organizationId || previous?.organizationId || null,
+      source: context.source,
+      changedBy: context.changedBy,
+      summary,
+      diff,
+      snapshot: pickRevisionSnapshot(next),
+      createdAt: Timestamp.now()
+    }
+  };
+}
+
+/**
+ * Revisions of a published call sheet, newest first
+ */
+export async function getCallSheetRevisionDocs(publishedCallSheetId: string, limit = 50) {
+  const snapshot = await db.collection('publishedCallSheets').doc(publishedCallSheetId)
+    .collection('revisions')
+    .orderBy('revision', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+}
+
+/**
+ * All acknowledgements recorded for a published call sheet
+ */
+export async function getCallSheetAcknowledgementDocs(publishedCallSheetId: string) {
+  const snapshot = await db.collection('publishedCallSheets').doc(publishedCallSheetId)
+    .collection('acknowledgements')
+    .get();
+
+  return snapshot.docs.map(doc => ({ teamMemberId: doc.id, ...doc.data() }));
+}
@@ -0,0 +1,265 @@
+/**
+ * Call Sheet Revisions
+ *
+ * Published call sheets keep numbered revisions under `publishedCallSheets/{id}/revisions`.
+ * Each revision stores a structured diff against the previous published copy so crew and
+ * producers can see exactly what moved (call times, locations, scenes, personnel).
+ * Crew acknowledgements live under `publishedCallSheets/{id}/acknowledgements/{teamMemberId}`.
+ */
+
+export type CallSheetRevisionSource = 'publish' | 'republish' | 'sync';
+
+export interface CallSheetFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface CallSheetItemChange {
+  key: string;
+  label: string;
+  fields: string[];
+  before: any;
+  after: any;
+}
+
+export interface CallSheetListDiff {
+  added: any[];
+  removed: any[];
+  changed: CallSheetItemChange[];
+}
+
+export interface CallSheetDiff {
+  callTimes: CallSheetFieldChange[];
+  location: CallSheetFieldChange[];
+  locations: CallSheetListDiff;
+  scenes: CallSheetListDiff;
+  personnel: CallSheetListDiff;
+  details: CallSheetFieldChange[];
+  hasChanges: boolean;
+}
+
+export type AcknowledgementStatus = 'acknowledged' | 'outdated' | 'pending';
+
+export interface AcknowledgementReportRow {
+  teamMemberId: string;
+  email: string | null;
+  name: string | null;
+  role: string | null;
+  assigned: boolean;
+  status: AcknowledgementStatus;
+  acknowledgedRevision: number | null;
+  acknowledgedAt: any;
+}
+
+export const CALL_TIME_FIELDS = ['callTime', 'generalCrewCall', 'wrapTime'];
+export const LOCATION_FIELDS = ['location', 'hospitalName', 'hospitalAddress'];
+export const DETAIL_FIELDS = ['date', 'title', 'shootDay', 'notes', 'weather', 'sunrise', 'sunset'];
+
+const LIST_FIELDS = ['personnel', 'locations', 'schedule'];
+
+/**
+ * Normalize a value for comparison: Timestamps become ISO strings, empty values become null
+ */
+function normalizeValue(value: any): any {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value?.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === 'object') {
+    const normalized: Record<string, any> = {};
+    Object.keys(value).sort().forEach(key => {
+      const entry = normalizeValue(value[key]);
+      if (entry !== null) normalized[key] = entry;
+    });
+    return normalized;
+  }
+  return value;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+function diffFields(before: any, after: any, fields: string[]): CallSheetFieldChange[] {
+  return fields
+    .filter(field => !valuesEqual(before?.[field], after?.[field]))
+    .map(field => ({
+      field,
+      before: normalizeValue(before?.[field]),
+      after: normalizeValue(after?.[field])
+    }));
+}
+
+function personnelKey(person: any, index: number): string {
+  return String(person?.id || person?.teamMemberId || person?.email || person?.name || `#${index}`);
+}
+
+function sceneKey(scene: any, index: number): string {
+  return String(scene?.id || scene?.sceneNumber || scene?.scene || `#${index}`);
+}
+
+function locationKey(location: any, index: number): string {
+  return String(location?.id || location?.name || location?.address || `#${index}`);
+}
+
+function itemLabel(item: any, key: string): string {
+  return item?.name || item?.displayName || item?.sceneNumber || item?.scene ||
+    item?.description || item?.title || item?.address || key;
+}
+
+/**
+ * Diff two arrays of items matched by key; changed items list the fields that differ
+ */
+export function diffCallSheetList(
+  before: any[] | undefined,
+  after: any[] | undefined,
+  keyOf: (item: any, index: number) => string
+): CallSheetListDiff {
+  const beforeItems = new Map<string, any>();
+  (Array.isArray(before) ? before : []).forEach((item, index) => beforeItems.set(keyOf(item, index), item));
+  const afterItems = new Map<string, any>();
+  (Array.isArray(after) ? after : []).forEach((item, index) => afterItems.set(keyOf(item, index), item));
+
+  const diff: CallSheetListDiff = { added: [], removed: [], changed: [] };
+
+  afterItems.forEach((item, key) => {
+    const previous = beforeItems.get(key);
+    if (previous === undefined) {
+      diff.added.push(normalizeValue(item));
+      return;
+    }
+
+    const fields = Array.from(new Set([...Object.keys(previous || {}), ...Object.keys(item || {})]))
+      .filter(field => !valuesEqual(previous?.[field], item?.[field]))
+      .sort();
+    if (fields.length > 0) {
+      diff.changed.push({
+        key,
+        label: itemLabel(item, key),
+        fields,
+        before: normalizeValue(previous),
+        after: normalizeValue(item)
+      });
+    }
+  });
+
+  beforeItems.forEach((item, key) => {
+    if (!afterItems.has(key)) {
+      diff.removed.push(normalizeValue(item));
+    }
+  });
+
+  return diff;
+}
+
+function listHasChanges(diff: CallSheetListDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+/**
+ * Structured diff between two published call sheet copies.
+ * `before` is null for the first revision; everything then counts as added.
+ */
+export function diffCallSheets(before: any | null, after: any): CallSheetDiff {
+  const previous = before || {};
+  const diff = {
+    callTimes: diffFields(previous, after, CALL_TIME_FIELDS),
+    location: diffFields(previous, after, LOCATION_FIELDS),
+    locations: diffCallSheetList(previous.locations, after?.locations, locationKey),
+    scenes: diffCallSheetList(previous.schedule, after?.schedule, sceneKey),
+    personnel: diffCallSheetList(previous.personnel, after?.personnel, personnelKey),
+    details: diffFields(previous, after, DETAIL_FIELDS)
+  };
+
+  return {
+    ...diff,
+    hasChanges: diff.callTimes.length > 0 ||
+      diff.location.length > 0 ||
+      diff.details.length > 0 ||
+      listHasChanges(diff.locations) ||
+      listHasChanges(diff.scenes) ||
+      listHasChanges(diff.personnel)
+  };
+}
+
+/**
+ * One-line human summary of a diff, used in update history and notifications
+ */
+export function summarizeCallSheetDiff(diff: CallSheetDiff): string {
+  const parts: string[] = [];
+
+  diff.callTimes.forEach(change => {
+    parts.push(`${change.field} ${change.before || 'unset'} → ${change.after || 'unset'}`);
+  });
+  if (diff.location.some(change => change.field === 'location')) parts.push('location changed');
+  if (listHasChanges(diff.locations)) parts.push('locations updated');
+
+  const countParts = (label: string, list: CallSheetListDiff) => {
+    if (list.added.length) parts.push(`${list.added.length} ${label} added`);
+    if (list.removed.length) parts.push(`${list.removed.length} ${label} removed`);
+    if (list.changed.length) parts.push(`${list.changed.length} ${label} changed`);
+  };
+  countParts('scene(s)', diff.scenes);
+  countParts('crew', diff.personnel);
+
+  if (diff.details.length) parts.push(`${diff.details.map(change => change.field).join(', ')} updated`);
+
+  return parts.length > 0 ? parts.join('; ') : 'No tracked changes';
+}
+
+/**
+ * Fields kept on each revision so it can be viewed without the live document
+ */
+export function pickRevisionSnapshot(callSheet: any): Record<string, any> {
+  const snapshot: Record<string, any> = {};
+  [...CALL_TIME_FIELDS, ...LOCATION_FIELDS, ...DETAIL_FIELDS].forEach(field => {
+    snapshot[field] = callSheet?.[field] ?? null;
+  });
+  LIST_FIELDS.forEach(field => {
+    snapshot[field] = Array.isArray(callSheet?.[field]) ? callSheet[field] : [];
+  });
+  return snapshot;
+}
+
+/**
+ * Per-person acknowledgement status against the current revision.
+ * Assigned crew without an acknowledgement are pending; anyone who acknowledged an
+ * older revision is outdated. Acknowledgements from unassigned members are kept at the end.
+ */
+export function buildAcknowledgementReport(
+  assignedTeamMembers: any[],
+  acknowledgements: any[],
+  currentRevision: number
+): { rows: AcknowledgementReportRow[]; summary: Record<AcknowledgementStatus, number> & { total: number } } {
+  const ackByMember = new Map<string, any>();
+  acknowledgements.forEach(ack => ackByMember.set(ack.teamMemberId, ack));
+
+  const toRow = (member: any, ack: any, assigned: boolean): AcknowledgementReportRow => {
+    const acknowledgedRevision = typeof ack?.acknowledgedRevision === 'number' ? ack.acknowledgedRevision : null;
+    return {
+      teamMemberId: member.id || ack?.teamMemberId,
+      email: member.email || ack?.email || null,
+      name: member.name || ack?.name || null,
+      role: member.role || null,
+      assigned,
+      status: acknowledgedRevision === null
+        ? 'pending'
+        : acknowledgedRevision >= currentRevision ? 'acknowledged' : 'outdated',
+      acknowledgedRevision,
+      acknowledgedAt: ack?.acknowledgedAt || null
+    };
+  };
+
+  const rows = (Array.isArray(assignedTeamMembers) ? assignedTeamMembers : [])
+    .map(member => toRow(member, ackByMember.get(member.id), true));
+  const assignedIds = new Set(rows.map(row => row.teamMemberId));
+  acknowledgements
+    .filter(ack => !assignedIds.has(ack.teamMemberId))
+    .forEach(ack => rows.push(toRow({}, ack, false)));
+
+  const summary = { acknowledged: 0, outdated: 0, pending: 0, total: rows.length };
+  rows.forEach(row => { summary[row.status] += 1; });
+
+  return { rows, summary };
+}
@@ -0,0 +1,68 @@
+/**
+ * Get Call Sheet Acknowledgements Function
+ *
+ * Per-person acknowledgement status of a published call sheet's current revision,
+ * for producers checking who has seen the latest changes
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../shared/utils';
+import { buildAcknowledgementReport } from './callSheetRevisions';
+import { getCallSheetAcknowledgementDocs, getCallSheetRevisionDocs } from './callSheetRevisionService';
+
+const db = getFirestore();
+
+export const getCallSheetAcknowledgements = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('Authentication required');
+      }
+
+      const { publishedCallSheetId } = request.data;
+      if (!publishedCallSheetId) {
+        throw new Error('Published call sheet ID is required');
+      }
+
+      const publishedDoc = await db.collection('publishedCallSheets').doc(publishedCallSheetId).get();
+      if (!publishedDoc.exists) {
+        throw new Error('Published call sheet not found');
+      }
+
+      const publishedData = publishedDoc.data()!;
+      const hasAccess = await validateOrganizationAccess(request.auth.uid, publishedData.organizationId);
+      if (!hasAccess) {
+        throw new Error('Access denied to organization');
+      }
+
+      const currentRevision = publishedData.currentRevision || 1;
+      const [acknowledgements, latestRevisions] = await Promise.all([
+        getCallSheetAcknowledgementDocs(publishedCallSheetId),
+        getCallSheetRevisionDocs(publishedCallSheetId, 1)
+      ]);
+
+      const report = buildAcknowledgementReport(publishedData.assignedTeamMembers || [], acknowledgements, currentRevision);
+
+      console.log(`📋 [CALL SHEET ACKNOWLEDGEMENTS] ${publishedCallSheetId} r${currentRevision}:`, report.summary);
+
+      return createSuccessResponse({
+        publishedCallSheetId,
+        currentRevision,
+        currentRevisionAt: publishedData.currentRevisionAt || null,
+        latestRevision: latestRevisions[0] || null,
+        summary: report.summary,
+        teamMembers: report.rows
+      }, 'Call sheet acknowledgements retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [CALL SHEET ACKNOWLEDGEMENTS] Error:', error);
+      return handleError(error, 'getCallSheetAcknowledgements');
+    }
+  }
+);
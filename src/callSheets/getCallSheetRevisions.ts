@@ -0,0 +1,56 @@
+/**
+ * Get Call Sheet Revisions Function
+ *
+ * Numbered revisions of a published call sheet with their structured diffs, newest first
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../shared/utils';
+import { getCallSheetRevisionDocs } from './callSheetRevisionService';
+
+const db = getFirestore();
+
+export const getCallSheetRevisions = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('Authentication required');
+      }
+
+      const { publishedCallSheetId, limit = 50 } = request.data;
+      if (!publishedCallSheetId) {
+        throw new Error('Published call sheet ID is required');
+      }
+
+      const publishedDoc = await db.collection('publishedCallSheets').doc(publishedCallSheetId).get();
+      if (!publishedDoc.exists) {
+        throw new Error('Published call sheet not found');
+      }
+
+      const publishedData = publishedDoc.data()!;
+      const hasAccess = await validateOrganizationAccess(request.auth.uid, publishedData.organizationId);
+      if (!hasAccess) {
+        throw new Error('Access denied to organization');
+      }
+
+      const revisions = await getCallSheetRevisionDocs(publishedCallSheetId, Math.min(Number(limit) || 50, 200));
+
+      return createSuccessResponse({
+        publishedCallSheetId,
+        currentRevision: publishedData.currentRevision || 1,
+        revisions,
+        count: revisions.length
+      }, 'Call sheet revisions retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [CALL SHEET REVISIONS] Error:', error);
+      return handleError(error, 'getCallSheetRevisions');
+    }
+  }
+);
@@ -8,9 +8,37 @@
 import { onCall, onRequest } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { createSuccessResponse, createErrorResponse, handleError } from '../shared/utils';
+import { normalizeWorkday } from '../timecards/workdayTimeZone';
 
 const db = getFirestore();
 
+/**
+ * The active published call sheet for an organization's workday (YYYY-MM-DD), if any.
+ * `matches` narrows the candidates, e.g. to call sheets a user is assigned to.
+ */
+export async function findPublishedCallSheetForWorkday(
+  organizationId: string,
+  workday: string,
+  timeZone: string,
+  matches: (callSheet: any) => boolean = () => true
+) {
+  const snapshot = await db.collection('publishedCallSheets')
+    .where('organizationId', '==', organizationId)
+    .where('isPublished', '==', true)
+    .orderBy('publishedAt', 'desc')
+    .limit(50)
+    .get();
+
+  const match = snapshot.docs.find(doc => {
+    const data = doc.data();
+    if (data.isActive === false) return false;
+    if (data.expiresAt && new Date() > data.expiresAt.toDate()) return false;
+    return normalizeWorkday(data.date, timeZone) === workday && matches(data);
+  });
+
+  return match ? { id: match.id, ...match.data() } : null;
+}
+
 // Firebase Callable function
 export const getPublishedCallSheets = onCall(
   {
@@ -6,4 +6,7 @@ export * from './getPublishedCallSheets';
 export * from './authenticateTeamMember';
 export * from './cleanupExpiredCallSheets';
 export * from './updateCallSheetAccessCode';
-export * from './syncDailyRecordToPublished';
\ No newline at end of file
+export * from './syncDailyRecordToPublished';
+export * from './acknowledgeCallSheetRevision';
+export * from './getCallSheetAcknowledgements';
+export * from './getCallSheetRevisions';
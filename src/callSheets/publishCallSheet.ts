@@ -1,6 +1,7 @@
 import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse, handleError } from '../shared/utils';
+import { prepareCallSheetRevision } from './callSheetRevisionService';
 
 // Shared business logic function
 export async function publishCallSheetLogic(data: any, context?: any): Promise<any> {
@@ -378,7 +379,11 @@ export async function publishCallSheetLogic(data: any, context?: any): Promise<a
       updateCount: 0,
       hasUnreadUpdates: false,
       lastUpdatedAt: now,
-      updateHistory: []
+      updateHistory: [],
+
+      // Revision tracking (see callSheetRevisions)
+      currentRevision: 1,
+      currentRevisionAt: now
     };
 
     console.log(`📋 [PUBLISH CALL SHEET] Published call sheet includes:`, {
@@ -442,8 +447,20 @@ export async function publishCallSheetLogic(data: any, context?: any): Promise<a
       console.log(`📋 [PUBLISH CALL SHEET] Republishing call sheet: ${callSheetId} (was previously disabled)`);
     }
 
+    // Number this publish as a revision, diffed against the copy it replaces
+    const revision = prepareCallSheetRevision(
+      callSheetId,
+      isRepublishing ? existingPublishedDoc.data() : null,
+      publishedCallSheet,
+      { source: isRepublishing ? 'republish' : 'publish', changedBy: publishedCallSheet.publishedBy }
+    )!;
+    publishedCallSheet.currentRevision = revision.revision;
+
     // Save published call sheet (this will overwrite existing document, re-enabling it)
-    await admin.firestore().collection('publishedCallSheets').doc(callSheetId).set(publishedCallSheet);
+    const publishBatch = admin.firestore().batch();
+    publishBatch.set(admin.firestore().collection('publishedCallSheets').doc(callSheetId), publishedCallSheet);
+    publishBatch.set(revision.ref, revision.data);
+    await publishBatch.commit();
 
     console.log(`📋 [PUBLISH CALL SHEET] Call sheet published successfully: ${callSheetId}`);
 
@@ -462,7 +479,9 @@ export async function publishCallSheetLogic(data: any, context?: any): Promise<a
       publishedAt: publishedCallSheet.publishedAt,
       expiresAt: publishedCallSheet.expiresAt,
       assignedTeamMembers: assignedTeamMembers.length, // 🔧 CRITICAL FIX: Return count of assigned team members
-      teamMemberIds: teamMemberIds.length
+      teamMemberIds: teamMemberIds.length,
+      revision: revision.revision,
+      revisionSummary: revision.summary
     }, 'Call sheet published successfully');
 
   } catch (error: any) {
@@ -1,5 +1,6 @@
 import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
 import * as admin from 'firebase-admin';
+import { prepareCallSheetRevision } from './callSheetRevisionService';
 
 /**
  * Sync Daily Call Sheet Updates to Published Call Sheets
@@ -121,6 +122,18 @@ export const syncDailyRecordToPublished = onDocumentUpdated('dailyCallSheetRecor
                 hasUnreadUpdates: true,
             };
 
+            // Record a numbered revision when tracked fields changed, so crew can acknowledge it
+            const revision = prepareCallSheetRevision(
+                publishedDoc.id,
+                publishedData,
+                { ...publishedData, ...updateData },
+                { source: 'sync', changedBy: after.userId || 'system' }
+            );
+            if (revision) {
+                updateData.currentRevision = revision.revision;
+                updateData.currentRevisionAt = revision.data.createdAt;
+            }
+
             // Add to update history
             const updateHistoryEntry = {
                 version: (publishedData.version || 0) + 1,
@@ -131,21 +144,28 @@ export const syncDailyRecordToPublished = onDocumentUpdated('dailyCallSheetRecor
                     email: ''
                 },
                 changes: {
-                    summary: 'Call sheet updated from standalone app',
+                    summary: revision ? revision.summary : 'Call sheet updated from standalone app',
                     fields: Object.keys(after.callSheetData || {}),
+                    revision: revision?.revision || publishedData.currentRevision || null,
                 }
             };
 
             updateData.updateHistory = admin.firestore.FieldValue.arrayUnion(updateHistoryEntry);
 
             // Perform the update
-            await publishedDoc.ref.update(updateData);
+            const batch = admin.firestore().batch();
+            batch.update(publishedDoc.ref, updateData);
+            if (revision) {
+                batch.set(revision.ref, revision.data);
+            }
+            await batch.commit();
 
             const duration = Date.now() - startTime;
             console.log(`✅ [syncDailyRecordToPublished] Successfully synced to published call sheet in ${duration}ms:`, {
                 publishedDocId: publishedDoc.id,
                 callSheetId,
                 version: updateData.version,
+                revision: revision?.revision || null,
                 projectName: after.projectName
             });
 
@@ -29,7 +29,7 @@ class AIService {
     if (!keyData || !keyData.apiKey) {
       throw new Error('Gemini API key not configured for this organization');
     }
-    return new GeminiService(keyData.apiKey);
+    return new GeminiService(keyData.apiKey, { organizationId, userId, feature: 'clip-show-scripts' });
   }
 
   async generateScript(request: ScriptGenerationRequest): Promise<string> {
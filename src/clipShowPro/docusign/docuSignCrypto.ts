@@ -0,0 +1,68 @@
+/**
+ * DocuSign Credential Encryption
+ *
+ * Encrypts DocuSign config secrets with the unified keyring. Configs stored before the
+ * keyring hold a JSON `{ encrypted, iv, authTag }` object encrypted with
+ * DOCUSIGN_ENCRYPTION_KEY; those are still readable until key rotation re-encrypts them.
+ */
+
+import { decryptToken, decryptTokenWithKeyInfo, encryptToken, getKeyring } from '../../integrations/unified-oauth/encryption';
+import { decryptParts } from '../../integrations/unified-oauth/keyring';
+
+interface LegacyDocuSignCiphertext {
+  encrypted: string;
+  iv: string;
+  authTag: string;
+}
+
+function parseLegacyCiphertext(stored: string): LegacyDocuSignCiphertext | null {
+  if (!stored.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed?.encrypted && parsed?.iv && parsed?.authTag ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a stored DocuSign value uses the pre-keyring JSON format
+ */
+export function isLegacyDocuSignCiphertext(stored: unknown): boolean {
+  return typeof stored === 'string' && parseLegacyCiphertext(stored) !== null;
+}
+
+export function encryptDocuSignSecret(text: string): string {
+  return encryptToken(text);
+}
+
+/**
+ * Decrypt a stored DocuSign secret and report which key it was encrypted with
+ */
+export function decryptDocuSignSecretWithKeyInfo(stored: string): { plaintext: string; keyId: string; legacy: boolean } {
+  const legacy = parseLegacyCiphertext(stored);
+  if (!legacy) {
+    const { plaintext, keyId } = decryptTokenWithKeyInfo(stored);
+    return { plaintext, keyId, legacy: false };
+  }
+
+  const parts = {
+    iv: Buffer.from(legacy.iv, 'hex'),
+    authTag: Buffer.from(legacy.authTag, 'hex'),
+    data: legacy.encrypted
+  };
+  for (const entry of getKeyring().keys) {
+    try {
+      return { plaintext: decryptParts(parts, entry), keyId: entry.keyId, legacy: true };
+    } catch {
+      // Authentication failed with this key, try the next one
+    }
+  }
+  throw new Error('Failed to decrypt DocuSign configuration. Set DOCUSIGN_ENCRYPTION_KEY or re-save the DocuSign configuration.');
+}
+
+export function decryptDocuSignSecret(stored: string): string {
+  return parseLegacyCiphertext(stored) ? decryptDocuSignSecretWithKeyInfo(stored).plaintext : decryptToken(stored);
+}
@@ -7,8 +7,9 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
 import * as docusign from 'docusign-esign';
+import { encryptionKey, encryptionKeyPrevious } from '../../integrations/unified-oauth/encryption';
+import { decryptDocuSignSecret } from './docuSignCrypto';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -17,25 +18,6 @@ if (!admin.apps.length) {
 
 const db = getFirestore();
 
-// Encryption key (should match the one used in storeDocuSignConfig)
-const ENCRYPTION_KEY = process.env.DOCUSIGN_ENCRYPTION_KEY || crypto.randomBytes(32).toString('hex');
-const ALGORITHM = 'aes-256-gcm';
-
-function decrypt(encryptedData: { encrypted: string; iv: string; authTag: string }): string {
-  const decipher = crypto.createDecipheriv(
-    ALGORITHM,
-    Buffer.from(ENCRYPTION_KEY, 'hex'),
-    Buffer.from(encryptedData.iv, 'hex')
-  );
-  
-  decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'hex'));
-  
-  let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
-}
-
 async function getDocuSignConfig(organizationId: string): Promise<{
   integrationKey: string;
   userId: string;
@@ -57,11 +39,10 @@ async function getDocuSignConfig(organizationId: string): Promise<{
     }
 
     // Decrypt sensitive fields
-    const encryptedIntegrationKey = JSON.parse(configData.integrationKey);
-    const integrationKey = decrypt(encryptedIntegrationKey);
+    const integrationKey = decryptDocuSignSecret(configData.integrationKey);
     
     const rsaPrivateKey = configData.rsaPrivateKey 
-      ? decrypt(JSON.parse(configData.rsaPrivateKey))
+      ? decryptDocuSignSecret(configData.rsaPrivateKey)
       : undefined;
 
     if (!configData.accountId) {
@@ -85,6 +66,7 @@ export const getDocuSignEnvelopeStatus = onCall(
   {
     region: 'us-central1',
     cors: true,
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -7,7 +7,8 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
+import { encryptionKey, encryptionKeyPrevious } from '../../integrations/unified-oauth/encryption';
+import { encryptDocuSignSecret } from './docuSignCrypto';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -16,30 +17,11 @@ if (!admin.apps.length) {
 
 const db = getFirestore();
 
-// Encryption key (should be stored in environment variables in production)
-const ENCRYPTION_KEY = process.env.DOCUSIGN_ENCRYPTION_KEY || crypto.randomBytes(32).toString('hex');
-const ALGORITHM = 'aes-256-gcm';
-
-function encrypt(text: string): { encrypted: string; iv: string; authTag: string } {
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv(ALGORITHM, Buffer.from(ENCRYPTION_KEY, 'hex'), iv);
-  
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  return {
-    encrypted,
-    iv: iv.toString('hex'),
-    authTag: authTag.toString('hex')
-  };
-}
-
 export const storeDocuSignConfig = onCall(
   {
     region: 'us-central1',
     cors: true,
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -62,14 +44,14 @@ export const storeDocuSignConfig = onCall(
       }
 
       // Encrypt sensitive fields
-      const encryptedIntegrationKey = encrypt(integrationKey);
-      const encryptedRsaKey = rsaPrivateKey ? encrypt(rsaPrivateKey) : undefined;
+      const encryptedIntegrationKey = encryptDocuSignSecret(integrationKey);
+      const encryptedRsaKey = rsaPrivateKey ? encryptDocuSignSecret(rsaPrivateKey) : undefined;
 
       // Store configuration
       const configRef = db.collection('organizations').doc(organizationId).collection('docuSignConfig').doc('default');
       
       const configData: any = {
-        integrationKey: JSON.stringify(encryptedIntegrationKey),
+        integrationKey: encryptedIntegrationKey,
         userId, // User ID doesn't need encryption (it's a GUID)
         enabled: enabled !== undefined ? enabled : true,
         baseUrl: baseUrl || 'https://demo.docusign.net',
@@ -81,7 +63,7 @@ export const storeDocuSignConfig = onCall(
       }
 
       if (encryptedRsaKey) {
-        configData.rsaPrivateKey = JSON.stringify(encryptedRsaKey);
+        configData.rsaPrivateKey = encryptedRsaKey;
       }
 
       // Check if config exists
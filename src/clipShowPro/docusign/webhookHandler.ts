@@ -9,9 +9,10 @@ import { onRequest } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
 import * as docusign from 'docusign-esign';
 import * as https from 'https';
+import { encryptionKey, encryptionKeyPrevious } from '../../integrations/unified-oauth/encryption';
+import { decryptDocuSignSecret } from './docuSignCrypto';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -21,25 +22,6 @@ if (!admin.apps.length) {
 const db = getFirestore();
 const storage = getStorage();
 
-// Encryption key (should match the one used in storeDocuSignConfig)
-const ENCRYPTION_KEY = process.env.DOCUSIGN_ENCRYPTION_KEY || crypto.randomBytes(32).toString('hex');
-const ALGORITHM = 'aes-256-gcm';
-
-function decrypt(encryptedData: { encrypted: string; iv: string; authTag: string }): string {
-  const decipher = crypto.createDecipheriv(
-    ALGORITHM,
-    Buffer.from(ENCRYPTION_KEY, 'hex'),
-    Buffer.from(encryptedData.iv, 'hex')
-  );
-
-  decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'hex'));
-
-  let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
-}
-
 async function getDocuSignConfig(organizationId: string): Promise<{
   integrationKey: string;
   userId: string;
@@ -61,11 +43,10 @@ async function getDocuSignConfig(organizationId: string): Promise<{
     }
 
     // Decrypt sensitive fields
-    const encryptedIntegrationKey = JSON.parse(configData.integrationKey);
-    const integrationKey = decrypt(encryptedIntegrationKey);
+    const integrationKey = decryptDocuSignSecret(configData.integrationKey);
 
     const rsaPrivateKey = configData.rsaPrivateKey
-      ? decrypt(JSON.parse(configData.rsaPrivateKey))
+      ? decryptDocuSignSecret(configData.rsaPrivateKey)
       : undefined;
 
     if (!configData.accountId) {
@@ -123,6 +104,7 @@ export const docuSignWebhookHandler = onRequest(
   {
     region: 'us-central1',
     cors: true,
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
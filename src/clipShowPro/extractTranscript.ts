@@ -13,6 +13,7 @@ import * as admin from 'firebase-admin';
 import * as https from 'https';
 import { GeminiService } from '../ai/GeminiService';
 import { getAIApiKey } from '../ai/utils/aiHelpers';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
 
 // Note: YouTube transcript extraction now works without API key or OAuth
 // Using YouTube's public transcript endpoint that doesn't require authentication
@@ -556,7 +557,7 @@ export const extractTranscript = onCall(
     invoker: 'public',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKeySecret], // Required for Gemini API key decryption (optional fallback)
+    secrets: [encryptionKeySecret, encryptionKeyPrevious], // Required for Gemini API key decryption (optional fallback)
   },
   async (request): Promise<TranscriptResponse> => {
     try {
@@ -12,6 +12,7 @@ import { getAuth } from 'firebase-admin/auth';
 import * as nodemailer from 'nodemailer';
 import * as admin from 'firebase-admin';
 import { setCorsHeaders } from '../shared/utils';
+import { renderOrganizationEmail } from '../notifications/emailTemplates/emailTemplateService';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -203,16 +204,27 @@ export const sendLicenseEmail = onRequest(
         console.log(`ℹ️ [sendLicenseEmail] No attachment requested (type: ${attachmentType}, id: ${attachmentId})`);
       }
 
-      // Prepare email content
-      const htmlBody = generateLicenseEmailHTML(subject, message || '', recipientName);
+      // Prepare email content from the organization's license email template
+      const rendered = await renderOrganizationEmail(organizationId, 'license_email', {
+        subject,
+        recipientName: recipientName || null,
+        message: message || null
+      }, {
+        recipientEmail,
+        brandDefaults: {
+          productName: 'Clip Show Pro',
+          headerTitle: '🎬 Clip Show Pro',
+          footerText: 'This email was sent from Clip Show Pro'
+        }
+      });
 
       // Prepare mail options
       const mailOptions: any = {
         from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL,
         to: recipientEmail,
-        subject: `[Clip Show Pro] ${subject}`,
-        html: htmlBody,
-        text: message || subject
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text
       };
 
       // Add attachment if available
@@ -612,100 +624,3 @@ function createEmailTransporter(smtpConfig: any): nodemailer.Transporter {
 
   return nodemailer.createTransport(config);
 }
-
-/**
- * Generate HTML email template for license emails
- */
-function generateLicenseEmailHTML(subject: string, message: string, recipientName?: string): string {
-  const greeting = recipientName ? `Hello ${recipientName},` : 'Hello,';
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${subject}</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-          padding: 20px;
-          background-color: #f5f5f5;
-        }
-        .container {
-          background-color: white;
-          border-radius: 8px;
-          overflow: hidden;
-          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
-        }
-        .header {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          padding: 30px 20px;
-          text-align: center;
-        }
-        .header h1 {
-          margin: 0;
-          font-size: 24px;
-        }
-        .content {
-          padding: 30px 20px;
-        }
-        .greeting {
-          margin-bottom: 20px;
-          font-size: 16px;
-        }
-        .message {
-          background: #f8f9fa;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid #667eea;
-          margin: 20px 0;
-        }
-        .footer {
-          background-color: #f5f5f5;
-          padding: 20px;
-          text-align: center;
-          font-size: 12px;
-          color: #666;
-          border-top: 1px solid #ddd;
-        }
-        .footer a {
-          color: #667eea;
-          text-decoration: none;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>🎬 Clip Show Pro</h1>
-        </div>
-        <div class="content">
-          <div class="greeting">
-            ${greeting}
-          </div>
-          ${message ? `
-            <div class="message">
-              ${message.replace(/\n/g, '<br>')}
-            </div>
-          ` : ''}
-          <p>Please find the attached document for your review.</p>
-        </div>
-        <div class="footer">
-          <p>This email was sent from Clip Show Pro</p>
-          <p>
-            <a href="https://backbone-client.web.app">Visit Dashboard</a> | 
-            <a href="https://backbone-logic.web.app">Licensing Website</a>
-          </p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-}
-
@@ -11,6 +11,7 @@ import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { getAIApiKey } from '../ai/utils/aiHelpers';
 import { GeminiService } from '../ai/GeminiService';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
 
 // Define encryption key secret for Gemini API key decryption
 const encryptionKeySecret = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
@@ -99,7 +100,7 @@ export const transcribeVideoBlob = onCall(
     region: 'us-central1',
     invoker: 'public',
     cors: true,
-    secrets: [encryptionKeySecret],
+    secrets: [encryptionKeySecret, encryptionKeyPrevious],
     maxInstances: 10,
     timeoutSeconds: 540, // 9 minutes (max for v2 functions) for large files
     memory: '2GiB', // Increase memory for large file processing
@@ -14,6 +14,7 @@ import { getStorage } from 'firebase-admin/storage';
 import * as admin from 'firebase-admin';
 import { getAIApiKey } from '../ai/utils/aiHelpers';
 import { GeminiService } from '../ai/GeminiService';
+import { encryptionKeyPrevious } from '../integrations/unified-oauth/encryption';
 
 // Define encryption key secret for Gemini API key decryption
 const encryptionKeySecret = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
@@ -110,7 +111,7 @@ export const createTranscriptionTask = onCall(
     region: 'us-central1',
     invoker: 'public',
     cors: true,
-    secrets: [encryptionKeySecret],
+    secrets: [encryptionKeySecret, encryptionKeyPrevious],
     maxInstances: 10,
     timeoutSeconds: 60, // 1 minute (reduced since client uploads directly to Storage)
     memory: '512MiB', // Reduced memory since we're not processing large buffers
@@ -228,7 +229,7 @@ export const processTranscriptionTask = onDocumentCreated(
   {
     document: 'transcriptionTasks/{taskId}',
     region: 'us-central1',
-    secrets: [encryptionKeySecret],
+    secrets: [encryptionKeySecret, encryptionKeyPrevious],
     timeoutSeconds: 540, // 9 minutes max
     memory: '2GiB',
   },
@@ -7,54 +7,8 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { db } from '../shared/utils';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
-import { encryptionKey, getEncryptionKey } from './secrets';
-
-/**
- * Encrypt sensitive data
- */
-function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-  const iv = crypto.randomBytes(16);
-  
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-}
-
-/**
- * Decrypt sensitive data
- */
-function decryptToken(encryptedData: string): string {
-  if (!encryptedData || typeof encryptedData !== 'string') {
-    throw new Error('Cannot decrypt: encryptedData is missing or invalid');
-  }
-  
-  const [ivHex, authTagHex, encrypted] = encryptedData.split(':');
-  
-  if (!ivHex || !authTagHex || !encrypted) {
-    throw new Error('Cannot decrypt: encryptedData format is invalid (expected format: iv:authTag:encrypted)');
-  }
-  
-  const iv = Buffer.from(ivHex, 'hex');
-  const authTag = Buffer.from(authTagHex, 'hex');
-  
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-  
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
-}
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 /**
  * Get Dropbox configuration from Firestore
@@ -179,7 +133,7 @@ export const saveDropboxConfig = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { auth, data } = request;
@@ -263,7 +217,7 @@ export const getDropboxConfigStatus = onCall(
   { 
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { auth, data } = request;
@@ -3,7 +3,7 @@ import { defaultCallableOptions } from '../lib/functionOptions';
 import * as admin from 'firebase-admin';
 import { encryptTokens, decryptTokens, decryptLegacyToken, hashForLogging } from '../integrations/encryption';
 import { createSuccessResponse, createErrorResponse, setCorsHeaders } from '../shared/utils';
-import { encryptionKey } from './secrets';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
 import { getDropboxConfig } from './config';
 
 /**
@@ -13,7 +13,7 @@ export const getDropboxIntegrationStatus = onCall(
     {
         region: 'us-central1',
         cors: true,
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
     },
     async (request) => {
         try {
@@ -741,7 +741,7 @@ export const setDropboxAccessToken = onCall(
         region: 'us-central1',
         cors: true,
         memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
     },
     async (request) => {
         try {
@@ -7,49 +7,8 @@
 import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { db } from '../shared/utils';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
-import { encryptionKey, getEncryptionKey } from './secrets';
-
-/**
- * Encrypt sensitive data
- */
-function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
-  // Ensure the key is exactly 32 bytes for AES-256-GCM
-  // Use SHA-256 hash to derive a consistent 32-byte key from the secret
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-  const iv = crypto.randomBytes(16);
-
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-
-  const authTag = cipher.getAuthTag();
-
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-}
-
-/**
- * Decrypt sensitive data
- */
-function decryptToken(encryptedData: string): string {
-  const [ivHex, authTagHex, encrypted] = encryptedData.split(':');
-  const iv = Buffer.from(ivHex, 'hex');
-  const authTag = Buffer.from(authTagHex, 'hex');
-
-  const algorithm = 'aes-256-gcm';
-  // Ensure the key is exactly 32 bytes for AES-256-GCM
-  // Use SHA-256 hash to derive a consistent 32-byte key from the secret
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
-}
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 /**
  * Get Google Drive configuration from Firestore
@@ -189,7 +148,7 @@ export const saveGoogleConfig = onCall(
     region: 'us-central1',
     invoker: 'public', // Required for CORS preflight requests
     cors: true, // Enable CORS support
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { auth, data } = request;
@@ -322,7 +281,7 @@ export const saveGoogleConfigHttp = onRequest(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     // Set CORS headers first (before any errors)
@@ -506,7 +465,7 @@ export const getGoogleConfigStatus = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { auth, data } = request;
@@ -595,7 +554,7 @@ export const getGoogleConfigStatusHttp = onRequest(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     // Set CORS headers first
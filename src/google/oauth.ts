@@ -10,180 +10,9 @@ import { db } from '../shared/utils';
 import * as crypto from 'crypto';
 import { getGoogleConfig } from './config';
 import { Timestamp } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from './secrets';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
 import { google } from 'googleapis';
-
-/**
- * Encrypt sensitive token data
- */
-function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
-
-  // Get and validate encryption key
-  let encryptionKeyValue: string;
-  try {
-    encryptionKeyValue = getEncryptionKey();
-  } catch (keyError) {
-    console.error('❌ [GoogleOAuth] Failed to get encryption key:', keyError);
-    throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-  }
-
-  if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-    console.error('❌ [GoogleOAuth] Encryption key is invalid:', {
-      type: typeof encryptionKeyValue,
-      length: encryptionKeyValue?.length || 0,
-      minLength: 32,
-    });
-    throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-  }
-
-  // Ensure the key is exactly 32 bytes for AES-256-GCM
-  // Use SHA-256 hash to derive a consistent 32-byte key from the secret
-  let key: Buffer;
-  try {
-    key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-  } catch (hashError: any) {
-    console.error('❌ [GoogleOAuth] Failed to derive key:', hashError);
-    throw new Error('Failed to derive encryption key. Encryption key may be corrupted.');
-  }
-
-  if (!key || key.length !== 32) {
-    throw new Error(`Invalid key length. Expected 32 bytes, got ${key?.length || 0}`);
-  }
-
-  const iv = crypto.randomBytes(16);
-
-  try {
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    // Return: iv:authTag:encrypted
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-  } catch (cipherError: any) {
-    if (cipherError.message && cipherError.message.includes('Invalid key length')) {
-      console.error('❌ [GoogleOAuth] Invalid key length error during encryption:', {
-        keyLength: key?.length || 0,
-        encryptionKeyValueLength: encryptionKeyValue?.length || 0,
-      });
-      throw new Error('Invalid key length. ENCRYPTION_KEY secret may be misconfigured.');
-    }
-    throw cipherError;
-  }
-}
-
-/**
- * Decrypt sensitive token data
- */
-function decryptToken(encryptedData: string): string {
-  try {
-    if (!encryptedData || typeof encryptedData !== 'string') {
-      throw new Error('Invalid token format: token is missing or not a string');
-    }
-
-    const parts = encryptedData.split(':');
-    if (parts.length !== 3) {
-      throw new Error(`Invalid token format. Expected 3 parts separated by ':', got ${parts.length} parts.`);
-    }
-
-    const [ivHex, authTagHex, encrypted] = parts;
-    if (!ivHex || !authTagHex || !encrypted) {
-      throw new Error('Invalid token format: missing required components (IV, auth tag, or encrypted data)');
-    }
-
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-
-    if (iv.length !== 16) {
-      throw new Error(`Invalid IV length. Expected 16 bytes, got ${iv.length}`);
-    }
-    if (authTag.length !== 16) {
-      throw new Error(`Invalid auth tag length. Expected 16 bytes, got ${authTag.length}`);
-    }
-
-    const algorithm = 'aes-256-gcm';
-
-    // Get and validate encryption key
-    let encryptionKeyValue: string;
-    try {
-      encryptionKeyValue = getEncryptionKey();
-    } catch (keyError) {
-      console.error('❌ [GoogleOAuth] Failed to get encryption key:', keyError);
-      throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-    }
-
-    if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-      console.error('❌ [GoogleOAuth] Encryption key is invalid:', {
-        type: typeof encryptionKeyValue,
-        length: encryptionKeyValue?.length || 0,
-        minLength: 32,
-      });
-      throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-    }
-
-    // Ensure the key is exactly 32 bytes for AES-256-GCM
-    // Use SHA-256 hash to derive a consistent 32-byte key from the secret
-    let key: Buffer;
-    try {
-      key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-    } catch (hashError: any) {
-      console.error('❌ [GoogleOAuth] Failed to derive key:', hashError);
-      throw new Error('Failed to derive encryption key. Encryption key may be corrupted.');
-    }
-
-    if (!key || key.length !== 32) {
-      throw new Error(`Invalid key length. Expected 32 bytes, got ${key?.length || 0}`);
-    }
-
-    try {
-      const decipher = crypto.createDecipheriv(algorithm, key, iv);
-      decipher.setAuthTag(authTag);
-
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-
-      if (!decrypted || decrypted.length === 0) {
-        throw new Error('Decrypted token is empty');
-      }
-
-      return decrypted;
-    } catch (decryptError: any) {
-      // Check for authentication tag verification failure
-      const errorMessage = decryptError.message || String(decryptError);
-      const isAuthTagError = errorMessage.includes('Unsupported state') ||
-        errorMessage.includes('unable to authenticate data') ||
-        errorMessage.includes('auth tag') ||
-        decryptError.code === 'ERR_CRYPTO_INVALID_TAG';
-
-      if (isAuthTagError) {
-        console.error('❌ [GoogleOAuth] Authentication tag verification failed:', {
-          errorMessage,
-          errorCode: decryptError.code,
-        });
-        throw new Error('Token authentication failed. The Google Drive connection token may be corrupted or encrypted with a different key. Please re-connect your Google Drive account.');
-      }
-
-      if (decryptError.message && decryptError.message.includes('Invalid key length')) {
-        console.error('❌ [GoogleOAuth] Invalid key length error during decryption:', {
-          keyLength: key?.length || 0,
-          ivLength: iv?.length || 0,
-          authTagLength: authTag?.length || 0,
-          encryptionKeyValueLength: encryptionKeyValue?.length || 0,
-        });
-        throw new Error('Invalid key length. ENCRYPTION_KEY secret may be misconfigured. Please verify the secret is set correctly.');
-      }
-      throw decryptError;
-    }
-  } catch (error) {
-    console.error('❌ [GoogleOAuth] Failed to decrypt token:', {
-      error: error instanceof Error ? error.message : String(error),
-      errorType: error instanceof Error ? error.constructor.name : typeof error,
-    });
-    throw error instanceof Error ? error : new Error('Failed to decrypt access token. Configuration error.');
-  }
-}
+import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 /**
  * Initiate Google Drive OAuth flow
@@ -194,7 +23,7 @@ export const googleOAuthInitiate = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -285,7 +114,7 @@ export const googleOAuthRefresh = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -368,7 +197,7 @@ export const googleRevokeAccess = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -467,7 +296,7 @@ export const googleOAuthCallback = onRequest(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     try {
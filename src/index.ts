@@ -56,6 +56,19 @@ export {
   updateNotificationSettings
 } from './notifications/crud';
 
+// Export notification dispatch functions
+export { flushNotificationDigests } from './notifications/flushNotificationDigests';
+export { getNotificationDeliveries } from './notifications/getNotificationDeliveries';
+
+// Export email template functions
+export {
+  saveEmailTemplate,
+  getEmailTemplates,
+  previewEmailTemplate,
+  saveEmailLayout,
+  saveEmailBranding
+} from './notifications/emailTemplates/emailTemplates';
+
 // Export automation executor  
 export {
   executeAutomation,
@@ -177,6 +190,7 @@ export {
   slackGetPinnedMessages
 } from './slack/api';
 export { slackWebhookHandler } from './slack/webhook';
+export { slackInteractivityHandler, processSlackInteraction } from './slack/interactivity';
 export {
   saveSlackConfig,
   disconnectSlackWorkspaces,
@@ -354,8 +368,36 @@ export {
   disconnectIntegration,
   listAvailableProviders,
   verifyIntegrationAccess,
-  updateOAuthAccountInfo
+  updateOAuthAccountInfo,
+  getIntegrationHealth,
+  connectApiKeyIntegration,
+  registerIntegrationWebhook,
+  deleteIntegrationWebhook
 } from './integrations/unified-oauth/functions';
+export { connectorWebhook } from './integrations/unified-oauth/connectorWebhooks';
+export { processIntegrationSyncJob } from './integrations/unified-oauth/connectorSyncQueue';
+
+// Export Unified Storage Functions (works with ANY registered storage provider)
+export {
+  storageList,
+  storageCreateFolder,
+  storageUpload,
+  storageDownload,
+  storageMove,
+  storageShareLink,
+  storageIndexFolder,
+  listStorageProviders
+} from './integrations/unified-storage/functions';
+export {
+  saveStorageMirrorJob,
+  deleteStorageMirrorJob,
+  runStorageMirrorJob,
+  getStorageMirrorJobs,
+  getStorageMirrorJobRuns
+} from './integrations/unified-storage/mirrorJobs';
+export {
+  runScheduledStorageMirrorJobs
+} from './integrations/unified-storage/schedules/runMirrorJobs';
 
 // Export OAuth token save function
 export { saveOAuthTokens } from './integrations/unified-oauth/saveOAuthTokens';
@@ -367,11 +409,25 @@ export {
 export {
   cleanupExpiredOAuthStates
 } from './integrations/unified-oauth/schedules/cleanupStates';
+export {
+  continueEncryptionKeyRotations
+} from './integrations/unified-oauth/schedules/continueKeyRotation';
+export {
+  retryIntegrationSyncJobs
+} from './integrations/unified-oauth/schedules/retrySyncJobs';
+export {
+  refreshIntegrationWebhooks
+} from './integrations/unified-oauth/schedules/refreshWebhooks';
 
 // Export Migration Functions
 export {
   runOAuthMigration
 } from './integrations/unified-oauth/migrations/migrationFunction';
+export {
+  runEncryptionKeyRotation,
+  getEncryptionKeyRotations,
+  getEncryptionKeyReport
+} from './integrations/unified-oauth/migrations/keyRotationFunctions';
 
 export {
   migrateCloudIntegrations,
@@ -399,6 +455,23 @@ export {
   getGoogleIntegrationStatus
 } from './integrations';
 
+// Export Airtable functions (connector framework - see integrations/unified-oauth)
+export {
+  getAirtableIntegrationStatus,
+  saveAirtableFieldMapping,
+  setAirtableConflictPolicy,
+  getAirtableSyncConflicts,
+  resolveAirtableSyncConflict,
+  syncAirtableToFirebase,
+  syncFirebaseToAirtable,
+  scheduledAirtableSync,
+  importAirtableData,
+  exportToAirtable,
+  validateAirtableConnection,
+  getAirtableBases,
+  getAirtableTables
+} from './integrations';
+
 // Export unified user management functions
 export {
   getUserInfo,
@@ -436,13 +509,16 @@ export {
 
 // Export AI functions
 // export * from './ai'; // Commented out to prevent stack overflow during deployment analysis
-export { aiChatAssistant, aiWorkflowAnalysis, aiAutomationSuggestions } from './ai';
+export { aiChatAssistant, aiChatAssistantStream, aiWorkflowAnalysis, aiAutomationSuggestions } from './ai';
 export { createScriptPackage } from './ai/scriptTools';
 export { createWorkflow } from './ai/workflowCloudFunctions';
 export { executeAIAction } from './ai/executeAIAction';
-export { masterAgentV2 } from './ai/masterAgentV2';
+export { undoAIAction } from './ai/actionJournal';
+export { masterAgentV2, masterAgentV2Stream } from './ai/masterAgentV2';
 export { aiPredictiveAutomation } from './ai/aiPredictiveAutomation';
 export { generateScheduleAlerts, triggerAlertGeneration, generateAlerts } from './ai/scheduleAlertGenerator';
+export { rebuildVectorIndexes } from './ai/vectorStore/rebuildVectorIndexes';
+export { getAIGatewaySettings, updateAIGatewaySettings } from './ai/gateway';
 export { storeAIApiKey } from './ai/storeAIApiKey';
 export { testAIApiKey } from './ai/testApiKey';
 
@@ -498,6 +574,20 @@ export {
   takeApprovalAction,
   getTimecardHistory,
   submitTimecardForApproval,
+  createApprovalDelegation,
+  revokeApprovalDelegation,
+  escalateStaleApprovals,
+  // Payroll export functions
+  exportApprovedTimecards,
+  savePayrollExportTemplate,
+  getPayrollExportTemplates,
+  voidPayrollExport,
+  // Correction and revision functions
+  requestTimecardCorrection,
+  reviewTimecardCorrection,
+  getTimecardCorrections,
+  onTimecardEntryRevision,
+  onTimecardRevision,
   // Direct report functions
   getAllDirectReports,
   createDirectReport,
@@ -513,6 +603,9 @@ export {
   // Clock in/out functions
   clockIn,
   clockOut,
+  startBreak,
+  endBreak,
+  setWorkdayTimeZone,
   // Extended users & labor (used by Call Sheet and timecard tooling)
   getExtendedUsers,
   getExtendedUsersHttp,
@@ -526,7 +619,19 @@ export {
   calculateBudgetVariance,
   syncTimecardToBudget,
   aggregateTimecardCosts,
-  matchTemplates
+  matchTemplates,
+  getBudgetForecast,
+  snapshotBudgetForecasts,
+  createBudgetVersion,
+  getBudgetVersions,
+  compareBudgetVersions,
+  createBudgetChangeOrder,
+  reviewBudgetChangeOrder,
+  getBudgetChangeOrders,
+  saveFringeRateTable,
+  getFringeRateTables,
+  saveExchangeRate,
+  getExchangeRates
 } from './budgeting';
 
 // Export FCM functions
@@ -550,7 +655,12 @@ export {
   getParticipants,
   addParticipant,
   removeParticipant,
-  updateMessageSession
+  updateMessageSession,
+  editMessage,
+  toggleMessageReaction,
+  linkMessageSessionToSlack,
+  unlinkMessageSessionFromSlack,
+  onMessageWrittenSyncSlack
 } from './messaging';
 
 // Export AI agent functions (callable versions only)
@@ -583,7 +693,10 @@ export {
   authenticateTeamMember,
   authenticateTeamMemberHttp,  // 🔧 CRITICAL FIX: Export HTTP function for CORS support
   cleanupExpiredCallSheets,
-  updateCallSheetAccessCode  // Temporary function to update access codes
+  updateCallSheetAccessCode,  // Temporary function to update access codes
+  acknowledgeCallSheetRevision,
+  getCallSheetAcknowledgements,
+  getCallSheetRevisions
 } from './callSheets';
 
 // Export team management functions
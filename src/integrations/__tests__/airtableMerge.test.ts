@@ -0,0 +1,102 @@
+/**
+ * Airtable Field Merge Tests
+ *
+ * Tests for one-sided changes, conflict policies, first sync and open review items
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FieldMergeInput, FieldSyncState, fieldValuesEqual, planFieldMerge } from '../airtableMerge';
+
+const lastSync = new Date('2026-05-01T10:00:00Z');
+const firebaseEdit = new Date('2026-05-01T11:00:00Z');
+const airtableEdit = new Date('2026-05-01T12:00:00Z');
+const now = new Date('2026-05-01T13:00:00Z');
+
+function baseline(values: Record<string, any>): Record<string, FieldSyncState> {
+  return Object.fromEntries(Object.entries(values).map(([field, value]) => [
+    field,
+    { value, syncedAt: lastSync, firebaseModifiedAt: null, airtableModifiedAt: null }
+  ]));
+}
+
+function input(overrides: Partial<FieldMergeInput>): FieldMergeInput {
+  return {
+    baseline: baseline({ name: 'Camera A', status: 'Ready' }),
+    firebaseValues: { name: 'Camera A', status: 'Ready' },
+    airtableValues: { name: 'Camera A', status: 'Ready' },
+    firebaseModifiedAt: firebaseEdit,
+    airtableModifiedAt: airtableEdit,
+    policy: 'newest_wins',
+    source: 'airtable',
+    now,
+    ...overrides
+  };
+}
+
+describe('planFieldMerge', () => {
+  it('copies fields changed on one side only', () => {
+    const plan = planFieldMerge(input({
+      firebaseValues: { name: 'Camera B', status: 'Ready' },
+      airtableValues: { name: 'Camera A', status: 'Checked out' }
+    }));
+
+    expect(plan.toAirtable).toEqual({ name: 'Camera B' });
+    expect(plan.toFirebase).toEqual({ status: 'Checked out' });
+    expect(plan.resolved).toHaveLength(0);
+    expect(plan.unresolved).toHaveLength(0);
+    expect(plan.baseline.name.firebaseModifiedAt).toEqual(firebaseEdit);
+    expect(plan.baseline.status.airtableModifiedAt).toEqual(airtableEdit);
+  });
+
+  it('settles a field changed on both sides with the policy', () => {
+    const changed = { firebaseValues: { name: 'Camera B', status: 'Ready' }, airtableValues: { name: 'Camera C', status: 'Ready' } };
+
+    const newest = planFieldMerge(input(changed));
+    expect(newest.toFirebase).toEqual({ name: 'Camera C' });
+    expect(newest.resolved[0]).toMatchObject({ field: 'name', winner: 'airtable', baseValue: 'Camera A' });
+
+    const firebaseWins = planFieldMerge(input({ ...changed, policy: 'firebase_wins' }));
+    expect(firebaseWins.toAirtable).toEqual({ name: 'Camera B' });
+    expect(firebaseWins.baseline.name.value).toBe('Camera B');
+  });
+
+  it('leaves manual conflicts and open review items untouched', () => {
+    const manual = planFieldMerge(input({
+      firebaseValues: { name: 'Camera B', status: 'Ready' },
+      airtableValues: { name: 'Camera C', status: 'Ready' },
+      policy: 'manual'
+    }));
+    expect(manual.toFirebase).toEqual({});
+    expect(manual.toAirtable).toEqual({});
+    expect(manual.unresolved).toEqual([expect.objectContaining({ field: 'name', firebaseValue: 'Camera B', airtableValue: 'Camera C' })]);
+    expect(manual.baseline.name.value).toBe('Camera A');
+
+    const pending = planFieldMerge(input({
+      airtableValues: { name: 'Camera D', status: 'Ready' },
+      openConflicts: ['name']
+    }));
+    expect(pending.toFirebase).toEqual({});
+    expect(pending.baseline.name.value).toBe('Camera A');
+  });
+
+  it('fills empty fields and lets the triggering side win when there is no baseline yet', () => {
+    const plan = planFieldMerge(input({
+      baseline: null,
+      firebaseValues: { name: 'Camera B' },
+      airtableValues: { name: 'Camera C', status: 'Ready' },
+      source: 'firebase'
+    }));
+
+    expect(plan.toAirtable).toEqual({ name: 'Camera B' });
+    expect(plan.toFirebase).toEqual({ status: 'Ready' });
+  });
+});
+
+describe('fieldValuesEqual', () => {
+  it('treats empty values alike and compares structurally', () => {
+    expect(fieldValuesEqual('', null)).toBe(true);
+    expect(fieldValuesEqual([], undefined)).toBe(true);
+    expect(fieldValuesEqual(['a', 'b'], ['a', 'b'])).toBe(true);
+    expect(fieldValuesEqual({ id: 'att1' }, { id: 'att2' })).toBe(false);
+  });
+});
@@ -1,1073 +1,466 @@
 /**
  * Airtable Integration Firebase Functions
- * 
- * Server-side functions for Airtable integration following the pattern
- * established in shared-firebase-functions/src/integrations/googleDrive.ts
+ *
+ * Airtable runs on the unified connector framework: the connection is an API key
+ * (connectApiKeyIntegration), webhooks go through connectorWebhook, and every sync
+ * runs as a job on the shared sync queue (see unified-oauth/providers/AirtableProvider.ts).
+ * These callables manage table mappings, conflict policies and the conflict review
+ * queue, and queue sync work.
  */
 
-import { onCall } from 'firebase-functions/v2/https';
-import { onRequest } from 'firebase-functions/v2/https';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
-import { onDocumentCreated } from 'firebase-functions/v2/firestore';
-import { onDocumentWritten } from 'firebase-functions/v2/firestore';
 import { logger } from 'firebase-functions/v2';
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { getFirestore } from 'firebase-admin/firestore';
-import { getStorage } from 'firebase-admin/storage';
-import { getAuth } from 'firebase-admin/auth';
-import * as crypto from 'crypto';
-const Airtable = require('airtable');
-
-const db = getFirestore();
-const storage = getStorage();
-const auth = getAuth();
-
-// Initialize Airtable client
-let airtableClient: any = null;
-
-const initializeAirtableClient = (apiKey: string) => {
-  // Airtable is a factory function
-  return Airtable({ apiKey });
-};
-
-/**
- * Handle Airtable webhook notifications
- */
-export const handleAirtableWebhook = onRequest(
-  { cors: true },
-  async (req, res) => {
-    try {
-      logger.info('Airtable webhook received', { 
-        method: req.method,
-        headers: req.headers,
-        body: req.body 
-      });
-
-      // Validate webhook signature
-      const signature = req.headers['x-airtable-signature'] as string;
-      const webhookSecret = process.env.AIRTABLE_WEBHOOK_SECRET;
-      
-      if (webhookSecret && signature) {
-        const expectedSignature = crypto
-          .createHmac('sha256', webhookSecret)
-          .update(JSON.stringify(req.body))
-          .digest('hex');
-        
-        if (signature !== expectedSignature) {
-          logger.error('Invalid webhook signature');
-          res.status(401).send('Unauthorized');
-          return;
-        }
-      }
-
-      // Parse webhook payload
-      const { base, webhook, timestamp, changedTablesById } = req.body;
-      
-      logger.info('Processing webhook', {
-        baseId: base.id,
-        webhookId: webhook.id,
-        timestamp,
-        changedTables: Object.keys(changedTablesById)
-      });
-
-      // Queue webhook for processing
-      const queueId = `webhook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      await db.collection('airtableWebhookQueue').doc(queueId).set({
-        id: queueId,
-        baseId: base.id,
-        webhookId: webhook.id,
-        timestamp: new Date(timestamp),
-        changedTablesById,
-        status: 'pending',
-        createdAt: FieldValue.serverTimestamp(),
-        processedAt: null,
-        retries: 0,
-        maxRetries: 3,
-        error: null
-      });
-
-      logger.info('Webhook queued for processing', { queueId });
-      
-      res.status(200).send('OK');
-    } catch (error) {
-      logger.error('Webhook processing failed', error);
-      res.status(500).send('Internal Server Error');
-    }
-  }
-);
-
-/**
- * Process Airtable webhook queue
- */
-export const processAirtableWebhookQueue = onDocumentCreated(
-  'airtableWebhookQueue/{queueId}',
-  async (event) => {
-    if (!event.data) {
-      logger.error('Event data is missing');
-      return;
-    }
-    const queueId = event.params.queueId;
-    const queueData = event.data.data();
-    const eventDataRef = event.data;
-    
-    logger.info('Processing webhook queue item', { queueId });
-
-    try {
-      // Get integration configuration
-      const configSnapshot = await db
-        .collection('integrationConfigurations')
-        .where('type', '==', 'airtable')
-        .where('baseId', '==', queueData.baseId)
-        .limit(1)
-        .get();
-
-      if (configSnapshot.empty) {
-        throw new Error(`No Airtable configuration found for base ${queueData.baseId}`);
-      }
-
-      const config = configSnapshot.docs[0].data();
-      
-      // Initialize Airtable client
-      const airtable = initializeAirtableClient(config.credentials.apiKey);
-      
-      // Process each changed table
-      for (const [tableId, changes] of Object.entries(queueData.changedTablesById)) {
-        await processTableChanges(
-          airtable,
-          config,
-          queueData.baseId,
-          tableId,
-          changes as any
-        );
-      }
-
-      // Mark as processed
-      await eventDataRef.ref.update({
-        status: 'completed',
-        processedAt: FieldValue.serverTimestamp()
-      });
-
-      logger.info('Webhook queue item processed successfully', { queueId });
-    } catch (error) {
-      logger.error('Webhook queue processing failed', { queueId, error });
-      
-      const retries = queueData.retries + 1;
-      if (retries < queueData.maxRetries) {
-        // Retry with exponential backoff
-        const delay = Math.pow(2, retries) * 1000; // 2s, 4s, 8s
-        setTimeout(async () => {
-          await eventDataRef.ref.update({
-            retries,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }, delay);
-      } else {
-        // Mark as failed
-        await eventDataRef.ref.update({
-          status: 'failed',
-          processedAt: FieldValue.serverTimestamp(),
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
-    }
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../shared/utils';
+import { oauthService } from './unified-oauth/OAuthService';
+import { encryptionKey, encryptionKeyPrevious } from './unified-oauth/encryption';
+import { enqueueSyncJob, enqueueSyncJobs } from './unified-oauth/connectorSyncQueue';
+import { getConnectorWebhooks } from './unified-oauth/connectorWebhooks';
+import { SyncJobInput } from './unified-oauth/types';
+import { AirtableClient } from './airtableClient';
+import { AirtableTableMapping, findTableMappings, getTableMapping, resolveAirtableConflict } from './airtableSync';
+import { isAirtableConflictPolicy, listConflicts, setOrganizationConflictPolicy } from './airtableConflicts';
+
+const PROVIDER = 'airtable';
+
+function requireOrganizationMember(request: { auth?: { token: Record<string, any> } }, organizationId: string): void {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
-);
-
-/**
- * Process changes for a specific table
- */
-async function processTableChanges(
-  airtable: any,
-  config: any,
-  baseId: string,
-  tableId: string,
-  changes: any
-) {
-  logger.info('Processing table changes', { baseId, tableId, changes });
-
-  const table = airtable.base(baseId).table(tableId);
-  
-  // Get mapping configuration
-  const mappingSnapshot = await db
-    .collection('airtableFieldMappings')
-    .where('baseId', '==', baseId)
-    .where('tableId', '==', tableId)
-    .limit(1)
-    .get();
-
-  if (mappingSnapshot.empty) {
-    logger.warn('No field mapping found', { baseId, tableId });
-    return;
-  }
-
-  const mapping = mappingSnapshot.docs[0].data();
-  const firebaseCollection = mapping.firebaseCollection;
-
-  // Process created records
-  if (changes.createdRecordsById) {
-    for (const recordId of Object.keys(changes.createdRecordsById)) {
-      try {
-        const record = await table.find(recordId);
-        const firebaseDoc = transformAirtableToFirebase(record, mapping);
-        
-        await db.collection(firebaseCollection).doc(recordId).set({
-          ...firebaseDoc,
-          _airtableId: recordId,
-          _airtableBaseId: baseId,
-          _airtableTableId: tableId,
-          _syncOrigin: 'airtable',
-          _lastSyncedAt: FieldValue.serverTimestamp()
-        });
-        
-        logger.info('Created record synced', { recordId, firebaseCollection });
-      } catch (error) {
-        logger.error('Failed to sync created record', { recordId, error });
-      }
-    }
+  if (!organizationId || request.auth.token.organizationId !== organizationId) {
+    throw new HttpsError('permission-denied', 'Not authorized for this organization');
   }
+}
 
-  // Process updated records
-  if (changes.changedRecordsById) {
-    for (const recordId of Object.keys(changes.changedRecordsById)) {
-      try {
-        const record = await table.find(recordId);
-        const firebaseDoc = transformAirtableToFirebase(record, mapping);
-        
-        await db.collection(firebaseCollection).doc(recordId).update({
-          ...firebaseDoc,
-          _lastSyncedAt: FieldValue.serverTimestamp()
-        });
-        
-        logger.info('Updated record synced', { recordId, firebaseCollection });
-      } catch (error) {
-        logger.error('Failed to sync updated record', { recordId, error });
-      }
-    }
+function requireOrganizationAdmin(request: { auth?: { token: Record<string, any> } }, organizationId: string): void {
+  requireOrganizationMember(request, organizationId);
+  const userRole = request.auth!.token.role?.toLowerCase();
+  if (userRole !== 'admin' && userRole !== 'owner') {
+    throw new HttpsError('permission-denied', 'Admin role required to manage Airtable sync');
   }
+}
 
-  // Process deleted records
-  if (changes.destroyedRecordIds) {
-    for (const recordId of changes.destroyedRecordIds) {
-      try {
-        await db.collection(firebaseCollection).doc(recordId).delete();
-        logger.info('Deleted record synced', { recordId, firebaseCollection });
-      } catch (error) {
-        logger.error('Failed to sync deleted record', { recordId, error });
-      }
-    }
+async function getAirtableClient(organizationId: string): Promise<AirtableClient> {
+  try {
+    return new AirtableClient(await oauthService.getProviderCredential(organizationId, PROVIDER));
+  } catch (error) {
+    throw new HttpsError('failed-precondition', 'Airtable is not connected for this organization');
   }
 }
 
 /**
- * Transform Airtable record to Firebase document
+ * Mapping by id, or by base + table for callers that predate mapping ids
  */
-function transformAirtableToFirebase(record: any, mapping: any): any {
-  const firebaseDoc: any = {};
-  
-  for (const fieldMapping of mapping.fieldMappings) {
-    const airtableValue = record.fields[fieldMapping.airtableField];
-    const firebaseField = fieldMapping.firebaseField;
-    
-    if (airtableValue !== undefined) {
-      switch (fieldMapping.airtableType) {
-        case 'singleLineText':
-        case 'multilineText':
-        case 'email':
-        case 'phoneNumber':
-        case 'url':
-          firebaseDoc[firebaseField] = String(airtableValue);
-          break;
-          
-        case 'number':
-        case 'currency':
-        case 'percent':
-        case 'rating':
-          firebaseDoc[firebaseField] = Number(airtableValue);
-          break;
-          
-        case 'checkbox':
-          firebaseDoc[firebaseField] = Boolean(airtableValue);
-          break;
-          
-        case 'date':
-        case 'dateTime':
-          firebaseDoc[firebaseField] = Timestamp.fromDate(new Date(airtableValue));
-          break;
-          
-        case 'singleSelect':
-          firebaseDoc[firebaseField] = airtableValue;
-          break;
-          
-        case 'multipleSelects':
-          firebaseDoc[firebaseField] = Array.isArray(airtableValue) ? airtableValue : [];
-          break;
-          
-        case 'multipleRecordLinks':
-          firebaseDoc[firebaseField] = Array.isArray(airtableValue) ? airtableValue : [];
-          break;
-          
-        case 'multipleAttachments':
-          firebaseDoc[firebaseField] = Array.isArray(airtableValue) ? airtableValue : [];
-          break;
-          
-        default:
-          firebaseDoc[firebaseField] = airtableValue;
-      }
-    }
+async function resolveTableMapping(organizationId: string, data: any): Promise<AirtableTableMapping> {
+  if (data.mappingId) {
+    return getTableMapping(organizationId, data.mappingId);
   }
-  
-  return firebaseDoc;
+  const [mapping] = await findTableMappings(organizationId, data.baseId, data.tableId);
+  if (!mapping) {
+    throw new HttpsError('not-found', 'Field mapping not found');
+  }
+  return mapping;
 }
 
 /**
- * Initiate Airtable OAuth flow
+ * Get Airtable integration status
  */
-export const initiateAirtableOAuth = onCall({ memory: '512MiB' }, async (request) => {
+export const getAirtableIntegrationStatus = onCall({ memory: '512MiB', secrets: [encryptionKey, encryptionKeyPrevious] }, async (request) => {
   try {
     const { organizationId } = request.data;
-    
-    if (!organizationId) {
-      throw new Error('Organization ID is required');
-    }
+    requireOrganizationMember(request, organizationId);
 
-    // Generate OAuth state
-    const state = crypto.randomBytes(32).toString('hex');
-    
-    // Store state for verification
-    await db.collection('airtableOAuthStates').doc(state).set({
-      state,
-      organizationId,
-      createdAt: FieldValue.serverTimestamp(),
-      expiresAt: Timestamp.fromDate(new Date(Date.now() + 10 * 60 * 1000)) // 10 minutes
-    });
+    const connectionDoc = await db
+      .collection('organizations')
+      .doc(organizationId)
+      .collection('cloudIntegrations')
+      .doc(PROVIDER)
+      .get();
 
-    // Generate OAuth URL
-    const clientId = process.env.AIRTABLE_CLIENT_ID;
-    const redirectUri = `${process.env.FUNCTIONS_URL}/handleAirtableOAuthCallback`;
-    
-    const authUrl = `https://airtable.com/oauth2/v1/authorize?` +
-      `client_id=${clientId}&` +
-      `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-      `response_type=code&` +
-      `scope=read&` +
-      `state=${state}`;
+    if (!connectionDoc.exists || connectionDoc.data()?.isActive === false) {
+      return { success: true, connected: false, message: 'No Airtable integration configured' };
+    }
+
+    const [mappings, webhooks] = await Promise.all([
+      findTableMappings(organizationId),
+      getConnectorWebhooks(organizationId, PROVIDER)
+    ]);
 
-    logger.info('Airtable OAuth initiated', { organizationId, state });
-    
-    return { success: true, authUrl };
+    const connection = connectionDoc.data()!;
+    return {
+      success: true,
+      connected: true,
+      message: 'Airtable connection active',
+      accountEmail: connection.accountEmail,
+      connectedAt: connection.connectedAt,
+      mappings: mappings.length,
+      webhooks: webhooks.map(webhook => ({ id: webhook.id, baseId: webhook.options.baseId, expiresAt: webhook.expiresAt }))
+    };
   } catch (error) {
-    logger.error('Airtable OAuth initiation failed', error);
+    logger.error('Airtable status check failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Handle Airtable OAuth callback
+ * Create or update a table mapping (Airtable table ↔ Firestore collection)
  */
-export const handleAirtableOAuthCallback = onCall({ memory: '512MiB' }, async (request) => {
+export const saveAirtableFieldMapping = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { code, state } = request.data;
-    
-    if (!code || !state) {
-      throw new Error('Code and state are required');
-    }
+    const {
+      organizationId, mappingId, baseId, tableId, firebaseCollection, fieldMappings,
+      syncDirection = 'both', conflictPolicy = null, lastModifiedField = null
+    } = request.data;
+    requireOrganizationAdmin(request, organizationId);
 
-    // Verify state
-    const stateDoc = await db.collection('airtableOAuthStates').doc(state).get();
-    if (!stateDoc.exists) {
-      throw new Error('Invalid or expired state');
+    if (!baseId || !tableId || !firebaseCollection || !Array.isArray(fieldMappings) || fieldMappings.length === 0) {
+      throw new HttpsError('invalid-argument', 'Base ID, table ID, collection and field mappings are required');
     }
-
-    const stateData = stateDoc.data();
-    if (!stateData) {
-      throw new Error('OAuth state data not found');
+    if (!['both', 'airtable_to_firebase', 'firebase_to_airtable'].includes(syncDirection)) {
+      throw new HttpsError('invalid-argument', `Invalid sync direction: ${syncDirection}`);
     }
-    if (stateData.expiresAt.toDate() < new Date()) {
-      throw new Error('OAuth state expired');
+    if (conflictPolicy !== null && !isAirtableConflictPolicy(conflictPolicy)) {
+      throw new HttpsError('invalid-argument', `Invalid conflict policy: ${conflictPolicy}`);
     }
 
-    // Exchange code for tokens
-    const tokenResponse = await fetch('https://airtable.com/oauth2/v1/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        client_id: process.env.AIRTABLE_CLIENT_ID!,
-        client_secret: process.env.AIRTABLE_CLIENT_SECRET!,
-        redirect_uri: `${process.env.FUNCTIONS_URL}/handleAirtableOAuthCallback`,
-        code
-      })
-    });
-
-    if (!tokenResponse.ok) {
-      throw new Error(`Token exchange failed: ${tokenResponse.statusText}`);
+    const ref = mappingId
+      ? db.collection('airtableFieldMappings').doc(mappingId)
+      : db.collection('airtableFieldMappings').doc();
+    if (mappingId) {
+      await getTableMapping(organizationId, mappingId);
     }
 
-    const tokens = await tokenResponse.json() as any;
-    
-    // Encrypt and store tokens
-    const encryptedTokens = encryptCredentials(tokens);
-    
-    await db.collection('integrationConfigurations').add({
-      type: 'airtable',
-      organizationId: stateData.organizationId,
-      credentials: {
-        accessToken: encryptedTokens.access_token,
-        refreshToken: encryptedTokens.refresh_token,
-        tokenType: tokens.token_type,
-        expiresAt: Timestamp.fromDate(new Date(Date.now() + tokens.expires_in * 1000))
-      },
-      createdAt: FieldValue.serverTimestamp(),
-      createdBy: request.auth?.uid,
-      isActive: true
-    });
-
-    // Clean up state
-    await db.collection('airtableOAuthStates').doc(state).delete();
+    await ref.set({
+      organizationId,
+      baseId,
+      tableId,
+      firebaseCollection,
+      fieldMappings: fieldMappings.map((field: any) => ({
+        airtableField: field.airtableField,
+        firebaseField: field.firebaseField,
+        airtableType: field.airtableType || 'singleLineText'
+      })),
+      syncDirection,
+      conflictPolicy,
+      lastModifiedField,
+      isActive: true,
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: request.auth!.uid,
+      ...(mappingId ? {} : { createdAt: FieldValue.serverTimestamp() })
+    }, { merge: true });
 
-    logger.info('Airtable OAuth completed', { organizationId: stateData.organizationId });
-    
-    return { success: true };
+    return { success: true, mappingId: ref.id };
   } catch (error) {
-    logger.error('Airtable OAuth callback failed', error);
+    logger.error('Saving Airtable field mapping failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Get Airtable integration status
+ * Set how sync conflicts (a field changed on both sides since the last sync) are
+ * resolved, for the organization or, with mappingId, for one table
  */
-export const getAirtableIntegrationStatus = onCall({ memory: '512MiB' }, async (request) => {
+export const setAirtableConflictPolicy = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { organizationId } = request.data;
-    
-    if (!organizationId) {
-      throw new Error('Organization ID is required');
-    }
+    const { organizationId, policy, mappingId } = request.data;
+    requireOrganizationAdmin(request, organizationId);
 
-    // Check if configuration exists
-    const configSnapshot = await db
-      .collection('integrationConfigurations')
-      .where('type', '==', 'airtable')
-      .where('organizationId', '==', organizationId)
-      .limit(1)
-      .get();
-
-    if (configSnapshot.empty) {
-      return { 
-        success: true, 
-        connected: false, 
-        message: 'No Airtable integration configured' 
-      };
+    // A mapping may clear its override with null to fall back to the organization policy
+    if (!isAirtableConflictPolicy(policy) && !(mappingId && policy === null)) {
+      throw new HttpsError('invalid-argument', `Invalid conflict policy: ${policy}`);
     }
 
-    const config = configSnapshot.docs[0].data();
-    
-    // Check if tokens are expired
-    if (config.credentials.expiresAt.toDate() < new Date()) {
-      return { 
-        success: true, 
-        connected: false, 
-        message: 'Airtable tokens expired' 
-      };
+    if (mappingId) {
+      await getTableMapping(organizationId, mappingId);
+      await db.collection('airtableFieldMappings').doc(mappingId).update({
+        conflictPolicy: policy,
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedBy: request.auth!.uid
+      });
+    } else {
+      await setOrganizationConflictPolicy(organizationId, policy, request.auth!.uid);
     }
 
-    // Test connection
-    try {
-      const decryptedTokens = decryptCredentials(config.credentials);
-      const airtable = initializeAirtableClient(decryptedTokens.accessToken);
-      
-      // Test with a simple API call
-      const bases = await airtable.base('appTest').select({
-        maxRecords: 1
-      }).firstPage();
-      
-      return { 
-        success: true, 
-        connected: true, 
-        message: 'Airtable connection active',
-        baseId: config.baseId,
-        lastSyncAt: config.lastSyncAt
-      };
-    } catch (error) {
-      return { 
-        success: true, 
-        connected: false, 
-        message: 'Airtable connection failed' 
-      };
-    }
+    return { success: true, policy, mappingId: mappingId || null };
   } catch (error) {
-    logger.error('Airtable status check failed', error);
+    logger.error('Setting Airtable conflict policy failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Sync Airtable to Firebase
+ * List sync conflicts waiting for review (or already resolved ones)
  */
-export const syncAirtableToFirebase = onCall({ memory: '512MiB' }, async (request) => {
+export const getAirtableSyncConflicts = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { organizationId, baseId, tableId, syncMode = 'incremental' } = request.data;
-    
-    if (!organizationId || !baseId || !tableId) {
-      throw new Error('Organization ID, base ID, and table ID are required');
-    }
-
-    // Get configuration
-    const configSnapshot = await db
-      .collection('integrationConfigurations')
-      .where('type', '==', 'airtable')
-      .where('organizationId', '==', organizationId)
-      .where('baseId', '==', baseId)
-      .limit(1)
-      .get();
+    const { organizationId, status = 'open', mappingId, limit = 100 } = request.data;
+    requireOrganizationMember(request, organizationId);
 
-    if (configSnapshot.empty) {
-      throw new Error('Airtable configuration not found');
+    if (status !== 'open' && status !== 'resolved') {
+      throw new HttpsError('invalid-argument', `Invalid status: ${status}`);
     }
 
-    const config = configSnapshot.docs[0].data();
-    const decryptedTokens = decryptCredentials(config.credentials);
-    const airtable = initializeAirtableClient(decryptedTokens.accessToken);
-    
-    // Get field mapping
-    const mappingSnapshot = await db
-      .collection('airtableFieldMappings')
-      .where('baseId', '==', baseId)
-      .where('tableId', '==', tableId)
-      .limit(1)
-      .get();
-
-    if (mappingSnapshot.empty) {
-      throw new Error('Field mapping not found');
-    }
+    const conflicts = await listConflicts(organizationId, { status, mappingId, limit: Math.min(Number(limit) || 100, 500) });
+    return { success: true, conflicts };
+  } catch (error) {
+    logger.error('Listing Airtable sync conflicts failed', error);
+    if (error instanceof HttpsError) throw error;
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
 
-    const mapping = mappingSnapshot.docs[0].data();
-    const firebaseCollection = mapping.firebaseCollection;
-    
-    // Get sync metadata
-    const syncMetadataRef = db.collection('airtableSyncMetadata')
-      .doc(`${baseId}_${tableId}`);
-    
-    const syncMetadata = await syncMetadataRef.get();
-    const lastSyncTime = syncMetadata.exists ? 
-      syncMetadata.data()?.lastSyncAt?.toDate() : null;
+/**
+ * Resolve a queued conflict by keeping the Firestore value, the Airtable value or a
+ * custom value; the result is written to both sides
+ */
+export const resolveAirtableSyncConflict = onCall({ memory: '512MiB', secrets: [encryptionKey, encryptionKeyPrevious] }, async (request) => {
+  try {
+    const { organizationId, conflictId, resolution, value } = request.data;
+    requireOrganizationAdmin(request, organizationId);
 
-    // Build query based on sync mode
-    let query = airtable.base(baseId).table(tableId).select();
-    
-    if (syncMode === 'incremental' && lastSyncTime) {
-      // Only sync records modified since last sync
-      query = query.filterByFormula(`IS_SAME({Last Modified Time}, "${lastSyncTime.toISOString()}", "day")`);
+    if (!conflictId || !['firebase', 'airtable', 'custom'].includes(resolution)) {
+      throw new HttpsError('invalid-argument', 'Conflict ID and a resolution of firebase, airtable or custom are required');
     }
-
-    // Fetch records
-    const records = await query.all();
-    
-    let processedCount = 0;
-    let errorCount = 0;
-    
-    // Process records in batches
-    const batchSize = 500;
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = db.batch();
-      const batchRecords = records.slice(i, i + batchSize);
-      
-      for (const record of batchRecords) {
-        try {
-          const firebaseDoc = transformAirtableToFirebase(record, mapping);
-          
-          batch.set(db.collection(firebaseCollection).doc(record.id), {
-            ...firebaseDoc,
-            _airtableId: record.id,
-            _airtableBaseId: baseId,
-            _airtableTableId: tableId,
-            _syncOrigin: 'airtable',
-            _lastSyncedAt: FieldValue.serverTimestamp()
-          });
-          
-          processedCount++;
-        } catch (error) {
-          logger.error('Failed to transform record', { recordId: record.id, error });
-          errorCount++;
-        }
-      }
-      
-      await batch.commit();
+    if (resolution === 'custom' && value === undefined) {
+      throw new HttpsError('invalid-argument', 'A value is required for a custom resolution');
     }
 
-    // Update sync metadata
-    await syncMetadataRef.set({
-      baseId,
-      tableId,
-      lastSyncAt: FieldValue.serverTimestamp(),
-      lastSyncMode: syncMode,
-      recordsProcessed: processedCount,
-      errors: errorCount,
-      organizationId
-    }, { merge: true });
+    const client = await getAirtableClient(organizationId);
+    const result = await resolveAirtableConflict(client, organizationId, conflictId, resolution, request.auth!.uid, value);
+    return { success: true, conflictId, resolution, value: result.value };
+  } catch (error) {
+    logger.error('Resolving Airtable sync conflict failed', error);
+    if (error instanceof HttpsError) throw error;
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
 
-    logger.info('Airtable to Firebase sync completed', {
-      baseId,
-      tableId,
-      processedCount,
-      errorCount
+/**
+ * Sync Airtable to Firebase (queued)
+ */
+export const syncAirtableToFirebase = onCall({ memory: '512MiB' }, async (request) => {
+  try {
+    const { organizationId, syncMode = 'incremental' } = request.data;
+    requireOrganizationMember(request, organizationId);
+
+    const mapping = await resolveTableMapping(organizationId, request.data);
+    const jobId = await enqueueSyncJob(organizationId, PROVIDER, {
+      operation: 'pull_table',
+      payload: { mappingId: mapping.id, mode: syncMode === 'full' ? 'full' : 'incremental' },
+      priority: 'high'
     });
 
-    return {
-      success: true,
-      processedCount,
-      errorCount,
-      totalRecords: records.length
-    };
+    logger.info('Airtable to Firebase sync queued', { organizationId, mappingId: mapping.id, jobId });
+    return { success: true, jobId, mappingId: mapping.id };
   } catch (error) {
     logger.error('Airtable to Firebase sync failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Sync Firebase to Airtable
+ * Sync Firebase to Airtable (queued)
  */
 export const syncFirebaseToAirtable = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { organizationId, baseId, tableId, collectionName } = request.data;
-    
-    if (!organizationId || !baseId || !tableId || !collectionName) {
-      throw new Error('All parameters are required');
-    }
-
-    // Get configuration
-    const configSnapshot = await db
-      .collection('integrationConfigurations')
-      .where('type', '==', 'airtable')
-      .where('organizationId', '==', organizationId)
-      .where('baseId', '==', baseId)
-      .limit(1)
-      .get();
-
-    if (configSnapshot.empty) {
-      throw new Error('Airtable configuration not found');
-    }
-
-    const config = configSnapshot.docs[0].data();
-    const decryptedTokens = decryptCredentials(config.credentials);
-    const airtable = initializeAirtableClient(decryptedTokens.accessToken);
-    
-    // Get field mapping
-    const mappingSnapshot = await db
-      .collection('airtableFieldMappings')
-      .where('baseId', '==', baseId)
-      .where('tableId', '==', tableId)
-      .limit(1)
-      .get();
-
-    if (mappingSnapshot.empty) {
-      throw new Error('Field mapping not found');
-    }
-
-    const mapping = mappingSnapshot.docs[0].data();
-    
-    // Get Firebase documents
-    const firebaseSnapshot = await db
-      .collection(collectionName)
-      .where('_syncOrigin', '!=', 'airtable') // Avoid sync loops
-      .limit(100) // Process in batches
-      .get();
-
-    let processedCount = 0;
-    let errorCount = 0;
-    
-    // Process documents
-    for (const doc of firebaseSnapshot.docs) {
-      try {
-        const airtableRecord = transformFirebaseToAirtable(doc.data(), mapping);
-        
-        if (doc.data()._airtableId) {
-          // Update existing record
-          await airtable.base(baseId).table(tableId).update(doc.data()._airtableId, airtableRecord);
-        } else {
-          // Create new record
-          const createdRecord = await airtable.base(baseId).table(tableId).create(airtableRecord);
-          
-          // Update Firebase document with Airtable ID
-          await doc.ref.update({
-            _airtableId: createdRecord.id,
-            _airtableBaseId: baseId,
-            _airtableTableId: tableId,
-            _lastSyncedAt: FieldValue.serverTimestamp()
-          });
-        }
-        
-        processedCount++;
-      } catch (error) {
-        logger.error('Failed to sync document to Airtable', { docId: doc.id, error });
-        errorCount++;
-      }
-    }
-
-    logger.info('Firebase to Airtable sync completed', {
-      baseId,
-      tableId,
-      processedCount,
-      errorCount
+    const { organizationId, syncMode = 'changed' } = request.data;
+    requireOrganizationMember(request, organizationId);
+
+    const mapping = await resolveTableMapping(organizationId, request.data);
+    const jobId = await enqueueSyncJob(organizationId, PROVIDER, {
+      operation: 'push_collection',
+      payload: { mappingId: mapping.id, mode: syncMode === 'full' ? 'full' : 'changed' },
+      priority: 'high'
     });
 
-    return {
-      success: true,
-      processedCount,
-      errorCount,
-      totalDocuments: firebaseSnapshot.size
-    };
+    logger.info('Firebase to Airtable sync queued', { organizationId, mappingId: mapping.id, jobId });
+    return { success: true, jobId, mappingId: mapping.id };
   } catch (error) {
     logger.error('Firebase to Airtable sync failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Transform Firebase document to Airtable record
- */
-function transformFirebaseToAirtable(firebaseDoc: any, mapping: any): any {
-  const airtableRecord: any = {};
-  
-  for (const fieldMapping of mapping.fieldMappings) {
-    const firebaseValue = firebaseDoc[fieldMapping.firebaseField];
-    const airtableField = fieldMapping.airtableField;
-    
-    if (firebaseValue !== undefined) {
-      switch (fieldMapping.airtableType) {
-        case 'date':
-        case 'dateTime':
-          if (firebaseValue instanceof Timestamp) {
-            airtableRecord[airtableField] = firebaseValue.toDate().toISOString();
-          } else if (firebaseValue instanceof Date) {
-            airtableRecord[airtableField] = firebaseValue.toISOString();
-          }
-          break;
-          
-        case 'multipleSelects':
-          airtableRecord[airtableField] = Array.isArray(firebaseValue) ? firebaseValue : [];
-          break;
-          
-        case 'multipleRecordLinks':
-          airtableRecord[airtableField] = Array.isArray(firebaseValue) ? firebaseValue : [];
-          break;
-          
-        case 'multipleAttachments':
-          airtableRecord[airtableField] = Array.isArray(firebaseValue) ? firebaseValue : [];
-          break;
-          
-        default:
-          airtableRecord[airtableField] = firebaseValue;
-      }
-    }
-  }
-  
-  return airtableRecord;
-}
-
-/**
- * Scheduled Airtable sync
+ * Scheduled Airtable sync: queues an incremental pull and push for every active mapping.
+ * Bases with a webhook are already pulled as changes happen.
  */
 export const scheduledAirtableSync = onSchedule('every 15 minutes', async () => {
   try {
     logger.info('Starting scheduled Airtable sync');
 
-    // Get all active sync configurations
-    const configsSnapshot = await db
-      .collection('integrationConfigurations')
-      .where('type', '==', 'airtable')
+    const connectionsSnapshot = await db
+      .collectionGroup('cloudIntegrations')
+      .where('provider', '==', PROVIDER)
       .where('isActive', '==', true)
       .get();
 
-    for (const configDoc of configsSnapshot.docs) {
-      const config = configDoc.data();
-      
-      try {
-        // Get field mappings for this configuration
-        const mappingsSnapshot = await db
-          .collection('airtableFieldMappings')
-          .where('baseId', '==', config.baseId)
-          .get();
-
-        for (const mappingDoc of mappingsSnapshot.docs) {
-          const mapping = mappingDoc.data();
-          
-          // Perform incremental sync - Note: Direct call would require refactoring
-          // For now, this scheduled sync is disabled to avoid calling onCall from within a scheduled function
-          const result = null;
+    let queued = 0;
+    for (const connectionDoc of connectionsSnapshot.docs) {
+      const organizationId = connectionDoc.data().organizationId;
 
-          logger.info('Scheduled sync completed', {
-            baseId: config.baseId,
-            tableId: mapping.tableId,
-            result
-          });
+      try {
+        const [mappings, webhooks] = await Promise.all([
+          findTableMappings(organizationId),
+          getConnectorWebhooks(organizationId, PROVIDER)
+        ]);
+        const webhookBases = new Set(webhooks.filter(webhook => webhook.isActive).map(webhook => webhook.options.baseId));
+
+        const jobs: SyncJobInput[] = [];
+        for (const mapping of mappings) {
+          if (mapping.syncDirection !== 'firebase_to_airtable' && !webhookBases.has(mapping.baseId)) {
+            jobs.push({ operation: 'pull_table', payload: { mappingId: mapping.id, mode: 'incremental' }, priority: 'low' });
+          }
+          if (mapping.syncDirection !== 'airtable_to_firebase') {
+            jobs.push({ operation: 'push_collection', payload: { mappingId: mapping.id, mode: 'changed' }, priority: 'low' });
+          }
         }
+
+        queued += (await enqueueSyncJobs(organizationId, PROVIDER, jobs)).length;
       } catch (error) {
-        logger.error('Scheduled sync failed for config', {
-          configId: configDoc.id,
-          error
-        });
+        logger.error('Scheduled sync failed for organization', { organizationId, error });
       }
     }
 
-    logger.info('Scheduled Airtable sync completed');
+    logger.info('Scheduled Airtable sync queued', { queued });
   } catch (error) {
     logger.error('Scheduled Airtable sync failed', error);
   }
 });
 
 /**
- * Bulk import from Airtable
+ * Bulk import from Airtable: full pull of each mapped table
  */
 export const importAirtableData = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { organizationId, baseId, tableIds, importMode = 'full' } = request.data;
-    
-    if (!organizationId || !baseId || !tableIds || !Array.isArray(tableIds)) {
-      throw new Error('Invalid parameters');
-    }
-
-    // Get configuration
-    const configSnapshot = await db
-      .collection('integrationConfigurations')
-      .where('type', '==', 'airtable')
-      .where('organizationId', '==', organizationId)
-      .where('baseId', '==', baseId)
-      .limit(1)
-      .get();
+    const { organizationId, baseId, tableIds } = request.data;
+    requireOrganizationMember(request, organizationId);
 
-    if (configSnapshot.empty) {
-      throw new Error('Airtable configuration not found');
+    if (!baseId || !Array.isArray(tableIds)) {
+      throw new HttpsError('invalid-argument', 'Base ID and table IDs are required');
     }
 
-    const config = configSnapshot.docs[0].data();
-    const decryptedTokens = decryptCredentials(config.credentials);
-    const airtable = initializeAirtableClient(decryptedTokens.accessToken);
-    
-    let totalProcessed = 0;
-    let totalErrors = 0;
-    
-    // Process each table
-    for (const tableId of tableIds) {
-      try {
-        // Direct call disabled - would require refactoring the sync logic
-        const result = { processedCount: 0, errorCount: 0 };
-
-        totalProcessed += result.processedCount || 0;
-        totalErrors += result.errorCount || 0;
-      } catch (error) {
-        logger.error('Table import failed', { tableId, error });
-        totalErrors++;
-      }
-    }
-
-    logger.info('Bulk Airtable import completed', {
-      baseId,
-      totalProcessed,
-      totalErrors
-    });
+    const mappings = (await findTableMappings(organizationId, baseId))
+      .filter(mapping => tableIds.includes(mapping.tableId));
+    const jobIds = await enqueueSyncJobs(organizationId, PROVIDER, mappings.map(mapping => ({
+      operation: 'pull_table',
+      payload: { mappingId: mapping.id, mode: 'full' }
+    })));
 
     return {
       success: true,
-      totalProcessed,
-      totalErrors,
-      tablesProcessed: tableIds.length
+      jobIds,
+      tablesQueued: mappings.length,
+      unmappedTables: tableIds.filter((tableId: string) => !mappings.some(mapping => mapping.tableId === tableId))
     };
   } catch (error) {
     logger.error('Bulk Airtable import failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Export to Airtable
+ * Export to Airtable: full push of a mapped collection
  */
 export const exportToAirtable = onCall({ memory: '512MiB' }, async (request) => {
   try {
-    const { organizationId, baseId, tableId, collectionName, exportMode = 'full' } = request.data;
-    
-    if (!organizationId || !baseId || !tableId || !collectionName) {
-      throw new Error('All parameters are required');
-    }
-
-    // Direct call disabled - would require refactoring the sync logic
-    const result = null;
-    // const result = await syncFirebaseToAirtable({
-    //   data: {
-    //     organizationId,
-    //     baseId,
-    //     tableId,
-    //     collectionName
-    //   }
-    // });
+    const { organizationId } = request.data;
+    requireOrganizationMember(request, organizationId);
 
-    logger.info('Export to Airtable completed', {
-      baseId,
-      tableId,
-      collectionName,
-      result
+    const mapping = await resolveTableMapping(organizationId, request.data);
+    const jobId = await enqueueSyncJob(organizationId, PROVIDER, {
+      operation: 'push_collection',
+      payload: { mappingId: mapping.id, mode: 'full' }
     });
 
-    return result;
+    return { success: true, jobId, mappingId: mapping.id };
   } catch (error) {
     logger.error('Export to Airtable failed', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Validate Airtable connection
+ * Validate an Airtable API key before connecting it
  */
 export const validateAirtableConnection = onCall({ memory: '512MiB' }, async (request) => {
   try {
     const { apiKey, baseId } = request.data;
-    
-    if (!apiKey || !baseId) {
-      throw new Error('API key and base ID are required');
+
+    if (!apiKey) {
+      throw new Error('API key is required');
     }
 
-    const airtable = initializeAirtableClient(apiKey);
-    
-    // Test connection by fetching base info
-    const base = airtable.base(baseId);
-    const tables = await base.select({ maxRecords: 1 }).firstPage();
-    
+    const client = new AirtableClient(apiKey);
+    const user = await client.whoami();
+    const tables = baseId ? await client.listTables(baseId) : null;
+
     return {
       success: true,
       message: 'Connection successful',
-      baseId,
-      tableCount: tables.length
+      accountId: user.id,
+      baseId: baseId || null,
+      tableCount: tables ? tables.length : null
     };
   } catch (error) {
     logger.error('Airtable connection validation failed', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
     };
   }
 });
 
 /**
- * Get Airtable bases
+ * Get Airtable bases the connected token can access
  */
-export const getAirtableBases = onCall({ memory: '512MiB' }, async (request) => {
+export const getAirtableBases = onCall({ memory: '512MiB', secrets: [encryptionKey, encryptionKeyPrevious] }, async (request) => {
   try {
-    const { apiKey } = request.data;
-    
-    if (!apiKey) {
-      throw new Error('API key is required');
-    }
+    const { organizationId } = request.data;
+    requireOrganizationMember(request, organizationId);
 
-    const airtable = initializeAirtableClient(apiKey);
-    
-    // Note: Airtable API doesn't provide a direct way to list bases
-    // This would require using the Airtable REST API with proper authentication
-    // For now, return a placeholder response
-    
-    return {
-      success: true,
-      bases: [
-        {
-          id: 'placeholder',
-          name: 'Base access requires OAuth authentication',
-          permissionLevel: 'read'
-        }
-      ]
-    };
+    const client = await getAirtableClient(organizationId);
+    return { success: true, bases: await client.listBases() };
   } catch (error) {
     logger.error('Failed to get Airtable bases', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
 
 /**
- * Get Airtable tables
+ * Get the tables (with fields) of an Airtable base
  */
-export const getAirtableTables = onCall({ memory: '512MiB' }, async (request) => {
+export const getAirtableTables = onCall({ memory: '512MiB', secrets: [encryptionKey, encryptionKeyPrevious] }, async (request) => {
   try {
-    const { apiKey, baseId } = request.data;
-    
-    if (!apiKey || !baseId) {
-      throw new Error('API key and base ID are required');
-    }
+    const { organizationId, baseId } = request.data;
+    requireOrganizationMember(request, organizationId);
 
-    const airtable = initializeAirtableClient(apiKey);
-    const base = airtable.base(baseId);
-    
-    // Get table schema by trying to fetch records from each potential table
-    // This is a workaround since Airtable doesn't provide a direct table listing API
-    const tables = [];
-    
-    // Try common table names
-    const commonTableNames = ['Table 1', 'Table 2', 'Table 3', 'Main', 'Data'];
-    
-    for (const tableName of commonTableNames) {
-      try {
-        const records = await base.table(tableName).select({ maxRecords: 1 }).firstPage();
-        tables.push({
-          id: tableName,
-          name: tableName,
-          fields: [], // Would need to be populated from actual schema
-          recordCount: records.length
-        });
-      } catch (error) {
-        // Table doesn't exist, continue
-      }
+    if (!baseId) {
+      throw new HttpsError('invalid-argument', 'Base ID is required');
     }
-    
+
+    const client = await getAirtableClient(organizationId);
+    const tables = await client.listTables(baseId);
     return {
       success: true,
-      tables
+      tables: tables.map(table => ({
+        id: table.id,
+        name: table.name,
+        fields: table.fields.map(field => ({ id: field.id, name: field.name, type: field.type }))
+      }))
     };
   } catch (error) {
     logger.error('Failed to get Airtable tables', error);
+    if (error instanceof HttpsError) throw error;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 });
-
-/**
- * Encrypt credentials
- */
-function encryptCredentials(credentials: any): any {
-  const algorithm = 'aes-256-gcm';
-  const key = Buffer.from(process.env.ENCRYPTION_KEY!, 'hex');
-  const iv = crypto.randomBytes(16);
-  
-  const cipher = crypto.createCipher(algorithm, key);
-  cipher.setAAD(Buffer.from('airtable-credentials'));
-  
-  let encrypted = cipher.update(JSON.stringify(credentials), 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  return {
-    encrypted,
-    iv: iv.toString('hex'),
-    authTag: authTag.toString('hex')
-  };
-}
-
-/**
- * Decrypt credentials
- */
-function decryptCredentials(encryptedCredentials: any): any {
-  const algorithm = 'aes-256-gcm';
-  const key = Buffer.from(process.env.ENCRYPTION_KEY!, 'hex');
-  const iv = Buffer.from(encryptedCredentials.iv, 'hex');
-  const authTag = Buffer.from(encryptedCredentials.authTag, 'hex');
-  
-  const decipher = crypto.createDecipher(algorithm, key);
-  decipher.setAAD(Buffer.from('airtable-credentials'));
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(encryptedCredentials.encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return JSON.parse(decrypted);
-}
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * Airtable REST Client
+ *
+ * Minimal client for the Airtable Web API (records, metadata and webhooks)
+ * authenticated with a personal access token
+ */
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+
+export interface AirtableRecord {
+  id: string;
+  createdTime?: string;
+  fields: Record<string, any>;
+}
+
+export interface AirtableTableSchema {
+  id: string;
+  name: string;
+  primaryFieldId: string;
+  fields: Array<{ id: string; name: string; type: string }>;
+}
+
+export interface AirtableWebhookPayload {
+  timestamp: string;
+  baseTransactionNumber: number;
+  changedTablesById?: Record<string, {
+    createdRecordsById?: Record<string, any>;
+    changedRecordsById?: Record<string, any>;
+    destroyedRecordIds?: string[];
+  }>;
+}
+
+export class AirtableApiError extends Error {
+  constructor(message: string, public status: number, public type?: string) {
+    super(message);
+    this.name = 'AirtableApiError';
+  }
+}
+
+export class AirtableClient {
+  constructor(private apiKey: string) {}
+
+  private async request<T>(method: string, path: string, body?: any): Promise<T> {
+    const response = await fetch(`${AIRTABLE_API_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({})) as any;
+      const type = errorBody?.error?.type || errorBody?.error;
+      const message = errorBody?.error?.message || (typeof type === 'string' ? type : response.statusText);
+      throw new AirtableApiError(`Airtable API ${response.status}: ${message}`, response.status, typeof type === 'string' ? type : undefined);
+    }
+
+    return response.status === 204 ? (undefined as T) : await response.json() as T;
+  }
+
+  whoami(): Promise<{ id: string; email?: string; scopes?: string[] }> {
+    return this.request('GET', '/meta/whoami');
+  }
+
+  async listBases(): Promise<Array<{ id: string; name: string; permissionLevel: string }>> {
+    const bases: Array<{ id: string; name: string; permissionLevel: string }> = [];
+    let offset: string | undefined;
+    do {
+      const page = await this.request<any>('GET', `/meta/bases${offset ? `?offset=${encodeURIComponent(offset)}` : ''}`);
+      bases.push(...(page.bases || []));
+      offset = page.offset;
+    } while (offset);
+    return bases;
+  }
+
+  async listTables(baseId: string): Promise<AirtableTableSchema[]> {
+    const result = await this.request<{ tables: AirtableTableSchema[] }>('GET', `/meta/bases/${baseId}/tables`);
+    return result.tables || [];
+  }
+
+  /**
+   * All records of a table, optionally filtered by an Airtable formula
+   */
+  async listRecords(baseId: string, tableId: string, filterByFormula?: string): Promise<AirtableRecord[]> {
+    const records: AirtableRecord[] = [];
+    let offset: string | undefined;
+    do {
+      const params = new URLSearchParams({ pageSize: '100' });
+      if (filterByFormula) params.set('filterByFormula', filterByFormula);
+      if (offset) params.set('offset', offset);
+      const page = await this.request<any>('GET', `/${baseId}/${encodeURIComponent(tableId)}?${params.toString()}`);
+      records.push(...(page.records || []));
+      offset = page.offset;
+    } while (offset);
+    return records;
+  }
+
+  /**
+   * A record, or null if it no longer exists
+   */
+  async getRecord(baseId: string, tableId: string, recordId: string): Promise<AirtableRecord | null> {
+    try {
+      return await this.request<AirtableRecord>('GET', `/${baseId}/${encodeURIComponent(tableId)}/${recordId}`);
+    } catch (error) {
+      if (error instanceof AirtableApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  createRecord(baseId: string, tableId: string, fields: Record<string, any>): Promise<AirtableRecord> {
+    return this.request('POST', `/${baseId}/${encodeURIComponent(tableId)}`, { fields, typecast: true });
+  }
+
+  updateRecord(baseId: string, tableId: string, recordId: string, fields: Record<string, any>): Promise<AirtableRecord> {
+    return this.request('PATCH', `/${baseId}/${encodeURIComponent(tableId)}/${recordId}`, { fields, typecast: true });
+  }
+
+  async deleteRecord(baseId: string, tableId: string, recordId: string): Promise<void> {
+    try {
+      await this.request('DELETE', `/${baseId}/${encodeURIComponent(tableId)}/${recordId}`);
+    } catch (error) {
+      if (!(error instanceof AirtableApiError && error.status === 404)) throw error;
+    }
+  }
+
+  createWebhook(baseId: string, notificationUrl: string, tableId?: string): Promise<{ id: string; macSecretBase64: string; expirationTime: string | null }> {
+    return this.request('POST', `/bases/${baseId}/webhooks`, {
+      notificationUrl,
+      specification: {
+        options: {
+          filters: {
+            dataTypes: ['tableData'],
+            ...(tableId ? { recordChangeScope: tableId } : {})
+          }
+        }
+      }
+    });
+  }
+
+  async deleteWebhook(baseId: string, webhookId: string): Promise<void> {
+    await this.request('DELETE', `/bases/${baseId}/webhooks/${webhookId}`);
+  }
+
+  refreshWebhook(baseId: string, webhookId: string): Promise<{ expirationTime: string | null }> {
+    return this.request('POST', `/bases/${baseId}/webhooks/${webhookId}/refresh`);
+  }
+
+  listWebhookPayloads(baseId: string, webhookId: string, cursor?: number): Promise<{ payloads: AirtableWebhookPayload[]; cursor: number; mightHaveMore: boolean }> {
+    return this.request('GET', `/bases/${baseId}/webhooks/${webhookId}/payloads${cursor ? `?cursor=${cursor}` : ''}`);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Airtable Conflict Review Queue
+ *
+ * Resolution policies and the review queue for Airtable sync conflicts. The org-wide
+ * policy lives at airtableSyncSettings/{orgId} (a table mapping may override it);
+ * conflicts left for manual review are stored in airtableSyncConflicts, one document
+ * per mapping/record/field, and org admins are notified when new ones open.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../shared/utils';
+import { dispatchNotification } from '../notifications/notificationDispatcher';
+import {
+  AirtableConflictPolicy,
+  AIRTABLE_CONFLICT_POLICIES,
+  DEFAULT_AIRTABLE_CONFLICT_POLICY,
+  FieldConflict
+} from './airtableMerge';
+import type { AirtableTableMapping } from './airtableSync';
+
+export const CONFLICTS_COLLECTION = 'airtableSyncConflicts';
+
+export type AirtableConflictStatus = 'open' | 'resolved';
+
+export type AirtableConflictResolution = 'firebase' | 'airtable' | 'custom';
+
+export interface AirtableSyncConflict extends FieldConflict {
+  id: string;
+  organizationId: string;
+  mappingId: string;
+  recordId: string;
+  documentPath: string;
+  airtableField: string;
+  status: AirtableConflictStatus;
+  detectedAt: Date | null;
+  resolution: AirtableConflictResolution | null;
+  resolvedValue?: any;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+}
+
+export function isAirtableConflictPolicy(value: unknown): value is AirtableConflictPolicy {
+  return AIRTABLE_CONFLICT_POLICIES.includes(value as AirtableConflictPolicy);
+}
+
+export function conflictId(mappingId: string, recordId: string, field: string): string {
+  return `${mappingId}_${recordId}_${field}`;
+}
+
+export function toSyncConflict(doc: FirebaseFirestore.DocumentSnapshot): AirtableSyncConflict {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    organizationId: data.organizationId,
+    mappingId: data.mappingId,
+    recordId: data.recordId,
+    documentPath: data.documentPath,
+    field: data.field,
+    airtableField: data.airtableField,
+    baseValue: data.baseValue ?? null,
+    firebaseValue: data.firebaseValue ?? null,
+    airtableValue: data.airtableValue ?? null,
+    firebaseModifiedAt: data.firebaseModifiedAt?.toDate?.() || null,
+    airtableModifiedAt: data.airtableModifiedAt?.toDate?.() || null,
+    status: data.status,
+    detectedAt: data.detectedAt?.toDate?.() || null,
+    resolution: data.resolution || null,
+    resolvedValue: data.resolvedValue,
+    resolvedBy: data.resolvedBy || null,
+    resolvedAt: data.resolvedAt?.toDate?.() || null
+  };
+}
+
+/**
+ * Policy for a mapping: its own override, else the organization's, else newest wins
+ */
+export async function getConflictPolicy(mapping: AirtableTableMapping): Promise<AirtableConflictPolicy> {
+  if (isAirtableConflictPolicy(mapping.conflictPolicy)) {
+    return mapping.conflictPolicy;
+  }
+  const settings = await db.collection('airtableSyncSettings').doc(mapping.organizationId).get();
+  const policy = settings.data()?.conflictPolicy;
+  return isAirtableConflictPolicy(policy) ? policy : DEFAULT_AIRTABLE_CONFLICT_POLICY;
+}
+
+export async function setOrganizationConflictPolicy(
+  organizationId: string,
+  policy: AirtableConflictPolicy,
+  userId: string
+): Promise<void> {
+  await db.collection('airtableSyncSettings').doc(organizationId).set({
+    organizationId,
+    conflictPolicy: policy,
+    updatedAt: FieldValue.serverTimestamp(),
+    updatedBy: userId
+  }, { merge: true });
+}
+
+/**
+ * Fields of a record waiting for review; sync leaves them alone until they are resolved
+ */
+export async function getOpenConflictFields(mappingId: string, recordId: string): Promise<string[]> {
+  const snapshot = await db.collection(CONFLICTS_COLLECTION)
+    .where('mappingId', '==', mappingId)
+    .where('recordId', '==', recordId)
+    .where('status', '==', 'open')
+    .get();
+  return snapshot.docs.map(doc => doc.data().field);
+}
+
+/**
+ * Queue conflicts for review and notify org admins
+ */
+export async function openConflicts(
+  mapping: AirtableTableMapping,
+  recordId: string,
+  documentPath: string,
+  conflicts: FieldConflict[]
+): Promise<void> {
+  if (conflicts.length === 0) return;
+
+  const batch = db.batch();
+  for (const conflict of conflicts) {
+    const airtableField = mapping.fieldMappings.find(field => field.firebaseField === conflict.field)?.airtableField || conflict.field;
+    batch.set(db.collection(CONFLICTS_COLLECTION).doc(conflictId(mapping.id, recordId, conflict.field)), {
+      organizationId: mapping.organizationId,
+      mappingId: mapping.id,
+      baseId: mapping.baseId,
+      tableId: mapping.tableId,
+      firebaseCollection: mapping.firebaseCollection,
+      recordId,
+      documentPath,
+      field: conflict.field,
+      airtableField,
+      baseValue: conflict.baseValue,
+      firebaseValue: conflict.firebaseValue,
+      airtableValue: conflict.airtableValue,
+      firebaseModifiedAt: conflict.firebaseModifiedAt ? Timestamp.fromDate(conflict.firebaseModifiedAt) : null,
+      airtableModifiedAt: conflict.airtableModifiedAt ? Timestamp.fromDate(conflict.airtableModifiedAt) : null,
+      status: 'open',
+      detectedAt: FieldValue.serverTimestamp(),
+      resolution: null,
+      resolvedBy: null,
+      resolvedAt: null
+    });
+  }
+  await batch.commit();
+
+  console.log(`⚠️ [AirtableSync] ${conflicts.length} conflict(s) queued for review on ${documentPath}`);
+
+  try {
+    const fields = conflicts.map(conflict => conflict.field);
+    await dispatchNotification({
+      organizationId: mapping.organizationId,
+      category: 'conflict_detected',
+      title: 'Airtable sync conflict needs review',
+      message: `${fields.join(', ')} on ${documentPath} changed in both Airtable and Firestore since the last sync. Choose which value to keep in the sync conflict queue.`,
+      recipientRoles: ['ADMIN', 'OWNER'],
+      priority: 'high',
+      data: { mappingId: mapping.id, recordId, documentPath, fields }
+    });
+  } catch (error) {
+    console.warn('⚠️ [AirtableSync] Could not notify admins about sync conflicts:', error);
+  }
+}
+
+export async function listConflicts(
+  organizationId: string,
+  options: { status?: AirtableConflictStatus; mappingId?: string; limit?: number } = {}
+): Promise<AirtableSyncConflict[]> {
+  let query: FirebaseFirestore.Query = db.collection(CONFLICTS_COLLECTION)
+    .where('organizationId', '==', organizationId)
+    .where('status', '==', options.status || 'open');
+  if (options.mappingId) {
+    query = query.where('mappingId', '==', options.mappingId);
+  }
+  const snapshot = await query.orderBy('detectedAt', 'desc').limit(options.limit || 100).get();
+  return snapshot.docs.map(toSyncConflict);
+}
@@ -0,0 +1,194 @@
+/**
+ * Airtable Field Merge
+ *
+ * Field-level three-way merge for bidirectional Airtable sync. Each synced field keeps
+ * a baseline (the value both sides agreed on at the last sync) plus when each side last
+ * changed it; a field changed on only one side is copied to the other, a field changed
+ * on both sides is a conflict settled by the organization's resolution policy.
+ *
+ * Values are compared in Airtable representation (see transformFirebaseToAirtable), so
+ * Firestore Timestamps and Airtable date strings compare equal.
+ */
+
+export type AirtableConflictPolicy = 'firebase_wins' | 'airtable_wins' | 'newest_wins' | 'manual';
+
+export const AIRTABLE_CONFLICT_POLICIES: AirtableConflictPolicy[] = ['firebase_wins', 'airtable_wins', 'newest_wins', 'manual'];
+
+export const DEFAULT_AIRTABLE_CONFLICT_POLICY: AirtableConflictPolicy = 'newest_wins';
+
+export type SyncSide = 'firebase' | 'airtable';
+
+export interface FieldSyncState {
+  /** Value at the last successful sync (Airtable representation); null if the field was empty */
+  value: any;
+  syncedAt: Date | null;
+  firebaseModifiedAt: Date | null;
+  airtableModifiedAt: Date | null;
+}
+
+export interface FieldConflict {
+  field: string;
+  baseValue: any;
+  firebaseValue: any;
+  airtableValue: any;
+  firebaseModifiedAt: Date | null;
+  airtableModifiedAt: Date | null;
+}
+
+export interface FieldMergeInput {
+  /** Per-field baselines keyed by Firestore field; missing when the pair has never been merged */
+  baseline: Record<string, FieldSyncState> | null;
+  firebaseValues: Record<string, any>;
+  airtableValues: Record<string, any>;
+  /** When each side's record last changed; stamped on the fields that changed */
+  firebaseModifiedAt: Date | null;
+  airtableModifiedAt: Date | null;
+  policy: AirtableConflictPolicy;
+  /** Side whose change triggered the sync; wins differences when there is no baseline yet */
+  source: SyncSide;
+  /** Fields with an open review item; left untouched until resolved */
+  openConflicts?: string[];
+  now: Date;
+}
+
+export interface FieldMergePlan {
+  /** Values to write to Firestore, keyed by Firestore field (Airtable representation) */
+  toFirebase: Record<string, any>;
+  /** Values to write to Airtable, keyed by Firestore field (Airtable representation) */
+  toAirtable: Record<string, any>;
+  /** Conflicts the policy settled */
+  resolved: Array<FieldConflict & { winner: SyncSide }>;
+  /** Conflicts left for manual review */
+  unresolved: FieldConflict[];
+  baseline: Record<string, FieldSyncState>;
+}
+
+function normalize(value: any): any {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ? null : value;
+}
+
+/**
+ * Structural equality for field values; empty strings and empty arrays count as empty
+ */
+export function fieldValuesEqual(a: any, b: any): boolean {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === null || right === null || typeof left !== 'object' || typeof right !== 'object') {
+    return left === right;
+  }
+  if (Array.isArray(left) !== Array.isArray(right)) {
+    return false;
+  }
+  const leftKeys = Object.keys(left);
+  const rightKeys = Object.keys(right);
+  return leftKeys.length === rightKeys.length && leftKeys.every(key => fieldValuesEqual(left[key], right[key]));
+}
+
+function pickWinner(conflict: FieldConflict, policy: AirtableConflictPolicy): SyncSide | null {
+  switch (policy) {
+    case 'firebase_wins':
+      return 'firebase';
+    case 'airtable_wins':
+      return 'airtable';
+    case 'newest_wins': {
+      // Ties and unknown times keep the Firestore value
+      const firebaseTime = conflict.firebaseModifiedAt?.getTime() ?? 0;
+      const airtableTime = conflict.airtableModifiedAt?.getTime() ?? 0;
+      return airtableTime > firebaseTime ? 'airtable' : 'firebase';
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decide, field by field, which side's value to keep
+ */
+export function planFieldMerge(input: FieldMergeInput): FieldMergePlan {
+  const plan: FieldMergePlan = { toFirebase: {}, toAirtable: {}, resolved: [], unresolved: [], baseline: {} };
+  const fields = new Set([...Object.keys(input.firebaseValues), ...Object.keys(input.airtableValues)]);
+  Object.keys(input.baseline || {}).forEach(field => fields.add(field));
+  const openConflicts = new Set(input.openConflicts || []);
+
+  const synced = (value: any, previous?: FieldSyncState): FieldSyncState => ({
+    value: normalize(value),
+    syncedAt: input.now,
+    firebaseModifiedAt: previous?.firebaseModifiedAt ?? null,
+    airtableModifiedAt: previous?.airtableModifiedAt ?? null
+  });
+
+  for (const field of fields) {
+    const firebaseValue = normalize(input.firebaseValues[field]);
+    const airtableValue = normalize(input.airtableValues[field]);
+    const previous = input.baseline?.[field];
+
+    if (openConflicts.has(field)) {
+      if (previous) plan.baseline[field] = previous;
+      continue;
+    }
+
+    if (fieldValuesEqual(firebaseValue, airtableValue)) {
+      plan.baseline[field] = synced(firebaseValue, previous);
+      continue;
+    }
+
+    if (!previous) {
+      // Never merged: an empty side takes the other's value, otherwise the triggering
+      // side wins as it did with whole-record sync
+      const fromFirebase = airtableValue === null || (firebaseValue !== null && input.source === 'firebase');
+      if (fromFirebase) {
+        plan.toAirtable[field] = firebaseValue;
+        plan.baseline[field] = { ...synced(firebaseValue), firebaseModifiedAt: input.firebaseModifiedAt };
+      } else {
+        plan.toFirebase[field] = airtableValue;
+        plan.baseline[field] = { ...synced(airtableValue), airtableModifiedAt: input.airtableModifiedAt };
+      }
+      continue;
+    }
+
+    const firebaseChanged = !fieldValuesEqual(firebaseValue, previous.value);
+    const airtableChanged = !fieldValuesEqual(airtableValue, previous.value);
+
+    if (firebaseChanged && !airtableChanged) {
+      plan.toAirtable[field] = firebaseValue;
+      plan.baseline[field] = { ...synced(firebaseValue, previous), firebaseModifiedAt: input.firebaseModifiedAt };
+      continue;
+    }
+    if (airtableChanged && !firebaseChanged) {
+      plan.toFirebase[field] = airtableValue;
+      plan.baseline[field] = { ...synced(airtableValue, previous), airtableModifiedAt: input.airtableModifiedAt };
+      continue;
+    }
+
+    const conflict: FieldConflict = {
+      field,
+      baseValue: previous.value,
+      firebaseValue,
+      airtableValue,
+      firebaseModifiedAt: input.firebaseModifiedAt,
+      airtableModifiedAt: input.airtableModifiedAt
+    };
+    const winner = pickWinner(conflict, input.policy);
+    if (!winner) {
+      plan.unresolved.push(conflict);
+      plan.baseline[field] = previous;
+      continue;
+    }
+
+    const value = winner === 'firebase' ? firebaseValue : airtableValue;
+    if (winner === 'firebase') {
+      plan.toAirtable[field] = value;
+    } else {
+      plan.toFirebase[field] = value;
+    }
+    plan.resolved.push({ ...conflict, winner });
+    plan.baseline[field] = {
+      value,
+      syncedAt: input.now,
+      firebaseModifiedAt: input.firebaseModifiedAt,
+      airtableModifiedAt: input.airtableModifiedAt
+    };
+  }
+
+  return plan;
+}
@@ -0,0 +1,636 @@
+/**
+ * Airtable Sync
+ *
+ * Record sync between Airtable tables and Firestore collections, driven by table
+ * mappings (airtableFieldMappings). Run as jobs on the shared connector sync queue
+ * by the Airtable provider; see integrations/airtable.ts for the callables.
+ *
+ * Records that exist on both sides are merged field by field (see airtableMerge.ts)
+ * against the baseline kept in airtableSyncState/{mappingId}_{recordId}, so a sync
+ * only copies the fields that changed and concurrent edits surface as conflicts.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../shared/utils';
+import { AirtableClient, AirtableRecord } from './airtableClient';
+import { AirtableConflictPolicy, FieldSyncState, planFieldMerge, SyncSide } from './airtableMerge';
+import {
+  AirtableConflictResolution,
+  CONFLICTS_COLLECTION,
+  getConflictPolicy,
+  getOpenConflictFields,
+  openConflicts,
+  toSyncConflict
+} from './airtableConflicts';
+
+export interface AirtableFieldMapping {
+  airtableField: string;
+  firebaseField: string;
+  airtableType: string;
+}
+
+export type AirtableSyncDirection = 'both' | 'airtable_to_firebase' | 'firebase_to_airtable';
+
+export interface AirtableTableMapping {
+  id: string;
+  organizationId: string;
+  baseId: string;
+  tableId: string;
+  firebaseCollection: string;
+  fieldMappings: AirtableFieldMapping[];
+  syncDirection: AirtableSyncDirection;
+  isActive: boolean;
+  /** Overrides the organization's conflict policy for this table */
+  conflictPolicy?: AirtableConflictPolicy;
+  /** Airtable "Last modified time" field; without it Airtable changes are dated when sync sees them */
+  lastModifiedField?: string;
+}
+
+export interface AirtableSyncResult {
+  processedCount: number;
+  errorCount: number;
+  totalRecords: number;
+  conflictCount: number;
+}
+
+const PUSH_PAGE_SIZE = 200;
+
+/**
+ * Transform Airtable record fields to Firebase document fields
+ */
+export function transformAirtableToFirebase(fields: Record<string, any>, mapping: Pick<AirtableTableMapping, 'fieldMappings'>): Record<string, any> {
+  const firebaseDoc: Record<string, any> = {};
+
+  for (const fieldMapping of mapping.fieldMappings) {
+    const airtableValue = fields[fieldMapping.airtableField];
+    const firebaseField = fieldMapping.firebaseField;
+
+    if (airtableValue === undefined) {
+      continue;
+    }
+
+    switch (fieldMapping.airtableType) {
+      case 'singleLineText':
+      case 'multilineText':
+      case 'email':
+      case 'phoneNumber':
+      case 'url':
+        firebaseDoc[firebaseField] = String(airtableValue);
+        break;
+
+      case 'number':
+      case 'currency':
+      case 'percent':
+      case 'rating':
+        firebaseDoc[firebaseField] = Number(airtableValue);
+        break;
+
+      case 'checkbox':
+        firebaseDoc[firebaseField] = Boolean(airtableValue);
+        break;
+
+      case 'date':
+      case 'dateTime':
+        firebaseDoc[firebaseField] = Timestamp.fromDate(new Date(airtableValue));
+        break;
+
+      case 'multipleSelects':
+      case 'multipleRecordLinks':
+      case 'multipleAttachments':
+        firebaseDoc[firebaseField] = Array.isArray(airtableValue) ? airtableValue : [];
+        break;
+
+      default:
+        firebaseDoc[firebaseField] = airtableValue;
+    }
+  }
+
+  return firebaseDoc;
+}
+
+/**
+ * Transform a Firebase document to Airtable record fields
+ */
+export function transformFirebaseToAirtable(firebaseDoc: Record<string, any>, mapping: Pick<AirtableTableMapping, 'fieldMappings'>): Record<string, any> {
+  const airtableRecord: Record<string, any> = {};
+
+  for (const fieldMapping of mapping.fieldMappings) {
+    const firebaseValue = firebaseDoc[fieldMapping.firebaseField];
+    const airtableField = fieldMapping.airtableField;
+
+    if (firebaseValue === undefined || firebaseValue === null) {
+      continue;
+    }
+
+    switch (fieldMapping.airtableType) {
+      case 'singleLineText':
+      case 'multilineText':
+      case 'email':
+      case 'phoneNumber':
+      case 'url':
+        airtableRecord[airtableField] = String(firebaseValue);
+        break;
+
+      case 'number':
+      case 'currency':
+      case 'percent':
+      case 'rating':
+        airtableRecord[airtableField] = Number(firebaseValue);
+        break;
+
+      case 'checkbox':
+        airtableRecord[airtableField] = Boolean(firebaseValue);
+        break;
+
+      case 'date':
+      case 'dateTime':
+        if (firebaseValue instanceof Timestamp) {
+          airtableRecord[airtableField] = firebaseValue.toDate().toISOString();
+        } else if (firebaseValue instanceof Date) {
+          airtableRecord[airtableField] = firebaseValue.toISOString();
+        } else if (typeof firebaseValue === 'string') {
+          airtableRecord[airtableField] = firebaseValue;
+        }
+        break;
+
+      case 'multipleSelects':
+      case 'multipleRecordLinks':
+      case 'multipleAttachments':
+        airtableRecord[airtableField] = Array.isArray(firebaseValue) ? firebaseValue : [];
+        break;
+
+      default:
+        airtableRecord[airtableField] = firebaseValue;
+    }
+  }
+
+  return airtableRecord;
+}
+
+function toTableMapping(doc: FirebaseFirestore.DocumentSnapshot): AirtableTableMapping {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    organizationId: data.organizationId,
+    baseId: data.baseId,
+    tableId: data.tableId,
+    firebaseCollection: data.firebaseCollection,
+    fieldMappings: data.fieldMappings || [],
+    syncDirection: data.syncDirection || 'both',
+    isActive: data.isActive !== false,
+    conflictPolicy: data.conflictPolicy,
+    lastModifiedField: data.lastModifiedField
+  };
+}
+
+export async function getTableMapping(organizationId: string, mappingId: string): Promise<AirtableTableMapping> {
+  const doc = await db.collection('airtableFieldMappings').doc(mappingId).get();
+  if (!doc.exists || doc.data()?.organizationId !== organizationId) {
+    throw new Error('Field mapping not found');
+  }
+  return toTableMapping(doc);
+}
+
+export async function findTableMappings(organizationId: string, baseId?: string, tableId?: string): Promise<AirtableTableMapping[]> {
+  let query: FirebaseFirestore.Query = db.collection('airtableFieldMappings').where('organizationId', '==', organizationId);
+  if (baseId) query = query.where('baseId', '==', baseId);
+  if (tableId) query = query.where('tableId', '==', tableId);
+  const snapshot = await query.get();
+  return snapshot.docs.map(toTableMapping).filter(mapping => mapping.isActive);
+}
+
+function syncMetadataRef(mappingId: string) {
+  return db.collection('airtableSyncMetadata').doc(mappingId);
+}
+
+/**
+ * Firestore document for an Airtable record: documents created in Firestore carry
+ * `_airtableId`; documents created from Airtable use the record id as document id
+ */
+async function findDocumentForRecord(mapping: AirtableTableMapping, recordId: string): Promise<FirebaseFirestore.DocumentReference> {
+  const linked = await db.collection(mapping.firebaseCollection)
+    .where('organizationId', '==', mapping.organizationId)
+    .where('_airtableId', '==', recordId)
+    .limit(1)
+    .get();
+  return linked.empty ? db.collection(mapping.firebaseCollection).doc(recordId) : linked.docs[0].ref;
+}
+
+function recordSyncFields(mapping: AirtableTableMapping, recordId: string) {
+  return {
+    organizationId: mapping.organizationId,
+    _airtableId: recordId,
+    _airtableBaseId: mapping.baseId,
+    _airtableTableId: mapping.tableId,
+    _syncOrigin: 'airtable',
+    _lastSyncedAt: FieldValue.serverTimestamp()
+  };
+}
+
+function syncStateRef(mappingId: string, recordId: string) {
+  return db.collection('airtableSyncState').doc(`${mappingId}_${recordId}`);
+}
+
+function toFieldSyncState(data: any): FieldSyncState {
+  return {
+    value: data?.value ?? null,
+    syncedAt: data?.syncedAt?.toDate?.() || null,
+    firebaseModifiedAt: data?.firebaseModifiedAt?.toDate?.() || null,
+    airtableModifiedAt: data?.airtableModifiedAt?.toDate?.() || null
+  };
+}
+
+/**
+ * Mapped values of a Firestore document in Airtable representation, keyed by Firestore field
+ */
+function firebaseComparableValues(mapping: AirtableTableMapping, data: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const field of mapping.fieldMappings) {
+    values[field.firebaseField] = transformFirebaseToAirtable(data, { fieldMappings: [field] })[field.airtableField] ?? null;
+  }
+  return values;
+}
+
+/**
+ * Mapped values of an Airtable record, normalized through the Firestore representation
+ * so both sides compare alike, keyed by Firestore field
+ */
+function airtableComparableValues(mapping: AirtableTableMapping, fields: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const field of mapping.fieldMappings) {
+    const firebaseValue = transformAirtableToFirebase(fields, { fieldMappings: [field] });
+    values[field.firebaseField] = transformFirebaseToAirtable(firebaseValue, { fieldMappings: [field] })[field.airtableField] ?? null;
+  }
+  return values;
+}
+
+/**
+ * Comparable values (keyed by Firestore field) as a Firestore update; empty values clear the field
+ */
+function toFirebaseUpdate(mapping: AirtableTableMapping, values: Record<string, any>): Record<string, any> {
+  const update: Record<string, any> = {};
+  for (const [firebaseField, value] of Object.entries(values)) {
+    const field = mapping.fieldMappings.find(candidate => candidate.firebaseField === firebaseField);
+    if (!field) continue;
+    update[firebaseField] = value === null
+      ? null
+      : transformAirtableToFirebase({ [field.airtableField]: value }, { fieldMappings: [field] })[firebaseField];
+  }
+  return update;
+}
+
+/**
+ * Comparable values (keyed by Firestore field) as Airtable record fields; null clears a cell
+ */
+function toAirtableFields(mapping: AirtableTableMapping, values: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  for (const [firebaseField, value] of Object.entries(values)) {
+    const field = mapping.fieldMappings.find(candidate => candidate.firebaseField === firebaseField);
+    if (field) fields[field.airtableField] = value;
+  }
+  return fields;
+}
+
+function airtableModifiedAt(mapping: AirtableTableMapping, record: AirtableRecord, observedAt: Date): Date {
+  const value = mapping.lastModifiedField ? record.fields[mapping.lastModifiedField] : undefined;
+  const modifiedAt = value ? new Date(value) : null;
+  return modifiedAt && !isNaN(modifiedAt.getTime()) ? modifiedAt : observedAt;
+}
+
+/**
+ * Merge an Airtable record with its Firestore document field by field, writing each
+ * side only the fields it is missing. Returns the number of conflicts found.
+ */
+async function mergeRecord(
+  client: AirtableClient,
+  mapping: AirtableTableMapping,
+  ref: FirebaseFirestore.DocumentReference,
+  record: AirtableRecord,
+  source: SyncSide,
+  observedAt: Date
+): Promise<number> {
+  const stateRef = syncStateRef(mapping.id, record.id);
+  const [snapshot, state, openFields, policy] = await Promise.all([
+    ref.get(),
+    stateRef.get(),
+    getOpenConflictFields(mapping.id, record.id),
+    getConflictPolicy(mapping)
+  ]);
+  const data = snapshot.data();
+  const storedFields: Record<string, any> | undefined = state.data()?.fields;
+
+  const plan = planFieldMerge({
+    baseline: storedFields
+      ? Object.fromEntries(Object.entries(storedFields).map(([field, value]) => [field, toFieldSyncState(value)]))
+      : null,
+    firebaseValues: data ? firebaseComparableValues(mapping, data) : {},
+    airtableValues: airtableComparableValues(mapping, record.fields),
+    firebaseModifiedAt: data?.updatedAt?.toDate?.() || null,
+    airtableModifiedAt: airtableModifiedAt(mapping, record, observedAt),
+    policy,
+    source,
+    openConflicts: openFields,
+    now: new Date()
+  });
+
+  // Pushes only ever write Airtable; a pull may still have to link or create the document
+  if (Object.keys(plan.toFirebase).length > 0 || (source === 'airtable' && data?._airtableId !== record.id)) {
+    await ref.set({ ...toFirebaseUpdate(mapping, plan.toFirebase), ...recordSyncFields(mapping, record.id) }, { merge: true });
+  } else if (snapshot.exists) {
+    await ref.update({ _lastSyncedAt: FieldValue.serverTimestamp() });
+  }
+
+  if (Object.keys(plan.toAirtable).length > 0) {
+    await client.updateRecord(mapping.baseId, mapping.tableId, record.id, toAirtableFields(mapping, plan.toAirtable));
+  }
+
+  for (const conflict of plan.resolved) {
+    console.log(`🔀 [AirtableSync] ${ref.path}.${conflict.field} changed on both sides; kept ${conflict.winner} value (${policy})`);
+  }
+  await openConflicts(mapping, record.id, ref.path, plan.unresolved);
+
+  await stateRef.set({
+    organizationId: mapping.organizationId,
+    mappingId: mapping.id,
+    recordId: record.id,
+    documentPath: ref.path,
+    fields: plan.baseline,
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  return plan.resolved.length + plan.unresolved.length;
+}
+
+/**
+ * Sync one Airtable record into its Firestore document. Returns the number of conflicts found.
+ */
+export async function applyAirtableRecord(
+  client: AirtableClient,
+  mapping: AirtableTableMapping,
+  record: AirtableRecord,
+  observedAt: Date = new Date()
+): Promise<number> {
+  const ref = await findDocumentForRecord(mapping, record.id);
+  return mergeRecord(client, mapping, ref, record, 'airtable', observedAt);
+}
+
+/**
+ * Pull a table into its Firestore collection ('incremental' only reads records
+ * modified since the last pull)
+ */
+export async function pullAirtableTable(
+  client: AirtableClient,
+  mapping: AirtableTableMapping,
+  mode: 'full' | 'incremental'
+): Promise<AirtableSyncResult> {
+  const metadataRef = syncMetadataRef(mapping.id);
+  const metadata = (await metadataRef.get()).data();
+  const lastPullAt: Date | null = metadata?.lastPullAt?.toDate?.() || null;
+  const startedAt = Timestamp.now();
+
+  const formula = mode === 'incremental' && lastPullAt
+    ? `IS_AFTER(LAST_MODIFIED_TIME(), '${lastPullAt.toISOString()}')`
+    : undefined;
+  const records = await client.listRecords(mapping.baseId, mapping.tableId, formula);
+
+  let processedCount = 0;
+  let errorCount = 0;
+  let conflictCount = 0;
+  for (const record of records) {
+    try {
+      conflictCount += await applyAirtableRecord(client, mapping, record, startedAt.toDate());
+      processedCount++;
+    } catch (error) {
+      console.error(`❌ [AirtableSync] Failed to apply record ${record.id}:`, error);
+      errorCount++;
+    }
+  }
+
+  await metadataRef.set({
+    organizationId: mapping.organizationId,
+    baseId: mapping.baseId,
+    tableId: mapping.tableId,
+    lastPullAt: startedAt,
+    lastPullMode: mode,
+    lastPullRecords: processedCount,
+    lastPullErrors: errorCount,
+    lastPullConflicts: conflictCount
+  }, { merge: true });
+
+  return { processedCount, errorCount, totalRecords: records.length, conflictCount };
+}
+
+/**
+ * Push one Firestore document to Airtable (creating the record on first push).
+ * Returns the number of conflicts found.
+ */
+export async function pushFirebaseDocument(
+  client: AirtableClient,
+  mapping: AirtableTableMapping,
+  doc: FirebaseFirestore.DocumentSnapshot
+): Promise<number> {
+  const data = doc.data();
+  if (!data) {
+    return 0;
+  }
+
+  if (data._airtableId) {
+    const record = await client.getRecord(mapping.baseId, mapping.tableId, data._airtableId);
+    if (!record) {
+      throw new Error(`Airtable record ${data._airtableId} no longer exists`);
+    }
+    return mergeRecord(client, mapping, doc.ref, record, 'firebase', new Date());
+  }
+
+  const created = await client.createRecord(mapping.baseId, mapping.tableId, transformFirebaseToAirtable(data, mapping));
+  await doc.ref.update({
+    _airtableId: created.id,
+    _airtableBaseId: mapping.baseId,
+    _airtableTableId: mapping.tableId,
+    _lastSyncedAt: FieldValue.serverTimestamp()
+  });
+  // Records the baseline for later merges
+  return mergeRecord(client, mapping, doc.ref, created, 'firebase', new Date());
+}
+
+/**
+ * Push a collection to Airtable ('changed' only pushes documents updated since the last push)
+ */
+export async function pushFirebaseCollection(
+  client: AirtableClient,
+  mapping: AirtableTableMapping,
+  mode: 'full' | 'changed'
+): Promise<AirtableSyncResult> {
+  const metadataRef = syncMetadataRef(mapping.id);
+  const metadata = (await metadataRef.get()).data();
+  const lastPushAt: Timestamp | null = metadata?.lastPushAt || null;
+  const startedAt = Timestamp.now();
+
+  let query: FirebaseFirestore.Query = db.collection(mapping.firebaseCollection)
+    .where('organizationId', '==', mapping.organizationId);
+  if (mode === 'changed' && lastPushAt) {
+    query = query.where('updatedAt', '>', lastPushAt).orderBy('updatedAt');
+  }
+
+  let processedCount = 0;
+  let errorCount = 0;
+  let conflictCount = 0;
+  let totalRecords = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  do {
+    const page = await (last ? query.startAfter(last) : query).limit(PUSH_PAGE_SIZE).get();
+    for (const doc of page.docs) {
+      try {
+        conflictCount += await pushFirebaseDocument(client, mapping, doc);
+        processedCount++;
+      } catch (error) {
+        console.error(`❌ [AirtableSync] Failed to push document ${doc.id}:`, error);
+        errorCount++;
+      }
+    }
+    totalRecords += page.size;
+    last = page.size === PUSH_PAGE_SIZE ? page.docs[page.docs.length - 1] : undefined;
+  } while (last);
+
+  await metadataRef.set({
+    organizationId: mapping.organizationId,
+    baseId: mapping.baseId,
+    tableId: mapping.tableId,
+    lastPushAt: startedAt,
+    lastPushMode: mode,
+    lastPushRecords: processedCount,
+    lastPushErrors: errorCount,
+    lastPushConflicts: conflictCount
+  }, { merge: true });
+
+  return { processedCount, errorCount, totalRecords, conflictCount };
+}
+
+/**
+ * Read webhook payloads from the stored cursor and apply the record changes they
+ * describe to every mapped table
+ */
+export async function applyAirtableWebhookPayloads(
+  client: AirtableClient,
+  organizationId: string,
+  baseId: string,
+  webhookId: string
+): Promise<{ payloads: number; records: number }> {
+  const cursorRef = db.collection('airtableSyncMetadata').doc(`webhook_${webhookId}`);
+  let cursor: number | undefined = (await cursorRef.get()).data()?.cursor;
+
+  const mappings = (await findTableMappings(organizationId, baseId))
+    .filter(mapping => mapping.syncDirection !== 'firebase_to_airtable');
+  const mappingsByTable = new Map(mappings.map(mapping => [mapping.tableId, mapping]));
+
+  let payloadCount = 0;
+  let recordCount = 0;
+  let mightHaveMore = true;
+  while (mightHaveMore) {
+    const page = await client.listWebhookPayloads(baseId, webhookId, cursor);
+
+    for (const payload of page.payloads) {
+      for (const [tableId, changes] of Object.entries(payload.changedTablesById || {})) {
+        const mapping = mappingsByTable.get(tableId);
+        if (!mapping) continue;
+
+        const upserted = [
+          ...Object.keys(changes.createdRecordsById || {}),
+          ...Object.keys(changes.changedRecordsById || {})
+        ];
+        for (const recordId of upserted) {
+          const record = await client.getRecord(baseId, tableId, recordId);
+          if (record) {
+            await applyAirtableRecord(client, mapping, record, new Date(payload.timestamp));
+            recordCount++;
+          }
+        }
+
+        for (const recordId of changes.destroyedRecordIds || []) {
+          const ref = await findDocumentForRecord(mapping, recordId);
+          await ref.delete();
+          await syncStateRef(mapping.id, recordId).delete();
+          recordCount++;
+        }
+      }
+    }
+
+    payloadCount += page.payloads.length;
+    cursor = page.cursor;
+    mightHaveMore = page.mightHaveMore;
+    await cursorRef.set({ organizationId, baseId, webhookId, cursor, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+  }
+
+  return { payloads: payloadCount, records: recordCount };
+}
+
+/**
+ * Settle a queued conflict: write the chosen value (in Airtable representation for
+ * 'custom') to both sides and make it the field's new baseline
+ */
+export async function resolveAirtableConflict(
+  client: AirtableClient,
+  organizationId: string,
+  conflictId: string,
+  resolution: AirtableConflictResolution,
+  userId: string,
+  customValue?: any
+): Promise<{ value: any }> {
+  const conflictRef = db.collection(CONFLICTS_COLLECTION).doc(conflictId);
+  const conflictDoc = await conflictRef.get();
+  if (!conflictDoc.exists || conflictDoc.data()?.organizationId !== organizationId) {
+    throw new Error('Conflict not found');
+  }
+  const conflict = toSyncConflict(conflictDoc);
+  if (conflict.status !== 'open') {
+    throw new Error('Conflict is already resolved');
+  }
+
+  const mapping = await getTableMapping(organizationId, conflict.mappingId);
+  const ref = db.doc(conflict.documentPath);
+  const [snapshot, record] = await Promise.all([
+    ref.get(),
+    client.getRecord(mapping.baseId, mapping.tableId, conflict.recordId)
+  ]);
+  if (!snapshot.exists || !record) {
+    throw new Error('The conflicting record no longer exists on both sides');
+  }
+
+  // Current values, not the ones captured when the conflict was queued
+  const value = resolution === 'custom'
+    ? customValue ?? null
+    : resolution === 'firebase'
+      ? firebaseComparableValues(mapping, snapshot.data()!)[conflict.field] ?? null
+      : airtableComparableValues(mapping, record.fields)[conflict.field] ?? null;
+
+  await client.updateRecord(mapping.baseId, mapping.tableId, conflict.recordId, toAirtableFields(mapping, { [conflict.field]: value }));
+  await ref.update({ ...toFirebaseUpdate(mapping, { [conflict.field]: value }), _lastSyncedAt: FieldValue.serverTimestamp() });
+
+  const now = new Date();
+  await syncStateRef(mapping.id, conflict.recordId).set({
+    organizationId,
+    mappingId: mapping.id,
+    recordId: conflict.recordId,
+    documentPath: conflict.documentPath,
+    fields: {
+      [conflict.field]: {
+        value,
+        syncedAt: now,
+        firebaseModifiedAt: resolution === 'firebase' ? conflict.firebaseModifiedAt : now,
+        airtableModifiedAt: resolution === 'airtable' ? conflict.airtableModifiedAt : now
+      }
+    },
+    updatedAt: FieldValue.serverTimestamp()
+  }, { merge: true });
+
+  await conflictRef.update({
+    status: 'resolved',
+    resolution,
+    resolvedValue: value,
+    resolvedBy: userId,
+    resolvedAt: FieldValue.serverTimestamp()
+  });
+
+  console.log(`✅ [AirtableSync] Resolved conflict ${conflictId} with ${resolution} value`);
+  return { value };
+}
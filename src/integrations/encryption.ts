@@ -6,6 +6,7 @@
  */
 
 import * as crypto from 'crypto';
+import { buildKeyring, decryptWithKeyring, Keyring, parseCiphertextKeyId } from './unified-oauth/keyring';
 
 // Encryption configuration
 const ALGORITHM = 'aes-256-gcm';
@@ -14,20 +15,16 @@ const SALT_LENGTH = 64;
 const TAG_LENGTH = 16;
 
 /**
- * Get encryption key from Environment Variable or Secret Manager
- * Supports environment variables and Secret Manager via defineSecret
+ * Get the keyring from environment variables (secrets declared on the function are exposed there)
  */
-function getEncryptionKey(): string {
-  // Try environment variable first (for backward compatibility and local development)
-  const envKey = process.env.INTEGRATIONS_ENCRYPTION_KEY || process.env.ENCRYPTION_KEY;
-  if (envKey && envKey.trim().length > 0) {
-    console.log('✅ [encryption] Using encryption key from environment variable');
-    return envKey;
+function getKeyring(): Keyring {
+  try {
+    return buildKeyring(process.env);
+  } catch (error) {
+    console.error('❌ [encryption] Encryption key not found in environment variables');
+    console.error('   Available env vars:', Object.keys(process.env).filter(k => k.includes('ENCRYPTION') || k.includes('INTEGRATION')));
+    throw new Error('Encryption key not configured. Please set INTEGRATIONS_ENCRYPTION_KEY or ENCRYPTION_KEY environment variable, or configure in Secret Manager.');
   }
-
-  console.error('❌ [encryption] Encryption key not found in environment variables');
-  console.error('   Available env vars:', Object.keys(process.env).filter(k => k.includes('ENCRYPTION') || k.includes('INTEGRATION')));
-  throw new Error('Encryption key not configured. Please set INTEGRATIONS_ENCRYPTION_KEY or ENCRYPTION_KEY environment variable, or configure in Secret Manager.');
 }
 
 /**
@@ -41,8 +38,16 @@ function deriveKey(masterKey: string, salt: Buffer): Buffer {
  * Encrypt OAuth tokens before storing in Firestore
  */
 export function encryptTokens(tokens: any): string {
+  return encryptTokensBlob(JSON.stringify(tokens));
+}
+
+/**
+ * Encrypt an already serialized tokens payload under the primary key
+ */
+export function encryptTokensBlob(plaintext: string): string {
   try {
-    const masterKey = getEncryptionKey();
+    const primary = getKeyring().primary;
+    const masterKey = primary.secret!;
     const salt = crypto.randomBytes(SALT_LENGTH);
     const iv = crypto.randomBytes(IV_LENGTH);
     const key = deriveKey(masterKey, salt);
@@ -50,7 +55,7 @@ export function encryptTokens(tokens: any): string {
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
     cipher.setAAD(salt);
 
-    let encrypted = cipher.update(JSON.stringify(tokens), 'utf8', 'hex');
+    let encrypted = cipher.update(plaintext, 'utf8', 'hex');
     encrypted += cipher.final('hex');
 
     const tag = cipher.getAuthTag();
@@ -63,7 +68,8 @@ export function encryptTokens(tokens: any): string {
       Buffer.from(encrypted, 'hex')
     ]);
 
-    return combined.toString('base64');
+    // Key ID prefix; '.' is outside the base64 alphabet so untagged values stay unambiguous
+    return `${primary.keyId}.${combined.toString('base64')}`;
   } catch (error) {
     console.error('Token encryption failed:', error);
     throw new Error('Failed to encrypt tokens');
@@ -71,45 +77,74 @@ export function encryptTokens(tokens: any): string {
 }
 
 /**
- * Decrypt OAuth tokens from Firestore
+ * Split a tokens blob into its key ID (when tagged) and base64 body
  */
-export function decryptTokens(encryptedData: string): any {
-  try {
-    const masterKey = getEncryptionKey();
+function parseTokensBlob(encryptedData: string): { keyId: string | null; body: string } {
+  const keyId = parseCiphertextKeyId(encryptedData);
+  return { keyId, body: keyId ? encryptedData.substring(keyId.length + 1) : encryptedData };
+}
 
-    // Validate base64 format
-    if (!encryptedData || typeof encryptedData !== 'string') {
-      throw new Error('Invalid encrypted data: must be a non-empty base64 string');
-    }
+/**
+ * Decrypt a tokens blob and report which key it was encrypted with.
+ * Untagged blobs are tried against every key in the keyring.
+ */
+export function decryptTokensBlob(encryptedData: string): { plaintext: string; keyId: string; tagged: boolean } {
+  // Validate base64 format
+  if (!encryptedData || typeof encryptedData !== 'string') {
+    throw new Error('Invalid encrypted data: must be a non-empty base64 string');
+  }
 
-    // Validate base64 characters (basic check)
-    const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-    if (!base64Regex.test(encryptedData)) {
-      throw new Error('Invalid base64 format in encrypted data');
-    }
+  const { keyId, body } = parseTokensBlob(encryptedData);
+
+  // Validate base64 characters (basic check)
+  const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
+  if (!base64Regex.test(body)) {
+    throw new Error('Invalid base64 format in encrypted data');
+  }
 
-    const combined = Buffer.from(encryptedData, 'base64');
+  const combined = Buffer.from(body, 'base64');
 
-    // Validate buffer size (must be at least salt + iv + tag)
-    const minSize = SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
-    if (combined.length < minSize) {
-      throw new Error(`Encrypted data too short: expected at least ${minSize} bytes, got ${combined.length}`);
-    }
+  // Validate buffer size (must be at least salt + iv + tag)
+  const minSize = SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+  if (combined.length < minSize) {
+    throw new Error(`Encrypted data too short: expected at least ${minSize} bytes, got ${combined.length}`);
+  }
 
-    // Extract components
-    const salt = combined.subarray(0, SALT_LENGTH);
-    const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = combined.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+  // Extract components
+  const salt = combined.subarray(0, SALT_LENGTH);
+  const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const tag = combined.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+  const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
 
-    const key = deriveKey(masterKey, salt);
+  const keyring = getKeyring();
+  const candidates = keyring.keys.filter(entry => entry.secret && (!keyId || entry.keyId === keyId));
+  if (keyId && candidates.length === 0) {
+    throw new Error(`Tokens were encrypted with key ${keyId}, which is not in the keyring`);
+  }
 
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAAD(salt);
-    decipher.setAuthTag(tag);
+  for (const entry of candidates) {
+    try {
+      const key = deriveKey(entry.secret!, salt);
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+      decipher.setAAD(salt);
+      decipher.setAuthTag(tag);
+
+      let decrypted = decipher.update(encrypted, undefined, 'utf8');
+      decrypted += decipher.final('utf8');
+      return { plaintext: decrypted, keyId: entry.keyId, tagged: !!keyId };
+    } catch {
+      // Authentication failed with this key, try the next one
+    }
+  }
+  throw new Error('Unsupported state or unable to authenticate data');
+}
 
-    let decrypted = decipher.update(encrypted, undefined, 'utf8');
-    decrypted += decipher.final('utf8');
+/**
+ * Decrypt OAuth tokens from Firestore
+ */
+export function decryptTokens(encryptedData: string): any {
+  try {
+    const decrypted = decryptTokensBlob(encryptedData).plaintext;
 
     // Validate decrypted data is valid JSON
     try {
@@ -146,12 +181,15 @@ export function decryptLegacyToken(encryptedData: string, encryptionKeyOverride?
       throw new Error(`Invalid legacy token format: expected 3 parts, got ${parts.length}`);
     }
 
+    if (!encryptionKeyOverride) {
+      return decryptWithKeyring(encryptedData, getKeyring()).plaintext;
+    }
+
     const [ivHex, authTagHex, encrypted] = parts;
     const iv = Buffer.from(ivHex, 'hex');
     const authTag = Buffer.from(authTagHex, 'hex');
 
-    const masterKey = encryptionKeyOverride || getEncryptionKey();
-    const key = crypto.createHash('sha256').update(masterKey, 'utf8').digest();
+    const key = crypto.createHash('sha256').update(encryptionKeyOverride, 'utf8').digest();
 
     const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
     decipher.setAuthTag(authTag);
@@ -13,7 +13,7 @@ import { encryptTokens, decryptTokens, generateSecureState, verifyState, hashFor
 import { encryptToken, decryptToken } from './unified-oauth/encryption';
 import { createSuccessResponse, createErrorResponse, db, getUserOrganizationId } from '../shared/utils';
 import { getGoogleConfig as getGoogleConfigFromFirestore } from '../google/config';
-import { encryptionKey } from '../google/secrets';
+import { encryptionKey, encryptionKeyPrevious } from '../google/secrets';
 
 // Google OAuth configuration - Use environment variables (Firebase Functions v2 compatible)
 const getGoogleConfig = () => {
@@ -40,7 +40,7 @@ const getGoogleConfig = () => {
 let oauth2Client: any = null;
 
 // Get OAuth2 client for credential operations (refresh, API calls) - redirect URI not needed
-const getOAuth2ClientForCredentials = () => {
+export const getOAuth2ClientForCredentials = () => {
   const config = getGoogleConfig();
 
   if (!config.clientId || !config.clientSecret) {
@@ -403,7 +403,7 @@ export const handleGoogleOAuthCallbackHttp = onRequest(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     try {
@@ -861,7 +861,7 @@ export const refreshGoogleAccessTokenCallable = onCall(
     region: 'us-central1',
     cors: true, // Enable CORS support for localhost
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1229,7 +1229,7 @@ export const listGoogleDriveFolders = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1281,7 +1281,7 @@ export const getGoogleDriveFiles = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1339,7 +1339,7 @@ export const createGoogleDriveFolder = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1398,7 +1398,7 @@ export const uploadToGoogleDrive = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1644,7 +1644,7 @@ export const indexGoogleDriveFolder = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -18,12 +18,23 @@ export {
   getGoogleIntegrationStatus
 } from './googleDrive';
 
-// Airtable integration is intentionally disabled (not used).
-// Keeping these exports disabled avoids pulling in the `airtable` dependency
-// during Firebase Functions analysis/deploy.
-//
-// If we ever re-enable Airtable, we should also add feature-flagged/lazy imports
-// so missing/optional deps don't break deploy-time analysis.
+// Airtable functions (API key connector on the unified integration framework;
+// uses the Airtable REST API directly, no `airtable` package)
+export {
+  getAirtableIntegrationStatus,
+  saveAirtableFieldMapping,
+  setAirtableConflictPolicy,
+  getAirtableSyncConflicts,
+  resolveAirtableSyncConflict,
+  syncAirtableToFirebase,
+  syncFirebaseToAirtable,
+  scheduledAirtableSync,
+  importAirtableData,
+  exportToAirtable,
+  validateAirtableConnection,
+  getAirtableBases,
+  getAirtableTables
+} from './airtable';
 
 // Box functions - TEMPORARILY DISABLED
 // export {
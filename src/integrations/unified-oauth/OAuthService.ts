@@ -6,12 +6,13 @@
  */
 
 import { providerRegistry } from './ProviderRegistry';
-import { OAuthProvider, TokenSet } from './types';
+import { AccountInfo, OAuthProvider, TokenSet } from './types';
 import { db } from '../../shared/utils';
 import { Timestamp } from 'firebase-admin/firestore';
 import { encryptToken, decryptToken, generateSecureState } from './encryption';
 import { encryptionKey } from './encryption';
 import { encryptTokens } from '../encryption';
+import { clearConnectionHealth, recordConnectionHealthEvent } from './connectionHealthService';
 
 /**
  * Unified OAuth Service
@@ -312,6 +313,7 @@ export class UnifiedOAuthService {
       .set(connectionData, { merge: true });
 
     console.log(`✅ [OAuthService] Successfully saved ${providerName} connection with merge`);
+    await recordConnectionHealthEvent(organizationId, providerName, { type: 'reconnected' });
 
 
     // Delete used state
@@ -372,6 +374,80 @@ export class UnifiedOAuthService {
     };
   }
 
+  /**
+   * Connect an API key provider: validate the key, then store it in cloudIntegrations
+   * the same way as OAuth tokens (encrypted `accessToken`, covered by key rotation)
+   */
+  async connectApiKey(
+    providerName: string,
+    organizationId: string,
+    userId: string,
+    apiKey: string,
+    metadata: Record<string, any> = {}
+  ): Promise<AccountInfo> {
+    const provider = providerRegistry.getApiKeyProvider(providerName);
+
+    if (!provider) {
+      throw new Error(`Provider ${providerName} does not support API keys`);
+    }
+
+    if (!(await provider.validateApiKey(apiKey))) {
+      throw new Error(`Invalid ${provider.displayName} API key`);
+    }
+
+    const accountInfo = await provider.getAccountInfo(apiKey);
+
+    // Replace (not merge) so no OAuth refresh token from an earlier connection survives
+    await db
+      .collection('organizations')
+      .doc(organizationId)
+      .collection('cloudIntegrations')
+      .doc(providerName)
+      .set({
+        provider: providerName,
+        authType: 'api_key',
+        accountEmail: accountInfo.email,
+        accountName: accountInfo.name,
+        accountId: accountInfo.id,
+        accessToken: encryptToken(apiKey),
+        tokenExpiresAt: null,
+        scopes: [],
+        metadata,
+        isActive: true,
+        connectedAt: Timestamp.now(),
+        connectedBy: userId,
+        lastRefreshedAt: Timestamp.now(),
+        organizationId
+      });
+
+    console.log(`✅ [OAuthService] Saved ${providerName} API key connection for org ${organizationId}`);
+    await recordConnectionHealthEvent(organizationId, providerName, { type: 'reconnected' });
+
+    return accountInfo;
+  }
+
+  /**
+   * Decrypted credential (OAuth access token or API key) of an active connection
+   */
+  async getProviderCredential(
+    organizationId: string,
+    providerName: string
+  ): Promise<string> {
+    const connectionDoc = await db
+      .collection('organizations')
+      .doc(organizationId)
+      .collection('cloudIntegrations')
+      .doc(providerName)
+      .get();
+
+    const connectionData = connectionDoc.data();
+    if (!connectionDoc.exists || !connectionData?.accessToken || connectionData.isActive === false) {
+      throw new Error(`${providerName} is not connected for this organization`);
+    }
+
+    return decryptToken(connectionData.accessToken);
+  }
+
   /**
    * Refresh connection for any provider
    */
@@ -433,7 +509,14 @@ export class UnifiedOAuthService {
     }
 
     // Refresh tokens
-    const newTokens = await (provider as OAuthProvider).refreshTokens(refreshToken, organizationId);
+    let newTokens: TokenSet;
+    try {
+      newTokens = await (provider as OAuthProvider).refreshTokens(refreshToken, organizationId);
+    } catch (refreshError) {
+      const message = refreshError instanceof Error ? refreshError.message : String(refreshError);
+      await recordConnectionHealthEvent(organizationId, providerName, { type: 'refresh', ok: false, error: message });
+      throw refreshError;
+    }
 
     // Encrypt new tokens
     const encryptedAccessToken = encryptToken(newTokens.accessToken);
@@ -448,6 +531,7 @@ export class UnifiedOAuthService {
       tokenExpiresAt: newTokens.expiresAt ? Timestamp.fromDate(newTokens.expiresAt) : null,
       lastRefreshedAt: Timestamp.now()
     });
+    await recordConnectionHealthEvent(organizationId, providerName, { type: 'refresh', ok: true });
 
     console.log(`✅ [refreshConnection] Successfully refreshed tokens for ${providerName} in org ${organizationId}`);
   }
@@ -461,7 +545,7 @@ export class UnifiedOAuthService {
   ): Promise<void> {
     const provider = providerRegistry.getProvider(providerName);
 
-    if (!provider || provider.type !== 'oauth2') {
+    if (!provider || (provider.type !== 'oauth2' && provider.type !== 'api_key')) {
       throw new Error(`Invalid provider: ${providerName}`);
     }
 
@@ -494,7 +578,11 @@ export class UnifiedOAuthService {
     // Revoke with provider (only if we successfully decrypted the token)
     if (accessToken) {
       try {
-        await (provider as OAuthProvider).revokeAccess(accessToken, organizationId);
+        if ('validateApiKey' in provider) {
+          await provider.revokeApiKey?.(accessToken);
+        } else {
+          await provider.revokeAccess(accessToken, organizationId);
+        }
         console.log(`✅ [OAuthService] Successfully revoked ${providerName} access with provider`);
       } catch (revokeError) {
         console.warn(`⚠️ [OAuthService] Failed to revoke ${providerName} with provider:`, revokeError);
@@ -509,6 +597,7 @@ export class UnifiedOAuthService {
     // This happens regardless of whether revocation succeeded
     await connectionDoc.ref.delete();
     console.log(`✅ [OAuthService] Deleted ${providerName} connection document for org ${organizationId}`);
+    await clearConnectionHealth(organizationId, providerName);
   }
 }
 
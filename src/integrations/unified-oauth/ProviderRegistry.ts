@@ -5,17 +5,19 @@
  * To add a new provider, implement the OAuthProvider interface and register it here
  */
 
-import { ProviderPlugin, OAuthProvider } from './types';
+import { ProviderPlugin, OAuthProvider, ApiKeyProvider, WebhookCapability, SyncCapability } from './types';
 import { GoogleProvider } from './providers/GoogleProvider';
 import { BoxProvider } from './providers/BoxProvider';
 import { DropboxProvider } from './providers/DropboxProvider';
 import { SlackProvider } from './providers/SlackProvider';
+import { AirtableProvider } from './providers/AirtableProvider';
 
 /**
  * Provider Registry - Central registry for all integration providers
  * 
  * To add a new provider:
  * 1. Create provider class implementing OAuthProvider or ApiKeyProvider
+ *    (optionally with `webhooks` / `sync` capabilities for inbound webhooks and the sync queue)
  * 2. Import the provider class
  * 3. Register it in the constructor
  * 4. That's it! The rest of the system will automatically support it
@@ -29,9 +31,9 @@ export class ProviderRegistry {
     this.register(new BoxProvider());
     this.register(new DropboxProvider());
     this.register(new SlackProvider());
+    this.register(new AirtableProvider());
     
     // Future providers - uncomment when ready
-    // this.register(new AirtableProvider());
     // this.register(new NotionProvider());
     // this.register(new OneDriveProvider());
     // this.register(new AsanaProvider());
@@ -72,6 +74,28 @@ export class ProviderRegistry {
       .filter(p => p.type === type);
   }
   
+  /**
+   * Get an API key provider by name
+   */
+  getApiKeyProvider(name: string): ApiKeyProvider | undefined {
+    const provider = this.providers.get(name);
+    return provider && 'validateApiKey' in provider ? provider : undefined;
+  }
+  
+  /**
+   * Get a provider's webhook capability, if it has one
+   */
+  getWebhookCapability(name: string): WebhookCapability | undefined {
+    return this.providers.get(name)?.webhooks;
+  }
+  
+  /**
+   * Get a provider's sync queue handler, if it has one
+   */
+  getSyncCapability(name: string): SyncCapability | undefined {
+    return this.providers.get(name)?.sync;
+  }
+  
   /**
    * Check if provider is registered
    */
@@ -0,0 +1,85 @@
+/**
+ * Connection Health Tests
+ *
+ * Tests for error classification, status transitions and notification throttling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyHealthEvent,
+  classifyConnectionError,
+  createConnectionHealth,
+  HEALTH_RENOTIFY_INTERVAL_MS,
+  shouldNotifyHealthChange
+} from '../connectionHealth';
+
+const now = new Date('2026-03-02T12:00:00Z');
+
+describe('connectionHealth', () => {
+  it('classifies provider errors', () => {
+    expect(classifyConnectionError('Request failed: ETIMEDOUT')).toBe('temporary');
+    expect(classifyConnectionError('invalid_grant: Token has been expired or revoked')).toBe('revoked');
+    expect(classifyConnectionError('invalid_client')).toBe('auth');
+    expect(classifyConnectionError('File not found')).toBe('other');
+    expect(classifyConnectionError('Request failed with status code 401')).toBe('auth');
+  });
+
+  it('classifies local decryption errors as keyring errors, not rejected credentials', () => {
+    expect(classifyConnectionError(
+      'Token authentication failed with every key in the keyring. The token may be corrupted or encrypted with a retired key. Please re-connect your account.'
+    )).toBe('keyring');
+    expect(classifyConnectionError(
+      'Token was encrypted with key 1a2b3c4d, which is not in the keyring. Add it to ENCRYPTION_KEY_PREVIOUS or re-connect the account.'
+    )).toBe('keyring');
+    expect(classifyConnectionError('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.')).toBe('keyring');
+    expect(classifyConnectionError('Processed 401 files')).toBe('other');
+  });
+
+  it('degrades after repeated non-temporary refresh failures and recovers on success', () => {
+    let health = createConnectionHealth('box');
+    health = applyHealthEvent(health, { type: 'refresh', ok: false, error: 'ETIMEDOUT' }, now);
+    health = applyHealthEvent(health, { type: 'refresh', ok: false, error: 'ETIMEDOUT' }, now);
+    expect(health.status).toBe('healthy');
+
+    health = applyHealthEvent(health, { type: 'refresh', ok: false, error: 'Unexpected response' }, now);
+    health = applyHealthEvent(health, { type: 'refresh', ok: false, error: 'Unexpected response' }, now);
+    expect(health.status).toBe('degraded');
+    expect(health.consecutiveFailures).toBe(2);
+
+    health = applyHealthEvent(health, { type: 'refresh', ok: true }, now);
+    expect(health.status).toBe('healthy');
+    expect(health.lastSuccessfulRefreshAt).toEqual(now);
+  });
+
+  it('marks a connection revoked from refresh errors or repeated failed validations', () => {
+    const refreshed = applyHealthEvent(createConnectionHealth('google'), { type: 'refresh', ok: false, error: 'invalid_grant' }, now);
+    expect(refreshed.status).toBe('revoked');
+
+    let validated = applyHealthEvent(createConnectionHealth('dropbox'), { type: 'validation', ok: false, tokenFresh: true }, now);
+    expect(validated.status).toBe('degraded');
+    validated = applyHealthEvent(validated, { type: 'validation', ok: false, tokenFresh: true }, now);
+    expect(validated.status).toBe('revoked');
+
+    const inactive = applyHealthEvent(createConnectionHealth('slack'), { type: 'connection_state', active: false }, now);
+    expect(inactive.status).toBe('reconnect_required');
+  });
+
+  it('ignores API errors unrelated to the connection', () => {
+    const health = applyHealthEvent(createConnectionHealth('box'), { type: 'api_call', ok: false, error: 'File not found' }, now);
+    expect(health.status).toBe('healthy');
+    expect(health.consecutiveFailures).toBe(0);
+  });
+
+  it('notifies once per status until the renotify interval passes', () => {
+    const revoked = applyHealthEvent(createConnectionHealth('google'), { type: 'refresh', ok: false, error: 'token_revoked' }, now);
+    expect(shouldNotifyHealthChange(revoked, now)).toBe(true);
+
+    const notified = { ...revoked, lastNotifiedStatus: revoked.status, lastNotifiedAt: now };
+    expect(shouldNotifyHealthChange(notified, new Date(now.getTime() + 60 * 60 * 1000))).toBe(false);
+    expect(shouldNotifyHealthChange(notified, new Date(now.getTime() + HEALTH_RENOTIFY_INTERVAL_MS))).toBe(true);
+
+    const recovered = applyHealthEvent(notified, { type: 'reconnected' }, now);
+    expect(recovered.status).toBe('healthy');
+    expect(recovered.lastNotifiedStatus).toBeNull();
+  });
+});
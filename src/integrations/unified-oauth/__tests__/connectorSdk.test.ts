@@ -0,0 +1,81 @@
+/**
+ * Connector SDK Tests
+ *
+ * Tests for Airtable webhook verification, webhook → job mapping and sync retry backoff
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as crypto from 'crypto';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import { AirtableProvider } from '../providers/AirtableProvider';
+import { syncRetryDelayMs } from '../connectorSyncQueue';
+import { WebhookRegistration } from '../types';
+import { transformAirtableToFirebase } from '../../airtableSync';
+
+const secret = Buffer.from('airtable-mac-secret').toString('base64');
+const rawBody = Buffer.from(JSON.stringify({ base: { id: 'appBase' }, webhook: { id: 'achHook' } }));
+const registration: WebhookRegistration = {
+  id: 'reg1',
+  organizationId: 'org1',
+  provider: 'airtable',
+  externalId: 'achHook',
+  options: { baseId: 'appBase' },
+  metadata: {},
+  expiresAt: null,
+  isActive: true
+};
+
+function sign(body: Buffer, key: string): string {
+  return 'hmac-sha256=' + crypto.createHmac('sha256', Buffer.from(key, 'base64')).update(body).digest('hex');
+}
+
+describe('AirtableProvider webhooks', () => {
+  const webhooks = new AirtableProvider().webhooks;
+
+  it('accepts deliveries signed with the MAC secret', () => {
+    const headers = { 'x-airtable-content-mac': sign(rawBody, secret) };
+    expect(webhooks.verifySignature({ headers, rawBody, body: JSON.parse(rawBody.toString()) }, secret)).toBe(true);
+  });
+
+  it('rejects tampered or unsigned deliveries', () => {
+    const tampered = Buffer.from(rawBody.toString().replace('appBase', 'appOther'));
+    const headers = { 'x-airtable-content-mac': sign(rawBody, secret) };
+    expect(webhooks.verifySignature({ headers, rawBody: tampered, body: {} }, secret)).toBe(false);
+    expect(webhooks.verifySignature({ headers: {}, rawBody, body: {} }, secret)).toBe(false);
+  });
+
+  it('turns a notification into a payload fetch job', () => {
+    const jobs = webhooks.toSyncJobs({ headers: {}, rawBody, body: JSON.parse(rawBody.toString()) }, registration);
+    expect(jobs).toEqual([
+      { operation: 'webhook_payloads', payload: { baseId: 'appBase', webhookId: 'achHook' }, priority: 'high' }
+    ]);
+  });
+});
+
+describe('connector sync queue', () => {
+  it('backs off exponentially up to an hour', () => {
+    expect(syncRetryDelayMs(1)).toBe(60 * 1000);
+    expect(syncRetryDelayMs(3)).toBe(4 * 60 * 1000);
+    expect(syncRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('airtable field mapping', () => {
+  it('maps Airtable fields onto Firestore fields', () => {
+    const data = transformAirtableToFirebase(
+      { Name: 'Camera A', Status: 'Ready', Ignored: true },
+      {
+        fieldMappings: [
+          { airtableField: 'Name', firebaseField: 'name', airtableType: 'singleLineText' },
+          { airtableField: 'Status', firebaseField: 'status', airtableType: 'singleSelect' }
+        ]
+      }
+    );
+    expect(data).toEqual({ name: 'Camera A', status: 'Ready' });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Encryption Keyring Tests
+ *
+ * Tests for key IDs, tagged ciphertexts, legacy fallback and rotation detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import {
+  buildKeyring,
+  computeKeyId,
+  decryptWithKeyring,
+  encryptWithKey,
+  isTokenCiphertext,
+  needsReencryption,
+  parseCiphertextKeyId
+} from '../keyring';
+
+const OLD_KEY = 'old-key-0123456789abcdef0123456789abcdef';
+const NEW_KEY = 'new-key-0123456789abcdef0123456789abcdef';
+const APPLE_KEY = 'apple-key-0123456789abcdef0123456789abcd';
+
+// Pre-keyring format: iv:authTag:encrypted with sha256(secret)
+function legacyEncrypt(text: string, secret: string): string {
+  const key = crypto.createHash('sha256').update(secret, 'utf8').digest();
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+  return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+}
+
+describe('keyring', () => {
+  it('orders the primary key first and de-duplicates retired keys', () => {
+    const keyring = buildKeyring({
+      ENCRYPTION_KEY: NEW_KEY,
+      ENCRYPTION_KEY_PREVIOUS: `${OLD_KEY}, ${NEW_KEY}, too-short`,
+      INTEGRATIONS_ENCRYPTION_KEY: APPLE_KEY
+    });
+
+    expect(keyring.primary.keyId).toBe(computeKeyId(NEW_KEY));
+    expect(keyring.keys.map(entry => entry.source)).toEqual(['primary', 'previous', 'integrations']);
+    expect(() => buildKeyring({})).toThrow(/ENCRYPTION_KEY/);
+  });
+
+  it('tags new ciphertexts with the primary key ID and keeps the 3-part shape', () => {
+    const keyring = buildKeyring({ ENCRYPTION_KEY: NEW_KEY });
+    const encrypted = encryptWithKey('xoxb-token', keyring.primary);
+
+    expect(parseCiphertextKeyId(encrypted)).toBe(keyring.primary.keyId);
+    expect(encrypted.split(':')).toHaveLength(3);
+    expect(isTokenCiphertext(encrypted)).toBe(true);
+    expect(decryptWithKeyring(encrypted, keyring)).toEqual({ plaintext: 'xoxb-token', keyId: keyring.primary.keyId, tagged: true });
+  });
+
+  it('decrypts tokens from retired keys and flags them for re-encryption', () => {
+    const before = buildKeyring({ ENCRYPTION_KEY: OLD_KEY });
+    const tagged = encryptWithKey('refresh-token', before.primary);
+    const legacy = legacyEncrypt('apple-token', APPLE_KEY);
+
+    const after = buildKeyring({ ENCRYPTION_KEY: NEW_KEY, ENCRYPTION_KEY_PREVIOUS: OLD_KEY, INTEGRATIONS_ENCRYPTION_KEY: APPLE_KEY });
+    const fromTagged = decryptWithKeyring(tagged, after);
+    const fromLegacy = decryptWithKeyring(legacy, after);
+
+    expect(fromTagged.plaintext).toBe('refresh-token');
+    expect(fromLegacy).toEqual({ plaintext: 'apple-token', keyId: computeKeyId(APPLE_KEY), tagged: false });
+    expect(needsReencryption(fromTagged, after)).toBe(true);
+    expect(needsReencryption(decryptWithKeyring(encryptWithKey('x', after.primary), after), after)).toBe(false);
+
+    // Legacy values on the primary key still need tagging
+    expect(needsReencryption(decryptWithKeyring(legacyEncrypt('x', NEW_KEY), after), after)).toBe(true);
+  });
+
+  it('fails clearly when the key is no longer in the keyring', () => {
+    const retired = encryptWithKey('token', buildKeyring({ ENCRYPTION_KEY: OLD_KEY }).primary);
+    const keyring = buildKeyring({ ENCRYPTION_KEY: NEW_KEY });
+
+    expect(() => decryptWithKeyring(retired, keyring)).toThrow(/not in the keyring/);
+    expect(() => decryptWithKeyring(legacyEncrypt('token', OLD_KEY), keyring)).toThrow(/every key/);
+    expect(isTokenCiphertext('plain-client-secret')).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Connection Health
+ *
+ * Pure rules for per-connection health records: how refreshes, validations and API calls
+ * update a record, which status it ends up in, and when org admins should be told.
+ */
+
+export type ConnectionHealthStatus = 'healthy' | 'degraded' | 'reconnect_required' | 'revoked';
+
+export type ConnectionErrorKind = 'temporary' | 'revoked' | 'auth' | 'keyring' | 'other';
+
+export interface ConnectionHealth {
+  provider: string;
+  status: ConnectionHealthStatus;
+  connectionActive: boolean;
+  lastSuccessfulRefreshAt: Date | null;
+  lastRefreshAttemptAt: Date | null;
+  lastApiCallAt: Date | null;
+  lastApiCallOk: boolean | null;
+  lastValidatedAt: Date | null;
+  lastValidationOk: boolean | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorKind: ConnectionErrorKind | null;
+  lastErrorAt: Date | null;
+  revokedByUser: boolean;
+  statusChangedAt: Date | null;
+  lastNotifiedStatus: ConnectionHealthStatus | null;
+  lastNotifiedAt: Date | null;
+}
+
+export type ConnectionHealthEvent =
+  | { type: 'refresh'; ok: true }
+  | { type: 'refresh'; ok: false; error: string }
+  /** tokenFresh: the access token had not expired, so a rejection means access was removed */
+  | { type: 'validation'; ok: boolean; tokenFresh: boolean }
+  | { type: 'api_call'; ok: boolean; error?: string }
+  | { type: 'connection_state'; active: boolean }
+  | { type: 'reconnected' };
+
+/** Non-temporary failures in a row before a connection counts as degraded */
+export const DEGRADED_FAILURE_THRESHOLD = 2;
+/** Minimum time between repeated notifications for the same status */
+export const HEALTH_RENOTIFY_INTERVAL_MS = 72 * 60 * 60 * 1000;
+
+const TEMPORARY_ERROR_PATTERNS = [
+  'ETIMEDOUT', 'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'network socket disconnected',
+  'Network request failed', 'timeout', 'rate_limited', '429', '500', '502', '503', '504'
+];
+
+const REVOKED_ERROR_PATTERNS = [
+  'invalid_grant', 'Token has been expired or revoked', 'refresh token is invalid or revoked',
+  'token_revoked', 'app_uninstalled', 'account_inactive', 'access_denied'
+];
+
+const AUTH_ERROR_PATTERNS = [
+  'invalid_client', 'unauthorized_client', 'invalid_auth', 'not_authed', 'status code 401',
+  '401 Unauthorized', 'usage_limit'
+];
+
+/**
+ * Our own token decryption failing (missing, rotated or retired key). These messages can
+ * mention "authentication failed" or "re-connect", so they are matched before the provider
+ * patterns and never count as a rejected credential.
+ */
+const KEYRING_ERROR_PATTERNS = [
+  'Encryption key not', 'not in the keyring', 'every key in the keyring', 'unable to authenticate data',
+  'Invalid token format', 'Invalid legacy token format', 'Decrypted token is empty', 'Failed to decrypt'
+];
+
+/**
+ * Classify a provider error message. Temporary errors never count against a connection;
+ * revoked errors mean the user (or an admin on the provider side) removed access; keyring
+ * errors are a local key configuration problem, not a provider response.
+ */
+export function classifyConnectionError(message: string): ConnectionErrorKind {
+  const text = message || '';
+  if (KEYRING_ERROR_PATTERNS.some(pattern => text.includes(pattern))) return 'keyring';
+  if (REVOKED_ERROR_PATTERNS.some(pattern => text.includes(pattern))) return 'revoked';
+  if (AUTH_ERROR_PATTERNS.some(pattern => text.includes(pattern))) return 'auth';
+  if (TEMPORARY_ERROR_PATTERNS.some(pattern => text.includes(pattern))) return 'temporary';
+  return 'other';
+}
+
+export function createConnectionHealth(provider: string): ConnectionHealth {
+  return {
+    provider,
+    status: 'healthy',
+    connectionActive: true,
+    lastSuccessfulRefreshAt: null,
+    lastRefreshAttemptAt: null,
+    lastApiCallAt: null,
+    lastApiCallOk: null,
+    lastValidatedAt: null,
+    lastValidationOk: null,
+    consecutiveFailures: 0,
+    lastError: null,
+    lastErrorKind: null,
+    lastErrorAt: null,
+    revokedByUser: false,
+    statusChangedAt: null,
+    lastNotifiedStatus: null,
+    lastNotifiedAt: null
+  };
+}
+
+export function deriveHealthStatus(health: ConnectionHealth): ConnectionHealthStatus {
+  if (health.revokedByUser) return 'revoked';
+  if (!health.connectionActive) return 'reconnect_required';
+  if (
+    health.consecutiveFailures >= DEGRADED_FAILURE_THRESHOLD ||
+    health.lastValidationOk === false ||
+    (health.lastApiCallOk === false && (health.lastErrorKind === 'auth' || health.lastErrorKind === 'revoked'))
+  ) {
+    return 'degraded';
+  }
+  return 'healthy';
+}
+
+function recordFailure(health: ConnectionHealth, error: string, now: Date): ConnectionHealth {
+  const kind = classifyConnectionError(error);
+  return {
+    ...health,
+    lastError: error,
+    lastErrorKind: kind,
+    lastErrorAt: now,
+    consecutiveFailures: kind === 'temporary' ? health.consecutiveFailures : health.consecutiveFailures + 1,
+    revokedByUser: health.revokedByUser || kind === 'revoked'
+  };
+}
+
+function recordSuccess(health: ConnectionHealth): ConnectionHealth {
+  return { ...health, consecutiveFailures: 0, revokedByUser: false, lastError: null, lastErrorKind: null };
+}
+
+/**
+ * Apply one event to a health record and recompute its status
+ */
+export function applyHealthEvent(health: ConnectionHealth, event: ConnectionHealthEvent, now: Date): ConnectionHealth {
+  let next: ConnectionHealth;
+  switch (event.type) {
+    case 'refresh':
+      next = event.ok
+        ? { ...recordSuccess(health), lastSuccessfulRefreshAt: now, lastRefreshAttemptAt: now }
+        : { ...recordFailure(health, event.error, now), lastRefreshAttemptAt: now };
+      break;
+    case 'validation':
+      if (event.ok) {
+        next = { ...recordSuccess(health), lastValidatedAt: now, lastValidationOk: true };
+      } else {
+        // validateConnection can't tell a network blip from a rejected token, so an
+        // unexpired token has to fail two checks in a row before it counts as revoked
+        const revoked = event.tokenFresh && health.lastValidationOk === false;
+        next = {
+          ...recordFailure(health, 'Connection validation failed', now),
+          lastValidatedAt: now,
+          lastValidationOk: false,
+          revokedByUser: health.revokedByUser || revoked,
+          lastErrorKind: revoked ? 'revoked' : 'auth'
+        };
+      }
+      break;
+    case 'api_call':
+      if (event.ok) {
+        next = {
+          ...recordSuccess(health),
+          lastApiCallAt: now,
+          lastApiCallOk: true,
+          lastValidationOk: health.lastValidationOk === false ? true : health.lastValidationOk
+        };
+      } else {
+        // Missing files, bad input and the like say nothing about the connection itself
+        const error = event.error || 'API call failed';
+        const kind = classifyConnectionError(error);
+        next = kind === 'auth' || kind === 'revoked'
+          ? { ...recordFailure(health, error, now), lastApiCallAt: now, lastApiCallOk: false }
+          : { ...health, lastApiCallAt: now };
+      }
+      break;
+    case 'connection_state':
+      next = { ...health, connectionActive: event.active };
+      break;
+    case 'reconnected':
+      next = {
+        ...createConnectionHealth(health.provider),
+        lastSuccessfulRefreshAt: now,
+        lastNotifiedStatus: null,
+        lastNotifiedAt: health.lastNotifiedAt
+      };
+      break;
+  }
+
+  const status = deriveHealthStatus(next);
+  return {
+    ...next,
+    status,
+    statusChangedAt: status !== health.status ? now : health.statusChangedAt,
+    // A recovered connection can alert again the next time it breaks
+    lastNotifiedStatus: status === 'healthy' ? null : next.lastNotifiedStatus
+  };
+}
+
+/**
+ * Whether org admins should hear about a connection's current status
+ */
+export function shouldNotifyHealthChange(health: ConnectionHealth, now: Date): boolean {
+  if (health.status === 'healthy') return false;
+  if (health.lastNotifiedStatus !== health.status) return true;
+  return !health.lastNotifiedAt || now.getTime() - health.lastNotifiedAt.getTime() >= HEALTH_RENOTIFY_INTERVAL_MS;
+}
@@ -0,0 +1,152 @@
+/**
+ * Connection Health Service
+ *
+ * Persists connection health records at `organizations/{orgId}/integrationHealth/{provider}`
+ * and notifies org admins when a connection becomes degraded, needs reconnecting or was
+ * revoked on the provider side. Recording health never throws; a failed write must not
+ * fail the refresh or API call it describes.
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from '../../shared/utils';
+import { dispatchNotification } from '../../notifications/notificationDispatcher';
+import { providerRegistry } from './ProviderRegistry';
+import {
+  applyHealthEvent,
+  ConnectionHealth,
+  ConnectionHealthEvent,
+  ConnectionHealthStatus,
+  createConnectionHealth,
+  shouldNotifyHealthChange
+} from './connectionHealth';
+
+/** Successful API calls only refresh `lastApiCallAt` this often, to keep writes off hot paths */
+const API_CALL_SUCCESS_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+const DATE_FIELDS: (keyof ConnectionHealth)[] = [
+  'lastSuccessfulRefreshAt', 'lastRefreshAttemptAt', 'lastApiCallAt', 'lastValidatedAt',
+  'lastErrorAt', 'statusChangedAt', 'lastNotifiedAt'
+];
+
+const STATUS_MESSAGES: Record<Exclude<ConnectionHealthStatus, 'healthy'>, (name: string) => string> = {
+  degraded: name => `${name} is failing to sync. Check the connection or reconnect it from Integrations.`,
+  reconnect_required: name => `${name} has been disconnected and needs to be reconnected from Integrations.`,
+  revoked: name => `Access to ${name} was revoked. Reconnect it from Integrations to restore syncing.`
+};
+
+function healthRef(organizationId: string, providerName: string) {
+  return db.collection('organizations').doc(organizationId).collection('integrationHealth').doc(providerName);
+}
+
+function fromFirestore(providerName: string, data: FirebaseFirestore.DocumentData | undefined): ConnectionHealth {
+  const health: any = { ...createConnectionHealth(providerName), ...(data || {}) };
+  for (const field of DATE_FIELDS) {
+    const value = health[field];
+    health[field] = value && typeof value.toDate === 'function' ? value.toDate() : value || null;
+  }
+  return health as ConnectionHealth;
+}
+
+function toFirestore(health: ConnectionHealth): Record<string, any> {
+  const data: Record<string, any> = { ...health, updatedAt: Timestamp.now() };
+  for (const field of DATE_FIELDS) {
+    const value = health[field] as Date | null;
+    data[field] = value ? Timestamp.fromDate(value) : null;
+  }
+  return data;
+}
+
+/**
+ * Read a connection's health record (a fresh healthy record if none exists yet)
+ */
+export async function getConnectionHealth(organizationId: string, providerName: string): Promise<ConnectionHealth> {
+  const snapshot = await healthRef(organizationId, providerName).get();
+  return fromFirestore(providerName, snapshot.data());
+}
+
+/**
+ * Read the health records for every connection an organization has
+ */
+export async function getConnectionHealthRecords(organizationId: string): Promise<ConnectionHealth[]> {
+  const snapshot = await db.collection('organizations').doc(organizationId).collection('integrationHealth').get();
+  return snapshot.docs.map(doc => fromFirestore(doc.id, doc.data()));
+}
+
+async function notifyAdmins(organizationId: string, health: ConnectionHealth): Promise<void> {
+  if (health.status === 'healthy') return;
+
+  const displayName = providerRegistry.getProvider(health.provider)?.displayName || health.provider;
+  await dispatchNotification({
+    organizationId,
+    category: 'integration_health',
+    title: health.status === 'degraded' ? `${displayName} connection degraded` : `Reconnect ${displayName}`,
+    message: STATUS_MESSAGES[health.status](displayName),
+    recipientRoles: ['ADMIN', 'OWNER'],
+    priority: health.status === 'degraded' ? 'high' : 'urgent',
+    data: {
+      provider: health.provider,
+      status: health.status,
+      lastError: health.lastError,
+      consecutiveFailures: health.consecutiveFailures
+    }
+  });
+}
+
+/**
+ * Apply an event to a connection's health record and notify admins on a bad transition
+ */
+export async function recordConnectionHealthEvent(
+  organizationId: string,
+  providerName: string,
+  event: ConnectionHealthEvent
+): Promise<ConnectionHealth | null> {
+  try {
+    const ref = healthRef(organizationId, providerName);
+    const now = new Date();
+
+    const { health, notify } = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const current = fromFirestore(providerName, snapshot.data());
+
+      if (
+        event.type === 'api_call' && event.ok && current.status === 'healthy' && current.lastApiCallAt &&
+        now.getTime() - current.lastApiCallAt.getTime() < API_CALL_SUCCESS_WRITE_INTERVAL_MS
+      ) {
+        return { health: current, notify: false };
+      }
+
+      let next = applyHealthEvent(current, event, now);
+      const notify = shouldNotifyHealthChange(next, now);
+      if (notify) {
+        next = { ...next, lastNotifiedStatus: next.status, lastNotifiedAt: now };
+      }
+
+      transaction.set(ref, toFirestore(next));
+      return { health: next, notify };
+    });
+
+    if (health.status !== 'healthy' && event.type !== 'api_call') {
+      console.warn(`⚠️ [ConnectionHealth] ${providerName} in org ${organizationId} is ${health.status}`);
+    }
+
+    if (notify) {
+      await notifyAdmins(organizationId, health).catch(error =>
+        console.error(`❌ [ConnectionHealth] Failed to notify admins about ${providerName} in org ${organizationId}:`, error)
+      );
+    }
+
+    return health;
+  } catch (error) {
+    console.error(`❌ [ConnectionHealth] Failed to record ${event.type} for ${providerName} in org ${organizationId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Remove a connection's health record once the connection itself is removed
+ */
+export async function clearConnectionHealth(organizationId: string, providerName: string): Promise<void> {
+  await healthRef(organizationId, providerName).delete().catch(error =>
+    console.warn(`⚠️ [ConnectionHealth] Failed to clear health for ${providerName} in org ${organizationId}:`, error)
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Connector Sync Queue
+ *
+ * Shared work queue for provider sync jobs (integrationSyncQueue/{jobId}).
+ * Jobs are run as soon as they are created; failed jobs go back to `pending`
+ * with exponential backoff and are picked up again by the retry schedule
+ * (schedules/retrySyncJobs.ts). Each provider handles its own operations
+ * through its `sync` capability.
+ */
+
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../../shared/utils';
+import { providerRegistry } from './ProviderRegistry';
+import { oauthService } from './OAuthService';
+import { encryptionKey, encryptionKeyPrevious } from './encryption';
+import { recordConnectionHealthEvent } from './connectionHealthService';
+import { sendSystemAlert } from '../../utils/systemAlerts';
+import { SyncJob, SyncJobInput } from './types';
+
+export const SYNC_QUEUE_COLLECTION = 'integrationSyncQueue';
+
+/** A job left in `processing` longer than this (crashed run) can be claimed again */
+export const SYNC_JOB_LEASE_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export type SyncJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts: 1m, 2m, 4m… capped at 1h
+ */
+export function syncRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Add jobs for a provider to the queue
+ */
+export async function enqueueSyncJobs(
+  organizationId: string,
+  provider: string,
+  jobs: SyncJobInput[],
+  maxAttempts = DEFAULT_MAX_ATTEMPTS
+): Promise<string[]> {
+  if (jobs.length === 0) {
+    return [];
+  }
+
+  const batch = db.batch();
+  const ids = jobs.map(job => {
+    const ref = db.collection(SYNC_QUEUE_COLLECTION).doc();
+    batch.set(ref, {
+      organizationId,
+      provider,
+      operation: job.operation,
+      payload: job.payload,
+      priority: job.priority || 'normal',
+      status: 'pending' as SyncJobStatus,
+      attempts: 0,
+      maxAttempts,
+      nextAttemptAt: Timestamp.now(),
+      leaseExpiresAt: null,
+      lastError: null,
+      result: null,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return ref.id;
+  });
+  await batch.commit();
+
+  console.log(`📥 [SyncQueue] Queued ${ids.length} ${provider} job(s) for org ${organizationId}`);
+  return ids;
+}
+
+export async function enqueueSyncJob(organizationId: string, provider: string, job: SyncJobInput): Promise<string> {
+  const [id] = await enqueueSyncJobs(organizationId, provider, [job]);
+  return id;
+}
+
+/**
+ * Move a runnable job to `processing`; null if another run has it or it isn't due
+ */
+async function claimSyncJob(ref: FirebaseFirestore.DocumentReference): Promise<SyncJob | null> {
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.data();
+    if (!data) return null;
+
+    const now = Date.now();
+    const due = data.status === 'pending' && (data.nextAttemptAt?.toMillis?.() ?? 0) <= now;
+    const abandoned = data.status === 'processing' && (data.leaseExpiresAt?.toMillis?.() ?? 0) <= now;
+    if (!due && !abandoned) return null;
+
+    const attempts = (data.attempts || 0) + 1;
+    transaction.update(ref, {
+      status: 'processing',
+      attempts,
+      leaseExpiresAt: Timestamp.fromMillis(now + SYNC_JOB_LEASE_MS),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+
+    return {
+      id: snapshot.id,
+      organizationId: data.organizationId,
+      provider: data.provider,
+      operation: data.operation,
+      payload: data.payload || {},
+      priority: data.priority,
+      attempts,
+      maxAttempts: data.maxAttempts || DEFAULT_MAX_ATTEMPTS
+    };
+  });
+}
+
+/**
+ * Claim and run one queued job
+ */
+export async function runSyncJob(ref: FirebaseFirestore.DocumentReference): Promise<SyncJobStatus | null> {
+  const job = await claimSyncJob(ref);
+  if (!job) {
+    return null;
+  }
+
+  console.log(`🔄 [SyncQueue] Running ${job.provider} ${job.operation} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    const sync = providerRegistry.getSyncCapability(job.provider);
+    if (!sync) {
+      throw new Error(`Provider ${job.provider} does not handle sync jobs`);
+    }
+
+    const credential = await oauthService.getProviderCredential(job.organizationId, job.provider);
+    const result = await sync.processSyncJob(job, credential);
+    await recordConnectionHealthEvent(job.organizationId, job.provider, { type: 'api_call', ok: true });
+
+    await ref.update({
+      status: 'completed',
+      result: result || null,
+      lastError: null,
+      leaseExpiresAt: null,
+      completedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return 'completed';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+    console.error(`❌ [SyncQueue] ${job.provider} ${job.operation} job ${job.id} failed${exhausted ? ' permanently' : ''}:`, message);
+
+    await recordConnectionHealthEvent(job.organizationId, job.provider, { type: 'api_call', ok: false, error: message });
+    await ref.update({
+      status: exhausted ? 'failed' : 'pending',
+      lastError: message,
+      nextAttemptAt: exhausted ? null : Timestamp.fromMillis(Date.now() + syncRetryDelayMs(job.attempts)),
+      leaseExpiresAt: null,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+
+    if (exhausted) {
+      const displayName = providerRegistry.getProvider(job.provider)?.displayName || job.provider;
+      await sendSystemAlert(
+        job.organizationId,
+        `${displayName} Sync Failed`,
+        `Sync job ${job.id} (${job.operation}) failed after ${job.attempts} attempts.`,
+        { jobId: job.id, provider: job.provider, operation: job.operation, payload: job.payload, error: message }
+      );
+    }
+    return exhausted ? 'failed' : 'pending';
+  }
+}
+
+/**
+ * Run due retries and jobs abandoned by crashed runs, oldest first
+ */
+export async function runDueSyncJobs(deadline: number, limit = 50): Promise<number> {
+  const now = Timestamp.now();
+  const [retries, abandoned] = await Promise.all([
+    db.collection(SYNC_QUEUE_COLLECTION)
+      .where('status', '==', 'pending')
+      .where('nextAttemptAt', '<=', now)
+      .orderBy('nextAttemptAt')
+      .limit(limit)
+      .get(),
+    db.collection(SYNC_QUEUE_COLLECTION)
+      .where('status', '==', 'processing')
+      .where('leaseExpiresAt', '<=', now)
+      .limit(limit)
+      .get()
+  ]);
+
+  let processed = 0;
+  for (const doc of [...retries.docs, ...abandoned.docs]) {
+    if (Date.now() > deadline) break;
+    if (await runSyncJob(doc.ref)) {
+      processed++;
+    }
+  }
+  return processed;
+}
+
+/**
+ * Firestore trigger: run a job as soon as it is queued
+ */
+export const processIntegrationSyncJob = onDocumentCreated(
+  {
+    document: `${SYNC_QUEUE_COLLECTION}/{jobId}`,
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 540,
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (event) => {
+    if (!event.data) {
+      return;
+    }
+    try {
+      await runSyncJob(event.data.ref);
+    } catch (error) {
+      console.error(`❌ [SyncQueue] Error running job ${event.params.jobId}:`, error);
+    }
+  }
+);
@@ -0,0 +1,214 @@
+/**
+ * Connector Webhooks
+ *
+ * Inbound webhooks for any provider with a `webhooks` capability. Registrations live
+ * at organizations/{orgId}/integrationWebhooks/{id} with the provider's signing secret
+ * encrypted; deliveries arrive at connectorWebhook/{orgId}/{id}, are verified against
+ * that secret and become jobs on the shared sync queue.
+ */
+
+import { onRequest } from 'firebase-functions/v2/https';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../../shared/utils';
+import { providerRegistry } from './ProviderRegistry';
+import { decryptToken, encryptToken, encryptionKey, encryptionKeyPrevious } from './encryption';
+import { enqueueSyncJobs } from './connectorSyncQueue';
+import { WebhookRegistration } from './types';
+
+const WEBHOOK_FUNCTION_NAME = 'connectorWebhook';
+
+function webhooksCollection(organizationId: string) {
+  return db.collection('organizations').doc(organizationId).collection('integrationWebhooks');
+}
+
+function toRegistration(doc: FirebaseFirestore.DocumentSnapshot): WebhookRegistration {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    organizationId: data.organizationId,
+    provider: data.provider,
+    externalId: data.externalId,
+    options: data.options || {},
+    metadata: data.metadata || {},
+    expiresAt: data.expiresAt?.toDate?.() || null,
+    isActive: data.isActive !== false
+  };
+}
+
+/**
+ * Public URL deliveries for a registration are sent to
+ */
+export function getConnectorWebhookUrl(organizationId: string, registrationId: string): string {
+  const projectId = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT || 'backbone-logic';
+  return `https://us-central1-${projectId}.cloudfunctions.net/${WEBHOOK_FUNCTION_NAME}/${organizationId}/${registrationId}`;
+}
+
+/**
+ * Create a webhook on the provider and store its registration
+ */
+export async function registerConnectorWebhook(
+  organizationId: string,
+  providerName: string,
+  credential: string,
+  options: Record<string, any>,
+  userId: string
+): Promise<WebhookRegistration> {
+  const webhooks = providerRegistry.getWebhookCapability(providerName);
+  if (!webhooks) {
+    throw new Error(`Provider ${providerName} does not support webhooks`);
+  }
+
+  // The id is needed up front: it is part of the notification URL
+  const ref = webhooksCollection(organizationId).doc();
+  const registered = await webhooks.registerWebhook(credential, getConnectorWebhookUrl(organizationId, ref.id), options);
+
+  await ref.set({
+    organizationId,
+    provider: providerName,
+    externalId: registered.externalId,
+    secret: encryptToken(registered.secret),
+    options,
+    metadata: registered.metadata || {},
+    expiresAt: registered.expiresAt ? Timestamp.fromDate(registered.expiresAt) : null,
+    isActive: true,
+    deliveries: 0,
+    lastDeliveryAt: null,
+    createdBy: userId,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  console.log(`🪝 [ConnectorWebhooks] Registered ${providerName} webhook ${registered.externalId} for org ${organizationId}`);
+  return toRegistration(await ref.get());
+}
+
+export async function getConnectorWebhooks(organizationId: string, providerName?: string): Promise<WebhookRegistration[]> {
+  let query: FirebaseFirestore.Query = webhooksCollection(organizationId);
+  if (providerName) {
+    query = query.where('provider', '==', providerName);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs.map(toRegistration);
+}
+
+export async function updateConnectorWebhook(
+  organizationId: string,
+  registrationId: string,
+  updates: { metadata?: Record<string, any>; expiresAt?: Date | null }
+): Promise<void> {
+  const data: Record<string, any> = { updatedAt: FieldValue.serverTimestamp() };
+  if (updates.metadata) {
+    Object.entries(updates.metadata).forEach(([key, value]) => {
+      data[`metadata.${key}`] = value;
+    });
+  }
+  if (updates.expiresAt !== undefined) {
+    data.expiresAt = updates.expiresAt ? Timestamp.fromDate(updates.expiresAt) : null;
+  }
+  await webhooksCollection(organizationId).doc(registrationId).update(data);
+}
+
+/**
+ * Delete a registration, removing the webhook on the provider when a credential is available
+ */
+export async function deleteConnectorWebhook(
+  organizationId: string,
+  registrationId: string,
+  credential: string | null
+): Promise<void> {
+  const ref = webhooksCollection(organizationId).doc(registrationId);
+  const doc = await ref.get();
+  if (!doc.exists) {
+    return;
+  }
+
+  const registration = toRegistration(doc);
+  const webhooks = providerRegistry.getWebhookCapability(registration.provider);
+  if (credential && webhooks?.deleteWebhook) {
+    try {
+      await webhooks.deleteWebhook(credential, registration);
+    } catch (error) {
+      console.warn(`⚠️ [ConnectorWebhooks] Could not delete ${registration.provider} webhook ${registration.externalId}:`, error);
+    }
+  }
+
+  await ref.delete();
+}
+
+/**
+ * Delete every webhook of a provider (used when the connection is removed)
+ */
+export async function deleteProviderWebhooks(
+  organizationId: string,
+  providerName: string,
+  credential: string | null
+): Promise<number> {
+  const registrations = await getConnectorWebhooks(organizationId, providerName);
+  for (const registration of registrations) {
+    await deleteConnectorWebhook(organizationId, registration.id, credential);
+  }
+  return registrations.length;
+}
+
+/**
+ * Receive a webhook delivery for any provider
+ */
+export const connectorWebhook = onRequest(
+  {
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request, response) => {
+    if (request.method !== 'POST') {
+      response.status(405).send('Method not allowed');
+      return;
+    }
+
+    const [organizationId, registrationId] = request.path.split('/').filter(Boolean);
+    if (!organizationId || !registrationId) {
+      response.status(404).send('Not found');
+      return;
+    }
+
+    try {
+      const doc = await webhooksCollection(organizationId).doc(registrationId).get();
+      if (!doc.exists || doc.data()?.isActive === false) {
+        console.warn(`⚠️ [ConnectorWebhooks] Unknown registration ${organizationId}/${registrationId}`);
+        response.status(404).send('Not found');
+        return;
+      }
+
+      const registration = toRegistration(doc);
+      const webhooks = providerRegistry.getWebhookCapability(registration.provider);
+      if (!webhooks) {
+        response.status(404).send('Not found');
+        return;
+      }
+
+      const inbound = {
+        headers: request.headers,
+        rawBody: request.rawBody || Buffer.from(JSON.stringify(request.body || {})),
+        body: request.body
+      };
+      if (!webhooks.verifySignature(inbound, decryptToken(doc.data()!.secret))) {
+        console.warn(`⚠️ [ConnectorWebhooks] Invalid signature for ${registration.provider} webhook ${registrationId}`);
+        response.status(401).send('Unauthorized');
+        return;
+      }
+
+      const jobs = webhooks.toSyncJobs(inbound, registration);
+      await enqueueSyncJobs(organizationId, registration.provider, jobs);
+      await doc.ref.update({
+        deliveries: FieldValue.increment(1),
+        lastDeliveryAt: FieldValue.serverTimestamp()
+      });
+
+      response.status(200).send('OK');
+    } catch (error) {
+      console.error('❌ [ConnectorWebhooks] Error processing delivery:', error);
+      response.status(500).send('Internal server error');
+    }
+  }
+);
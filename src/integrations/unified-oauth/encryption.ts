@@ -2,15 +2,29 @@
  * Unified OAuth Encryption Service
  * 
  * Handles secure encryption/decryption of OAuth tokens
- * Uses AES-256-GCM encryption
+ * Uses AES-256-GCM encryption with a versioned keyring (see keyring.ts)
  */
 
 import * as crypto from 'crypto';
 import { defineSecret } from 'firebase-functions/params';
+import {
+  buildKeyring,
+  decryptWithKeyring,
+  DecryptedValue,
+  encryptWithKey,
+  isTokenCiphertext,
+  Keyring,
+  needsReencryption
+} from './keyring';
 
 // Define the encryption key secret
 export const encryptionKey = defineSecret('ENCRYPTION_KEY');
 
+// Comma-separated keys retired by a rotation, decrypt only. Declare it on every function
+// that decrypts tokens; outside a rotation it can hold a placeholder shorter than 32
+// characters, which the keyring ignores.
+export const encryptionKeyPrevious = defineSecret('ENCRYPTION_KEY_PREVIOUS');
+
 /**
  * Get the encryption key value
  */
@@ -27,65 +41,68 @@ export function getEncryptionKey(): string {
 }
 
 /**
- * Encrypt sensitive token data
+ * Retired keys still accepted for decryption; empty when the secret is not declared
  */
-export function encryptToken(text: string): string {
-  const algorithm = 'aes-256-gcm';
+function getPreviousEncryptionKeys(): string {
+  try {
+    return encryptionKeyPrevious.value() || '';
+  } catch {
+    return process.env.ENCRYPTION_KEY_PREVIOUS || '';
+  }
+}
+
+/**
+ * Current keyring (primary ENCRYPTION_KEY plus any retired keys still accepted for decryption)
+ */
+export function getKeyring(): Keyring {
+  // Read through the secret so a missing secret declaration fails loudly
+  const env = { ...process.env, ENCRYPTION_KEY: getEncryptionKey(), ENCRYPTION_KEY_PREVIOUS: getPreviousEncryptionKeys() };
+  return buildKeyring(env);
+}
 
-  // Get and validate encryption key
-  let encryptionKeyValue: string;
+/**
+ * Encrypt sensitive token data under the primary key
+ * Format: keyId.iv:authTag:encrypted
+ */
+export function encryptToken(text: string): string {
+  let keyring: Keyring;
   try {
-    encryptionKeyValue = getEncryptionKey();
+    keyring = getKeyring();
   } catch (keyError) {
     console.error('❌ [OAuthEncryption] Failed to get encryption key:', keyError);
     throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
   }
 
-  if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-    console.error('❌ [OAuthEncryption] Encryption key is invalid:', {
-      type: typeof encryptionKeyValue,
-      length: encryptionKeyValue?.length || 0,
-      minLength: 32,
-    });
-    throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-  }
+  const encrypted = encryptWithKey(text, keyring.primary);
+  console.log(`🔐 [OAuthEncryption] Encryption successful. Key ID: ${keyring.primary.keyId}`);
+  return encrypted;
+}
 
-  // Derive a consistent 32-byte key from the secret
-  let key: Buffer;
-  try {
-    key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-  } catch (hashError: any) {
-    console.error('❌ [OAuthEncryption] Failed to derive key:', hashError);
-    throw new Error('Failed to derive encryption key. Encryption key may be corrupted.');
+/**
+ * Decrypt token data and report which key it was encrypted with
+ */
+export function decryptTokenWithKeyInfo(encryptedData: string): DecryptedValue & { stale: boolean } {
+  if (!encryptedData || typeof encryptedData !== 'string') {
+    throw new Error('Invalid token format: token is missing or not a string');
   }
-
-  if (!key || key.length !== 32) {
-    throw new Error(`Invalid key length. Expected 32 bytes, got ${key?.length || 0}`);
+  const partCount = encryptedData.split(':').length;
+  if (!isTokenCiphertext(encryptedData)) {
+    throw new Error(`Invalid token format. Expected 3 parts separated by ':', got ${partCount} parts.`);
   }
 
-  const iv = crypto.randomBytes(16);
-
+  let keyring: Keyring;
   try {
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    console.log(`🔐 [OAuthEncryption] Encryption successful. Key hash: ${key.toString('hex').substring(0, 6)}`);
+    keyring = getKeyring();
+  } catch (keyError) {
+    console.error('❌ [OAuthEncryption] Failed to get encryption key:', keyError);
+    throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
+  }
 
-    // Return: iv:authTag:encrypted
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-  } catch (cipherError: any) {
-    if (cipherError.message && cipherError.message.includes('Invalid key length')) {
-      console.error('❌ [OAuthEncryption] Invalid key length error during encryption:', {
-        keyLength: key?.length || 0,
-        encryptionKeyValueLength: encryptionKeyValue?.length || 0,
-      });
-      throw new Error('Invalid key length. ENCRYPTION_KEY secret may be misconfigured.');
-    }
-    throw cipherError;
+  const decrypted = decryptWithKeyring(encryptedData, keyring);
+  if (!decrypted.plaintext) {
+    throw new Error('Decrypted token is empty');
   }
+  return { ...decrypted, stale: needsReencryption(decrypted, keyring) };
 }
 
 /**
@@ -93,114 +110,30 @@ export function encryptToken(text: string): string {
  */
 export function decryptToken(encryptedData: string): string {
   try {
-    if (!encryptedData || typeof encryptedData !== 'string') {
-      throw new Error('Invalid token format: token is missing or not a string');
-    }
-
-    const parts = encryptedData.split(':');
-    if (parts.length !== 3) {
-      throw new Error(`Invalid token format. Expected 3 parts separated by ':', got ${parts.length} parts.`);
-    }
-
-    const [ivHex, authTagHex, encrypted] = parts;
-    if (!ivHex || !authTagHex || !encrypted) {
-      throw new Error('Invalid token format: missing required components (IV, auth tag, or encrypted data)');
-    }
-
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-
-    if (iv.length !== 16) {
-      throw new Error(`Invalid IV length. Expected 16 bytes, got ${iv.length}`);
-    }
-    if (authTag.length !== 16) {
-      throw new Error(`Invalid auth tag length. Expected 16 bytes, got ${authTag.length}`);
-    }
-
-    const algorithm = 'aes-256-gcm';
-
-    // Get and validate encryption key
-    let encryptionKeyValue: string;
-    try {
-      encryptionKeyValue = getEncryptionKey();
-    } catch (keyError) {
-      console.error('❌ [OAuthEncryption] Failed to get encryption key:', keyError);
-      throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-    }
-
-    if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-      console.error('❌ [OAuthEncryption] Encryption key is invalid:', {
-        type: typeof encryptionKeyValue,
-        length: encryptionKeyValue?.length || 0,
-        minLength: 32,
-      });
-      throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-    }
-
-    // Derive a consistent 32-byte key from the secret
-    let key: Buffer;
-    try {
-      key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-    } catch (hashError: any) {
-      console.error('❌ [OAuthEncryption] Failed to derive key:', hashError);
-      throw new Error('Failed to derive encryption key. Encryption key may be corrupted.');
-    }
-
-    if (!key || key.length !== 32) {
-      throw new Error(`Invalid key length. Expected 32 bytes, got ${key?.length || 0}`);
-    }
-
-    try {
-      const decipher = crypto.createDecipheriv(algorithm, key, iv);
-      decipher.setAuthTag(authTag);
-
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-
-      if (!decrypted || decrypted.length === 0) {
-        throw new Error('Decrypted token is empty');
-      }
-
-      console.log(`✅ [OAuthEncryption] Decryption successful. Key hash: ${key.toString('hex').substring(0, 6)}`);
-      return decrypted;
-    } catch (decryptError: any) {
-      // Check for authentication tag verification failure
-      const errorMessage = decryptError.message || String(decryptError);
-      const isAuthTagError = errorMessage.includes('Unsupported state') ||
-        errorMessage.includes('unable to authenticate data') ||
-        errorMessage.includes('auth tag') ||
-        decryptError.code === 'ERR_CRYPTO_INVALID_TAG';
-
-      if (isAuthTagError) {
-        const keyHash = key.toString('hex').substring(0, 6);
-        console.error('❌ [OAuthEncryption] Authentication tag verification failed:', {
-          errorMessage,
-          errorCode: decryptError.code,
-          keyHash
-        });
-        throw new Error(`Token authentication failed (KeyHash: ${keyHash}). The connection token may be corrupted or encrypted with a different key. Please re-connect your account.`);
-      }
-
-      if (decryptError.message && decryptError.message.includes('Invalid key length')) {
-        console.error('❌ [OAuthEncryption] Invalid key length error during decryption:', {
-          keyLength: key?.length || 0,
-          ivLength: iv?.length || 0,
-          authTagLength: authTag?.length || 0,
-          encryptionKeyValueLength: encryptionKeyValue?.length || 0,
-        });
-        throw new Error('Invalid key length. ENCRYPTION_KEY secret may be misconfigured. Please verify the secret is set correctly.');
-      }
-      throw decryptError;
+    const decrypted = decryptTokenWithKeyInfo(encryptedData);
+    if (decrypted.stale) {
+      console.log(`ℹ️ [OAuthEncryption] Token is on key ${decrypted.keyId}${decrypted.tagged ? '' : ' (untagged)'}; key rotation will re-encrypt it`);
     }
+    return decrypted.plaintext;
   } catch (error) {
     console.error('❌ [OAuthEncryption] Failed to decrypt token:', {
       error: error instanceof Error ? error.message : String(error),
       errorType: error instanceof Error ? error.constructor.name : typeof error,
     });
+    if (error instanceof Error && error.message.includes('authentication failed')) {
+      throw new Error(`${error.message} Please re-connect your account.`);
+    }
     throw error instanceof Error ? error : new Error('Failed to decrypt access token. Configuration error.');
   }
 }
 
+/**
+ * Whether a stored value is a token ciphertext (tagged or legacy), as opposed to plaintext
+ */
+export function isEncryptedToken(value: unknown): value is string {
+  return isTokenCiphertext(value);
+}
+
 /**
  * Generate a secure random string for state parameter
  */
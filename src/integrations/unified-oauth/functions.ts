@@ -8,10 +8,29 @@ import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { oauthService } from './OAuthService';
 import { providerRegistry } from './ProviderRegistry';
 import { FeatureAccessService } from './FeatureAccessService';
-import { encryptionKey } from './encryption';
-import { db } from '../../shared/utils';
+import { encryptionKey, encryptionKeyPrevious } from './encryption';
+import { db, validateOrganizationAccess } from '../../shared/utils';
 import * as admin from 'firebase-admin';
 import { OAuthProvider } from './types';
+import { applyHealthEvent, createConnectionHealth } from './connectionHealth';
+import { getConnectionHealthRecords } from './connectionHealthService';
+import { deleteConnectorWebhook, deleteProviderWebhooks, getConnectorWebhooks, registerConnectorWebhook } from './connectorWebhooks';
+
+/**
+ * Remove a provider's webhooks before its connection goes away (needs the credential)
+ */
+async function cleanupProviderWebhooks(organizationId: string, provider: string): Promise<void> {
+  if (!providerRegistry.getWebhookCapability(provider)) {
+    return;
+  }
+  let credential: string | null = null;
+  try {
+    credential = await oauthService.getProviderCredential(organizationId, provider);
+  } catch (error) {
+    console.warn(`⚠️ [cleanupProviderWebhooks] No usable ${provider} credential, removing registrations only`);
+  }
+  await deleteProviderWebhooks(organizationId, provider, credential);
+}
 
 /**
  * Callable function - initiate OAuth for ANY registered provider
@@ -21,7 +40,7 @@ export const initiateOAuth = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const data = request.data;
@@ -90,7 +109,7 @@ export const handleOAuthCallback = onRequest(
     cors: true,
     memory: '512MiB',
     invoker: 'public', // Required for OAuth callbacks from Google/other providers
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     const { code, state, error } = req.query;
@@ -340,7 +359,7 @@ export const refreshOAuthToken = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -412,7 +431,7 @@ export const updateOAuthAccountInfo = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { provider, organizationId } = request.data;
@@ -577,7 +596,7 @@ export const revokeOAuthConnection = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { provider, organizationId } = request.data;
@@ -598,6 +617,7 @@ export const revokeOAuthConnection = onCall(
     }
 
     // Revoke
+    await cleanupProviderWebhooks(organizationId, provider);
     await oauthService.revokeConnection(organizationId, provider);
 
     return { success: true };
@@ -613,7 +633,7 @@ export const disconnectIntegration = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { provider } = request.data;
@@ -697,6 +717,7 @@ export const disconnectIntegration = onCall(
 
     // Connection exists, revoke it
     try {
+      await cleanupProviderWebhooks(organizationId, provider);
       await oauthService.revokeConnection(organizationId, provider);
       return { success: true };
     } catch (error: any) {
@@ -722,7 +743,9 @@ export const listAvailableProviders = onCall(
       providers: providers.map(p => ({
         name: p.name,
         displayName: p.displayName,
-        type: p.type
+        type: p.type,
+        supportsWebhooks: Boolean(p.webhooks),
+        supportsSync: Boolean(p.sync)
       }))
     };
   }
@@ -736,7 +759,7 @@ export const verifyIntegrationAccess = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     const { appName, provider, organizationId } = request.data;
@@ -770,3 +793,176 @@ export const verifyIntegrationAccess = onCall(
   }
 );
 
+
+/**
+ * Callable function - health of every integration connection in an organization,
+ * for the integrations dashboard
+ */
+export const getIntegrationHealth = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+  },
+  async (request) => {
+    const organizationId = request.data?.organizationId || request.auth?.token?.organizationId;
+
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+    if (!organizationId) {
+      throw new HttpsError('invalid-argument', 'Organization ID is required');
+    }
+    if (!(await validateOrganizationAccess(request.auth.uid, organizationId))) {
+      throw new HttpsError('permission-denied', 'Not authorized for this organization');
+    }
+
+    const [records, connectionsSnapshot] = await Promise.all([
+      getConnectionHealthRecords(organizationId),
+      db.collection('organizations').doc(organizationId).collection('cloudIntegrations').get()
+    ]);
+
+    // Connections that haven't produced a health event yet are reported from their connection state
+    const recordsByProvider = new Map(records.map(record => [record.provider, record]));
+    for (const connectionDoc of connectionsSnapshot.docs) {
+      if (!recordsByProvider.has(connectionDoc.id)) {
+        const connection = connectionDoc.data();
+        recordsByProvider.set(connectionDoc.id, applyHealthEvent(
+          createConnectionHealth(connectionDoc.id),
+          { type: 'connection_state', active: connection.isActive !== false },
+          connection.lastRefreshedAt?.toDate?.() || new Date()
+        ));
+      }
+    }
+
+    const connections = Array.from(recordsByProvider.values()).map(record => ({
+      ...record,
+      displayName: providerRegistry.getProvider(record.provider)?.displayName || record.provider
+    }));
+
+    const summary = { total: connections.length, healthy: 0, degraded: 0, reconnect_required: 0, revoked: 0 };
+    for (const connection of connections) {
+      summary[connection.status]++;
+    }
+
+    return { success: true, connections, summary };
+  }
+);
+
+/**
+ * Validate the caller is an admin of the organization
+ */
+function requireOrganizationAdmin(request: { auth?: { uid: string; token: Record<string, any> } }, organizationId: string): string {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  if (!organizationId || request.auth.token.organizationId !== organizationId) {
+    throw new HttpsError('permission-denied', 'Not authorized for this organization');
+  }
+  const userRole = request.auth.token.role?.toLowerCase();
+  if (userRole !== 'admin' && userRole !== 'owner') {
+    throw new HttpsError('permission-denied', 'Admin role required to manage integrations');
+  }
+  return request.auth.uid;
+}
+
+/**
+ * Callable function - connect an API key provider (e.g. Airtable)
+ */
+export const connectApiKeyIntegration = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    const { provider, organizationId, apiKey, metadata } = request.data;
+
+    if (!providerRegistry.getApiKeyProvider(provider)) {
+      throw new HttpsError('invalid-argument', `Unknown API key provider: ${provider}`);
+    }
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new HttpsError('invalid-argument', 'API key is required');
+    }
+    const userId = requireOrganizationAdmin(request, organizationId);
+
+    try {
+      const accountInfo = await oauthService.connectApiKey(provider, organizationId, userId, apiKey.trim(), metadata || {});
+      return {
+        success: true,
+        provider,
+        accountEmail: accountInfo.email,
+        accountName: accountInfo.name,
+        accountId: accountInfo.id
+      };
+    } catch (error: any) {
+      console.error(`❌ [connectApiKeyIntegration] Failed to connect ${provider}:`, error);
+      throw new HttpsError('failed-precondition', error.message || 'Failed to connect integration');
+    }
+  }
+);
+
+/**
+ * Callable function - register an inbound webhook with a connected provider
+ */
+export const registerIntegrationWebhook = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    const { provider, organizationId, options } = request.data;
+
+    if (!providerRegistry.getWebhookCapability(provider)) {
+      throw new HttpsError('invalid-argument', `Provider ${provider} does not support webhooks`);
+    }
+    const userId = requireOrganizationAdmin(request, organizationId);
+
+    try {
+      const credential = await oauthService.getProviderCredential(organizationId, provider);
+      const registration = await registerConnectorWebhook(organizationId, provider, credential, options || {}, userId);
+      return { success: true, webhook: registration };
+    } catch (error: any) {
+      console.error(`❌ [registerIntegrationWebhook] Failed to register ${provider} webhook:`, error);
+      throw new HttpsError('internal', error.message || 'Failed to register webhook');
+    }
+  }
+);
+
+/**
+ * Callable function - delete an inbound webhook registration
+ */
+export const deleteIntegrationWebhook = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    const { organizationId, webhookId } = request.data;
+
+    if (!webhookId) {
+      throw new HttpsError('invalid-argument', 'Webhook ID is required');
+    }
+    requireOrganizationAdmin(request, organizationId);
+
+    const registration = (await getConnectorWebhooks(organizationId)).find(webhook => webhook.id === webhookId);
+    if (!registration) {
+      return { success: true, message: 'Webhook already removed' };
+    }
+
+    let credential: string | null = null;
+    try {
+      credential = await oauthService.getProviderCredential(organizationId, registration.provider);
+    } catch {
+      // Connection already gone - only the registration is removed
+    }
+
+    await deleteConnectorWebhook(organizationId, webhookId, credential);
+    return { success: true };
+  }
+);
@@ -0,0 +1,183 @@
+/**
+ * Encryption Keyring
+ *
+ * Versioned AES-256-GCM keys for stored integration secrets. Every key is identified by a
+ * short key ID (a fingerprint of the secret, never the secret itself) which is embedded in
+ * new ciphertexts so old keys can be retired once nothing references them.
+ *
+ * Keys are read from the environment (secrets declared on a function are exposed there):
+ * - ENCRYPTION_KEY: primary key, used for all new encryption
+ * - ENCRYPTION_KEY_PREVIOUS: comma-separated keys retired by a rotation, decrypt only
+ * - INTEGRATIONS_ENCRYPTION_KEY: key used by Apple Connect and the AI key store, decrypt only
+ *   unless ENCRYPTION_KEY is not available
+ * - DOCUSIGN_ENCRYPTION_KEY: hex key used by the original DocuSign config store, decrypt only
+ *
+ * Ciphertext formats:
+ * - `{keyId}.{iv}:{authTag}:{data}` - tagged, written by this module
+ * - `{iv}:{authTag}:{data}` - legacy untagged, decrypted by trying every key
+ */
+
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 16;
+const KEY_ID_PATTERN = /^[0-9a-f]{8}$/;
+
+export type KeyringKeySource = 'primary' | 'previous' | 'integrations' | 'docusign';
+
+export interface KeyringKey {
+  keyId: string;
+  source: KeyringKeySource;
+  key: Buffer;
+  /** Raw secret for formats that derive per-message keys (PBKDF2); null for raw keys */
+  secret: string | null;
+}
+
+export interface Keyring {
+  primary: KeyringKey;
+  keys: KeyringKey[];
+}
+
+export interface DecryptedValue {
+  plaintext: string;
+  keyId: string;
+  tagged: boolean;
+}
+
+/**
+ * Stable key ID for a secret. Hashes a domain-separated copy so the ID reveals nothing
+ * about the derived AES key.
+ */
+export function computeKeyId(secret: string | Buffer): string {
+  return crypto.createHash('sha256').update('keyring:v1:').update(secret).digest('hex').substring(0, 8);
+}
+
+function fromSecret(secret: string, source: KeyringKeySource): KeyringKey {
+  return {
+    keyId: computeKeyId(secret),
+    source,
+    key: crypto.createHash('sha256').update(secret, 'utf8').digest(),
+    secret
+  };
+}
+
+/**
+ * Build the keyring from environment values. The primary key comes first; every other
+ * distinct key follows in the order it is tried for untagged ciphertexts.
+ */
+export function buildKeyring(env: Record<string, string | undefined>): Keyring {
+  const primarySecret = env.ENCRYPTION_KEY || env.INTEGRATIONS_ENCRYPTION_KEY;
+  if (!primarySecret || primarySecret.length < 32) {
+    throw new Error('Encryption key not configured or invalid. ENCRYPTION_KEY must be at least 32 characters.');
+  }
+
+  const primary = fromSecret(primarySecret, env.ENCRYPTION_KEY ? 'primary' : 'integrations');
+  const keys: KeyringKey[] = [primary];
+  const add = (candidate: KeyringKey) => {
+    if (!keys.some(existing => existing.keyId === candidate.keyId)) {
+      keys.push(candidate);
+    }
+  };
+
+  (env.ENCRYPTION_KEY_PREVIOUS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(secret => secret.length >= 32)
+    .forEach(secret => add(fromSecret(secret, 'previous')));
+
+  if (env.INTEGRATIONS_ENCRYPTION_KEY && env.INTEGRATIONS_ENCRYPTION_KEY.length >= 32) {
+    add(fromSecret(env.INTEGRATIONS_ENCRYPTION_KEY, 'integrations'));
+  }
+
+  const docuSignKey = env.DOCUSIGN_ENCRYPTION_KEY;
+  if (docuSignKey && /^[0-9a-fA-F]{64}$/.test(docuSignKey)) {
+    const key = Buffer.from(docuSignKey, 'hex');
+    add({ keyId: computeKeyId(key), source: 'docusign', key, secret: null });
+  }
+
+  return { primary, keys };
+}
+
+export function findKey(keyring: Keyring, keyId: string): KeyringKey | undefined {
+  return keyring.keys.find(entry => entry.keyId === keyId);
+}
+
+/**
+ * Key ID embedded in a tagged ciphertext, or null for untagged values
+ */
+export function parseCiphertextKeyId(value: string): string | null {
+  if (typeof value !== 'string') return null;
+  const dot = value.indexOf('.');
+  const colon = value.indexOf(':');
+  if (dot <= 0 || (colon !== -1 && dot > colon)) return null;
+  const keyId = value.substring(0, dot);
+  return KEY_ID_PATTERN.test(keyId) ? keyId : null;
+}
+
+/**
+ * Whether a stored value looks like a (tagged or legacy) token ciphertext
+ */
+export function isTokenCiphertext(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const body = parseCiphertextKeyId(value) ? value.substring(value.indexOf('.') + 1) : value;
+  const parts = body.split(':');
+  return parts.length === 3 && /^[0-9a-f]{32}$/i.test(parts[0]) && /^[0-9a-f]{32}$/i.test(parts[1]) && /^[0-9a-f]*$/i.test(parts[2]);
+}
+
+export function encryptWithKey(text: string, entry: KeyringKey): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, entry.key, iv);
+  let encrypted = cipher.update(text, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+  const authTag = cipher.getAuthTag();
+  return `${entry.keyId}.${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+}
+
+/**
+ * Decrypt raw GCM parts with one key; throws on authentication failure
+ */
+export function decryptParts(parts: { iv: Buffer; authTag: Buffer; data: string }, entry: KeyringKey): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, parts.iv);
+  decipher.setAuthTag(parts.authTag);
+  let decrypted = decipher.update(parts.data, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+  return decrypted;
+}
+
+/**
+ * Decrypt a token ciphertext. Tagged values use their key directly; untagged values are
+ * tried against every key, primary first, and report which one matched.
+ */
+export function decryptWithKeyring(value: string, keyring: Keyring): DecryptedValue {
+  if (!isTokenCiphertext(value)) {
+    throw new Error('Invalid token format. Expected [keyId.]iv:authTag:encrypted');
+  }
+
+  const keyId = parseCiphertextKeyId(value);
+  const [ivHex, authTagHex, data] = (keyId ? value.substring(value.indexOf('.') + 1) : value).split(':');
+  const parts = { iv: Buffer.from(ivHex, 'hex'), authTag: Buffer.from(authTagHex, 'hex'), data };
+
+  if (keyId) {
+    const entry = findKey(keyring, keyId);
+    if (!entry) {
+      throw new Error(`Token was encrypted with key ${keyId}, which is not in the keyring. Add it to ENCRYPTION_KEY_PREVIOUS or re-connect the account.`);
+    }
+    return { plaintext: decryptParts(parts, entry), keyId, tagged: true };
+  }
+
+  for (const entry of keyring.keys) {
+    try {
+      return { plaintext: decryptParts(parts, entry), keyId: entry.keyId, tagged: false };
+    } catch {
+      // Authentication failed with this key, try the next one
+    }
+  }
+  throw new Error('Token authentication failed with every key in the keyring. The token may be corrupted or encrypted with a retired key.');
+}
+
+/**
+ * Whether a ciphertext should be rewritten under the primary key
+ */
+export function needsReencryption(decrypted: Pick<DecryptedValue, 'keyId' | 'tagged'>, keyring: Keyring): boolean {
+  return !decrypted.tagged || decrypted.keyId !== keyring.primary.keyId;
+}
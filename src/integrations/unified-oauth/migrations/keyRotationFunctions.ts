@@ -0,0 +1,124 @@
+/**
+ * Encryption Key Rotation Cloud Functions
+ *
+ * Callable functions to run the re-encryption job and report secrets still on old keys.
+ * These touch every organization's secrets, so they are limited to platform admins.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import { db } from '../../../shared/utils';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
+import { buildKeyUsageReport, runKeyRotationJob, startKeyRotationJob } from './reencryptTokens';
+
+// Decrypt-only key for tokens written by Apple Connect and the AI key store
+const integrationsEncryptionKey = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
+
+const TIMEOUT_SECONDS = 540;
+// Leave time to record progress after the last page
+const SAFETY_MARGIN_MS = 60 * 1000;
+
+function assertPlatformAdmin(auth: { uid: string; token: any } | undefined) {
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const role = String(auth.token.role || '').toUpperCase();
+  const isPlatformAdmin = ['SUPERADMIN', 'SUPER_ADMIN', 'DEV_ADMIN'].includes(role) || (auth.token.hierarchy || 0) >= 90;
+  if (!isPlatformAdmin) {
+    throw new HttpsError('permission-denied', 'Platform admin role required to manage encryption keys');
+  }
+}
+
+/**
+ * Start a key rotation, or resume one by jobId. Runs until done or close to the timeout;
+ * unfinished jobs are continued by the scheduler or another call.
+ */
+export const runEncryptionKeyRotation = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    timeoutSeconds: TIMEOUT_SECONDS,
+    secrets: [encryptionKey, integrationsEncryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    assertPlatformAdmin(request.auth);
+
+    const deadline = Date.now() + TIMEOUT_SECONDS * 1000 - SAFETY_MARGIN_MS;
+    const { jobId: requestedJobId } = request.data || {};
+
+    try {
+      const jobId = requestedJobId || await startKeyRotationJob(request.auth!.uid);
+      console.log(`🔐 [KeyRotation] ${requestedJobId ? 'Resuming' : 'Starting'} job ${jobId}`);
+
+      const job = await runKeyRotationJob(jobId, deadline);
+      if (!job) {
+        throw new HttpsError('failed-precondition', 'Key rotation job is already being processed');
+      }
+
+      return {
+        success: true,
+        jobId,
+        status: job.status,
+        primaryKeyId: job.primaryKeyId,
+        counts: job.counts,
+        countsByTarget: job.countsByTarget,
+        errors: job.errors.slice(0, 20),
+        failureReason: job.failureReason || null
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      console.error('❌ Key rotation error:', error);
+      throw new HttpsError('internal', `Key rotation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+);
+
+/**
+ * Recent key rotation jobs with their progress
+ */
+export const getEncryptionKeyRotations = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+  },
+  async (request) => {
+    assertPlatformAdmin(request.auth);
+
+    const { limit = 10 } = request.data || {};
+    const snapshot = await db.collection('encryptionKeyRotations')
+      .orderBy('startedAt', 'desc')
+      .limit(Math.min(limit, 50))
+      .get();
+
+    return {
+      success: true,
+      jobs: snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }))
+    };
+  }
+);
+
+/**
+ * Report how many stored secrets are on each key, with samples of those still on old keys
+ */
+export const getEncryptionKeyReport = onCall(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    timeoutSeconds: TIMEOUT_SECONDS,
+    secrets: [encryptionKey, integrationsEncryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    assertPlatformAdmin(request.auth);
+
+    try {
+      const report = await buildKeyUsageReport(Date.now() + TIMEOUT_SECONDS * 1000 - SAFETY_MARGIN_MS);
+      return { success: true, report };
+    } catch (error) {
+      console.error('❌ Key report error:', error);
+      throw new HttpsError('internal', `Key report failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+);
@@ -7,7 +7,7 @@
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { migrateOAuthConnections } from './migrateToCloudIntegrations';
-import { encryptionKey } from '../encryption';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
 
 /**
  * Run OAuth migration (dry-run or actual)
@@ -16,7 +16,7 @@ export const runOAuthMigration = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     // Verify user is admin
@@ -0,0 +1,401 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-encrypts stored integration secrets under the primary keyring key and reports which
+ * secrets are still on retired keys.
+ *
+ * Rotation:
+ * 1. Move the current ENCRYPTION_KEY into ENCRYPTION_KEY_PREVIOUS and set a new ENCRYPTION_KEY,
+ *    then redeploy so every function that decrypts tokens picks up both secrets
+ * 2. Start a rotation job; it pages through every target collection and resumes from its
+ *    cursor until done (manually or via the scheduled continuation)
+ * 3. Once the key report shows nothing on the old key, drop it from ENCRYPTION_KEY_PREVIOUS
+ */
+
+import * as admin from 'firebase-admin';
+import { db } from '../../../shared/utils';
+import { decryptTokenWithKeyInfo, encryptToken, getKeyring, isEncryptedToken } from '../encryption';
+import { decryptTokensBlob, encryptTokensBlob } from '../../encryption';
+import { decryptDocuSignSecretWithKeyInfo, isLegacyDocuSignCiphertext } from '../../../clipShowPro/docusign/docuSignCrypto';
+import { Keyring } from '../keyring';
+
+const PAGE_SIZE = 100;
+const MAX_RECORDED_ERRORS = 100;
+const MAX_REPORT_SAMPLES = 50;
+const LOCK_DURATION_MS = 15 * 60 * 1000;
+
+type ValueFormat = 'token' | 'tokensBlob' | 'docuSign';
+
+interface ReencryptionTarget {
+  name: string;
+  collectionGroup: string;
+  fields: Record<string, ValueFormat>;
+}
+
+/**
+ * Every collection that stores integration secrets, by collection group so all
+ * organizations are covered
+ */
+export const REENCRYPTION_TARGETS: ReencryptionTarget[] = [
+  {
+    name: 'cloudIntegrations',
+    collectionGroup: 'cloudIntegrations',
+    fields: { accessToken: 'token', refreshToken: 'token', encryptedTokens: 'tokensBlob', tokens: 'tokensBlob' }
+  },
+  { name: 'slackConnections', collectionGroup: 'slackConnections', fields: { accessToken: 'token', refreshToken: 'token' } },
+  { name: 'boxConnections', collectionGroup: 'boxConnections', fields: { accessToken: 'token', refreshToken: 'token' } },
+  { name: 'dropboxConnections', collectionGroup: 'dropboxConnections', fields: { accessToken: 'token', refreshToken: 'token' } },
+  {
+    name: 'integrationSettings',
+    collectionGroup: 'integrationSettings',
+    fields: { clientSecret: 'token', signingSecret: 'token', appSecret: 'token' }
+  },
+  {
+    name: 'integrationConfigs',
+    collectionGroup: 'integrationConfigs',
+    fields: { clientSecret: 'token', signingSecret: 'token', appSecret: 'token', accessToken: 'token', refreshToken: 'token' }
+  },
+  { name: 'docuSignConfig', collectionGroup: 'docuSignConfig', fields: { integrationKey: 'docuSign', rsaPrivateKey: 'docuSign' } },
+  { name: 'integrationWebhooks', collectionGroup: 'integrationWebhooks', fields: { secret: 'token' } }
+];
+
+export type RotationJobStatus = 'running' | 'completed' | 'failed';
+
+export interface RotationCounts {
+  documents: number;
+  values: number;
+  reencrypted: number;
+  alreadyCurrent: number;
+  unencrypted: number;
+  failed: number;
+  conflicts: number;
+}
+
+export interface KeyRotationJob {
+  status: RotationJobStatus;
+  primaryKeyId: string;
+  targetIndex: number;
+  cursor: string | null;
+  counts: RotationCounts;
+  countsByTarget: Record<string, RotationCounts>;
+  errors: Array<{ path: string; field: string; error: string }>;
+  startedBy: string;
+  startedAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp | null;
+  lockExpiresAt?: admin.firestore.Timestamp | null;
+  failureReason?: string | null;
+}
+
+interface ValueInspection {
+  status: 'current' | 'stale' | 'unencrypted' | 'failed';
+  keyId: string | null;
+  plaintext?: string;
+  error?: string;
+}
+
+function emptyCounts(): RotationCounts {
+  return { documents: 0, values: 0, reencrypted: 0, alreadyCurrent: 0, unencrypted: 0, failed: 0, conflicts: 0 };
+}
+
+function isTokensBlob(value: string): boolean {
+  return /^([0-9a-f]{8}\.)?[A-Za-z0-9+/]+={0,2}$/.test(value) && value.length > 100;
+}
+
+/**
+ * Decrypt a stored value to find the key it is on, without changing it
+ */
+function inspectValue(value: unknown, format: ValueFormat, keyring: Keyring): ValueInspection {
+  if (typeof value !== 'string' || value.length === 0) {
+    return { status: 'unencrypted', keyId: null };
+  }
+
+  try {
+    let decrypted: { plaintext: string; keyId: string; tagged: boolean };
+    if (format === 'docuSign' && isLegacyDocuSignCiphertext(value)) {
+      const { plaintext, keyId } = decryptDocuSignSecretWithKeyInfo(value);
+      decrypted = { plaintext, keyId, tagged: false };
+    } else if ((format === 'token' || format === 'docuSign') && isEncryptedToken(value)) {
+      decrypted = decryptTokenWithKeyInfo(value);
+    } else if (format === 'tokensBlob' && isTokensBlob(value)) {
+      decrypted = decryptTokensBlob(value);
+    } else {
+      return { status: 'unencrypted', keyId: null };
+    }
+
+    const current = decrypted.tagged && decrypted.keyId === keyring.primary.keyId;
+    return { status: current ? 'current' : 'stale', keyId: decrypted.keyId, plaintext: decrypted.plaintext };
+  } catch (error: any) {
+    return { status: 'failed', keyId: null, error: error?.message || String(error) };
+  }
+}
+
+function reencryptValue(plaintext: string, format: ValueFormat): string {
+  return format === 'tokensBlob' ? encryptTokensBlob(plaintext) : encryptToken(plaintext);
+}
+
+async function fetchPage(target: ReencryptionTarget, cursor: string | null) {
+  let query = db.collectionGroup(target.collectionGroup)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(PAGE_SIZE);
+  if (cursor) {
+    query = query.startAfter(cursor);
+  }
+  return query.get();
+}
+
+function addCounts(total: RotationCounts, delta: RotationCounts) {
+  (Object.keys(delta) as Array<keyof RotationCounts>).forEach(key => {
+    total[key] += delta[key];
+  });
+}
+
+/**
+ * Start a rotation job; only one job can run at a time
+ */
+export async function startKeyRotationJob(startedBy: string): Promise<string> {
+  const keyring = getKeyring();
+  const running = await db.collection('encryptionKeyRotations').where('status', '==', 'running').limit(1).get();
+  if (!running.empty) {
+    throw new Error(`Key rotation ${running.docs[0].id} is already running. Resume it instead of starting a new one.`);
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const jobRef = db.collection('encryptionKeyRotations').doc();
+  const job: KeyRotationJob = {
+    status: 'running',
+    primaryKeyId: keyring.primary.keyId,
+    targetIndex: 0,
+    cursor: null,
+    counts: emptyCounts(),
+    countsByTarget: {},
+    errors: [],
+    startedBy,
+    startedAt: now,
+    updatedAt: now,
+    completedAt: null,
+    lockExpiresAt: null,
+    failureReason: null
+  };
+  await jobRef.set(job);
+  return jobRef.id;
+}
+
+/**
+ * Continue a rotation job from its cursor until it finishes or the deadline passes.
+ * Returns null when another invocation holds the job.
+ */
+export async function runKeyRotationJob(jobId: string, deadline: number): Promise<KeyRotationJob | null> {
+  const jobRef = db.collection('encryptionKeyRotations').doc(jobId);
+  const keyring = getKeyring();
+
+  const acquired = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(jobRef);
+    if (!snapshot.exists) {
+      throw new Error('Key rotation job not found');
+    }
+    const job = snapshot.data() as KeyRotationJob;
+    if (job.status !== 'running') {
+      return false;
+    }
+    if (job.lockExpiresAt && job.lockExpiresAt.toMillis() > Date.now()) {
+      return false;
+    }
+    transaction.update(jobRef, { lockExpiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + LOCK_DURATION_MS) });
+    return true;
+  });
+  if (!acquired) {
+    const snapshot = await jobRef.get();
+    const job = snapshot.data() as KeyRotationJob;
+    return job.status === 'running' ? null : job;
+  }
+
+  const job = (await jobRef.get()).data() as KeyRotationJob;
+
+  // Values re-encrypted so far are on the job's primary key; a different primary means the
+  // keys changed mid-rotation and the job has to start over
+  if (job.primaryKeyId !== keyring.primary.keyId) {
+    const failed = {
+      status: 'failed' as const,
+      failureReason: `Primary key changed from ${job.primaryKeyId} to ${keyring.primary.keyId} during rotation. Start a new rotation.`,
+      lockExpiresAt: null,
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+    await jobRef.update(failed);
+    return { ...job, ...failed };
+  }
+
+  while (job.targetIndex < REENCRYPTION_TARGETS.length && Date.now() < deadline) {
+    const target = REENCRYPTION_TARGETS[job.targetIndex];
+    const page = await fetchPage(target, job.cursor);
+    const pageCounts = emptyCounts();
+
+    for (const doc of page.docs) {
+      pageCounts.documents++;
+      const data = doc.data();
+      const updates: Record<string, string> = {};
+
+      Object.entries(target.fields).forEach(([field, format]) => {
+        if (data[field] === undefined || data[field] === null) return;
+        pageCounts.values++;
+        const inspection = inspectValue(data[field], format, keyring);
+        if (inspection.status === 'current') {
+          pageCounts.alreadyCurrent++;
+        } else if (inspection.status === 'unencrypted') {
+          pageCounts.unencrypted++;
+        } else if (inspection.status === 'failed') {
+          pageCounts.failed++;
+          if (job.errors.length < MAX_RECORDED_ERRORS) {
+            job.errors.push({ path: doc.ref.path, field, error: inspection.error || 'Unknown error' });
+          }
+        } else {
+          updates[field] = reencryptValue(inspection.plaintext!, format);
+        }
+      });
+
+      const fieldCount = Object.keys(updates).length;
+      if (fieldCount === 0) continue;
+      try {
+        // Skip documents written since they were read (e.g. a token refresh, which already
+        // used the primary key); the report will pick up anything left behind
+        await doc.ref.update(
+          { ...updates, encryptionKeyId: keyring.primary.keyId },
+          { lastUpdateTime: doc.updateTime }
+        );
+        pageCounts.reencrypted += fieldCount;
+      } catch (error: any) {
+        pageCounts.conflicts += fieldCount;
+        console.warn(`⚠️ [KeyRotation] Skipped ${doc.ref.path}: ${error?.message || error}`);
+      }
+    }
+
+    addCounts(job.counts, pageCounts);
+    job.countsByTarget[target.name] = job.countsByTarget[target.name] || emptyCounts();
+    addCounts(job.countsByTarget[target.name], pageCounts);
+
+    if (page.size < PAGE_SIZE) {
+      job.targetIndex++;
+      job.cursor = null;
+    } else {
+      job.cursor = page.docs[page.docs.length - 1].ref.path;
+    }
+
+    const finished = job.targetIndex >= REENCRYPTION_TARGETS.length;
+    job.status = finished ? 'completed' : 'running';
+    job.updatedAt = admin.firestore.Timestamp.now();
+    await jobRef.update({
+      status: job.status,
+      targetIndex: job.targetIndex,
+      cursor: job.cursor,
+      counts: job.counts,
+      countsByTarget: job.countsByTarget,
+      errors: job.errors,
+      updatedAt: job.updatedAt,
+      ...(finished ? { completedAt: job.updatedAt, lockExpiresAt: null } : {})
+    });
+  }
+
+  if (job.status === 'running') {
+    await jobRef.update({ lockExpiresAt: null });
+  }
+  console.log(`🔐 [KeyRotation] Job ${jobId} ${job.status}: ${job.counts.reencrypted} re-encrypted, ${job.counts.failed} failed`);
+  return { ...job, lockExpiresAt: null };
+}
+
+/**
+ * Continue every running rotation job until the deadline
+ */
+export async function continueRunningKeyRotations(deadline: number): Promise<number> {
+  const running = await db.collection('encryptionKeyRotations').where('status', '==', 'running').get();
+  let continued = 0;
+  for (const jobDoc of running.docs) {
+    if (Date.now() >= deadline) break;
+    if (await runKeyRotationJob(jobDoc.id, deadline)) {
+      continued++;
+    }
+  }
+  return continued;
+}
+
+export interface KeyUsageReport {
+  primaryKeyId: string;
+  keys: Array<{ keyId: string; source: string; primary: boolean }>;
+  totals: { values: number; current: number; onOldKeys: number; unencrypted: number; undecryptable: number };
+  byKeyId: Record<string, number>;
+  byTarget: Record<string, { values: number; current: number; onOldKeys: number; unencrypted: number; undecryptable: number; byKeyId: Record<string, number> }>;
+  staleSamples: Array<{ path: string; field: string; keyId: string | null; reason: string }>;
+  truncated: boolean;
+}
+
+/**
+ * Report which key every stored secret is on. Untagged ciphertexts count as old even when
+ * they decrypt with the primary key, since rotation has not touched them yet.
+ */
+export async function buildKeyUsageReport(deadline: number): Promise<KeyUsageReport> {
+  const keyring = getKeyring();
+  const report: KeyUsageReport = {
+    primaryKeyId: keyring.primary.keyId,
+    keys: keyring.keys.map(entry => ({ keyId: entry.keyId, source: entry.source, primary: entry.keyId === keyring.primary.keyId })),
+    totals: { values: 0, current: 0, onOldKeys: 0, unencrypted: 0, undecryptable: 0 },
+    byKeyId: {},
+    byTarget: {},
+    staleSamples: [],
+    truncated: false
+  };
+
+  for (const target of REENCRYPTION_TARGETS) {
+    const targetReport = { values: 0, current: 0, onOldKeys: 0, unencrypted: 0, undecryptable: 0, byKeyId: {} as Record<string, number> };
+    report.byTarget[target.name] = targetReport;
+
+    let cursor: string | null = null;
+    do {
+      if (Date.now() >= deadline) {
+        report.truncated = true;
+        return report;
+      }
+      const page = await fetchPage(target, cursor);
+      page.docs.forEach(doc => {
+        const data = doc.data();
+        Object.entries(target.fields).forEach(([field, format]) => {
+          if (data[field] === undefined || data[field] === null) return;
+          const inspection = inspectValue(data[field], format, keyring);
+          targetReport.values++;
+          report.totals.values++;
+
+          if (inspection.keyId) {
+            targetReport.byKeyId[inspection.keyId] = (targetReport.byKeyId[inspection.keyId] || 0) + 1;
+            report.byKeyId[inspection.keyId] = (report.byKeyId[inspection.keyId] || 0) + 1;
+          }
+
+          if (inspection.status === 'current') {
+            targetReport.current++;
+            report.totals.current++;
+          } else if (inspection.status === 'unencrypted') {
+            targetReport.unencrypted++;
+            report.totals.unencrypted++;
+          } else {
+            const stale = inspection.status === 'stale';
+            if (stale) {
+              targetReport.onOldKeys++;
+              report.totals.onOldKeys++;
+            } else {
+              targetReport.undecryptable++;
+              report.totals.undecryptable++;
+            }
+            if (report.staleSamples.length < MAX_REPORT_SAMPLES) {
+              report.staleSamples.push({
+                path: doc.ref.path,
+                field,
+                keyId: inspection.keyId,
+                reason: stale ? 'old key' : (inspection.error || 'undecryptable')
+              });
+            }
+          }
+        });
+      });
+      cursor = page.size < PAGE_SIZE ? null : page.docs[page.docs.length - 1].ref.path;
+    } while (cursor);
+  }
+
+  return report;
+}
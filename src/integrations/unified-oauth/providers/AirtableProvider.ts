@@ -0,0 +1,157 @@
+/**
+ * Airtable Provider
+ *
+ * API key provider (Airtable personal access tokens) with base webhooks
+ * and table sync jobs on the shared sync queue
+ */
+
+import * as crypto from 'crypto';
+import {
+  AccountInfo,
+  ApiKeyProvider,
+  InboundWebhook,
+  RegisteredWebhook,
+  SyncCapability,
+  SyncJob,
+  SyncJobInput,
+  WebhookCapability,
+  WebhookRegistration
+} from '../types';
+import { AirtableApiError, AirtableClient } from '../../airtableClient';
+import {
+  applyAirtableWebhookPayloads,
+  getTableMapping,
+  pullAirtableTable,
+  pushFirebaseCollection,
+  pushFirebaseDocument
+} from '../../airtableSync';
+import { db } from '../../../shared/utils';
+
+export class AirtableProvider implements ApiKeyProvider {
+  name = 'airtable';
+  displayName = 'Airtable';
+  type = 'api_key' as const;
+
+  /**
+   * Check a personal access token against the whoami endpoint
+   */
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      await new AirtableClient(apiKey).whoami();
+      return true;
+    } catch (error) {
+      if (error instanceof AirtableApiError && (error.status === 401 || error.status === 403)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getAccountInfo(apiKey: string): Promise<AccountInfo> {
+    const user = await new AirtableClient(apiKey).whoami();
+    return {
+      id: user.id,
+      email: user.email || '',
+      name: user.email || user.id
+    };
+  }
+
+  webhooks: WebhookCapability = {
+    /**
+     * Options: { baseId, tableId? } - one webhook per base, optionally scoped to a table
+     */
+    async registerWebhook(credential: string, notificationUrl: string, options: Record<string, any>): Promise<RegisteredWebhook> {
+      if (!options.baseId) {
+        throw new Error('baseId is required for Airtable webhooks');
+      }
+      const webhook = await new AirtableClient(credential).createWebhook(options.baseId, notificationUrl, options.tableId);
+      return {
+        externalId: webhook.id,
+        secret: webhook.macSecretBase64,
+        expiresAt: webhook.expirationTime ? new Date(webhook.expirationTime) : undefined,
+        metadata: { baseId: options.baseId }
+      };
+    },
+
+    async deleteWebhook(credential: string, registration: WebhookRegistration): Promise<void> {
+      await new AirtableClient(credential).deleteWebhook(registration.options.baseId, registration.externalId);
+    },
+
+    /**
+     * Airtable webhooks expire after 7 days unless refreshed
+     */
+    async refreshWebhook(credential: string, registration: WebhookRegistration): Promise<Date | null> {
+      const result = await new AirtableClient(credential).refreshWebhook(registration.options.baseId, registration.externalId);
+      return result.expirationTime ? new Date(result.expirationTime) : null;
+    },
+
+    /**
+     * X-Airtable-Content-MAC: hmac-sha256=<hex HMAC of the raw body, keyed with the decoded MAC secret>
+     */
+    verifySignature(webhook: InboundWebhook, secret: string): boolean {
+      const header = webhook.headers['x-airtable-content-mac'];
+      const mac = Array.isArray(header) ? header[0] : header;
+      if (!mac) {
+        return false;
+      }
+
+      const expected = 'hmac-sha256=' + crypto
+        .createHmac('sha256', Buffer.from(secret, 'base64'))
+        .update(webhook.rawBody)
+        .digest('hex');
+
+      const expectedBuffer = Buffer.from(expected);
+      const macBuffer = Buffer.from(mac);
+      return expectedBuffer.length === macBuffer.length && crypto.timingSafeEqual(expectedBuffer, macBuffer);
+    },
+
+    /**
+     * Notifications only say that something changed; the job reads the payloads
+     */
+    toSyncJobs(webhook: InboundWebhook, registration: WebhookRegistration): SyncJobInput[] {
+      return [{
+        operation: 'webhook_payloads',
+        payload: {
+          baseId: webhook.body?.base?.id || registration.options.baseId,
+          webhookId: webhook.body?.webhook?.id || registration.externalId
+        },
+        priority: 'high'
+      }];
+    }
+  };
+
+  sync: SyncCapability = {
+    async processSyncJob(job: SyncJob, credential: string): Promise<Record<string, any>> {
+      const client = new AirtableClient(credential);
+      const { payload } = job;
+
+      switch (job.operation) {
+        case 'webhook_payloads':
+          return applyAirtableWebhookPayloads(client, job.organizationId, payload.baseId, payload.webhookId);
+
+        case 'pull_table': {
+          const mapping = await getTableMapping(job.organizationId, payload.mappingId);
+          return { ...(await pullAirtableTable(client, mapping, payload.mode === 'full' ? 'full' : 'incremental')) };
+        }
+
+        case 'push_collection': {
+          const mapping = await getTableMapping(job.organizationId, payload.mappingId);
+          return { ...(await pushFirebaseCollection(client, mapping, payload.mode === 'full' ? 'full' : 'changed')) };
+        }
+
+        case 'push_record': {
+          const mapping = await getTableMapping(job.organizationId, payload.mappingId);
+          const doc = await db.collection(mapping.firebaseCollection).doc(payload.documentId).get();
+          if (doc.data()?.organizationId !== job.organizationId) {
+            throw new Error(`Document ${payload.documentId} not found`);
+          }
+          await pushFirebaseDocument(client, mapping, doc);
+          return { documentId: payload.documentId };
+        }
+
+        default:
+          throw new Error(`Unknown Airtable sync operation: ${job.operation}`);
+      }
+    }
+  };
+}
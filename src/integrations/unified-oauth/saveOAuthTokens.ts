@@ -6,7 +6,7 @@
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { encryptToken, encryptionKey } from './encryption';
+import { encryptToken, encryptionKey, encryptionKeyPrevious } from './encryption';
 import { db } from '../../shared/utils';
 import { Timestamp } from 'firebase-admin/firestore';
 
@@ -15,7 +15,7 @@ export const saveOAuthTokens = onCall(
         region: 'us-central1',
         cors: true,
         memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-        secrets: [encryptionKey],
+        secrets: [encryptionKey, encryptionKeyPrevious],
     },
     async (request) => {
         try {
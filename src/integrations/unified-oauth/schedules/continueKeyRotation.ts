@@ -0,0 +1,37 @@
+/**
+ * Scheduled Key Rotation Continuation
+ *
+ * Resumes running encryption key rotation jobs from their cursor
+ * Runs every 15 minutes
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineSecret } from 'firebase-functions/params';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
+import { continueRunningKeyRotations } from '../migrations/reencryptTokens';
+
+const integrationsEncryptionKey = defineSecret('INTEGRATIONS_ENCRYPTION_KEY');
+
+const TIMEOUT_SECONDS = 540;
+const SAFETY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Continue key rotation jobs
+ * Runs every 15 minutes
+ */
+export const continueEncryptionKeyRotations = onSchedule(
+  {
+    schedule: 'every 15 minutes',
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: TIMEOUT_SECONDS,
+    secrets: [encryptionKey, integrationsEncryptionKey, encryptionKeyPrevious],
+    timeZone: 'UTC'
+  },
+  async () => {
+    const continued = await continueRunningKeyRotations(Date.now() + TIMEOUT_SECONDS * 1000 - SAFETY_MARGIN_MS);
+    if (continued > 0) {
+      console.log(`🔐 Continued ${continued} key rotation job(s)`);
+    }
+  }
+);
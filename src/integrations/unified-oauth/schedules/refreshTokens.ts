@@ -1,7 +1,9 @@
 /**
  * Scheduled Token Refresh
  * 
- * Automatically refreshes OAuth tokens that are expiring soon
+ * Automatically refreshes OAuth tokens that are expiring soon, and validates
+ * connections that didn't need a refresh so revoked access is noticed early.
+ * Every outcome is recorded in the connection's health record.
  * Runs every hour
  */
 
@@ -10,7 +12,47 @@ import { db } from '../../../shared/utils';
 import { Timestamp } from 'firebase-admin/firestore';
 import { providerRegistry } from '../ProviderRegistry';
 import { decryptToken } from '../encryption';
-import { encryptionKey } from '../encryption';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
+import { OAuthProvider } from '../types';
+import { classifyConnectionError, ConnectionHealth } from '../connectionHealth';
+import { getConnectionHealth, recordConnectionHealthEvent } from '../connectionHealthService';
+
+// Connections that didn't need a refresh are validated against the provider this often
+const VALIDATION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Check a connection's access token with the provider and record the result
+ */
+async function validateConnectionHealth(
+  provider: OAuthProvider,
+  orgId: string,
+  connectionData: FirebaseFirestore.DocumentData,
+  health: ConnectionHealth
+): Promise<void> {
+  if (!connectionData.accessToken) {
+    return;
+  }
+  if (health.lastValidatedAt && Date.now() - health.lastValidatedAt.getTime() < VALIDATION_INTERVAL_MS) {
+    return;
+  }
+
+  const expiresAt = connectionData.tokenExpiresAt?.toMillis();
+  const ok = await provider.validateConnection({
+    accessToken: decryptToken(connectionData.accessToken),
+    scopes: connectionData.scopes || [],
+    accountInfo: {
+      email: connectionData.accountEmail || '',
+      name: connectionData.accountName || '',
+      id: connectionData.accountId || ''
+    }
+  });
+
+  await recordConnectionHealthEvent(orgId, provider.name, {
+    type: 'validation',
+    ok,
+    tokenFresh: !expiresAt || expiresAt > Date.now()
+  });
+}
 
 /**
  * Refresh expired tokens
@@ -21,7 +63,7 @@ export const refreshExpiredTokens = onSchedule(
     schedule: 'every 1 hours',
     region: 'us-central1',
     memory: '512MiB',
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     timeZone: 'America/Los_Angeles'
   },
   async (event) => {
@@ -59,8 +101,13 @@ export const refreshExpiredTokens = onSchedule(
 
           const connectionData = connectionDoc.data()!;
 
+          const health = await getConnectionHealth(orgId, providerName);
+
           // Skip if not active
           if (connectionData.isActive === false) {
+            if (health.connectionActive) {
+              await recordConnectionHealthEvent(orgId, providerName, { type: 'connection_state', active: false });
+            }
             continue;
           }
 
@@ -72,6 +119,11 @@ export const refreshExpiredTokens = onSchedule(
 
             // Only refresh if expiring within 30 minutes or already expired
             if (timeUntilExpiry > thirtyMinutes) {
+              try {
+                await validateConnectionHealth(provider as OAuthProvider, orgId, connectionData, health);
+              } catch (validationError) {
+                console.warn(`⚠️ [refreshTokens] Could not validate ${providerName} for org ${orgId}:`, validationError);
+              }
               continue;
             }
           }
@@ -104,6 +156,7 @@ export const refreshExpiredTokens = onSchedule(
               lastRefreshedAt: Timestamp.now(),
               consecutiveRefreshFailures: 0 // Reset failure counter on success
             });
+            await recordConnectionHealthEvent(orgId, providerName, { type: 'refresh', ok: true });
 
             refreshed++;
             console.log(`✅ Refreshed ${providerName} token for org ${orgId}`);
@@ -112,32 +165,15 @@ export const refreshExpiredTokens = onSchedule(
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error(`❌ Failed to refresh ${providerName} token for org ${orgId}:`, errorMessage);
 
-            // CLASSIFY ERROR TYPES
+            await recordConnectionHealthEvent(orgId, providerName, { type: 'refresh', ok: false, error: errorMessage });
 
-            // 1. Temporary Network/Server Errors
-            // These should NOT count against the failure limit at all, or very leniently
-            const isTemporaryError =
-              errorMessage.includes('ETIMEDOUT') ||
-              errorMessage.includes('ECONNREFUSED') ||
-              errorMessage.includes('ENOTFOUND') ||
-              errorMessage.includes('network socket disconnected') ||
-              errorMessage.includes('Network request failed') ||
-              errorMessage.includes('timeout') ||
-              errorMessage.includes('500') || // Internal Server Error
-              errorMessage.includes('502') || // Bad Gateway
-              errorMessage.includes('503') || // Service Unavailable
-              errorMessage.includes('504');   // Gateway Timeout
-
-            // 2. Permanent Auth Errors
-            // These mean the user needs to re-authenticate
-            const isPermanentError =
-              errorMessage.includes('invalid_grant') ||
-              errorMessage.includes('Token has been expired or revoked') ||
-              errorMessage.includes('refresh token is invalid or revoked') ||
-              errorMessage.includes('token_revoked') ||
-              errorMessage.includes('invalid_client') ||
-              errorMessage.includes('unauthorized_client') ||
-              errorMessage.includes('usage_limit'); // Usage limit might be permanent if quota exceeded
+            // CLASSIFY ERROR TYPES
+            // Temporary network/server errors never count against the failure limit;
+            // revoked or rejected credentials mean the user needs to re-authenticate.
+            // Keyring errors (our own decryption failing) go through backoff like other errors.
+            const errorKind = classifyConnectionError(errorMessage);
+            const isTemporaryError = errorKind === 'temporary';
+            const isPermanentError = errorKind === 'revoked' || errorKind === 'auth';
 
             if (isTemporaryError) {
               console.warn(`⚠️ [refreshTokens] Temporary network error for ${providerName} in org ${orgId} - will retry without penalty`);
@@ -169,6 +205,7 @@ export const refreshExpiredTokens = onSchedule(
                 consecutiveRefreshFailures: failureCount,
                 requiresReconnection: true
               });
+              await recordConnectionHealthEvent(orgId, providerName, { type: 'connection_state', active: false });
             } else if (failureCount >= maxRetries) {
               // Too many consecutive failures - mark as inactive
               console.error(`🚫 [refreshTokens] ${failureCount} consecutive failures for ${providerName} in org ${orgId} - marking inactive`);
@@ -179,6 +216,7 @@ export const refreshExpiredTokens = onSchedule(
                 consecutiveRefreshFailures: failureCount,
                 requiresReconnection: false
               });
+              await recordConnectionHealthEvent(orgId, providerName, { type: 'connection_state', active: false });
             } else {
               // EXPONENTIAL BACKOFF
               // If we have some failures, check if we should wait before trying again
@@ -0,0 +1,63 @@
+/**
+ * Scheduled Webhook Refresh
+ *
+ * Extends connector webhooks that expire within the next two days
+ * (e.g. Airtable webhooks expire after 7 days without a refresh)
+ * Runs daily
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from '../../../shared/utils';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
+import { providerRegistry } from '../ProviderRegistry';
+import { oauthService } from '../OAuthService';
+import { getConnectorWebhooks, updateConnectorWebhook } from '../connectorWebhooks';
+
+const REFRESH_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Refresh expiring webhooks
+ * Runs daily
+ */
+export const refreshIntegrationWebhooks = onSchedule(
+  {
+    schedule: 'every 24 hours',
+    region: 'us-central1',
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+    timeZone: 'UTC'
+  },
+  async () => {
+    const expiring = await db.collectionGroup('integrationWebhooks')
+      .where('isActive', '==', true)
+      .where('expiresAt', '<=', Timestamp.fromMillis(Date.now() + REFRESH_WINDOW_MS))
+      .get();
+
+    let refreshed = 0;
+    let errors = 0;
+    const organizationIds = new Set(expiring.docs.map(doc => doc.data().organizationId as string));
+
+    for (const organizationId of organizationIds) {
+      const registrations = (await getConnectorWebhooks(organizationId))
+        .filter(registration => expiring.docs.some(doc => doc.id === registration.id));
+
+      for (const registration of registrations) {
+        const webhooks = providerRegistry.getWebhookCapability(registration.provider);
+        if (!webhooks?.refreshWebhook) continue;
+
+        try {
+          const credential = await oauthService.getProviderCredential(organizationId, registration.provider);
+          const expiresAt = await webhooks.refreshWebhook(credential, registration);
+          await updateConnectorWebhook(organizationId, registration.id, { expiresAt });
+          refreshed++;
+        } catch (error) {
+          console.error(`❌ [refreshWebhooks] Failed to refresh ${registration.provider} webhook ${registration.id} for org ${organizationId}:`, error);
+          errors++;
+        }
+      }
+    }
+
+    console.log(`✅ Webhook refresh complete: ${refreshed} refreshed, ${errors} errors`);
+  }
+);
@@ -0,0 +1,34 @@
+/**
+ * Scheduled Sync Queue Retries
+ *
+ * Runs connector sync jobs whose retry is due, and jobs left behind by crashed runs
+ * Runs every 5 minutes
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { encryptionKey, encryptionKeyPrevious } from '../encryption';
+import { runDueSyncJobs } from '../connectorSyncQueue';
+
+const TIMEOUT_SECONDS = 540;
+const SAFETY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Retry due sync jobs
+ * Runs every 5 minutes
+ */
+export const retryIntegrationSyncJobs = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: TIMEOUT_SECONDS,
+    secrets: [encryptionKey, encryptionKeyPrevious],
+    timeZone: 'UTC'
+  },
+  async () => {
+    const ran = await runDueSyncJobs(Date.now() + TIMEOUT_SECONDS * 1000 - SAFETY_MARGIN_MS);
+    if (ran > 0) {
+      console.log(`🔄 Ran ${ran} queued sync job(s)`);
+    }
+  }
+);
@@ -39,6 +39,10 @@ export interface OAuthProvider {
   
   // Optional: Webhook setup
   setupWebhook?(organizationId: string, webhookUrl: string): Promise<void>;
+
+  // Optional capabilities (see WebhookCapability / SyncCapability)
+  webhooks?: WebhookCapability;
+  sync?: SyncCapability;
 }
 
 /**
@@ -53,6 +57,10 @@ export interface ApiKeyProvider {
   validateApiKey(apiKey: string): Promise<boolean>;
   getAccountInfo(apiKey: string): Promise<AccountInfo>;
   revokeApiKey?(apiKey: string): Promise<void>;
+
+  // Optional capabilities (see WebhookCapability / SyncCapability)
+  webhooks?: WebhookCapability;
+  sync?: SyncCapability;
 }
 
 /**
@@ -60,6 +68,77 @@ export interface ApiKeyProvider {
  */
 export type ProviderPlugin = OAuthProvider | ApiKeyProvider;
 
+/**
+ * Inbound webhook request as seen by a provider
+ */
+export interface InboundWebhook {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: Buffer;
+  body: any;
+}
+
+/**
+ * Webhook created on the provider's side
+ */
+export interface RegisteredWebhook {
+  externalId: string;
+  secret: string; // Signing secret, stored encrypted
+  expiresAt?: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Stored webhook registration (organizations/{orgId}/integrationWebhooks/{id})
+ */
+export interface WebhookRegistration {
+  id: string;
+  organizationId: string;
+  provider: string;
+  externalId: string;
+  options: Record<string, any>;
+  metadata: Record<string, any>;
+  expiresAt: Date | null;
+  isActive: boolean;
+}
+
+/**
+ * Webhook Capability
+ * Lets a provider register webhooks, verify their deliveries and turn them into sync jobs
+ */
+export interface WebhookCapability {
+  registerWebhook(credential: string, notificationUrl: string, options: Record<string, any>): Promise<RegisteredWebhook>;
+  deleteWebhook?(credential: string, registration: WebhookRegistration): Promise<void>;
+  /** Extend a webhook before it expires; returns the new expiry */
+  refreshWebhook?(credential: string, registration: WebhookRegistration): Promise<Date | null>;
+  verifySignature(webhook: InboundWebhook, secret: string): boolean;
+  toSyncJobs(webhook: InboundWebhook, registration: WebhookRegistration): SyncJobInput[];
+}
+
+/**
+ * Work item for the shared sync queue (integrationSyncQueue)
+ */
+export interface SyncJobInput {
+  operation: string;
+  payload: Record<string, any>;
+  priority?: 'low' | 'normal' | 'high';
+}
+
+export interface SyncJob extends SyncJobInput {
+  id: string;
+  organizationId: string;
+  provider: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * Sync Capability
+ * Provider-side handler for jobs on the shared sync queue
+ */
+export interface SyncCapability {
+  processSyncJob(job: SyncJob, credential: string): Promise<Record<string, any> | void>;
+}
+
 /**
  * Token Set returned from OAuth flow
  */
@@ -0,0 +1,76 @@
+/**
+ * Storage Provider Registry
+ *
+ * Central registry for all cloud storage providers
+ * To add a new provider, implement the StorageProvider interface and register it here
+ */
+
+import { StorageProvider, StorageCapability } from './types';
+import { BoxStorageProvider } from './providers/BoxStorageProvider';
+import { DropboxStorageProvider } from './providers/DropboxStorageProvider';
+import { GoogleDriveStorageProvider } from './providers/GoogleDriveStorageProvider';
+import { AppleStorageProvider } from './providers/AppleStorageProvider';
+
+/**
+ * Storage Provider Registry - mirrors the OAuth ProviderRegistry
+ *
+ * To add a new provider:
+ * 1. Create provider class implementing StorageProvider
+ * 2. Import the provider class
+ * 3. Register it in the constructor
+ */
+export class StorageProviderRegistry {
+  private providers: Map<string, StorageProvider> = new Map();
+
+  constructor() {
+    this.register(new GoogleDriveStorageProvider());
+    this.register(new BoxStorageProvider());
+    this.register(new DropboxStorageProvider());
+    this.register(new AppleStorageProvider());
+  }
+
+  /**
+   * Register a new storage provider
+   */
+  register(provider: StorageProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Get a provider by name
+   */
+  getProvider(name: string): StorageProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getAllProviders(): StorageProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Check if provider is registered
+   */
+  hasProvider(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Get a provider that supports a capability, or throw
+   */
+  requireCapability(name: string, capability: StorageCapability): StorageProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown storage provider: ${name}`);
+    }
+    if (!provider.capabilities.includes(capability)) {
+      throw new Error(`${provider.displayName} does not support ${capability}`);
+    }
+    return provider;
+  }
+}
+
+// Singleton instance
+export const storageProviderRegistry = new StorageProviderRegistry();
@@ -0,0 +1,129 @@
+/**
+ * Dropbox Storage Provider Tests
+ *
+ * Tests for normalizing Dropbox SDK responses into storage items and errors
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../dropbox/files', () => ({ refreshDropboxAccessToken: vi.fn() }));
+
+import { DropboxStorageProvider } from '../providers/DropboxStorageProvider';
+
+const context = { organizationId: 'org-1', userId: 'user-1' };
+
+/** Provider whose SDK client is the given stub */
+function withClient(client: Record<string, any>): DropboxStorageProvider {
+  const provider = new DropboxStorageProvider();
+  vi.spyOn(provider as any, 'getClient').mockResolvedValue(client);
+  return provider;
+}
+
+const folder = (path: string) => ({ '.tag': 'folder', name: path.split('/').pop(), path_lower: path.toLowerCase(), path_display: path });
+const file = (path: string, overrides: Record<string, any> = {}) => ({
+  '.tag': 'file',
+  name: path.split('/').pop(),
+  path_lower: path.toLowerCase(),
+  path_display: path,
+  size: 2048,
+  client_modified: '2026-01-01T09:00:00Z',
+  server_modified: '2026-01-02T09:00:00Z',
+  ...overrides
+});
+
+describe('DropboxStorageProvider', () => {
+  it('maps entries to items addressed by lowercase path, following the list cursor', async () => {
+    const client = {
+      // The SDK wraps bodies in `result`; older versions return them bare
+      filesListFolder: vi.fn().mockResolvedValue({
+        result: { entries: [folder('/Dailies/Day 1'), { '.tag': 'deleted', name: 'old.mov', path_lower: '/dailies/old.mov' }], has_more: true, cursor: 'c1' }
+      }),
+      filesListFolderContinue: vi.fn().mockResolvedValue({ entries: [file('/Dailies/Day 1/A001.mov')], has_more: false })
+    };
+
+    const items = await withClient(client).list(context, { folderId: '/dailies' });
+
+    expect(client.filesListFolder).toHaveBeenCalledWith({ path: '/dailies', recursive: false });
+    expect(client.filesListFolderContinue).toHaveBeenCalledWith({ cursor: 'c1' });
+    expect(items).toEqual([
+      {
+        id: '/dailies/day 1',
+        name: 'Day 1',
+        type: 'folder',
+        provider: 'dropbox',
+        parentId: '/dailies',
+        path: '/Dailies/Day 1',
+        size: 0,
+        createdTime: null,
+        modifiedTime: null
+      },
+      {
+        id: '/dailies/day 1/a001.mov',
+        name: 'A001.mov',
+        type: 'file',
+        provider: 'dropbox',
+        parentId: '/dailies/day 1',
+        path: '/Dailies/Day 1/A001.mov',
+        size: 2048,
+        createdTime: '2026-01-01T09:00:00Z',
+        modifiedTime: '2026-01-02T09:00:00Z'
+      }
+    ]);
+  });
+
+  it('drops the listed folder from recursive listings and filters by type', async () => {
+    const client = {
+      filesListFolder: vi.fn().mockResolvedValue({
+        result: { entries: [folder('/Dailies'), folder('/Dailies/Day 1'), file('/Dailies/Day 1/A001.mov')], has_more: false }
+      })
+    };
+
+    const items = await withClient(client).list(context, { folderId: '/Dailies', recursive: true, type: 'file' });
+
+    expect(items.map(item => item.id)).toEqual(['/dailies/day 1/a001.mov']);
+  });
+
+  it('lists the root as the empty path', async () => {
+    const client = { filesListFolder: vi.fn().mockResolvedValue({ result: { entries: [file('/notes.txt')], has_more: false } }) };
+
+    const [item] = await withClient(client).list(context, { folderId: 'root' });
+
+    expect(client.filesListFolder).toHaveBeenCalledWith({ path: '', recursive: false });
+    expect(item.parentId).toBe('');
+  });
+
+  it('turns SDK errors into readable messages', async () => {
+    const failWith = (error: any) => withClient({ filesListFolder: vi.fn().mockRejectedValue(error) }).list(context, {});
+
+    await expect(failWith({ status: 401 })).rejects.toThrow('Dropbox authentication failed');
+    await expect(failWith({ status: 409, error: { error_summary: 'path/not_found/..' } })).rejects.toThrow('Dropbox item not found');
+    await expect(failWith({ status: 409, error: { error_summary: 'path/conflict/folder/' } })).rejects.toThrow('An item with this name already exists');
+    await expect(failWith(new Error('socket hang up'))).rejects.toThrow('Dropbox API error: socket hang up');
+  });
+
+  it('reuses an existing shared link and derives its direct download URL', async () => {
+    const client = {
+      sharingCreateSharedLinkWithSettings: vi.fn().mockRejectedValue({ status: 409, error: { error_summary: 'shared_link_already_exists/..' } }),
+      sharingListSharedLinks: vi.fn().mockResolvedValue({ result: { links: [{ url: 'https://www.dropbox.com/s/abc/cut.mov?dl=0' }] } })
+    };
+
+    const link = await withClient(client).createShareLink(context, '/cuts/cut.mov');
+
+    expect(link).toEqual({
+      url: 'https://www.dropbox.com/s/abc/cut.mov?dl=0',
+      downloadUrl: 'https://www.dropbox.com/s/abc/cut.mov?dl=1'
+    });
+  });
+
+  it('treats an incorrect_offset reply for the next offset as a received chunk', async () => {
+    const client = {
+      filesUploadSessionAppendV2: vi.fn().mockRejectedValue({
+        status: 409,
+        error: { error_summary: 'incorrect_offset/..', error: { '.tag': 'incorrect_offset', correct_offset: 8 } }
+      })
+    };
+    const session = { sessionId: 's1', fileName: 'cut.mov', folderId: '/cuts', totalSize: 16 };
+
+    await expect(withClient(client).uploadSessionChunk(context, session, Buffer.alloc(8), 0)).resolves.toBeNull();
+  });
+});
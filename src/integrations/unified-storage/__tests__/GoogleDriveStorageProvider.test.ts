@@ -0,0 +1,139 @@
+/**
+ * Google Drive Storage Provider Tests
+ *
+ * Tests for normalizing Drive v3 responses into storage items and upload offsets
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const drive = vi.hoisted(() => ({
+  files: { list: vi.fn(), create: vi.fn(), update: vi.fn(), get: vi.fn() },
+  permissions: { create: vi.fn() }
+}));
+const auth = vi.hoisted(() => ({ setCredentials: vi.fn(), request: vi.fn() }));
+
+vi.mock('googleapis', () => ({ google: { drive: vi.fn(() => drive) } }));
+vi.mock('../../googleDrive', () => ({
+  getOAuth2ClientForCredentials: vi.fn(() => auth),
+  refreshGoogleAccessToken: vi.fn(async () => ({ access_token: 'token' }))
+}));
+
+import { GoogleDriveStorageProvider } from '../providers/GoogleDriveStorageProvider';
+
+const context = { organizationId: 'org-1', userId: 'user-1' };
+const FOLDER = 'application/vnd.google-apps.folder';
+
+describe('GoogleDriveStorageProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('maps Drive files to items, parsing string sizes and the first parent', async () => {
+    drive.files.list.mockResolvedValueOnce({
+      data: {
+        files: [
+          { id: 'f1', name: 'Cuts', mimeType: FOLDER, parents: ['root'] },
+          {
+            id: 'f2',
+            name: 'A001.mov',
+            mimeType: 'video/quicktime',
+            size: '1048576',
+            parents: ['root'],
+            createdTime: '2026-01-01T09:00:00Z',
+            modifiedTime: '2026-01-02T09:00:00Z',
+            webViewLink: 'https://drive.google.com/file/d/f2/view',
+            webContentLink: 'https://drive.google.com/uc?id=f2'
+          }
+        ]
+      }
+    });
+
+    const items = await new GoogleDriveStorageProvider().list(context, {});
+
+    expect(drive.files.list).toHaveBeenCalledWith(expect.objectContaining({ q: "'root' in parents and trashed=false" }));
+    expect(items).toEqual([
+      {
+        id: 'f1',
+        name: 'Cuts',
+        type: 'folder',
+        provider: 'google',
+        parentId: 'root',
+        size: 0,
+        mimeType: FOLDER,
+        createdTime: null,
+        modifiedTime: null,
+        webViewLink: null,
+        downloadUrl: null
+      },
+      {
+        id: 'f2',
+        name: 'A001.mov',
+        type: 'file',
+        provider: 'google',
+        parentId: 'root',
+        size: 1048576,
+        mimeType: 'video/quicktime',
+        createdTime: '2026-01-01T09:00:00Z',
+        modifiedTime: '2026-01-02T09:00:00Z',
+        webViewLink: 'https://drive.google.com/file/d/f2/view',
+        downloadUrl: 'https://drive.google.com/uc?id=f2'
+      }
+    ]);
+  });
+
+  it('walks subfolders and pages for recursive listings', async () => {
+    drive.files.list
+      .mockResolvedValueOnce({ data: { files: [{ id: 'day1', name: 'Day 1', mimeType: FOLDER, parents: ['top'] }], nextPageToken: 'p2' } })
+      .mockResolvedValueOnce({ data: { files: [{ id: 'a', name: 'a.mov', mimeType: 'video/quicktime', parents: ['top'] }] } })
+      .mockResolvedValueOnce({ data: { files: [{ id: 'b', name: 'b.mov', mimeType: 'video/quicktime', parents: ['day1'] }] } });
+
+    const items = await new GoogleDriveStorageProvider().list(context, { folderId: 'top', recursive: true, type: 'file' });
+
+    expect(drive.files.list.mock.calls.map(([params]) => [params.q, params.pageToken])).toEqual([
+      ["'top' in parents and trashed=false", undefined],
+      ["'top' in parents and trashed=false", 'p2'],
+      ["'day1' in parents and trashed=false", undefined]
+    ]);
+    expect(items.map(item => [item.id, item.parentId])).toEqual([['a', 'top'], ['b', 'day1']]);
+  });
+
+  it('uploads a replacement as a new version of the existing file', async () => {
+    drive.files.update.mockResolvedValueOnce({ data: { id: 'f2', name: 'A001.mov', mimeType: 'video/quicktime', size: '4' } });
+
+    const item = await new GoogleDriveStorageProvider().upload(context, {
+      fileName: 'A001.mov',
+      content: Buffer.from('data'),
+      replaceFileId: 'f2'
+    });
+
+    expect(drive.files.create).not.toHaveBeenCalled();
+    expect(drive.files.update).toHaveBeenCalledWith(expect.objectContaining({ fileId: 'f2' }));
+    expect(item).toMatchObject({ id: 'f2', type: 'file', size: 4 });
+  });
+
+  it('reads the resumable upload offset from the Range header', async () => {
+    const session = { sessionId: 'https://upload.example/session', fileName: 'a.mov', folderId: null, totalSize: 100 };
+    const provider = new GoogleDriveStorageProvider();
+
+    auth.request.mockResolvedValueOnce({ status: 308, headers: { range: 'bytes=0-49' } });
+    await expect(provider.getUploadSessionOffset(context, session)).resolves.toBe(50);
+
+    auth.request.mockResolvedValueOnce({ status: 308, headers: {} });
+    await expect(provider.getUploadSessionOffset(context, session)).resolves.toBe(0);
+
+    auth.request.mockResolvedValueOnce({ status: 200, headers: {}, data: { id: 'a' } });
+    await expect(provider.getUploadSessionOffset(context, session)).resolves.toBe(100);
+  });
+
+  it('returns null for intermediate chunks and the item for the last one', async () => {
+    const session = { sessionId: 'https://upload.example/session', fileName: 'a.mov', folderId: null, totalSize: 8 };
+    const provider = new GoogleDriveStorageProvider();
+
+    auth.request.mockResolvedValueOnce({ status: 308, headers: {} });
+    await expect(provider.uploadSessionChunk(context, session, Buffer.alloc(4), 0)).resolves.toBeNull();
+    expect(auth.request).toHaveBeenLastCalledWith(expect.objectContaining({ headers: { 'Content-Range': 'bytes 0-3/8' } }));
+
+    auth.request.mockResolvedValueOnce({ status: 200, headers: {}, data: { id: 'a', name: 'a.mov', mimeType: 'video/quicktime', size: '8' } });
+    await expect(provider.uploadSessionChunk(context, session, Buffer.alloc(4), 4)).resolves.toMatchObject({ id: 'a', size: 8 });
+  });
+});
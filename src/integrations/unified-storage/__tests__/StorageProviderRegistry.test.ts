@@ -0,0 +1,62 @@
+/**
+ * Storage Provider Registry Tests
+ *
+ * Tests for provider registration, lookup and capability checks
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../dropbox/files', () => ({ refreshDropboxAccessToken: vi.fn() }));
+vi.mock('../../../box/files', () => ({ refreshBoxAccessToken: vi.fn() }));
+vi.mock('../../../box/config', () => ({ getBoxConfig: vi.fn() }));
+vi.mock('../../../apple/FileStorageService', () => ({ getFiles: vi.fn() }));
+vi.mock('../../googleDrive', () => ({ getOAuth2ClientForCredentials: vi.fn(), refreshGoogleAccessToken: vi.fn() }));
+
+import { StorageProviderRegistry } from '../StorageProviderRegistry';
+import { StorageProvider } from '../types';
+
+const stubProvider = (name: string, capabilities: StorageProvider['capabilities']): StorageProvider => ({
+  name,
+  displayName: `${name} storage`,
+  rootFolderId: 'root',
+  capabilities,
+  list: vi.fn(),
+  createFolder: vi.fn(),
+  upload: vi.fn(),
+  download: vi.fn(),
+  move: vi.fn(),
+  createShareLink: vi.fn()
+});
+
+describe('StorageProviderRegistry', () => {
+  it('registers the built-in providers under their OAuth provider names', () => {
+    const registry = new StorageProviderRegistry();
+
+    expect(registry.getAllProviders().map(provider => provider.name).sort())
+      .toEqual(['apple_connect', 'box', 'dropbox', 'google']);
+    expect(registry.getProvider('google')?.rootFolderId).toBe('root');
+    expect(registry.getProvider('dropbox')?.rootFolderId).toBe('');
+    expect(registry.getProvider('onedrive')).toBeUndefined();
+    expect(registry.hasProvider('box')).toBe(true);
+    expect(registry.hasProvider('onedrive')).toBe(false);
+  });
+
+  it('replaces a provider registered under the same name', () => {
+    const registry = new StorageProviderRegistry();
+    const replacement = stubProvider('box', ['list']);
+
+    registry.register(replacement);
+
+    expect(registry.getProvider('box')).toBe(replacement);
+    expect(registry.getAllProviders()).toHaveLength(4);
+  });
+
+  it('requires a registered provider that supports the capability', () => {
+    const registry = new StorageProviderRegistry();
+
+    expect(registry.requireCapability('dropbox', 'resumableUpload').name).toBe('dropbox');
+    expect(() => registry.requireCapability('onedrive', 'list')).toThrow('Unknown storage provider: onedrive');
+    expect(() => registry.requireCapability('apple_connect', 'upload')).toThrow('iCloud Drive does not support upload');
+    expect(() => registry.requireCapability('box', 'resumableUpload')).toThrow('Box does not support resumableUpload');
+  });
+});
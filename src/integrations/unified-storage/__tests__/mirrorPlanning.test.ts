@@ -0,0 +1,103 @@
+/**
+ * Mirror Planning Tests
+ *
+ * Tests for relative paths, incremental change detection and chunk ranges
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MIRROR_CHUNK_SIZE,
+  buildRelativePaths,
+  computeNextRunAt,
+  MirrorFileState,
+  MirrorSourceFile,
+  mirrorPathKey,
+  nextChunkRange,
+  planMirror,
+  shouldTransferInChunks
+} from '../mirrorPlanning';
+import { StorageItem } from '../types';
+
+const item = (id: string, name: string, type: 'file' | 'folder', parentId: string | null): StorageItem => ({
+  id, name, type, parentId, provider: 'dropbox', size: 10, modifiedTime: '2026-01-01T00:00:00Z'
+} as StorageItem);
+
+const file = (id: string, overrides: Partial<MirrorSourceFile> = {}): MirrorSourceFile => ({
+  id, name: `${id}.mov`, relativePath: 'Cuts', size: 100, modifiedTime: '2026-01-01T00:00:00Z', ...overrides
+});
+
+const state = (f: MirrorSourceFile, overrides: Partial<MirrorFileState> = {}): MirrorFileState => ({
+  sourceFileId: f.id,
+  relativePath: f.relativePath,
+  name: f.name,
+  sourceSize: f.size,
+  sourceModifiedTime: f.modifiedTime,
+  status: 'copied',
+  destinationFileId: `dest-${f.id}`,
+  ...overrides
+});
+
+describe('mirrorPlanning', () => {
+  it('builds folder paths relative to the mirrored folder', () => {
+    const paths = buildRelativePaths([
+      item('a', 'Cuts', 'folder', 'root'),
+      item('b', 'v2', 'folder', 'a'),
+      item('c', 'final.mov', 'file', 'b'),
+      item('d', 'notes.txt', 'file', 'root')
+    ]);
+
+    expect(paths.get('c')).toBe('Cuts/v2');
+    expect(paths.get('b')).toBe('Cuts');
+    expect(paths.get('d')).toBe('');
+    expect(mirrorPathKey('Cuts/V2', 'Final.MOV')).toBe('cuts/v2/final.mov');
+  });
+
+  it('plans skip, copy, replace and adopt from state and destination', () => {
+    const unchanged = file('unchanged');
+    const changed = file('changed');
+    const fresh = file('fresh');
+    const existing = file('existing');
+    const states = new Map([
+      [unchanged.id, state(unchanged)],
+      [changed.id, state(changed, { sourceSize: 50 })]
+    ]);
+    const destination = new Map([
+      [mirrorPathKey(existing.relativePath, existing.name), { id: 'dest-existing', size: 100 }]
+    ]);
+
+    const plan = planMirror([unchanged, changed, fresh, existing], states, destination);
+    const actions = Object.fromEntries(plan.entries.map(entry => [entry.file.id, entry.action]));
+
+    expect(actions).toEqual({ unchanged: 'skip', changed: 'replace', fresh: 'copy', existing: 'adopt' });
+    expect(plan.entries[1].destinationFileId).toBe('dest-changed');
+    expect(plan.counts).toMatchObject({ skip: 1, replace: 1, copy: 1, adopt: 1 });
+  });
+
+  it('resumes interrupted transfers and stops retrying failed files', () => {
+    const interrupted = file('interrupted');
+    const failing = file('failing');
+    const session = { sessionId: 's1', fileName: interrupted.name, folderId: 'f', totalSize: 100, mimeType: null, replaceFileId: null };
+    const states = new Map([
+      [interrupted.id, state(interrupted, { status: 'in_progress', uploadSession: session })],
+      [failing.id, state(failing, { status: 'failed', attempts: 3, destinationFileId: null })]
+    ]);
+
+    const plan = planMirror([interrupted, failing], states, new Map());
+    expect(plan.entries.map(entry => entry.action)).toEqual(['resume', 'skip']);
+
+    const retried = planMirror([interrupted, failing], states, new Map(), { retryFailed: true });
+    expect(retried.entries[1].action).toBe('copy');
+  });
+
+  it('computes chunk ranges and schedules', () => {
+    expect(nextChunkRange(0, 100, 40)).toEqual({ start: 0, end: 39 });
+    expect(nextChunkRange(80, 100, 40)).toEqual({ start: 80, end: 99 });
+    expect(shouldTransferInChunks(MIRROR_CHUNK_SIZE * 10, { rangeDownload: true, resumableUpload: true })).toBe(true);
+    expect(shouldTransferInChunks(MIRROR_CHUNK_SIZE * 10, { rangeDownload: true, resumableUpload: false })).toBe(false);
+
+    const from = new Date('2026-01-01T00:00:00Z');
+    expect(computeNextRunAt(from, 60, false).toISOString()).toBe('2026-01-01T01:00:00.000Z');
+    expect(computeNextRunAt(from, 5, false).toISOString()).toBe('2026-01-01T00:15:00.000Z');
+    expect(computeNextRunAt(from, 60, true)).toEqual(from);
+  });
+});
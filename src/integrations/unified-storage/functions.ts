@@ -0,0 +1,323 @@
+/**
+ * Unified Storage Cloud Functions
+ *
+ * Single set of file functions that work with ANY registered storage provider.
+ * Every callable takes `{ organizationId, provider, ... }` and returns StorageItem shapes,
+ * so callers treat Box, Dropbox, Google Drive and iCloud Drive folders the same way.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { createHash } from 'crypto';
+import * as admin from 'firebase-admin';
+import { storageProviderRegistry } from './StorageProviderRegistry';
+import { StorageCapability, StorageContext, StorageProvider } from './types';
+import { encryptionKey, encryptionKeyPrevious } from '../unified-oauth/encryption';
+import { recordConnectionHealthEvent } from '../unified-oauth/connectionHealthService';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../../shared/utils';
+
+const storageCallableOptions = {
+  region: 'us-central1',
+  cors: true,
+  memory: '512MiB' as const,
+  timeoutSeconds: 120,
+  secrets: [encryptionKey, encryptionKeyPrevious],
+};
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.m4v', '.wmv', '.flv', '.mpg', '.mpeg'];
+
+/**
+ * Resolve the provider and caller context for a storage request
+ */
+async function resolveStorageRequest(
+  auth: { uid: string; token: any } | undefined,
+  data: any,
+  capability: StorageCapability
+): Promise<{ provider: StorageProvider; context: StorageContext }> {
+  if (!auth) {
+    throw new Error('User must be authenticated');
+  }
+
+  const organizationId = data?.organizationId || auth.token.organizationId;
+  if (!organizationId) {
+    throw new Error('Organization ID is required');
+  }
+  if (!data?.provider) {
+    throw new Error('Storage provider is required');
+  }
+
+  const hasAccess = await validateOrganizationAccess(auth.uid, organizationId);
+  if (!hasAccess) {
+    throw new Error('Access denied to organization');
+  }
+
+  const provider = storageProviderRegistry.requireCapability(data.provider, capability);
+  return { provider, context: { organizationId, userId: auth.uid } };
+}
+
+/**
+ * Run a provider API call and record its outcome in the connection's health record
+ */
+async function trackApiCall<T>(provider: StorageProvider, context: StorageContext, call: () => Promise<T>): Promise<T> {
+  try {
+    const result = await call();
+    await recordConnectionHealthEvent(context.organizationId, provider.name, { type: 'api_call', ok: true });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordConnectionHealthEvent(context.organizationId, provider.name, { type: 'api_call', ok: false, error: message });
+    throw error;
+  }
+}
+
+/**
+ * Index document id - Dropbox ids are paths, which Firestore ids can't contain
+ */
+function indexDocId(provider: string, itemId: string): string {
+  return `${provider}_${createHash('sha1').update(itemId).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * Callable function - list files and/or folders in a provider folder
+ */
+export const storageList = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'list');
+    const { folderId, recursive = false, type = 'all' } = request.data;
+
+    const items = await trackApiCall(provider, context, () => provider.list(context, { folderId, recursive, type }));
+
+    return createSuccessResponse({
+      provider: provider.name,
+      folderId: folderId || provider.rootFolderId,
+      items,
+      count: items.length
+    });
+  } catch (error: any) {
+    return handleError(error, 'storageList');
+  }
+});
+
+/**
+ * Callable function - create a folder
+ */
+export const storageCreateFolder = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'createFolder');
+    const { name, parentId } = request.data;
+
+    if (!name) {
+      throw new Error('Folder name is required');
+    }
+
+    const folder = await trackApiCall(provider, context, () => provider.createFolder(context, name, parentId));
+    return createSuccessResponse({ folder }, 'Folder created successfully');
+  } catch (error: any) {
+    return handleError(error, 'storageCreateFolder');
+  }
+});
+
+/**
+ * Callable function - upload a base64-encoded file
+ */
+export const storageUpload = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'upload');
+    const { fileName, fileContent, mimeType, folderId, shareLink = false } = request.data;
+
+    if (!fileName || !fileContent) {
+      throw new Error('File name and content are required');
+    }
+
+    const file = await trackApiCall(provider, context, () => provider.upload(context, {
+      fileName,
+      content: Buffer.from(fileContent, 'base64'),
+      mimeType,
+      folderId
+    }));
+
+    // Optional public link so the upload can be opened right away
+    let link = null;
+    if (shareLink && provider.capabilities.includes('shareLink')) {
+      try {
+        link = await provider.createShareLink(context, file.id, 'file');
+      } catch (linkError) {
+        console.warn(`⚠️ [storageUpload] Failed to create share link (file still uploaded):`, linkError);
+      }
+    }
+
+    return createSuccessResponse({
+      file: link ? { ...file, webViewLink: link.url, downloadUrl: link.downloadUrl || file.downloadUrl } : file
+    }, 'File uploaded successfully');
+  } catch (error: any) {
+    return handleError(error, 'storageUpload');
+  }
+});
+
+/**
+ * Callable function - download a file as base64
+ */
+export const storageDownload = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'download');
+    const { fileId } = request.data;
+
+    if (!fileId) {
+      throw new Error('File ID is required');
+    }
+
+    const file = await trackApiCall(provider, context, () => provider.download(context, fileId));
+    return createSuccessResponse({
+      fileId,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      content: file.content.toString('base64')
+    });
+  } catch (error: any) {
+    return handleError(error, 'storageDownload');
+  }
+});
+
+/**
+ * Callable function - move (and optionally rename) a file or folder
+ */
+export const storageMove = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'move');
+    const { itemId, targetFolderId, newName, itemType } = request.data;
+
+    if (!itemId || targetFolderId === undefined || targetFolderId === null) {
+      throw new Error('Item ID and target folder ID are required');
+    }
+
+    const item = await trackApiCall(provider, context, () => provider.move(context, itemId, targetFolderId, { newName, itemType }));
+    return createSuccessResponse({ item }, 'Item moved successfully');
+  } catch (error: any) {
+    return handleError(error, 'storageMove');
+  }
+});
+
+/**
+ * Callable function - create (or reuse) a public share link
+ */
+export const storageShareLink = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'shareLink');
+    const { itemId, itemType } = request.data;
+
+    if (!itemId) {
+      throw new Error('Item ID is required');
+    }
+
+    const link = await trackApiCall(provider, context, () => provider.createShareLink(context, itemId, itemType));
+    return createSuccessResponse({ itemId, provider: provider.name, ...link });
+  } catch (error: any) {
+    return handleError(error, 'storageShareLink');
+  }
+});
+
+/**
+ * Callable function - index a folder's files into organizations/{orgId}/storageIndexedFiles
+ * for organization-wide search, creating share links for videos
+ */
+export const storageIndexFolder = onCall(storageCallableOptions, async (request) => {
+  try {
+    const { provider, context } = await resolveStorageRequest(request.auth, request.data, 'list');
+    const { folderId, recursive = true } = request.data;
+    const canShare = provider.capabilities.includes('shareLink');
+
+    const files = await trackApiCall(provider, context, () => provider.list(context, { folderId, recursive, type: 'file' }));
+
+    const indexedFilesRef = admin.firestore()
+      .collection('organizations')
+      .doc(context.organizationId)
+      .collection('storageIndexedFiles');
+
+    let filesIndexed = 0;
+    let sharedLinksCreated = 0;
+    let batch = admin.firestore().batch();
+    let batchSize = 0;
+
+    for (const file of files) {
+      const isVideo = VIDEO_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+      let webViewLink = file.webViewLink || null;
+      let downloadUrl = file.downloadUrl || null;
+      if (isVideo && canShare && !downloadUrl) {
+        try {
+          const link = await provider.createShareLink(context, file.id, 'file');
+          webViewLink = link.url;
+          downloadUrl = link.downloadUrl || link.url;
+          sharedLinksCreated++;
+        } catch (linkError) {
+          console.warn(`⚠️ [storageIndexFolder] Failed to create share link for ${file.name}:`, linkError);
+        }
+      }
+
+      batch.set(indexedFilesRef.doc(indexDocId(provider.name, file.id)), {
+        provider: provider.name,
+        fileId: file.id,
+        name: file.name,
+        path: file.path || null,
+        mimeType: file.mimeType || '',
+        size: file.size || 0,
+        webViewLink,
+        downloadUrl,
+        parentFolderId: file.parentId || null,
+        indexedFolderId: folderId || provider.rootFolderId,
+        indexedBy: context.userId,
+        indexedAt: admin.firestore.FieldValue.serverTimestamp(),
+        organizationId: context.organizationId,
+        createdAt: file.createdTime || null,
+        modifiedAt: file.modifiedTime || null,
+        hasSharedLink: !!downloadUrl,
+        isVideo
+      });
+      filesIndexed++;
+
+      // Firestore batches hold at most 500 writes
+      if (++batchSize === 400) {
+        await batch.commit();
+        batch = admin.firestore().batch();
+        batchSize = 0;
+      }
+    }
+
+    if (batchSize > 0) {
+      await batch.commit();
+    }
+
+    console.log(`✅ [storageIndexFolder] Indexed ${filesIndexed} ${provider.displayName} files for org ${context.organizationId}`);
+
+    return createSuccessResponse({
+      provider: provider.name,
+      folderId: folderId || provider.rootFolderId,
+      filesIndexed,
+      sharedLinksCreated
+    });
+  } catch (error: any) {
+    return handleError(error, 'storageIndexFolder');
+  }
+});
+
+/**
+ * Callable function - list registered storage providers and what they support
+ */
+export const listStorageProviders = onCall(storageCallableOptions, async (request) => {
+  try {
+    if (!request.auth) {
+      throw new Error('User must be authenticated');
+    }
+
+    const providers = storageProviderRegistry.getAllProviders().map(provider => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      rootFolderId: provider.rootFolderId,
+      capabilities: provider.capabilities
+    }));
+
+    return createSuccessResponse({ providers });
+  } catch (error: any) {
+    return handleError(error, 'listStorageProviders');
+  }
+});
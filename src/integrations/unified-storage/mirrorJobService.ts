@@ -0,0 +1,426 @@
+/**
+ * Storage Mirror Job Service
+ *
+ * Copies a source provider folder into a destination provider folder.
+ *
+ * - `organizations/{orgId}/storageMirrorJobs/{jobId}`: job configuration, schedule and run lock
+ * - `.../storageMirrorJobs/{jobId}/files/{id}`: copy state per source file (incremental runs,
+ *   resumable upload sessions, attempts and last error)
+ * - `.../storageMirrorJobs/{jobId}/runs/{runId}`: run history with per-file errors
+ *
+ * Runs stop before the function deadline and save their progress; the next run picks up
+ * interrupted chunked transfers where they stopped.
+ */
+
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { db } from '../../shared/utils';
+import { storageProviderRegistry } from './StorageProviderRegistry';
+import { StorageContext, StorageItem, StorageProvider } from './types';
+import {
+  buildRelativePaths,
+  computeNextRunAt,
+  joinRelativePath,
+  MirrorFileState,
+  MirrorPlanEntry,
+  MirrorSourceFile,
+  mirrorPathKey,
+  MIRROR_MAX_SINGLE_TRANSFER,
+  nextChunkRange,
+  planMirror,
+  shouldTransferInChunks
+} from './mirrorPlanning';
+
+const LOCK_MINUTES = 15;
+const MAX_RUN_ERRORS = 100;
+
+export interface MirrorEndpoint {
+  provider: string;
+  folderId: string | null;
+  folderName?: string | null;
+}
+
+export interface StorageMirrorJob {
+  id: string;
+  organizationId: string;
+  name: string;
+  source: MirrorEndpoint;
+  destination: MirrorEndpoint;
+  recursive: boolean;
+  enabled: boolean;
+  intervalMinutes: number;
+  createdBy: string;
+  activeRunId?: string | null;
+  lockExpiresAt?: admin.firestore.Timestamp | null;
+  nextRunAt?: admin.firestore.Timestamp | null;
+}
+
+export interface MirrorRunOptions {
+  trigger: 'manual' | 'schedule';
+  triggeredBy: string;
+  deadline: number; // Epoch ms by which the run must stop and save progress
+  retryFailed?: boolean;
+}
+
+export interface MirrorRunSummary {
+  runId: string;
+  status: 'completed' | 'partial' | 'failed';
+  counts: Record<string, number>;
+  bytesCopied: number;
+  errorCount: number;
+}
+
+export function getMirrorJobRef(organizationId: string, jobId: string) {
+  return db.collection('organizations').doc(organizationId).collection('storageMirrorJobs').doc(jobId);
+}
+
+function stateDocId(sourceFileId: string): string {
+  return createHash('sha1').update(sourceFileId).digest('hex');
+}
+
+/**
+ * Provider for one side of a job; the job is rejected if the provider can't play that side
+ */
+export function resolveMirrorProvider(endpoint: MirrorEndpoint, side: 'source' | 'destination'): StorageProvider {
+  const provider = storageProviderRegistry.requireCapability(endpoint.provider, side === 'source' ? 'download' : 'upload');
+  if (side === 'destination') {
+    storageProviderRegistry.requireCapability(endpoint.provider, 'createFolder');
+  }
+  return provider;
+}
+
+/**
+ * Acquire the job's run lock, or return null when another run holds it
+ */
+async function acquireRunLock(organizationId: string, jobId: string, runId: string): Promise<StorageMirrorJob | null> {
+  const jobRef = getMirrorJobRef(organizationId, jobId);
+  return db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) {
+      throw new Error('Mirror job not found');
+    }
+    const job = { id: jobDoc.id, ...jobDoc.data() } as StorageMirrorJob;
+    if (job.activeRunId && job.lockExpiresAt && job.lockExpiresAt.toMillis() > Date.now()) {
+      return null;
+    }
+
+    transaction.update(jobRef, {
+      activeRunId: runId,
+      lockExpiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + LOCK_MINUTES * 60 * 1000)
+    });
+    return job;
+  });
+}
+
+/**
+ * Destination folders and files keyed by lowercase relative path
+ */
+async function indexDestination(provider: StorageProvider, context: StorageContext, folderId: string | null, recursive: boolean) {
+  const items = await provider.list(context, { folderId, recursive, type: 'all' });
+  const paths = buildRelativePaths(items);
+  const folders = new Map<string, string>();
+  const files = new Map<string, { id: string; size?: number }>();
+
+  items.forEach(item => {
+    const key = mirrorPathKey(paths.get(item.id) || '', item.name);
+    if (item.type === 'folder') {
+      folders.set(key, item.id);
+    } else {
+      files.set(key, { id: item.id, size: item.size });
+    }
+  });
+  return { folders, files };
+}
+
+/**
+ * Copy one file, in chunks through a resumable session when it's large.
+ * Returns null when the deadline stopped a chunked transfer (progress is saved).
+ */
+async function transferFile(
+  source: StorageProvider,
+  destination: StorageProvider,
+  context: StorageContext,
+  entry: MirrorPlanEntry,
+  destinationFolderId: string,
+  stateRef: admin.firestore.DocumentReference,
+  deadline: number
+): Promise<{ item: StorageItem; bytes: number } | null> {
+  const { file } = entry;
+  const replaceFileId = entry.action === 'replace' ? entry.destinationFileId || null : null;
+
+  const chunked = shouldTransferInChunks(file.size, {
+    rangeDownload: source.capabilities.includes('rangeDownload'),
+    resumableUpload: destination.capabilities.includes('resumableUpload')
+  });
+
+  if (!chunked) {
+    if (file.size > MIRROR_MAX_SINGLE_TRANSFER) {
+      throw new Error(`File is too large to copy to ${destination.displayName} without resumable uploads`);
+    }
+    const downloaded = await source.download(context, file.id);
+    const item = await destination.upload(context, {
+      fileName: file.name,
+      content: downloaded.content,
+      mimeType: file.mimeType || downloaded.mimeType || undefined,
+      folderId: destinationFolderId,
+      replaceFileId
+    });
+    return { item, bytes: downloaded.content.length };
+  }
+
+  // Resume the saved session, asking the destination what it actually received
+  let session = entry.action === 'resume' ? entry.state?.uploadSession || null : null;
+  let offset = entry.action === 'resume' ? entry.state?.bytesTransferred || 0 : 0;
+  if (session && destination.getUploadSessionOffset) {
+    offset = await destination.getUploadSessionOffset(context, session);
+  }
+  if (!session) {
+    session = await destination.startUploadSession!(context, {
+      fileName: file.name,
+      folderId: destinationFolderId,
+      totalSize: file.size,
+      mimeType: file.mimeType || null,
+      replaceFileId
+    });
+    offset = 0;
+    await stateRef.set({ uploadSession: session, bytesTransferred: 0 }, { merge: true });
+  }
+
+  const startOffset = offset;
+  while (offset < file.size) {
+    if (Date.now() > deadline) {
+      return null;
+    }
+
+    const { start, end } = nextChunkRange(offset, file.size);
+    const chunk = await source.downloadRange!(context, file.id, start, end);
+    if (chunk.length === 0) {
+      throw new Error(`Source returned no data at offset ${offset}`);
+    }
+
+    const item = await destination.uploadSessionChunk!(context, session, chunk, offset);
+    offset += chunk.length;
+    await stateRef.set({ bytesTransferred: offset, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+
+    if (item) {
+      return { item, bytes: offset - startOffset };
+    }
+  }
+
+  throw new Error(`${destination.displayName} did not confirm the upload after ${file.size} bytes`);
+}
+
+/**
+ * Run a mirror job once
+ */
+export async function runMirrorJob(organizationId: string, jobId: string, options: MirrorRunOptions): Promise<MirrorRunSummary | null> {
+  const jobRef = getMirrorJobRef(organizationId, jobId);
+  const runRef = jobRef.collection('runs').doc();
+
+  const job = await acquireRunLock(organizationId, jobId, runRef.id);
+  if (!job) {
+    console.log(`⏭️ [MirrorJob] ${jobId} is already running, skipping`);
+    return null;
+  }
+
+  const counts: Record<string, number> = { planned: 0, copied: 0, replaced: 0, resumed: 0, adopted: 0, skipped: 0, failed: 0, remaining: 0 };
+  const errors: Array<{ sourceFileId: string; path: string; error: string }> = [];
+  let bytesCopied = 0;
+  let status: MirrorRunSummary['status'] = 'completed';
+  let fatalError: string | null = null;
+
+  await runRef.set({
+    jobId,
+    organizationId,
+    status: 'running',
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy,
+    source: job.source,
+    destination: job.destination,
+    startedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  try {
+    const source = resolveMirrorProvider(job.source, 'source');
+    const destination = resolveMirrorProvider(job.destination, 'destination');
+    const context: StorageContext = { organizationId, userId: job.createdBy };
+
+    // Source files with their paths below the mirrored folder
+    const sourceItems = await source.list(context, { folderId: job.source.folderId, recursive: job.recursive, type: 'all' });
+    const sourcePaths = buildRelativePaths(sourceItems);
+    const sourceFiles: MirrorSourceFile[] = sourceItems
+      .filter(item => item.type === 'file')
+      .map(item => ({
+        id: item.id,
+        name: item.name,
+        relativePath: sourcePaths.get(item.id) || '',
+        size: item.size || 0,
+        modifiedTime: item.modifiedTime || null,
+        mimeType: item.mimeType || null
+      }));
+
+    const statesSnapshot = await jobRef.collection('files').get();
+    const states = new Map<string, MirrorFileState>();
+    statesSnapshot.docs.forEach(doc => {
+      const state = doc.data() as MirrorFileState;
+      states.set(state.sourceFileId, state);
+    });
+
+    const destinationRoot = job.destination.folderId || destination.rootFolderId;
+    const destinationIndex = await indexDestination(destination, context, destinationRoot, job.recursive);
+
+    const plan = planMirror(sourceFiles, states, destinationIndex.files, { retryFailed: options.retryFailed });
+    counts.planned = plan.entries.filter(entry => entry.action !== 'skip').length;
+    counts.skipped = plan.counts.skip;
+
+    // Create destination folders on demand, parents first
+    const ensureFolder = async (relativePath: string): Promise<string> => {
+      if (!relativePath) return destinationRoot;
+      const key = relativePath.toLowerCase();
+      const existing = destinationIndex.folders.get(key);
+      if (existing) return existing;
+
+      const parts = relativePath.split('/');
+      const parentId = await ensureFolder(parts.slice(0, -1).join('/'));
+      const folder = await destination.createFolder(context, parts[parts.length - 1], parentId);
+      destinationIndex.folders.set(key, folder.id);
+      return folder.id;
+    };
+
+    for (const entry of plan.entries) {
+      if (entry.action === 'skip') continue;
+
+      const { file } = entry;
+      const stateRef = jobRef.collection('files').doc(stateDocId(file.id));
+      const baseState = {
+        sourceFileId: file.id,
+        relativePath: file.relativePath,
+        name: file.name,
+        sourceSize: file.size,
+        sourceModifiedTime: file.modifiedTime
+      };
+
+      if (Date.now() > options.deadline) {
+        counts.remaining++;
+        continue;
+      }
+
+      if (entry.action === 'adopt') {
+        await stateRef.set({
+          ...baseState,
+          status: 'copied',
+          destinationFileId: entry.destinationFileId || null,
+          uploadSession: null,
+          lastError: null,
+          copiedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        counts.adopted++;
+        continue;
+      }
+
+      try {
+        await stateRef.set({ ...baseState, status: 'in_progress', updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+
+        const folderId = await ensureFolder(file.relativePath);
+        const result = await transferFile(source, destination, context, entry, folderId, stateRef, options.deadline);
+        if (!result) {
+          counts.remaining++;
+          continue;
+        }
+
+        bytesCopied += result.bytes;
+        await stateRef.set({
+          ...baseState,
+          status: 'copied',
+          destinationFileId: result.item.id,
+          uploadSession: null,
+          bytesTransferred: file.size,
+          attempts: 0,
+          lastError: null,
+          copiedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+
+        if (entry.action === 'resume') counts.resumed++;
+        else if (entry.action === 'replace') counts.replaced++;
+        else counts.copied++;
+      } catch (error: any) {
+        const message = error?.message || 'Unknown error';
+        counts.failed++;
+        if (errors.length < MAX_RUN_ERRORS) {
+          errors.push({ sourceFileId: file.id, path: joinRelativePath(file.relativePath, file.name), error: message });
+        }
+        await stateRef.set({
+          ...baseState,
+          status: 'failed',
+          // A session that failed on resume may have expired; the retry starts a fresh one
+          ...(entry.action === 'resume' ? { uploadSession: null, bytesTransferred: 0 } : {}),
+          attempts: (entry.state?.attempts || 0) + 1,
+          lastError: message,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+      }
+    }
+
+    if (counts.remaining > 0) {
+      status = 'partial';
+    }
+  } catch (error: any) {
+    console.error(`❌ [MirrorJob] Run ${runRef.id} of job ${jobId} failed:`, error);
+    status = 'failed';
+    fatalError = error?.message || 'Unknown error';
+  }
+
+  const now = new Date();
+  await runRef.update({
+    status,
+    counts,
+    bytesCopied,
+    errors,
+    errorCount: counts.failed,
+    error: fatalError,
+    finishedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  await jobRef.update({
+    activeRunId: null,
+    lockExpiresAt: null,
+    lastRunId: runRef.id,
+    lastRunAt: admin.firestore.Timestamp.fromDate(now),
+    lastRunStatus: status,
+    nextRunAt: job.enabled
+      ? admin.firestore.Timestamp.fromDate(computeNextRunAt(now, job.intervalMinutes, status === 'partial'))
+      : null
+  });
+
+  console.log(`✅ [MirrorJob] Run ${runRef.id} of job ${jobId}: ${status}`, counts);
+
+  return { runId: runRef.id, status, counts, bytesCopied, errorCount: counts.failed };
+}
+
+/**
+ * Run enabled jobs whose next run is due, oldest first, until the deadline
+ */
+export async function runDueMirrorJobs(deadline: number, limit = 10): Promise<number> {
+  const dueSnapshot = await db.collectionGroup('storageMirrorJobs')
+    .where('enabled', '==', true)
+    .where('nextRunAt', '<=', admin.firestore.Timestamp.now())
+    .orderBy('nextRunAt', 'asc')
+    .limit(limit)
+    .get();
+
+  let ran = 0;
+  for (const jobDoc of dueSnapshot.docs) {
+    if (Date.now() > deadline) break;
+    const job = jobDoc.data() as StorageMirrorJob;
+    try {
+      const summary = await runMirrorJob(job.organizationId, jobDoc.id, {
+        trigger: 'schedule',
+        triggeredBy: 'system',
+        deadline
+      });
+      if (summary) ran++;
+    } catch (error) {
+      console.error(`❌ [MirrorJob] Scheduled run of ${jobDoc.id} failed:`, error);
+    }
+  }
+  return ran;
+}
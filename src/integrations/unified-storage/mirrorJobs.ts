@@ -0,0 +1,255 @@
+/**
+ * Storage Mirror Job Functions
+ *
+ * Configure, run and inspect jobs that mirror a folder from one storage provider into another
+ * (e.g. deliverables from Dropbox into the client's Box or Google Drive).
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { encryptionKey, encryptionKeyPrevious } from '../unified-oauth/encryption';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../../shared/utils';
+import { getMirrorJobRef, MirrorEndpoint, resolveMirrorProvider, runMirrorJob } from './mirrorJobService';
+
+const RUN_TIMEOUT_SECONDS = 540;
+// Leave time to record the run after the last transfer step
+const RUN_SAFETY_MARGIN_MS = 60 * 1000;
+
+async function assertMirrorAccess(auth: { uid: string; token: any } | undefined, organizationId: string, requireAdmin: boolean) {
+  if (!auth) {
+    throw new Error('User must be authenticated');
+  }
+  if (!organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  // Admin claims only count inside the caller's own organization
+  const hasAccess = await validateOrganizationAccess(auth.uid, organizationId);
+  if (!hasAccess) {
+    throw new Error('Access denied to organization');
+  }
+  const token = auth.token;
+  const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+  if (requireAdmin && !isAdmin) {
+    throw new Error('Only organization admins can manage mirror jobs');
+  }
+}
+
+function parseEndpoint(value: any, side: 'source' | 'destination'): MirrorEndpoint {
+  if (!value?.provider) {
+    throw new Error(`${side} provider is required`);
+  }
+  const endpoint: MirrorEndpoint = {
+    provider: value.provider,
+    folderId: value.folderId ?? null,
+    folderName: value.folderName || null
+  };
+  resolveMirrorProvider(endpoint, side);
+  return endpoint;
+}
+
+export const saveStorageMirrorJob = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, jobId, name, source, destination, recursive = true, enabled = true, intervalMinutes = 60 } = request.data;
+      await assertMirrorAccess(request.auth, organizationId, true);
+
+      if (!name) {
+        throw new Error('Job name is required');
+      }
+      const sourceEndpoint = parseEndpoint(source, 'source');
+      const destinationEndpoint = parseEndpoint(destination, 'destination');
+      if (sourceEndpoint.provider === destinationEndpoint.provider && sourceEndpoint.folderId === destinationEndpoint.folderId) {
+        throw new Error('Source and destination must be different folders');
+      }
+      if (typeof intervalMinutes !== 'number' || intervalMinutes < 15) {
+        throw new Error('intervalMinutes must be at least 15');
+      }
+
+      const jobsRef = admin.firestore().collection('organizations').doc(organizationId).collection('storageMirrorJobs');
+      const jobRef = jobId ? jobsRef.doc(jobId) : jobsRef.doc();
+      const existing = jobId ? await jobRef.get() : null;
+      if (jobId && !existing?.exists) {
+        throw new Error('Mirror job not found');
+      }
+
+      // Moving either end invalidates the per-file copy state
+      const previous = existing?.data();
+      const endpointsChanged = !!previous && (
+        JSON.stringify(previous.source) !== JSON.stringify(sourceEndpoint) ||
+        JSON.stringify(previous.destination) !== JSON.stringify(destinationEndpoint)
+      );
+      if (endpointsChanged) {
+        if (previous?.activeRunId) {
+          throw new Error('Cannot change source or destination while the job is running');
+        }
+        const states = await jobRef.collection('files').get();
+        const batch = admin.firestore().batch();
+        states.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      await jobRef.set({
+        organizationId,
+        name,
+        source: sourceEndpoint,
+        destination: destinationEndpoint,
+        recursive: !!recursive,
+        enabled: !!enabled,
+        intervalMinutes,
+        nextRunAt: enabled ? (previous?.nextRunAt && !endpointsChanged ? previous.nextRunAt : now) : null,
+        updatedBy: request.auth!.uid,
+        updatedAt: now,
+        ...(previous ? {} : { createdBy: request.auth!.uid, createdAt: now, activeRunId: null, lockExpiresAt: null })
+      }, { merge: true });
+
+      return createSuccessResponse({ jobId: jobRef.id, endpointsChanged }, jobId ? 'Mirror job updated successfully' : 'Mirror job created successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE MIRROR JOB] Error:', error);
+      return handleError(error, 'saveStorageMirrorJob');
+    }
+  }
+);
+
+export const deleteStorageMirrorJob = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, jobId } = request.data;
+      await assertMirrorAccess(request.auth, organizationId, true);
+
+      const jobRef = getMirrorJobRef(organizationId, jobId);
+      const jobDoc = await jobRef.get();
+      if (!jobDoc.exists) {
+        throw new Error('Mirror job not found');
+      }
+      if (jobDoc.data()?.activeRunId) {
+        throw new Error('Cannot delete a job while it is running');
+      }
+
+      await admin.firestore().recursiveDelete(jobRef);
+
+      return createSuccessResponse({ jobId }, 'Mirror job deleted successfully');
+
+    } catch (error: any) {
+      console.error('❌ [DELETE MIRROR JOB] Error:', error);
+      return handleError(error, 'deleteStorageMirrorJob');
+    }
+  }
+);
+
+export const runStorageMirrorJob = onCall(
+  {
+    memory: '1GiB',
+    timeoutSeconds: RUN_TIMEOUT_SECONDS,
+    cors: true,
+    secrets: [encryptionKey, encryptionKeyPrevious]
+  },
+  async (request) => {
+    try {
+      const { organizationId, jobId, retryFailed = false } = request.data;
+      await assertMirrorAccess(request.auth, organizationId, false);
+
+      if (!jobId) {
+        throw new Error('Job ID is required');
+      }
+
+      const summary = await runMirrorJob(organizationId, jobId, {
+        trigger: 'manual',
+        triggeredBy: request.auth!.uid,
+        deadline: Date.now() + RUN_TIMEOUT_SECONDS * 1000 - RUN_SAFETY_MARGIN_MS,
+        retryFailed: !!retryFailed
+      });
+      if (!summary) {
+        throw new Error('Mirror job is already running');
+      }
+
+      return createSuccessResponse(summary, `Mirror run ${summary.status}`);
+
+    } catch (error: any) {
+      console.error('❌ [RUN MIRROR JOB] Error:', error);
+      return handleError(error, 'runStorageMirrorJob');
+    }
+  }
+);
+
+export const getStorageMirrorJobs = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId } = request.data;
+      await assertMirrorAccess(request.auth, organizationId, false);
+
+      const snapshot = await admin.firestore()
+        .collection('organizations').doc(organizationId)
+        .collection('storageMirrorJobs')
+        .get();
+
+      const jobs = snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as any))
+        .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+      return createSuccessResponse({ jobs, count: jobs.length }, 'Mirror jobs retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET MIRROR JOBS] Error:', error);
+      return handleError(error, 'getStorageMirrorJobs');
+    }
+  }
+);
+
+export const getStorageMirrorJobRuns = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, jobId, limit = 20, includeFailedFiles = false } = request.data;
+      await assertMirrorAccess(request.auth, organizationId, false);
+
+      if (!jobId) {
+        throw new Error('Job ID is required');
+      }
+
+      const jobRef = getMirrorJobRef(organizationId, jobId);
+      const runsSnapshot = await jobRef.collection('runs')
+        .orderBy('startedAt', 'desc')
+        .limit(Math.min(limit, 100))
+        .get();
+      const runs = runsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      // Files currently failing, with their last error
+      let failedFiles: any[] = [];
+      if (includeFailedFiles) {
+        const failedSnapshot = await jobRef.collection('files').where('status', '==', 'failed').get();
+        failedFiles = failedSnapshot.docs.map(doc => {
+          const { uploadSession, ...state } = doc.data();
+          return { id: doc.id, ...state };
+        });
+      }
+
+      return createSuccessResponse({ jobId, runs, failedFiles }, 'Mirror job runs retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET MIRROR JOB RUNS] Error:', error);
+      return handleError(error, 'getStorageMirrorJobRuns');
+    }
+  }
+);
@@ -0,0 +1,177 @@
+/**
+ * Mirror Planning
+ *
+ * Pure helpers for storage mirror jobs: relative paths within a mirrored folder,
+ * incremental change detection against per-file copy state, and chunk ranges for
+ * resumable transfers.
+ */
+
+import { StorageItem, StorageUploadSession } from './types';
+
+export const MIRROR_CHUNK_SIZE = 8 * 1024 * 1024; // Multiple of 256 KiB as Drive requires
+export const MIRROR_RESUMABLE_THRESHOLD = 32 * 1024 * 1024;
+export const MIRROR_MAX_SINGLE_TRANSFER = 150 * 1024 * 1024;
+export const MIRROR_MAX_ATTEMPTS = 3;
+
+export type MirrorFileStatus = 'copied' | 'in_progress' | 'failed';
+
+/**
+ * Per source file copy state, stored under the job so runs are incremental
+ */
+export interface MirrorFileState {
+  sourceFileId: string;
+  relativePath: string;
+  name: string;
+  sourceSize: number;
+  sourceModifiedTime: string | null;
+  status: MirrorFileStatus;
+  destinationFileId?: string | null;
+  uploadSession?: StorageUploadSession | null;
+  bytesTransferred?: number;
+  attempts?: number;
+  lastError?: string | null;
+}
+
+export interface MirrorSourceFile {
+  id: string;
+  name: string;
+  relativePath: string; // Folder path below the mirrored folder, '' at its root
+  size: number;
+  modifiedTime: string | null;
+  mimeType?: string | null;
+}
+
+export type MirrorAction = 'copy' | 'replace' | 'resume' | 'adopt' | 'skip';
+
+export interface MirrorPlanEntry {
+  file: MirrorSourceFile;
+  action: MirrorAction;
+  reason: string;
+  state?: MirrorFileState;
+  destinationFileId?: string | null;
+}
+
+export interface MirrorPlan {
+  entries: MirrorPlanEntry[];
+  counts: Record<MirrorAction, number>;
+}
+
+/**
+ * Relative folder path of every item in a recursive listing. Parents outside the
+ * listing are the mirrored folder itself.
+ */
+export function buildRelativePaths(items: StorageItem[]): Map<string, string> {
+  const folders = new Map(items.filter(item => item.type === 'folder').map(item => [item.id, item]));
+  const folderPaths = new Map<string, string>();
+
+  const folderPath = (folderId: string, seen: Set<string>): string => {
+    if (folderPaths.has(folderId)) return folderPaths.get(folderId)!;
+    const folder = folders.get(folderId);
+    if (!folder || seen.has(folderId)) return '';
+    seen.add(folderId);
+
+    const parentPath = folder.parentId && folders.has(folder.parentId) ? folderPath(folder.parentId, seen) : '';
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name;
+    folderPaths.set(folderId, path);
+    return path;
+  };
+
+  const paths = new Map<string, string>();
+  items.forEach(item => {
+    const parentPath = item.parentId && folders.has(item.parentId) ? folderPath(item.parentId, new Set()) : '';
+    paths.set(item.id, parentPath);
+  });
+  return paths;
+}
+
+export function joinRelativePath(relativePath: string, name: string): string {
+  return relativePath ? `${relativePath}/${name}` : name;
+}
+
+/**
+ * Key for matching files across providers - case-insensitive because Dropbox and Box are
+ */
+export function mirrorPathKey(relativePath: string, name: string): string {
+  return joinRelativePath(relativePath, name).toLowerCase();
+}
+
+function sameVersion(file: MirrorSourceFile, state: MirrorFileState): boolean {
+  return state.sourceSize === file.size && (state.sourceModifiedTime || null) === (file.modifiedTime || null);
+}
+
+/**
+ * Decide what to do with each source file.
+ *
+ * - unchanged and already copied: skip
+ * - interrupted or failed chunked transfer of the same version: resume its upload session
+ * - never seen but present at the destination with the same size: adopt (record without copying)
+ * - changed since the last copy: replace the destination copy
+ * - failed MIRROR_MAX_ATTEMPTS times on the same version: skip unless retryFailed
+ */
+export function planMirror(
+  sourceFiles: MirrorSourceFile[],
+  states: Map<string, MirrorFileState>,
+  destinationFiles: Map<string, { id: string; size?: number }>,
+  options: { retryFailed?: boolean; maxAttempts?: number } = {}
+): MirrorPlan {
+  const maxAttempts = options.maxAttempts || MIRROR_MAX_ATTEMPTS;
+  const counts: Record<MirrorAction, number> = { copy: 0, replace: 0, resume: 0, adopt: 0, skip: 0 };
+
+  const entries = sourceFiles.map((file): MirrorPlanEntry => {
+    const state = states.get(file.id);
+    const existing = destinationFiles.get(mirrorPathKey(file.relativePath, file.name));
+
+    let entry: MirrorPlanEntry;
+    if (state && sameVersion(file, state)) {
+      if (state.status === 'copied') {
+        entry = { file, action: 'skip', reason: 'unchanged', state, destinationFileId: state.destinationFileId };
+      } else if (state.status === 'failed' && (state.attempts || 0) >= maxAttempts && !options.retryFailed) {
+        entry = { file, action: 'skip', reason: 'too many failed attempts', state };
+      } else if (state.uploadSession) {
+        entry = { file, action: 'resume', reason: 'interrupted transfer', state, destinationFileId: state.uploadSession.replaceFileId || null };
+      } else {
+        entry = { file, action: existing ? 'replace' : 'copy', reason: 'retry', state, destinationFileId: existing?.id || null };
+      }
+    } else if (state?.status === 'copied' && (existing || state.destinationFileId)) {
+      entry = { file, action: 'replace', reason: 'changed', state, destinationFileId: existing?.id || state.destinationFileId };
+    } else if (!state && existing && existing.size === file.size) {
+      entry = { file, action: 'adopt', reason: 'already at destination', destinationFileId: existing.id };
+    } else if (existing) {
+      entry = { file, action: 'replace', reason: state ? 'changed' : 'different at destination', state, destinationFileId: existing.id };
+    } else {
+      entry = { file, action: 'copy', reason: state ? 'changed' : 'new', state };
+    }
+
+    counts[entry.action]++;
+    return entry;
+  });
+
+  return { entries, counts };
+}
+
+/**
+ * Byte range (inclusive) of the next chunk to transfer
+ */
+export function nextChunkRange(offset: number, totalSize: number, chunkSize = MIRROR_CHUNK_SIZE): { start: number; end: number } {
+  return { start: offset, end: Math.min(offset + chunkSize, totalSize) - 1 };
+}
+
+/**
+ * Whether a file should move in chunks through a resumable session
+ */
+export function shouldTransferInChunks(
+  size: number,
+  capabilities: { rangeDownload: boolean; resumableUpload: boolean }
+): boolean {
+  return size > MIRROR_RESUMABLE_THRESHOLD && capabilities.rangeDownload && capabilities.resumableUpload;
+}
+
+/**
+ * Next scheduled run; a run that stopped early resumes on the next scheduler tick
+ */
+export function computeNextRunAt(from: Date, intervalMinutes: number, finishedEarly: boolean): Date {
+  if (finishedEarly) {
+    return from;
+  }
+  return new Date(from.getTime() + Math.max(intervalMinutes, 15) * 60 * 1000);
+}
@@ -0,0 +1,68 @@
+/**
+ * Apple Connect Storage Provider
+ *
+ * iCloud Drive files are synced into Firestore by the Apple Connect FileStorageService,
+ * so this provider can only list. Write operations throw until an iCloud Drive API is available.
+ */
+
+import { StorageProvider, StorageContext, StorageItem, StorageListOptions } from '../types';
+import { getFiles } from '../../../apple/FileStorageService';
+
+export class AppleStorageProvider implements StorageProvider {
+  name = 'apple_connect';
+  displayName = 'iCloud Drive';
+  rootFolderId = 'root';
+  capabilities: StorageProvider['capabilities'] = ['list'];
+
+  async list(context: StorageContext, options: StorageListOptions): Promise<StorageItem[]> {
+    const items: StorageItem[] = [];
+    const pending = [options.folderId || this.rootFolderId];
+
+    while (pending.length > 0) {
+      const folderId = pending.shift()!;
+      const files = await getFiles(context.organizationId, folderId);
+      files.forEach(file => {
+        if (file.isFolder && options.recursive) {
+          pending.push(file.id);
+        }
+        items.push({
+          id: file.id,
+          name: file.name,
+          type: file.isFolder ? 'folder' : 'file',
+          provider: this.name,
+          parentId: file.parentId || folderId,
+          path: file.path || null,
+          size: file.size || 0,
+          mimeType: file.mimeType || null,
+          modifiedTime: file.modifiedTime ? file.modifiedTime.toISOString() : null
+        });
+      });
+    }
+
+    return options.type && options.type !== 'all' ? items.filter(item => item.type === options.type) : items;
+  }
+
+  private unsupported(operation: string): never {
+    throw new Error(`${this.displayName} does not support ${operation}`);
+  }
+
+  async createFolder(): Promise<StorageItem> {
+    return this.unsupported('createFolder');
+  }
+
+  async upload(): Promise<StorageItem> {
+    return this.unsupported('upload');
+  }
+
+  async download(): Promise<never> {
+    return this.unsupported('download');
+  }
+
+  async move(): Promise<StorageItem> {
+    return this.unsupported('move');
+  }
+
+  async createShareLink(): Promise<never> {
+    return this.unsupported('shareLink');
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Box Storage Provider
+ *
+ * StorageProvider implementation over the Box Node SDK, using the organization-level
+ * Box connection (refreshBoxAccessToken)
+ */
+
+import { StorageProvider, StorageContext, StorageItem, StorageListOptions, StorageUploadInput, StorageMoveOptions } from '../types';
+import { refreshBoxAccessToken } from '../../../box/files';
+import { getBoxConfig } from '../../../box/config';
+
+const ITEM_FIELDS = 'id,name,type,size,created_at,modified_at,parent,shared_link';
+const PAGE_SIZE = 1000;
+
+export class BoxStorageProvider implements StorageProvider {
+  name = 'box';
+  displayName = 'Box';
+  rootFolderId = '0';
+  capabilities: StorageProvider['capabilities'] = ['list', 'createFolder', 'upload', 'download', 'move', 'shareLink', 'rangeDownload'];
+
+  private async getClient(context: StorageContext) {
+    const tokens = await refreshBoxAccessToken(context.userId, context.organizationId);
+    if (!tokens?.accessToken) {
+      throw new Error('No access token available. Please re-connect your Box account.');
+    }
+
+    const config = await getBoxConfig(context.organizationId);
+    const BoxSDK = require('box-node-sdk');
+    const sdk = new BoxSDK({ clientID: config.clientId, clientSecret: config.clientSecret });
+    return sdk.getBasicClient(tokens.accessToken);
+  }
+
+  private toItem(item: any): StorageItem {
+    return {
+      id: String(item.id),
+      name: item.name,
+      type: item.type === 'folder' ? 'folder' : 'file',
+      provider: this.name,
+      parentId: item.parent?.id || null,
+      size: item.size || 0,
+      createdTime: item.created_at || null,
+      modifiedTime: item.modified_at || null,
+      webViewLink: item.shared_link?.url || `https://app.box.com/${item.type === 'folder' ? 'folder' : 'file'}/${item.id}`,
+      downloadUrl: item.shared_link?.download_url || null
+    };
+  }
+
+  private rethrow(error: any, itemId?: string): never {
+    if (error?.statusCode === 401) {
+      throw new Error('Box authentication failed. Please re-connect your Box account.');
+    } else if (error?.statusCode === 404) {
+      throw new Error(`Box item not found${itemId ? `: ${itemId}` : ''}`);
+    } else if (error?.statusCode === 403) {
+      throw new Error('Access denied. Please check your Box account permissions.');
+    } else if (error?.statusCode === 409) {
+      throw new Error(error?.body?.message || 'An item with this name already exists');
+    }
+    throw new Error(`Box API error: ${error?.message || 'Unknown error'}`);
+  }
+
+  async list(context: StorageContext, options: StorageListOptions): Promise<StorageItem[]> {
+    const client = await this.getClient(context);
+    const items: StorageItem[] = [];
+    const pending = [options.folderId || this.rootFolderId];
+
+    try {
+      while (pending.length > 0) {
+        const folderId = pending.shift()!;
+        let offset = 0;
+        let total = 0;
+        do {
+          const response = await client.folders.getItems(folderId, { fields: ITEM_FIELDS, limit: PAGE_SIZE, offset });
+          const entries = Array.isArray(response?.entries) ? response.entries : [];
+          total = response?.total_count || entries.length;
+          offset += entries.length;
+
+          entries.forEach((entry: any) => {
+            const item = this.toItem(entry);
+            if (item.type === 'folder' && options.recursive) {
+              pending.push(item.id);
+            }
+            items.push({ ...item, parentId: item.parentId || folderId });
+          });
+
+          if (entries.length === 0) break;
+        } while (offset < total);
+      }
+    } catch (error: any) {
+      this.rethrow(error, options.folderId || undefined);
+    }
+
+    return options.type && options.type !== 'all' ? items.filter(item => item.type === options.type) : items;
+  }
+
+  async createFolder(context: StorageContext, name: string, parentId?: string | null): Promise<StorageItem> {
+    const client = await this.getClient(context);
+    try {
+      return this.toItem(await client.folders.create(parentId || this.rootFolderId, name));
+    } catch (error: any) {
+      this.rethrow(error, parentId || undefined);
+    }
+  }
+
+  async upload(context: StorageContext, input: StorageUploadInput): Promise<StorageItem> {
+    const client = await this.getClient(context);
+    try {
+      const response = input.replaceFileId
+        ? await client.files.uploadNewFileVersion(input.replaceFileId, input.content)
+        : await client.files.uploadFile(input.folderId || this.rootFolderId, input.fileName, input.content, null);
+      const uploaded = response?.entries?.[0] || response;
+      if (!uploaded?.id) {
+        throw new Error('Box upload response missing file ID');
+      }
+      return this.toItem(uploaded);
+    } catch (error: any) {
+      this.rethrow(error, input.folderId || undefined);
+    }
+  }
+
+  private async readStream(stream: AsyncIterable<any>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async download(context: StorageContext, fileId: string) {
+    const client = await this.getClient(context);
+    try {
+      const info = await client.files.get(fileId, { fields: 'name,size' });
+      const content = await this.readStream(await client.files.getReadStream(fileId));
+      return { name: info.name, mimeType: null, size: info.size || content.length, content };
+    } catch (error: any) {
+      this.rethrow(error, fileId);
+    }
+  }
+
+  async downloadRange(context: StorageContext, fileId: string, start: number, end: number): Promise<Buffer> {
+    const client = await this.getClient(context);
+    try {
+      return await this.readStream(await client.files.getReadStream(fileId, { byteRange: [start, end] }));
+    } catch (error: any) {
+      this.rethrow(error, fileId);
+    }
+  }
+
+  async move(context: StorageContext, itemId: string, targetFolderId: string, options: StorageMoveOptions = {}): Promise<StorageItem> {
+    const client = await this.getClient(context);
+    const update: Record<string, any> = { parent: { id: targetFolderId || this.rootFolderId } };
+    if (options.newName) {
+      update.name = options.newName;
+    }
+
+    try {
+      const response = options.itemType === 'folder'
+        ? await client.folders.update(itemId, update)
+        : await client.files.update(itemId, update);
+      return this.toItem(response);
+    } catch (error: any) {
+      this.rethrow(error, itemId);
+    }
+  }
+
+  async createShareLink(context: StorageContext, itemId: string, itemType: 'file' | 'folder' = 'file') {
+    const client = await this.getClient(context);
+    const sharedLink = {
+      shared_link: {
+        access: 'open',
+        permissions: {
+          can_download: true,
+          can_preview: true
+        }
+      }
+    };
+
+    try {
+      const response = itemType === 'folder'
+        ? await client.folders.update(itemId, sharedLink)
+        : await client.files.update(itemId, sharedLink);
+      if (!response?.shared_link?.url) {
+        throw new Error('Box did not return a shared link');
+      }
+      return { url: response.shared_link.url, downloadUrl: response.shared_link.download_url || null };
+    } catch (error: any) {
+      this.rethrow(error, itemId);
+    }
+  }
+}
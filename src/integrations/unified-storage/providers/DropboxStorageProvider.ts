@@ -0,0 +1,234 @@
+/**
+ * Dropbox Storage Provider
+ *
+ * StorageProvider implementation over the Dropbox SDK. Dropbox addresses items by
+ * path, so item ids are lowercase paths and the root folder is ''.
+ */
+
+import { StorageProvider, StorageContext, StorageItem, StorageListOptions, StorageUploadInput, StorageMoveOptions, StorageUploadSession } from '../types';
+import { refreshDropboxAccessToken } from '../../../dropbox/files';
+
+function joinPath(folder: string | null | undefined, name: string): string {
+  const parent = !folder || folder === 'root' ? '' : folder.replace(/\/+$/, '');
+  return `${parent}/${name}`;
+}
+
+function parentOf(path: string): string {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+export class DropboxStorageProvider implements StorageProvider {
+  name = 'dropbox';
+  displayName = 'Dropbox';
+  rootFolderId = '';
+  capabilities: StorageProvider['capabilities'] = ['list', 'createFolder', 'upload', 'download', 'move', 'shareLink', 'rangeDownload', 'resumableUpload'];
+
+  private async getAccessToken(context: StorageContext): Promise<string> {
+    const tokens = await refreshDropboxAccessToken(context.userId, context.organizationId);
+    if (!tokens?.accessToken) {
+      throw new Error('No access token available. Please re-connect your Dropbox account.');
+    }
+    return tokens.accessToken;
+  }
+
+  private async getClient(context: StorageContext) {
+    const { Dropbox } = require('dropbox');
+    return new Dropbox({ accessToken: await this.getAccessToken(context) });
+  }
+
+  private toItem(entry: any): StorageItem {
+    const path = entry.path_lower || entry.path_display || '';
+    return {
+      id: path || entry.id,
+      name: entry.name,
+      type: entry['.tag'] === 'folder' ? 'folder' : 'file',
+      provider: this.name,
+      parentId: parentOf(path),
+      path: entry.path_display || path,
+      size: entry.size || 0,
+      createdTime: entry.client_modified || entry.server_modified || null,
+      modifiedTime: entry.server_modified || null
+    };
+  }
+
+  private rethrow(error: any): never {
+    const status = error?.status;
+    if (status === 401 || status === 403) {
+      throw new Error('Dropbox authentication failed. Please reconnect your Dropbox account.');
+    }
+    const summary = error?.error?.error_summary;
+    if (summary?.includes('not_found')) {
+      throw new Error('Dropbox item not found');
+    }
+    if (summary?.includes('conflict')) {
+      throw new Error('An item with this name already exists');
+    }
+    throw new Error(`Dropbox API error: ${summary || error?.message || 'Unknown error'}`);
+  }
+
+  async list(context: StorageContext, options: StorageListOptions): Promise<StorageItem[]> {
+    const dbx = await this.getClient(context);
+    const path = !options.folderId || options.folderId === 'root' ? '' : options.folderId;
+    const items: StorageItem[] = [];
+
+    try {
+      let cursor: string | undefined;
+      do {
+        const response = cursor
+          ? await dbx.filesListFolderContinue({ cursor })
+          : await dbx.filesListFolder({ path, recursive: !!options.recursive });
+        const result = (response as any)?.result || response;
+        const entries = Array.isArray(result.entries) ? result.entries : [];
+
+        entries
+          .filter((entry: any) => entry['.tag'] !== 'deleted')
+          // Recursive listings include the folder itself
+          .filter((entry: any) => (entry.path_lower || '') !== path.toLowerCase())
+          .forEach((entry: any) => items.push(this.toItem(entry)));
+
+        cursor = result.has_more ? result.cursor : undefined;
+      } while (cursor);
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+
+    return options.type && options.type !== 'all' ? items.filter(item => item.type === options.type) : items;
+  }
+
+  async createFolder(context: StorageContext, name: string, parentId?: string | null): Promise<StorageItem> {
+    const dbx = await this.getClient(context);
+    try {
+      const response = await dbx.filesCreateFolderV2({ path: joinPath(parentId, name) });
+      const result = (response as any)?.result || response;
+      return this.toItem({ ...result.metadata, '.tag': 'folder' });
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+  }
+
+  async upload(context: StorageContext, input: StorageUploadInput): Promise<StorageItem> {
+    const dbx = await this.getClient(context);
+    try {
+      const response = await dbx.filesUpload({
+        path: input.replaceFileId || joinPath(input.folderId, input.fileName),
+        mode: { '.tag': input.replaceFileId ? 'overwrite' : 'add' },
+        contents: input.content
+      });
+      const result = (response as any)?.result || response;
+      return this.toItem({ ...result, '.tag': 'file' });
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+  }
+
+  async download(context: StorageContext, fileId: string) {
+    const dbx = await this.getClient(context);
+    try {
+      const response = await dbx.filesDownload({ path: fileId });
+      const result = (response as any)?.result || response;
+      const content = Buffer.from(result.fileBinary);
+      return { name: result.name, mimeType: null, size: result.size || content.length, content };
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+  }
+
+  async move(context: StorageContext, itemId: string, targetFolderId: string, options: StorageMoveOptions = {}): Promise<StorageItem> {
+    const dbx = await this.getClient(context);
+    const name = options.newName || itemId.split('/').pop() || '';
+    try {
+      const response = await dbx.filesMoveV2({ from_path: itemId, to_path: joinPath(targetFolderId, name), autorename: false });
+      const result = (response as any)?.result || response;
+      return this.toItem(result.metadata);
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+  }
+
+  async createShareLink(context: StorageContext, itemId: string) {
+    const dbx = await this.getClient(context);
+    let url: string | undefined;
+
+    try {
+      const response = await dbx.sharingCreateSharedLinkWithSettings({
+        path: itemId,
+        settings: {
+          requested_visibility: { '.tag': 'public' },
+          allow_download: true
+        }
+      });
+      url = ((response as any)?.result || response).url;
+    } catch (error: any) {
+      // Reuse the existing link rather than failing
+      if (!error?.error?.error_summary?.includes('shared_link_already_exists')) {
+        this.rethrow(error);
+      }
+      const existing = await dbx.sharingListSharedLinks({ path: itemId, direct_only: true });
+      url = ((existing as any)?.result || existing).links?.[0]?.url;
+    }
+
+    if (!url) {
+      throw new Error('Dropbox did not return a shared link');
+    }
+    return { url, downloadUrl: url.replace(/([?&])dl=0/, '$1dl=1') };
+  }
+
+  async downloadRange(context: StorageContext, fileId: string, start: number, end: number): Promise<Buffer> {
+    // The SDK doesn't expose Range requests, so call the content endpoint directly
+    const response = await fetch('https://content.dropboxapi.com/2/files/download', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${await this.getAccessToken(context)}`,
+        'Dropbox-API-Arg': JSON.stringify({ path: fileId }),
+        'Range': `bytes=${start}-${end}`
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`Dropbox API error: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async startUploadSession(context: StorageContext, input: Omit<StorageUploadSession, 'sessionId'>): Promise<StorageUploadSession> {
+    const dbx = await this.getClient(context);
+    try {
+      const response = await dbx.filesUploadSessionStart({ close: false, contents: Buffer.alloc(0) });
+      const result = (response as any)?.result || response;
+      return { ...input, sessionId: result.session_id };
+    } catch (error: any) {
+      this.rethrow(error);
+    }
+  }
+
+  async uploadSessionChunk(context: StorageContext, session: StorageUploadSession, chunk: Buffer, offset: number): Promise<StorageItem | null> {
+    const dbx = await this.getClient(context);
+    const cursor = { session_id: session.sessionId, offset };
+    const isLast = offset + chunk.length >= session.totalSize;
+
+    try {
+      if (!isLast) {
+        await dbx.filesUploadSessionAppendV2({ cursor, close: false, contents: chunk });
+        return null;
+      }
+
+      const response = await dbx.filesUploadSessionFinish({
+        cursor,
+        commit: {
+          path: session.replaceFileId || joinPath(session.folderId, session.fileName),
+          mode: { '.tag': session.replaceFileId ? 'overwrite' : 'add' },
+          autorename: false
+        },
+        contents: chunk
+      });
+      const result = (response as any)?.result || response;
+      return this.toItem({ ...result, '.tag': 'file' });
+    } catch (error: any) {
+      // The chunk landed before an interruption - Dropbox reports the offset it expects next
+      const lookup = error?.error?.error?.lookup_failed || error?.error?.error;
+      if (!isLast && lookup?.['.tag'] === 'incorrect_offset' && lookup.correct_offset === offset + chunk.length) {
+        return null;
+      }
+      this.rethrow(error);
+    }
+  }
+}
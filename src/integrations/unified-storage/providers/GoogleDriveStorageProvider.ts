@@ -0,0 +1,224 @@
+/**
+ * Google Drive Storage Provider
+ *
+ * StorageProvider implementation over the Drive v3 API, using the organization-level
+ * Google connection (refreshGoogleAccessToken)
+ */
+
+import { google } from 'googleapis';
+import { Readable } from 'stream';
+import { StorageProvider, StorageContext, StorageItem, StorageListOptions, StorageUploadInput, StorageMoveOptions, StorageUploadSession } from '../types';
+import { getOAuth2ClientForCredentials, refreshGoogleAccessToken } from '../../googleDrive';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const FILE_FIELDS = 'id, name, mimeType, size, createdTime, modifiedTime, webViewLink, webContentLink, parents';
+const RESUMABLE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable';
+const RESUMABLE_UPDATE_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+
+export class GoogleDriveStorageProvider implements StorageProvider {
+  name = 'google';
+  displayName = 'Google Drive';
+  rootFolderId = 'root';
+  capabilities: StorageProvider['capabilities'] = ['list', 'createFolder', 'upload', 'download', 'move', 'shareLink', 'rangeDownload', 'resumableUpload'];
+
+  private async getAuth(context: StorageContext) {
+    const credentials = await refreshGoogleAccessToken(context.userId, context.organizationId);
+    const auth = getOAuth2ClientForCredentials();
+    auth.setCredentials(credentials);
+    return auth;
+  }
+
+  private async getDrive(context: StorageContext) {
+    return google.drive({ version: 'v3', auth: await this.getAuth(context) });
+  }
+
+  private toItem(file: any): StorageItem {
+    return {
+      id: file.id,
+      name: file.name,
+      type: file.mimeType === FOLDER_MIME_TYPE ? 'folder' : 'file',
+      provider: this.name,
+      parentId: file.parents?.[0] || null,
+      size: file.size ? parseInt(file.size) : 0,
+      mimeType: file.mimeType || null,
+      createdTime: file.createdTime || null,
+      modifiedTime: file.modifiedTime || null,
+      webViewLink: file.webViewLink || null,
+      downloadUrl: file.webContentLink || null
+    };
+  }
+
+  async list(context: StorageContext, options: StorageListOptions): Promise<StorageItem[]> {
+    const drive = await this.getDrive(context);
+    const items: StorageItem[] = [];
+    const pending = [options.folderId || this.rootFolderId];
+
+    while (pending.length > 0) {
+      const folderId = pending.shift()!;
+      let pageToken: string | undefined;
+      do {
+        const response = await drive.files.list({
+          q: `'${folderId}' in parents and trashed=false`,
+          fields: `nextPageToken, files(${FILE_FIELDS})`,
+          orderBy: 'name',
+          pageSize: 1000,
+          pageToken
+        });
+
+        (response.data.files || []).forEach(file => {
+          const item = this.toItem(file);
+          if (item.type === 'folder' && options.recursive) {
+            pending.push(item.id);
+          }
+          items.push(item);
+        });
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    }
+
+    return options.type && options.type !== 'all' ? items.filter(item => item.type === options.type) : items;
+  }
+
+  async createFolder(context: StorageContext, name: string, parentId?: string | null): Promise<StorageItem> {
+    const drive = await this.getDrive(context);
+    const response = await drive.files.create({
+      requestBody: {
+        name,
+        mimeType: FOLDER_MIME_TYPE,
+        parents: [parentId || this.rootFolderId]
+      },
+      fields: FILE_FIELDS
+    });
+    return this.toItem(response.data);
+  }
+
+  async upload(context: StorageContext, input: StorageUploadInput): Promise<StorageItem> {
+    const drive = await this.getDrive(context);
+    if (input.replaceFileId) {
+      const updated = await drive.files.update({
+        fileId: input.replaceFileId,
+        media: {
+          mimeType: input.mimeType || 'application/octet-stream',
+          body: Readable.from(input.content)
+        },
+        fields: FILE_FIELDS
+      });
+      return this.toItem(updated.data);
+    }
+
+    const response = await drive.files.create({
+      requestBody: {
+        name: input.fileName,
+        parents: [input.folderId || this.rootFolderId]
+      },
+      media: {
+        mimeType: input.mimeType || 'application/octet-stream',
+        body: Readable.from(input.content)
+      },
+      fields: FILE_FIELDS
+    });
+    return this.toItem(response.data);
+  }
+
+  async download(context: StorageContext, fileId: string) {
+    const drive = await this.getDrive(context);
+    const metadata = await drive.files.get({ fileId, fields: 'name, mimeType, size' });
+    const response = await drive.files.get({ fileId, alt: 'media' }, { responseType: 'arraybuffer' });
+    const content = Buffer.from(response.data as ArrayBuffer);
+    return {
+      name: metadata.data.name || fileId,
+      mimeType: metadata.data.mimeType || null,
+      size: metadata.data.size ? parseInt(metadata.data.size) : content.length,
+      content
+    };
+  }
+
+  async move(context: StorageContext, itemId: string, targetFolderId: string, options: StorageMoveOptions = {}): Promise<StorageItem> {
+    const drive = await this.getDrive(context);
+    const current = await drive.files.get({ fileId: itemId, fields: 'parents' });
+    const response = await drive.files.update({
+      fileId: itemId,
+      addParents: targetFolderId || this.rootFolderId,
+      removeParents: (current.data.parents || []).join(','),
+      requestBody: options.newName ? { name: options.newName } : {},
+      fields: FILE_FIELDS
+    });
+    return this.toItem(response.data);
+  }
+
+  async createShareLink(context: StorageContext, itemId: string) {
+    const drive = await this.getDrive(context);
+    await drive.permissions.create({
+      fileId: itemId,
+      requestBody: { role: 'reader', type: 'anyone' }
+    });
+    const response = await drive.files.get({ fileId: itemId, fields: 'webViewLink, webContentLink' });
+    if (!response.data.webViewLink) {
+      throw new Error('Google Drive did not return a share link');
+    }
+    return { url: response.data.webViewLink, downloadUrl: response.data.webContentLink || null };
+  }
+
+  async downloadRange(context: StorageContext, fileId: string, start: number, end: number): Promise<Buffer> {
+    const drive = await this.getDrive(context);
+    const response = await drive.files.get(
+      { fileId, alt: 'media' },
+      { responseType: 'arraybuffer', headers: { Range: `bytes=${start}-${end}` } }
+    );
+    return Buffer.from(response.data as ArrayBuffer);
+  }
+
+  async startUploadSession(context: StorageContext, input: Omit<StorageUploadSession, 'sessionId'>): Promise<StorageUploadSession> {
+    const auth = await this.getAuth(context);
+    // Replacing uploads new content to the existing file id
+    const response = await auth.request({
+      url: input.replaceFileId
+        ? `${RESUMABLE_UPDATE_URL}/${encodeURIComponent(input.replaceFileId)}?uploadType=resumable&fields=${encodeURIComponent(FILE_FIELDS)}`
+        : `${RESUMABLE_UPLOAD_URL}&fields=${encodeURIComponent(FILE_FIELDS)}`,
+      method: input.replaceFileId ? 'PATCH' : 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': input.mimeType || 'application/octet-stream',
+        'X-Upload-Content-Length': String(input.totalSize)
+      },
+      data: input.replaceFileId ? {} : { name: input.fileName, parents: [input.folderId || this.rootFolderId] }
+    });
+
+    const uploadUrl = (response.headers as any)?.location;
+    if (!uploadUrl) {
+      throw new Error('Google Drive did not return a resumable upload URL');
+    }
+    return { ...input, sessionId: uploadUrl };
+  }
+
+  async uploadSessionChunk(context: StorageContext, session: StorageUploadSession, chunk: Buffer, offset: number): Promise<StorageItem | null> {
+    const auth = await this.getAuth(context);
+    const end = offset + chunk.length - 1;
+    const response = await auth.request({
+      url: session.sessionId,
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes ${offset}-${end}/${session.totalSize}` },
+      data: chunk,
+      // 308 means "chunk received, send the next one"
+      validateStatus: status => status === 200 || status === 201 || status === 308
+    });
+    return response.status === 308 ? null : this.toItem(response.data);
+  }
+
+  async getUploadSessionOffset(context: StorageContext, session: StorageUploadSession): Promise<number> {
+    const auth = await this.getAuth(context);
+    const response = await auth.request({
+      url: session.sessionId,
+      method: 'PUT',
+      headers: { 'Content-Range': `bytes */${session.totalSize}` },
+      validateStatus: status => status === 200 || status === 201 || status === 308
+    });
+    if (response.status !== 308) {
+      return session.totalSize;
+    }
+    // Range: bytes=0-{last received byte}; absent when nothing has been received
+    const range = (response.headers as any)?.range as string | undefined;
+    const match = range?.match(/bytes=0-(\d+)/);
+    return match ? parseInt(match[1]) + 1 : 0;
+  }
+}
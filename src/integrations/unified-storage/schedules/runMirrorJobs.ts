@@ -0,0 +1,37 @@
+/**
+ * Scheduled Storage Mirroring
+ *
+ * Runs enabled storage mirror jobs whose next run is due
+ * Runs every 15 minutes
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { encryptionKey, encryptionKeyPrevious } from '../../unified-oauth/encryption';
+import { runDueMirrorJobs } from '../mirrorJobService';
+
+const TIMEOUT_SECONDS = 540;
+// Leave time to record the last run before the function is stopped
+const SAFETY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Run due mirror jobs
+ * Runs every 15 minutes
+ */
+export const runScheduledStorageMirrorJobs = onSchedule(
+  {
+    schedule: 'every 15 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    memory: '1GiB',
+    timeoutSeconds: TIMEOUT_SECONDS,
+    secrets: [encryptionKey, encryptionKeyPrevious]
+  },
+  async () => {
+    console.log('🔄 Starting scheduled storage mirror jobs...');
+
+    const deadline = Date.now() + TIMEOUT_SECONDS * 1000 - SAFETY_MARGIN_MS;
+    const ran = await runDueMirrorJobs(deadline);
+
+    console.log(`✅ Storage mirror jobs complete: ${ran} run(s)`);
+  }
+);
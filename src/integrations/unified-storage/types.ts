@@ -0,0 +1,114 @@
+/**
+ * Unified Storage Types
+ *
+ * Type definitions for the provider-agnostic cloud storage layer
+ */
+
+/**
+ * Storage Item - a file or folder in any provider, in one shape
+ */
+export interface StorageItem {
+  id: string; // Provider identifier (Box/Drive id, Dropbox lowercase path)
+  name: string;
+  type: 'file' | 'folder';
+  provider: string;
+  parentId?: string | null;
+  path?: string | null;
+  size?: number;
+  mimeType?: string | null;
+  createdTime?: string | null;
+  modifiedTime?: string | null;
+  webViewLink?: string | null;
+  downloadUrl?: string | null;
+}
+
+/**
+ * Context every provider call runs in
+ */
+export interface StorageContext {
+  organizationId: string;
+  userId: string;
+}
+
+export interface StorageListOptions {
+  folderId?: string | null; // Provider root when omitted
+  recursive?: boolean;
+  type?: 'file' | 'folder' | 'all';
+}
+
+export interface StorageUploadInput {
+  fileName: string;
+  content: Buffer;
+  mimeType?: string;
+  folderId?: string | null;
+  replaceFileId?: string | null; // Upload as a new version of this file instead of a new file
+}
+
+export interface StorageMoveOptions {
+  newName?: string;
+  itemType?: 'file' | 'folder'; // Box addresses files and folders separately
+}
+
+export interface StorageDownloadResult {
+  name: string;
+  mimeType: string | null;
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Resumable upload in progress - persisted by callers so an interrupted transfer can continue
+ */
+export interface StorageUploadSession {
+  sessionId: string; // Dropbox upload session id or Drive resumable upload URL
+  fileName: string;
+  folderId: string | null;
+  totalSize: number;
+  mimeType?: string | null;
+  replaceFileId?: string | null;
+}
+
+export interface StorageShareLink {
+  url: string;
+  downloadUrl?: string | null;
+}
+
+/**
+ * Operations a provider can perform (providers without a real API only list)
+ */
+export type StorageCapability =
+  | 'list'
+  | 'createFolder'
+  | 'upload'
+  | 'download'
+  | 'move'
+  | 'shareLink'
+  | 'rangeDownload'
+  | 'resumableUpload';
+
+/**
+ * Storage Provider Plugin Interface
+ * Implement this interface to add a new storage provider
+ */
+export interface StorageProvider {
+  // Provider metadata
+  name: string; // Same name as the OAuth provider: 'box', 'dropbox', 'google', 'apple_connect'
+  displayName: string;
+  rootFolderId: string; // '0' for Box, '' for Dropbox, 'root' for Drive
+  capabilities: StorageCapability[];
+
+  list(context: StorageContext, options: StorageListOptions): Promise<StorageItem[]>;
+  createFolder(context: StorageContext, name: string, parentId?: string | null): Promise<StorageItem>;
+  upload(context: StorageContext, input: StorageUploadInput): Promise<StorageItem>;
+  download(context: StorageContext, fileId: string): Promise<StorageDownloadResult>;
+  move(context: StorageContext, itemId: string, targetFolderId: string, options?: StorageMoveOptions): Promise<StorageItem>;
+  createShareLink(context: StorageContext, itemId: string, itemType?: 'file' | 'folder'): Promise<StorageShareLink>;
+
+  // Optional: chunked transfers for large files ('rangeDownload' / 'resumableUpload')
+  downloadRange?(context: StorageContext, fileId: string, start: number, end: number): Promise<Buffer>;
+  startUploadSession?(context: StorageContext, input: Omit<StorageUploadSession, 'sessionId'>): Promise<StorageUploadSession>;
+  // Returns the uploaded item once the chunk ending at totalSize has been sent, otherwise null
+  uploadSessionChunk?(context: StorageContext, session: StorageUploadSession, chunk: Buffer, offset: number): Promise<StorageItem | null>;
+  // Bytes the provider has actually received, when it can report it
+  getUploadSessionOffset?(context: StorageContext, session: StorageUploadSession): Promise<number>;
+}
@@ -0,0 +1,55 @@
+/**
+ * Slack Bridge Tests
+ *
+ * Tests for outbound sync planning (loop prevention), reactions and mentions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyReaction,
+  isOwnSlackMessage,
+  planOutboundSync,
+  renderSlackMentions,
+  slackSenderId
+} from '../slackBridge';
+
+const synced = {
+  channelId: 'C1',
+  ts: '1700000000.000100',
+  threadTs: null,
+  syncedContent: 'Call time moved to 7am',
+  syncedReactions: []
+};
+
+describe('slackBridge', () => {
+  it('posts new app messages only, and never echoes writes made by the bridge', () => {
+    expect(planOutboundSync(null, { content: 'Hi' })).toEqual([{ type: 'post' }]);
+    expect(planOutboundSync(null, { content: 'Hi', source: 'slack', slack: synced })).toEqual([]);
+    // Message from before the link was made
+    expect(planOutboundSync({ content: 'Hi' }, { content: 'Hi', isRead: true })).toEqual([]);
+
+    const posted = { content: 'Call time moved to 7am', slack: synced };
+    expect(planOutboundSync({ content: posted.content }, posted)).toEqual([]);
+    expect(planOutboundSync(posted, { ...posted, content: 'Call time moved to 8am' })).toEqual([{ type: 'update' }]);
+    // Edits that came from Slack record the new content as synced
+    expect(planOutboundSync(posted, { ...posted, source: 'slack', content: 'Edited on Slack' })).toEqual([]);
+    expect(planOutboundSync(posted, null)).toEqual([{ type: 'delete', ts: synced.ts, channelId: 'C1' }]);
+  });
+
+  it('mirrors only app users\' reactions to Slack', () => {
+    const posted = { content: synced.syncedContent, slack: { ...synced, syncedReactions: ['eyes'] } };
+
+    const fromSlack = applyReaction(undefined, 'thumbsup', slackSenderId('U9'), true);
+    expect(planOutboundSync(posted, { ...posted, reactions: { ...fromSlack, eyes: ['user-1'] } })).toEqual([]);
+
+    const fromApp = applyReaction({ eyes: ['user-1'] }, 'tada', 'user-2', true);
+    expect(planOutboundSync(posted, { ...posted, reactions: applyReaction(fromApp, 'eyes', 'user-1', false) }))
+      .toEqual([{ type: 'reactions', add: ['tada'], remove: ['eyes'] }]);
+  });
+
+  it('renders known Slack mentions and recognizes the bridge bot', () => {
+    expect(renderSlackMentions('<@U1> and <@U2|sam> check the sheet', { U1: 'Alex' })).toBe('@Alex and <@U2|sam> check the sheet');
+    expect(isOwnSlackMessage({ bot_id: 'B1', user: 'U5' }, { botId: 'B1', botUserId: 'UBOT' })).toBe(true);
+    expect(isOwnSlackMessage({ user: 'U5' }, { botId: 'B1', botUserId: 'UBOT' })).toBe(false);
+  });
+});
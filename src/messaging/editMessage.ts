@@ -0,0 +1,70 @@
+/**
+ * 🔥 EDIT MESSAGE
+ * Edit the content of a message the user sent
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, createErrorResponse } from '../shared/utils';
+import * as admin from 'firebase-admin';
+
+const db = getFirestore();
+
+/**
+ * Edit message (Callable Function)
+ */
+export const editMessage = onCall(
+  {
+    cors: true,
+  },
+  async (request) => {
+    try {
+      const { sessionId, messageId, content } = request.data;
+      const uid = request.auth?.uid;
+
+      if (!uid) {
+        throw new Error('User must be authenticated');
+      }
+
+      if (!sessionId || !messageId || !content) {
+        throw new Error('Session ID, message ID and content are required');
+      }
+
+      // Verify session exists and user is a participant
+      const sessionDoc = await db.collection('messageSessions').doc(sessionId).get();
+      if (!sessionDoc.exists) {
+        throw new Error('Message session not found');
+      }
+
+      const sessionData = sessionDoc.data();
+      if (!sessionData?.participantIds?.includes(uid)) {
+        throw new Error('User is not a participant in this session');
+      }
+
+      // Verify message exists and user is the sender
+      const messageDoc = await db.collection('messages').doc(messageId).get();
+      if (!messageDoc.exists || messageDoc.data()?.messageSessionId !== sessionId) {
+        throw new Error('Message not found');
+      }
+
+      if (messageDoc.data()?.senderId !== uid) {
+        throw new Error('User can only edit their own messages');
+      }
+
+      await db.collection('messages').doc(messageId).update({
+        content,
+        editedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+
+      return createSuccessResponse({ id: messageId, content }, 'Message updated successfully');
+
+    } catch (error: any) {
+      console.error('❌ [MESSAGING] Error editing message:', error);
+      return createErrorResponse(
+        error.message || 'Failed to edit message',
+        error.stack
+      );
+    }
+  }
+);
@@ -14,4 +14,8 @@ export { getParticipants } from './getParticipants';
 export { addParticipant } from './addParticipant';
 export { removeParticipant } from './removeParticipant';
 export { updateMessageSession } from './updateMessageSession';
+export { editMessage } from './editMessage';
+export { toggleMessageReaction } from './toggleMessageReaction';
+export { linkMessageSessionToSlack, unlinkMessageSessionFromSlack } from './linkSessionToSlack';
+export { onMessageWrittenSyncSlack } from './slackBridgeTrigger';
 
@@ -0,0 +1,211 @@
+/**
+ * 🔥 LINK MESSAGE SESSION TO SLACK
+ * Link / unlink a message session and a Slack channel for two-way sync
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, createErrorResponse } from '../shared/utils';
+import { isOrganizationAdmin } from '../shared/adminClaims';
+import * as admin from 'firebase-admin';
+import type { WebClient } from '@slack/web-api';
+import { getSlackClient } from '../slack/api';
+import { encryptionKey, encryptionKeyPrevious } from '../slack/secrets';
+import { SlackSessionLink } from './slackBridge';
+import { findSessionForSlackChannel } from './slackBridgeService';
+
+const db = getFirestore();
+const auth = getAuth();
+
+/**
+ * Load a session the caller participates in, within the caller's organization
+ */
+async function getParticipantSession(sessionId: string, uid: string) {
+  const sessionDoc = await db.collection('messageSessions').doc(sessionId).get();
+  if (!sessionDoc.exists) {
+    throw new Error('Message session not found');
+  }
+
+  const sessionData = sessionDoc.data()!;
+  if (!sessionData.participantIds?.includes(uid)) {
+    throw new Error('User is not a participant in this session');
+  }
+
+  const userRecord = await auth.getUser(uid);
+  const organizationId = userRecord.customClaims?.organizationId;
+  if (sessionData.organizationId !== organizationId) {
+    throw new Error('Access denied to message session');
+  }
+
+  return {
+    sessionData,
+    organizationId: organizationId as string,
+    email: userRecord.email || null,
+    isAdmin: isOrganizationAdmin(userRecord.customClaims)
+  };
+}
+
+/**
+ * The caller's Slack user: the stored `users.slackUserId`, else a lookup by email
+ */
+async function getCallerSlackUserId(client: WebClient, uid: string, email: string | null): Promise<string | null> {
+  const userDoc = await db.collection('users').doc(uid).get();
+  const stored = userDoc.data()?.slackUserId;
+  if (stored) {
+    return stored;
+  }
+  if (!email) {
+    return null;
+  }
+
+  try {
+    const lookup = await client.users.lookupByEmail({ email });
+    return lookup.user?.id || null;
+  } catch (error: any) {
+    console.warn(`⚠️ [MESSAGING] No Slack user for ${uid}:`, error?.data?.error || error?.message);
+    return null;
+  }
+}
+
+/**
+ * Whether a Slack user is in a channel, paging through its member list
+ */
+async function isSlackChannelMember(client: WebClient, channelId: string, slackUserId: string): Promise<boolean> {
+  let cursor: string | undefined;
+  do {
+    const page = await client.conversations.members({ channel: channelId, cursor, limit: 200 });
+    if (page.members?.includes(slackUserId)) {
+      return true;
+    }
+    cursor = page.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+  return false;
+}
+
+/**
+ * Link a message session to a Slack channel (Callable Function)
+ */
+export const linkMessageSessionToSlack = onCall(
+  {
+    cors: true,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request) => {
+    try {
+      const { sessionId, connectionId, channelId } = request.data;
+      const uid = request.auth?.uid;
+
+      if (!uid) {
+        throw new Error('User must be authenticated');
+      }
+
+      if (!sessionId || !connectionId || !channelId) {
+        throw new Error('Session ID, connection ID and channel ID are required');
+      }
+
+      const { organizationId, email, isAdmin } = await getParticipantSession(sessionId, uid);
+
+      const existing = await findSessionForSlackChannel(organizationId, channelId);
+      if (existing && existing.sessionId !== sessionId) {
+        throw new Error('This Slack channel is already linked to another message session');
+      }
+
+      const client = await getSlackClient(connectionId, organizationId);
+      const channelInfo = await client.conversations.info({ channel: channelId });
+      if (!channelInfo.ok || !channelInfo.channel) {
+        throw new Error('Slack channel not found');
+      }
+
+      // Linking mirrors the channel into the session, so non-admins must already be able to read it
+      if (!isAdmin) {
+        const slackUserId = await getCallerSlackUserId(client, uid, email);
+        if (!slackUserId || !(await isSlackChannelMember(client, channelId, slackUserId))) {
+          throw new Error('Only organization admins or members of this Slack channel can link it to a message session');
+        }
+      }
+
+      // The bot has to be in the channel to receive its events; private channels need an invite
+      try {
+        await client.conversations.join({ channel: channelId });
+      } catch (joinError: any) {
+        console.warn(`⚠️ [MESSAGING] Could not join Slack channel ${channelId}:`, joinError?.data?.error || joinError?.message);
+      }
+
+      const identity = await client.auth.test();
+      const slackLink: SlackSessionLink = {
+        connectionId,
+        channelId,
+        channelName: channelInfo.channel.name || null,
+        botUserId: identity.user_id || null,
+        botId: identity.bot_id || null,
+        isActive: true
+      };
+
+      await db.collection('messageSessions').doc(sessionId).update({
+        slackLink: {
+          ...slackLink,
+          linkedBy: uid,
+          linkedAt: admin.firestore.FieldValue.serverTimestamp()
+        },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+
+      console.log(`🔗 [MESSAGING] Linked session ${sessionId} to Slack channel ${channelId}`);
+
+      return createSuccessResponse({ sessionId, slackLink }, 'Message session linked to Slack');
+
+    } catch (error: any) {
+      console.error('❌ [MESSAGING] Error linking message session to Slack:', error);
+      return createErrorResponse(
+        error.message || 'Failed to link message session to Slack',
+        error.stack
+      );
+    }
+  }
+);
+
+/**
+ * Stop syncing a message session with Slack (Callable Function)
+ */
+export const unlinkMessageSessionFromSlack = onCall(
+  {
+    cors: true,
+  },
+  async (request) => {
+    try {
+      const { sessionId } = request.data;
+      const uid = request.auth?.uid;
+
+      if (!uid) {
+        throw new Error('User must be authenticated');
+      }
+
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+
+      const { sessionData } = await getParticipantSession(sessionId, uid);
+      if (!sessionData.slackLink) {
+        return createSuccessResponse({ success: true }, 'Message session is not linked to Slack');
+      }
+
+      await db.collection('messageSessions').doc(sessionId).update({
+        slackLink: admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+
+      console.log(`🔗 [MESSAGING] Unlinked session ${sessionId} from Slack`);
+
+      return createSuccessResponse({ success: true }, 'Message session unlinked from Slack');
+
+    } catch (error: any) {
+      console.error('❌ [MESSAGING] Error unlinking message session from Slack:', error);
+      return createErrorResponse(
+        error.message || 'Failed to unlink message session from Slack',
+        error.stack
+      );
+    }
+  }
+);
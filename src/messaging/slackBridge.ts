@@ -0,0 +1,136 @@
+/**
+ * Message Session ↔ Slack Bridge
+ *
+ * Pure rules for two-way sync between a `messageSessions` document and a Slack channel.
+ *
+ * Loop prevention: every synced message carries a `slack` block recording the Slack ts
+ * and the content / reactions as last seen on both sides. A write only needs to go out
+ * to Slack when the message differs from that record, and writes made by the inbound
+ * path update the record together with the message, so they never echo back. Inbound
+ * events posted by the bridge's own bot user are ignored.
+ */
+
+export interface SlackSessionLink {
+  connectionId: string;
+  channelId: string;
+  channelName: string | null;
+  botUserId: string | null;
+  botId: string | null;
+  isActive: boolean;
+}
+
+/** Reactions on an app message: emoji name → user ids (`slack:U123` for reactions made on Slack) */
+export type MessageReactions = Record<string, string[]>;
+
+export interface SlackMessageSync {
+  channelId: string;
+  ts: string | null;
+  threadTs: string | null;
+  syncedContent: string | null;
+  /** Emoji the bridge's bot has added on Slack for app users' reactions */
+  syncedReactions: string[];
+}
+
+export type OutboundSyncAction =
+  | { type: 'post' }
+  | { type: 'update' }
+  | { type: 'delete'; ts: string; channelId: string }
+  | { type: 'reactions'; add: string[]; remove: string[] };
+
+const SLACK_USER_PREFIX = 'slack:';
+
+export function slackSenderId(slackUserId: string): string {
+  return `${SLACK_USER_PREFIX}${slackUserId}`;
+}
+
+export function isSlackSenderId(userId: string): boolean {
+  return userId.startsWith(SLACK_USER_PREFIX);
+}
+
+/**
+ * Emoji that should be shown by the bot on Slack: reactions that app users made
+ * (Slack users' own reactions already live on Slack)
+ */
+export function appReactionEmoji(reactions: MessageReactions | undefined | null): string[] {
+  return Object.entries(reactions || {})
+    .filter(([, userIds]) => (userIds || []).some(userId => !isSlackSenderId(userId)))
+    .map(([emoji]) => emoji)
+    .sort();
+}
+
+/**
+ * Work needed on Slack after a write to an app message, in order. Messages that
+ * came from Slack are only ever updated here for reactions made in the app.
+ */
+export function planOutboundSync(before: any | null, after: any | null): OutboundSyncAction[] {
+  if (!after) {
+    const sync: SlackMessageSync | undefined = before?.slack;
+    return sync?.ts && before?.source !== 'slack' ? [{ type: 'delete', ts: sync.ts, channelId: sync.channelId }] : [];
+  }
+
+  const sync: SlackMessageSync | undefined = after.slack;
+  if (!sync?.ts) {
+    // Only new app messages are posted; messages from before the link stay in the app
+    return before || after.source === 'slack' ? [] : [{ type: 'post' }];
+  }
+
+  const actions: OutboundSyncAction[] = [];
+  if (after.source !== 'slack' && (after.content || '') !== (sync.syncedContent || '')) {
+    actions.push({ type: 'update' });
+  }
+
+  const wanted = appReactionEmoji(after.reactions);
+  const synced = sync.syncedReactions || [];
+  const add = wanted.filter(emoji => !synced.includes(emoji));
+  const remove = synced.filter(emoji => !wanted.includes(emoji));
+  if (add.length || remove.length) {
+    actions.push({ type: 'reactions', add, remove });
+  }
+
+  return actions;
+}
+
+/**
+ * Add or remove one user's reaction (app user id, or `slack:U123` for Slack events)
+ */
+export function applyReaction(
+  reactions: MessageReactions | undefined | null,
+  emoji: string,
+  userId: string,
+  added: boolean
+): MessageReactions {
+  const next: MessageReactions = { ...(reactions || {}) };
+  const users = new Set(next[emoji] || []);
+  if (added) {
+    users.add(userId);
+  } else {
+    users.delete(userId);
+  }
+
+  if (users.size > 0) {
+    next[emoji] = Array.from(users);
+  } else {
+    delete next[emoji];
+  }
+  return next;
+}
+
+/**
+ * Replace Slack user mentions (`<@U123>`) with display names where known
+ */
+export function renderSlackMentions(text: string, names: Record<string, string>): string {
+  return (text || '').replace(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g, (mention, slackUserId) =>
+    names[slackUserId] ? `@${names[slackUserId]}` : mention
+  );
+}
+
+/**
+ * Whether a Slack message event was produced by the bridge itself
+ */
+export function isOwnSlackMessage(message: any, link: Pick<SlackSessionLink, 'botId' | 'botUserId'>): boolean {
+  if (!message) return false;
+  return Boolean(
+    (link.botId && message.bot_id === link.botId) ||
+    (link.botUserId && message.user === link.botUserId)
+  );
+}
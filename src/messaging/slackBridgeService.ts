@@ -0,0 +1,399 @@
+/**
+ * Message Session ↔ Slack Bridge Service
+ *
+ * Firestore and Slack side of the bridge (rules live in slackBridge.ts):
+ * - inbound: Slack message / edit / delete / reaction events from the Slack webhook
+ * - outbound: writes to `messages` from the bridge trigger
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { db } from '../shared/utils';
+import { getSlackClient } from '../slack/api';
+import {
+  appReactionEmoji,
+  applyReaction,
+  isOwnSlackMessage,
+  OutboundSyncAction,
+  renderSlackMentions,
+  slackSenderId,
+  SlackMessageSync,
+  SlackSessionLink
+} from './slackBridge';
+
+export interface LinkedSession {
+  sessionId: string;
+  organizationId: string;
+  projectId: string;
+  link: SlackSessionLink;
+}
+
+interface SlackSender {
+  senderId: string;
+  name: string | null;
+}
+
+const SLACK_MENTION_PATTERN = /<@([A-Z0-9]+)(?:\|[^>]*)?>/g;
+
+function toLinkedSession(doc: FirebaseFirestore.DocumentSnapshot): LinkedSession | null {
+  const data = doc.data();
+  if (!data?.slackLink?.isActive) {
+    return null;
+  }
+  return {
+    sessionId: doc.id,
+    organizationId: data.organizationId,
+    projectId: data.projectId || 'global',
+    link: data.slackLink as SlackSessionLink
+  };
+}
+
+/**
+ * The message session linked to a Slack channel, if any
+ */
+export async function findSessionForSlackChannel(organizationId: string, channelId: string): Promise<LinkedSession | null> {
+  const snapshot = await db.collection('messageSessions')
+    .where('organizationId', '==', organizationId)
+    .where('slackLink.channelId', '==', channelId)
+    .where('slackLink.isActive', '==', true)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : toLinkedSession(snapshot.docs[0]);
+}
+
+export async function getLinkedSession(sessionId: string): Promise<LinkedSession | null> {
+  if (!sessionId) {
+    return null;
+  }
+  const sessionDoc = await db.collection('messageSessions').doc(sessionId).get();
+  return sessionDoc.exists ? toLinkedSession(sessionDoc) : null;
+}
+
+async function findMessageBySlackTs(sessionId: string, ts: string): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const snapshot = await db.collection('messages')
+    .where('messageSessionId', '==', sessionId)
+    .where('slack.ts', '==', ts)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+/**
+ * Map a Slack user to an organization member: first by the stored `users.slackUserId`,
+ * then by the Slack profile email against `teamMembers` (storing the link for next time).
+ * Unmapped Slack users post as `slack:U123`.
+ */
+async function resolveSlackSender(
+  client: Awaited<ReturnType<typeof getSlackClient>>,
+  organizationId: string,
+  slackUserId: string
+): Promise<SlackSender> {
+  let profile: any = null;
+  try {
+    profile = (await client.users.info({ user: slackUserId })).user || null;
+  } catch (error: any) {
+    console.warn(`⚠️ [SlackBridge] Could not load Slack user ${slackUserId}:`, error?.message || error);
+  }
+  const name = profile?.profile?.display_name || profile?.real_name || profile?.name || null;
+
+  const linked = await db.collection('users')
+    .where('slackUserId', '==', slackUserId)
+    .where('organizationId', '==', organizationId)
+    .limit(1)
+    .get();
+  if (!linked.empty) {
+    return { senderId: linked.docs[0].id, name };
+  }
+
+  const email = profile?.profile?.email;
+  if (email) {
+    const member = await db.collection('teamMembers')
+      .where('organizationId', '==', organizationId)
+      .where('email', '==', email)
+      .limit(1)
+      .get();
+    const userId = member.empty ? null : member.docs[0].data().userId;
+    if (userId) {
+      await db.collection('users').doc(userId).set({ slackUserId }, { merge: true });
+      console.log(`🔗 [SlackBridge] Linked Slack user ${slackUserId} to ${userId}`);
+      return { senderId: userId, name };
+    }
+  }
+
+  return { senderId: slackSenderId(slackUserId), name };
+}
+
+/**
+ * Name and avatar an app user's messages are posted under on Slack
+ */
+async function getAppSenderProfile(userId: string, organizationId: string): Promise<{ name: string; iconUrl?: string }> {
+  const member = await db.collection('teamMembers')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .limit(1)
+    .get();
+  const data = member.empty ? null : member.docs[0].data();
+  const memberName = data?.displayName || data?.name ||
+    [data?.firstName, data?.lastName].filter(Boolean).join(' ');
+  if (memberName) {
+    return { name: memberName, iconUrl: data?.avatarUrl || data?.photoURL || undefined };
+  }
+
+  try {
+    const userRecord = await getAuth().getUser(userId);
+    return { name: userRecord.displayName || userRecord.email || 'Team member', iconUrl: userRecord.photoURL || undefined };
+  } catch {
+    return { name: 'Team member' };
+  }
+}
+
+/**
+ * Slack display names for the users mentioned in a message
+ */
+async function resolveMentionNames(client: Awaited<ReturnType<typeof getSlackClient>>, text: string): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  const slackUserIds = new Set(Array.from((text || '').matchAll(SLACK_MENTION_PATTERN), match => match[1]));
+  for (const slackUserId of slackUserIds) {
+    try {
+      const user: any = (await client.users.info({ user: slackUserId })).user;
+      const name = user?.profile?.display_name || user?.real_name || user?.name;
+      if (name) names[slackUserId] = name;
+    } catch {
+      // Leave the raw mention in place
+    }
+  }
+  return names;
+}
+
+/**
+ * Apply a Slack message event (new message, edit or deletion) to the linked session.
+ * Returns true when the channel is linked to a session.
+ */
+export async function syncSlackMessageToSession(organizationId: string, connectionId: string, event: any): Promise<boolean> {
+  const linked = await findSessionForSlackChannel(organizationId, event.channel);
+  if (!linked || linked.link.connectionId !== connectionId) {
+    return false;
+  }
+  const { sessionId, link } = linked;
+
+  if (event.subtype === 'message_deleted') {
+    const messageDoc = await findMessageBySlackTs(sessionId, event.deleted_ts);
+    if (messageDoc) {
+      await messageDoc.ref.delete();
+      console.log(`🗑️ [SlackBridge] Deleted message ${messageDoc.id} (removed on Slack)`);
+    }
+    return true;
+  }
+
+  const client = await getSlackClient(connectionId, organizationId);
+
+  if (event.subtype === 'message_changed') {
+    const message = event.message;
+    if (!message || isOwnSlackMessage(message, link)) {
+      return true;
+    }
+    const messageDoc = await findMessageBySlackTs(sessionId, message.ts);
+    if (!messageDoc) {
+      return true;
+    }
+    const content = renderSlackMentions(message.text || '', await resolveMentionNames(client, message.text));
+    if (content !== messageDoc.data().content) {
+      await messageDoc.ref.update({
+        content,
+        'slack.syncedContent': content,
+        editedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      console.log(`✏️ [SlackBridge] Updated message ${messageDoc.id} from Slack edit`);
+    }
+    return true;
+  }
+
+  // New messages: plain user messages, thread replies also sent to the channel, and file shares
+  const isNewMessage = !event.subtype || event.subtype === 'thread_broadcast' || event.subtype === 'file_share';
+  if (!isNewMessage || !event.user || isOwnSlackMessage(event, link)) {
+    return true;
+  }
+
+  const sender = await resolveSlackSender(client, organizationId, event.user);
+  const content = renderSlackMentions(event.text || '', await resolveMentionNames(client, event.text));
+  const threadTs = event.thread_ts && event.thread_ts !== event.ts ? event.thread_ts : null;
+  const parent = threadTs ? await findMessageBySlackTs(sessionId, threadTs) : null;
+  const file = event.files?.[0];
+
+  const slack: SlackMessageSync = {
+    channelId: event.channel,
+    ts: event.ts,
+    threadTs,
+    syncedContent: content,
+    syncedReactions: []
+  };
+
+  // Deterministic id so Slack retries of the same event don't duplicate the message
+  const messageRef = db.collection('messages').doc(`slack_${event.channel}_${event.ts}`);
+  try {
+    await messageRef.create({
+      messageSessionId: sessionId,
+      projectId: linked.projectId,
+      organizationId,
+      senderId: sender.senderId,
+      senderName: sender.name,
+      source: 'slack',
+      slackUserId: event.user,
+      content,
+      timestamp: Timestamp.fromMillis(parseFloat(event.ts) * 1000),
+      isRead: false,
+      replyToId: parent?.id || null,
+      attachmentUrl: file?.permalink || null,
+      attachmentType: file?.mimetype || null,
+      slack,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  } catch (error: any) {
+    // ALREADY_EXISTS: this event was delivered before
+    if (error?.code === 6) {
+      return true;
+    }
+    throw error;
+  }
+
+  await db.collection('messageSessions').doc(sessionId).update({
+    updatedAt: FieldValue.serverTimestamp(),
+    lastMessageAt: FieldValue.serverTimestamp(),
+    lastMessageId: messageRef.id
+  });
+
+  console.log(`💬 [SlackBridge] Synced Slack message ${event.ts} to session ${sessionId}`);
+  return true;
+}
+
+/**
+ * Apply a Slack reaction_added / reaction_removed event to the synced message
+ */
+export async function syncSlackReactionToSession(organizationId: string, connectionId: string, event: any): Promise<boolean> {
+  const { channel, ts, type } = event.item || {};
+  if (type !== 'message' || !channel || !ts) {
+    return false;
+  }
+
+  const linked = await findSessionForSlackChannel(organizationId, channel);
+  if (!linked || linked.link.connectionId !== connectionId) {
+    return false;
+  }
+  // The bot's own reactions mirror app users' reactions
+  if (linked.link.botUserId && event.user === linked.link.botUserId) {
+    return true;
+  }
+
+  const messageDoc = await findMessageBySlackTs(linked.sessionId, ts);
+  if (!messageDoc) {
+    return true;
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(messageDoc.ref);
+    if (!current.exists) return;
+    transaction.update(messageDoc.ref, {
+      reactions: applyReaction(current.data()?.reactions, event.reaction, slackSenderId(event.user), event.type === 'reaction_added'),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  });
+
+  return true;
+}
+
+/**
+ * Slack thread a reply belongs in (Slack threads are one level deep)
+ */
+async function resolveThreadTs(replyToId: string | null | undefined): Promise<string | null> {
+  if (!replyToId) {
+    return null;
+  }
+  const parentDoc = await db.collection('messages').doc(replyToId).get();
+  const parentSync: SlackMessageSync | undefined = parentDoc.data()?.slack;
+  return parentSync?.threadTs || parentSync?.ts || null;
+}
+
+function formatOutboundText(message: any): string {
+  const content = message.content || '';
+  return message.attachmentUrl ? `${content}\n${message.attachmentUrl}`.trim() : content;
+}
+
+function isSlackError(error: any, ...codes: string[]): boolean {
+  return codes.includes(error?.data?.error);
+}
+
+/**
+ * Carry out the planned Slack work for an app message write
+ */
+export async function syncMessageToSlack(messageId: string, message: any, actions: OutboundSyncAction[]): Promise<void> {
+  const linked = await getLinkedSession(message?.messageSessionId);
+  if (!linked) {
+    return;
+  }
+
+  const { link, organizationId } = linked;
+  const client = await getSlackClient(link.connectionId, organizationId);
+  const messageRef = db.collection('messages').doc(messageId);
+  const sync: SlackMessageSync | undefined = message.slack;
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'post': {
+        const threadTs = await resolveThreadTs(message.replyToId);
+        const sender = await getAppSenderProfile(message.senderId, organizationId);
+        const result = await client.chat.postMessage({
+          channel: link.channelId,
+          text: formatOutboundText(message),
+          thread_ts: threadTs || undefined,
+          username: sender.name,
+          icon_url: sender.iconUrl,
+          unfurl_links: false
+        });
+        const posted: SlackMessageSync = {
+          channelId: link.channelId,
+          ts: result.ts || null,
+          threadTs,
+          syncedContent: message.content || '',
+          syncedReactions: []
+        };
+        await messageRef.update({ slack: posted });
+        console.log(`📤 [SlackBridge] Posted message ${messageId} to ${link.channelId}`);
+        break;
+      }
+
+      case 'update':
+        await client.chat.update({ channel: sync!.channelId, ts: sync!.ts!, text: formatOutboundText(message) });
+        await messageRef.update({ 'slack.syncedContent': message.content || '' });
+        break;
+
+      case 'delete':
+        try {
+          await client.chat.delete({ channel: action.channelId, ts: action.ts });
+        } catch (error: any) {
+          // Already removed on Slack (e.g. the delete came from Slack in the first place)
+          if (!isSlackError(error, 'message_not_found')) throw error;
+        }
+        break;
+
+      case 'reactions':
+        for (const name of action.add) {
+          try {
+            await client.reactions.add({ channel: sync!.channelId, timestamp: sync!.ts!, name });
+          } catch (error: any) {
+            if (!isSlackError(error, 'already_reacted')) throw error;
+          }
+        }
+        for (const name of action.remove) {
+          try {
+            await client.reactions.remove({ channel: sync!.channelId, timestamp: sync!.ts!, name });
+          } catch (error: any) {
+            if (!isSlackError(error, 'no_reaction')) throw error;
+          }
+        }
+        await messageRef.update({ 'slack.syncedReactions': appReactionEmoji(message.reactions) });
+        break;
+    }
+  }
+}
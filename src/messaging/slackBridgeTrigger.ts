@@ -0,0 +1,35 @@
+/**
+ * 🔥 SLACK BRIDGE TRIGGER
+ * Mirrors app-side message writes (new messages, edits, deletions, reactions)
+ * to the Slack channel linked to the message's session
+ */
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { encryptionKey, encryptionKeyPrevious } from '../slack/secrets';
+import { planOutboundSync } from './slackBridge';
+import { syncMessageToSlack } from './slackBridgeService';
+
+export const onMessageWrittenSyncSlack = onDocumentWritten(
+  {
+    document: 'messages/{messageId}',
+    region: 'us-central1',
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (event) => {
+    const messageId = event.params.messageId;
+    try {
+      const before = event.data?.before?.exists ? event.data.before.data() : null;
+      const after = event.data?.after?.exists ? event.data.after.data() : null;
+
+      const actions = planOutboundSync(before, after);
+      if (actions.length === 0) {
+        return;
+      }
+
+      await syncMessageToSlack(messageId, after || before, actions);
+    } catch (error: any) {
+      console.error(`❌ [SlackBridge] Error syncing message ${messageId} to Slack:`, error?.data?.error || error?.message || error);
+    }
+  }
+);
@@ -0,0 +1,73 @@
+/**
+ * 🔥 TOGGLE MESSAGE REACTION
+ * Add or remove the user's emoji reaction on a message
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, createErrorResponse } from '../shared/utils';
+import * as admin from 'firebase-admin';
+import { applyReaction, MessageReactions } from './slackBridge';
+
+const db = getFirestore();
+
+/**
+ * Toggle message reaction (Callable Function)
+ */
+export const toggleMessageReaction = onCall(
+  {
+    cors: true,
+  },
+  async (request) => {
+    try {
+      const { sessionId, messageId, emoji } = request.data;
+      const uid = request.auth?.uid;
+
+      if (!uid) {
+        throw new Error('User must be authenticated');
+      }
+
+      // Slack-style emoji names, e.g. "thumbsup" or "white_check_mark"
+      if (!sessionId || !messageId || !emoji || !/^[a-z0-9_+\-']+$/.test(emoji)) {
+        throw new Error('Session ID, message ID and a valid emoji name are required');
+      }
+
+      // Verify session exists and user is a participant
+      const sessionDoc = await db.collection('messageSessions').doc(sessionId).get();
+      if (!sessionDoc.exists) {
+        throw new Error('Message session not found');
+      }
+
+      const sessionData = sessionDoc.data();
+      if (!sessionData?.participantIds?.includes(uid)) {
+        throw new Error('User is not a participant in this session');
+      }
+
+      const messageRef = db.collection('messages').doc(messageId);
+      const reactions = await db.runTransaction(async (transaction) => {
+        const messageDoc = await transaction.get(messageRef);
+        if (!messageDoc.exists || messageDoc.data()?.messageSessionId !== sessionId) {
+          throw new Error('Message not found');
+        }
+
+        const current: MessageReactions = messageDoc.data()?.reactions || {};
+        const next = applyReaction(current, emoji, uid, !(current[emoji] || []).includes(uid));
+
+        transaction.update(messageRef, {
+          reactions: next,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return next;
+      });
+
+      return createSuccessResponse({ id: messageId, reactions }, 'Reaction updated successfully');
+
+    } catch (error: any) {
+      console.error('❌ [MESSAGING] Error updating reaction:', error);
+      return createErrorResponse(
+        error.message || 'Failed to update reaction',
+        error.stack
+      );
+    }
+  }
+);
@@ -9,7 +9,7 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { db } from '../shared/utils';
 import * as admin from 'firebase-admin';
 import { encryptTokens, decryptLegacyToken } from '../integrations/encryption';
-import { encryptionKey } from '../box/secrets';
+import { encryptionKey, encryptionKeyPrevious } from '../box/secrets';
 
 /**
  * Migrate Box tokens for an organization
@@ -19,7 +19,7 @@ export const migrateBoxTokens = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -149,7 +149,7 @@ export const migrateDropboxTokens = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
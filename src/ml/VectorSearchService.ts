@@ -3,11 +3,20 @@
  * 
  * Provides semantic search capabilities using Vertex AI embeddings.
  * Enables natural language queries and similarity matching across Firestore collections.
+ * Embeddings stay on the source documents; searches go through the vector index.
  */
 
-import { getFirestore } from 'firebase-admin/firestore';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { defineSecret } from 'firebase-functions/params';
+import {
+  getVectorIndexBackend,
+  pickIndexMetadata,
+  MetadataFilter,
+  VectorMatch,
+  VectorNamespace,
+  VectorRecord
+} from '../ai/vectorStore/VectorIndex';
 
 // Define secret for Gemini API key (for embeddings)
 const geminiApiKey = defineSecret('GEMINI_API_KEY');
@@ -29,6 +38,18 @@ export interface EmbeddingResult {
   metadata?: Record<string, any>;
 }
 
+/** Entity fields copied into the index so searches can filter on them */
+const INDEXED_METADATA_FIELDS = ['projectId', 'status', 'type', 'category'];
+
+export function entityNamespace(collection: string, organizationId: string): VectorNamespace {
+  return {
+    organizationId,
+    collection,
+    embeddingField: 'embedding',
+    metadataFields: INDEXED_METADATA_FIELDS
+  };
+}
+
 export class VectorSearchService {
   private db: FirebaseFirestore.Firestore;
   private genAI: GoogleGenerativeAI | null = null;
@@ -108,6 +129,8 @@ export class VectorSearchService {
         ...metadata
       });
 
+      await this.addToIndex(collection, [docId]);
+
       console.log(`✅ Indexed entity: ${collection}/${docId}`);
     } catch (error) {
       console.error(`Error indexing entity ${collection}/${docId}:`, error);
@@ -123,7 +146,8 @@ export class VectorSearchService {
     query: string,
     collection: string,
     organizationId: string,
-    limit: number = 10
+    limit: number = 10,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
     try {
       // Validate organizationId is provided
@@ -134,48 +158,25 @@ export class VectorSearchService {
       // Generate query embedding
       const queryEmbedding = await this.generateEmbedding(query);
 
-      // Get all documents in collection with embeddings
-      const snapshot = await this.db
-        .collection(collection)
-        .where('organizationId', '==', organizationId)
-        .where('embedding', '!=', null)
-        .get();
+      const matches = await getVectorIndexBackend().query(entityNamespace(collection, organizationId), {
+        vector: queryEmbedding,
+        limit,
+        filter
+      });
 
-      if (snapshot.empty) {
+      if (matches.length === 0) {
         console.log(`No documents with embeddings found in ${collection}`);
         return [];
       }
 
-      // Calculate cosine similarity for each document
-      const results: SearchResult[] = [];
-
-      for (const doc of snapshot.docs) {
-        const data = doc.data();
-        const docEmbedding = data.embedding as number[];
-
-        if (!docEmbedding || docEmbedding.length === 0) {
-          continue;
-        }
-
-        // Calculate cosine similarity
-        const similarity = this.cosineSimilarity(queryEmbedding, docEmbedding);
-
-        results.push({
-          id: doc.id,
-          collection: collection,
-          score: similarity,
-          data: data,
-          metadata: {
-            snippet: this.extractSnippet(data.embeddingText || '', query)
-          }
-        });
-      }
-
-      // Sort by similarity score (descending)
-      results.sort((a, b) => b.score - a.score);
+      const results = await this.loadMatches(collection, organizationId, matches);
+      results.forEach(result => {
+        result.metadata = {
+          snippet: this.extractSnippet(result.data.embeddingText || '', query)
+        };
+      });
 
-      // Return top results
-      return results.slice(0, limit);
+      return results;
     } catch (error) {
       console.error('Error in semantic search:', error);
       throw error;
@@ -189,7 +190,8 @@ export class VectorSearchService {
     query: string,
     organizationId: string,
     collections: string[],
-    limit: number = 10
+    limit: number = 10,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
     const allResults: SearchResult[] = [];
 
@@ -200,7 +202,8 @@ export class VectorSearchService {
           query,
           collection,
           organizationId,
-          limit
+          limit,
+          filter
         );
         allResults.push(...results);
       } catch (error) {
@@ -252,42 +255,13 @@ export class VectorSearchService {
         throw new Error(`Document ${docId} has no embedding`);
       }
 
-      // Get all other documents in collection with embeddings
-      const snapshot = await this.db
-        .collection(collection)
-        .where('organizationId', '==', organizationId)
-        .where('embedding', '!=', null)
-        .get();
-
-      const results: SearchResult[] = [];
-
-      for (const otherDoc of snapshot.docs) {
-        // Skip the source document
-        if (otherDoc.id === docId) {
-          continue;
-        }
-
-        const otherData = otherDoc.data();
-        const otherEmbedding = otherData.embedding as number[];
-
-        if (!otherEmbedding || otherEmbedding.length === 0) {
-          continue;
-        }
-
-        // Calculate similarity
-        const similarity = this.cosineSimilarity(sourceEmbedding, otherEmbedding);
-
-        results.push({
-          id: otherDoc.id,
-          collection: collection,
-          score: similarity,
-          data: otherData
-        });
-      }
+      const matches = await getVectorIndexBackend().query(entityNamespace(collection, organizationId), {
+        vector: sourceEmbedding,
+        limit,
+        excludeIds: [docId]
+      });
 
-      // Sort by similarity and return top results
-      results.sort((a, b) => b.score - a.score);
-      return results.slice(0, limit);
+      return this.loadMatches(collection, organizationId, matches);
     } catch (error) {
       console.error('Error finding similar entities:', error);
       throw error;
@@ -301,11 +275,12 @@ export class VectorSearchService {
     collection: string,
     entities: Array<{ id: string; text: string; metadata?: Record<string, any> }>
   ): Promise<void> {
-    const batch = this.db.batch();
     const batchSize = 500; // Firestore batch limit
 
     for (let i = 0; i < entities.length; i += batchSize) {
       const batchEntities = entities.slice(i, i + batchSize);
+      const batch = this.db.batch();
+      const indexedIds: string[] = [];
 
       for (const entity of batchEntities) {
         try {
@@ -318,6 +293,7 @@ export class VectorSearchService {
             embeddingUpdatedAt: new Date(),
             ...entity.metadata
           });
+          indexedIds.push(entity.id);
         } catch (error) {
           console.error(`Error processing entity ${entity.id}:`, error);
           // Continue with other entities
@@ -326,34 +302,99 @@ export class VectorSearchService {
 
       // Commit batch
       await batch.commit();
+      await this.addToIndex(collection, indexedIds);
       console.log(`✅ Indexed batch ${i / batchSize + 1}`);
     }
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Remove an entity's embedding from its document and from the index
    */
-  private cosineSimilarity(vecA: number[], vecB: number[]): number {
-    if (vecA.length !== vecB.length) {
-      throw new Error('Vectors must have the same length');
+  async removeEntity(
+    collection: string,
+    docId: string,
+    organizationId: string
+  ): Promise<void> {
+    const docRef = this.db.collection(collection).doc(docId);
+    const doc = await docRef.get();
+
+    if (doc.exists) {
+      if (doc.data()?.organizationId !== organizationId) {
+        throw new Error(`Document ${docId} does not belong to organization ${organizationId}`);
+      }
+      await docRef.update({
+        embedding: FieldValue.delete(),
+        embeddingText: FieldValue.delete(),
+        embeddingUpdatedAt: FieldValue.delete()
+      });
     }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+    await getVectorIndexBackend().delete(entityNamespace(collection, organizationId), [docId]);
+  }
 
-    for (let i = 0; i < vecA.length; i++) {
-      dotProduct += vecA[i] * vecB[i];
-      normA += vecA[i] * vecA[i];
-      normB += vecB[i] * vecB[i];
+  /**
+   * Upsert freshly embedded documents into their organizations' indexes. The index
+   * is derived from the documents, so a failure here is repaired by the next rebuild.
+   */
+  private async addToIndex(collection: string, docIds: string[]): Promise<void> {
+    if (docIds.length === 0) return;
+
+    try {
+      const snapshots = await this.db.getAll(...docIds.map(id => this.db.collection(collection).doc(id)));
+      const byOrganization = new Map<string, VectorRecord[]>();
+
+      for (const snapshot of snapshots) {
+        const data = snapshot.data();
+        if (!data?.organizationId || !Array.isArray(data.embedding) || data.embedding.length === 0) {
+          continue;
+        }
+        const records = byOrganization.get(data.organizationId) || [];
+        records.push({
+          id: snapshot.id,
+          vector: data.embedding,
+          metadata: pickIndexMetadata(entityNamespace(collection, data.organizationId), data)
+        });
+        byOrganization.set(data.organizationId, records);
+      }
+
+      for (const [organizationId, records] of byOrganization) {
+        await getVectorIndexBackend().upsert(entityNamespace(collection, organizationId), records);
+      }
+    } catch (error) {
+      console.warn(`[VectorSearchService] Failed to update vector index for ${collection}:`, error);
     }
+  }
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    if (denominator === 0) {
-      return 0;
+  /**
+   * Load the documents behind index matches, keeping index order
+   */
+  private async loadMatches(
+    collection: string,
+    organizationId: string,
+    matches: VectorMatch[]
+  ): Promise<SearchResult[]> {
+    if (matches.length === 0) {
+      return [];
     }
 
-    return dotProduct / denominator;
+    const snapshots = await this.db.getAll(...matches.map(match => this.db.collection(collection).doc(match.id)));
+    const results: SearchResult[] = [];
+
+    matches.forEach((match, index) => {
+      const data = snapshots[index].data();
+      // Skip documents deleted or moved since they were indexed
+      if (!data || data.organizationId !== organizationId) {
+        return;
+      }
+      results.push({
+        id: match.id,
+        collection,
+        score: match.score,
+        data
+      });
+    });
+
+    return results;
   }
 
   /**
@@ -0,0 +1,80 @@
+/**
+ * Notification Preferences Tests
+ *
+ * Tests for per-category/per-channel resolution, quiet hours and digest scheduling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDigestMessage, getQuietHoursEnd, resolveChannelPlan } from '../notificationPreferences';
+
+const noon = new Date('2026-03-02T12:00:00.000Z');
+
+function actions(plan: ReturnType<typeof resolveChannelPlan>) {
+  return Object.fromEntries(plan.map(decision => [decision.channel, decision.action]));
+}
+
+describe('notificationPreferences', () => {
+  it('uses default channels when the user has no settings', () => {
+    expect(actions(resolveChannelPlan(null, { category: 'chat' }, noon))).toEqual({
+      inApp: 'send',
+      email: 'suppressed',
+      push: 'send',
+      slack: 'suppressed'
+    });
+  });
+
+  it('lets category channels override user channels', () => {
+    const settings = {
+      channels: { email: true, slack: true },
+      categories: { schedule: { enabled: true, channels: { slack: false, push: false } } }
+    };
+
+    expect(actions(resolveChannelPlan(settings, { category: 'schedule' }, noon))).toEqual({
+      inApp: 'send',
+      email: 'send',
+      push: 'suppressed',
+      slack: 'suppressed'
+    });
+  });
+
+  it('suppresses every channel for a disabled category', () => {
+    const plan = resolveChannelPlan({ categories: { chat: { enabled: false } } }, { category: 'chat' }, noon);
+
+    expect(plan.every(decision => decision.action === 'suppressed')).toBe(true);
+  });
+
+  it('queues daily digests at the configured local hour but keeps in-app immediate', () => {
+    const settings = {
+      timeZone: 'America/Los_Angeles',
+      digestHour: 18,
+      categories: { timecard_approval: { enabled: true, digest: 'daily' } }
+    };
+    const plan = resolveChannelPlan(settings, { category: 'timecard_approval' }, noon);
+    const push = plan.find(decision => decision.channel === 'push')!;
+
+    expect(actions(plan).inApp).toBe('send');
+    expect(push.action).toBe('digest');
+    // 18:00 in Los Angeles on 2 March (PST, UTC-8)
+    expect((push as any).deliverAfter.toISOString()).toBe('2026-03-03T02:00:00.000Z');
+  });
+
+  it('defers to the end of quiet hours that wrap midnight, unless urgent', () => {
+    const settings = { quietHours: { enabled: true, start: '22:00', end: '07:00', timeZone: 'UTC' } };
+    const lateNight = new Date('2026-03-02T23:30:00.000Z');
+
+    expect(getQuietHoursEnd(settings, lateNight)?.toISOString()).toBe('2026-03-03T07:00:00.000Z');
+    expect(getQuietHoursEnd(settings, noon)).toBeNull();
+    expect(actions(resolveChannelPlan(settings, { category: 'chat' }, lateNight)).push).toBe('deferred');
+    expect(actions(resolveChannelPlan(settings, { category: 'chat', priority: 'urgent' }, lateNight)).push).toBe('send');
+  });
+
+  it('combines queued items into one digest message', () => {
+    const digest = buildDigestMessage([
+      { category: 'timecard_approval', title: 'Approval needed', message: 'A' },
+      { category: 'timecard_approval', title: 'Approval needed', message: 'B' }
+    ]);
+
+    expect(digest.title).toBe('2 timecard approval updates');
+    expect(digest.message.split('\n')).toHaveLength(2);
+  });
+});
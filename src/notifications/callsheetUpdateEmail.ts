@@ -1,7 +1,14 @@
 /**
  * Email template for call sheet update notifications
+ *
+ * Rendered through the 'callsheet_update' email template so organizations can
+ * override wording, layout and branding.
  */
 
+import { DEFAULT_EMAIL_BRANDING, EmailBranding, RenderedEmail, renderEmail } from './emailTemplates/emailTemplateEngine';
+import { DEFAULT_EMAIL_LAYOUT, getDefaultEmailTemplate } from './emailTemplates/defaultEmailTemplates';
+import { renderOrganizationEmail } from './emailTemplates/emailTemplateService';
+
 export interface CallSheetUpdateEmailParams {
   projectName: string;
   shootDay?: string;
@@ -19,174 +26,59 @@ export interface CallSheetUpdateEmailParams {
   };
 }
 
+const CALL_SHEET_PRO_BRANDING: Partial<EmailBranding> = {
+  productName: 'Call Sheet Pro',
+  headerTitle: '📋 Call Sheet Update',
+  footerText: 'This email was sent from Call Sheet Pro'
+};
+
+function toTemplateVariables(params: CallSheetUpdateEmailParams): Record<string, any> {
+  return {
+    projectName: params.projectName,
+    shootDay: params.shootDay || null,
+    updateSummary: params.updateSummary,
+    uniqueLink: params.uniqueLink
+  };
+}
+
+/**
+ * Render the built-in call sheet update email (no organization overrides)
+ */
+function renderDefaultCallSheetUpdateEmail(params: CallSheetUpdateEmailParams): RenderedEmail {
+  return renderEmail(
+    getDefaultEmailTemplate('callsheet_update')!,
+    DEFAULT_EMAIL_LAYOUT,
+    { ...DEFAULT_EMAIL_BRANDING, ...CALL_SHEET_PRO_BRANDING },
+    toTemplateVariables(params)
+  );
+}
+
+/**
+ * Render the call sheet update email with the organization's template, layout and branding
+ * in the recipient's locale
+ */
+export async function renderCallSheetUpdateEmail(
+  organizationId: string,
+  params: CallSheetUpdateEmailParams,
+  recipient: { userId?: string | null; email?: string | null } = {}
+): Promise<RenderedEmail> {
+  return renderOrganizationEmail(organizationId, 'callsheet_update', toTemplateVariables(params), {
+    recipientUserId: recipient.userId,
+    recipientEmail: recipient.email,
+    brandDefaults: CALL_SHEET_PRO_BRANDING
+  });
+}
+
 /**
  * Generate HTML email template for call sheet updates
  */
 export function generateCallSheetUpdateEmailHTML(params: CallSheetUpdateEmailParams): string {
-  const { projectName, shootDay, updateSummary, uniqueLink } = params;
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Call Sheet Update</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-          padding: 20px;
-          background-color: #f5f5f5;
-        }
-        .email-container {
-          background: white;
-          border-radius: 8px;
-          overflow: hidden;
-          box-shadow: 0 2px 4px rgba(0,0,0,0.1);
-        }
-        .header {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          padding: 30px;
-          text-align: center;
-        }
-        .header h1 {
-          margin: 0;
-          font-size: 24px;
-          font-weight: 600;
-        }
-        .content {
-          padding: 30px;
-        }
-        .update-badge {
-          display: inline-flex;
-          align-items: center;
-          background: #10b981;
-          color: white;
-          padding: 8px 16px;
-          border-radius: 20px;
-          font-size: 14px;
-          font-weight: 500;
-          margin-bottom: 20px;
-        }
-        .update-badge span {
-          margin-right: 8px;
-          font-size: 16px;
-        }
-        .message {
-          background: #f8f9fa;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid #10b981;
-          margin-bottom: 20px;
-        }
-        .message h2 {
-          margin-top: 0;
-          color: #333;
-          font-size: 18px;
-        }
-        .summary {
-          background: white;
-          padding: 15px;
-          border-radius: 6px;
-          margin: 15px 0;
-          border: 1px solid #e5e7eb;
-        }
-        .summary-title {
-          font-weight: 600;
-          color: #667eea;
-          margin-bottom: 10px;
-        }
-        .summary-text {
-          color: #666;
-          line-height: 1.8;
-        }
-        .button {
-          display: inline-block;
-          background: #667eea;
-          color: white;
-          padding: 12px 24px;
-          text-decoration: none;
-          border-radius: 6px;
-          font-weight: 500;
-          margin: 20px 0;
-          text-align: center;
-        }
-        .button:hover {
-          background: #5568d3;
-        }
-        .footer {
-          text-align: center;
-          color: #666;
-          font-size: 12px;
-          margin-top: 30px;
-          padding-top: 20px;
-          border-top: 1px solid #e5e7eb;
-        }
-        .footer a {
-          color: #667eea;
-          text-decoration: none;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="email-container">
-        <div class="header">
-          <h1>🎬 Call Sheet Update</h1>
-        </div>
-        <div class="content">
-          <div class="update-badge">
-            <span>🔄</span>
-            UPDATE AVAILABLE
-          </div>
-          <div class="message">
-            <h2>Your call sheet has been updated</h2>
-            <p><strong>Project:</strong> ${projectName}${shootDay ? `<br><strong>Shoot Day:</strong> ${shootDay}` : ''}</p>
-          </div>
-          <div class="summary">
-            <div class="summary-title">📋 Update Summary</div>
-            <div class="summary-text">${updateSummary}</div>
-          </div>
-          <div style="text-align: center;">
-            <a href="${uniqueLink}" class="button">View Updated Call Sheet</a>
-          </div>
-          <div class="footer">
-            <p>This email was sent from Call Sheet Pro</p>
-            <p>
-              <a href="${uniqueLink}">View Call Sheet</a>
-            </p>
-          </div>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  return renderDefaultCallSheetUpdateEmail(params).html;
 }
 
 /**
  * Generate plain text email for call sheet updates
  */
 export function generateCallSheetUpdateEmailText(params: CallSheetUpdateEmailParams): string {
-  const { projectName, shootDay, updateSummary, uniqueLink } = params;
-
-  return `
-Call Sheet Update
-
-Your call sheet has been updated.
-
-Project: ${projectName}
-${shootDay ? `Shoot Day: ${shootDay}\n` : ''}
-
-Update Summary:
-${updateSummary}
-
-View the updated call sheet: ${uniqueLink}
-
-This email was sent from Call Sheet Pro
-  `.trim();
+  return renderDefaultCallSheetUpdateEmail(params).text;
 }
-
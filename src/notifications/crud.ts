@@ -8,6 +8,10 @@
 import { onRequest } from 'firebase-functions/v2/https';
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationPriority } from './notificationPreferences';
+import { dispatchNotification } from './notificationDispatcher';
+
+const NOTIFICATION_PRIORITIES: NotificationPriority[] = ['low', 'medium', 'high', 'urgent'];
 
 const db = getFirestore();
 const auth = getAuth();
@@ -205,7 +209,6 @@ export const createNotification = onRequest({ memory: '512MiB' }, async (request
       return;
     }
 
-    // Use Firestore Timestamp for proper Firestore compatibility
     const now = Timestamp.now();
     const nowISO = now.toDate().toISOString();
 
@@ -215,27 +218,35 @@ export const createNotification = onRequest({ memory: '512MiB' }, async (request
       organizationId,
       read: false,
       timestamp: nowISO, // ISO string for client compatibility
-      createdAt: nowISO, // Will be converted to Timestamp by Firestore
-      updatedAt: nowISO, // Will be converted to Timestamp by Firestore
+      createdAt: nowISO,
+      updatedAt: nowISO,
       // Ensure sourceApp is set (default to 'hub' if not provided)
       sourceApp: notificationData.sourceApp || 'hub'
     };
 
-    // Convert to Firestore document format with Timestamps
-    const firestoreNotification = {
-      ...notification,
-      createdAt: now, // Firestore Timestamp
-      updatedAt: now  // Firestore Timestamp
-    };
-
-    const docRef = await db.collection('notifications').add(firestoreNotification);
+    // Goes through the dispatcher so the user's category, channel, quiet-hour and digest preferences apply
+    const priority = NOTIFICATION_PRIORITIES.includes(notificationData.priority as NotificationPriority)
+      ? notificationData.priority as NotificationPriority
+      : undefined;
+    const dispatch = await dispatchNotification({
+      organizationId,
+      category: notificationData.category,
+      title: notificationData.title,
+      message: notificationData.message,
+      recipientIds: [uid],
+      priority,
+      data: notificationData.metadata || {},
+      projectId: notificationData.projectId,
+      sourceApp: notification.sourceApp
+    });
 
-    // Convert Timestamps back to ISO strings for response
+    // The in-app record is missing when the user has turned this category off
+    const inApp = dispatch.deliveries.find(delivery => delivery.channel === 'inApp' && delivery.status === 'sent');
     const responseData = {
-      id: docRef.id,
+      id: inApp?.externalId || null,
       ...notification,
-      createdAt: nowISO,
-      updatedAt: nowISO
+      dispatchId: dispatch.dispatchId,
+      deliveries: dispatch.deliveries
     };
 
     response.json({
@@ -530,22 +541,7 @@ export const getNotificationSettings = onRequest(
 
     if (snapshot.empty) {
       // Return default settings
-      const defaultSettings = {
-        enabled: true,
-        soundEnabled: true,
-        desktopEnabled: true,
-        categories: {
-          chat: { enabled: true, priority: 'medium' },
-          session: { enabled: true, priority: 'medium' },
-          workflow: { enabled: true, priority: 'medium' },
-          message: { enabled: true, priority: 'medium' },
-          system: { enabled: true, priority: 'low' },
-          inventory: { enabled: true, priority: 'low' },
-          schedule: { enabled: true, priority: 'medium' },
-          timecard: { enabled: true, priority: 'medium' },
-          timecard_approval: { enabled: true, priority: 'high' }
-        }
-      };
+      const defaultSettings = DEFAULT_NOTIFICATION_SETTINGS;
 
       response.json({
         success: true,
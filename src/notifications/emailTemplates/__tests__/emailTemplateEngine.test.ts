@@ -0,0 +1,80 @@
+/**
+ * Email Template Engine Tests
+ *
+ * Tests for template rendering, variable validation, locale selection and layouts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMAIL_BRANDING,
+  renderEmail,
+  renderTemplateString,
+  resolveLocale,
+  validateTemplateDefinition,
+  validateTemplateVariables
+} from '../emailTemplateEngine';
+import { DEFAULT_EMAIL_LAYOUT, DEFAULT_EMAIL_TEMPLATES, getDefaultEmailTemplate } from '../defaultEmailTemplates';
+
+describe('emailTemplateEngine', () => {
+  it('escapes values, renders sections and loops', () => {
+    const source = '<p>{{name}}</p>{{#if items}}<ul>{{#each items}}<li>{{label}}</li>{{/each}}</ul>{{/if}}{{#unless note}}none{{/unless}}';
+    const html = renderTemplateString(source, { name: '<b>Sam</b>', items: [{ label: 'A' }, { label: 'B&C' }] });
+
+    expect(html).toBe('<p>&lt;b&gt;Sam&lt;/b&gt;</p><ul><li>A</li><li>B&amp;C</li></ul>none');
+    expect(renderTemplateString('{{name}}', { name: '<b>' }, 'text')).toBe('<b>');
+  });
+
+  it('rejects templates that use undeclared or reserved variables', () => {
+    const errors = validateTemplateDefinition({
+      key: 'welcome',
+      subject: 'Hi {{firstName}}',
+      html: '<p>{{brand.productName}} {{content}}</p>',
+      variables: [{ name: 'content' }]
+    });
+
+    expect(errors).toContain('variable "content" is reserved');
+    expect(errors).toContain('variable "firstName" is used but not declared');
+    expect(errors).not.toContain('variable "brand" is used but not declared');
+  });
+
+  it('validates values against variable types', () => {
+    const errors = validateTemplateVariables(
+      [
+        { name: 'title', required: true },
+        { name: 'link', type: 'url' },
+        { name: 'count', type: 'number' }
+      ],
+      { link: 'javascript:alert(1)', count: '3' }
+    );
+
+    expect(errors).toEqual(['title is required', 'link must be a URL', 'count must be a number']);
+  });
+
+  it('picks the closest available locale', () => {
+    expect(resolveLocale('fr-CA', ['en', 'fr'])).toBe('fr');
+    expect(resolveLocale('es_MX', ['en', 'es-MX'])).toBe('es-MX');
+    expect(resolveLocale('de', ['en', 'fr'])).toBe('en');
+    expect(resolveLocale(null, ['fr'])).toBe('fr');
+  });
+
+  it('wraps the template in the branded layout with a text fallback', () => {
+    const rendered = renderEmail(
+      getDefaultEmailTemplate('notification')!,
+      DEFAULT_EMAIL_LAYOUT,
+      { ...DEFAULT_EMAIL_BRANDING, productName: 'Clip Show Pro' },
+      { title: 'Sync complete', message: 'Line one\nLine two', actionUrl: 'https://example.com/sync' }
+    );
+
+    expect(rendered.subject).toBe('[Clip Show Pro] Sync complete');
+    expect(rendered.html).toContain('Line one<br>Line two');
+    expect(rendered.html).toContain('<title>[Clip Show Pro] Sync complete</title>');
+    expect(rendered.text).toBe('Sync complete\n\nLine one\nLine two\n\nView details: https://example.com/sync');
+    expect(() => renderEmail(getDefaultEmailTemplate('notification')!, null, DEFAULT_EMAIL_BRANDING, {})).toThrow('title is required');
+  });
+
+  it('ships built-in templates that pass validation', () => {
+    DEFAULT_EMAIL_TEMPLATES.forEach(template => {
+      expect(validateTemplateDefinition(template)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Default Email Templates
+ *
+ * Built-in templates (version 0) used when an organization has not saved its own
+ * version of a template key. Organizations override them through saveEmailTemplate.
+ */
+
+import { EmailLayoutDefinition, EmailTemplateDefinition } from './emailTemplateEngine';
+
+export const DEFAULT_LAYOUT_KEY = 'default';
+
+export const DEFAULT_EMAIL_LAYOUT: EmailLayoutDefinition = {
+  key: DEFAULT_LAYOUT_KEY,
+  html: `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{subject}}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5; }
+    .container { background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+    .header { background: linear-gradient(135deg, {{brand.primaryColor}} 0%, {{brand.accentColor}} 100%); color: white; padding: 30px; text-align: center; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .header img { max-height: 48px; margin-bottom: 12px; }
+    .content { padding: 30px; }
+    .message { background: #f8f9fa; padding: 20px; border-radius: 8px; border-left: 4px solid {{brand.primaryColor}}; margin: 20px 0; }
+    .details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #e5e7eb; }
+    .button { display: inline-block; background: {{brand.primaryColor}}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; }
+    .footer { text-align: center; color: #666; font-size: 12px; padding: 20px; border-top: 1px solid #e5e7eb; }
+    .footer a { color: {{brand.primaryColor}}; text-decoration: none; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      {{#if brand.logoUrl}}<img src="{{brand.logoUrl}}" alt="{{brand.productName}}"><br>{{/if}}
+      <h1>{{brand.headerTitle}}</h1>
+    </div>
+    <div class="content">
+      {{{content}}}
+    </div>
+    <div class="footer">
+      <p>{{brand.footerText}}</p>
+      <p><a href="{{brand.dashboardUrl}}">Visit Dashboard</a></p>
+    </div>
+  </div>
+</body>
+</html>`
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    key: 'notification',
+    locale: 'en',
+    version: 0,
+    layoutKey: DEFAULT_LAYOUT_KEY,
+    subject: '[{{brand.productName}}] {{title}}',
+    html: `<p><strong>{{typeLabel}}</strong></p>
+<div class="message">{{message}}</div>
+{{#if actionUrl}}<p style="text-align: center;"><a class="button" href="{{actionUrl}}">View Details</a></p>{{/if}}`,
+    text: `{{title}}
+
+{{message}}
+{{#if actionUrl}}
+View details: {{actionUrl}}{{/if}}`,
+    variables: [
+      { name: 'title', type: 'string', required: true, sample: 'Sync complete' },
+      { name: 'message', type: 'string', required: true, sample: 'All 12 records were synchronized.' },
+      { name: 'typeLabel', type: 'string', sample: 'SYNC COMPLETE' },
+      { name: 'actionUrl', type: 'url' }
+    ]
+  },
+  {
+    key: 'callsheet_update',
+    locale: 'en',
+    version: 0,
+    layoutKey: DEFAULT_LAYOUT_KEY,
+    subject: 'Call sheet updated: {{projectName}}',
+    html: `<h2>Your call sheet has been updated</h2>
+<div class="message">
+  <p><strong>Project:</strong> {{projectName}}{{#if shootDay}}<br><strong>Shoot Day:</strong> {{shootDay}}{{/if}}</p>
+</div>
+<div class="details">
+  <p><strong>📋 Update Summary</strong></p>
+  <p>{{updateSummary}}</p>
+</div>
+<p style="text-align: center;"><a class="button" href="{{uniqueLink}}">View Updated Call Sheet</a></p>`,
+    text: `Call Sheet Update
+
+Your call sheet has been updated.
+
+Project: {{projectName}}
+{{#if shootDay}}Shoot Day: {{shootDay}}
+{{/if}}
+Update Summary:
+{{updateSummary}}
+
+View the updated call sheet: {{uniqueLink}}`,
+    variables: [
+      { name: 'projectName', type: 'string', required: true, sample: 'Night Shoot' },
+      { name: 'shootDay', type: 'string', sample: 'Day 4 of 20' },
+      { name: 'updateSummary', type: 'string', required: true, sample: 'callTime 07:00 → 08:00; location changed' },
+      { name: 'uniqueLink', type: 'url', required: true, sample: 'https://example.com/c/abc123' }
+    ]
+  },
+  {
+    key: 'travel_notification',
+    locale: 'en',
+    version: 0,
+    layoutKey: DEFAULT_LAYOUT_KEY,
+    subject: '[{{brand.productName}} Travel] {{subject}}',
+    html: `<p><strong>{{typeLabel}}</strong></p>
+<div class="message">{{body}}</div>
+{{#if travel}}<div class="details">
+  <h3 style="margin-top: 0;">Travel Request Details</h3>
+  <p><strong>Title:</strong> {{travel.title}}</p>
+  <p><strong>Destination:</strong> {{travel.destination}}</p>
+  <p><strong>Purpose:</strong> {{travel.purpose}}</p>
+  <p><strong>Dates:</strong> {{travel.startDate}} - {{travel.endDate}}</p>
+  <p><strong>Estimated Cost:</strong> {{travel.estimatedCost}}</p>
+  {{#if travel.participants}}<p><strong>Participants:</strong> {{travel.participants}}</p>{{/if}}
+</div>{{/if}}
+{{#if rejectionReason}}<div class="message" style="border-left-color: #f44336;"><strong>Reason:</strong> {{rejectionReason}}</div>{{/if}}
+{{#if actionUrl}}<p style="text-align: center;"><a class="button" href="{{actionUrl}}">{{actionLabel}}</a></p>{{/if}}`,
+    text: `{{body}}
+{{#if rejectionReason}}
+Reason: {{rejectionReason}}{{/if}}{{#if actionUrl}}
+
+{{actionLabel}}: {{actionUrl}}{{/if}}`,
+    variables: [
+      { name: 'subject', type: 'string', required: true, sample: 'Travel approval needed' },
+      { name: 'body', type: 'string', required: true, sample: 'A travel request is waiting for your review.' },
+      { name: 'typeLabel', type: 'string', sample: 'APPROVAL REQUEST' },
+      {
+        name: 'travel',
+        type: 'object',
+        sample: { title: 'Location scout', destination: 'Vancouver', purpose: 'Scouting', startDate: '3/2/2026', endDate: '3/4/2026', estimatedCost: '$2,400', participants: 'Alex, Sam' }
+      },
+      { name: 'rejectionReason', type: 'string' },
+      { name: 'actionUrl', type: 'url' },
+      { name: 'actionLabel', type: 'string', sample: 'Review & Approve' }
+    ]
+  },
+  {
+    key: 'delivery_package',
+    locale: 'en',
+    version: 0,
+    layoutKey: DEFAULT_LAYOUT_KEY,
+    subject: '{{subject}}',
+    html: `<p>Hello,</p>
+<p>Your delivery package for <strong>{{sessionName}}</strong> is ready.</p>
+<div class="details">
+  <h2 style="margin-top: 0;">{{packageName}}</h2>
+  <p style="margin-bottom: 0;"><strong>Session:</strong> {{sessionName}}</p>
+</div>
+{{#if message}}<div class="message">{{message}}</div>{{/if}}
+{{#if packageUrl}}<p style="text-align: center;"><a class="button" href="{{packageUrl}}">Download Package</a></p>{{/if}}
+<p style="font-size: 14px; color: #666;">If you have any questions, please contact the production team.</p>`,
+    text: `Delivery Package Ready
+
+Your delivery package for {{sessionName}} is ready.
+
+Package: {{packageName}}
+Session: {{sessionName}}
+{{#if message}}
+{{message}}
+{{/if}}{{#if packageUrl}}
+Download: {{packageUrl}}{{/if}}`,
+    variables: [
+      { name: 'subject', type: 'string', required: true, sample: 'Your delivery package is ready' },
+      { name: 'sessionName', type: 'string', required: true, sample: 'Episode 102 Final Mix' },
+      { name: 'packageName', type: 'string', required: true, sample: 'Broadcast Deliverables' },
+      { name: 'message', type: 'string' },
+      { name: 'packageUrl', type: 'url' }
+    ]
+  },
+  {
+    key: 'license_email',
+    locale: 'en',
+    version: 0,
+    layoutKey: DEFAULT_LAYOUT_KEY,
+    subject: '[{{brand.productName}}] {{subject}}',
+    html: `<p>{{#if recipientName}}Hello {{recipientName}},{{/if}}{{#unless recipientName}}Hello,{{/unless}}</p>
+{{#if message}}<div class="message">{{message}}</div>{{/if}}
+<p>Please find the attached document for your review.</p>`,
+    text: `{{#if recipientName}}Hello {{recipientName}},{{/if}}{{#unless recipientName}}Hello,{{/unless}}
+
+{{#if message}}{{message}}
+
+{{/if}}Please find the attached document for your review.`,
+    variables: [
+      { name: 'subject', type: 'string', required: true, sample: 'License agreement for review' },
+      { name: 'recipientName', type: 'string', sample: 'Jordan' },
+      { name: 'message', type: 'string', sample: 'Attached is the agreement we discussed.' }
+    ]
+  }
+];
+
+export function getDefaultEmailTemplate(key: string): EmailTemplateDefinition | null {
+  return DEFAULT_EMAIL_TEMPLATES.find(template => template.key === key) || null;
+}
@@ -0,0 +1,323 @@
+/**
+ * Email Template Engine
+ *
+ * Pure rendering for outgoing mail. A template supplies a subject, an HTML body and an
+ * optional plain-text body; a layout wraps the HTML body with shared header/footer and
+ * organization branding.
+ *
+ * Syntax:
+ *   {{name}}             HTML-escaped value (dot paths allowed: {{travel.destination}})
+ *   {{{name}}}           raw value (trusted HTML)
+ *   {{#if name}}…{{/if}} section rendered only when the value is truthy / non-empty
+ *   {{#unless name}}…{{/unless}}  section rendered only when it is not
+ *   {{#each items}}…{{/each}}  repeated per item; {{this}} or {{field}} inside
+ *
+ * `brand.*` and `locale` are always available to templates and layouts.
+ */
+
+export type EmailTemplateVariableType = 'string' | 'number' | 'url' | 'list' | 'object';
+
+export interface EmailTemplateVariable {
+  name: string;
+  type?: EmailTemplateVariableType;
+  required?: boolean;
+  description?: string;
+  sample?: any;
+}
+
+export interface EmailTemplateDefinition {
+  key: string;
+  locale: string;
+  subject: string;
+  html: string;
+  text?: string | null;
+  variables: EmailTemplateVariable[];
+  layoutKey?: string | null;
+  version?: number;
+}
+
+export interface EmailLayoutDefinition {
+  key: string;
+  html: string;
+}
+
+export interface EmailBranding {
+  productName: string;
+  headerTitle: string;
+  primaryColor: string;
+  accentColor: string;
+  logoUrl: string | null;
+  footerText: string;
+  dashboardUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  templateKey: string;
+  templateVersion: number;
+  locale: string;
+}
+
+export const DEFAULT_EMAIL_LOCALE = 'en';
+
+export const DEFAULT_EMAIL_BRANDING: EmailBranding = {
+  productName: 'Backbone',
+  headerTitle: '🎬 Backbone',
+  primaryColor: '#667eea',
+  accentColor: '#764ba2',
+  logoUrl: null,
+  footerText: 'This email was sent from Backbone',
+  dashboardUrl: 'https://backbone-client.web.app'
+};
+
+const RESERVED_VARIABLES = ['brand', 'locale', 'content', 'this'];
+const URL_PATTERN = /^(https?:\/\/|mailto:|\/)/i;
+
+export function escapeHtml(value: any): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function lookup(context: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value: any, part) => (value === undefined || value === null ? undefined : value[part]), context);
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Render a template string against a context.
+ * In 'html' mode {{name}} values are escaped and newlines become <br>; in 'text' mode values are inserted as-is.
+ */
+export function renderTemplateString(source: string, context: Record<string, any>, mode: 'html' | 'text' = 'html'): string {
+  let output = source.replace(/{{#each\s+([\w.]+)}}([\s\S]*?){{\/each}}/g, (_match, path, body) => {
+    const items = lookup(context, path);
+    if (!Array.isArray(items)) return '';
+    return items.map(item => renderTemplateString(
+      body,
+      { ...context, ...(item && typeof item === 'object' ? item : {}), this: item },
+      mode
+    )).join('');
+  });
+
+  // Innermost sections first so nested {{#if}} blocks resolve correctly
+  const ifPattern = /{{#if\s+([\w.]+)}}((?:(?!{{#if)[\s\S])*?){{\/if}}/;
+  while (ifPattern.test(output)) {
+    output = output.replace(ifPattern, (_match, path, body) => (isTruthy(lookup(context, path)) ? body : ''));
+  }
+  output = output.replace(/{{#unless\s+([\w.]+)}}([\s\S]*?){{\/unless}}/g, (_match, path, body) => (isTruthy(lookup(context, path)) ? '' : body));
+
+  output = output.replace(/{{{\s*([\w.]+)\s*}}}/g, (_match, path) => formatValue(lookup(context, path)));
+  return output.replace(/{{\s*([\w.]+)\s*}}/g, (_match, path) => {
+    const value = formatValue(lookup(context, path));
+    return mode === 'html' ? escapeHtml(value).replace(/\n/g, '<br>') : value;
+  });
+}
+
+/**
+ * Top-level variable names referenced by a template string (excluding reserved and loop-local names)
+ */
+export function findTemplateVariables(source: string): string[] {
+  const names = new Set<string>();
+
+  // Loop bodies refer to item fields, so only the list itself counts
+  const withoutLoops = source.replace(/{{#each\s+([\w.]+)}}[\s\S]*?{{\/each}}/g, (_match, path) => {
+    names.add(path.split('.')[0]);
+    return '';
+  });
+
+  const pattern = /{{{?\s*(?:#if\s+|#unless\s+)?([\w.]+)\s*}?}}/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(withoutLoops)) !== null) {
+    names.add(match[1].split('.')[0]);
+  }
+
+  RESERVED_VARIABLES.forEach(name => names.delete(name));
+  return Array.from(names);
+}
+
+/**
+ * Validate the variable declarations of a template being saved.
+ * Every variable the subject/html/text reference must be declared.
+ */
+export function validateTemplateDefinition(template: Partial<EmailTemplateDefinition>): string[] {
+  const errors: string[] = [];
+  if (!template.key || !/^[a-z0-9_]+$/.test(template.key)) errors.push('key must be lowercase letters, digits or underscores');
+  if (!template.subject) errors.push('subject is required');
+  if (!template.html) errors.push('html is required');
+  if (!Array.isArray(template.variables)) {
+    errors.push('variables must be an array');
+    return errors;
+  }
+
+  const declared = new Set<string>();
+  template.variables.forEach((variable, index) => {
+    if (!variable?.name || !/^[A-Za-z_]\w*$/.test(variable.name)) {
+      errors.push(`variables[${index}] needs a valid name`);
+      return;
+    }
+    if (RESERVED_VARIABLES.includes(variable.name)) {
+      errors.push(`variable "${variable.name}" is reserved`);
+    }
+    if (variable.type && !['string', 'number', 'url', 'list', 'object'].includes(variable.type)) {
+      errors.push(`variable "${variable.name}" has an unknown type "${variable.type}"`);
+    }
+    declared.add(variable.name);
+  });
+
+  const referenced = findTemplateVariables([template.subject, template.html, template.text].filter(Boolean).join('\n'));
+  referenced
+    .filter(name => !declared.has(name))
+    .forEach(name => errors.push(`variable "${name}" is used but not declared`));
+
+  return errors;
+}
+
+/**
+ * Check values supplied at send time against the template's declarations
+ */
+export function validateTemplateVariables(variables: EmailTemplateVariable[], values: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  variables.forEach(variable => {
+    const value = values?.[variable.name];
+    const missing = value === undefined || value === null || value === '';
+    if (missing) {
+      if (variable.required) errors.push(`${variable.name} is required`);
+      return;
+    }
+
+    switch (variable.type) {
+      case 'number':
+        if (typeof value !== 'number' || isNaN(value)) errors.push(`${variable.name} must be a number`);
+        break;
+      case 'url':
+        if (typeof value !== 'string' || !URL_PATTERN.test(value)) errors.push(`${variable.name} must be a URL`);
+        break;
+      case 'list':
+        if (!Array.isArray(value)) errors.push(`${variable.name} must be a list`);
+        break;
+      case 'object':
+        if (typeof value !== 'object' || Array.isArray(value)) errors.push(`${variable.name} must be an object`);
+        break;
+      case 'string':
+      case undefined:
+        if (typeof value === 'object') errors.push(`${variable.name} must be text`);
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Sample values for previews: declared samples, falling back to a placeholder per type
+ */
+export function buildSampleVariables(variables: EmailTemplateVariable[]): Record<string, any> {
+  const samples: Record<string, any> = {};
+  variables.forEach(variable => {
+    if (variable.sample !== undefined) {
+      samples[variable.name] = variable.sample;
+      return;
+    }
+    switch (variable.type) {
+      case 'number': samples[variable.name] = 42; break;
+      case 'url': samples[variable.name] = 'https://example.com'; break;
+      case 'list': samples[variable.name] = [`${variable.name} 1`, `${variable.name} 2`]; break;
+      case 'object': samples[variable.name] = {}; break;
+      default: samples[variable.name] = `[${variable.name}]`;
+    }
+  });
+  return samples;
+}
+
+/**
+ * Best locale among those available: exact match, then language match, then the default
+ */
+export function resolveLocale(requested: string | null | undefined, available: string[], fallback = DEFAULT_EMAIL_LOCALE): string {
+  const normalized = (requested || '').replace('_', '-').toLowerCase();
+  const candidates = available.map(locale => ({ locale, normalized: locale.replace('_', '-').toLowerCase() }));
+
+  const exact = candidates.find(candidate => candidate.normalized === normalized);
+  if (exact) return exact.locale;
+
+  const language = normalized.split('-')[0];
+  const sameLanguage = candidates.find(candidate => candidate.normalized.split('-')[0] === language);
+  if (language && sameLanguage) return sameLanguage.locale;
+
+  return available.includes(fallback) ? fallback : (available[0] || fallback);
+}
+
+/**
+ * Plain-text fallback derived from rendered HTML
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<title[\s\S]*?<\/title>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<a\s[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render a template inside its layout.
+ * Throws when supplied values don't satisfy the template's variable declarations.
+ */
+export function renderEmail(
+  template: EmailTemplateDefinition,
+  layout: EmailLayoutDefinition | null,
+  branding: EmailBranding,
+  values: Record<string, any>
+): RenderedEmail {
+  const errors = validateTemplateVariables(template.variables, values);
+  if (errors.length > 0) {
+    throw new Error(`Invalid email variables for ${template.key}: ${errors.join('; ')}`);
+  }
+
+  const context = { ...values, brand: branding, locale: template.locale };
+  const subject = renderTemplateString(template.subject, context, 'text').replace(/\s+/g, ' ').trim();
+  const body = renderTemplateString(template.html, context, 'html');
+  const html = layout
+    ? renderTemplateString(layout.html, { ...context, content: body, subject }, 'html')
+    : body;
+  const text = template.text
+    ? renderTemplateString(template.text, context, 'text').trim()
+    : htmlToText(body);
+
+  return {
+    subject,
+    html,
+    text,
+    templateKey: template.key,
+    templateVersion: template.version || 0,
+    locale: template.locale
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Email Template Service
+ *
+ * Loads templates, layouts and branding for an organization and renders outgoing mail.
+ *
+ * - `emailTemplates`: versioned templates per organization, key and locale. The highest
+ *   active version wins; built-in defaults (defaultEmailTemplates.ts) apply otherwise.
+ * - `emailLayouts`: organization overrides of shared layouts, doc id `${organizationId}_${key}`.
+ * - `organizations/{orgId}/emailSettings/branding`: product name, colors, logo and footer.
+ *
+ * The recipient's locale comes from their settings (`settings/{userId}`), then their user
+ * document, then the organization default.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  DEFAULT_EMAIL_BRANDING,
+  DEFAULT_EMAIL_LOCALE,
+  EmailBranding,
+  EmailLayoutDefinition,
+  EmailTemplateDefinition,
+  RenderedEmail,
+  renderEmail,
+  resolveLocale
+} from './emailTemplateEngine';
+import { DEFAULT_EMAIL_LAYOUT, DEFAULT_LAYOUT_KEY, getDefaultEmailTemplate } from './defaultEmailTemplates';
+
+const db = getFirestore();
+
+export interface RenderEmailOptions {
+  /** Explicit locale; otherwise resolved from the recipient */
+  locale?: string | null;
+  recipientUserId?: string | null;
+  recipientEmail?: string | null;
+  /** App-specific branding used when the organization hasn't configured its own */
+  brandDefaults?: Partial<EmailBranding>;
+}
+
+/**
+ * Organization branding layered over app defaults and the global defaults
+ */
+export async function loadEmailBranding(organizationId: string, brandDefaults: Partial<EmailBranding> = {}): Promise<EmailBranding> {
+  const brandingDoc = await db.collection('organizations').doc(organizationId)
+    .collection('emailSettings').doc('branding').get();
+  const stored = brandingDoc.exists ? brandingDoc.data() || {} : {};
+
+  const branding: EmailBranding = { ...DEFAULT_EMAIL_BRANDING, ...brandDefaults };
+  (Object.keys(DEFAULT_EMAIL_BRANDING) as (keyof EmailBranding)[]).forEach(field => {
+    if (stored[field] !== undefined && stored[field] !== null && stored[field] !== '') {
+      (branding as any)[field] = stored[field];
+    }
+  });
+  return branding;
+}
+
+export async function loadEmailLayout(organizationId: string, key: string | null | undefined): Promise<EmailLayoutDefinition | null> {
+  if (!key) return null;
+
+  const layoutDoc = await db.collection('emailLayouts').doc(`${organizationId}_${key}`).get();
+  if (layoutDoc.exists && layoutDoc.data()?.html) {
+    return { key, html: layoutDoc.data()!.html };
+  }
+  return key === DEFAULT_LAYOUT_KEY ? DEFAULT_EMAIL_LAYOUT : null;
+}
+
+/**
+ * Saved versions of a template for an organization, newest first
+ */
+export async function getEmailTemplateVersions(organizationId: string, key: string) {
+  const snapshot = await db.collection('emailTemplates')
+    .where('organizationId', '==', organizationId)
+    .where('key', '==', key)
+    .get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as EmailTemplateDefinition & { id: string; isActive?: boolean }))
+    .sort((a, b) => (b.version || 0) - (a.version || 0));
+}
+
+/**
+ * The template to use for a key and locale: the organization's latest active version
+ * in the best matching locale, else the built-in default
+ */
+export async function loadEmailTemplate(organizationId: string, key: string, locale: string): Promise<EmailTemplateDefinition> {
+  const versions = (await getEmailTemplateVersions(organizationId, key)).filter(version => version.isActive !== false);
+  const builtIn = getDefaultEmailTemplate(key);
+
+  const available = Array.from(new Set([
+    ...versions.map(version => version.locale),
+    ...(builtIn ? [builtIn.locale] : [])
+  ]));
+  if (available.length === 0) {
+    throw new Error(`Email template "${key}" not found`);
+  }
+
+  const chosenLocale = resolveLocale(locale, available);
+  const saved = versions.find(version => version.locale === chosenLocale);
+  if (saved) {
+    return saved;
+  }
+  return builtIn!;
+}
+
+/**
+ * Locale for a recipient: user settings, then user document, then organization default
+ */
+export async function resolveRecipientLocale(
+  organizationId: string,
+  recipient: { userId?: string | null; email?: string | null }
+): Promise<string> {
+  try {
+    let userId = recipient.userId || null;
+    let userData: any = null;
+
+    if (userId) {
+      userData = (await db.collection('users').doc(userId).get()).data() || null;
+    } else if (recipient.email) {
+      const userQuery = await db.collection('users').where('email', '==', recipient.email).limit(1).get();
+      if (!userQuery.empty) {
+        userId = userQuery.docs[0].id;
+        userData = userQuery.docs[0].data();
+      }
+    }
+
+    if (userId) {
+      const settings = (await db.collection('settings').doc(userId).get()).data();
+      const settingsLocale = settings?.locale || settings?.language || settings?.preferences?.locale;
+      if (settingsLocale) return settingsLocale;
+    }
+
+    const userLocale = userData?.preferences?.locale || userData?.locale || userData?.language;
+    if (userLocale) return userLocale;
+
+    const orgData = (await db.collection('organizations').doc(organizationId).get()).data();
+    return orgData?.settings?.locale || orgData?.locale || DEFAULT_EMAIL_LOCALE;
+  } catch (error) {
+    console.warn(`⚠️ [EMAIL TEMPLATES] Could not resolve locale for recipient in ${organizationId}:`, error);
+    return DEFAULT_EMAIL_LOCALE;
+  }
+}
+
+/**
+ * Render a template for an organization and recipient
+ */
+export async function renderOrganizationEmail(
+  organizationId: string,
+  key: string,
+  values: Record<string, any>,
+  options: RenderEmailOptions = {}
+): Promise<RenderedEmail> {
+  const locale = options.locale || await resolveRecipientLocale(organizationId, {
+    userId: options.recipientUserId,
+    email: options.recipientEmail
+  });
+
+  const template = await loadEmailTemplate(organizationId, key, locale);
+  const [layout, branding] = await Promise.all([
+    loadEmailLayout(organizationId, template.layoutKey),
+    loadEmailBranding(organizationId, options.brandDefaults)
+  ]);
+
+  return renderEmail(template, layout, branding, values);
+}
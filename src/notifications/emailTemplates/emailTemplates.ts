@@ -0,0 +1,279 @@
+/**
+ * Email Template Functions
+ *
+ * Admin callables to version organization email templates, edit layouts and branding,
+ * and preview a template (saved or draft) with sample data without a deploy.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../../shared/utils';
+import {
+  buildSampleVariables,
+  DEFAULT_EMAIL_BRANDING,
+  DEFAULT_EMAIL_LOCALE,
+  EmailTemplateDefinition,
+  renderEmail,
+  validateTemplateDefinition,
+  validateTemplateVariables
+} from './emailTemplateEngine';
+import { DEFAULT_EMAIL_TEMPLATES } from './defaultEmailTemplates';
+import {
+  getEmailTemplateVersions,
+  loadEmailBranding,
+  loadEmailLayout,
+  loadEmailTemplate
+} from './emailTemplateService';
+
+const db = getFirestore();
+
+async function assertOrganizationMember(auth: { uid: string; token: any } | undefined, organizationId: string, requireAdmin: boolean) {
+  if (!auth) {
+    throw new Error('User must be authenticated');
+  }
+  if (!organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  // Admin claims only count inside the caller's own organization
+  const hasAccess = await validateOrganizationAccess(auth.uid, organizationId);
+  if (!hasAccess) {
+    throw new Error('Access denied to organization');
+  }
+  const token = auth.token;
+  const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+  if (requireAdmin && !isAdmin) {
+    throw new Error('Only organization admins can manage email templates');
+  }
+}
+
+export const saveEmailTemplate = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, key, locale = DEFAULT_EMAIL_LOCALE, subject, html, text, variables, layoutKey = 'default', notes } = request.data;
+      await assertOrganizationMember(request.auth, organizationId, true);
+
+      const errors = validateTemplateDefinition({ key, subject, html, text, variables });
+      if (errors.length > 0) {
+        throw new Error(`Invalid email template: ${errors.join('; ')}`);
+      }
+      if (layoutKey && !(await loadEmailLayout(organizationId, layoutKey))) {
+        throw new Error(`Email layout "${layoutKey}" not found`);
+      }
+
+      const saved = await db.runTransaction(async (transaction) => {
+        const existing = await transaction.get(db.collection('emailTemplates')
+          .where('organizationId', '==', organizationId)
+          .where('key', '==', key)
+          .where('locale', '==', locale));
+        const version = existing.docs.reduce((max, doc) => Math.max(max, doc.data().version || 0), 0) + 1;
+
+        const templateRef = db.collection('emailTemplates').doc(`${organizationId}_${key}_${locale}_v${version}`);
+        transaction.set(templateRef, {
+          organizationId,
+          key,
+          locale,
+          version,
+          subject,
+          html,
+          text: text || null,
+          variables,
+          layoutKey: layoutKey || null,
+          notes: notes || null,
+          isActive: true,
+          createdBy: request.auth!.uid,
+          createdAt: Timestamp.now()
+        });
+        return { id: templateRef.id, version };
+      });
+
+      console.log(`✉️ [EMAIL TEMPLATES] Saved ${key} (${locale}) v${saved.version} for org ${organizationId}`);
+
+      return createSuccessResponse({ organizationId, key, locale, ...saved }, 'Email template saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE EMAIL TEMPLATE] Error:', error);
+      return handleError(error, 'saveEmailTemplate');
+    }
+  }
+);
+
+export const getEmailTemplates = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, key } = request.data;
+      await assertOrganizationMember(request.auth, organizationId, false);
+
+      if (key) {
+        const versions = await getEmailTemplateVersions(organizationId, key);
+        const builtIn = DEFAULT_EMAIL_TEMPLATES.find(template => template.key === key) || null;
+        return createSuccessResponse({ key, versions, builtIn }, 'Email template versions retrieved successfully');
+      }
+
+      const savedSnapshot = await db.collection('emailTemplates')
+        .where('organizationId', '==', organizationId)
+        .get();
+
+      // Latest version per key and locale
+      const latest = new Map<string, any>();
+      savedSnapshot.docs.forEach(doc => {
+        const data = doc.data();
+        const id = `${data.key}:${data.locale}`;
+        if (!latest.has(id) || (latest.get(id).version || 0) < (data.version || 0)) {
+          latest.set(id, { id: doc.id, ...data });
+        }
+      });
+
+      const keys = Array.from(new Set([
+        ...DEFAULT_EMAIL_TEMPLATES.map(template => template.key),
+        ...Array.from(latest.values()).map(template => template.key)
+      ])).sort();
+
+      const templates = keys.map(templateKey => ({
+        key: templateKey,
+        hasBuiltIn: DEFAULT_EMAIL_TEMPLATES.some(template => template.key === templateKey),
+        locales: Array.from(latest.values())
+          .filter(template => template.key === templateKey)
+          .map(template => ({ locale: template.locale, version: template.version, isActive: template.isActive !== false }))
+      }));
+
+      return createSuccessResponse({ templates, count: templates.length }, 'Email templates retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [GET EMAIL TEMPLATES] Error:', error);
+      return handleError(error, 'getEmailTemplates');
+    }
+  }
+);
+
+export const previewEmailTemplate = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, key, locale = DEFAULT_EMAIL_LOCALE, variables = {}, draft } = request.data;
+      await assertOrganizationMember(request.auth, organizationId, false);
+
+      let template: EmailTemplateDefinition;
+      if (draft) {
+        template = { key: key || draft.key, locale, version: 0, layoutKey: 'default', ...draft };
+        const errors = validateTemplateDefinition(template);
+        if (errors.length > 0) {
+          return createSuccessResponse({ valid: false, errors }, 'Draft template has errors');
+        }
+      } else {
+        if (!key) {
+          throw new Error('Template key is required');
+        }
+        template = await loadEmailTemplate(organizationId, key, locale);
+      }
+
+      const values = { ...buildSampleVariables(template.variables), ...variables };
+      const variableErrors = validateTemplateVariables(template.variables, values);
+      if (variableErrors.length > 0) {
+        return createSuccessResponse({ valid: false, errors: variableErrors }, 'Preview variables are invalid');
+      }
+
+      const [layout, branding] = await Promise.all([
+        loadEmailLayout(organizationId, template.layoutKey),
+        loadEmailBranding(organizationId)
+      ]);
+      const rendered = renderEmail(template, layout, branding, values);
+
+      return createSuccessResponse({ valid: true, errors: [], variables: values, ...rendered }, 'Email template preview rendered');
+
+    } catch (error: any) {
+      console.error('❌ [PREVIEW EMAIL TEMPLATE] Error:', error);
+      return handleError(error, 'previewEmailTemplate');
+    }
+  }
+);
+
+export const saveEmailLayout = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, key = 'default', html } = request.data;
+      await assertOrganizationMember(request.auth, organizationId, true);
+
+      if (!/^[a-z0-9_]+$/.test(key)) {
+        throw new Error('Layout key must be lowercase letters, digits or underscores');
+      }
+      if (typeof html !== 'string' || !html.includes('{{{content}}}')) {
+        throw new Error('Layout html must include {{{content}}} where the template body goes');
+      }
+
+      await db.collection('emailLayouts').doc(`${organizationId}_${key}`).set({
+        organizationId,
+        key,
+        html,
+        updatedBy: request.auth!.uid,
+        updatedAt: Timestamp.now()
+      });
+
+      return createSuccessResponse({ organizationId, key }, 'Email layout saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE EMAIL LAYOUT] Error:', error);
+      return handleError(error, 'saveEmailLayout');
+    }
+  }
+);
+
+export const saveEmailBranding = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { organizationId, branding } = request.data;
+      await assertOrganizationMember(request.auth, organizationId, true);
+
+      if (!branding || typeof branding !== 'object') {
+        throw new Error('branding is required');
+      }
+
+      // Only known branding fields are stored
+      const update: Record<string, any> = {};
+      Object.keys(DEFAULT_EMAIL_BRANDING).forEach(field => {
+        if (branding[field] !== undefined) {
+          update[field] = branding[field] === null ? null : String(branding[field]);
+        }
+      });
+      ['primaryColor', 'accentColor'].forEach(field => {
+        if (update[field] && !/^#[0-9a-fA-F]{3,8}$/.test(update[field])) {
+          throw new Error(`${field} must be a hex color`);
+        }
+      });
+
+      await db.collection('organizations').doc(organizationId)
+        .collection('emailSettings').doc('branding')
+        .set({ ...update, updatedBy: request.auth!.uid, updatedAt: Timestamp.now() }, { merge: true });
+
+      return createSuccessResponse({ organizationId, branding: await loadEmailBranding(organizationId) }, 'Email branding saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SAVE EMAIL BRANDING] Error:', error);
+      return handleError(error, 'saveEmailBranding');
+    }
+  }
+);
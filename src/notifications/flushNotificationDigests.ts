@@ -0,0 +1,29 @@
+/**
+ * Flush Notification Digests
+ *
+ * Scheduled function that delivers queued digest and quiet-hours notifications
+ * once their `deliverAfter` time has passed.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { flushDueDigests } from './notificationDispatcher';
+import { encryptionKey, encryptionKeyPrevious } from '../slack/secrets';
+
+export const flushNotificationDigests = onSchedule(
+  {
+    schedule: 'every 15 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    cpu: 0.5,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async () => {
+    try {
+      const result = await flushDueDigests();
+      console.log(`📬 [NOTIFICATION DIGEST] Delivered ${result.items} queued notification(s) in ${result.groups} digest(s)`);
+    } catch (error) {
+      console.error('❌ [NOTIFICATION DIGEST] Error flushing digests:', error);
+    }
+  }
+);
@@ -0,0 +1,74 @@
+/**
+ * Get Notification Deliveries Function
+ *
+ * Per-channel delivery status recorded by the notification dispatcher.
+ * Users see their own deliveries; organization admins can look up any user or dispatch.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { createSuccessResponse, handleError, validateOrganizationAccess } from '../shared/utils';
+
+const db = getFirestore();
+
+export const getNotificationDeliveries = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      if (!request.auth) {
+        throw new Error('Authentication required');
+      }
+
+      const { organizationId, dispatchId, userId, limit = 100 } = request.data;
+      if (!organizationId) {
+        throw new Error('Organization ID is required');
+      }
+
+      const hasAccess = await validateOrganizationAccess(request.auth.uid, organizationId);
+      if (!hasAccess) {
+        throw new Error('Access denied to organization');
+      }
+
+      const token = request.auth.token;
+      const isAdmin = token.role === 'ADMIN' || token.role === 'OWNER' || token.isAdmin === true;
+      const targetUserId = isAdmin ? userId : request.auth.uid;
+      if (!isAdmin && userId && userId !== request.auth.uid) {
+        throw new Error('Only admins can view other users\' notification deliveries');
+      }
+
+      let query: FirebaseFirestore.Query = db.collection('notificationDeliveries')
+        .where('organizationId', '==', organizationId);
+      if (dispatchId) {
+        query = query.where('dispatchId', '==', dispatchId);
+      }
+      if (targetUserId) {
+        query = query.where('userId', '==', targetUserId);
+      }
+
+      const snapshot = await query
+        .orderBy('createdAt', 'desc')
+        .limit(Math.min(Number(limit) || 100, 500))
+        .get();
+
+      const deliveries = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+      const statusCounts: Record<string, number> = {};
+      deliveries.forEach((delivery: any) => {
+        statusCounts[delivery.status] = (statusCounts[delivery.status] || 0) + 1;
+      });
+
+      return createSuccessResponse({
+        deliveries,
+        count: deliveries.length,
+        statusCounts
+      }, 'Notification deliveries retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [NOTIFICATION DELIVERIES] Error:', error);
+      return handleError(error, 'getNotificationDeliveries');
+    }
+  }
+);
@@ -0,0 +1,453 @@
+/**
+ * Notification Dispatcher
+ *
+ * Single entry point for sending a notification event to users across channels
+ * (in-app, email, push, Slack). For each recipient it reads `notificationSettings`,
+ * applies per-category and per-channel preferences, quiet hours and digests
+ * (see notificationPreferences.ts), and records the outcome of every channel in
+ * `notificationDeliveries`. Deferred and digest items wait in `notificationDigestQueue`
+ * until flushNotificationDigests delivers them.
+ *
+ * Slack delivery needs the integration encryption secret; functions that dispatch
+ * without it record Slack deliveries as failed rather than blocking other channels.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getMessaging } from 'firebase-admin/messaging';
+import {
+  buildDigestMessage,
+  ChannelDecision,
+  NotificationChannel,
+  NotificationPriority,
+  resolveChannelPlan
+} from './notificationPreferences';
+import { sendOrganizationEmail } from './sendEmail';
+import { getSlackClient } from '../slack/api';
+import { buildActionBlocks, SlackButtonAction } from '../slack/slashCommands';
+
+const db = getFirestore();
+
+/** Firestore's limits on writes per batch and values per `in` filter */
+const MAX_BATCH_WRITES = 500;
+const MAX_IN_VALUES = 10;
+
+export type DeliveryStatus = 'sent' | 'queued' | 'suppressed' | 'skipped' | 'failed';
+
+export interface NotificationEvent {
+  organizationId: string;
+  category: string;
+  /** In-app notification `type` read by older clients (defaults to the category) */
+  type?: string;
+  title: string;
+  message: string;
+  recipientIds?: string[];
+  /** Team member roles whose active members also receive the event */
+  recipientRoles?: string[];
+  priority?: NotificationPriority;
+  /** Restrict the event to these channels (defaults to all) */
+  channels?: NotificationChannel[];
+  /** Event payload; `slackActions` (see slack/slashCommands) adds buttons to the Slack message */
+  data?: Record<string, any>;
+  projectId?: string;
+  sourceApp?: string;
+}
+
+export interface DeliveryOutcome {
+  userId: string;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason: string | null;
+  /** Channel-side identifier, e.g. the in-app notification document ID */
+  externalId: string | null;
+}
+
+export interface DispatchResult {
+  dispatchId: string;
+  recipientCount: number;
+  deliveries: DeliveryOutcome[];
+}
+
+interface ChannelPayload {
+  organizationId: string;
+  userId: string;
+  category: string;
+  type?: string;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  projectId?: string;
+  sourceApp?: string;
+  priority?: NotificationPriority;
+}
+
+/**
+ * Thrown by a channel when the recipient can't be reached on it (no email, no tokens...)
+ */
+class ChannelSkippedError extends Error {}
+
+/**
+ * Event recipients: explicit IDs plus active team members holding any of the roles
+ */
+async function resolveRecipients(event: NotificationEvent): Promise<string[]> {
+  const recipients = new Set<string>((event.recipientIds || []).filter(Boolean));
+
+  const roles = event.recipientRoles || [];
+  for (let i = 0; i < roles.length; i += MAX_IN_VALUES) {
+    const roleQuery = await db.collection('teamMembers')
+      .where('organizationId', '==', event.organizationId)
+      .where('role', 'in', roles.slice(i, i + MAX_IN_VALUES))
+      .where('isActive', '==', true)
+      .get();
+
+    roleQuery.docs.forEach(doc => {
+      const data = doc.data();
+      recipients.add(data.userId || doc.id);
+    });
+  }
+
+  return Array.from(recipients);
+}
+
+/**
+ * A user's notification settings for an organization, or null for defaults
+ */
+export async function getUserNotificationSettings(userId: string, organizationId: string): Promise<any | null> {
+  const snapshot = await db.collection('notificationSettings')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? null : snapshot.docs[0].data();
+}
+
+async function deliverInApp(payload: ChannelPayload, settings: any): Promise<string> {
+  const now = Timestamp.now();
+  const docRef = await db.collection('notifications').add({
+    userId: payload.userId,
+    organizationId: payload.organizationId,
+    // `category` is read by the notification CRUD API, `type` by older sendNotification readers
+    category: payload.category,
+    type: payload.type || payload.category,
+    priority: payload.priority || settings?.categories?.[payload.category]?.priority || 'medium',
+    title: payload.title,
+    message: payload.message,
+    data: payload.data,
+    metadata: payload.data,
+    projectId: payload.projectId || null,
+    sourceApp: payload.sourceApp || 'hub',
+    read: false,
+    timestamp: now.toDate().toISOString(),
+    createdAt: now,
+    updatedAt: now
+  });
+  return docRef.id;
+}
+
+async function deliverEmail(payload: ChannelPayload): Promise<string> {
+  const userDoc = await db.collection('users').doc(payload.userId).get();
+  const email = userDoc.data()?.email;
+  if (!email) {
+    throw new ChannelSkippedError('no_email_address');
+  }
+
+  const result = await sendOrganizationEmail(payload.organizationId, {
+    to: email,
+    subject: payload.title,
+    body: payload.message,
+    type: payload.category
+  });
+  return result.messageId;
+}
+
+async function deliverPush(payload: ChannelPayload): Promise<string> {
+  const tokensSnapshot = await db.collection('users').doc(payload.userId)
+    .collection('fcmTokens')
+    .where('isActive', '==', true)
+    .get();
+
+  const tokens = tokensSnapshot.docs.map(doc => doc.data().token || doc.id);
+  if (tokens.length === 0) {
+    throw new ChannelSkippedError('no_push_tokens');
+  }
+
+  // FCM data values must be strings
+  const data: Record<string, string> = { category: payload.category };
+  Object.entries(payload.data).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      data[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  });
+
+  const response = await getMessaging().sendEachForMulticast({
+    tokens,
+    notification: { title: payload.title, body: payload.message },
+    data
+  });
+
+  // Retire tokens FCM no longer recognizes
+  const staleTokens = response.responses
+    .map((result, index) => ({ result, token: tokens[index] }))
+    .filter(({ result }) => result.error?.code === 'messaging/registration-token-not-registered');
+  await Promise.all(staleTokens.map(({ token }) =>
+    db.collection('users').doc(payload.userId).collection('fcmTokens').doc(token).set({ isActive: false }, { merge: true })
+  ));
+
+  if (response.successCount === 0) {
+    throw new Error(response.responses[0]?.error?.message || 'Push delivery failed for all tokens');
+  }
+  return `${response.successCount}/${tokens.length}`;
+}
+
+async function deliverSlack(payload: ChannelPayload, settings: any): Promise<string> {
+  let slackUserId = settings?.slackUserId;
+  if (!slackUserId) {
+    const userDoc = await db.collection('users').doc(payload.userId).get();
+    slackUserId = userDoc.data()?.slackUserId;
+  }
+  if (!slackUserId) {
+    throw new ChannelSkippedError('no_slack_user');
+  }
+
+  const connectionQuery = await db.collection('organizations').doc(payload.organizationId)
+    .collection('slackConnections')
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+  if (connectionQuery.empty) {
+    throw new ChannelSkippedError('no_slack_connection');
+  }
+
+  const client = await getSlackClient(connectionQuery.docs[0].id, payload.organizationId);
+  const conversation = await client.conversations.open({ users: slackUserId });
+  if (!conversation.ok || !conversation.channel?.id) {
+    throw new Error(`Slack API error: ${conversation.error || 'Failed to open DM'}`);
+  }
+
+  const text = `*${payload.title}*\n${payload.message}`;
+  const actions: SlackButtonAction[] | null = Array.isArray(payload.data?.slackActions) ? payload.data.slackActions : null;
+  const result = await client.chat.postMessage({
+    channel: conversation.channel.id,
+    text,
+    ...(actions?.length ? { blocks: buildActionBlocks(text, actions) } : {})
+  });
+  if (!result.ok) {
+    throw new Error(`Slack API error: ${result.error}`);
+  }
+  return result.ts || conversation.channel.id;
+}
+
+/**
+ * Deliver on one channel; returns the provider's identifier for the delivery
+ */
+export async function deliverToChannel(channel: NotificationChannel, payload: ChannelPayload, settings: any): Promise<string> {
+  switch (channel) {
+    case 'inApp':
+      return deliverInApp(payload, settings);
+    case 'email':
+      return deliverEmail(payload);
+    case 'push':
+      return deliverPush(payload);
+    case 'slack':
+      return deliverSlack(payload, settings);
+  }
+}
+
+/**
+ * Deliver on a channel and turn the result into a delivery status
+ */
+export async function attemptDelivery(
+  channel: NotificationChannel,
+  payload: ChannelPayload,
+  settings: any
+): Promise<{ status: DeliveryStatus; reason: string | null; externalId: string | null; error: string | null }> {
+  try {
+    const externalId = await deliverToChannel(channel, payload, settings);
+    return { status: 'sent', reason: null, externalId, error: null };
+  } catch (error: any) {
+    if (error instanceof ChannelSkippedError) {
+      return { status: 'skipped', reason: error.message, externalId: null, error: null };
+    }
+    console.warn(`⚠️ [NOTIFICATION DISPATCH] ${channel} delivery failed for ${payload.userId}:`, error);
+    return { status: 'failed', reason: 'delivery_error', externalId: null, error: error?.message || String(error) };
+  }
+}
+
+async function handleDecision(
+  dispatchId: string,
+  decision: ChannelDecision,
+  payload: ChannelPayload,
+  settings: any
+): Promise<DeliveryOutcome> {
+  const deliveryRef = db.collection('notificationDeliveries').doc();
+  const now = Timestamp.now();
+  const base = {
+    dispatchId,
+    organizationId: payload.organizationId,
+    userId: payload.userId,
+    category: payload.category,
+    channel: decision.channel,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  if (decision.action === 'suppressed') {
+    await deliveryRef.set({ ...base, status: 'suppressed', reason: decision.reason, error: null, deliverAfter: null, externalId: null });
+    return { userId: payload.userId, channel: decision.channel, status: 'suppressed', reason: decision.reason, externalId: null };
+  }
+
+  if (decision.action === 'digest' || decision.action === 'deferred') {
+    const reason = decision.action === 'digest' ? 'digest' : 'quiet_hours';
+    const deliverAfter = Timestamp.fromDate(decision.deliverAfter);
+    const batch = db.batch();
+    batch.set(deliveryRef, { ...base, status: 'queued', reason, error: null, deliverAfter, externalId: null });
+    batch.set(db.collection('notificationDigestQueue').doc(), {
+      deliveryId: deliveryRef.id,
+      dispatchId,
+      organizationId: payload.organizationId,
+      userId: payload.userId,
+      channel: decision.channel,
+      category: payload.category,
+      title: payload.title,
+      message: payload.message,
+      data: payload.data,
+      reason,
+      status: 'pending',
+      deliverAfter,
+      createdAt: now
+    });
+    await batch.commit();
+    return { userId: payload.userId, channel: decision.channel, status: 'queued', reason, externalId: null };
+  }
+
+  const result = await attemptDelivery(decision.channel, payload, settings);
+  await deliveryRef.set({
+    ...base,
+    status: result.status,
+    reason: result.reason,
+    error: result.error,
+    deliverAfter: null,
+    externalId: result.externalId,
+    deliveredAt: result.status === 'sent' ? Timestamp.now() : null
+  });
+  return { userId: payload.userId, channel: decision.channel, status: result.status, reason: result.reason, externalId: result.externalId };
+}
+
+/**
+ * Dispatch an event to its recipients on every channel their preferences allow
+ */
+export async function dispatchNotification(event: NotificationEvent): Promise<DispatchResult> {
+  if (!event.organizationId || !event.category || !event.title || !event.message) {
+    throw new Error('organizationId, category, title and message are required');
+  }
+
+  const recipients = await resolveRecipients(event);
+  const dispatchRef = db.collection('notificationDispatches').doc();
+  await dispatchRef.set({
+    organizationId: event.organizationId,
+    category: event.category,
+    title: event.title,
+    priority: event.priority || null,
+    channels: event.channels || null,
+    recipientIds: recipients,
+    data: event.data || {},
+    createdAt: Timestamp.now()
+  });
+
+  const now = new Date();
+  const deliveries: DeliveryOutcome[] = [];
+
+  for (const userId of recipients) {
+    try {
+      const settings = await getUserNotificationSettings(userId, event.organizationId);
+      const plan = resolveChannelPlan(settings, event, now);
+      const payload: ChannelPayload = {
+        organizationId: event.organizationId,
+        userId,
+        category: event.category,
+        type: event.type,
+        title: event.title,
+        message: event.message,
+        data: event.data || {},
+        projectId: event.projectId,
+        sourceApp: event.sourceApp,
+        priority: event.priority
+      };
+
+      for (const decision of plan) {
+        deliveries.push(await handleDecision(dispatchRef.id, decision, payload, settings));
+      }
+    } catch (error) {
+      console.error(`❌ [NOTIFICATION DISPATCH] Failed to dispatch to ${userId}:`, error);
+    }
+  }
+
+  console.log(`📣 [NOTIFICATION DISPATCH] ${event.category} → ${recipients.length} recipient(s), ${deliveries.filter(d => d.status === 'sent').length} sent, ${deliveries.filter(d => d.status === 'queued').length} queued`);
+
+  return { dispatchId: dispatchRef.id, recipientCount: recipients.length, deliveries };
+}
+
+/**
+ * Deliver queued digest and quiet-hours items that are due, one combined message per user and channel
+ */
+export async function flushDueDigests(now: Timestamp = Timestamp.now(), limit = 500): Promise<{ groups: number; items: number }> {
+  const dueQuery = await db.collection('notificationDigestQueue')
+    .where('status', '==', 'pending')
+    .where('deliverAfter', '<=', now)
+    .limit(limit)
+    .get();
+
+  const groups = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+  dueQuery.docs.forEach(doc => {
+    const item = doc.data();
+    const key = `${item.organizationId}|${item.userId}|${item.channel}`;
+    groups.set(key, [...(groups.get(key) || []), doc]);
+  });
+
+  for (const docs of groups.values()) {
+    const items = docs.map(doc => doc.data());
+    const first = items[0];
+    const digest = buildDigestMessage(items as any[]);
+
+    try {
+      const settings = await getUserNotificationSettings(first.userId, first.organizationId);
+      const result = await attemptDelivery(first.channel, {
+        organizationId: first.organizationId,
+        userId: first.userId,
+        category: items.every(item => item.category === first.category) ? first.category : 'digest',
+        title: digest.title,
+        message: digest.message,
+        data: items.length === 1 ? (first.data || {}) : { digestCount: items.length }
+      }, settings);
+
+      const updatedAt = Timestamp.now();
+      const updates: Array<[FirebaseFirestore.DocumentReference, Record<string, any>]> = [];
+      docs.forEach(doc => {
+        const item = doc.data();
+        updates.push([doc.ref, { status: result.status, processedAt: updatedAt }]);
+        if (item.deliveryId) {
+          updates.push([db.collection('notificationDeliveries').doc(item.deliveryId), {
+            status: result.status,
+            reason: result.reason || item.reason,
+            error: result.error,
+            externalId: result.externalId,
+            digestSize: docs.length,
+            deliveredAt: result.status === 'sent' ? updatedAt : null,
+            updatedAt
+          }]);
+        }
+      });
+
+      // Each item takes up to two writes, so a large digest spans several batches
+      for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+        const batch = db.batch();
+        updates.slice(i, i + MAX_BATCH_WRITES).forEach(([ref, data]) => batch.update(ref, data));
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error(`❌ [NOTIFICATION DIGEST] Failed to flush digest for ${first.userId}/${first.channel}:`, error);
+    }
+  }
+
+  return { groups: groups.size, items: dueQuery.size };
+}
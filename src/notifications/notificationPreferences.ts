@@ -0,0 +1,210 @@
+/**
+ * Notification Preferences
+ *
+ * Resolves a user's `notificationSettings` document into a per-channel delivery plan.
+ * Settings are stored per user and organization (see crud.ts); on top of the per-category
+ * `enabled`/`priority` flags they may carry:
+ *
+ *   channels:   { inApp, email, push, slack }            - global channel switches
+ *   categories: { [category]: { enabled, priority, channels?, digest? } }
+ *   quietHours: { enabled, start: 'HH:MM', end: 'HH:MM' }
+ *   timeZone:   IANA zone used for quiet hours and digests
+ *   digestHour: local hour daily digests are delivered (default 8)
+ */
+
+export type NotificationChannel = 'inApp' | 'email' | 'push' | 'slack';
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type NotificationDigestFrequency = 'off' | 'hourly' | 'daily';
+
+/**
+ * What happens to one channel for one recipient:
+ * - send: deliver now
+ * - digest: queue for the next digest of this category
+ * - deferred: queue until quiet hours end
+ * - suppressed: not delivered (reason says why)
+ */
+export type ChannelDecision =
+  | { channel: NotificationChannel; action: 'send' }
+  | { channel: NotificationChannel; action: 'digest' | 'deferred'; deliverAfter: Date }
+  | { channel: NotificationChannel; action: 'suppressed'; reason: string };
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['inApp', 'email', 'push', 'slack'];
+
+export const DEFAULT_DIGEST_HOUR = 8;
+
+/**
+ * Channels used when neither the category nor the user has chosen
+ */
+export const DEFAULT_CHANNELS: Record<NotificationChannel, boolean> = {
+  inApp: true,
+  email: false,
+  push: true,
+  slack: false
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS = {
+  enabled: true,
+  soundEnabled: true,
+  desktopEnabled: true,
+  categories: {
+    chat: { enabled: true, priority: 'medium' },
+    session: { enabled: true, priority: 'medium' },
+    workflow: { enabled: true, priority: 'medium' },
+    message: { enabled: true, priority: 'medium' },
+    system: { enabled: true, priority: 'low' },
+    inventory: { enabled: true, priority: 'low' },
+    schedule: { enabled: true, priority: 'medium' },
+    timecard: { enabled: true, priority: 'medium' },
+    timecard_approval: { enabled: true, priority: 'high' },
+    integration_health: { enabled: true, priority: 'high' }
+  }
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+function parseTimeOfDay(value: any): number | null {
+  const match = typeof value === 'string' ? TIME_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Minutes since local midnight of an instant in a time zone
+ */
+export function getLocalMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return get('hour') * 60 + get('minute');
+}
+
+/**
+ * Next instant (strictly after `at`) whose local time is the given minute of the day
+ */
+export function nextLocalTime(at: Date, timeZone: string, minuteOfDay: number): Date {
+  const current = getLocalMinutes(at, timeZone);
+  const wait = (minuteOfDay - current + 1440) % 1440 || 1440;
+  const next = new Date(at.getTime() + wait * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
+
+/**
+ * When quiet hours are active at `at`, the instant they end; otherwise null.
+ * Windows may wrap midnight (e.g. 22:00 → 07:00).
+ */
+export function getQuietHoursEnd(settings: any, at: Date): Date | null {
+  const quietHours = settings?.quietHours;
+  if (!quietHours?.enabled) return null;
+
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return null;
+
+  const timeZone = resolveSettingsTimeZone(settings);
+  const now = getLocalMinutes(at, timeZone);
+  const inWindow = start < end ? now >= start && now < end : now >= start || now < end;
+  return inWindow ? nextLocalTime(at, timeZone, end) : null;
+}
+
+export function resolveSettingsTimeZone(settings: any): string {
+  const timeZone = settings?.quietHours?.timeZone || settings?.timeZone;
+  if (typeof timeZone === 'string') {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      // fall through to UTC
+    }
+  }
+  return 'UTC';
+}
+
+/**
+ * Next delivery time for a digest of the given frequency
+ */
+export function getNextDigestTime(settings: any, frequency: NotificationDigestFrequency, at: Date): Date {
+  if (frequency === 'hourly') {
+    const next = new Date(at.getTime());
+    next.setUTCMinutes(0, 0, 0);
+    next.setUTCHours(next.getUTCHours() + 1);
+    return next;
+  }
+
+  const digestHour = Number.isInteger(settings?.digestHour) && settings.digestHour >= 0 && settings.digestHour < 24
+    ? settings.digestHour
+    : DEFAULT_DIGEST_HOUR;
+  return nextLocalTime(at, resolveSettingsTimeZone(settings), digestHour * 60);
+}
+
+/**
+ * Decide what happens on each channel for one recipient of an event.
+ * In-app notifications are never deferred: they are silent and make up the inbox.
+ * Urgent events bypass digests and quiet hours.
+ */
+export function resolveChannelPlan(
+  settings: any | null,
+  event: { category: string; priority?: NotificationPriority; channels?: NotificationChannel[] },
+  at: Date = new Date()
+): ChannelDecision[] {
+  const effective = settings || DEFAULT_NOTIFICATION_SETTINGS;
+  const categorySettings = effective.categories?.[event.category] || {};
+  const priority: NotificationPriority = event.priority || categorySettings.priority || 'medium';
+  const requested = event.channels && event.channels.length > 0 ? event.channels : NOTIFICATION_CHANNELS;
+
+  return NOTIFICATION_CHANNELS.map((channel): ChannelDecision => {
+    if (!requested.includes(channel)) {
+      return { channel, action: 'suppressed', reason: 'not_requested' };
+    }
+    if (effective.enabled === false) {
+      return { channel, action: 'suppressed', reason: 'notifications_disabled' };
+    }
+    if (categorySettings.enabled === false) {
+      return { channel, action: 'suppressed', reason: 'category_disabled' };
+    }
+
+    const categoryChannel = categorySettings.channels?.[channel];
+    const userChannel = effective.channels?.[channel];
+    const enabled = typeof categoryChannel === 'boolean'
+      ? categoryChannel
+      : typeof userChannel === 'boolean' ? userChannel : DEFAULT_CHANNELS[channel];
+    if (!enabled) {
+      return { channel, action: 'suppressed', reason: 'channel_disabled' };
+    }
+
+    if (channel === 'inApp' || priority === 'urgent') {
+      return { channel, action: 'send' };
+    }
+
+    const digest: NotificationDigestFrequency = categorySettings.digest || 'off';
+    if (digest !== 'off') {
+      return { channel, action: 'digest', deliverAfter: getNextDigestTime(effective, digest, at) };
+    }
+
+    const quietHoursEnd = getQuietHoursEnd(effective, at);
+    if (quietHoursEnd) {
+      return { channel, action: 'deferred', deliverAfter: quietHoursEnd };
+    }
+
+    return { channel, action: 'send' };
+  });
+}
+
+/**
+ * Combine queued notifications into one digest message
+ */
+export function buildDigestMessage(items: { category: string; title: string; message: string }[]): { title: string; message: string } {
+  if (items.length === 1) {
+    return { title: items[0].title, message: items[0].message };
+  }
+
+  const categories = Array.from(new Set(items.map(item => item.category)));
+  const label = categories.length === 1 ? categories[0].replace(/_/g, ' ') : 'notification';
+  return {
+    title: `${items.length} ${label} updates`,
+    message: items.map(item => `• ${item.title}: ${item.message}`).join('\n')
+  };
+}
@@ -8,6 +8,9 @@ import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import * as nodemailer from 'nodemailer';
 import * as admin from 'firebase-admin';
+import { renderOrganizationEmail } from './emailTemplates/emailTemplateService';
+import { EmailBranding } from './emailTemplates/emailTemplateEngine';
+import { dispatchNotification, DispatchResult } from './notificationDispatcher';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -16,6 +19,12 @@ if (!admin.apps.length) {
 
 const db = getFirestore();
 
+const CLIP_SHOW_PRO_BRANDING: Partial<EmailBranding> = {
+  productName: 'Clip Show Pro',
+  headerTitle: '🎬 Clip Show Pro',
+  footerText: 'This email was sent from Clip Show Pro'
+};
+
 interface SendEmailRequest {
   organizationId: string;
   to: string | string[];
@@ -46,7 +55,83 @@ interface EmailSettings {
 }
 
 /**
- * Send notification email
+ * Send an email through the organization's SMTP settings and log it.
+ * Shared by sendNotificationEmail and the notification dispatcher.
+ */
+export async function sendOrganizationEmail(
+  organizationId: string,
+  email: { to: string | string[]; subject: string; body: string; type: string }
+): Promise<{ messageId: string; recipients: string[] }> {
+  // Get email settings for the organization
+  const emailSettingsDoc = await db
+    .collection('organizations')
+    .doc(organizationId)
+    .collection('emailSettings')
+    .doc('config')
+    .get();
+
+  if (!emailSettingsDoc.exists) {
+    throw new HttpsError('not-found', 'Email settings not found for organization');
+  }
+
+  const emailSettings = emailSettingsDoc.data() as EmailSettings;
+
+  // Check if SMTP is enabled
+  if (!emailSettings.smtpConfig?.enabled) {
+    throw new HttpsError('failed-precondition', 'SMTP is not enabled for this organization');
+  }
+
+  // Create email transporter
+  const transporter = createEmailTransporter(emailSettings.smtpConfig);
+
+  // Prepare email content
+  const recipients = Array.isArray(email.to) ? email.to : [email.to];
+  const rendered = await renderNotificationEmail(organizationId, email, recipients);
+
+  // Send email
+  const mailOptions = {
+    from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL,
+    to: recipients.join(', '),
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text
+  };
+
+  const result = await transporter.sendMail(mailOptions);
+
+  // Log email to Firestore
+  await logEmailNotification(organizationId, {
+    to: recipients,
+    subject: email.subject,
+    type: email.type,
+    messageId: result.messageId,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+    success: true
+  });
+
+  return { messageId: result.messageId, recipients };
+}
+
+/**
+ * Organization users by email address, for the addresses that belong to one
+ */
+async function findOrganizationUsersByEmail(organizationId: string, addresses: string[]): Promise<Map<string, string>> {
+  const usersByEmail = new Map<string, string>();
+  // Firestore accepts at most 10 values per `in` filter
+  for (let i = 0; i < addresses.length; i += 10) {
+    const usersQuery = await db.collection('users')
+      .where('organizationId', '==', organizationId)
+      .where('email', 'in', addresses.slice(i, i + 10))
+      .get();
+    usersQuery.docs.forEach(doc => usersByEmail.set(doc.data().email, doc.id));
+  }
+  return usersByEmail;
+}
+
+/**
+ * Send notification email.
+ * Organization members are reached through the notification dispatcher so their
+ * email preferences, quiet hours and digests apply; other addresses are sent directly.
  */
 export const sendNotificationEmail = onCall(
   {
@@ -62,58 +147,33 @@ export const sendNotificationEmail = onCall(
       throw new HttpsError('invalid-argument', 'Missing required parameters');
     }
 
-    // Get email settings for the organization
-    const emailSettingsDoc = await db
-      .collection('organizations')
-      .doc(organizationId)
-      .collection('emailSettings')
-      .doc('config')
-      .get();
-
-    if (!emailSettingsDoc.exists) {
-      throw new HttpsError('not-found', 'Email settings not found for organization');
-    }
-
-    const emailSettings = emailSettingsDoc.data() as EmailSettings;
-
-    // Check if SMTP is enabled
-    if (!emailSettings.smtpConfig?.enabled) {
-      throw new HttpsError('failed-precondition', 'SMTP is not enabled for this organization');
+    const addresses = Array.from(new Set((Array.isArray(to) ? to : [to]).map(address => String(address).trim()).filter(Boolean)));
+    const usersByEmail = await findOrganizationUsersByEmail(organizationId, addresses);
+
+    let dispatch: DispatchResult | null = null;
+    if (usersByEmail.size > 0) {
+      dispatch = await dispatchNotification({
+        organizationId,
+        category: type,
+        title: subject,
+        message: body,
+        recipientIds: Array.from(new Set(usersByEmail.values())),
+        channels: ['email']
+      });
     }
 
-    // Create email transporter
-    const transporter = createEmailTransporter(emailSettings.smtpConfig);
+    const externalAddresses = addresses.filter(address => !usersByEmail.has(address));
+    const result = externalAddresses.length > 0
+      ? await sendOrganizationEmail(organizationId, { to: externalAddresses, subject, body, type })
+      : null;
 
-    // Prepare email content
-    const recipients = Array.isArray(to) ? to : [to];
-    const htmlBody = generateEmailHTML(subject, body, type);
-
-    // Send email
-    const mailOptions = {
-      from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL,
-      to: recipients.join(', '),
-      subject: `[Clip Show Pro] ${subject}`,
-      html: htmlBody,
-      text: body
-    };
-
-    const result = await transporter.sendMail(mailOptions);
-
-    // Log email to Firestore
-    await logEmailNotification(organizationId, {
-      to: recipients,
-      subject,
-      type,
-      messageId: result.messageId,
-      sentAt: admin.firestore.FieldValue.serverTimestamp(),
-      success: true
-    });
-
-    console.log(`✅ [EmailFunction] Email sent successfully: ${result.messageId}`);
+    console.log(`✅ [EmailFunction] Email sent: ${result?.messageId || 'no direct recipients'}, dispatch ${dispatch?.dispatchId || 'none'}`);
 
     return {
       success: true,
-      messageId: result.messageId
+      messageId: result?.messageId || null,
+      dispatchId: dispatch?.dispatchId || null,
+      deliveries: dispatch?.deliveries || []
     };
 
   } catch (error) {
@@ -189,14 +249,14 @@ export const testEmailConnection = onCall(
 
     const testSubject = 'Clip Show Pro - Email Test';
     const testBody = 'This is a test email to verify your email configuration is working correctly.';
-    const htmlBody = generateEmailHTML(testSubject, testBody, 'test');
+    const rendered = await renderNotificationEmail(organizationId, { subject: testSubject, body: testBody, type: 'test' }, adminEmails);
 
     const mailOptions = {
       from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL,
       to: adminEmails.join(', '),
-      subject: `[Clip Show Pro] ${testSubject}`,
-      html: htmlBody,
-      text: testBody
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text
     };
 
     const result = await transporter.sendMail(mailOptions);
@@ -279,9 +339,13 @@ function createEmailTransporter(smtpConfig: any): nodemailer.Transporter {
 }
 
 /**
- * Generate HTML email template
+ * Render a notification email through the organization's 'notification' template
  */
-function generateEmailHTML(subject: string, body: string, type: string): string {
+async function renderNotificationEmail(
+  organizationId: string,
+  email: { subject: string; body: string; type: string },
+  recipients: string[]
+) {
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'sync_complete': return '✅';
@@ -295,108 +359,15 @@ function generateEmailHTML(subject: string, body: string, type: string): string
     }
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'sync_complete': return '#4caf50';
-      case 'sync_error': return '#f44336';
-      case 'conflict_detected': return '#ff9800';
-      case 'daily_summary': return '#2196f3';
-      case 'weekly_report': return '#9c27b0';
-      case 'test': return '#607d8b';
-      case 'automation': return '#00bcd4';
-      default: return '#2196f3';
-    }
-  };
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${subject}</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-          padding: 20px;
-        }
-        .header {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          padding: 30px;
-          text-align: center;
-          border-radius: 8px 8px 0 0;
-        }
-        .header h1 {
-          margin: 0;
-          font-size: 24px;
-        }
-        .content {
-          background: #f8f9fa;
-          padding: 30px;
-          border-radius: 0 0 8px 8px;
-        }
-        .notification-type {
-          display: inline-flex;
-          align-items: center;
-          background: ${getTypeColor(type)};
-          color: white;
-          padding: 8px 16px;
-          border-radius: 20px;
-          font-size: 14px;
-          font-weight: 500;
-          margin-bottom: 20px;
-        }
-        .notification-type span {
-          margin-right: 8px;
-          font-size: 16px;
-        }
-        .message {
-          background: white;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid ${getTypeColor(type)};
-          margin-bottom: 20px;
-        }
-        .footer {
-          text-align: center;
-          color: #666;
-          font-size: 12px;
-          margin-top: 30px;
-        }
-        .footer a {
-          color: #667eea;
-          text-decoration: none;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>🎬 Clip Show Pro</h1>
-      </div>
-      <div class="content">
-        <div class="notification-type">
-          <span>${getTypeIcon(type)}</span>
-          ${type.replace('_', ' ').toUpperCase()}
-        </div>
-        <div class="message">
-          ${body.replace(/\n/g, '<br>')}
-        </div>
-        <div class="footer">
-          <p>This email was sent from Clip Show Pro</p>
-          <p>
-            <a href="https://backbone-client.web.app">Visit Dashboard</a> | 
-            <a href="https://backbone-logic.web.app">Licensing Website</a>
-          </p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  return renderOrganizationEmail(organizationId, 'notification', {
+    title: email.subject,
+    message: email.body,
+    typeLabel: `${getTypeIcon(email.type)} ${email.type.replace(/_/g, ' ').toUpperCase()}`
+  }, {
+    // Only a single recipient has a meaningful locale of their own
+    recipientEmail: recipients.length === 1 ? recipients[0] : null,
+    brandDefaults: CLIP_SHOW_PRO_BRANDING
+  });
 }
 
 /**
@@ -504,14 +475,14 @@ export const testEmailConnectionHttp = onRequest(
 
       const testSubject = 'Clip Show Pro - Email Test';
       const testBody = 'This is a test email to verify your email configuration is working correctly.';
-      const htmlBody = generateEmailHTML(testSubject, testBody, 'test');
+      const rendered = await renderNotificationEmail(organizationId, { subject: testSubject, body: testBody, type: 'test' }, adminEmails);
 
       const mailOptions = {
         from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL,
         to: adminEmails.join(', '),
-        subject: `[Clip Show Pro] ${testSubject}`,
-        html: htmlBody,
-        text: testBody
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text
       };
 
       const result = await transporter.sendMail(mailOptions);
@@ -115,7 +115,11 @@ export class WorkflowOrchestrator {
       addSpanAttribute('organization.id', state.organizationId);
 
       try {
-        const geminiService = createGeminiService();
+        const geminiService = createGeminiService({
+          organizationId: state.organizationId,
+          userId: state.userId,
+          feature: 'workflow-orchestrator'
+        });
         const globalContext = await gatherGlobalContext(state.organizationId, state.userId) as GlobalContext;
         (globalContext as any).activeMode = 'plan_mode';
         (globalContext as any).conversationHistory = state.context?.conversationHistory || [];
@@ -377,7 +381,11 @@ export class WorkflowOrchestrator {
         }
 
         // Use GeminiService for analysis (same as callAIAgent)
-        const geminiService = createGeminiService();
+        const geminiService = createGeminiService({
+          organizationId: state.organizationId,
+          userId: state.userId,
+          feature: 'workflow-orchestrator'
+        });
         const currentMode = (state.context?.activeMode as any) || 'none';
 
         // Plan mode: exploration (read-only) vs execution (user approved)
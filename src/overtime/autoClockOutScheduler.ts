@@ -5,9 +5,14 @@
 
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { db, messaging } from '../shared/utils';
+import { db } from '../shared/utils';
+import { dispatchNotification } from '../notifications/notificationDispatcher';
 import * as admin from 'firebase-admin';
 import type { OvertimeSession } from 'shared-firebase-types';
+import { getEntrySegments, getLegacyMealFields, transitionSegments } from '../timecards/timecardSegments';
+import { getWorkdayInTimeZone, resolveWorkdayTimeZone } from '../timecards/workdayTimeZone';
+import { buildRevisionContext } from '../timecards/revisions/timecardRevisions';
+import { calculateEntryPay, toEntryPayFields } from '../timecards/labor/entryPayCalculator';
 
 /**
  * Check Active Overtime Sessions Every 5 Minutes
@@ -17,7 +22,8 @@ export const checkOvertimeSessions = onSchedule(
   {
     schedule: 'every 5 minutes',
     region: 'us-central1',
-    timeZone: 'America/Los_Angeles',
+    // Interval schedule - workdays are bucketed per organization when clocking out
+    timeZone: 'UTC',
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -92,46 +98,21 @@ export const checkOvertimeSessions = onSchedule(
  */
 async function sendManagerReminder(session: OvertimeSession): Promise<void> {
   try {
-    // Send notification to manager
-    await db.collection('notifications').add({
-      userId: session.managerId,
+    // Manager is notified in-app and on their other channels, per their notification preferences
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'overtime_limit_approaching',
       title: 'Direct Report Approaching Overtime Limit',
       message: `${session.userName} is approaching their overtime limit. Please check in to ensure proper clock out.`,
+      recipientIds: [session.managerId],
       data: {
         overtimeSessionId: session.id,
         userId: session.userId,
         hoursUsed: session.hoursUsed,
         hoursRemaining: session.hoursRemaining
-      },
-      read: false,
-      createdAt: FieldValue.serverTimestamp()
+      }
     });
-
-    // Send push notification
-    const tokensSnapshot = await db
-      .collection('users')
-      .doc(session.managerId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!tokensSnapshot.empty) {
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: 'OT Limit Approaching',
-          body: `${session.userName} nearing overtime limit`
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: session.id
-        },
-        tokens
-      });
-    }
   } catch (error) {
     console.error('Error sending manager reminder:', error);
   }
@@ -143,44 +124,19 @@ async function sendManagerReminder(session: OvertimeSession): Promise<void> {
 async function sendAutoClockOutWarning(session: OvertimeSession): Promise<void> {
   try {
     // Warn employee they will be auto-clocked out soon
-    await db.collection('notifications').add({
-      userId: session.userId,
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'auto_clockout_warning',
       title: 'Overtime Limit Almost Reached',
       message: 'You will be automatically clocked out in 15 minutes. Please finish up and clock out manually.',
+      recipientIds: [session.userId],
+      priority: 'high',
       data: {
         overtimeSessionId: session.id,
         minutesRemaining: 15
-      },
-      read: false,
-      priority: 'HIGH',
-      createdAt: FieldValue.serverTimestamp()
+      }
     });
-
-    // Send push notification
-    const tokensSnapshot = await db
-      .collection('users')
-      .doc(session.userId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!tokensSnapshot.empty) {
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: '⚠️ Auto Clock-Out in 15 Min',
-          body: 'Your overtime limit is almost reached'
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: session.id
-        },
-        tokens
-      });
-    }
   } catch (error) {
     console.error('Error sending auto clock-out warning:', error);
   }
@@ -203,20 +159,38 @@ async function autoClockOutUser(session: OvertimeSession, sessionId: string): Pr
 
     if (!timecardQuery.empty) {
       const timecardDoc = timecardQuery.docs[0];
+      const timecardData = timecardDoc.data();
       const now = Timestamp.now();
 
-      // Calculate final hours
-      const clockInTime = timecardDoc.data().clockInTime?.toDate?.() || new Date(timecardDoc.data().clockInTime);
-      const clockOutTime = now.toDate();
-      const totalHours = (clockOutTime.getTime() - clockInTime.getTime()) / (1000 * 60 * 60);
+      const clockInTime = timecardData.clockInTime?.toDate?.() || new Date(timecardData.clockInTime);
+      const segments = transitionSegments(getEntrySegments(timecardData), now);
+
+      // Shifts that cross midnight stay on the workday they started in the org's time zone
+      const timeZone = timecardData.timeZone ||
+        await resolveWorkdayTimeZone(session.organizationId, timecardData.projectId);
+      const workday = timecardData.workday || getWorkdayInTimeZone(clockInTime, timeZone);
+
+      // Same pay engine run as a manual clock-out, so breaks and meals are not paid as work
+      const pay = await calculateEntryPay(
+        timecardDoc.id,
+        { ...timecardData, segments, clockOutTime: now, workday, timeZone },
+        session.userId,
+        session.organizationId
+      );
 
       // Update timecard entry
       await timecardDoc.ref.update({
         clockOutTime: now,
-        totalHours: parseFloat(totalHours.toFixed(2)),
+        segments,
+        ...getLegacyMealFields(segments),
+        onBreak: false,
+        workday,
+        timeZone,
+        ...toEntryPayFields(pay),
         overtimeStatus: 'AUTO_CLOCKED_OUT',
         autoClockOut: true,
         autoClockOutReason: 'Overtime limit exceeded',
+        revisionContext: buildRevisionContext('system', 'system', { reason: 'Overtime limit exceeded' }),
         updatedAt: now
       });
 
@@ -259,82 +233,32 @@ async function autoClockOutUser(session: OvertimeSession, sessionId: string): Pr
     }
 
     // 4. Notify employee
-    await db.collection('notifications').add({
-      userId: session.userId,
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'auto_clocked_out',
       title: 'You Have Been Automatically Clocked Out',
       message: 'Your overtime limit has been reached. If you need additional overtime, please submit a new request.',
-      data: { overtimeSessionId: sessionId },
-      read: false,
-      priority: 'HIGH',
-      createdAt: FieldValue.serverTimestamp()
+      recipientIds: [session.userId],
+      priority: 'high',
+      data: { overtimeSessionId: sessionId }
     });
 
-    // Send push notification to employee
-    const employeeTokensSnapshot = await db
-      .collection('users')
-      .doc(session.userId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!employeeTokensSnapshot.empty) {
-      const tokens = employeeTokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: 'Auto Clocked Out',
-          body: 'Your overtime limit has been reached'
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: sessionId
-        },
-        tokens
-      });
-    }
-
     // 5. Notify manager
-    await db.collection('notifications').add({
-      userId: session.managerId,
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'employee_auto_clocked_out',
       title: 'Employee Auto-Clocked Out',
       message: `${session.userName} was automatically clocked out after reaching overtime limit. Please review.`,
+      recipientIds: [session.managerId],
       data: {
         overtimeSessionId: sessionId,
         userId: session.userId,
         requiresReview: true
-      },
-      read: false,
-      createdAt: FieldValue.serverTimestamp()
+      }
     });
 
-    // Send push notification to manager
-    const managerTokensSnapshot = await db
-      .collection('users')
-      .doc(session.managerId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!managerTokensSnapshot.empty) {
-      const tokens = managerTokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: 'Employee Auto-Clocked Out',
-          body: `${session.userName} reached overtime limit`
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: sessionId
-        },
-        tokens
-      });
-    }
-
     console.log(`✅ [OvertimeScheduler] Auto clocked out user ${session.userId} for session ${sessionId}`);
   } catch (error: any) {
     console.error(`❌ [OvertimeScheduler] Error auto clocking out user:`, error);
@@ -7,9 +7,12 @@
 // Callable functions validate auth server-side, so origin restriction is optional.
 import { onCall, onRequest } from 'firebase-functions/v2/https';
 import { FieldValue } from 'firebase-admin/firestore';
-import { db, messaging } from '../shared/utils';
+import { db } from '../shared/utils';
 import { createSuccessResponse, createErrorResponse } from '../shared/utils';
 import * as admin from 'firebase-admin';
+import { dispatchNotification } from '../notifications/notificationDispatcher';
+import { buildApprovalActions } from '../slack/slashCommands';
+import { encryptionKey, encryptionKeyPrevious } from '../slack/secrets';
 import type { OvertimeRequest, OvertimeRequestType, OvertimeRequestStatus, OvertimeResponse } from 'shared-firebase-types';
 
 /**
@@ -73,58 +76,28 @@ export const createOvertimeRequest = onCall(
       const docRef = await db.collection('overtimeRequests').add(overtimeRequest);
       const requestId = docRef.id;
 
-      // Create notification for recipient
-      await db.collection('notifications').add({
-        userId: recipientId,
-        organizationId,
-        category: 'overtime_request',
-        type: requestType === 'MANAGER_INQUIRY' ? 'overtime_inquiry' : 'overtime_request',
-        title: requestType === 'MANAGER_INQUIRY'
-          ? 'Overtime Inquiry from Manager'
-          : 'Overtime Request',
-        message: requestType === 'MANAGER_INQUIRY'
-          ? `${requesterName} is asking if you need overtime`
-          : `${requesterName} has requested overtime: ${reason}`,
-        data: {
-          overtimeRequestId: requestId,
-          requestType,
-          requesterId: auth.uid,
-          requesterName
-        },
-        read: false,
-        createdAt: FieldValue.serverTimestamp()
-      });
-
-      // Send push notification
+      // Notify recipient in-app and on their other channels, per their notification preferences
       try {
-        const tokensSnapshot = await db
-          .collection('users')
-          .doc(recipientId)
-          .collection('fcmTokens')
-          .where('isActive', '==', true)
-          .get();
-
-        if (!tokensSnapshot.empty) {
-          const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-          await messaging.sendEachForMulticast({
-            notification: {
-              title: requestType === 'MANAGER_INQUIRY'
-                ? 'Overtime Inquiry'
-                : 'Overtime Request',
-              body: requestType === 'MANAGER_INQUIRY'
-                ? `${requesterName} is asking if you need overtime`
-                : `${requesterName} has requested overtime`
-            },
-            data: {
-              type: 'overtime_request',
-              overtimeRequestId: requestId,
-              requestType
-            },
-            tokens
-          });
-        }
+        await dispatchNotification({
+          organizationId,
+          category: 'overtime_request',
+          type: requestType === 'MANAGER_INQUIRY' ? 'overtime_inquiry' : 'overtime_request',
+          title: requestType === 'MANAGER_INQUIRY'
+            ? 'Overtime Inquiry from Manager'
+            : 'Overtime Request',
+          message: requestType === 'MANAGER_INQUIRY'
+            ? `${requesterName} is asking if you need overtime`
+            : `${requesterName} has requested overtime: ${reason}`,
+          recipientIds: [recipientId],
+          data: {
+            overtimeRequestId: requestId,
+            requestType,
+            requesterId: auth.uid,
+            requesterName
+          }
+        });
       } catch (notifError) {
-        console.warn('Failed to send push notification:', notifError);
+        console.warn('Failed to send overtime request notification:', notifError);
       }
 
       console.log(`✅ [OvertimeRequest] Created request: ${requestId}`);
@@ -263,7 +236,8 @@ export const certifyOvertimeRequest = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    timeoutSeconds: 30
+    timeoutSeconds: 30,
+    secrets: [encryptionKey, encryptionKeyPrevious] // Slack approval messages
   },
   async (request) => {
     try {
@@ -348,6 +322,26 @@ export const certifyOvertimeRequest = onCall(
       });
       await batch.commit();
 
+      // Slack DM with Approve / Reject buttons (in-app notifications are written above)
+      if (execUserIds.length > 0) {
+        try {
+          await dispatchNotification({
+            organizationId: requestData.organizationId,
+            category: 'overtime_request',
+            title: 'Overtime Request Pending Approval',
+            message: `Overtime request from ${requestData.requesterName || requestData.employeeId} was certified by ${managerName} and requires approval`,
+            recipientIds: execUserIds,
+            channels: ['slack'],
+            data: {
+              overtimeRequestId: requestId,
+              slackActions: buildApprovalActions('overtime', requestId)
+            }
+          });
+        } catch (slackError) {
+          console.warn('⚠️ [OvertimeRequest] Failed to send Slack approval messages:', slackError);
+        }
+      }
+
       // Notify employee
       await db.collection('notifications').add({
         userId: requestData.employeeId,
@@ -372,6 +366,85 @@ export const certifyOvertimeRequest = onCall(
   }
 );
 
+/**
+ * Approve a certified overtime request - shared by the callable and Slack approval buttons
+ */
+export async function approveOvertime(approverId: string, requestId: string, execNotes?: string | null): Promise<void> {
+  if (!requestId) {
+    throw new Error('Missing required field: requestId');
+  }
+
+  // Verify user has exec/accounting role
+  const userDoc = await db.collection('users').doc(approverId).get();
+  const userData = userDoc.data();
+  const role = userData?.role || userData?.dashboardRole || '';
+  const execRoles = ['EXECUTIVE_PRODUCER', 'PRODUCER', 'ACCOUNTING', 'ADMIN', 'OWNER'];
+
+  if (!execRoles.includes(role.toUpperCase())) {
+    throw new Error('Unauthorized: Only executives and accounting can approve overtime requests');
+  }
+
+  const requestRef = db.collection('overtimeRequests').doc(requestId);
+  const requestDoc = await requestRef.get();
+
+  if (!requestDoc.exists) {
+    throw new Error('Overtime request not found');
+  }
+
+  const requestData = requestDoc.data() as OvertimeRequest;
+
+  if (requestData.status !== 'CERTIFIED' && requestData.status !== 'PENDING_EXEC_APPROVAL') {
+    throw new Error('Request must be certified before approval');
+  }
+
+  const approverName = userData?.displayName || userData?.name || userData?.email || 'Approver';
+
+  // Set approvedHours from estimatedHours if not already set
+  const approvedHours = requestData.approvedHours || requestData.estimatedHours || 0;
+
+  // Update request to approved
+  await requestRef.update({
+    execApproverId: approverId,
+    execApprovedAt: FieldValue.serverTimestamp(),
+    execNotes,
+    status: 'APPROVED' as OvertimeRequestStatus,
+    approvedHours: approvedHours,
+    hoursRemaining: approvedHours, // Initialize remaining hours
+    hoursUsed: 0, // Initialize used hours
+    updatedAt: FieldValue.serverTimestamp()
+  });
+
+  // Notify all participants
+  const participants = [
+    requestData.employeeId,
+    requestData.managerId,
+    requestData.requesterId
+  ].filter((id, index, self) => self.indexOf(id) === index); // Remove duplicates
+
+  const batch = db.batch();
+  participants.forEach(userId => {
+    const notifRef = db.collection('notifications').doc();
+    batch.set(notifRef, {
+      userId,
+      organizationId: requestData.organizationId,
+      category: 'overtime_request',
+      type: 'overtime_approved',
+      title: 'Overtime Request Approved',
+      message: `Your overtime request has been approved by ${approverName}`,
+      data: {
+        overtimeRequestId: requestId,
+        approverId,
+        approverName
+      },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    });
+  });
+  await batch.commit();
+
+  console.log(`✅ [OvertimeRequest] Approved: ${requestId}`);
+}
+
 /**
  * Approve overtime request (Exec/Accounting action)
  */
@@ -391,86 +464,88 @@ export const approveOvertimeRequest = onCall(
 
       const { requestId, execNotes } = data;
 
-      if (!requestId) {
-        throw new Error('Missing required field: requestId');
-      }
-
-      // Verify user has exec/accounting role
-      const userDoc = await db.collection('users').doc(auth.uid).get();
-      const userData = userDoc.data();
-      const role = userData?.role || userData?.dashboardRole || '';
-      const execRoles = ['EXECUTIVE_PRODUCER', 'PRODUCER', 'ACCOUNTING', 'ADMIN', 'OWNER'];
+      await approveOvertime(auth.uid, requestId, execNotes);
+      return createSuccessResponse({ requestId }, 'Overtime request approved successfully');
+    } catch (error: any) {
+      console.error('❌ [OvertimeRequest] Error approving request:', error);
+      return createErrorResponse(error.message || 'Failed to approve overtime request');
+    }
+  }
+);
 
-      if (!execRoles.includes(role.toUpperCase())) {
-        throw new Error('Unauthorized: Only executives and accounting can approve overtime requests');
-      }
+/**
+ * Reject a certified overtime request - shared by the callable and Slack approval buttons
+ */
+export async function rejectOvertime(approverId: string, requestId: string, rejectionReason: string): Promise<void> {
+  if (!requestId || !rejectionReason) {
+    throw new Error('Missing required fields: requestId, rejectionReason');
+  }
 
-      const requestRef = db.collection('overtimeRequests').doc(requestId);
-      const requestDoc = await requestRef.get();
+  // Verify user has exec/accounting role
+  const userDoc = await db.collection('users').doc(approverId).get();
+  const userData = userDoc.data();
+  const role = userData?.role || userData?.dashboardRole || '';
+  const execRoles = ['EXECUTIVE_PRODUCER', 'PRODUCER', 'ACCOUNTING', 'ADMIN', 'OWNER'];
 
-      if (!requestDoc.exists) {
-        throw new Error('Overtime request not found');
-      }
+  if (!execRoles.includes(role.toUpperCase())) {
+    throw new Error('Unauthorized: Only executives and accounting can reject overtime requests');
+  }
 
-      const requestData = requestDoc.data() as OvertimeRequest;
+  const requestRef = db.collection('overtimeRequests').doc(requestId);
+  const requestDoc = await requestRef.get();
 
-      if (requestData.status !== 'CERTIFIED' && requestData.status !== 'PENDING_EXEC_APPROVAL') {
-        throw new Error('Request must be certified before approval');
-      }
+  if (!requestDoc.exists) {
+    throw new Error('Overtime request not found');
+  }
 
-      const approverName = userData?.displayName || userData?.name || userData?.email || 'Approver';
+  const requestData = requestDoc.data() as OvertimeRequest;
 
-      // Set approvedHours from estimatedHours if not already set
-      const approvedHours = requestData.approvedHours || requestData.estimatedHours || 0;
+  if (requestData.status !== 'CERTIFIED' && requestData.status !== 'PENDING_EXEC_APPROVAL') {
+    throw new Error('Request must be certified before rejection');
+  }
 
-      // Update request to approved
-      await requestRef.update({
-        execApproverId: auth.uid,
-        execApprovedAt: FieldValue.serverTimestamp(),
-        execNotes,
-        status: 'APPROVED' as OvertimeRequestStatus,
-        approvedHours: approvedHours,
-        hoursRemaining: approvedHours, // Initialize remaining hours
-        hoursUsed: 0, // Initialize used hours
-        updatedAt: FieldValue.serverTimestamp()
-      });
+  const rejectorName = userData?.displayName || userData?.name || userData?.email || 'Rejector';
 
-      // Notify all participants
-      const participants = [
-        requestData.employeeId,
-        requestData.managerId,
-        requestData.requesterId
-      ].filter((id, index, self) => self.indexOf(id) === index); // Remove duplicates
+  // Update request to rejected
+  await requestRef.update({
+    execApproverId: approverId,
+    execApprovedAt: FieldValue.serverTimestamp(),
+    rejectionReason,
+    status: 'REJECTED' as OvertimeRequestStatus,
+    updatedAt: FieldValue.serverTimestamp()
+  });
 
-      const batch = db.batch();
-      participants.forEach(userId => {
-        const notifRef = db.collection('notifications').doc();
-        batch.set(notifRef, {
-          userId,
-          organizationId: requestData.organizationId,
-          category: 'overtime_request',
-          type: 'overtime_approved',
-          title: 'Overtime Request Approved',
-          message: `Your overtime request has been approved by ${approverName}`,
-          data: {
-            overtimeRequestId: requestId,
-            approverId: auth.uid,
-            approverName
-          },
-          read: false,
-          createdAt: FieldValue.serverTimestamp()
-        });
-      });
-      await batch.commit();
+  // Notify all participants
+  const participants = [
+    requestData.employeeId,
+    requestData.managerId,
+    requestData.requesterId
+  ].filter((id, index, self) => self.indexOf(id) === index); // Remove duplicates
+
+  const batch = db.batch();
+  participants.forEach(userId => {
+    const notifRef = db.collection('notifications').doc();
+    batch.set(notifRef, {
+      userId,
+      organizationId: requestData.organizationId,
+      category: 'overtime_request',
+      type: 'overtime_rejected',
+      title: 'Overtime Request Rejected',
+      message: `Your overtime request has been rejected by ${rejectorName}: ${rejectionReason}`,
+      data: {
+        overtimeRequestId: requestId,
+        rejectorId: approverId,
+        rejectorName,
+        rejectionReason
+      },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    });
+  });
+  await batch.commit();
 
-      console.log(`✅ [OvertimeRequest] Approved: ${requestId}`);
-      return createSuccessResponse({ requestId }, 'Overtime request approved successfully');
-    } catch (error: any) {
-      console.error('❌ [OvertimeRequest] Error approving request:', error);
-      return createErrorResponse(error.message || 'Failed to approve overtime request');
-    }
-  }
-);
+  console.log(`✅ [OvertimeRequest] Rejected: ${requestId}`);
+}
 
 /**
  * Reject overtime request (Exec/Accounting action)
@@ -491,74 +566,7 @@ export const rejectOvertimeRequest = onCall(
 
       const { requestId, rejectionReason } = data;
 
-      if (!requestId || !rejectionReason) {
-        throw new Error('Missing required fields: requestId, rejectionReason');
-      }
-
-      // Verify user has exec/accounting role
-      const userDoc = await db.collection('users').doc(auth.uid).get();
-      const userData = userDoc.data();
-      const role = userData?.role || userData?.dashboardRole || '';
-      const execRoles = ['EXECUTIVE_PRODUCER', 'PRODUCER', 'ACCOUNTING', 'ADMIN', 'OWNER'];
-
-      if (!execRoles.includes(role.toUpperCase())) {
-        throw new Error('Unauthorized: Only executives and accounting can reject overtime requests');
-      }
-
-      const requestRef = db.collection('overtimeRequests').doc(requestId);
-      const requestDoc = await requestRef.get();
-
-      if (!requestDoc.exists) {
-        throw new Error('Overtime request not found');
-      }
-
-      const requestData = requestDoc.data() as OvertimeRequest;
-
-      if (requestData.status !== 'CERTIFIED' && requestData.status !== 'PENDING_EXEC_APPROVAL') {
-        throw new Error('Request must be certified before rejection');
-      }
-
-      const rejectorName = userData?.displayName || userData?.name || userData?.email || 'Rejector';
-
-      // Update request to rejected
-      await requestRef.update({
-        execApproverId: auth.uid,
-        execApprovedAt: FieldValue.serverTimestamp(),
-        rejectionReason,
-        status: 'REJECTED' as OvertimeRequestStatus,
-        updatedAt: FieldValue.serverTimestamp()
-      });
-
-      // Notify all participants
-      const participants = [
-        requestData.employeeId,
-        requestData.managerId,
-        requestData.requesterId
-      ].filter((id, index, self) => self.indexOf(id) === index); // Remove duplicates
-
-      const batch = db.batch();
-      participants.forEach(userId => {
-        const notifRef = db.collection('notifications').doc();
-        batch.set(notifRef, {
-          userId,
-          organizationId: requestData.organizationId,
-          category: 'overtime_request',
-          type: 'overtime_rejected',
-          title: 'Overtime Request Rejected',
-          message: `Your overtime request has been rejected by ${rejectorName}: ${rejectionReason}`,
-          data: {
-            overtimeRequestId: requestId,
-            rejectorId: auth.uid,
-            rejectorName,
-            rejectionReason
-          },
-          read: false,
-          createdAt: FieldValue.serverTimestamp()
-        });
-      });
-      await batch.commit();
-
-      console.log(`✅ [OvertimeRequest] Rejected: ${requestId}`);
+      await rejectOvertime(auth.uid, requestId, rejectionReason);
       return createSuccessResponse({ requestId }, 'Overtime request rejected');
     } catch (error: any) {
       console.error('❌ [OvertimeRequest] Error rejecting request:', error);
@@ -5,10 +5,12 @@
 
 import { onCall } from 'firebase-functions/v2/https';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { db, messaging } from '../shared/utils';
+import { db } from '../shared/utils';
+import { dispatchNotification } from '../notifications/notificationDispatcher';
 import { createSuccessResponse, createErrorResponse } from '../shared/utils';
 import * as admin from 'firebase-admin';
 import type { OvertimeSession, OvertimeRequest } from 'shared-firebase-types';
+import { getWorkdayInTimeZone, resolveWorkdayTimeZone } from '../timecards/workdayTimeZone';
 
 /**
  * Start Overtime Session
@@ -65,8 +67,9 @@ export const startOvertimeSession = onCall(
         throw new Error('Active overtime session already exists for this request');
       }
 
-      // 2. Check daily max hours not exceeded
-      const today = new Date().toISOString().split('T')[0];
+      // 2. Check daily max hours not exceeded (workday in the project/organization time zone)
+      const timeZone = await resolveWorkdayTimeZone(organizationId, (otRequest as any).projectId);
+      const today = getWorkdayInTimeZone(new Date(), timeZone);
       const todaySessionsQuery = await db
         .collection('overtimeSessions')
         .where('organizationId', '==', organizationId)
@@ -91,7 +94,7 @@ export const startOvertimeSession = onCall(
         const session = doc.data();
         if (session.sessionStartTime) {
           const startDate = session.sessionStartTime.toDate?.() || new Date(session.sessionStartTime);
-          if (startDate.toISOString().split('T')[0] === today) {
+          if (getWorkdayInTimeZone(startDate, timeZone) === today) {
             totalHoursToday += session.hoursUsed || 0;
           }
         }
@@ -430,46 +433,21 @@ export const getActiveOvertimeSession = onCall(
  */
 async function sendManagerReminder(session: OvertimeSession): Promise<void> {
   try {
-    // Send notification to manager
-    await db.collection('notifications').add({
-      userId: session.managerId,
+    // Manager is notified in-app and on their other channels, per their notification preferences
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'overtime_limit_approaching',
       title: 'Direct Report Approaching Overtime Limit',
       message: `${session.userName} is approaching their overtime limit. Please check in to ensure proper clock out.`,
+      recipientIds: [session.managerId],
       data: {
         overtimeSessionId: session.id,
         userId: session.userId,
         hoursUsed: session.hoursUsed,
         hoursRemaining: session.hoursRemaining
-      },
-      read: false,
-      createdAt: FieldValue.serverTimestamp()
+      }
     });
-
-    // Send push notification
-    const tokensSnapshot = await db
-      .collection('users')
-      .doc(session.managerId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!tokensSnapshot.empty) {
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: 'OT Limit Approaching',
-          body: `${session.userName} nearing overtime limit`
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: session.id
-        },
-        tokens
-      });
-    }
   } catch (error) {
     console.error('Error sending manager reminder:', error);
   }
@@ -481,44 +459,19 @@ async function sendManagerReminder(session: OvertimeSession): Promise<void> {
 async function sendAutoClockOutWarning(session: OvertimeSession): Promise<void> {
   try {
     // Warn employee they will be auto-clocked out soon
-    await db.collection('notifications').add({
-      userId: session.userId,
+    await dispatchNotification({
       organizationId: session.organizationId,
       category: 'overtime_alert',
       type: 'auto_clockout_warning',
       title: 'Overtime Limit Almost Reached',
       message: 'You will be automatically clocked out in 15 minutes. Please finish up and clock out manually.',
+      recipientIds: [session.userId],
+      priority: 'high',
       data: {
         overtimeSessionId: session.id,
         minutesRemaining: 15
-      },
-      read: false,
-      priority: 'HIGH',
-      createdAt: FieldValue.serverTimestamp()
+      }
     });
-
-    // Send push notification
-    const tokensSnapshot = await db
-      .collection('users')
-      .doc(session.userId)
-      .collection('fcmTokens')
-      .where('isActive', '==', true)
-      .get();
-
-    if (!tokensSnapshot.empty) {
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      await messaging.sendEachForMulticast({
-        notification: {
-          title: '⚠️ Auto Clock-Out in 15 Min',
-          body: 'Your overtime limit is almost reached'
-        },
-        data: {
-          type: 'overtime_alert',
-          overtimeSessionId: session.id
-        },
-        tokens
-      });
-    }
   } catch (error) {
     console.error('Error sending auto clock-out warning:', error);
   }
@@ -0,0 +1,15 @@
+/**
+ * Admin Claims
+ *
+ * Organization admin check on a user's custom claims. Roles are stored uppercase
+ * (`ADMIN`, `OWNER`); `isAdmin` covers platform admins.
+ */
+
+export type UserClaims = Record<string, unknown>;
+
+/**
+ * Organization admins and owners, plus platform admins
+ */
+export function isOrganizationAdmin(claims: UserClaims | undefined): boolean {
+  return claims?.role === 'ADMIN' || claims?.role === 'OWNER' || claims?.isAdmin === true;
+}
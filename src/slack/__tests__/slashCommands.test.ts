@@ -0,0 +1,70 @@
+/**
+ * Slack Slash Command Tests
+ *
+ * Tests for command argument parsing and approval button round-trips
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import {
+  buildActionBlocks,
+  buildApprovalActions,
+  formatCallSheetSummary,
+  isAssignedToCallSheet,
+  parseApprovalAction,
+  parseCallSheetDay,
+  parseClockOutStatus
+} from '../slashCommands';
+
+describe('slashCommands', () => {
+  it('parses /callsheet day arguments relative to the local workday', () => {
+    expect(parseCallSheetDay('', '2026-02-28')).toBe('2026-02-28');
+    expect(parseCallSheetDay('tomorrow', '2026-02-28')).toBe('2026-03-01');
+    expect(parseCallSheetDay(' Yesterday ', '2026-03-01')).toBe('2026-02-28');
+    expect(parseCallSheetDay('2026-04-10', '2026-03-01')).toBe('2026-04-10');
+    expect(parseCallSheetDay('next week', '2026-03-01')).toBeNull();
+  });
+
+  it('defaults /clockout to wrapped', () => {
+    expect(parseClockOutStatus('')).toBe('wrapped');
+    expect(parseClockOutStatus('move')).toBe('another_location');
+    expect(parseClockOutStatus('another_location')).toBe('another_location');
+  });
+
+  it('round-trips approval buttons through their action ids', () => {
+    const actions = buildApprovalActions('overtime', 'req-1');
+    expect(actions.map(action => parseApprovalAction(action.actionId))).toEqual([
+      { kind: 'overtime', decision: 'approve' },
+      { kind: 'overtime', decision: 'reject' }
+    ]);
+    expect(parseApprovalAction('timecard_escalate')).toBeNull();
+
+    const blocks = buildActionBlocks('*Approval needed*', buildApprovalActions('timecard', 'tc-9'));
+    expect(blocks[1].elements).toHaveLength(2);
+    expect(blocks[1].elements[0]).toMatchObject({ action_id: 'timecard_approve', value: 'tc-9', style: 'primary' });
+  });
+
+  it('only treats the publisher and assigned team members as on a call sheet', () => {
+    const callSheet = {
+      publishedBy: 'producer',
+      teamMemberIds: ['tm-1'],
+      assignedTeamMembers: [{ id: 'tm-2', email: 'Grip@Example.com' }]
+    };
+    expect(isAssignedToCallSheet(callSheet, { id: 'producer' })).toBe(true);
+    expect(isAssignedToCallSheet(callSheet, { id: 'tm-1' })).toBe(true);
+    expect(isAssignedToCallSheet(callSheet, { id: 'u9', email: 'grip@example.com' })).toBe(true);
+    expect(isAssignedToCallSheet(callSheet, { id: 'guest', email: 'guest@example.com' })).toBe(false);
+    expect(isAssignedToCallSheet({}, { id: 'guest', email: null })).toBe(false);
+  });
+
+  it('leaves the crew access code out of call sheet summaries', () => {
+    const summary = formatCallSheetSummary({ title: 'Day 3', date: '2026-03-04', location: 'Harbor', accessCode: 'X7K2P9' });
+    expect(summary).toContain('Location: Harbor');
+    expect(summary).not.toContain('X7K2P9');
+  });
+});
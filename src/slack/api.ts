@@ -11,7 +11,7 @@ import * as admin from 'firebase-admin';
 import * as crypto from 'crypto';
 import { WebClient } from '@slack/web-api';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from './secrets';
+import { encryptionKey, getEncryptionKey, encryptionKeyPrevious } from './secrets';
 import { decryptToken } from '../integrations/unified-oauth/encryption';
 
 
@@ -124,7 +124,7 @@ export const slackGetWorkspaceInfo = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -170,7 +170,7 @@ export const slackListChannels = onCall(
   {
     region: 'us-central1',
     cors: true, // Allow all origins for development, production origins handled by Firebase
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 1,
     memory: '2GiB', // Increased memory for large channel lists
     timeoutSeconds: 300, // Increased timeout 
@@ -367,7 +367,7 @@ export const slackOpenDM = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -443,7 +443,7 @@ export const slackGetChannelHistory = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -702,7 +702,7 @@ export const slackSendMessage = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -757,7 +757,7 @@ export const slackAddReaction = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '512MiB',
   },
@@ -815,7 +815,7 @@ export const slackGetThreadReplies = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -864,7 +864,7 @@ export const slackUploadFile = onCall(
     cors: true,
     maxInstances: 10,
     timeoutSeconds: 60,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -919,7 +919,7 @@ export const slackGetUsers = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
     cpu: 0.5,
     memory: '1GiB',
   },
@@ -1005,7 +1005,7 @@ export const slackUpdateMessage = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1064,7 +1064,7 @@ export const slackDeleteMessage = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1117,7 +1117,7 @@ export const slackPinMessage = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1171,7 +1171,7 @@ export const slackUnpinMessage = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1224,7 +1224,7 @@ export const slackGetChannelInfo = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1313,7 +1313,7 @@ export const slackSearchMessages = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1371,7 +1371,7 @@ export const slackRemoveReaction = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1427,7 +1427,7 @@ export const slackSetTyping = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1467,7 +1467,7 @@ export const slackGetUserPresence = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1517,7 +1517,7 @@ export const slackGetFileInfo = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1563,7 +1563,7 @@ export const slackGetFileList = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1613,7 +1613,7 @@ export const slackScheduleMessage = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1677,7 +1677,7 @@ export const slackSetReminder = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1742,7 +1742,7 @@ export const slackGetPinnedMessages = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -15,5 +15,6 @@
 
 export * from './api';
 export * from './webhook';
+export * from './interactivity';
 export * from './config';
 
@@ -0,0 +1,311 @@
+/**
+ * Slack Slash Commands and Interactivity Handler
+ *
+ * Receives slash commands (/clockin, /clockout, /callsheet) and interactive payloads
+ * (Approve / Reject buttons on approval messages). Requests are verified the same way
+ * as the events webhook, and the Slack user is mapped to a user in the workspace's
+ * organization before any action runs with that user's permissions.
+ *
+ * Slack expects an acknowledgement within 3 seconds, so the handler only verifies and
+ * queues the interaction in `slackInteractionQueue`; processSlackInteraction does the
+ * work and posts the result to the interaction's `response_url`.
+ */
+
+import { onRequest } from 'firebase-functions/v2/https';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { db } from '../shared/utils';
+import { isOrganizationAdmin } from '../shared/adminClaims';
+import { getSlackClient } from './api';
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { findSlackConnectionByTeam, SlackTeamConnection, verifySlackRequest } from './requestVerification';
+import {
+  ephemeral,
+  formatCallSheetSummary,
+  isAssignedToCallSheet,
+  parseApprovalAction,
+  parseCallSheetDay,
+  parseClockOutStatus,
+  SlackCommandResponse
+} from './slashCommands';
+import { clockInUser } from '../timecards/clockIn';
+import { clockOutUser } from '../timecards/clockOut';
+import { performTimecardApprovalAction } from '../timecards/approval/takeApprovalAction';
+import { approveOvertime, rejectOvertime } from '../overtime/overtimeRequestFunctions';
+import { findPublishedCallSheetForWorkday } from '../callSheets/getPublishedCallSheets';
+import { getWorkdayInTimeZone, resolveWorkdayTimeZone } from '../timecards/workdayTimeZone';
+
+const INTERACTION_QUEUE_COLLECTION = 'slackInteractionQueue';
+
+const NOT_LINKED_MESSAGE = 'Your Slack account is not linked to a user in this organization. Sign in once with the same email address, or ask an admin to link your account.';
+
+/**
+ * Find the organization user for a Slack user: first by the stored `slackUserId`,
+ * then by the Slack profile email (linking the account for next time)
+ */
+async function resolveSlackUser(connection: SlackTeamConnection, slackUserId: string): Promise<string | null> {
+  const linked = await db.collection('users')
+    .where('slackUserId', '==', slackUserId)
+    .where('organizationId', '==', connection.organizationId)
+    .limit(1)
+    .get();
+  if (!linked.empty) {
+    return linked.docs[0].id;
+  }
+
+  try {
+    const client = await getSlackClient(connection.connectionId, connection.organizationId);
+    const profile = await client.users.info({ user: slackUserId });
+    const email = profile.user?.profile?.email;
+    if (!email) {
+      return null;
+    }
+
+    const userRecord = await getAuth().getUserByEmail(email);
+    if (userRecord.customClaims?.organizationId !== connection.organizationId) {
+      return null;
+    }
+
+    await db.collection('users').doc(userRecord.uid).set({ slackUserId }, { merge: true });
+    console.log(`🔗 [SlackInteractivity] Linked Slack user ${slackUserId} to ${userRecord.uid}`);
+    return userRecord.uid;
+  } catch (error: any) {
+    console.warn(`⚠️ [SlackInteractivity] Could not resolve Slack user ${slackUserId}:`, error?.message || error);
+    return null;
+  }
+}
+
+function formatTime(iso: string | undefined, timeZone: string | null): string {
+  const date = iso ? new Date(iso) : new Date();
+  return new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timeZone || 'UTC' }).format(date);
+}
+
+/**
+ * Handle a slash command and build its (ephemeral) response. Every command runs as the
+ * linked organization user, so unlinked workspace members and guests get nothing.
+ */
+async function handleSlashCommand(connection: SlackTeamConnection, body: any): Promise<SlackCommandResponse> {
+  const command = String(body.command || '').toLowerCase();
+  const text = String(body.text || '');
+  const organizationId = connection.organizationId;
+
+  if (!['/clockin', '/clockout', '/callsheet'].includes(command)) {
+    return ephemeral(`Unknown command ${command}. Available commands: /clockin, /clockout, /callsheet`);
+  }
+
+  const userId = await resolveSlackUser(connection, body.user_id);
+  if (!userId) {
+    return ephemeral(NOT_LINKED_MESSAGE);
+  }
+
+  if (command === '/callsheet') {
+    const timeZone = await resolveWorkdayTimeZone(organizationId);
+    const workday = parseCallSheetDay(text, getWorkdayInTimeZone(new Date(), timeZone));
+    if (!workday) {
+      return ephemeral('Usage: `/callsheet [today|tomorrow|yesterday|YYYY-MM-DD]`');
+    }
+
+    // Admins see the day's call sheet; everyone else only the ones they are on
+    const userRecord = await getAuth().getUser(userId);
+    const isAdmin = isOrganizationAdmin(userRecord.customClaims);
+    const user = { id: userId, email: userRecord.email };
+    const callSheet = await findPublishedCallSheetForWorkday(
+      organizationId,
+      workday,
+      timeZone,
+      data => isAdmin || isAssignedToCallSheet(data, user)
+    );
+    return callSheet
+      ? ephemeral(formatCallSheetSummary(callSheet))
+      : ephemeral(`No published call sheet for you on ${workday}.`);
+  }
+
+  if (command === '/clockin') {
+    const timecard = await clockInUser(userId, organizationId, { notes: text.trim() || undefined });
+    return ephemeral(`🟢 Clocked in at ${formatTime(timecard.clockInTime, timecard.timeZone)}.`);
+  }
+
+  const wrappedStatus = parseClockOutStatus(text);
+  const timecard = await clockOutUser(userId, organizationId, { wrappedStatus });
+  return ephemeral(`🔴 Clocked out at ${formatTime(timecard.clockOutTime, timecard.timeZone)} — ${Number(timecard.totalHours || 0).toFixed(2)} hours${wrappedStatus === 'another_location' ? ' (moving to another location)' : ''}.`);
+}
+
+/**
+ * Handle an Approve / Reject button click; the result replaces the original message
+ */
+async function handleBlockAction(connection: SlackTeamConnection, payload: any): Promise<SlackCommandResponse> {
+  const action = payload.actions?.[0];
+  const approval = parseApprovalAction(action?.action_id);
+  if (!approval || !action?.value) {
+    return ephemeral('This action is no longer supported.');
+  }
+
+  const userId = await resolveSlackUser(connection, payload.user?.id);
+  if (!userId) {
+    return ephemeral(NOT_LINKED_MESSAGE);
+  }
+
+  const reason = 'Rejected from Slack';
+  if (approval.kind === 'timecard') {
+    await performTimecardApprovalAction(userId, {
+      approvalId: action.value,
+      action: approval.decision,
+      rejectionReason: approval.decision === 'reject' ? reason : null
+    });
+  } else if (approval.decision === 'approve') {
+    await approveOvertime(userId, action.value);
+  } else {
+    await rejectOvertime(userId, action.value, reason);
+  }
+
+  const label = approval.kind === 'timecard' ? 'Timecard' : 'Overtime request';
+  return {
+    response_type: 'ephemeral',
+    replace_original: true,
+    text: `${approval.decision === 'approve' ? '✅' : '❌'} ${label} ${approval.decision === 'approve' ? 'approved' : 'rejected'} by <@${payload.user.id}>`
+  };
+}
+
+async function postToResponseUrl(responseUrl: string, message: SlackCommandResponse): Promise<void> {
+  const response = await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message)
+  });
+  if (!response.ok) {
+    console.warn(`⚠️ [SlackInteractivity] response_url returned ${response.status}`);
+  }
+}
+
+/**
+ * Queue a verified interaction for processSlackInteraction
+ */
+async function queueInteraction(teamId: string, organizationId: string, type: 'command' | 'block_actions', body: Record<string, any>): Promise<void> {
+  await db.collection(INTERACTION_QUEUE_COLLECTION).add({
+    teamId,
+    organizationId,
+    type,
+    body,
+    status: 'pending',
+    createdAt: FieldValue.serverTimestamp()
+  });
+}
+
+/**
+ * Handle Slack slash commands and interactive components
+ */
+export const slackInteractivityHandler = onRequest(
+  {
+    region: 'us-central1',
+    cors: true,
+    memory: '512MiB',
+    timeoutSeconds: 30,
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (request, response) => {
+    if (request.method !== 'POST') {
+      response.status(405).send('Method not allowed');
+      return;
+    }
+
+    // Interactive components send a JSON `payload` field; slash commands send form fields
+    let payload: any = null;
+    try {
+      payload = request.body?.payload ? JSON.parse(request.body.payload) : null;
+    } catch {
+      response.status(400).send('Bad request');
+      return;
+    }
+
+    const teamId = payload ? payload.team?.id : request.body?.team_id;
+    if (!teamId) {
+      console.warn('⚠️ [SlackInteractivity] No team ID in request');
+      response.status(400).send('Bad request');
+      return;
+    }
+
+    try {
+      const connection = await findSlackConnectionByTeam(teamId);
+      if (!connection) {
+        console.warn(`⚠️ [SlackInteractivity] No active connection found for team: ${teamId}`);
+        response.status(404).send('Connection not found');
+        return;
+      }
+
+      const verification = await verifySlackRequest(request, connection.organizationId);
+      if (!verification.ok) {
+        console.warn(`⚠️ [SlackInteractivity] ${verification.reason}`);
+        response.status(verification.status).send('Unauthorized');
+        return;
+      }
+
+      if (!payload) {
+        console.log(`📥 [SlackInteractivity] Command ${request.body.command} from ${request.body.user_id} in org ${connection.organizationId}`);
+        await queueInteraction(teamId, connection.organizationId, 'command', {
+          command: request.body.command || '',
+          text: request.body.text || '',
+          user_id: request.body.user_id || null,
+          response_url: request.body.response_url || null
+        });
+      } else if (payload.type === 'block_actions') {
+        console.log(`📥 [SlackInteractivity] Action ${payload.actions?.[0]?.action_id} from ${payload.user?.id} in org ${connection.organizationId}`);
+        await queueInteraction(teamId, connection.organizationId, 'block_actions', {
+          actions: (payload.actions || []).map((action: any) => ({ action_id: action.action_id, value: action.value ?? null })),
+          user: { id: payload.user?.id || null },
+          response_url: payload.response_url || null
+        });
+      } else {
+        console.log(`ℹ️ [SlackInteractivity] Unhandled interaction type: ${payload.type}`);
+      }
+
+      response.status(200).send('');
+    } catch (error) {
+      console.error('❌ [SlackInteractivity] Error processing request:', error);
+      response.status(500).send('Internal server error');
+    }
+  }
+);
+
+/**
+ * Firestore trigger: run a queued interaction and post its result to Slack's `response_url`
+ */
+export const processSlackInteraction = onDocumentCreated(
+  {
+    document: `${INTERACTION_QUEUE_COLLECTION}/{interactionId}`,
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 120,
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async (event) => {
+    const interaction = event.data?.data();
+    if (!event.data || !interaction) {
+      return;
+    }
+
+    let message: SlackCommandResponse;
+    try {
+      const connection = await findSlackConnectionByTeam(interaction.teamId);
+      if (!connection || connection.organizationId !== interaction.organizationId) {
+        throw new Error('This Slack workspace is no longer connected');
+      }
+      message = interaction.type === 'command'
+        ? await handleSlashCommand(connection, interaction.body)
+        : await handleBlockAction(connection, interaction.body);
+    } catch (error: any) {
+      console.error(`❌ [SlackInteractivity] Interaction ${event.params.interactionId} failed:`, error);
+      message = ephemeral(`⚠️ ${error?.message || 'Something went wrong'}`);
+    }
+
+    try {
+      if (interaction.body?.response_url) {
+        await postToResponseUrl(interaction.body.response_url, message);
+      }
+      await event.data.ref.update({ status: 'processed', processedAt: FieldValue.serverTimestamp() });
+    } catch (error) {
+      console.error(`❌ [SlackInteractivity] Failed to respond to interaction ${event.params.interactionId}:`, error);
+      await event.data.ref.update({ status: 'failed', processedAt: FieldValue.serverTimestamp() }).catch(() => undefined);
+    }
+  }
+);
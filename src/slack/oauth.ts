@@ -19,7 +19,7 @@ import { db } from '../shared/utils';
 import * as crypto from 'crypto';
 import { getSlackConfig } from './config';
 import { Timestamp } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from './secrets';
+import { encryptionKey, getEncryptionKey, encryptionKeyPrevious } from './secrets';
 import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 
@@ -32,7 +32,7 @@ export const slackOAuthInitiate = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -120,7 +120,7 @@ export const slackOAuthRefresh = onCall(
     region: 'us-central1',
     cors: true,
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -205,7 +205,7 @@ export const slackRevokeAccess = onCall(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -305,7 +305,7 @@ export const slackOAuthCallback = onRequest(
   {
     region: 'us-central1',
     cors: true,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     try {
@@ -0,0 +1,102 @@
+/**
+ * Slack Request Verification
+ *
+ * Signature verification and team → organization lookup shared by the
+ * events webhook and the slash command / interactivity endpoint
+ */
+
+import * as crypto from 'crypto';
+import { db } from '../shared/utils';
+import { getSlackConfig } from './config';
+
+/** Requests older than this are rejected to prevent replay attacks */
+const MAX_REQUEST_AGE_SECONDS = 300;
+
+export interface SlackTeamConnection {
+  connectionId: string;
+  organizationId: string;
+  data: FirebaseFirestore.DocumentData;
+}
+
+export type SlackVerificationResult =
+  | { ok: true }
+  | { ok: false; status: number; reason: string };
+
+/**
+ * Verify Slack request signature
+ */
+export function verifySlackSignature(requestBody: string, signature: string, timestamp: string, signingSecret: string): boolean {
+  if (!signingSecret) {
+    console.warn('⚠️ [SlackVerification] No signing secret configured');
+    return false;
+  }
+
+  // Create signature base string
+  const sigBaseString = `v0:${timestamp}:${requestBody}`;
+
+  // Create HMAC
+  const hmac = crypto.createHmac('sha256', signingSecret);
+  hmac.update(sigBaseString);
+  const expectedSignature = 'v0=' + hmac.digest('hex');
+
+  // Timing-safe comparison
+  if (signature.length !== expectedSignature.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(
+    Buffer.from(signature),
+    Buffer.from(expectedSignature)
+  );
+}
+
+/**
+ * Find the active Slack connection (and so the organization) for a workspace
+ */
+export async function findSlackConnectionByTeam(teamId: string): Promise<SlackTeamConnection | null> {
+  const connectionQuery = await db.collectionGroup('slackConnections')
+    .where('teamId', '==', teamId)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+
+  if (connectionQuery.empty) {
+    return null;
+  }
+
+  const connectionDoc = connectionQuery.docs[0];
+  const data = connectionDoc.data();
+  return { connectionId: connectionDoc.id, organizationId: data.organizationId, data };
+}
+
+/**
+ * Verify a request came from Slack using the organization's signing secret.
+ * Slash commands and interactive payloads are form-encoded, so the raw body is
+ * signed rather than the parsed one.
+ */
+export async function verifySlackRequest(
+  request: { rawBody?: Buffer; body: any; get(name: string): string | undefined },
+  organizationId: string
+): Promise<SlackVerificationResult> {
+  const signature = request.get('x-slack-signature');
+  const timestamp = request.get('x-slack-request-timestamp');
+
+  if (!signature || !timestamp) {
+    return { ok: false, status: 401, reason: 'Missing signature or timestamp' };
+  }
+
+  const eventTime = parseInt(timestamp, 10);
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - eventTime) > MAX_REQUEST_AGE_SECONDS) {
+    return { ok: false, status: 401, reason: 'Request timestamp too old' };
+  }
+
+  const config = await getSlackConfig(organizationId);
+  const requestBody = request.rawBody ? request.rawBody.toString('utf8') : JSON.stringify(request.body);
+
+  if (!verifySlackSignature(requestBody, signature, timestamp, config.signingSecret)) {
+    return { ok: false, status: 401, reason: 'Invalid signature' };
+  }
+
+  return { ok: true };
+}
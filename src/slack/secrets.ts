@@ -3,10 +3,11 @@
  * This secret is defined here and imported by all Slack functions that need encryption
  */
 
-import { encryptionKey as unifiedKey } from '../integrations/unified-oauth/encryption';
+import { encryptionKey as unifiedKey, encryptionKeyPrevious as unifiedPreviousKey } from '../integrations/unified-oauth/encryption';
 
 // Re-export the unified encryption key secret to ensure the same instance is used everywhere
 export const encryptionKey = unifiedKey;
+export const encryptionKeyPrevious = unifiedPreviousKey;
 
 /**
  * Get the encryption key value
@@ -0,0 +1,123 @@
+/**
+ * Slack Slash Commands and Approval Buttons
+ *
+ * Parsing and message building for the Slack command / interactivity endpoint
+ * (see interactivity.ts). Kept free of Firestore so it can be unit tested.
+ */
+
+import { addWorkdays } from '../timecards/workdayTimeZone';
+
+export type SlackApprovalKind = 'timecard' | 'overtime';
+export type SlackApprovalDecision = 'approve' | 'reject';
+
+export interface SlackButtonAction {
+  actionId: string;
+  text: string;
+  value: string;
+  style?: 'primary' | 'danger';
+}
+
+export interface SlackCommandResponse {
+  response_type: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: any[];
+  replace_original?: boolean;
+}
+
+const APPROVAL_ACTION_PATTERN = /^(timecard|overtime)_(approve|reject)$/;
+const WORKDAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Approve / Reject buttons for an approval message
+ */
+export function buildApprovalActions(kind: SlackApprovalKind, targetId: string): SlackButtonAction[] {
+  return [
+    { actionId: `${kind}_approve`, text: 'Approve', value: targetId, style: 'primary' },
+    { actionId: `${kind}_reject`, text: 'Reject', value: targetId, style: 'danger' }
+  ];
+}
+
+export function parseApprovalAction(actionId: string): { kind: SlackApprovalKind; decision: SlackApprovalDecision } | null {
+  const match = APPROVAL_ACTION_PATTERN.exec(actionId || '');
+  return match ? { kind: match[1] as SlackApprovalKind, decision: match[2] as SlackApprovalDecision } : null;
+}
+
+/**
+ * Block Kit blocks for a message with buttons
+ */
+export function buildActionBlocks(text: string, actions: SlackButtonAction[]): any[] {
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: actions.map(action => ({
+        type: 'button',
+        action_id: action.actionId,
+        text: { type: 'plain_text', text: action.text },
+        value: action.value,
+        ...(action.style ? { style: action.style } : {})
+      }))
+    }
+  ];
+}
+
+/**
+ * Workday requested by `/callsheet [today|tomorrow|yesterday|YYYY-MM-DD]`, or null if unrecognized
+ */
+export function parseCallSheetDay(text: string, today: string): string | null {
+  const argument = (text || '').trim().toLowerCase();
+  if (!argument || argument === 'today') return today;
+  if (argument === 'tomorrow') return addWorkdays(today, 1);
+  if (argument === 'yesterday') return addWorkdays(today, -1);
+  return WORKDAY_PATTERN.test(argument) ? argument : null;
+}
+
+/**
+ * `/clockout` takes an optional "another_location" (or "move") when the user isn't wrapping
+ */
+export function parseClockOutStatus(text: string): 'wrapped' | 'another_location' {
+  const argument = (text || '').trim().toLowerCase();
+  return argument === 'another_location' || argument === 'move' ? 'another_location' : 'wrapped';
+}
+
+export function ephemeral(text: string): SlackCommandResponse {
+  return { response_type: 'ephemeral', text };
+}
+
+/**
+ * Summary of a published call sheet for a command response
+ */
+export function formatCallSheetSummary(callSheet: any): string {
+  const lines = [`*${callSheet.title || callSheet.projectName || 'Call Sheet'}* — ${callSheet.date}`];
+  if (callSheet.generalCrewCall || callSheet.callTime) {
+    lines.push(`General crew call: ${callSheet.generalCrewCall || callSheet.callTime}`);
+  }
+  if (callSheet.location) {
+    lines.push(`Location: ${callSheet.location}`);
+  }
+  if (callSheet.wrapTime) {
+    lines.push(`Estimated wrap: ${callSheet.wrapTime}`);
+  }
+  if (callSheet.weather) {
+    lines.push(`Weather: ${callSheet.weather}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Whether a user is on a published call sheet: its publisher, or one of its assigned
+ * team members (matched by id or email)
+ */
+export function isAssignedToCallSheet(callSheet: any, user: { id: string; email?: string | null }): boolean {
+  if (callSheet.publishedBy === user.id) {
+    return true;
+  }
+  if (Array.isArray(callSheet.teamMemberIds) && callSheet.teamMemberIds.includes(user.id)) {
+    return true;
+  }
+
+  const email = user.email?.toLowerCase();
+  return Array.isArray(callSheet.assignedTeamMembers) && callSheet.assignedTeamMembers.some((member: any) =>
+    member?.id === user.id || (!!email && member?.email?.toLowerCase() === email)
+  );
+}
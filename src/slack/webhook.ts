@@ -5,40 +5,13 @@
  * Handles message events, reactions, mentions for automation triggers
  */
 
-import { onRequest, HttpsError } from 'firebase-functions/v2/https';
+import { onRequest } from 'firebase-functions/v2/https';
 import { db } from '../shared/utils';
-import * as crypto from 'crypto';
-import { getSlackConfig } from './config';
 import { Timestamp } from 'firebase-admin/firestore';
 import { getSlackClient } from './api';
-
-/**
- * Verify Slack request signature
- */
-function verifySlackSignature(requestBody: string, signature: string, timestamp: string, signingSecret: string): boolean {
-  if (!signingSecret) {
-    console.warn('⚠️ [SlackWebhook] No signing secret configured');
-    return false;
-  }
-
-  // Create signature base string
-  const sigBaseString = `v0:${timestamp}:${requestBody}`;
-  
-  // Create HMAC
-  const hmac = crypto.createHmac('sha256', signingSecret);
-  hmac.update(sigBaseString);
-  const expectedSignature = 'v0=' + hmac.digest('hex');
-
-  // Timing-safe comparison
-  if (signature.length !== expectedSignature.length) {
-    return false;
-  }
-
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
-}
+import { encryptionKey, encryptionKeyPrevious } from './secrets';
+import { findSlackConnectionByTeam, verifySlackRequest } from './requestVerification';
+import { syncSlackMessageToSession, syncSlackReactionToSession } from '../messaging/slackBridgeService';
 
 /**
  * Handle Slack webhook events
@@ -48,6 +21,7 @@ export const slackWebhookHandler = onRequest(
     region: 'us-central1',
     cors: true,
     timeoutSeconds: 30,
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request, response) => {
     try {
@@ -69,47 +43,18 @@ export const slackWebhookHandler = onRequest(
       }
 
       // Find organization by Slack team ID
-      const connectionQuery = await db.collectionGroup('slackConnections')
-        .where('teamId', '==', teamId)
-        .where('isActive', '==', true)
-        .limit(1)
-        .get();
+      const connection = await findSlackConnectionByTeam(teamId);
 
-      if (connectionQuery.empty) {
+      if (!connection) {
         console.warn(`⚠️ [SlackWebhook] No active connection found for team: ${teamId}`);
         response.status(404).send('Connection not found');
         return;
       }
 
-      const connectionData = connectionQuery.docs[0].data();
-      const organizationId = connectionData.organizationId;
-
-      // Get Slack configuration for signature verification
-      const config = await getSlackConfig(organizationId);
-
-      const signature = request.get('x-slack-signature');
-      const timestamp = request.get('x-slack-request-timestamp');
-      const requestBody = JSON.stringify(request.body);
-
-      // Verify signature
-      if (!signature || !timestamp) {
-        console.warn('⚠️ [SlackWebhook] Missing signature or timestamp');
-        response.status(401).send('Unauthorized');
-        return;
-      }
-
-      // Check timestamp to prevent replay attacks
-      const eventTime = parseInt(timestamp, 10);
-      const now = Math.floor(Date.now() / 1000);
-      if (Math.abs(now - eventTime) > 300) {
-        console.warn('⚠️ [SlackWebhook] Request timestamp too old');
-        response.status(401).send('Unauthorized');
-        return;
-      }
-
-      if (!verifySlackSignature(requestBody, signature, timestamp, config.signingSecret)) {
-        console.warn('⚠️ [SlackWebhook] Invalid signature');
-        response.status(401).send('Unauthorized');
+      const verification = await verifySlackRequest(request, connection.organizationId);
+      if (!verification.ok) {
+        console.warn(`⚠️ [SlackWebhook] ${verification.reason}`);
+        response.status(verification.status).send('Unauthorized');
         return;
       }
 
@@ -193,6 +138,13 @@ async function handleMessageEvent(event: any, payload: any): Promise<void> {
       const connectionData = connectionDoc.data();
       const orgId = connectionData.organizationId;
 
+      // Mirror into a linked message session (edits and deletions included)
+      try {
+        await syncSlackMessageToSession(orgId, connectionDoc.id, event);
+      } catch (bridgeError) {
+        console.error('❌ [SlackWebhook] Error syncing message to linked session:', bridgeError);
+      }
+
       // Store message in Firestore for real-time subscriptions
       // Filter out system messages to only store actual conversation
       const systemSubtypes = [
@@ -325,6 +277,12 @@ async function handleReactionEvent(event: any, payload: any): Promise<void> {
       const orgId = connectionData.organizationId;
       const connectionId = connectionDoc.id;
 
+      try {
+        await syncSlackReactionToSession(orgId, connectionId, event);
+      } catch (bridgeError) {
+        console.error('❌ [SlackWebhook] Error syncing reaction to linked session:', bridgeError);
+      }
+
       try {
         // Get Slack client
         const client = await getSlackClient(connectionId, orgId);
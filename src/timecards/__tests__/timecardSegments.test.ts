@@ -0,0 +1,54 @@
+/**
+ * Timecard Segments Tests
+ *
+ * Tests for transactional segment updates on an open timecard entry
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({
+    runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+      get: async (ref: any) => ({ data: () => ref.data }),
+      update: (ref: any, fields: Record<string, any>) => {
+        ref.data = { ...ref.data, ...fields };
+      }
+    })
+  }))
+}));
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { getOpenSegment, transitionSegments, updateOpenEntrySegments, TimecardSegment } from '../timecardSegments';
+
+const clockIn = Timestamp.fromDate(new Date('2026-03-02T08:00:00.000Z'));
+const breakAt = Timestamp.fromDate(new Date('2026-03-02T12:00:00.000Z'));
+
+function startMeal(segments: TimecardSegment[]) {
+  const open = getOpenSegment(segments);
+  if (open && open.type !== 'work') {
+    throw new Error('already on a break');
+  }
+  return { segments: transitionSegments(segments, breakAt, { type: 'meal' }), fields: { onBreak: true } };
+}
+
+describe('updateOpenEntrySegments', () => {
+  it('writes the transition and refuses a repeated break start', async () => {
+    const ref: any = { data: { clockInTime: clockIn } };
+
+    const segments = await updateOpenEntrySegments(ref, startMeal);
+    expect(segments?.map(segment => [segment.type, !!segment.endTime])).toEqual([['work', true], ['meal', false]]);
+    expect(ref.data).toMatchObject({ onBreak: true, mealBreakStart: breakAt, mealBreakTaken: false });
+
+    await expect(updateOpenEntrySegments(ref, startMeal)).rejects.toThrow('already on a break');
+    expect(ref.data.segments).toHaveLength(2);
+  });
+
+  it('returns null once the entry has been clocked out', async () => {
+    const ref: any = { data: { clockInTime: clockIn, clockOutTime: breakAt } };
+    const transition = vi.fn(startMeal);
+
+    await expect(updateOpenEntrySegments(ref, transition)).resolves.toBeNull();
+    expect(transition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Approval Chain Tests
+ *
+ * Tests for who may act on the current approval step and how escalation moves the chain
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Timestamp } from 'firebase-admin/firestore';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+vi.mock('../../../notifications/notificationDispatcher', () => ({ dispatchNotification: vi.fn() }));
+vi.mock('../../../slack/slashCommands', () => ({ buildApprovalActions: vi.fn() }));
+
+import {
+  applyApprovalAction,
+  ApprovalDelegation,
+  resolveStepAuthority,
+  TimecardApprovalState
+} from '../approvalChainService';
+
+const state = {
+  currentStep: 0,
+  steps: [{ index: 0, name: 'Department Head', approverIds: ['head'], status: 'pending' }]
+} as unknown as TimecardApprovalState;
+
+const delegation: ApprovalDelegation = {
+  id: 'd1',
+  organizationId: 'org1',
+  delegatorId: 'head',
+  delegateId: 'deputy',
+  startDate: Timestamp.fromDate(new Date('2026-01-01')),
+  endDate: Timestamp.fromDate(new Date('2026-12-31')),
+  isActive: true
+};
+
+describe('resolveStepAuthority', () => {
+  it('lets step approvers and their delegates act', () => {
+    expect(resolveStepAuthority(state, 'head', [], false, 'crew1')).toEqual({ allowed: true, onBehalfOf: null });
+    expect(resolveStepAuthority(state, 'deputy', [delegation], false, 'crew1')).toEqual({ allowed: true, onBehalfOf: 'head' });
+    expect(resolveStepAuthority(state, 'other', [], true, 'crew1').allowed).toBe(false);
+  });
+
+  it('refuses approvers and delegates acting on their own timecard', () => {
+    expect(resolveStepAuthority(state, 'head', [], true, 'head')).toEqual({ allowed: false, onBehalfOf: null, ownTimecard: true });
+    expect(resolveStepAuthority(state, 'deputy', [delegation], false, 'deputy')).toMatchObject({ allowed: false, ownTimecard: true });
+  });
+});
+
+describe('applyApprovalAction', () => {
+  const now = Timestamp.fromDate(new Date('2026-03-02T12:00:00.000Z'));
+
+  it('keeps a timecard submitted and hands the last step to admins when it is escalated', () => {
+    const result = applyApprovalAction(
+      { ...state, stepDueAt: now },
+      'escalate',
+      { userId: 'system', comments: 'Overdue', autoEscalated: true },
+      now
+    );
+
+    expect(result.status).toBe('SUBMITTED');
+    expect(result.escalatedToAdmins).toBe(true);
+    expect(result.state.currentStep).toBe(0);
+    expect(result.state.stepDueAt).toBeNull();
+    expect(result.state.steps[0]).toMatchObject({ status: 'pending', escalatedToAdmins: true });
+    expect(resolveStepAuthority(result.state, 'admin1', [], true, 'crew1').allowed).toBe(true);
+    expect(resolveStepAuthority(result.state, 'other', [], false, 'crew1').allowed).toBe(false);
+  });
+
+  it('approves the timecard on the last step', () => {
+    expect(applyApprovalAction(state, 'approve', { userId: 'head' }, now).status).toBe('APPROVED');
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Approval Chain Service
+ *
+ * Multi-level timecard approval (e.g. department head → UPM → payroll).
+ * Chains are configured on `timecardConfigurations.approvalChain`; the live state of a
+ * submitted timecard is stored on the document itself under `approvalChain`.
+ * Managers can delegate their approvals for a date range via `approvalDelegations`.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { dispatchNotification } from '../../notifications/notificationDispatcher';
+import { buildApprovalActions } from '../../slack/slashCommands';
+
+const db = getFirestore();
+
+/**
+ * Default SLA before a step is auto-escalated, in hours
+ */
+export const DEFAULT_ESCALATION_THRESHOLD_HOURS = 48;
+
+export type ApprovalAction = 'approve' | 'reject' | 'escalate';
+export type ApprovalStepStatus = 'pending' | 'waiting' | 'approved' | 'rejected' | 'escalated';
+
+/**
+ * A configured step in an approval chain
+ */
+export interface ApprovalChainStepConfig {
+  name: string;
+  approverIds?: string[];
+  approverRole?: string;
+  useDirectManager?: boolean;
+}
+
+/**
+ * A step as recorded on a timecard
+ */
+export interface ApprovalStepRecord {
+  index: number;
+  name: string;
+  approverIds: string[];
+  status: ApprovalStepStatus;
+  actedBy: string | null;
+  actedOnBehalfOf: string | null;
+  actedAt: Timestamp | null;
+  comments: string | null;
+  autoEscalated?: boolean;
+  /** Escalated past the last step: stays open and org admins may act on it */
+  escalatedToAdmins?: boolean;
+}
+
+export interface TimecardApprovalState {
+  configurationId: string | null;
+  steps: ApprovalStepRecord[];
+  currentStep: number;
+  stepStartedAt: Timestamp;
+  stepDueAt: Timestamp | null;
+  escalationThresholdHours: number | null;
+}
+
+export interface ApprovalChainConfig {
+  configurationId: string;
+  steps: ApprovalChainStepConfig[];
+  escalationThresholdHours: number | null;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  organizationId: string;
+  delegatorId: string;
+  delegateId: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  isActive: boolean;
+}
+
+/**
+ * Validate a chain from a configuration request body
+ */
+export function validateApprovalChain(chain: any): ApprovalChainStepConfig[] {
+  if (!Array.isArray(chain)) {
+    throw new Error('approvalChain must be an array of steps');
+  }
+
+  return chain.map((step: any, index: number) => {
+    if (!step || typeof step.name !== 'string' || !step.name.trim()) {
+      throw new Error(`approvalChain step ${index + 1} requires a name`);
+    }
+
+    const approverIds = Array.isArray(step.approverIds) ? step.approverIds.filter(Boolean) : [];
+    if (approverIds.length === 0 && !step.approverRole && !step.useDirectManager) {
+      throw new Error(`approvalChain step "${step.name}" needs approverIds, approverRole or useDirectManager`);
+    }
+
+    const normalized: ApprovalChainStepConfig = { name: step.name.trim() };
+    if (approverIds.length > 0) normalized.approverIds = approverIds;
+    if (step.approverRole) normalized.approverRole = step.approverRole;
+    if (step.useDirectManager) normalized.useDirectManager = true;
+    return normalized;
+  });
+}
+
+/**
+ * Find the approval chain that applies to a user (user-specific config wins over org-wide)
+ */
+export async function resolveApprovalChainConfig(
+  organizationId: string,
+  userId: string
+): Promise<ApprovalChainConfig | null> {
+  const configsSnapshot = await db.collection('timecardConfigurations')
+    .where('organizationId', '==', organizationId)
+    .where('isActive', '==', true)
+    .get();
+
+  const withChains = configsSnapshot.docs.filter(doc => {
+    const chain = doc.data().approvalChain;
+    return Array.isArray(chain) && chain.length > 0;
+  });
+
+  const configDoc = withChains.find(doc => doc.data().userId === userId) ||
+    withChains.find(doc => !doc.data().userId);
+
+  if (!configDoc) {
+    return null;
+  }
+
+  const config = configDoc.data();
+  return {
+    configurationId: configDoc.id,
+    steps: config.approvalChain,
+    escalationThresholdHours: config.enableEscalation === false
+      ? null
+      : (config.escalationThreshold || DEFAULT_ESCALATION_THRESHOLD_HOURS)
+  };
+}
+
+/**
+ * Resolve the user IDs that may act on a configured step
+ */
+async function resolveStepApprovers(
+  step: ApprovalChainStepConfig,
+  organizationId: string,
+  employeeId: string
+): Promise<string[]> {
+  const approvers = new Set<string>(step.approverIds || []);
+
+  if (step.useDirectManager) {
+    const managerQuery = await db.collection('teamMembers')
+      .where('organizationId', '==', organizationId)
+      .where('userId', '==', employeeId)
+      .where('isActive', '==', true)
+      .get();
+
+    managerQuery.docs.forEach(doc => {
+      const data = doc.data();
+      if (data.managerId && data.canApproveTimecards !== false) {
+        approvers.add(data.managerId);
+      }
+    });
+  }
+
+  if (step.approverRole) {
+    const roleQuery = await db.collection('teamMembers')
+      .where('organizationId', '==', organizationId)
+      .where('role', '==', step.approverRole)
+      .where('isActive', '==', true)
+      .get();
+
+    roleQuery.docs.forEach(doc => {
+      const data = doc.data();
+      approvers.add(data.userId || doc.id);
+    });
+  }
+
+  // Nobody approves their own timecard
+  approvers.delete(employeeId);
+  return Array.from(approvers);
+}
+
+function computeDueAt(from: Timestamp, thresholdHours: number | null): Timestamp | null {
+  if (!thresholdHours) return null;
+  return Timestamp.fromMillis(from.toMillis() + thresholdHours * 60 * 60 * 1000);
+}
+
+/**
+ * Build the initial approval state for a newly submitted timecard
+ */
+export async function buildApprovalState(
+  chain: ApprovalChainConfig,
+  organizationId: string,
+  employeeId: string,
+  now: Timestamp = Timestamp.now()
+): Promise<TimecardApprovalState> {
+  const steps: ApprovalStepRecord[] = [];
+  for (const [index, step] of chain.steps.entries()) {
+    steps.push({
+      index,
+      name: step.name,
+      approverIds: await resolveStepApprovers(step, organizationId, employeeId),
+      status: index === 0 ? 'pending' : 'waiting',
+      actedBy: null,
+      actedOnBehalfOf: null,
+      actedAt: null,
+      comments: null
+    });
+  }
+
+  return {
+    configurationId: chain.configurationId,
+    steps,
+    currentStep: 0,
+    stepStartedAt: now,
+    stepDueAt: computeDueAt(now, chain.escalationThresholdHours),
+    escalationThresholdHours: chain.escalationThresholdHours
+  };
+}
+
+/**
+ * Active delegations granted to a user at a point in time
+ */
+export async function getActiveDelegationsFor(
+  organizationId: string,
+  delegateId: string,
+  at: Date = new Date()
+): Promise<ApprovalDelegation[]> {
+  const delegationsSnapshot = await db.collection('approvalDelegations')
+    .where('organizationId', '==', organizationId)
+    .where('delegateId', '==', delegateId)
+    .where('isActive', '==', true)
+    .get();
+
+  return delegationsSnapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as ApprovalDelegation))
+    .filter(delegation =>
+      delegation.startDate.toDate() <= at && delegation.endDate.toDate() >= at
+    );
+}
+
+/**
+ * Determine whether a user may act on the current step, directly or as a delegate.
+ * Returns the approver being represented when acting under a delegation.
+ * Nobody acts on their own timecard, whatever their role or delegations.
+ */
+export function resolveStepAuthority(
+  state: TimecardApprovalState,
+  userId: string,
+  delegations: ApprovalDelegation[],
+  isAdmin: boolean,
+  ownerId: string | null
+): { allowed: boolean; onBehalfOf: string | null; ownTimecard?: boolean } {
+  if (ownerId && ownerId === userId) {
+    return { allowed: false, onBehalfOf: null, ownTimecard: true };
+  }
+
+  const step = state.steps[state.currentStep];
+  if (!step) {
+    return { allowed: false, onBehalfOf: null };
+  }
+
+  if (step.approverIds.includes(userId)) {
+    return { allowed: true, onBehalfOf: null };
+  }
+
+  const delegation = delegations.find(d => step.approverIds.includes(d.delegatorId));
+  if (delegation) {
+    return { allowed: true, onBehalfOf: delegation.delegatorId };
+  }
+
+  // Admins can act on steps with no resolvable approver, or escalated to them, so timecards don't get stuck
+  if (isAdmin && (step.approverIds.length === 0 || step.escalatedToAdmins)) {
+    return { allowed: true, onBehalfOf: null };
+  }
+
+  return { allowed: false, onBehalfOf: null };
+}
+
+/**
+ * Apply an action to the approval state.
+ * Approve/escalate advance to the next step; the final approval completes the chain.
+ * Escalating the last step keeps the timecard submitted and hands the step to org admins.
+ */
+export function applyApprovalAction(
+  state: TimecardApprovalState,
+  action: ApprovalAction,
+  actor: { userId: string; onBehalfOf?: string | null; comments?: string | null; autoEscalated?: boolean },
+  now: Timestamp = Timestamp.now()
+): { state: TimecardApprovalState; status: 'SUBMITTED' | 'APPROVED' | 'REJECTED'; escalatedToAdmins?: boolean } {
+  const steps = state.steps.map(step => ({ ...step }));
+  const current = steps[state.currentStep];
+  const nextStep = state.currentStep + 1;
+
+  if (action === 'escalate' && nextStep >= steps.length) {
+    // Nothing above the last step: leave it pending and stop the SLA clock so it isn't re-escalated
+    current.escalatedToAdmins = true;
+    current.comments = actor.comments || current.comments;
+    if (actor.autoEscalated) current.autoEscalated = true;
+    return { state: { ...state, steps, stepDueAt: null }, status: 'SUBMITTED', escalatedToAdmins: true };
+  }
+  const statusMap: Record<ApprovalAction, ApprovalStepStatus> = {
+    approve: 'approved',
+    reject: 'rejected',
+    escalate: 'escalated'
+  };
+
+  current.status = statusMap[action];
+  current.actedBy = actor.userId;
+  current.actedOnBehalfOf = actor.onBehalfOf || null;
+  current.actedAt = now;
+  current.comments = actor.comments || null;
+  if (actor.autoEscalated) current.autoEscalated = true;
+
+  if (action === 'reject') {
+    return { state: { ...state, steps, stepDueAt: null }, status: 'REJECTED' };
+  }
+
+  if (nextStep >= steps.length) {
+    return { state: { ...state, steps, stepDueAt: null }, status: 'APPROVED' };
+  }
+
+  steps[nextStep].status = 'pending';
+  return {
+    state: {
+      ...state,
+      steps,
+      currentStep: nextStep,
+      stepStartedAt: now,
+      stepDueAt: computeDueAt(now, state.escalationThresholdHours)
+    },
+    status: 'SUBMITTED'
+  };
+}
+
+/**
+ * Notify the approvers (and their active delegates) of the current step
+ */
+export async function notifyCurrentStepApprovers(
+  state: TimecardApprovalState,
+  organizationId: string,
+  timecardId: string,
+  reason: 'submitted' | 'advanced' | 'escalated'
+): Promise<void> {
+  const step = state.steps[state.currentStep];
+  if (!step || step.approverIds.length === 0) return;
+
+  const recipients = new Set<string>(step.approverIds);
+  const now = new Date();
+  const delegationsSnapshot = await db.collection('approvalDelegations')
+    .where('organizationId', '==', organizationId)
+    .where('isActive', '==', true)
+    .get();
+
+  delegationsSnapshot.docs.forEach(doc => {
+    const delegation = doc.data();
+    if (step.approverIds.includes(delegation.delegatorId) &&
+        delegation.startDate?.toDate?.() <= now && delegation.endDate?.toDate?.() >= now) {
+      recipients.add(delegation.delegateId);
+    }
+  });
+
+  const messages = {
+    submitted: `A timecard is waiting for your approval (${step.name})`,
+    advanced: `A timecard has moved to the ${step.name} approval step`,
+    escalated: `An overdue timecard was escalated to the ${step.name} approval step`
+  };
+
+  try {
+    // Goes through the dispatcher so approvers' channel, quiet-hour and digest preferences apply
+    await dispatchNotification({
+      organizationId,
+      category: 'timecard_approval',
+      title: 'Timecard approval needed',
+      message: messages[reason],
+      recipientIds: Array.from(recipients),
+      priority: reason === 'escalated' ? 'urgent' : undefined,
+      data: {
+        timecardId,
+        step: step.name,
+        stepIndex: step.index,
+        reason,
+        slackActions: buildApprovalActions('timecard', timecardId)
+      }
+    });
+  } catch (error) {
+    // Notification failures must not fail the approval action itself
+    console.error(`❌ [APPROVAL CHAIN] Failed to notify approvers for ${timecardId}:`, error);
+  }
+}
+
+/**
+ * Ask org admins to step in on a last step that was escalated
+ */
+export async function notifyAdminsOfEscalation(
+  state: TimecardApprovalState,
+  organizationId: string,
+  timecardId: string
+): Promise<void> {
+  const step = state.steps[state.currentStep];
+  if (!step) return;
+
+  try {
+    await dispatchNotification({
+      organizationId,
+      category: 'timecard_approval',
+      title: 'Timecard approval escalated',
+      message: `A timecard was escalated past the final ${step.name} approval step and needs an admin`,
+      recipientRoles: ['ADMIN', 'OWNER'],
+      priority: 'urgent',
+      data: {
+        timecardId,
+        step: step.name,
+        stepIndex: step.index,
+        reason: 'escalated',
+        slackActions: buildApprovalActions('timecard', timecardId)
+      }
+    });
+  } catch (error) {
+    // Notification failures must not fail the escalation itself
+    console.error(`❌ [APPROVAL CHAIN] Failed to notify admins for ${timecardId}:`, error);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Approval Delegation Functions
+ * 
+ * Lets an approver hand their timecard approvals to someone else for a date range
+ * (e.g. while on vacation). Admins can create delegations on behalf of any approver.
+ */
+
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError, sendNotification } from '../../shared/utils';
+
+const db = getFirestore();
+
+async function getCallerContext(userId: string) {
+  const userRecord = await getAuth().getUser(userId);
+  const userClaims = userRecord.customClaims || {};
+  const organizationId = userClaims.organizationId as string;
+
+  if (!organizationId) {
+    throw new Error('User must belong to an organization');
+  }
+
+  const isAdmin = userClaims.role === 'ADMIN' || userClaims.role === 'OWNER' || userClaims.isAdmin === true;
+  return { organizationId, isAdmin };
+}
+
+export const createApprovalDelegation = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { delegateId, startDate, endDate, reason } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new Error('Authentication required');
+      }
+
+      if (!delegateId) {
+        throw new Error('Delegate ID is required');
+      }
+
+      const { organizationId, isAdmin } = await getCallerContext(userId);
+      const delegatorId = request.data?.delegatorId || userId;
+
+      if (delegatorId !== userId && !isAdmin) {
+        throw new Error('Only organization admins can create delegations for other approvers');
+      }
+
+      if (delegateId === delegatorId) {
+        throw new Error('Cannot delegate approvals to yourself');
+      }
+
+      const start = startDate ? new Date(startDate) : new Date();
+      const end = endDate ? new Date(endDate) : null;
+      if (isNaN(start.getTime()) || !end || isNaN(end.getTime())) {
+        throw new Error('Valid startDate and endDate are required');
+      }
+      if (end <= start) {
+        throw new Error('endDate must be after startDate');
+      }
+
+      // Delegate must be an active member of the same organization
+      const delegateQuery = await db.collection('teamMembers')
+        .where('organizationId', '==', organizationId)
+        .where('userId', '==', delegateId)
+        .where('isActive', '==', true)
+        .limit(1)
+        .get();
+
+      if (delegateQuery.empty) {
+        throw new Error('Delegate must be an active member of your organization');
+      }
+
+      const delegationData = {
+        organizationId,
+        delegatorId,
+        delegateId,
+        startDate: Timestamp.fromDate(start),
+        endDate: Timestamp.fromDate(end),
+        reason: reason || null,
+        isActive: true,
+        createdBy: userId,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      };
+
+      const docRef = await db.collection('approvalDelegations').add(delegationData);
+
+      await sendNotification(
+        delegateId,
+        organizationId,
+        'approval_delegation',
+        'Timecard approvals delegated to you',
+        `You can approve timecards on behalf of another approver until ${end.toISOString().split('T')[0]}`,
+        { delegationId: docRef.id, delegatorId }
+      );
+
+      console.log(`⏰ [APPROVAL DELEGATION] ${delegatorId} delegated approvals to ${delegateId} (${docRef.id})`);
+
+      return createSuccessResponse({
+        id: docRef.id,
+        ...delegationData,
+        startDate: start.toISOString(),
+        endDate: end.toISOString()
+      }, 'Approval delegation created successfully');
+
+    } catch (error: any) {
+      console.error('❌ [APPROVAL DELEGATION] Error:', error);
+      return handleError(error, 'createApprovalDelegation');
+    }
+  }
+);
+
+export const revokeApprovalDelegation = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { delegationId } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new Error('Authentication required');
+      }
+
+      if (!delegationId) {
+        throw new Error('Delegation ID is required');
+      }
+
+      const { organizationId, isAdmin } = await getCallerContext(userId);
+
+      const delegationRef = db.collection('approvalDelegations').doc(delegationId);
+      const delegationDoc = await delegationRef.get();
+      const delegation = delegationDoc.data();
+
+      if (!delegationDoc.exists || !delegation || delegation.organizationId !== organizationId) {
+        throw new Error('Delegation not found');
+      }
+
+      if (delegation.delegatorId !== userId && !isAdmin) {
+        throw new Error('Only the delegating approver or an admin can revoke this delegation');
+      }
+
+      await delegationRef.update({
+        isActive: false,
+        revokedBy: userId,
+        revokedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      console.log(`⏰ [APPROVAL DELEGATION] Delegation ${delegationId} revoked by ${userId}`);
+
+      return createSuccessResponse({ id: delegationId, isActive: false }, 'Approval delegation revoked successfully');
+
+    } catch (error: any) {
+      console.error('❌ [APPROVAL DELEGATION] Error revoking delegation:', error);
+      return handleError(error, 'revokeApprovalDelegation');
+    }
+  }
+);
@@ -0,0 +1,99 @@
+/**
+ * Escalate Stale Approvals
+ * 
+ * Scheduled function that auto-escalates approval chain steps past their SLA
+ * (`approvalChain.stepDueAt`) to the next step and notifies its approvers; an overdue
+ * last step is handed to org admins instead.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { db } from '../../shared/utils';
+import {
+  applyApprovalAction,
+  notifyAdminsOfEscalation,
+  notifyCurrentStepApprovers,
+  TimecardApprovalState
+} from './approvalChainService';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+import { encryptionKey, encryptionKeyPrevious } from '../../slack/secrets';
+
+const PENDING_STATUSES = ['SUBMITTED', 'PENDING', 'PENDING_APPROVAL'];
+
+export const escalateStaleApprovals = onSchedule(
+  {
+    schedule: 'every 60 minutes',
+    region: 'us-central1',
+    timeZone: 'UTC',
+    cpu: 0.5,
+    memory: '512MiB',
+    secrets: [encryptionKey, encryptionKeyPrevious],
+  },
+  async () => {
+    const now = Timestamp.now();
+    let escalated = 0;
+
+    console.log(`⏰ [APPROVAL ESCALATION] Checking overdue approval steps at ${now.toDate().toISOString()}`);
+
+    for (const collectionName of ['timecard_entries', 'timecards']) {
+      try {
+        const overdueQuery = await db.collection(collectionName)
+          .where('approvalChain.stepDueAt', '<=', now)
+          .get();
+
+        for (const doc of overdueQuery.docs) {
+          try {
+            // Re-read inside a transaction: an approver may have acted since the query ran
+            const outcome = await db.runTransaction(async transaction => {
+              const snapshot = await transaction.get(doc.ref);
+              const data = snapshot.data();
+              const state = data?.approvalChain as TimecardApprovalState | undefined;
+              if (
+                !data || !state || !state.stepDueAt || state.stepDueAt.toMillis() > now.toMillis() ||
+                !PENDING_STATUSES.includes((data.status || '').toUpperCase())
+              ) {
+                return null;
+              }
+
+              const overdueStep = state.steps[state.currentStep];
+              const result = applyApprovalAction(state, 'escalate', {
+                userId: 'system',
+                comments: `Auto-escalated after ${state.escalationThresholdHours}h without action`,
+                autoEscalated: true
+              }, now);
+
+              transaction.update(doc.ref, {
+                approvalChain: result.state,
+                status: result.status,
+                escalatedAt: FieldValue.serverTimestamp(),
+                escalatedBy: 'system',
+                escalationReason: `Approval step "${overdueStep?.name}" exceeded its SLA`,
+                revisionContext: buildRevisionContext('system', 'escalation'),
+                updatedAt: FieldValue.serverTimestamp()
+              });
+              return { result, organizationId: data.organizationId as string };
+            });
+            if (!outcome) {
+              continue;
+            }
+
+            const { result, organizationId } = outcome;
+            if (result.escalatedToAdmins) {
+              await notifyAdminsOfEscalation(result.state, organizationId, doc.id);
+            } else if (result.status === 'SUBMITTED') {
+              await notifyCurrentStepApprovers(result.state, organizationId, doc.id, 'escalated');
+            }
+
+            escalated++;
+          } catch (entryError: any) {
+            console.error(`❌ [APPROVAL ESCALATION] Error escalating ${collectionName}/${doc.id}:`, entryError);
+          }
+        }
+      } catch (queryError: any) {
+        console.error(`❌ [APPROVAL ESCALATION] Error querying ${collectionName}:`, queryError);
+      }
+    }
+
+    console.log(`✅ [APPROVAL ESCALATION] Escalated ${escalated} overdue approval step(s)`);
+  }
+);
@@ -1,7 +1,8 @@
 /**
  * Get Timecard History Function
  * 
- * Retrieves approval history for a specific timecard
+ * Retrieves approval history for a specific timecard, including its revision log
+ * and correction requests
  * Callable version only - HTTP version removed to reduce CPU quota
  */
 
@@ -9,6 +10,8 @@ import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import { createSuccessResponse, createErrorResponse, handleError } from '../../shared/utils';
+import { getEntrySegments, serializeSegments } from '../timecardSegments';
+import { getTimecardRevisions } from '../revisions/timecardRevisions';
 
 const db = getFirestore();
 
@@ -41,9 +44,14 @@ export const getTimecardHistory = onCall(
         throw new Error('User must belong to an organization');
       }
 
-      // Get the timecard entry
-      const entryRef = db.collection('timecard_entries').doc(timecardId);
-      const entryDoc = await entryRef.get();
+      // Get the timecard entry - try both collections for compatibility
+      let collection = 'timecard_entries';
+      let entryDoc = await db.collection(collection).doc(timecardId).get();
+
+      if (!entryDoc.exists) {
+        collection = 'timecards';
+        entryDoc = await db.collection(collection).doc(timecardId).get();
+      }
 
       if (!entryDoc.exists) {
         throw new Error('Timecard entry not found');
@@ -72,6 +80,20 @@ export const getTimecardHistory = onCall(
         });
       }
 
+      // Add work/meal/break segment events
+      const segments = getEntrySegments(entryData);
+      segments.forEach((segment, index) => {
+        history.push({
+          action: 'segment',
+          segmentType: segment.type,
+          segmentIndex: index,
+          timestamp: segment.startTime,
+          endTime: segment.endTime,
+          performedBy: entryData.userId,
+          notes: segment.notes
+        });
+      });
+
       // Add submission event
       if (entryData.submittedAt) {
         history.push({
@@ -115,6 +137,64 @@ export const getTimecardHistory = onCall(
         });
       }
 
+      // Add approval chain step events
+      const approvalSteps: any[] = entryData.approvalChain?.steps || [];
+      approvalSteps.filter(step => step.actedAt).forEach(step => {
+        history.push({
+          action: `step_${step.status}`,
+          stepName: step.name,
+          stepIndex: step.index,
+          timestamp: step.actedAt,
+          performedBy: step.actedBy,
+          onBehalfOf: step.actedOnBehalfOf,
+          autoEscalated: step.autoEscalated || false,
+          comments: step.comments
+        });
+      });
+
+      // Add revision events (every recorded change with before/after values)
+      const revisions = await getTimecardRevisions(collection, timecardId);
+      revisions.forEach(revision => {
+        history.push({
+          action: 'revision',
+          revisionId: revision.id,
+          revisionAction: revision.action,
+          timestamp: revision.changedAt,
+          performedBy: revision.changedBy,
+          source: revision.source,
+          reason: revision.reason,
+          correctionRequestId: revision.correctionRequestId,
+          changedFields: revision.changes.map(change => change.field)
+        });
+      });
+
+      // Add correction request events
+      const correctionsSnapshot = await db.collection('timecardCorrectionRequests')
+        .where('timecardId', '==', timecardId)
+        .where('organizationId', '==', organizationId)
+        .get();
+
+      correctionsSnapshot.docs.forEach(doc => {
+        const correction = doc.data();
+        history.push({
+          action: 'correction_requested',
+          correctionRequestId: doc.id,
+          timestamp: correction.createdAt,
+          performedBy: correction.requestedBy,
+          reason: correction.reason
+        });
+        if (correction.reviewedAt) {
+          history.push({
+            action: `correction_${(correction.status || '').toLowerCase()}`,
+            correctionRequestId: doc.id,
+            timestamp: correction.reviewedAt,
+            performedBy: correction.reviewedBy,
+            onBehalfOf: correction.reviewedOnBehalfOf,
+            comments: correction.reviewComments
+          });
+        }
+      });
+
       // Sort by timestamp (most recent first)
       history.sort((a, b) => {
         const aTime = a.timestamp?.toDate?.() || new Date(a.timestamp);
@@ -127,6 +207,9 @@ export const getTimecardHistory = onCall(
       return createSuccessResponse({
         timecardId,
         history,
+        segments: serializeSegments(segments),
+        approvalChain: entryData.approvalChain || null,
+        revisions,
         currentStatus: entryData.status,
         summary: {
           totalEvents: history.length,
@@ -6,3 +6,5 @@ export { takeApprovalAction } from './takeApprovalAction';
 export { getTimecardHistory } from './getTimecardHistory';
 export { submitTimecardForApproval } from './submitTimecardForApproval';
 
+export { createApprovalDelegation, revokeApprovalDelegation } from './approvalDelegations';
+export { escalateStaleApprovals } from './escalateStaleApprovals';
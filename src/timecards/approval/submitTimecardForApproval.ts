@@ -10,6 +10,9 @@ import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, handleError } from '../../shared/utils';
+import { buildApprovalState, notifyCurrentStepApprovers, resolveApprovalChainConfig } from './approvalChainService';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+import { encryptionKey, encryptionKeyPrevious } from '../../slack/secrets';
 
 const db = getFirestore();
 
@@ -112,7 +115,9 @@ export const submitTimecardForApproval = onCall(
   {
     memory: '512MiB',
     timeoutSeconds: 60,
-    cors: true
+    cors: true,
+    // Approval notifications can go out over Slack
+    secrets: [encryptionKey, encryptionKeyPrevious]
   },
   async (request) => {
     try {
@@ -187,9 +192,14 @@ export const submitTimecardForApproval = onCall(
       // Calculate totals using template rules
       const calculations = await calculateTimecardTotals(entryData, template);
 
-      // Update entry with calculated values and SUBMITTED status
+      // Start the multi-level approval chain, if one is configured
       const submittedAt = admin.firestore.Timestamp.now();
+      const chain = await resolveApprovalChainConfig(organizationId, userId);
+      const approvalChain = chain ? await buildApprovalState(chain, organizationId, userId, submittedAt) : null;
+
+      // Update entry with calculated values and SUBMITTED status
       await entryRef.update({
+        ...(approvalChain ? { approvalChain } : {}),
         status: 'SUBMITTED',
         submittedAt: submittedAt,
         totalHours: calculations.totalHours,
@@ -199,9 +209,14 @@ export const submitTimecardForApproval = onCall(
         mealPenalty: calculations.mealPenalty,
         totalPay: calculations.totalPay,
         hourlyRate: entryData.hourlyRate || template?.hourlyRate || 0,
+        revisionContext: buildRevisionContext(userId, 'submission'),
         updatedAt: admin.firestore.FieldValue.serverTimestamp()
       });
 
+      if (approvalChain) {
+        await notifyCurrentStepApprovers(approvalChain, organizationId, timecardId, 'submitted');
+      }
+
       // ⚡ OPTIMIZATION: Don't do an extra get() call - construct response from data we already have
       // This saves a database round-trip and significantly improves performance
       const responseData = {
@@ -213,7 +228,8 @@ export const submitTimecardForApproval = onCall(
         overtimeHours: calculations.overtimeHours,
         doubleTimeHours: calculations.doubleTimeHours,
         mealPenalty: calculations.mealPenalty,
-        totalPay: calculations.totalPay
+        totalPay: calculations.totalPay,
+        currentApprovalStep: approvalChain ? approvalChain.steps[0]?.name || null : null
       };
 
       console.log(`✅ [SUBMIT TIMECARD] Timecard ${timecardId} submitted successfully with calculations:`, {
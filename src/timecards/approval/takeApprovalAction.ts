@@ -2,137 +2,235 @@
  * Take Approval Action Function
  * 
  * Handles timecard approval actions (approve, reject, escalate)
+ * When an approval chain is configured, each action completes the current step
  * Callable version only - HTTP version removed to reduce CPU quota
  */
 
-import { onCall } from 'firebase-functions/v2/https';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse, handleError } from '../../shared/utils';
+import {
+  ApprovalAction,
+  applyApprovalAction,
+  buildApprovalState,
+  getActiveDelegationsFor,
+  notifyAdminsOfEscalation,
+  notifyCurrentStepApprovers,
+  resolveApprovalChainConfig,
+  resolveStepAuthority,
+  TimecardApprovalState
+} from './approvalChainService';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+import { encryptionKey, encryptionKeyPrevious } from '../../slack/secrets';
 
 const db = getFirestore();
 
-export const takeApprovalAction = onCall(
-  {
-    memory: '512MiB',
-    timeoutSeconds: 60,
-    cors: true
-  },
-  async (request) => {
-    try {
-      const { approvalId, action, comments, rejectionReason, escalationReason } = request.data;
-      const userId = request.auth?.uid;
+const OWN_TIMECARD_MESSAGE = 'You cannot approve, reject or escalate your own timecard';
 
-      if (!userId) {
-        throw new Error('Authentication required');
-      }
+export interface ApprovalActionParams {
+  approvalId: string;
+  action: ApprovalAction;
+  comments?: string | null;
+  rejectionReason?: string | null;
+  escalationReason?: string | null;
+}
 
-      if (!approvalId) {
-        throw new Error('Approval ID is required');
-      }
+/**
+ * Apply an approval action to a timecard - shared by the callable and Slack approval buttons
+ */
+export async function performTimecardApprovalAction(userId: string, params: ApprovalActionParams) {
+  const { approvalId, action, comments, rejectionReason, escalationReason } = params;
 
-      if (!action || !['approve', 'reject', 'escalate'].includes(action)) {
-        throw new Error('Valid action is required (approve, reject, or escalate)');
-      }
+  if (!approvalId) {
+    throw new Error('Approval ID is required');
+  }
 
-      console.log(`⏰ [TAKE APPROVAL ACTION] ${action} for approval: ${approvalId} by user: ${userId}`);
+  if (!action || !['approve', 'reject', 'escalate'].includes(action)) {
+    throw new Error('Valid action is required (approve, reject, or escalate)');
+  }
 
-      // Get user's organization
-      const userRecord = await getAuth().getUser(userId);
-      const organizationId = userRecord.customClaims?.organizationId as string;
+  console.log(`⏰ [TAKE APPROVAL ACTION] ${action} for approval: ${approvalId} by user: ${userId}`);
 
-      if (!organizationId) {
-        throw new Error('User must belong to an organization');
-      }
+  // Get user's organization
+  const userRecord = await getAuth().getUser(userId);
+  const organizationId = userRecord.customClaims?.organizationId as string;
 
-      // Get the timecard entry - try both collections for compatibility
-      let entryRef = db.collection('timecards').doc(approvalId);
-      let entryDoc = await entryRef.get();
+  if (!organizationId) {
+    throw new Error('User must belong to an organization');
+  }
 
-      // Fallback to timecard_entries if not found in timecards
-      if (!entryDoc.exists) {
-        entryRef = db.collection('timecard_entries').doc(approvalId);
-        entryDoc = await entryRef.get();
-      }
+  // Get the timecard entry - try both collections for compatibility
+  let entryRef = db.collection('timecards').doc(approvalId);
+  let entryDoc = await entryRef.get();
 
-      if (!entryDoc.exists) {
-        throw new Error('Timecard entry not found');
-      }
+  // Fallback to timecard_entries if not found in timecards
+  if (!entryDoc.exists) {
+    entryRef = db.collection('timecard_entries').doc(approvalId);
+    entryDoc = await entryRef.get();
+  }
+
+  if (!entryDoc.exists) {
+    throw new Error('Timecard entry not found');
+  }
+
+  // Read, check and write in one transaction so a concurrent action or the scheduled
+  // escalation cannot overwrite this step of the approval chain (or be overwritten)
+  const { updateData, newStatus, escalatedToAdmins } = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(entryRef);
+    const entryData = snapshot.data();
+    if (!entryData) {
+      throw new Error('Timecard entry data not found');
+    }
 
-      const entryData = entryDoc.data();
-      if (!entryData) {
-        throw new Error('Timecard entry data not found');
+    // Verify organization match
+    if (entryData.organizationId !== organizationId) {
+      throw new Error('Access denied: Timecard belongs to different organization');
+    }
+
+    // Verify status is in a pending/submitted state (allow multiple status values)
+    const pendingStatuses = ['SUBMITTED', 'PENDING', 'PENDING_APPROVAL', 'submitted', 'pending', 'pending_approval'];
+    const currentStatus = (entryData.status || '').toUpperCase();
+    const isPending = pendingStatuses.some(status => currentStatus === status.toUpperCase());
+  
+    if (!isPending) {
+      throw new Error(`Timecard is already ${entryData.status}, cannot ${action}`);
+    }
+
+    // Map actions to status
+    const statusMap: Record<string, string> = {
+      'approve': 'APPROVED',
+      'reject': 'REJECTED',
+      'escalate': 'NEEDS_REVISION'
+    };
+
+    let newStatus = statusMap[action];
+    const updateData: any = {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    // Multi-level approval chain (configured on timecardConfigurations.approvalChain)
+    let approvalState = entryData.approvalChain as TimecardApprovalState | undefined;
+    if (!approvalState) {
+      const chain = await resolveApprovalChainConfig(organizationId, entryData.userId);
+      if (chain) {
+        approvalState = await buildApprovalState(chain, organizationId, entryData.userId);
       }
+    }
+
+    let completesChain = true;
+    let escalatedToAdmins = false;
+    if (approvalState) {
+      const userClaims = userRecord.customClaims || {};
+      const isAdmin = userClaims.role === 'ADMIN' || userClaims.role === 'OWNER' || userClaims.isAdmin === true;
+      const delegations = await getActiveDelegationsFor(organizationId, userId);
+      const authority = resolveStepAuthority(approvalState, userId, delegations, isAdmin, entryData.userId || null);
 
-      // Verify organization match
-      if (entryData.organizationId !== organizationId) {
-        throw new Error('Access denied: Timecard belongs to different organization');
+      if (authority.ownTimecard) {
+        throw new HttpsError('permission-denied', OWN_TIMECARD_MESSAGE);
+      }
+      if (!authority.allowed) {
+        const stepName = approvalState.steps[approvalState.currentStep]?.name || 'current';
+        throw new Error(`Access denied: You are not an approver for the "${stepName}" step`);
       }
 
-      // Verify status is in a pending/submitted state (allow multiple status values)
-      const pendingStatuses = ['SUBMITTED', 'PENDING', 'PENDING_APPROVAL', 'submitted', 'pending', 'pending_approval'];
-      const currentStatus = (entryData.status || '').toUpperCase();
-      const isPending = pendingStatuses.some(status => currentStatus === status.toUpperCase());
-      
-      if (!isPending) {
-        throw new Error(`Timecard is already ${entryData.status}, cannot ${action}`);
+      const result = applyApprovalAction(approvalState, action, {
+        userId,
+        onBehalfOf: authority.onBehalfOf,
+        comments: comments || rejectionReason || escalationReason || null
+      });
+
+      newStatus = result.status;
+      completesChain = result.status !== 'SUBMITTED';
+      escalatedToAdmins = result.escalatedToAdmins === true;
+      updateData.approvalChain = result.state;
+      if (authority.onBehalfOf) {
+        updateData.lastActionOnBehalfOf = authority.onBehalfOf;
       }
+    } else if (entryData.userId === userId) {
+      throw new HttpsError('permission-denied', OWN_TIMECARD_MESSAGE);
+    }
+
+    updateData.status = newStatus;
 
-      // Map actions to status
-      const statusMap: Record<string, string> = {
-        'approve': 'APPROVED',
-        'reject': 'REJECTED',
-        'escalate': 'NEEDS_REVISION'
-      };
-
-      const newStatus = statusMap[action];
-      const updateData: any = {
-        status: newStatus,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp()
-      };
-
-      // Add action-specific fields
-      if (action === 'approve') {
-        updateData.approvedAt = admin.firestore.FieldValue.serverTimestamp();
-        updateData.approvedBy = userId;
-        if (comments) {
-          updateData.approvalComments = comments;
-        }
-      } else if (action === 'reject') {
-        updateData.rejectedAt = admin.firestore.FieldValue.serverTimestamp();
-        updateData.rejectedBy = userId;
-        updateData.rejectionReason = rejectionReason || comments || 'No reason provided';
-      } else if (action === 'escalate') {
-        updateData.escalatedAt = admin.firestore.FieldValue.serverTimestamp();
-        updateData.escalatedBy = userId;
-        updateData.escalationReason = escalationReason || comments || 'Escalated for review';
+    // Add action-specific fields
+    if (action === 'approve' && completesChain) {
+      updateData.approvedAt = admin.firestore.FieldValue.serverTimestamp();
+      updateData.approvedBy = userId;
+      if (comments) {
+        updateData.approvalComments = comments;
       }
+    } else if (action === 'reject') {
+      updateData.rejectedAt = admin.firestore.FieldValue.serverTimestamp();
+      updateData.rejectedBy = userId;
+      updateData.rejectionReason = rejectionReason || comments || 'No reason provided';
+    } else if (action === 'escalate') {
+      updateData.escalatedAt = admin.firestore.FieldValue.serverTimestamp();
+      updateData.escalatedBy = userId;
+      updateData.escalationReason = escalationReason || comments || 'Escalated for review';
+    }
 
-      // Update the timecard entry
-      await entryRef.update(updateData);
+    updateData.revisionContext = buildRevisionContext(userId, 'approval', {
+      reason: comments || rejectionReason || escalationReason || null
+    });
 
-      // Get updated document
-      const updatedDoc = await entryRef.get();
-      const updatedData = updatedDoc.data();
+    transaction.update(entryRef, updateData);
+    return { updateData, newStatus, escalatedToAdmins };
+  });
 
-      console.log(`✅ [TAKE APPROVAL ACTION] Successfully ${action}d timecard ${approvalId}`);
+  if (escalatedToAdmins) {
+    await notifyAdminsOfEscalation(updateData.approvalChain, organizationId, entryRef.id);
+  } else if (updateData.approvalChain && newStatus === 'SUBMITTED') {
+    await notifyCurrentStepApprovers(updateData.approvalChain, organizationId, entryRef.id, 'advanced');
+  }
 
-      return createSuccessResponse({
-        id: updatedDoc.id,
-        timecardId: updatedDoc.id,
-        status: newStatus,
-        timecard: {
-          id: updatedDoc.id,
-          ...updatedData
-        },
-        action,
-        performedBy: userId,
-        performedAt: new Date().toISOString()
-      }, `Timecard ${action}d successfully`);
+  // Get updated document
+  const updatedDoc = await entryRef.get();
+  const updatedData = updatedDoc.data();
+
+  console.log(`✅ [TAKE APPROVAL ACTION] Successfully ${action}d timecard ${approvalId}`);
+
+  return {
+    id: updatedDoc.id,
+    timecardId: updatedDoc.id,
+    status: newStatus,
+    timecard: {
+      id: updatedDoc.id,
+      ...updatedData
+    },
+    action,
+    approvalChain: updatedData?.approvalChain || null,
+    performedBy: userId,
+    performedAt: new Date().toISOString()
+  };
+}
+
+export const takeApprovalAction = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true,
+    // Approval notifications can go out over Slack
+    secrets: [encryptionKey, encryptionKeyPrevious]
+  },
+  async (request) => {
+    try {
+      const { approvalId, action, comments, rejectionReason, escalationReason } = request.data;
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new Error('Authentication required');
+      }
+
+      const result = await performTimecardApprovalAction(userId, { approvalId, action, comments, rejectionReason, escalationReason });
+      return createSuccessResponse(result, `Timecard ${action}d successfully`);
 
     } catch (error: any) {
       console.error('❌ [TAKE APPROVAL ACTION] Error:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       return handleError(error, 'takeApprovalAction');
     }
   }
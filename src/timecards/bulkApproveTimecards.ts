@@ -10,6 +10,7 @@ import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse, handleError } from '../shared/utils';
+import { buildRevisionContext } from './revisions/timecardRevisions';
 
 const db = getFirestore();
 
@@ -83,6 +84,7 @@ export const bulkApproveTimecards = onCall(
             approvedAt: admin.firestore.FieldValue.serverTimestamp(),
             approvedBy: userId,
             approvalComments: comments || 'Bulk approved',
+            revisionContext: buildRevisionContext(userId, 'approval', { reason: comments || 'Bulk approved' }),
             updatedAt: admin.firestore.FieldValue.serverTimestamp()
           });
 
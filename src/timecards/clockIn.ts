@@ -14,9 +14,119 @@ import {
   updateLocationStatus,
   logLocationActivity
 } from '../location/locationStatusService';
+import { serializeSegments } from './timecardSegments';
+import { getWorkdayInTimeZone, resolveWorkdayTimeZone, workdayToDateKey } from './workdayTimeZone';
+import { buildRevisionContext } from './revisions/timecardRevisions';
 
 const db = getFirestore();
 
+export interface ClockInOptions {
+  date?: string;
+  location?: string;
+  department?: string;
+  role?: string;
+  hourlyRate?: number;
+  notes?: string;
+  projectId?: string | null;
+}
+
+/**
+ * Clock a user in - shared by the callable and the Slack /clockin command
+ */
+export async function clockInUser(userId: string, organizationId: string, options: ClockInOptions = {}) {
+  const { date, location, department, role, hourlyRate, notes, projectId } = options;
+
+  console.log(`⏰ [CLOCK IN] User ${userId} clocking in for organization ${organizationId}`);
+
+  // Get today's workday in the project/organization time zone if not provided
+  const now = admin.firestore.Timestamp.now();
+  const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+  const today = date || getWorkdayInTimeZone(now.toDate(), timeZone);
+
+  // Stored date key is UTC midnight of the workday
+  const dateTimestamp = admin.firestore.Timestamp.fromDate(workdayToDateKey(today));
+
+  // Check if user is already clocked in (any active session)
+  const timecardQuery = await db.collection('timecard_entries')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .where('clockOutTime', '==', null)
+    .limit(1)
+    .get();
+
+  if (!timecardQuery.empty) {
+    throw new HttpsError('failed-precondition', 'You are already clocked in');
+  }
+
+  // Create timecard entry
+  const timecardData: any = {
+    userId,
+    organizationId,
+    date: dateTimestamp,
+    workday: today,
+    timeZone,
+    clockInTime: now,
+    clockOutTime: null,
+    segments: [{ type: 'work', startTime: now, endTime: null }],
+    onBreak: false,
+    location: location || '',
+    department: department || '',
+    role: role || '',
+    hourlyRate: hourlyRate || 0,
+    notes: notes || '',
+    projectId: projectId || null,
+    status: 'ACTIVE',
+    totalHours: 0,
+    regularHours: 0,
+    overtimeHours: 0,
+    doubleTimeHours: 0,
+    mealBreakTaken: false,
+    mealPenalty: false,
+    revisionContext: buildRevisionContext(userId, 'clock_in'),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const timecardRef = await db.collection('timecard_entries').add(timecardData);
+  const timecardDoc = await timecardRef.get();
+
+  // Update location status
+  const updatedState = await updateLocationStatus(
+    userId,
+    organizationId,
+    'timecard_clockin'
+  );
+
+  // Log location activity
+  await logLocationActivity(
+    userId,
+    organizationId,
+    'timecard_clockin',
+    updatedState.currentLocationStatus
+  );
+
+  const timecard = { id: timecardDoc.id, ...timecardDoc.data() } as any;
+
+  console.log(`✅ [CLOCK IN] User ${userId} clocked in successfully`);
+
+  return {
+    id: timecard.id,
+    userId: timecard.userId,
+    date: today,
+    timeZone,
+    clockInTime: timecard.clockInTime?.toDate?.()?.toISOString() || now.toDate().toISOString(),
+    clockOutTime: null,
+    segments: serializeSegments(timecard.segments || []),
+    location: timecard.location,
+    notes: timecard.notes,
+    projectId: timecard.projectId,
+    organizationId: timecard.organizationId,
+    status: timecard.status,
+    totalHours: timecard.totalHours || 0,
+    locationStatus: updatedState.currentLocationStatus
+  };
+}
+
 export const clockIn = onCall(
   {
     memory: '512MiB',
@@ -40,88 +150,8 @@ export const clockIn = onCall(
         throw new HttpsError('permission-denied', 'User must belong to an organization');
       }
 
-      console.log(`⏰ [CLOCK IN] User ${userId} clocking in for organization ${userOrgId}`);
-
-      // Get today's date if not provided
-      const today = date || new Date().toISOString().split('T')[0];
-      const now = admin.firestore.Timestamp.now();
-
-      // Create date timestamp for query (start of day in UTC)
-      const [year, month, day] = today.split('-').map(Number);
-      const dateTimestamp = admin.firestore.Timestamp.fromDate(new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0)));
-
-      // Check if user is already clocked in (any active session)
-      const timecardQuery = await db.collection('timecard_entries')
-        .where('userId', '==', userId)
-        .where('organizationId', '==', userOrgId)
-        .where('clockOutTime', '==', null)
-        .limit(1)
-        .get();
-
-      if (!timecardQuery.empty) {
-        throw new HttpsError('failed-precondition', 'You are already clocked in');
-      }
-
-      // Create timecard entry
-      const timecardData: any = {
-        userId,
-        organizationId: userOrgId,
-        date: dateTimestamp,
-        clockInTime: now,
-        clockOutTime: null,
-        location: location || '',
-        department: department || '',
-        role: role || '',
-        hourlyRate: hourlyRate || 0,
-        notes: notes || '',
-        projectId: projectId || null,
-        status: 'ACTIVE',
-        totalHours: 0,
-        regularHours: 0,
-        overtimeHours: 0,
-        doubleTimeHours: 0,
-        mealBreakTaken: false,
-        mealPenalty: false,
-        createdAt: now,
-        updatedAt: now
-      };
-
-      const timecardRef = await db.collection('timecard_entries').add(timecardData);
-      const timecardDoc = await timecardRef.get();
-
-      // Update location status
-      const updatedState = await updateLocationStatus(
-        userId,
-        userOrgId,
-        'timecard_clockin'
-      );
-
-      // Log location activity
-      await logLocationActivity(
-        userId,
-        userOrgId,
-        'timecard_clockin',
-        updatedState.currentLocationStatus
-      );
-
-      const timecard = { id: timecardDoc.id, ...timecardDoc.data() } as any;
-
-      console.log(`✅ [CLOCK IN] User ${userId} clocked in successfully`);
-
-      return createSuccessResponse({
-        id: timecard.id,
-        userId: timecard.userId,
-        date: today,
-        clockInTime: timecard.clockInTime?.toDate?.()?.toISOString() || now.toDate().toISOString(),
-        clockOutTime: null,
-        location: timecard.location,
-        notes: timecard.notes,
-        projectId: timecard.projectId,
-        organizationId: timecard.organizationId,
-        status: timecard.status,
-        totalHours: timecard.totalHours || 0,
-        locationStatus: updatedState.currentLocationStatus
-      }, 'Successfully clocked in');
+      const timecard = await clockInUser(userId, userOrgId, { date, location, department, role, hourlyRate, notes, projectId });
+      return createSuccessResponse(timecard, 'Successfully clocked in');
 
     } catch (error: any) {
       console.error('❌ [CLOCK IN] Error:', error);
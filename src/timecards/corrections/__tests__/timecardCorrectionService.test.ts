@@ -0,0 +1,31 @@
+/**
+ * Timecard Correction Service Tests
+ *
+ * Tests for keeping the stored `date` type when a correction moves the workday
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Timestamp } from 'firebase-admin/firestore';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import { correctedDateField } from '../timecardCorrectionService';
+
+describe('timecardCorrectionService', () => {
+  it('keeps a string date as a workday string', () => {
+    expect(correctedDateField('2026-03-02', '2026-03-01')).toEqual({ date: '2026-03-01' });
+  });
+
+  it('keeps a Timestamp date as a Timestamp at the workday key', () => {
+    const { date } = correctedDateField(Timestamp.fromDate(new Date('2026-03-02T00:00:00.000Z')), '2026-03-01');
+    expect(date).toBeInstanceOf(Timestamp);
+    expect((date as Timestamp).toDate().toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('leaves entries without a date untouched', () => {
+    expect(correctedDateField(undefined, '2026-03-01')).toEqual({});
+  });
+});
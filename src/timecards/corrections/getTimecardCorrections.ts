@@ -0,0 +1,69 @@
+/**
+ * Get Timecard Corrections Function
+ * 
+ * Lists correction requests the caller made, or (scope 'review') the ones
+ * waiting on them as a reviewer
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError } from '../../shared/utils';
+
+const db = getFirestore();
+
+export const getTimecardCorrections = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { scope = 'mine', status, timecardId } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const organizationId = userRecord.customClaims?.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      let correctionsQuery = db.collection('timecardCorrectionRequests')
+        .where('organizationId', '==', organizationId);
+
+      if (scope === 'review') {
+        correctionsQuery = correctionsQuery.where('reviewerIds', 'array-contains', userId);
+      } else {
+        correctionsQuery = correctionsQuery.where('requestedBy', '==', userId);
+      }
+
+      if (status) {
+        correctionsQuery = correctionsQuery.where('status', '==', status);
+      }
+
+      if (timecardId) {
+        correctionsQuery = correctionsQuery.where('timecardId', '==', timecardId);
+      }
+
+      const correctionsSnapshot = await correctionsQuery.get();
+      const corrections = correctionsSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as any))
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+
+      return createSuccessResponse({
+        corrections,
+        count: corrections.length
+      }, 'Timecard corrections retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [TIMECARD CORRECTION] Error listing corrections:', error);
+      return handleError(error, 'getTimecardCorrections');
+    }
+  }
+);
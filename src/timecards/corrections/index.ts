@@ -0,0 +1,7 @@
+/**
+ * Timecard Correction Functions Index
+ */
+
+export { requestTimecardCorrection } from './requestTimecardCorrection';
+export { reviewTimecardCorrection } from './reviewTimecardCorrection';
+export { getTimecardCorrections } from './getTimecardCorrections';
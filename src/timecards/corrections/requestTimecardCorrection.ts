@@ -0,0 +1,165 @@
+/**
+ * Request Timecard Correction Function
+ * 
+ * Lets an employee propose corrected clock times (and optionally segments)
+ * for one of their closed timecard entries, with a reason
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError, sendNotification } from '../../shared/utils';
+import { getEntrySegments, parseProposedSegments } from '../timecardSegments';
+import {
+  findTimecardDocument,
+  MAX_CORRECTED_SHIFT_HOURS,
+  resolveCorrectionReviewers
+} from './timecardCorrectionService';
+
+const db = getFirestore();
+
+function parseTime(value: any, field: string): Timestamp {
+  const date = value ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new HttpsError('invalid-argument', `A valid ${field} is required`);
+  }
+  return Timestamp.fromDate(date);
+}
+
+export const requestTimecardCorrection = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { timecardId, clockInTime, clockOutTime, segments, reason } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      if (!timecardId) {
+        throw new HttpsError('invalid-argument', 'Timecard ID is required');
+      }
+
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        throw new HttpsError('invalid-argument', 'A reason is required for a correction request');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const organizationId = userRecord.customClaims?.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      const timecard = await findTimecardDocument(timecardId);
+      if (!timecard || timecard.data.organizationId !== organizationId) {
+        throw new HttpsError('not-found', 'Timecard entry not found');
+      }
+
+      const entryData = timecard.data;
+      if (entryData.userId !== userId) {
+        throw new HttpsError('permission-denied', 'You can only request corrections to your own timecards');
+      }
+
+      if (!entryData.clockOutTime) {
+        throw new HttpsError('failed-precondition', 'Clock out before requesting a correction');
+      }
+
+      if (entryData.payrollExportId) {
+        throw new HttpsError('failed-precondition', 'This timecard has been exported to payroll; ask payroll to void the export first');
+      }
+
+      const proposedIn = parseTime(clockInTime, 'clockInTime');
+      const proposedOut = parseTime(clockOutTime, 'clockOutTime');
+      const shiftHours = (proposedOut.toMillis() - proposedIn.toMillis()) / (1000 * 60 * 60);
+
+      if (shiftHours <= 0 || shiftHours > MAX_CORRECTED_SHIFT_HOURS) {
+        throw new HttpsError('invalid-argument', `clockOutTime must be after clockInTime and within ${MAX_CORRECTED_SHIFT_HOURS} hours`);
+      }
+
+      let proposedSegments = null;
+      if (segments !== undefined && segments !== null) {
+        try {
+          proposedSegments = parseProposedSegments(segments, proposedIn, proposedOut);
+        } catch (validationError: any) {
+          throw new HttpsError('invalid-argument', validationError.message);
+        }
+      }
+
+      const pendingQuery = await db.collection('timecardCorrectionRequests')
+        .where('timecardId', '==', timecardId)
+        .where('status', '==', 'PENDING')
+        .limit(1)
+        .get();
+
+      if (!pendingQuery.empty) {
+        throw new HttpsError('already-exists', 'A correction request for this timecard is already pending');
+      }
+
+      const reviewerIds = await resolveCorrectionReviewers(organizationId, entryData);
+
+      const correctionData = {
+        organizationId,
+        timecardId,
+        collection: timecard.collection,
+        userId: entryData.userId,
+        requestedBy: userId,
+        reason: reason.trim(),
+        current: {
+          clockInTime: entryData.clockInTime || null,
+          clockOutTime: entryData.clockOutTime || null,
+          segments: getEntrySegments(entryData)
+        },
+        proposed: {
+          clockInTime: proposedIn,
+          clockOutTime: proposedOut,
+          segments: proposedSegments
+        },
+        reviewerIds,
+        status: 'PENDING',
+        reviewedBy: null,
+        reviewedOnBehalfOf: null,
+        reviewedAt: null,
+        reviewComments: null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      };
+
+      const docRef = await db.collection('timecardCorrectionRequests').add(correctionData);
+
+      await Promise.all(reviewerIds.map(reviewerId =>
+        sendNotification(
+          reviewerId,
+          organizationId,
+          'timecard_correction',
+          'Timecard correction requested',
+          `A correction was requested for a timecard: ${reason.trim()}`,
+          { correctionRequestId: docRef.id, timecardId }
+        )
+      ));
+
+      console.log(`⏰ [TIMECARD CORRECTION] Correction ${docRef.id} requested for ${timecardId} by ${userId}`);
+
+      return createSuccessResponse({
+        id: docRef.id,
+        timecardId,
+        status: 'PENDING',
+        reviewerIds,
+        proposed: {
+          clockInTime: proposedIn.toDate().toISOString(),
+          clockOutTime: proposedOut.toDate().toISOString(),
+          segments: proposedSegments ? proposedSegments.length : null
+        }
+      }, 'Correction request submitted successfully');
+
+    } catch (error: any) {
+      console.error('❌ [TIMECARD CORRECTION] Error:', error);
+      return handleError(error, 'requestTimecardCorrection');
+    }
+  }
+);
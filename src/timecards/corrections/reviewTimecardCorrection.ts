@@ -0,0 +1,193 @@
+/**
+ * Review Timecard Correction Function
+ * 
+ * Approver accepts or denies a pending correction request. Accepting applies the
+ * proposed times to the entry and recalculates pay; the revision trigger records
+ * the before/after values attributed to this correction.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError, sendNotification } from '../../shared/utils';
+import { calculateEntryPay, toEntryPayFields } from '../labor/entryPayCalculator';
+import { getEntrySegments, getLegacyMealFields, retimeSegments, serializeSegments } from '../timecardSegments';
+import { DEFAULT_WORKDAY_TIME_ZONE, getWorkdayInTimeZone } from '../workdayTimeZone';
+import { getActiveDelegationsFor } from '../approval/approvalChainService';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+import { correctedDateField } from './timecardCorrectionService';
+
+const db = getFirestore();
+
+export const reviewTimecardCorrection = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { correctionRequestId, action, comments } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      if (!correctionRequestId) {
+        throw new HttpsError('invalid-argument', 'Correction request ID is required');
+      }
+
+      if (action !== 'accept' && action !== 'deny') {
+        throw new HttpsError('invalid-argument', 'Valid action is required (accept or deny)');
+      }
+
+      if (action === 'deny' && !comments) {
+        throw new HttpsError('invalid-argument', 'Comments are required when denying a correction');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const userClaims = userRecord.customClaims || {};
+      const organizationId = userClaims.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      const correctionRef = db.collection('timecardCorrectionRequests').doc(correctionRequestId);
+      const correctionDoc = await correctionRef.get();
+      const correction = correctionDoc.data();
+
+      if (!correctionDoc.exists || !correction || correction.organizationId !== organizationId) {
+        throw new HttpsError('not-found', 'Correction request not found');
+      }
+
+      if (correction.status !== 'PENDING') {
+        throw new HttpsError('failed-precondition', `Correction request is already ${correction.status}`);
+      }
+
+      if (correction.userId === userId) {
+        throw new HttpsError('permission-denied', 'You cannot review a correction to your own timecard');
+      }
+
+      // Reviewer, a reviewer's delegate, or an admin
+      const isAdmin = userClaims.role === 'ADMIN' || userClaims.role === 'OWNER' || userClaims.isAdmin === true;
+      const reviewerIds: string[] = correction.reviewerIds || [];
+      let onBehalfOf: string | null = null;
+
+      if (!reviewerIds.includes(userId) && !isAdmin) {
+        const delegations = await getActiveDelegationsFor(organizationId, userId);
+        const delegation = delegations.find(d => reviewerIds.includes(d.delegatorId));
+        if (!delegation) {
+          throw new HttpsError('permission-denied', 'You are not a reviewer for this correction request');
+        }
+        onBehalfOf = delegation.delegatorId;
+      }
+
+      const entryRef = db.collection(correction.collection || 'timecard_entries').doc(correction.timecardId);
+
+      const reviewFields = {
+        reviewedBy: userId,
+        reviewedOnBehalfOf: onBehalfOf,
+        reviewedAt: FieldValue.serverTimestamp(),
+        reviewComments: comments || null,
+        updatedAt: FieldValue.serverTimestamp()
+      };
+
+      // Re-check the status inside the transaction so concurrent reviews can't both apply
+      const entryData = await db.runTransaction(async (transaction) => {
+        const [currentCorrectionDoc, entryDoc] = await Promise.all([
+          transaction.get(correctionRef),
+          transaction.get(entryRef)
+        ]);
+        const currentCorrection = currentCorrectionDoc.data();
+        const currentEntry = entryDoc.data();
+
+        if (!currentCorrection || currentCorrection.status !== 'PENDING') {
+          throw new HttpsError('failed-precondition', `Correction request is already ${currentCorrection?.status || 'removed'}`);
+        }
+
+        if (!entryDoc.exists || !currentEntry) {
+          throw new HttpsError('not-found', 'Timecard entry not found');
+        }
+
+        if (action === 'deny') {
+          transaction.update(correctionRef, { status: 'DENIED', ...reviewFields });
+          return currentEntry;
+        }
+
+        if (currentEntry.payrollExportId) {
+          throw new HttpsError('failed-precondition', 'This timecard has been exported to payroll; void the export before accepting');
+        }
+
+        const proposedIn = currentCorrection.proposed.clockInTime as Timestamp;
+        const proposedOut = currentCorrection.proposed.clockOutTime as Timestamp;
+        const segments = currentCorrection.proposed.segments || retimeSegments(getEntrySegments(currentEntry), proposedIn, proposedOut);
+
+        // The corrected shift may start on a different workday
+        const timeZone = currentEntry.timeZone || DEFAULT_WORKDAY_TIME_ZONE;
+        const workday = getWorkdayInTimeZone(proposedIn.toDate(), timeZone);
+        const correctedData = {
+          ...currentEntry,
+          clockInTime: proposedIn,
+          clockOutTime: proposedOut,
+          segments,
+          workday
+        };
+
+        const pay = await calculateEntryPay(entryDoc.id, correctedData, currentEntry.userId, organizationId);
+
+        transaction.update(entryRef, {
+          clockInTime: proposedIn,
+          clockOutTime: proposedOut,
+          segments,
+          ...getLegacyMealFields(segments),
+          workday,
+          ...correctedDateField(currentEntry.date, workday),
+          ...toEntryPayFields(pay),
+          correctionCount: FieldValue.increment(1),
+          lastCorrectedAt: FieldValue.serverTimestamp(),
+          revisionContext: buildRevisionContext(userId, 'correction', {
+            reason: currentCorrection.reason,
+            correctionRequestId
+          }),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        transaction.update(correctionRef, { status: 'ACCEPTED', ...reviewFields });
+        return currentEntry;
+      });
+
+      await sendNotification(
+        correction.userId,
+        organizationId,
+        'timecard_correction',
+        action === 'accept' ? 'Timecard correction accepted' : 'Timecard correction denied',
+        action === 'accept'
+          ? 'Your timecard correction was accepted and your hours were recalculated'
+          : `Your timecard correction was denied: ${comments}`,
+        { correctionRequestId, timecardId: correction.timecardId }
+      );
+
+      console.log(`⏰ [TIMECARD CORRECTION] Correction ${correctionRequestId} ${action === 'accept' ? 'accepted' : 'denied'} by ${userId}`);
+
+      const updatedEntry = action === 'accept' ? (await entryRef.get()).data() : entryData;
+
+      return createSuccessResponse({
+        id: correctionRequestId,
+        timecardId: correction.timecardId,
+        status: action === 'accept' ? 'ACCEPTED' : 'DENIED',
+        timecard: {
+          clockInTime: updatedEntry?.clockInTime?.toDate?.()?.toISOString() || null,
+          clockOutTime: updatedEntry?.clockOutTime?.toDate?.()?.toISOString() || null,
+          segments: serializeSegments(getEntrySegments(updatedEntry || {})),
+          totalHours: updatedEntry?.totalHours || 0,
+          totalPay: updatedEntry?.totalPay || 0
+        }
+      }, action === 'accept' ? 'Correction accepted successfully' : 'Correction denied');
+
+    } catch (error: any) {
+      console.error('❌ [TIMECARD CORRECTION] Error reviewing correction:', error);
+      return handleError(error, 'reviewTimecardCorrection');
+    }
+  }
+);
@@ -0,0 +1,87 @@
+/**
+ * Timecard Correction Service
+ *
+ * Shared helpers for correction requests (`timecardCorrectionRequests`):
+ * an employee proposes new times for a closed entry and an approver accepts or denies.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { workdayToDateKey } from '../workdayTimeZone';
+
+const db = getFirestore();
+
+export type CorrectionStatus = 'PENDING' | 'ACCEPTED' | 'DENIED' | 'CANCELLED';
+
+export interface TimecardCorrectionRequest {
+  id: string;
+  organizationId: string;
+  timecardId: string;
+  collection: string;
+  userId: string;
+  requestedBy: string;
+  reason: string;
+  current: { clockInTime: Timestamp | null; clockOutTime: Timestamp | null; segments: any[] };
+  proposed: { clockInTime: Timestamp; clockOutTime: Timestamp; segments: any[] | null };
+  reviewerIds: string[];
+  status: CorrectionStatus;
+  reviewedBy: string | null;
+  reviewedOnBehalfOf: string | null;
+  reviewComments: string | null;
+}
+
+/**
+ * Longest shift a correction may propose
+ */
+export const MAX_CORRECTED_SHIFT_HOURS = 24;
+
+/**
+ * The entry's `date` moved to a corrected workday, stored as the same type it already
+ * has: `timecards` documents may hold a YYYY-MM-DD string, `timecard_entries` a Timestamp.
+ * Entries without a date get none, so date queries see them exactly as before.
+ */
+export function correctedDateField(existing: unknown, workday: string): { date?: string | Timestamp } {
+  if (typeof existing === 'string') {
+    return { date: workday };
+  }
+  if (existing instanceof Timestamp || typeof (existing as any)?.toDate === 'function') {
+    return { date: Timestamp.fromDate(workdayToDateKey(workday)) };
+  }
+  return {};
+}
+
+/**
+ * Load a timecard from either collection (timecards first, for compatibility)
+ */
+export async function findTimecardDocument(timecardId: string) {
+  for (const collection of ['timecards', 'timecard_entries']) {
+    const ref = db.collection(collection).doc(timecardId);
+    const doc = await ref.get();
+    if (doc.exists) {
+      return { ref, collection, data: doc.data() || {} };
+    }
+  }
+  return null;
+}
+
+/**
+ * Who can review a correction: the entry's approval chain approvers and the employee's manager
+ */
+export async function resolveCorrectionReviewers(organizationId: string, entryData: any): Promise<string[]> {
+  const reviewers = new Set<string>();
+
+  const steps: any[] = entryData.approvalChain?.steps || [];
+  steps.forEach(step => (step.approverIds || []).forEach((id: string) => reviewers.add(id)));
+
+  const teamMemberDoc = await db.collection('teamMembers').doc(entryData.userId).get();
+  const teamMember = teamMemberDoc.data();
+  if (teamMember?.organizationId === organizationId && teamMember.managerId) {
+    reviewers.add(teamMember.managerId);
+  }
+
+  if (entryData.approvedBy) {
+    reviewers.add(entryData.approvedBy);
+  }
+
+  reviewers.delete(entryData.userId);
+  return Array.from(reviewers);
+}
@@ -7,6 +7,7 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { createSuccessResponse, handleError } from '../shared/utils';
+import { validateApprovalChain } from './approval/approvalChainService';
 
 const db = getFirestore();
 
@@ -44,6 +45,7 @@ export const createTimecardConfiguration = onCall(
         escalationComplianceIssues,
         escalationTurnaroundViolations,
         escalationReason,
+        approvalChain,
         isActive,
         configurationType
       } = request.data;
@@ -86,6 +88,7 @@ export const createTimecardConfiguration = onCall(
       if (escalationComplianceIssues !== undefined) configurationData.escalationComplianceIssues = escalationComplianceIssues;
       if (escalationTurnaroundViolations !== undefined) configurationData.escalationTurnaroundViolations = escalationTurnaroundViolations;
       if (escalationReason) configurationData.escalationReason = escalationReason;
+      if (approvalChain !== undefined) configurationData.approvalChain = approvalChain ? validateApprovalChain(approvalChain) : [];
 
       const configRef = await db.collection('timecardConfigurations').add(configurationData);
       const configDoc = await configRef.get();
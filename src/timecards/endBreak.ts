@@ -0,0 +1,99 @@
+/**
+ * End Break Function
+ * 
+ * Ends the current meal or rest break on the user's active timecard entry
+ * Closes the break segment and opens a new work segment
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import * as admin from 'firebase-admin';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import {
+  findActiveTimecardEntry,
+  getOpenSegment,
+  serializeSegments,
+  transitionSegments,
+  updateOpenEntrySegments
+} from './timecardSegments';
+import { buildRevisionContext } from './revisions/timecardRevisions';
+
+export const endBreak = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      // Get user's organization
+      const userRecord = await getAuth().getUser(userId);
+      const userOrgId = userRecord.customClaims?.organizationId as string;
+
+      if (!userOrgId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      console.log(`⏰ [END BREAK] User ${userId} ending break`);
+
+      const timecardDoc = await findActiveTimecardEntry(userId, userOrgId);
+      if (!timecardDoc) {
+        throw new HttpsError('failed-precondition', 'You are not currently clocked in.');
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updatedSegments = await updateOpenEntrySegments(timecardDoc.ref, segments => {
+        const openSegment = getOpenSegment(segments);
+        if (!openSegment || openSegment.type === 'work') {
+          throw new HttpsError('failed-precondition', 'You are not currently on a break');
+        }
+        return {
+          segments: transitionSegments(segments, now, { type: 'work' }),
+          fields: {
+            onBreak: false,
+            revisionContext: buildRevisionContext(userId, 'break'),
+            updatedAt: now
+          }
+        };
+      });
+      if (!updatedSegments) {
+        throw new HttpsError('failed-precondition', 'You are not currently clocked in.');
+      }
+
+      // The break just closed, followed by the new work segment
+      const endedSegment = updatedSegments[updatedSegments.length - 2];
+      const breakStart = endedSegment.startTime.toDate();
+      const breakMinutes = (now.toDate().getTime() - breakStart.getTime()) / (1000 * 60);
+
+      console.log(`✅ [END BREAK] User ${userId} ended ${endedSegment.type} break after ${breakMinutes.toFixed(1)} minutes`);
+
+      return createSuccessResponse({
+        id: timecardDoc.id,
+        userId,
+        organizationId: userOrgId,
+        breakType: endedSegment.type,
+        breakStartTime: breakStart.toISOString(),
+        breakEndTime: now.toDate().toISOString(),
+        breakMinutes,
+        onBreak: false,
+        segments: serializeSegments(updatedSegments)
+      }, 'Break ended');
+
+    } catch (error: any) {
+      console.error('❌ [END BREAK] Error:', error);
+
+      // If it's already an HttpsError, re-throw it
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      return handleError(error, 'endBreak');
+    }
+  }
+);
@@ -9,6 +9,22 @@ import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import { createSuccessResponse, createErrorResponse, handleError } from '../shared/utils';
+import {
+  calculateWeeklyPay,
+  getWorkweekStart,
+  resolveRuleSettings,
+  toPayEngineEntry,
+  PayEngineEntry
+} from './labor/payEngine';
+import { resolveUserPaySettings } from './labor/laborRuleResolver';
+import { loadPreviousClockOut } from './labor/entryPayCalculator';
+import {
+  addWorkdays,
+  getWorkdayInTimeZone,
+  normalizeWorkday,
+  resolveWorkdayTimeZone,
+  workdayToDateKey
+} from './workdayTimeZone';
 
 const db = getFirestore();
 
@@ -49,21 +65,22 @@ export const getWeeklySummary = onCall(
         }
       }
 
-      // Calculate week start date (Monday of the week)
-      let weekStartDate: Date;
-      if (weekStart) {
-        weekStartDate = new Date(weekStart);
-      } else {
-        const today = new Date();
-        const dayOfWeek = today.getDay();
-        const diff = today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1); // Adjust to Monday
-        weekStartDate = new Date(today.setDate(diff));
-        weekStartDate.setHours(0, 0, 0, 0);
-      }
+      // Resolve labor rule up front: its workweek start day defines the week
+      const { rule, hourlyRate } = await resolveUserPaySettings(userId, organizationId);
+      const settings = resolveRuleSettings(rule);
+
+      // Week boundaries are workdays in the organization's time zone; a supplied date
+      // is aligned to the rule's workweek so weekly OT and seventh day see the whole week
+      const timeZone = await resolveWorkdayTimeZone(organizationId);
+      const weekStartWorkday = getWorkweekStart(
+        (weekStart && normalizeWorkday(weekStart, timeZone)) || getWorkdayInTimeZone(new Date(), timeZone),
+        settings.workweekStartDay
+      );
+      const weekEndWorkday = addWorkdays(weekStartWorkday, 6);
 
-      const weekEndDate = new Date(weekStartDate);
-      weekEndDate.setDate(weekEndDate.getDate() + 6);
-      weekEndDate.setHours(23, 59, 59, 999);
+      // Stored date keys are UTC midnight of each workday
+      const weekStartDate = workdayToDateKey(weekStartWorkday);
+      const weekEndDate = workdayToDateKey(weekEndWorkday);
 
       console.log(`⏰ [GET WEEKLY SUMMARY] Getting summary for user: ${userId}, week: ${weekStartDate.toISOString()} to ${weekEndDate.toISOString()}`);
 
@@ -80,23 +97,22 @@ export const getWeeklySummary = onCall(
         ...doc.data()
       }));
 
-      // Calculate summary
-      let totalHours = 0;
-      let regularHours = 0;
-      let overtimeHours = 0;
-      let doubleTimeHours = 0;
-      let totalPay = 0;
+      // Calculate pay with the same engine clockOut uses
+      const closedEntries = entries
+        .map((entry: any) => toPayEngineEntry(entry.id, entry))
+        .filter((entry): entry is PayEngineEntry => !!entry);
+      const pay = calculateWeeklyPay(rule, closedEntries, {
+        defaultHourlyRate: hourlyRate,
+        previousClockOut: await loadPreviousClockOut(userId, organizationId, weekStartWorkday)
+      });
+      const payByEntry = new Map(pay.entries.map(entry => [entry.entryId, entry]));
+
+      const { totalHours, regularHours, overtimeHours, doubleTimeHours, totalPay } = pay.totals;
       let submittedCount = 0;
       let approvedCount = 0;
       let rejectedCount = 0;
 
       entries.forEach((entry: any) => {
-        totalHours += entry.totalHours || 0;
-        regularHours += entry.regularHours || 0;
-        overtimeHours += entry.overtimeHours || 0;
-        doubleTimeHours += entry.doubleTimeHours || 0;
-        totalPay += entry.totalPay || 0;
-
         if (entry.status === 'SUBMITTED') submittedCount++;
         if (entry.status === 'APPROVED') approvedCount++;
         if (entry.status === 'REJECTED') rejectedCount++;
@@ -105,6 +121,9 @@ export const getWeeklySummary = onCall(
       const summary = {
         weekStart: weekStartDate.toISOString(),
         weekEnd: weekEndDate.toISOString(),
+        weekStartWorkday,
+        weekEndWorkday,
+        timeZone,
         userId,
         organizationId,
         totalEntries: entries.length,
@@ -113,17 +132,29 @@ export const getWeeklySummary = onCall(
         overtimeHours,
         doubleTimeHours,
         totalPay,
+        minimumCallHours: pay.totals.minimumCallHours,
+        penaltyAmount: pay.totals.penaltyAmount,
+        laborRuleId: pay.ruleId,
+        payLines: pay.lines,
         submittedCount,
         approvedCount,
         rejectedCount,
         pendingCount: entries.length - submittedCount - approvedCount - rejectedCount,
-        entries: entries.map((e: any) => ({
-          id: e.id,
-          date: e.date,
-          status: e.status,
-          totalHours: e.totalHours,
-          totalPay: e.totalPay
-        }))
+        entries: entries.map((e: any) => {
+          const entryPay = payByEntry.get(e.id);
+          return {
+            id: e.id,
+            date: e.date,
+            status: e.status,
+            totalHours: entryPay?.totalHours ?? 0,
+            regularHours: entryPay?.regularHours ?? 0,
+            overtimeHours: entryPay?.overtimeHours ?? 0,
+            doubleTimeHours: entryPay?.doubleTimeHours ?? 0,
+            mealPenalty: entryPay?.mealPenalty ?? false,
+            turnaroundViolation: entryPay?.turnaroundViolation ?? false,
+            totalPay: entryPay?.totalPay ?? 0
+          };
+        })
       };
 
       console.log(`✅ [GET WEEKLY SUMMARY] Summary calculated: ${totalHours} hours, ${totalPay} pay`);
@@ -24,7 +24,26 @@ export { timecardApprovalApi } from './timecardApprovalApi';
 export { onTimecardStatusChange } from './onTimecardStatusChange';
 
 // Export approval functions
-export { takeApprovalAction, getTimecardHistory, submitTimecardForApproval } from './approval';
+export {
+  takeApprovalAction,
+  getTimecardHistory,
+  submitTimecardForApproval,
+  createApprovalDelegation,
+  revokeApprovalDelegation,
+  escalateStaleApprovals
+} from './approval';
+
+// Export payroll export functions
+export {
+  exportApprovedTimecards,
+  savePayrollExportTemplate,
+  getPayrollExportTemplates,
+  voidPayrollExport
+} from './payroll';
+
+// Export correction and revision functions
+export { requestTimecardCorrection, reviewTimecardCorrection, getTimecardCorrections } from './corrections';
+export { onTimecardEntryRevision, onTimecardRevision } from './revisions';
 
 // Export direct report functions
 export { getAllDirectReports, createDirectReport, updateDirectReport, deactivateDirectReport } from './directReports';
@@ -39,6 +58,9 @@ export { bulkApproveTimecards } from './bulkApproveTimecards';
 // Export clock in/out functions
 export { clockIn } from './clockIn';
 export { clockOut } from './clockOut';
+export { startBreak } from './startBreak';
+export { endBreak } from './endBreak';
+export { setWorkdayTimeZone } from './setWorkdayTimeZone';
 
 // Export labor functions
 export { getLaborRules, getLaborRulesHttp } from './labor/getLaborRules';
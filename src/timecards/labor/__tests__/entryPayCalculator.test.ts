@@ -0,0 +1,32 @@
+/**
+ * Entry Pay Calculator Tests
+ *
+ * Tests for the previous-week clock-out that clockOut, the weekly summary and budget
+ * cost totals pass to the pay engine for the first shift's turnaround check
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import { findPreviousClockOut } from '../entryPayCalculator';
+import { PayEngineEntry } from '../payEngine';
+
+function shift(id: string, workday: string, startHour: number, hours: number): PayEngineEntry {
+  const clockIn = new Date(`${workday}T00:00:00.000Z`);
+  clockIn.setUTCHours(startHour);
+  return { id, workday, clockIn, clockOut: new Date(clockIn.getTime() + hours * 60 * 60 * 1000), breaks: [], hourlyRate: 20 };
+}
+
+describe('findPreviousClockOut', () => {
+  it('returns the latest clock-out before the week and ignores shifts in it', () => {
+    const late = shift('sun-late', '2026-03-01', 14, 10);
+    const entries = [shift('sun-early', '2026-03-01', 6, 6), late, shift('mon', '2026-03-02', 6, 10)];
+
+    expect(findPreviousClockOut(entries, '2026-03-02')).toEqual(late.clockOut);
+    expect(findPreviousClockOut(entries.slice(2), '2026-03-02')).toBeNull();
+  });
+});
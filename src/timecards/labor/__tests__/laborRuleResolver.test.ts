@@ -0,0 +1,74 @@
+/**
+ * Labor Rule Resolver Tests
+ *
+ * Tests for the explicit rule > union contract > union affiliation > non-union default order
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const collections: Record<string, Record<string, any>> = {};
+
+function query(name: string, filters: Array<[string, any]> = []): any {
+  const docs = () => Object.entries(collections[name] || {})
+    .filter(([, data]) => filters.every(([field, value]) => data[field] === value))
+    .map(([id, data]) => ({ id, data: () => data }));
+  return {
+    where: (field: string, _op: string, value: any) => query(name, [...filters, [field, value]]),
+    limit: () => query(name, filters),
+    get: async () => ({ empty: docs().length === 0, docs: docs() })
+  };
+}
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({
+    collection: (name: string) => ({
+      ...query(name),
+      doc: (id: string) => ({
+        get: async () => {
+          const data = collections[name]?.[id];
+          return { id, exists: !!data, data: () => data };
+        }
+      })
+    })
+  }))
+}));
+
+import { resolveUserPaySettings } from '../laborRuleResolver';
+
+const activeSince2020 = { isActive: true, organizationId: 'org1', effectiveDate: new Date('2020-01-01') };
+
+describe('resolveUserPaySettings', () => {
+  beforeEach(() => {
+    collections.labor_rules = {
+      'non-union-default': { name: 'Non-union' },
+      'explicit-rule': { ...activeSince2020, name: 'Explicit' },
+      'contract-rule': { ...activeSince2020, name: 'Contract' },
+      'affiliation-rule': { ...activeSince2020, name: 'Affiliation', appliesToUnions: ['iatse-600'] }
+    };
+    collections.union_contracts = {
+      c1: { organizationId: 'org1', unionId: 'iatse-700', isActive: true, laborRuleId: 'contract-rule' }
+    };
+    collections.teamMembers = {
+      explicit: { laborRuleId: 'explicit-rule', unionId: 'iatse-700' },
+      contract: { unionId: 'iatse-700' },
+      affiliated: { primaryUnionAffiliation: 'iatse-600' },
+      nonUnion: { hourlyRate: 30 }
+    };
+  });
+
+  it('prefers an explicit rule, then the union contract, then union affiliation', async () => {
+    expect((await resolveUserPaySettings('explicit', 'org1')).rule?.id).toBe('explicit-rule');
+    expect((await resolveUserPaySettings('contract', 'org1')).rule?.id).toBe('contract-rule');
+    expect((await resolveUserPaySettings('affiliated', 'org1')).rule?.id).toBe('affiliation-rule');
+  });
+
+  it('falls back to the non-union default only when nothing else applies', async () => {
+    const settings = await resolveUserPaySettings('nonUnion', 'org1');
+    expect(settings.rule?.id).toBe('non-union-default');
+    expect(settings.hourlyRate).toBe(30);
+
+    collections.union_contracts.c1.laborRuleId = 'missing-rule';
+    expect((await resolveUserPaySettings('contract', 'org1')).rule?.id).toBe('non-union-default');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Pay Engine Tests
+ *
+ * Tests for rule-driven daily/weekly overtime, seventh day, meal, minimum call and turnaround lines
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateWeeklyPay, getWorkweekStart, toPayEngineEntry, PayEngineEntry } from '../payEngine';
+
+function shift(id: string, workday: string, startHour: number, hours: number, rate = 20, breaks: PayEngineEntry['breaks'] = []): PayEngineEntry {
+  const clockIn = new Date(`${workday}T00:00:00.000Z`);
+  clockIn.setUTCHours(startHour);
+  const clockOut = new Date(clockIn.getTime() + hours * 60 * 60 * 1000);
+  return { id, workday, clockIn, clockOut, breaks, hourlyRate: rate };
+}
+
+function meal(entry: PayEngineEntry, afterHours: number, minutes = 30) {
+  const start = new Date(entry.clockIn.getTime() + afterHours * 60 * 60 * 1000);
+  return { start, end: new Date(start.getTime() + minutes * 60 * 1000), type: 'meal' as const };
+}
+
+describe('payEngine', () => {
+  it('splits a long day into regular and overtime hours', () => {
+    const entry = shift('a', '2026-03-02', 8, 12.5);
+    entry.breaks = [meal(entry, 6)];
+
+    const result = calculateWeeklyPay({ id: 'rule-1' }, [entry]);
+
+    expect(result.totals.totalHours).toBe(12);
+    expect(result.totals.regularHours).toBe(8);
+    expect(result.totals.overtimeHours).toBe(4);
+    expect(result.totals.doubleTimeHours).toBe(0);
+    expect(result.totals.totalPay).toBe(8 * 20 + 4 * 30);
+    expect(result.ruleId).toBe('rule-1');
+  });
+
+  it('converts regular hours past the weekly threshold to overtime', () => {
+    const entries = ['02', '03', '04', '05', '06'].map((d, i) => {
+      const e = shift(`d${i}`, `2026-03-${d}`, 8, 8.5);
+      e.breaks = [meal(e, 4)];
+      return e;
+    });
+    entries.push(shift('sat', '2026-03-07', 8, 4));
+
+    const result = calculateWeeklyPay({ weeklyOvertimeThreshold: 40 }, entries);
+    const saturday = result.entries.find(e => e.entryId === 'sat')!;
+
+    expect(result.totals.regularHours).toBe(40);
+    expect(saturday.regularHours).toBe(0);
+    expect(saturday.overtimeHours).toBe(4);
+  });
+
+  it('applies seventh day rules when enabled', () => {
+    const days = ['01', '02', '03', '04', '05', '06', '07'];
+    const entries = days.map((d, i) => shift(`d${i}`, `2026-03-${d}`, 8, 5));
+
+    const result = calculateWeeklyPay(
+      { seventhDayRule: { enabled: true }, weeklyOvertimeThreshold: null, workweekStartDay: 0 },
+      entries
+    );
+    const seventh = result.entries.find(e => e.entryId === 'd6')!;
+
+    expect(seventh.seventhDay).toBe(true);
+    expect(seventh.regularHours).toBe(0);
+    expect(seventh.overtimeHours).toBe(5);
+  });
+
+  it('adds meal penalties for work stretches past the threshold', () => {
+    const result = calculateWeeklyPay(
+      { mealBreakThreshold: 6, mealPenaltyHours: 1, mealPenaltyIncrementHours: 0.5 },
+      [shift('a', '2026-03-02', 8, 7)]
+    );
+    const lines = result.lines.filter(l => l.type === 'meal_penalty');
+
+    expect(result.entries[0].mealPenaltyCount).toBe(3);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].amount).toBe(60);
+  });
+
+  it('tops up short days to the minimum call', () => {
+    const result = calculateWeeklyPay({ minimumCallHours: 4 }, [shift('a', '2026-03-02', 8, 2)]);
+
+    expect(result.entries[0].minimumCallHours).toBe(2);
+    expect(result.totals.totalPay).toBe(80);
+  });
+
+  it('flags turnaround violations including the previous week', () => {
+    const entry = shift('a', '2026-03-02', 6, 4);
+    const previousClockOut = new Date('2026-03-01T23:00:00.000Z');
+
+    const result = calculateWeeklyPay({ minimumTurnaround: 10 }, [entry], { previousClockOut });
+    const penalty = result.lines.find(l => l.type === 'turnaround_penalty')!;
+
+    expect(result.entries[0].turnaroundViolation).toBe(true);
+    expect(penalty.hours).toBe(3);
+  });
+
+  it('normalizes Firestore entries and skips open shifts', () => {
+    const clockInTime = { toDate: () => new Date('2026-03-02T08:00:00.000Z') };
+
+    expect(toPayEngineEntry('open', { clockInTime, clockOutTime: null })).toBeNull();
+    expect(toPayEngineEntry('closed', {
+      clockInTime,
+      clockOutTime: new Date('2026-03-02T16:00:00.000Z'),
+      date: { toDate: () => new Date('2026-03-02T00:00:00.000Z') }
+    })?.workday).toBe('2026-03-02');
+  });
+
+  it('treats each meal segment as its own meal period', () => {
+    const at = (h: number) => ({ toDate: () => new Date(`2026-03-02T${String(h).padStart(2, '0')}:00:00.000Z`) });
+    const entry = toPayEngineEntry('segmented', {
+      clockInTime: at(6),
+      clockOutTime: at(20),
+      date: '2026-03-02',
+      segments: [
+        { type: 'work', startTime: at(6), endTime: at(11) },
+        { type: 'meal', startTime: at(11), endTime: at(12) },
+        { type: 'work', startTime: at(12), endTime: at(14) },
+        { type: 'break', startTime: at(14), endTime: at(15) },
+        { type: 'work', startTime: at(15), endTime: at(16) },
+        { type: 'meal', startTime: at(16), endTime: at(17) },
+        { type: 'work', startTime: at(17), endTime: at(20) }
+      ]
+    })!;
+
+    const result = calculateWeeklyPay({}, [entry]);
+
+    expect(entry.breaks).toHaveLength(3);
+    expect(result.entries[0].totalHours).toBe(12);
+    expect(result.entries[0].mealPenalty).toBe(false);
+  });
+
+  it('computes the workweek start for a configured start day', () => {
+    expect(getWorkweekStart('2026-03-05', 1)).toBe('2026-03-02');
+    expect(getWorkweekStart('2026-03-05', 0)).toBe('2026-03-01');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Entry Pay Calculator
+ *
+ * Runs the pay engine for one closed timecard entry in the context of its workweek,
+ * so weekly OT, seventh day, meal and turnaround rules see the shifts before it.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  calculateWeeklyPay,
+  getWorkweekStart,
+  resolveRuleSettings,
+  toPayEngineEntry,
+  EntryPayBreakdown,
+  PayEngineEntry,
+  PayLine
+} from './payEngine';
+import { resolveUserPaySettings } from './laborRuleResolver';
+import { addWorkdays, workdayToDateKey } from '../workdayTimeZone';
+
+const db = getFirestore();
+
+export interface EntryPayResult {
+  workday: string;
+  breakdown: EntryPayBreakdown;
+  lines: PayLine[];
+  ruleId: string | null;
+  hourlyRate: number;
+}
+
+/**
+ * Latest clock-out among shifts worked before the week, for the first shift's
+ * turnaround check
+ */
+export function findPreviousClockOut(entries: PayEngineEntry[], weekStart: string): Date | null {
+  return entries
+    .filter(entry => entry.workday < weekStart)
+    .reduce<Date | null>((latest, entry) => (!latest || entry.clockOut > latest ? entry.clockOut : latest), null);
+}
+
+/**
+ * Clock-out of the user's last shift on the workday before the week, so weekly
+ * recalculations apply the same turnaround check as clockOut
+ */
+export async function loadPreviousClockOut(userId: string, organizationId: string, weekStart: string): Promise<Date | null> {
+  const snapshot = await db.collection('timecard_entries')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .where('date', '>=', Timestamp.fromDate(workdayToDateKey(addWorkdays(weekStart, -1))))
+    .where('date', '<', Timestamp.fromDate(workdayToDateKey(weekStart)))
+    .get();
+
+  const entries = snapshot.docs
+    .map(doc => toPayEngineEntry(doc.id, doc.data()))
+    .filter((entry): entry is PayEngineEntry => !!entry);
+  return findPreviousClockOut(entries, weekStart);
+}
+
+/**
+ * Calculate pay for an entry whose clock-out time is set on `entryData`
+ */
+export async function calculateEntryPay(
+  entryId: string,
+  entryData: any,
+  userId: string,
+  organizationId: string
+): Promise<EntryPayResult> {
+  const { rule, hourlyRate } = await resolveUserPaySettings(userId, organizationId);
+  const entryRate = hourlyRate || entryData.hourlyRate || 0;
+
+  const closingEntry = toPayEngineEntry(entryId, entryData);
+  if (!closingEntry) {
+    throw new Error('Timecard entry has no clock-in/clock-out times to calculate');
+  }
+  closingEntry.hourlyRate = entryRate;
+
+  const settings = resolveRuleSettings(rule);
+  const weekStart = getWorkweekStart(closingEntry.workday, settings.workweekStartDay);
+  // Include the day before the week so the first shift gets a turnaround check
+  const queryStartDate = workdayToDateKey(addWorkdays(weekStart, -1));
+
+  const weekQuery = await db.collection('timecard_entries')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .where('date', '>=', Timestamp.fromDate(queryStartDate))
+    .get();
+
+  const priorEntries = weekQuery.docs
+    .filter(doc => doc.id !== entryId)
+    .map(doc => toPayEngineEntry(doc.id, doc.data()))
+    .filter((entry): entry is PayEngineEntry => !!entry && entry.clockIn < closingEntry.clockIn);
+  const weekEntries = priorEntries.filter(entry => entry.workday >= weekStart);
+
+  const pay = calculateWeeklyPay(rule, [...weekEntries, closingEntry], {
+    defaultHourlyRate: entryRate,
+    previousClockOut: findPreviousClockOut(priorEntries, weekStart)
+  });
+
+  return {
+    workday: closingEntry.workday,
+    breakdown: pay.entries.find(entry => entry.entryId === entryId)!,
+    lines: pay.lines.filter(line => line.entryId === entryId),
+    ruleId: pay.ruleId,
+    hourlyRate: entryRate
+  };
+}
+
+/**
+ * Fields written back to the timecard entry from a pay result
+ */
+export function toEntryPayFields(result: EntryPayResult): Record<string, any> {
+  const { breakdown } = result;
+  return {
+    totalHours: breakdown.totalHours,
+    regularHours: breakdown.regularHours,
+    overtimeHours: breakdown.overtimeHours,
+    doubleTimeHours: breakdown.doubleTimeHours,
+    minimumCallHours: breakdown.minimumCallHours,
+    mealPenalty: breakdown.mealPenalty,
+    mealPenaltyCount: breakdown.mealPenaltyCount,
+    turnaroundViolation: breakdown.turnaroundViolation,
+    penaltyAmount: breakdown.penaltyAmount,
+    totalPay: breakdown.totalPay,
+    payLines: result.lines,
+    laborRuleId: result.ruleId,
+    hourlyRate: result.hourlyRate
+  };
+}
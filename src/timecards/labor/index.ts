@@ -8,3 +8,6 @@ export {
   getLaborRules,
   getLaborRulesHttp
 } from './getLaborRules';
+
+export * from './payEngine';
+export { DEFAULT_LABOR_RULE_ID, resolveLaborRule, resolveUserPaySettings } from './laborRuleResolver';
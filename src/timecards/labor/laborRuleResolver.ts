@@ -0,0 +1,129 @@
+/**
+ * Labor Rule Resolver
+ *
+ * Loads the labor rule that applies to a user, resolving union contracts
+ * the same way getLaborRules does: explicit rule > active union contract > union affiliation,
+ * with the non-union default only when none of them apply
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { LaborRuleDocument } from './payEngine';
+
+const db = getFirestore();
+
+export interface ResolvedUserPaySettings {
+  rule: LaborRuleDocument | null;
+  hourlyRate: number;
+  unionId: string | null;
+}
+
+/**
+ * Rule applied when a user has no explicit rule and no union rule matches
+ */
+export const DEFAULT_LABOR_RULE_ID = 'non-union-default';
+
+async function loadLaborRule(organizationId: string, ruleId: string): Promise<LaborRuleDocument | null> {
+  const ruleDoc = await db.collection('labor_rules').doc(ruleId).get();
+  const ruleData = ruleDoc.exists ? ruleDoc.data() : null;
+  // Shared defaults (e.g. 'non-union-default') carry no organizationId
+  if (ruleData && (!ruleData.organizationId || ruleData.organizationId === organizationId)) {
+    return { id: ruleDoc.id, ...ruleData };
+  }
+  return null;
+}
+
+async function resolveUnionLaborRule(organizationId: string, unionId: string): Promise<LaborRuleDocument | null> {
+  // Union contracts take precedence over rule affiliation
+  const contractsSnapshot = await db.collection('union_contracts')
+    .where('organizationId', '==', organizationId)
+    .where('unionId', '==', unionId)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+
+  if (!contractsSnapshot.empty) {
+    const contract = contractsSnapshot.docs[0].data();
+    if (contract.laborRuleId) {
+      const ruleDoc = await db.collection('labor_rules').doc(contract.laborRuleId).get();
+      if (ruleDoc.exists) {
+        return { id: ruleDoc.id, ...ruleDoc.data() };
+      }
+    }
+    return null;
+  }
+
+  // Fallback: find a currently effective rule by union affiliation
+  const rulesSnapshot = await db.collection('labor_rules')
+    .where('organizationId', '==', organizationId)
+    .where('isActive', '==', true)
+    .get();
+
+  const now = new Date();
+  for (const doc of rulesSnapshot.docs) {
+    const rule = doc.data();
+    const effectiveDate = rule.effectiveDate?.toDate?.() || new Date(rule.effectiveDate);
+    const expirationDate = rule.expirationDate ?
+      (rule.expirationDate?.toDate?.() || new Date(rule.expirationDate)) : null;
+
+    if (effectiveDate > now || (expirationDate && expirationDate < now)) {
+      continue;
+    }
+
+    if (rule.appliesToUnions && rule.appliesToUnions.includes(unionId)) {
+      return { id: doc.id, ...rule };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a labor rule: explicit rule ID, then the union's active contract, then union
+ * affiliation, then `defaultRuleId` when all of those miss
+ */
+export async function resolveLaborRule(
+  organizationId: string,
+  options: { ruleId?: string | null; unionId?: string | null; defaultRuleId?: string | null }
+): Promise<LaborRuleDocument | null> {
+  const { ruleId, unionId, defaultRuleId } = options;
+
+  if (ruleId) {
+    const rule = await loadLaborRule(organizationId, ruleId);
+    if (rule) {
+      return rule;
+    }
+  }
+
+  if (unionId) {
+    const rule = await resolveUnionLaborRule(organizationId, unionId);
+    if (rule) {
+      return rule;
+    }
+  }
+
+  return defaultRuleId ? loadLaborRule(organizationId, defaultRuleId) : null;
+}
+
+/**
+ * Resolve labor rule and hourly rate for a team member
+ */
+export async function resolveUserPaySettings(
+  userId: string,
+  organizationId: string
+): Promise<ResolvedUserPaySettings> {
+  const teamMemberDoc = await db.collection('teamMembers').doc(userId).get();
+  const teamMemberData = teamMemberDoc.data();
+
+  const unionId = teamMemberData?.unionId || teamMemberData?.primaryUnionAffiliation || null;
+  const rule = await resolveLaborRule(organizationId, {
+    ruleId: teamMemberData?.laborRuleId || null,
+    unionId,
+    defaultRuleId: DEFAULT_LABOR_RULE_ID
+  });
+
+  return {
+    rule,
+    hourlyRate: teamMemberData?.rates?.hourlyRate || teamMemberData?.hourlyRate || 0,
+    unionId
+  };
+}
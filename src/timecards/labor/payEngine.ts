@@ -0,0 +1,421 @@
+/**
+ * Pay Engine
+ *
+ * Pure, rule-driven pay calculation for a workweek of timecard entries.
+ * No Firestore access here - callers resolve the labor rule and load entries,
+ * so clockOut, getWeeklySummary and aggregateTimecardCosts all produce the same numbers.
+ */
+
+export type PayLineType =
+  | 'regular'
+  | 'overtime'
+  | 'double_time'
+  | 'minimum_call'
+  | 'meal_penalty'
+  | 'turnaround_penalty';
+
+/**
+ * Labor rule fields understood by the engine (subset of a `labor_rules` document)
+ */
+export interface LaborRuleDocument {
+  id?: string;
+  overtimeThreshold?: number;
+  doubleTimeThreshold?: number;
+  weeklyOvertimeThreshold?: number | null;
+  overtimeMultiplier?: number;
+  doubleTimeMultiplier?: number;
+  workweekStartDay?: number; // 0 = Sunday ... 6 = Saturday
+  seventhDayRule?: {
+    enabled?: boolean;
+    overtimeHours?: number; // Hours paid at OT before DT kicks in on the seventh day
+  };
+  mealBreakRequired?: boolean;
+  mealBreakThreshold?: number;
+  mealBreakMinimumMinutes?: number;
+  mealPenaltyHours?: number;
+  mealPenaltyAmount?: number;
+  mealPenaltyIncrementHours?: number;
+  minimumCallHours?: number;
+  minimumTurnaround?: number;
+  turnaroundPenaltyMultiplier?: number;
+  [key: string]: any;
+}
+
+/**
+ * Meal periods are unpaid and reset the meal clock; rest breaks are paid
+ */
+export interface PayEngineBreak {
+  start: Date;
+  end: Date;
+  type?: 'meal' | 'rest';
+}
+
+export interface PayEngineEntry {
+  id: string;
+  workday: string; // YYYY-MM-DD
+  clockIn: Date;
+  clockOut: Date;
+  breaks?: PayEngineBreak[];
+  hourlyRate?: number;
+}
+
+export interface PayLine {
+  entryId: string;
+  workday: string;
+  type: PayLineType;
+  hours: number;
+  rate: number;
+  multiplier: number;
+  amount: number;
+  description: string;
+}
+
+export interface EntryPayBreakdown {
+  entryId: string;
+  workday: string;
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  minimumCallHours: number;
+  mealPenalty: boolean;
+  mealPenaltyCount: number;
+  turnaroundViolation: boolean;
+  seventhDay: boolean;
+  penaltyAmount: number;
+  totalPay: number;
+}
+
+export interface WeeklyPayResult {
+  ruleId: string | null;
+  lines: PayLine[];
+  entries: EntryPayBreakdown[];
+  totals: {
+    totalHours: number;
+    regularHours: number;
+    overtimeHours: number;
+    doubleTimeHours: number;
+    minimumCallHours: number;
+    penaltyAmount: number;
+    totalPay: number;
+  };
+}
+
+export interface PayEngineOptions {
+  defaultHourlyRate?: number;
+  /** Clock-out of the last shift before this week, used for the first turnaround check */
+  previousClockOut?: Date | null;
+}
+
+/**
+ * Defaults mirror the template defaults used by submitTimecardForApproval
+ */
+export const DEFAULT_LABOR_RULE: Required<Pick<LaborRuleDocument,
+  'overtimeThreshold' | 'doubleTimeThreshold' | 'weeklyOvertimeThreshold' | 'overtimeMultiplier' |
+  'doubleTimeMultiplier' | 'workweekStartDay' | 'mealBreakRequired' | 'mealBreakThreshold' |
+  'mealBreakMinimumMinutes' | 'mealPenaltyHours' | 'minimumCallHours' | 'minimumTurnaround' |
+  'turnaroundPenaltyMultiplier'>> = {
+  overtimeThreshold: 8,
+  doubleTimeThreshold: 12,
+  weeklyOvertimeThreshold: 40,
+  overtimeMultiplier: 1.5,
+  doubleTimeMultiplier: 2.0,
+  workweekStartDay: 1,
+  mealBreakRequired: true,
+  mealBreakThreshold: 6,
+  mealBreakMinimumMinutes: 30,
+  mealPenaltyHours: 1,
+  minimumCallHours: 0,
+  minimumTurnaround: 0,
+  turnaroundPenaltyMultiplier: 1
+};
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+function hoursBetween(start: Date, end: Date): number {
+  return Math.max(0, (end.getTime() - start.getTime()) / MS_PER_HOUR);
+}
+
+function round(value: number, places = 4): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Merge a labor rule over the defaults, ignoring unset fields
+ */
+export function resolveRuleSettings(rule: LaborRuleDocument | null | undefined) {
+  const settings = { ...DEFAULT_LABOR_RULE };
+  if (!rule) return settings;
+
+  (Object.keys(settings) as Array<keyof typeof settings>).forEach((key) => {
+    if (rule[key] !== undefined) {
+      (settings as any)[key] = rule[key];
+    }
+  });
+
+  return settings;
+}
+
+/**
+ * Normalize a raw `timecard_entries` document into engine input.
+ * Returns null for entries that are still open (no clock out).
+ */
+export function toPayEngineEntry(id: string, data: any): PayEngineEntry | null {
+  const clockIn = toDate(data.clockInTime) || toDate(data.timeIn);
+  const clockOut = toDate(data.clockOutTime) || toDate(data.timeOut);
+  if (!clockIn || !clockOut) return null;
+
+  const breaks: PayEngineBreak[] = [];
+  if (Array.isArray(data.segments) && data.segments.length > 0) {
+    // Every closed meal/break segment is its own period; open ones end at clock out
+    for (const segment of data.segments) {
+      if (segment.type !== 'meal' && segment.type !== 'break') continue;
+      const start = toDate(segment.startTime);
+      const end = toDate(segment.endTime) || clockOut;
+      if (start) {
+        breaks.push({ start, end, type: segment.type === 'meal' ? 'meal' : 'rest' });
+      }
+    }
+  } else {
+    const mealStart = toDate(data.mealBreakStart);
+    const mealEnd = toDate(data.mealBreakEnd);
+    if (mealStart && mealEnd) {
+      breaks.push({ start: mealStart, end: mealEnd, type: 'meal' });
+    }
+  }
+
+  const entryDate = toDate(data.date) || clockIn;
+
+  return {
+    id,
+    // `workday` is bucketed in the org/project time zone at clock in; `date` is its UTC-midnight key
+    workday: data.workday || (typeof data.date === 'string' ? data.date : entryDate.toISOString().split('T')[0]),
+    clockIn,
+    clockOut,
+    breaks,
+    hourlyRate: data.hourlyRate || 0
+  };
+}
+
+/**
+ * Start (YYYY-MM-DD) of the workweek containing the given workday
+ */
+export function getWorkweekStart(workday: string, workweekStartDay = DEFAULT_LABOR_RULE.workweekStartDay): string {
+  const [year, month, day] = workday.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const offset = (date.getUTCDay() - workweekStartDay + 7) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Worked (paid) hours for an entry: shift length minus breaks that fall inside it
+ */
+function workedHours(entry: PayEngineEntry): number {
+  let hours = hoursBetween(entry.clockIn, entry.clockOut);
+  for (const brk of entry.breaks || []) {
+    const start = brk.start < entry.clockIn ? entry.clockIn : brk.start;
+    const end = brk.end > entry.clockOut ? entry.clockOut : brk.end;
+    if (brk.type !== 'rest') {
+      hours -= hoursBetween(start, end);
+    }
+  }
+  return Math.max(0, hours);
+}
+
+/**
+ * Count meal period violations: each stretch of work longer than the meal
+ * threshold without a qualifying meal break incurs a penalty, plus one more
+ * per increment when the rule specifies escalating penalties.
+ */
+function countMealViolations(entry: PayEngineEntry, settings: ReturnType<typeof resolveRuleSettings>, incrementHours?: number): number {
+  if (!settings.mealBreakRequired || settings.mealBreakThreshold <= 0) return 0;
+
+  const meals = (entry.breaks || [])
+    .filter(b => b.type !== 'rest' && hoursBetween(b.start, b.end) * 60 >= settings.mealBreakMinimumMinutes)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  let violations = 0;
+  let stretchStart = entry.clockIn;
+  const stretchEnds = [...meals.map(m => ({ end: m.start, resume: m.end })), { end: entry.clockOut, resume: entry.clockOut }];
+
+  for (const stretch of stretchEnds) {
+    const stretchHours = hoursBetween(stretchStart, stretch.end);
+    if (stretchHours > settings.mealBreakThreshold) {
+      violations += 1;
+      if (incrementHours && incrementHours > 0) {
+        violations += Math.floor((stretchHours - settings.mealBreakThreshold) / incrementHours);
+      }
+    }
+    stretchStart = stretch.resume;
+  }
+
+  return violations;
+}
+
+/**
+ * Calculate itemized pay for a workweek of closed entries under a labor rule
+ */
+export function calculateWeeklyPay(
+  rule: LaborRuleDocument | null | undefined,
+  entries: PayEngineEntry[],
+  options: PayEngineOptions = {}
+): WeeklyPayResult {
+  const settings = resolveRuleSettings(rule);
+  const seventhDayEnabled = !!rule?.seventhDayRule?.enabled;
+  const seventhDayOvertimeHours = rule?.seventhDayRule?.overtimeHours ?? 8;
+
+  const sorted = [...entries].sort((a, b) => a.clockIn.getTime() - b.clockIn.getTime());
+  const workdays = Array.from(new Set(sorted.map(e => e.workday))).sort();
+
+  const lines: PayLine[] = [];
+  const breakdowns = new Map<string, EntryPayBreakdown>();
+  const dayHours = new Map<string, number>();
+  let weeklyRegularHours = 0;
+  let previousClockOut: Date | null = options.previousClockOut || null;
+
+  const addLine = (entry: PayEngineEntry, type: PayLineType, hours: number, multiplier: number, description: string, rate: number) => {
+    if (hours <= 0) return 0;
+    const amount = round(hours * rate * multiplier, 2);
+    lines.push({
+      entryId: entry.id,
+      workday: entry.workday,
+      type,
+      hours: round(hours),
+      rate,
+      multiplier,
+      amount,
+      description
+    });
+    return amount;
+  };
+
+  for (const entry of sorted) {
+    const rate = entry.hourlyRate || options.defaultHourlyRate || 0;
+    const hours = workedHours(entry);
+    const priorDayHours = dayHours.get(entry.workday) || 0;
+    dayHours.set(entry.workday, priorDayHours + hours);
+
+    const isSeventhDay = seventhDayEnabled && workdays.length >= 7 && workdays.indexOf(entry.workday) === 6;
+
+    // Daily split based on hours already worked earlier the same workday
+    let regular = 0;
+    let overtime = 0;
+    let doubleTime = 0;
+    if (isSeventhDay) {
+      const otCap = Math.max(0, seventhDayOvertimeHours - priorDayHours);
+      overtime = Math.min(hours, otCap);
+      doubleTime = hours - overtime;
+    } else {
+      const regCap = Math.max(0, settings.overtimeThreshold - priorDayHours);
+      const otCap = Math.max(0, settings.doubleTimeThreshold - Math.max(priorDayHours, settings.overtimeThreshold));
+      regular = Math.min(hours, regCap);
+      overtime = Math.min(hours - regular, otCap);
+      doubleTime = hours - regular - overtime;
+    }
+
+    // Weekly overtime: regular hours past the weekly threshold become overtime
+    if (settings.weeklyOvertimeThreshold !== null && settings.weeklyOvertimeThreshold > 0) {
+      const remainingRegular = Math.max(0, settings.weeklyOvertimeThreshold - weeklyRegularHours);
+      if (regular > remainingRegular) {
+        overtime += regular - remainingRegular;
+        regular = remainingRegular;
+      }
+    }
+    weeklyRegularHours += regular;
+
+    let totalPay = 0;
+    let penaltyAmount = 0;
+    totalPay += addLine(entry, 'regular', regular, 1, 'Regular time', rate);
+    totalPay += addLine(entry, 'overtime', overtime, settings.overtimeMultiplier,
+      isSeventhDay ? 'Seventh day overtime' : 'Overtime', rate);
+    totalPay += addLine(entry, 'double_time', doubleTime, settings.doubleTimeMultiplier,
+      isSeventhDay ? 'Seventh day double time' : 'Double time', rate);
+
+    // Meal penalties
+    const mealViolations = countMealViolations(entry, settings, rule?.mealPenaltyIncrementHours);
+    if (mealViolations > 0) {
+      const amount = rule?.mealPenaltyAmount !== undefined
+        ? addLine(entry, 'meal_penalty', mealViolations, 1, `Meal penalty x${mealViolations}`, rule.mealPenaltyAmount)
+        : addLine(entry, 'meal_penalty', mealViolations * settings.mealPenaltyHours, 1, `Meal penalty x${mealViolations}`, rate);
+      penaltyAmount += amount;
+    }
+
+    // Turnaround: hours worked inside the required rest period carry a penalty
+    let turnaroundViolation = false;
+    if (settings.minimumTurnaround > 0 && previousClockOut) {
+      const rest = hoursBetween(previousClockOut, entry.clockIn);
+      if (rest < settings.minimumTurnaround) {
+        turnaroundViolation = true;
+        const invadedHours = Math.min(hours, settings.minimumTurnaround - rest);
+        penaltyAmount += addLine(entry, 'turnaround_penalty', invadedHours, settings.turnaroundPenaltyMultiplier,
+          `Turnaround violation (${round(rest, 2)}h rest)`, rate);
+      }
+    }
+    if (!previousClockOut || entry.clockOut > previousClockOut) {
+      previousClockOut = entry.clockOut;
+    }
+
+    breakdowns.set(entry.id, {
+      entryId: entry.id,
+      workday: entry.workday,
+      totalHours: round(hours),
+      regularHours: round(regular),
+      overtimeHours: round(overtime),
+      doubleTimeHours: round(doubleTime),
+      minimumCallHours: 0,
+      mealPenalty: mealViolations > 0,
+      mealPenaltyCount: mealViolations,
+      turnaroundViolation,
+      seventhDay: isSeventhDay,
+      penaltyAmount: round(penaltyAmount, 2),
+      totalPay: round(totalPay + penaltyAmount, 2)
+    });
+  }
+
+  // Minimum call: short days are topped up on the last entry of the workday
+  if (settings.minimumCallHours > 0) {
+    for (const workday of workdays) {
+      const worked = dayHours.get(workday) || 0;
+      if (worked >= settings.minimumCallHours) continue;
+
+      const lastEntry = [...sorted].reverse().find(e => e.workday === workday);
+      if (!lastEntry) continue;
+
+      const shortfall = settings.minimumCallHours - worked;
+      const rate = lastEntry.hourlyRate || options.defaultHourlyRate || 0;
+      const amount = addLine(lastEntry, 'minimum_call', shortfall, 1, `Minimum call (${settings.minimumCallHours}h)`, rate);
+      const breakdown = breakdowns.get(lastEntry.id)!;
+      breakdown.minimumCallHours = round(shortfall);
+      breakdown.totalPay = round(breakdown.totalPay + amount, 2);
+    }
+  }
+
+  const entryBreakdowns = sorted.map(e => breakdowns.get(e.id)!);
+  const sum = (pick: (b: EntryPayBreakdown) => number) =>
+    round(entryBreakdowns.reduce((total, b) => total + pick(b), 0), 2);
+
+  return {
+    ruleId: rule?.id || null,
+    lines,
+    entries: entryBreakdowns,
+    totals: {
+      totalHours: sum(b => b.totalHours),
+      regularHours: sum(b => b.regularHours),
+      overtimeHours: sum(b => b.overtimeHours),
+      doubleTimeHours: sum(b => b.doubleTimeHours),
+      minimumCallHours: sum(b => b.minimumCallHours),
+      penaltyAmount: sum(b => b.penaltyAmount),
+      totalPay: sum(b => b.totalPay)
+    }
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Payroll Access Tests
+ *
+ * Tests for the admin and export checks against stored custom claims
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canExportPayroll, isPayrollAdmin } from '../payrollAccess';
+
+describe('payrollAccess', () => {
+  it('treats uppercase ADMIN and OWNER roles as payroll admins', () => {
+    expect(isPayrollAdmin({ role: 'ADMIN', organizationId: 'org-1' })).toBe(true);
+    expect(isPayrollAdmin({ role: 'OWNER', organizationId: 'org-1' })).toBe(true);
+    expect(isPayrollAdmin({ role: 'SUPERADMIN', isAdmin: true })).toBe(true);
+    expect(isPayrollAdmin({ role: 'MEMBER', organizationId: 'org-1' })).toBe(false);
+  });
+
+  it('lets admins and canExportPayroll users export', () => {
+    expect(canExportPayroll({ role: 'ADMIN' })).toBe(true);
+    expect(canExportPayroll({ role: 'MEMBER', canExportPayroll: true })).toBe(true);
+    expect(canExportPayroll({ role: 'MEMBER' })).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Payroll Export Format Tests
+ *
+ * Tests for row mapping, CSV quoting and formula escaping, fixed-width padding and
+ * template validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GENERIC_CSV_TEMPLATE,
+  PayrollExportOverflowError,
+  renderPayrollExport,
+  toPayrollExportRow,
+  validatePayrollExportTemplate
+} from '../payrollExportFormats';
+
+const entry = {
+  userId: 'user-1',
+  workday: '2026-03-02',
+  timeZone: 'America/Los_Angeles',
+  clockInTime: { toDate: () => new Date('2026-03-02T15:00:00.000Z') },
+  clockOutTime: { toDate: () => new Date('2026-03-03T03:30:00.000Z') },
+  regularHours: 8,
+  overtimeHours: 4,
+  doubleTimeHours: 0,
+  totalHours: 12,
+  hourlyRate: 20,
+  totalPay: 280
+};
+
+describe('payrollExportFormats', () => {
+  it('maps entries to rows using the entry time zone', () => {
+    const row = toPayrollExportRow('e1', entry, { employeeNumber: 'E100', employeeName: 'Smith, Alex' });
+
+    expect(row.clockIn).toBe('07:00');
+    expect(row.clockOut).toBe('19:30');
+    expect(row.workday).toBe('2026-03-02');
+    expect(row.employeeNumber).toBe('E100');
+  });
+
+  it('renders the generic CSV with quoting', () => {
+    const row = toPayrollExportRow('e1', entry, { employeeNumber: 'E100', employeeName: 'Smith, Alex' });
+    const [header, line] = renderPayrollExport([row], GENERIC_CSV_TEMPLATE).trim().split('\n');
+
+    expect(header.startsWith('"Employee ID","Employee Name","Work Date"')).toBe(true);
+    expect(line).toBe('"E100","Smith, Alex","2026-03-02","07:00","19:30","8.00","4.00","0.00","0","20.00","280.00",""');
+  });
+
+  it('neutralizes text cells that would open as spreadsheet formulas', () => {
+    const row = toPayrollExportRow('e1', { ...entry, projectId: '@SUM(A1:A9)' }, { employeeNumber: '+1', employeeName: '=HYPERLINK("http://x")' });
+    const [, line] = renderPayrollExport([row], GENERIC_CSV_TEMPLATE).trim().split('\n');
+
+    expect(line.startsWith(`"'+1","'=HYPERLINK(""http://x"")",`)).toBe(true);
+    expect(line.endsWith(`,"'@SUM(A1:A9)"`)).toBe(true);
+  });
+
+  it('renders fixed-width records with padding and truncation', () => {
+    const template = validatePayrollExportTemplate({
+      name: 'House',
+      format: 'fixed_width',
+      columns: [
+        { field: 'constant', value: 'CO1', width: 4 },
+        { field: 'employeeName', width: 5 },
+        { field: 'workday', width: 8, dateFormat: 'YYYYMMDD' },
+        { field: 'totalPay', width: 8, padChar: '0' }
+      ]
+    });
+    const row = toPayrollExportRow('e1', entry, { employeeName: 'Alexandra' });
+
+    expect(renderPayrollExport([row], template)).toBe('CO1 Alexa2026030200280.00\n');
+  });
+
+  it('fails instead of truncating a numeric value that overflows its column', () => {
+    const template = validatePayrollExportTemplate({
+      name: 'House',
+      format: 'fixed_width',
+      columns: [{ header: 'Gross', field: 'totalPay', width: 6 }]
+    });
+    const row = { ...toPayrollExportRow('e1', entry, {}), totalPay: 12345.67 };
+
+    expect(() => renderPayrollExport([row], template)).toThrow(PayrollExportOverflowError);
+  });
+
+  it('zero-pads negative amounts after the sign', () => {
+    const template = validatePayrollExportTemplate({
+      name: 'House',
+      format: 'fixed_width',
+      columns: [{ field: 'totalPay', width: 8, padChar: '0' }]
+    });
+    const row = { ...toPayrollExportRow('e1', entry, {}), totalPay: -12.5 };
+
+    expect(renderPayrollExport([row], template)).toBe('-0012.50\n');
+  });
+
+  it('rejects templates with unknown fields or missing widths', () => {
+    expect(() => validatePayrollExportTemplate({ name: 'x', format: 'csv', columns: [{ field: 'ssn' }] }))
+      .toThrow('unknown field');
+    expect(() => validatePayrollExportTemplate({ name: 'x', format: 'fixed_width', columns: [{ field: 'userId' }] }))
+      .toThrow('positive width');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Export Approved Timecards Function
+ * 
+ * Emits APPROVED timecard entries for a pay period as a payroll-ready CSV or
+ * fixed-width file, using the organization's column-mapping template when one exists.
+ * Every export is recorded in `payrollExports`; exported entries are locked against
+ * re-export until the export (or the entry) is voided.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import * as crypto from 'crypto';
+import { createSuccessResponse, handleError } from '../../shared/utils';
+import { canExportPayroll } from './payrollAccess';
+import { normalizeWorkday, resolveWorkdayTimeZone, workdayToDateKey } from '../workdayTimeZone';
+import {
+  getGenericTemplate,
+  PayrollEmployeeInfo,
+  PayrollExportFormat,
+  PayrollExportOverflowError,
+  PayrollExportTemplate,
+  renderPayrollExport,
+  toPayrollExportRow
+} from './payrollExportFormats';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+
+const db = getFirestore();
+
+/**
+ * Firestore transactions are capped at 500 writes (entries plus the audit record)
+ */
+const MAX_ENTRIES_PER_EXPORT = 499;
+
+async function loadTemplate(
+  organizationId: string,
+  format: PayrollExportFormat,
+  templateId?: string
+): Promise<PayrollExportTemplate> {
+  if (templateId) {
+    const templateDoc = await db.collection('payrollExportTemplates').doc(templateId).get();
+    const templateData = templateDoc.data();
+    if (!templateDoc.exists || templateData?.organizationId !== organizationId || templateData?.isActive === false) {
+      throw new HttpsError('not-found', 'Payroll export template not found');
+    }
+    return { id: templateDoc.id, ...templateData } as PayrollExportTemplate;
+  }
+
+  // Organization default for the format, otherwise the built-in generic layout
+  const defaultQuery = await db.collection('payrollExportTemplates')
+    .where('organizationId', '==', organizationId)
+    .where('format', '==', format)
+    .where('isDefault', '==', true)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+
+  if (!defaultQuery.empty) {
+    const templateDoc = defaultQuery.docs[0];
+    return { id: templateDoc.id, ...templateDoc.data() } as PayrollExportTemplate;
+  }
+
+  return getGenericTemplate(format);
+}
+
+async function loadEmployees(organizationId: string, userIds: string[]): Promise<Map<string, PayrollEmployeeInfo>> {
+  const employees = new Map<string, PayrollEmployeeInfo>();
+
+  for (const userId of userIds) {
+    const [teamMemberDoc, userDoc] = await Promise.all([
+      db.collection('teamMembers').doc(userId).get(),
+      db.collection('users').doc(userId).get()
+    ]);
+    const teamMember = teamMemberDoc.data();
+    const user = userDoc.data();
+
+    if (teamMember?.organizationId && teamMember.organizationId !== organizationId) {
+      console.warn(`⚠️ [PAYROLL EXPORT] Team member ${userId} belongs to a different organization`);
+    }
+
+    employees.set(userId, {
+      employeeNumber: teamMember?.payrollId || teamMember?.employeeNumber || userId,
+      employeeName: user?.displayName || user?.name || teamMember?.name || '',
+      email: user?.email || teamMember?.email || ''
+    });
+  }
+
+  return employees;
+}
+
+export const exportApprovedTimecards = onCall(
+  {
+    memory: '1GiB',
+    timeoutSeconds: 300,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { periodStart, periodEnd, format = 'csv', templateId, projectId, dryRun = false } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      if (format !== 'csv' && format !== 'fixed_width') {
+        throw new HttpsError('invalid-argument', 'format must be "csv" or "fixed_width"');
+      }
+
+      // Get user's organization
+      const userRecord = await getAuth().getUser(userId);
+      const userClaims = userRecord.customClaims || {};
+      const organizationId = userClaims.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      if (!canExportPayroll(userClaims)) {
+        throw new HttpsError('permission-denied', 'Only organization admins or payroll users can export payroll');
+      }
+
+      const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+      const startWorkday = normalizeWorkday(periodStart, timeZone);
+      const endWorkday = normalizeWorkday(periodEnd, timeZone);
+
+      if (!startWorkday || !endWorkday || endWorkday < startWorkday) {
+        throw new HttpsError('invalid-argument', 'A valid pay period (periodStart and periodEnd) is required');
+      }
+
+      console.log(`⏰ [PAYROLL EXPORT] ${format} export for org ${organizationId}, ${startWorkday} to ${endWorkday}`);
+
+      let entriesQuery = db.collection('timecard_entries')
+        .where('organizationId', '==', organizationId)
+        .where('status', '==', 'APPROVED')
+        .where('date', '>=', workdayToDateKey(startWorkday))
+        .where('date', '<=', workdayToDateKey(endWorkday));
+
+      if (projectId) {
+        entriesQuery = entriesQuery.where('projectId', '==', projectId);
+      }
+
+      const entriesSnapshot = await entriesQuery.get();
+
+      // Entries already in a live export are blocked until voided
+      const alreadyExported = entriesSnapshot.docs.filter(doc => !!doc.data().payrollExportId);
+      const exportable = entriesSnapshot.docs
+        .filter(doc => !doc.data().payrollExportId)
+        .sort((a, b) => {
+          const aData = a.data();
+          const bData = b.data();
+          return (aData.userId || '').localeCompare(bData.userId || '') ||
+            (aData.workday || '').localeCompare(bData.workday || '') ||
+            (aData.clockInTime?.toMillis?.() || 0) - (bData.clockInTime?.toMillis?.() || 0);
+        });
+
+      if (exportable.length === 0) {
+        throw new HttpsError(
+          'failed-precondition',
+          alreadyExported.length > 0
+            ? `All ${alreadyExported.length} approved entries in this period were already exported; void the previous export to re-export`
+            : 'No approved timecard entries found for this pay period'
+        );
+      }
+
+      if (exportable.length > MAX_ENTRIES_PER_EXPORT) {
+        throw new HttpsError('invalid-argument', 'Pay period has too many entries for a single export; export by project');
+      }
+
+      const template = await loadTemplate(organizationId, format, templateId);
+      const userIds = Array.from(new Set(exportable.map(doc => doc.data().userId).filter(Boolean)));
+      const employees = await loadEmployees(organizationId, userIds);
+
+      const rows = exportable.map(doc => toPayrollExportRow(doc.id, doc.data(), employees.get(doc.data().userId)));
+      let content: string;
+      try {
+        content = renderPayrollExport(rows, template);
+      } catch (renderError: any) {
+        if (renderError instanceof PayrollExportOverflowError) {
+          throw new HttpsError('failed-precondition', renderError.message);
+        }
+        throw renderError;
+      }
+      const checksum = crypto.createHash('sha256').update(content).digest('hex');
+      const extension = template.format === 'fixed_width' ? 'txt' : 'csv';
+      const fileName = `payroll_${startWorkday}_${endWorkday}.${extension}`;
+
+      const totals = rows.reduce((acc, row) => ({
+        regularHours: acc.regularHours + row.regularHours,
+        overtimeHours: acc.overtimeHours + row.overtimeHours,
+        doubleTimeHours: acc.doubleTimeHours + row.doubleTimeHours,
+        totalHours: acc.totalHours + row.totalHours,
+        totalPay: acc.totalPay + row.totalPay
+      }), { regularHours: 0, overtimeHours: 0, doubleTimeHours: 0, totalHours: 0, totalPay: 0 });
+
+      let exportId: string | null = null;
+
+      if (!dryRun) {
+        const exportRef = db.collection('payrollExports').doc();
+        exportId = exportRef.id;
+
+        // Lock entries in a transaction so two concurrent exports can't both claim them
+        await db.runTransaction(async (transaction) => {
+          const fresh = await Promise.all(exportable.map(doc => transaction.get(doc.ref)));
+          const claimed = fresh.filter(doc => !!doc.data()?.payrollExportId);
+          if (claimed.length > 0) {
+            throw new HttpsError('aborted', `${claimed.length} entries were exported by another request; please retry`);
+          }
+
+          transaction.set(exportRef, {
+            organizationId,
+            projectId: projectId || null,
+            periodStart: startWorkday,
+            periodEnd: endWorkday,
+            timeZone,
+            format: template.format,
+            templateId: template.id || null,
+            templateName: template.name,
+            fileName,
+            checksum,
+            entryIds: exportable.map(doc => doc.id),
+            entryCount: exportable.length,
+            employeeCount: userIds.length,
+            totals,
+            status: 'exported',
+            exportedBy: userId,
+            exportedAt: FieldValue.serverTimestamp(),
+            voidedAt: null,
+            voidedBy: null,
+            voidReason: null
+          });
+
+          exportable.forEach(doc => {
+            transaction.update(doc.ref, {
+              payrollExportId: exportRef.id,
+              payrollExportedAt: FieldValue.serverTimestamp(),
+              payrollExportedBy: userId,
+              revisionContext: buildRevisionContext(userId, 'payroll_export')
+            });
+          });
+        });
+
+        console.log(`✅ [PAYROLL EXPORT] Export ${exportId} recorded with ${exportable.length} entries`);
+      }
+
+      return createSuccessResponse({
+        exportId,
+        dryRun: !!dryRun,
+        fileName,
+        mimeType: template.format === 'fixed_width' ? 'text/plain' : 'text/csv',
+        content,
+        checksum,
+        format: template.format,
+        template: { id: template.id || null, name: template.name },
+        periodStart: startWorkday,
+        periodEnd: endWorkday,
+        entryCount: exportable.length,
+        totals,
+        blockedEntryIds: alreadyExported.map(doc => doc.id)
+      }, dryRun ? 'Payroll export preview generated' : 'Payroll export generated successfully');
+
+    } catch (error: any) {
+      console.error('❌ [PAYROLL EXPORT] Error:', error);
+      return handleError(error, 'exportApprovedTimecards');
+    }
+  }
+);
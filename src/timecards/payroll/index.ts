@@ -0,0 +1,7 @@
+/**
+ * Payroll Export Functions Index
+ */
+
+export { exportApprovedTimecards } from './exportApprovedTimecards';
+export { savePayrollExportTemplate, getPayrollExportTemplates } from './payrollExportTemplates';
+export { voidPayrollExport } from './voidPayrollExport';
@@ -0,0 +1,23 @@
+/**
+ * Payroll Access
+ *
+ * Who may export, void and configure payroll exports, from a user's custom claims.
+ */
+
+import { isOrganizationAdmin, UserClaims } from '../../shared/adminClaims';
+
+export type PayrollClaims = UserClaims;
+
+/**
+ * Organization admins and owners
+ */
+export function isPayrollAdmin(claims: PayrollClaims): boolean {
+  return isOrganizationAdmin(claims);
+}
+
+/**
+ * Admins, plus users granted `canExportPayroll`
+ */
+export function canExportPayroll(claims: PayrollClaims): boolean {
+  return isPayrollAdmin(claims) || claims.canExportPayroll === true;
+}
@@ -0,0 +1,345 @@
+/**
+ * Payroll Export Formats
+ *
+ * Turns approved timecard entries into payroll-house files.
+ * A template maps row fields to columns; the same template renders either
+ * delimited CSV or fixed-width records.
+ */
+
+export type PayrollExportFormat = 'csv' | 'fixed_width';
+
+export type PayrollExportField =
+  | 'entryId'
+  | 'userId'
+  | 'employeeNumber'
+  | 'employeeName'
+  | 'email'
+  | 'workday'
+  | 'clockIn'
+  | 'clockOut'
+  | 'timeZone'
+  | 'regularHours'
+  | 'overtimeHours'
+  | 'doubleTimeHours'
+  | 'totalHours'
+  | 'mealPenaltyCount'
+  | 'penaltyAmount'
+  | 'hourlyRate'
+  | 'totalPay'
+  | 'projectId'
+  | 'laborRuleId'
+  | 'constant';
+
+export const PAYROLL_EXPORT_FIELDS: PayrollExportField[] = [
+  'entryId', 'userId', 'employeeNumber', 'employeeName', 'email', 'workday', 'clockIn', 'clockOut',
+  'timeZone', 'regularHours', 'overtimeHours', 'doubleTimeHours', 'totalHours', 'mealPenaltyCount',
+  'penaltyAmount', 'hourlyRate', 'totalPay', 'projectId', 'laborRuleId', 'constant'
+];
+
+const NUMERIC_FIELDS: PayrollExportField[] = [
+  'regularHours', 'overtimeHours', 'doubleTimeHours', 'totalHours', 'mealPenaltyCount',
+  'penaltyAmount', 'hourlyRate', 'totalPay'
+];
+
+export interface PayrollExportColumn {
+  header: string;
+  field: PayrollExportField;
+  /** Required for fixed-width templates */
+  width?: number;
+  align?: 'left' | 'right';
+  padChar?: string;
+  decimals?: number;
+  /** Workday rendering: YYYY-MM-DD (default), MM/DD/YYYY or YYYYMMDD */
+  dateFormat?: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'YYYYMMDD';
+  /** Value for `constant` columns (e.g. a company code) */
+  value?: string;
+}
+
+export interface PayrollExportTemplate {
+  id?: string;
+  name: string;
+  format: PayrollExportFormat;
+  columns: PayrollExportColumn[];
+  delimiter?: string;
+  includeHeader?: boolean;
+  lineEnding?: '\n' | '\r\n';
+}
+
+export interface PayrollExportRow {
+  entryId: string;
+  userId: string;
+  employeeNumber: string;
+  employeeName: string;
+  email: string;
+  workday: string;
+  clockIn: string;
+  clockOut: string;
+  timeZone: string;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  totalHours: number;
+  mealPenaltyCount: number;
+  penaltyAmount: number;
+  hourlyRate: number;
+  totalPay: number;
+  projectId: string;
+  laborRuleId: string;
+}
+
+export interface PayrollEmployeeInfo {
+  employeeNumber?: string;
+  employeeName?: string;
+  email?: string;
+}
+
+export const GENERIC_CSV_TEMPLATE: PayrollExportTemplate = {
+  id: 'generic-csv',
+  name: 'Generic CSV',
+  format: 'csv',
+  includeHeader: true,
+  columns: [
+    { header: 'Employee ID', field: 'employeeNumber' },
+    { header: 'Employee Name', field: 'employeeName' },
+    { header: 'Work Date', field: 'workday' },
+    { header: 'Time In', field: 'clockIn' },
+    { header: 'Time Out', field: 'clockOut' },
+    { header: 'Regular Hours', field: 'regularHours', decimals: 2 },
+    { header: 'Overtime Hours', field: 'overtimeHours', decimals: 2 },
+    { header: 'Double Time Hours', field: 'doubleTimeHours', decimals: 2 },
+    { header: 'Meal Penalties', field: 'mealPenaltyCount', decimals: 0 },
+    { header: 'Rate', field: 'hourlyRate', decimals: 2 },
+    { header: 'Gross Pay', field: 'totalPay', decimals: 2 },
+    { header: 'Project', field: 'projectId' }
+  ]
+};
+
+export const GENERIC_FIXED_WIDTH_TEMPLATE: PayrollExportTemplate = {
+  id: 'generic-fixed-width',
+  name: 'Generic Fixed Width',
+  format: 'fixed_width',
+  includeHeader: false,
+  columns: [
+    { header: 'Employee ID', field: 'employeeNumber', width: 12 },
+    { header: 'Employee Name', field: 'employeeName', width: 30 },
+    { header: 'Work Date', field: 'workday', width: 8, dateFormat: 'YYYYMMDD' },
+    { header: 'Regular Hours', field: 'regularHours', width: 7, decimals: 2, align: 'right', padChar: '0' },
+    { header: 'Overtime Hours', field: 'overtimeHours', width: 7, decimals: 2, align: 'right', padChar: '0' },
+    { header: 'Double Time Hours', field: 'doubleTimeHours', width: 7, decimals: 2, align: 'right', padChar: '0' },
+    { header: 'Rate', field: 'hourlyRate', width: 9, decimals: 2, align: 'right', padChar: '0' },
+    { header: 'Gross Pay', field: 'totalPay', width: 11, decimals: 2, align: 'right', padChar: '0' }
+  ]
+};
+
+/**
+ * Built-in template for a format, used when the organization has none configured
+ */
+export function getGenericTemplate(format: PayrollExportFormat): PayrollExportTemplate {
+  return format === 'fixed_width' ? GENERIC_FIXED_WIDTH_TEMPLATE : GENERIC_CSV_TEMPLATE;
+}
+
+/**
+ * Validate a column-mapping template from a request body
+ */
+export function validatePayrollExportTemplate(input: any): PayrollExportTemplate {
+  if (!input || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new Error('Template name is required');
+  }
+
+  if (input.format !== 'csv' && input.format !== 'fixed_width') {
+    throw new Error('Template format must be "csv" or "fixed_width"');
+  }
+
+  if (!Array.isArray(input.columns) || input.columns.length === 0) {
+    throw new Error('Template requires at least one column');
+  }
+
+  const columns = input.columns.map((column: any, index: number) => {
+    if (!column || !PAYROLL_EXPORT_FIELDS.includes(column.field)) {
+      throw new Error(`Column ${index + 1} has an unknown field "${column?.field}"`);
+    }
+    if (input.format === 'fixed_width' && !(Number(column.width) > 0)) {
+      throw new Error(`Column ${index + 1} needs a positive width for fixed-width exports`);
+    }
+    if (column.field === 'constant' && typeof column.value !== 'string') {
+      throw new Error(`Column ${index + 1} is a constant and needs a value`);
+    }
+
+    const normalized: PayrollExportColumn = {
+      header: typeof column.header === 'string' ? column.header : column.field,
+      field: column.field
+    };
+    if (column.width !== undefined) normalized.width = Number(column.width);
+    if (column.align === 'left' || column.align === 'right') normalized.align = column.align;
+    if (typeof column.padChar === 'string' && column.padChar.length === 1) normalized.padChar = column.padChar;
+    if (column.decimals !== undefined) normalized.decimals = Number(column.decimals);
+    if (['YYYY-MM-DD', 'MM/DD/YYYY', 'YYYYMMDD'].includes(column.dateFormat)) normalized.dateFormat = column.dateFormat;
+    if (column.field === 'constant') normalized.value = column.value;
+    return normalized;
+  });
+
+  return {
+    name: input.name.trim(),
+    format: input.format,
+    columns,
+    delimiter: typeof input.delimiter === 'string' && input.delimiter ? input.delimiter : ',',
+    includeHeader: input.includeHeader !== undefined ? !!input.includeHeader : input.format === 'csv',
+    lineEnding: input.lineEnding === '\r\n' ? '\r\n' : '\n'
+  };
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatLocalTime(value: any, timeZone: string): string {
+  const date = toDate(value);
+  if (!date) return '';
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(date);
+}
+
+/**
+ * Flatten a timecard entry into an export row
+ */
+export function toPayrollExportRow(
+  entryId: string,
+  data: any,
+  employee: PayrollEmployeeInfo = {}
+): PayrollExportRow {
+  const timeZone = data.timeZone || 'UTC';
+  const dateKey = toDate(data.date);
+
+  return {
+    entryId,
+    userId: data.userId || '',
+    employeeNumber: employee.employeeNumber || data.userId || '',
+    employeeName: employee.employeeName || '',
+    email: employee.email || '',
+    workday: data.workday || (dateKey ? dateKey.toISOString().split('T')[0] : ''),
+    clockIn: formatLocalTime(data.clockInTime, timeZone),
+    clockOut: formatLocalTime(data.clockOutTime, timeZone),
+    timeZone,
+    regularHours: data.regularHours || 0,
+    overtimeHours: data.overtimeHours || 0,
+    doubleTimeHours: data.doubleTimeHours || 0,
+    totalHours: data.totalHours || 0,
+    mealPenaltyCount: data.mealPenaltyCount || (data.mealPenalty ? 1 : 0),
+    penaltyAmount: data.penaltyAmount || 0,
+    hourlyRate: data.hourlyRate || 0,
+    totalPay: data.totalPay || 0,
+    projectId: data.projectId || '',
+    laborRuleId: data.laborRuleId || ''
+  };
+}
+
+function formatWorkday(workday: string, dateFormat: PayrollExportColumn['dateFormat']): string {
+  const [year, month, day] = workday.split('-');
+  if (!year || !month || !day) return workday;
+  if (dateFormat === 'MM/DD/YYYY') return `${month}/${day}/${year}`;
+  if (dateFormat === 'YYYYMMDD') return `${year}${month}${day}`;
+  return workday;
+}
+
+/**
+ * Render a single cell value (before CSV quoting / fixed-width padding)
+ */
+export function formatPayrollValue(row: PayrollExportRow, column: PayrollExportColumn): string {
+  if (column.field === 'constant') {
+    return column.value || '';
+  }
+
+  const value = row[column.field];
+  if (NUMERIC_FIELDS.includes(column.field)) {
+    return Number(value || 0).toFixed(column.decimals ?? 2);
+  }
+  if (column.field === 'workday') {
+    return formatWorkday(String(value), column.dateFormat);
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Spreadsheets treat text starting with these as a formula (CSV injection)
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote every cell; text cells that would open as a formula get a leading `'`
+ */
+function escapeCsv(value: string, numeric = false): string {
+  const safe = !numeric && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Thrown when a value cannot be written into its fixed-width column without losing digits
+ */
+export class PayrollExportOverflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayrollExportOverflowError';
+  }
+}
+
+function padFixed(value: string, column: PayrollExportColumn, numeric: boolean): string {
+  const width = column.width || value.length;
+  const align = column.align || (numeric ? 'right' : 'left');
+  const padChar = column.padChar || ' ';
+
+  // Dropping digits would silently change an amount, so numbers never truncate
+  if (numeric && value.length > width) {
+    throw new PayrollExportOverflowError(
+      `Value ${value} does not fit the ${width}-character "${column.header}" column`
+    );
+  }
+
+  // Zero padding goes after the sign: -0012.50, not 000-12.50
+  if (numeric && align === 'right' && padChar !== ' ' && value.startsWith('-')) {
+    return '-' + value.slice(1).padStart(width - 1, padChar);
+  }
+
+  // Truncate text rather than shift every following column
+  const clipped = value.length > width
+    ? (align === 'right' ? value.slice(value.length - width) : value.slice(0, width))
+    : value;
+
+  return align === 'right' ? clipped.padStart(width, padChar) : clipped.padEnd(width, padChar);
+}
+
+/**
+ * Render rows to file content using a template
+ */
+export function renderPayrollExport(rows: PayrollExportRow[], template: PayrollExportTemplate): string {
+  const lineEnding = template.lineEnding || '\n';
+  const lines: string[] = [];
+
+  if (template.format === 'fixed_width') {
+    if (template.includeHeader) {
+      lines.push(template.columns.map(column => padFixed(column.header, { ...column, align: 'left', padChar: ' ' }, false)).join(''));
+    }
+    rows.forEach(row => {
+      lines.push(template.columns.map(column =>
+        padFixed(formatPayrollValue(row, column), column, NUMERIC_FIELDS.includes(column.field))
+      ).join(''));
+    });
+  } else {
+    const delimiter = template.delimiter || ',';
+    if (template.includeHeader !== false) {
+      lines.push(template.columns.map(column => escapeCsv(column.header)).join(delimiter));
+    }
+    rows.forEach(row => {
+      lines.push(template.columns.map(column =>
+        escapeCsv(formatPayrollValue(row, column), NUMERIC_FIELDS.includes(column.field))
+      ).join(delimiter));
+    });
+  }
+
+  return lines.join(lineEnding) + (lines.length > 0 ? lineEnding : '');
+}
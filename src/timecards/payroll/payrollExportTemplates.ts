@@ -0,0 +1,144 @@
+/**
+ * Payroll Export Template Functions
+ * 
+ * Per-organization column-mapping templates for payroll exports
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError } from '../../shared/utils';
+import { isPayrollAdmin } from './payrollAccess';
+import {
+  GENERIC_CSV_TEMPLATE,
+  GENERIC_FIXED_WIDTH_TEMPLATE,
+  PAYROLL_EXPORT_FIELDS,
+  validatePayrollExportTemplate
+} from './payrollExportFormats';
+
+const db = getFirestore();
+
+export const savePayrollExportTemplate = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { templateId, isDefault = false, ...templateInput } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const userClaims = userRecord.customClaims || {};
+      const organizationId = userClaims.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      if (!isPayrollAdmin(userClaims)) {
+        throw new HttpsError('permission-denied', 'Only organization admins can manage payroll export templates');
+      }
+
+      let template;
+      try {
+        template = validatePayrollExportTemplate(templateInput);
+      } catch (validationError: any) {
+        throw new HttpsError('invalid-argument', validationError.message);
+      }
+
+      const templatesRef = db.collection('payrollExportTemplates');
+      const templateRef = templateId ? templatesRef.doc(templateId) : templatesRef.doc();
+
+      if (templateId) {
+        const existing = await templateRef.get();
+        if (!existing.exists || existing.data()?.organizationId !== organizationId) {
+          throw new HttpsError('not-found', 'Payroll export template not found');
+        }
+      }
+
+      // Only one default template per organization and format
+      const batch = db.batch();
+      if (isDefault) {
+        const defaultsQuery = await templatesRef
+          .where('organizationId', '==', organizationId)
+          .where('format', '==', template.format)
+          .where('isDefault', '==', true)
+          .get();
+        defaultsQuery.docs
+          .filter(doc => doc.id !== templateRef.id)
+          .forEach(doc => batch.update(doc.ref, { isDefault: false, updatedAt: FieldValue.serverTimestamp() }));
+      }
+
+      batch.set(templateRef, {
+        ...template,
+        organizationId,
+        isDefault: !!isDefault,
+        isActive: true,
+        updatedBy: userId,
+        updatedAt: FieldValue.serverTimestamp(),
+        ...(templateId ? {} : { createdBy: userId, createdAt: FieldValue.serverTimestamp() })
+      }, { merge: true });
+
+      await batch.commit();
+
+      console.log(`⏰ [PAYROLL EXPORT TEMPLATE] Saved template ${templateRef.id} for org ${organizationId}`);
+
+      return createSuccessResponse({
+        id: templateRef.id,
+        ...template,
+        isDefault: !!isDefault
+      }, 'Payroll export template saved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [PAYROLL EXPORT TEMPLATE] Error:', error);
+      return handleError(error, 'savePayrollExportTemplate');
+    }
+  }
+);
+
+export const getPayrollExportTemplates = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const organizationId = userRecord.customClaims?.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      const templatesQuery = await db.collection('payrollExportTemplates')
+        .where('organizationId', '==', organizationId)
+        .where('isActive', '==', true)
+        .get();
+
+      const templates = templatesQuery.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      return createSuccessResponse({
+        templates,
+        builtInTemplates: [GENERIC_CSV_TEMPLATE, GENERIC_FIXED_WIDTH_TEMPLATE],
+        availableFields: PAYROLL_EXPORT_FIELDS
+      }, 'Payroll export templates retrieved successfully');
+
+    } catch (error: any) {
+      console.error('❌ [PAYROLL EXPORT TEMPLATE] Error listing templates:', error);
+      return handleError(error, 'getPayrollExportTemplates');
+    }
+  }
+);
@@ -0,0 +1,115 @@
+/**
+ * Void Payroll Export Function
+ * 
+ * Voids a payroll export (or individual entries within it) so the entries can be
+ * exported again. The export audit record is kept and marked as voided.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError } from '../../shared/utils';
+import { canExportPayroll } from './payrollAccess';
+import { buildRevisionContext } from '../revisions/timecardRevisions';
+
+const db = getFirestore();
+
+export const voidPayrollExport = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 120,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { exportId, entryIds, reason } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      if (!exportId) {
+        throw new HttpsError('invalid-argument', 'Export ID is required');
+      }
+
+      if (!reason || typeof reason !== 'string') {
+        throw new HttpsError('invalid-argument', 'A reason is required to void a payroll export');
+      }
+
+      const userRecord = await getAuth().getUser(userId);
+      const userClaims = userRecord.customClaims || {};
+      const organizationId = userClaims.organizationId as string;
+
+      if (!canExportPayroll(userClaims)) {
+        throw new HttpsError('permission-denied', 'Only organization admins or payroll users can void payroll exports');
+      }
+
+      const exportRef = db.collection('payrollExports').doc(exportId);
+
+      const result = await db.runTransaction(async (transaction) => {
+        const exportDoc = await transaction.get(exportRef);
+        const exportData = exportDoc.data();
+
+        if (!exportDoc.exists || !exportData || exportData.organizationId !== organizationId) {
+          throw new HttpsError('not-found', 'Payroll export not found');
+        }
+
+        if (exportData.status === 'voided') {
+          throw new HttpsError('failed-precondition', 'Payroll export is already voided');
+        }
+
+        const exportedIds: string[] = exportData.entryIds || [];
+        const previouslyVoided: string[] = exportData.voidedEntryIds || [];
+        const targetIds: string[] = Array.isArray(entryIds) && entryIds.length > 0 ? entryIds : exportedIds;
+
+        const unknown = targetIds.filter(id => !exportedIds.includes(id));
+        if (unknown.length > 0) {
+          throw new HttpsError('invalid-argument', `Entries not part of this export: ${unknown.join(', ')}`);
+        }
+
+        const entryRefs = targetIds
+          .filter(id => !previouslyVoided.includes(id))
+          .map(id => db.collection('timecard_entries').doc(id));
+        const entryDocs = await Promise.all(entryRefs.map(ref => transaction.get(ref)));
+
+        entryDocs.forEach(entryDoc => {
+          // Only release entries still locked by this export
+          if (entryDoc.exists && entryDoc.data()?.payrollExportId === exportId) {
+            transaction.update(entryDoc.ref, {
+              payrollExportId: null,
+              payrollExportVoidedAt: FieldValue.serverTimestamp(),
+              payrollExportVoidedBy: userId,
+              payrollExportVoidReason: reason,
+              revisionContext: buildRevisionContext(userId, 'payroll_export', { reason })
+            });
+          }
+        });
+
+        const voidedEntryIds = Array.from(new Set([...previouslyVoided, ...targetIds]));
+        const fullyVoided = voidedEntryIds.length >= exportedIds.length;
+
+        transaction.update(exportRef, {
+          voidedEntryIds,
+          status: fullyVoided ? 'voided' : 'partially_voided',
+          voidedAt: FieldValue.serverTimestamp(),
+          voidedBy: userId,
+          voidReason: reason
+        });
+
+        return { voidedEntryIds, status: fullyVoided ? 'voided' : 'partially_voided' };
+      });
+
+      console.log(`⏰ [VOID PAYROLL EXPORT] Export ${exportId} ${result.status} by ${userId}`);
+
+      return createSuccessResponse({
+        exportId,
+        ...result
+      }, 'Payroll export voided successfully');
+
+    } catch (error: any) {
+      console.error('❌ [VOID PAYROLL EXPORT] Error:', error);
+      return handleError(error, 'voidPayrollExport');
+    }
+  }
+);
@@ -0,0 +1,57 @@
+/**
+ * Timecard Revision Tests
+ *
+ * Tests for field diffing and revision attribution
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Timestamp } from 'firebase-admin/firestore';
+
+vi.mock('firebase-admin/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase-admin/firestore')>()),
+  getFirestore: vi.fn(() => ({}))
+}));
+
+import { diffTimecardFields, resolveRevisionAttribution, revisionValuesEqual } from '../timecardRevisions';
+
+const at = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+describe('timecardRevisions', () => {
+  it('diffs changed fields and ignores bookkeeping fields', () => {
+    const before = {
+      clockInTime: at('2026-03-02T08:00:00.000Z'),
+      totalHours: 8,
+      notes: 'set',
+      updatedAt: at('2026-03-02T17:00:00.000Z')
+    };
+    const after = {
+      clockInTime: at('2026-03-02T07:30:00.000Z'),
+      totalHours: 8,
+      updatedAt: at('2026-03-03T09:00:00.000Z')
+    };
+
+    const changes = diffTimecardFields(before, after);
+
+    expect(changes.map(change => change.field)).toEqual(['clockInTime', 'notes']);
+    expect(changes[1].after).toBeNull();
+  });
+
+  it('compares segment arrays by value', () => {
+    const segment = () => [{ type: 'work', startTime: at('2026-03-02T08:00:00.000Z'), endTime: null }];
+
+    expect(revisionValuesEqual(segment(), segment())).toBe(true);
+    expect(revisionValuesEqual(segment(), [])).toBe(false);
+  });
+
+  it('attributes only writes that set a new revision context', () => {
+    const context = { changedBy: 'manager-1', source: 'correction', reason: 'Forgot to clock in', correctionRequestId: 'c1', at: at('2026-03-03T09:00:00.000Z') };
+
+    expect(resolveRevisionAttribution({}, { revisionContext: context })).toEqual({
+      changedBy: 'manager-1',
+      source: 'correction',
+      reason: 'Forgot to clock in',
+      correctionRequestId: 'c1'
+    });
+    expect(resolveRevisionAttribution({ revisionContext: context }, { revisionContext: context }).source).toBe('unattributed');
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Timecard Revision Functions Index
+ */
+
+export { onTimecardEntryRevision, onTimecardRevision } from './onTimecardRevision';
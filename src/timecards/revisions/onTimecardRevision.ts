@@ -0,0 +1,58 @@
+/**
+ * Timecard Revision Triggers
+ * 
+ * Firestore triggers that record every write to `timecard_entries` and `timecards`
+ * as an immutable revision with before/after values
+ */
+
+import { onDocumentWritten, FirestoreEvent, Change, DocumentSnapshot } from 'firebase-functions/v2/firestore';
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from '../../shared/utils';
+import { diffTimecardFields, resolveRevisionAttribution } from './timecardRevisions';
+
+async function recordRevision(
+  collection: string,
+  event: FirestoreEvent<Change<DocumentSnapshot> | undefined, { timecardId: string }>
+): Promise<void> {
+  const timecardId = event.params.timecardId;
+
+  try {
+    const before = event.data?.before.exists ? event.data.before.data() : undefined;
+    const after = event.data?.after.exists ? event.data.after.data() : undefined;
+
+    const changes = diffTimecardFields(before, after);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const action = !before ? 'created' : !after ? 'deleted' : 'updated';
+
+    // Event ID as the document ID keeps retried deliveries from duplicating a revision
+    await db.collection(collection).doc(timecardId)
+      .collection('revisions').doc(event.id)
+      .set({
+        timecardId,
+        collection,
+        organizationId: after?.organizationId || before?.organizationId || null,
+        action,
+        changes,
+        ...resolveRevisionAttribution(before, after),
+        changedAt: event.time ? Timestamp.fromDate(new Date(event.time)) : Timestamp.now()
+      });
+
+    console.log(`📝 [TIMECARD REVISION] Recorded ${action} revision for ${collection}/${timecardId} (${changes.length} field(s))`);
+  } catch (error: any) {
+    console.error(`❌ [TIMECARD REVISION] Error recording revision for ${collection}/${timecardId}:`, error);
+    // Don't throw - we don't want retries to pile up on a bad document
+  }
+}
+
+export const onTimecardEntryRevision = onDocumentWritten(
+  'timecard_entries/{timecardId}',
+  async (event) => recordRevision('timecard_entries', event)
+);
+
+export const onTimecardRevision = onDocumentWritten(
+  'timecards/{timecardId}',
+  async (event) => recordRevision('timecards', event)
+);
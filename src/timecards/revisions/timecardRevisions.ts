@@ -0,0 +1,160 @@
+/**
+ * Timecard Revisions
+ *
+ * Every write to a `timecard_entries` or `timecards` document is recorded as an
+ * immutable revision in the document's `revisions` subcollection (written only by
+ * the revision trigger). Writers attribute a change by stamping `revisionContext`
+ * in the same update; writes that don't (e.g. direct console edits) are recorded
+ * as unattributed.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+export type RevisionSource =
+  | 'clock_in'
+  | 'clock_out'
+  | 'break'
+  | 'submission'
+  | 'approval'
+  | 'escalation'
+  | 'correction'
+  | 'payroll_export'
+  | 'system'
+  | 'unattributed';
+
+export interface RevisionContext {
+  changedBy: string;
+  source: RevisionSource;
+  reason: string | null;
+  correctionRequestId: string | null;
+  at: Timestamp;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface TimecardRevision {
+  id: string;
+  timecardId: string;
+  collection: string;
+  organizationId: string | null;
+  action: 'created' | 'updated' | 'deleted';
+  changes: RevisionFieldChange[];
+  changedBy: string | null;
+  source: RevisionSource;
+  reason: string | null;
+  correctionRequestId: string | null;
+  changedAt: Timestamp;
+}
+
+/**
+ * Bookkeeping fields that change on every write and aren't worth a revision on their own
+ */
+const IGNORED_FIELDS = ['updatedAt', 'revisionContext'];
+
+/**
+ * Context to stamp on a timecard write so the revision trigger can attribute it
+ */
+export function buildRevisionContext(
+  changedBy: string,
+  source: RevisionSource,
+  options: { reason?: string | null; correctionRequestId?: string | null } = {}
+): RevisionContext {
+  return {
+    changedBy,
+    source,
+    reason: options.reason || null,
+    correctionRequestId: options.correctionRequestId || null,
+    at: Timestamp.now()
+  };
+}
+
+/**
+ * Deep equality that understands Firestore Timestamps
+ */
+export function revisionValuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) return false;
+
+  if (typeof a.isEqual === 'function' && typeof b.isEqual === 'function') {
+    try {
+      return a.isEqual(b);
+    } catch {
+      return false;
+    }
+  }
+
+  if (typeof a.toMillis === 'function' && typeof b.toMillis === 'function') {
+    return a.toMillis() === b.toMillis();
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => revisionValuesEqual(item, b[index]));
+  }
+
+  if (typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => revisionValuesEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Top-level fields that differ between two versions of a document
+ */
+export function diffTimecardFields(before: Record<string, any> | undefined, after: Record<string, any> | undefined): RevisionFieldChange[] {
+  const beforeData = before || {};
+  const afterData = after || {};
+  const fields = new Set([...Object.keys(beforeData), ...Object.keys(afterData)]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !revisionValuesEqual(beforeData[field], afterData[field]))
+    .sort()
+    .map(field => ({
+      field,
+      before: beforeData[field] === undefined ? null : beforeData[field],
+      after: afterData[field] === undefined ? null : afterData[field]
+    }));
+}
+
+/**
+ * The attribution for a write: only trust `revisionContext` if this write changed it
+ */
+export function resolveRevisionAttribution(
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined
+): Pick<TimecardRevision, 'changedBy' | 'source' | 'reason' | 'correctionRequestId'> {
+  const context = after?.revisionContext;
+  const isFresh = context && !revisionValuesEqual(context, before?.revisionContext);
+
+  if (!isFresh) {
+    return { changedBy: null, source: 'unattributed', reason: null, correctionRequestId: null };
+  }
+
+  return {
+    changedBy: context.changedBy || null,
+    source: context.source || 'unattributed',
+    reason: context.reason || null,
+    correctionRequestId: context.correctionRequestId || null
+  };
+}
+
+/**
+ * Revision log for a timecard, oldest first
+ */
+export async function getTimecardRevisions(collection: string, timecardId: string): Promise<TimecardRevision[]> {
+  const revisionsSnapshot = await db.collection(collection).doc(timecardId)
+    .collection('revisions')
+    .orderBy('changedAt', 'asc')
+    .get();
+
+  return revisionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as TimecardRevision));
+}
@@ -0,0 +1,88 @@
+/**
+ * Set Workday Time Zone Function
+ * 
+ * Sets the IANA time zone used to bucket timecards into workdays
+ * for an organization, or for a single project when projectId is provided
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import { isValidTimeZone } from './workdayTimeZone';
+
+const db = getFirestore();
+
+export const setWorkdayTimeZone = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { timeZone, projectId } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      // null clears a project override so it falls back to the organization
+      const clearing = timeZone === null && !!projectId;
+      if (!clearing && !isValidTimeZone(timeZone)) {
+        throw new HttpsError('invalid-argument', 'timeZone must be a valid IANA time zone (e.g. "America/New_York")');
+      }
+
+      // Get user's organization
+      const userRecord = await getAuth().getUser(userId);
+      const userClaims = userRecord.customClaims || {};
+      const organizationId = userClaims.organizationId as string;
+
+      if (!organizationId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      const isAdmin = userClaims.role === 'ADMIN' || userClaims.role === 'OWNER' || userClaims.isAdmin === true;
+      if (!isAdmin) {
+        throw new HttpsError('permission-denied', 'Only organization admins can change the workday time zone');
+      }
+
+      if (projectId) {
+        const projectRef = db.collection('projects').doc(projectId);
+        const projectDoc = await projectRef.get();
+
+        if (!projectDoc.exists || projectDoc.data()?.organizationId !== organizationId) {
+          throw new HttpsError('not-found', 'Project not found in your organization');
+        }
+
+        await projectRef.update({
+          'settings.timeZone': clearing ? FieldValue.delete() : timeZone,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      } else {
+        await db.collection('organizations').doc(organizationId).set({
+          settings: { timeZone },
+          updatedAt: FieldValue.serverTimestamp()
+        }, { merge: true });
+      }
+
+      console.log(`✅ [SET WORKDAY TIME ZONE] ${projectId ? `Project ${projectId}` : `Organization ${organizationId}`} time zone set to ${clearing ? '(organization default)' : timeZone}`);
+
+      return createSuccessResponse({
+        organizationId,
+        projectId: projectId || null,
+        timeZone: clearing ? null : timeZone
+      }, 'Workday time zone updated successfully');
+
+    } catch (error: any) {
+      console.error('❌ [SET WORKDAY TIME ZONE] Error:', error);
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      return handleError(error, 'setWorkdayTimeZone');
+    }
+  }
+);
@@ -0,0 +1,97 @@
+/**
+ * Start Break Function
+ * 
+ * Starts a meal or rest break on the user's active timecard entry
+ * Closes the current work segment and opens a break segment
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import * as admin from 'firebase-admin';
+import { createSuccessResponse, handleError } from '../shared/utils';
+import {
+  findActiveTimecardEntry,
+  getOpenSegment,
+  serializeSegments,
+  transitionSegments,
+  updateOpenEntrySegments
+} from './timecardSegments';
+import { buildRevisionContext } from './revisions/timecardRevisions';
+
+export const startBreak = onCall(
+  {
+    memory: '512MiB',
+    timeoutSeconds: 60,
+    cors: true
+  },
+  async (request) => {
+    try {
+      const { breakType = 'meal', notes } = request.data || {};
+      const userId = request.auth?.uid;
+
+      if (!userId) {
+        throw new HttpsError('unauthenticated', 'Authentication required');
+      }
+
+      if (breakType !== 'meal' && breakType !== 'break') {
+        throw new HttpsError('invalid-argument', 'breakType must be "meal" or "break"');
+      }
+
+      // Get user's organization
+      const userRecord = await getAuth().getUser(userId);
+      const userOrgId = userRecord.customClaims?.organizationId as string;
+
+      if (!userOrgId) {
+        throw new HttpsError('permission-denied', 'User must belong to an organization');
+      }
+
+      console.log(`⏰ [START BREAK] User ${userId} starting ${breakType} break`);
+
+      const timecardDoc = await findActiveTimecardEntry(userId, userOrgId);
+      if (!timecardDoc) {
+        throw new HttpsError('failed-precondition', 'You are not currently clocked in.');
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updatedSegments = await updateOpenEntrySegments(timecardDoc.ref, segments => {
+        const openSegment = getOpenSegment(segments);
+        if (openSegment && openSegment.type !== 'work') {
+          throw new HttpsError('failed-precondition', 'You are already on a break');
+        }
+        return {
+          segments: transitionSegments(segments, now, { type: breakType, notes }),
+          fields: {
+            onBreak: true,
+            revisionContext: buildRevisionContext(userId, 'break'),
+            updatedAt: now
+          }
+        };
+      });
+      if (!updatedSegments) {
+        throw new HttpsError('failed-precondition', 'You are not currently clocked in.');
+      }
+
+      console.log(`✅ [START BREAK] User ${userId} started ${breakType} break on entry ${timecardDoc.id}`);
+
+      return createSuccessResponse({
+        id: timecardDoc.id,
+        userId,
+        organizationId: userOrgId,
+        breakType,
+        breakStartTime: now.toDate().toISOString(),
+        onBreak: true,
+        segments: serializeSegments(updatedSegments)
+      }, 'Break started');
+
+    } catch (error: any) {
+      console.error('❌ [START BREAK] Error:', error);
+
+      // If it's already an HttpsError, re-throw it
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      return handleError(error, 'startBreak');
+    }
+  }
+);
@@ -8,6 +8,7 @@ import { onRequest } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse, handleError, setCorsHeaders } from '../shared/utils';
+import { normalizeWorkday, resolveWorkdayTimeZone } from './workdayTimeZone';
 
 const db = getFirestore();
 
@@ -95,6 +96,7 @@ export const timecardApprovalApi = onRequest(
 async function handlePendingApprovals(req: any, res: any, organizationId: string, userId: string) {
   try {
     const { projectId } = req.query;
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
 
     console.log(`⏰ [PENDING APPROVALS] Getting pending approvals for org: ${organizationId}`);
 
@@ -118,10 +120,16 @@ async function handlePendingApprovals(req: any, res: any, organizationId: string
     }
 
     const timecardsSnapshot = await query.get();
-    const timecards = timecardsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const timecards = timecardsSnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        // Legacy entries predate stored workdays; bucket them by clock-in time
+        workday: data.workday || normalizeWorkday(data.clockInTime || data.date, timeZone),
+        timeZone: data.timeZone || timeZone
+      };
+    });
 
     console.log(`⏰ [PENDING APPROVALS] Found ${timecards.length} pending approvals`);
 
@@ -129,6 +137,7 @@ async function handlePendingApprovals(req: any, res: any, organizationId: string
       timecards,
       count: timecards.length,
       organizationId,
+      timeZone,
       filters: { projectId }
     }, 'Pending approvals retrieved successfully'));
 
@@ -146,6 +155,11 @@ async function handleMySubmissions(req: any, res: any, organizationId: string, u
   try {
     const { projectId, status, startDate, endDate } = req.query;
 
+    // Date filters are workdays in the project/organization time zone
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+    const startWorkday = normalizeWorkday(startDate, timeZone);
+    const endWorkday = normalizeWorkday(endDate, timeZone);
+
     console.log(`⏰ [MY SUBMISSIONS] Getting submissions for user: ${userId} in org: ${organizationId}`);
 
     let query = db.collection('timecards')
@@ -161,12 +175,12 @@ async function handleMySubmissions(req: any, res: any, organizationId: string, u
       query = query.where('status', '==', status);
     }
 
-    if (startDate) {
-      query = query.where('date', '>=', startDate);
+    if (startWorkday) {
+      query = query.where('date', '>=', startWorkday);
     }
 
-    if (endDate) {
-      query = query.where('date', '<=', endDate);
+    if (endWorkday) {
+      query = query.where('date', '<=', endWorkday);
     }
 
     query = query.orderBy('date', 'desc');
@@ -184,7 +198,7 @@ async function handleMySubmissions(req: any, res: any, organizationId: string, u
       count: timecards.length,
       organizationId,
       userId,
-      filters: { projectId, status, startDate, endDate }
+      filters: { projectId, status, startDate: startWorkday, endDate: endWorkday, timeZone }
     }, 'My submissions retrieved successfully'));
 
   } catch (error: any) {
@@ -201,6 +215,11 @@ async function handleApprovalHistory(req: any, res: any, organizationId: string,
   try {
     const { projectId, status, startDate, endDate, page = 1, limit = 20, search } = req.query;
 
+    // Date filters are workdays in the project/organization time zone
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+    const startWorkday = normalizeWorkday(startDate, timeZone);
+    const endWorkday = normalizeWorkday(endDate, timeZone);
+
     console.log(`⏰ [APPROVAL HISTORY] Getting approval history for org: ${organizationId}`);
 
     let query = db.collection('timecards')
@@ -216,12 +235,12 @@ async function handleApprovalHistory(req: any, res: any, organizationId: string,
       query = query.where('status', '==', status);
     }
 
-    if (startDate) {
-      query = query.where('date', '>=', startDate);
+    if (startWorkday) {
+      query = query.where('date', '>=', startWorkday);
     }
 
-    if (endDate) {
-      query = query.where('date', '<=', endDate);
+    if (endWorkday) {
+      query = query.where('date', '<=', endWorkday);
     }
 
     query = query.orderBy('approvedAt', 'desc');
@@ -6,6 +6,7 @@
 
 import { db, createSuccessResponse, createErrorResponse, handleError } from '../shared/utils';
 import * as admin from 'firebase-admin';
+import { normalizeWorkday, resolveWorkdayTimeZone } from './workdayTimeZone';
 
 // ============================================================================
 // PENDING APPROVALS OPERATIONS
@@ -14,6 +15,7 @@ import * as admin from 'firebase-admin';
 export async function handlePendingApprovals(req: any, res: any, organizationId: string, userId: string) {
   try {
     const { projectId } = req.query;
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
 
     console.log(`⏰ [PENDING APPROVALS] Getting pending approvals for org: ${organizationId}`);
 
@@ -37,15 +39,22 @@ export async function handlePendingApprovals(req: any, res: any, organizationId:
     }
 
     const timecardsSnapshot = await query.get();
-    const timecards = timecardsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const timecards = timecardsSnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        // Legacy entries predate stored workdays; bucket them by clock-in time
+        workday: data.workday || normalizeWorkday(data.clockInTime || data.date, timeZone),
+        timeZone: data.timeZone || timeZone
+      };
+    });
 
     console.log(`⏰ [PENDING APPROVALS] Found ${timecards.length} pending approvals`);
 
     res.status(200).json(createSuccessResponse({
       pendingApprovals: timecards,
+      timeZone,
       summary: {
         total: timecards.length,
         compliance: 0
@@ -66,6 +75,11 @@ export async function handleMySubmissions(req: any, res: any, organizationId: st
   try {
     const { projectId, status, startDate, endDate } = req.query;
 
+    // Date filters are workdays in the project/organization time zone
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+    const startWorkday = normalizeWorkday(startDate, timeZone);
+    const endWorkday = normalizeWorkday(endDate, timeZone);
+
     console.log(`⏰ [MY SUBMISSIONS] Getting submissions for user: ${userId} in org: ${organizationId}`);
 
     let query = db.collection('timecards')
@@ -81,12 +95,12 @@ export async function handleMySubmissions(req: any, res: any, organizationId: st
       query = query.where('status', '==', status);
     }
 
-    if (startDate) {
-      query = query.where('date', '>=', startDate);
+    if (startWorkday) {
+      query = query.where('date', '>=', startWorkday);
     }
 
-    if (endDate) {
-      query = query.where('date', '<=', endDate);
+    if (endWorkday) {
+      query = query.where('date', '<=', endWorkday);
     }
 
     query = query.orderBy('date', 'desc');
@@ -123,6 +137,11 @@ export async function handleApprovalHistory(req: any, res: any, organizationId:
   try {
     const { projectId, status, startDate, endDate, page = 1, limit = 20, search } = req.query;
 
+    // Date filters are workdays in the project/organization time zone
+    const timeZone = await resolveWorkdayTimeZone(organizationId, projectId);
+    const startWorkday = normalizeWorkday(startDate, timeZone);
+    const endWorkday = normalizeWorkday(endDate, timeZone);
+
     console.log(`⏰ [APPROVAL HISTORY] Getting approval history for org: ${organizationId}`);
 
     let query = db.collection('timecards')
@@ -138,12 +157,12 @@ export async function handleApprovalHistory(req: any, res: any, organizationId:
       query = query.where('status', '==', status);
     }
 
-    if (startDate) {
-      query = query.where('date', '>=', startDate);
+    if (startWorkday) {
+      query = query.where('date', '>=', startWorkday);
     }
 
-    if (endDate) {
-      query = query.where('date', '<=', endDate);
+    if (endWorkday) {
+      query = query.where('date', '<=', endWorkday);
     }
 
     query = query.orderBy('approvedAt', 'desc');
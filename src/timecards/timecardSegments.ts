@@ -0,0 +1,224 @@
+/**
+ * Timecard Segments
+ *
+ * Shared helpers for the segments array on `timecard_entries` documents.
+ * A shift is a sequence of work, meal and break segments; only the last one may be open.
+ */
+
+import { getFirestore, DocumentReference, Timestamp } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+export type TimecardSegmentType = 'work' | 'meal' | 'break';
+
+export interface TimecardSegment {
+  type: TimecardSegmentType;
+  startTime: Timestamp;
+  endTime: Timestamp | null;
+  notes?: string;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  return value.toDate?.() || new Date(value);
+}
+
+/**
+ * Segments for an entry, synthesized from clock and meal times for legacy entries
+ */
+export function getEntrySegments(entryData: any): TimecardSegment[] {
+  if (Array.isArray(entryData.segments) && entryData.segments.length > 0) {
+    return entryData.segments;
+  }
+
+  if (!entryData.clockInTime) {
+    return [];
+  }
+
+  const clockOutTime = entryData.clockOutTime || null;
+  if (entryData.mealBreakStart && entryData.mealBreakEnd) {
+    return [
+      { type: 'work', startTime: entryData.clockInTime, endTime: entryData.mealBreakStart },
+      { type: 'meal', startTime: entryData.mealBreakStart, endTime: entryData.mealBreakEnd },
+      { type: 'work', startTime: entryData.mealBreakEnd, endTime: clockOutTime }
+    ];
+  }
+
+  return [{ type: 'work', startTime: entryData.clockInTime, endTime: clockOutTime }];
+}
+
+/**
+ * The open (last, unended) segment, if any
+ */
+export function getOpenSegment(segments: TimecardSegment[]): TimecardSegment | null {
+  const last = segments[segments.length - 1];
+  return last && !last.endTime ? last : null;
+}
+
+/**
+ * Close the open segment and optionally start a new one at the same instant
+ */
+export function transitionSegments(
+  segments: TimecardSegment[],
+  at: Timestamp,
+  next?: { type: TimecardSegmentType; notes?: string }
+): TimecardSegment[] {
+  const updated = segments.map((segment, index) =>
+    index === segments.length - 1 && !segment.endTime ? { ...segment, endTime: at } : segment
+  );
+
+  if (next) {
+    const segment: TimecardSegment = { type: next.type, startTime: at, endTime: null };
+    if (next.notes) segment.notes = next.notes;
+    updated.push(segment);
+  }
+
+  return updated;
+}
+
+/**
+ * Legacy meal fields kept in sync with the first meal segment for existing readers
+ */
+export function getLegacyMealFields(segments: TimecardSegment[]): Record<string, any> {
+  const meals = segments.filter(segment => segment.type === 'meal');
+  const firstMeal = meals[0];
+
+  return {
+    mealBreakTaken: meals.some(segment => !!segment.endTime),
+    mealBreakStart: firstMeal?.startTime || null,
+    mealBreakEnd: firstMeal?.endTime || null
+  };
+}
+
+/**
+ * Serialize segments for callable responses
+ */
+export function serializeSegments(segments: TimecardSegment[]) {
+  return segments.map(segment => {
+    const start = toDate(segment.startTime);
+    const end = toDate(segment.endTime);
+    return {
+      type: segment.type,
+      startTime: start?.toISOString() || null,
+      endTime: end?.toISOString() || null,
+      durationHours: start && end ? (end.getTime() - start.getTime()) / (1000 * 60 * 60) : null,
+      notes: segment.notes || null
+    };
+  });
+}
+
+/**
+ * Find the user's currently open timecard entry within the last 7 days
+ */
+export async function findActiveTimecardEntry(userId: string, organizationId: string) {
+  const lookbackDate = new Date();
+  lookbackDate.setDate(lookbackDate.getDate() - 7);
+  lookbackDate.setHours(0, 0, 0, 0);
+  const lookbackTimestamp = Timestamp.fromDate(lookbackDate);
+
+  // Use existing index (Organization + User + Date) to find recent entries
+  const timecardQuery = await db.collection('timecard_entries')
+    .where('userId', '==', userId)
+    .where('organizationId', '==', organizationId)
+    .where('date', '>=', lookbackTimestamp)
+    .orderBy('date', 'desc')
+    .get();
+
+  // Find the first active entry (no clockOutTime AND no timeOut)
+  // Handles legacy data where fields might be undefined instead of null
+  return timecardQuery.docs.find(doc => {
+    const data = doc.data();
+    return !data.clockOutTime && !data.timeOut;
+  }) || null;
+}
+
+/**
+ * Re-read an open entry's segments, apply `transition` and write the result in one
+ * transaction, so a double tap or retried call sees the first call's segments.
+ * `transition` throws to refuse; the fields it returns are written alongside the
+ * segments and legacy meal fields. Null when the entry has been clocked out since.
+ */
+export async function updateOpenEntrySegments(
+  ref: DocumentReference,
+  transition: (segments: TimecardSegment[], entryData: any) => { segments: TimecardSegment[]; fields: Record<string, any> }
+): Promise<TimecardSegment[] | null> {
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const entryData = snapshot.data();
+    if (!entryData || entryData.clockOutTime || entryData.timeOut) {
+      return null;
+    }
+
+    const { segments, fields } = transition(getEntrySegments(entryData), entryData);
+    transaction.update(ref, { segments, ...getLegacyMealFields(segments), ...fields });
+    return segments;
+  });
+}
+
+/**
+ * Move a closed shift to new clock-in/out times, trimming segments that fall outside
+ */
+export function retimeSegments(segments: TimecardSegment[], clockIn: Timestamp, clockOut: Timestamp): TimecardSegment[] {
+  const inMs = clockIn.toMillis();
+  const outMs = clockOut.toMillis();
+
+  const kept = segments
+    .filter(segment => {
+      const start = toDate(segment.startTime)!.getTime();
+      const end = toDate(segment.endTime)?.getTime() ?? outMs;
+      return end > inMs && start < outMs;
+    })
+    .map(segment => ({ ...segment }));
+
+  if (kept.length === 0) {
+    return [{ type: 'work', startTime: clockIn, endTime: clockOut }];
+  }
+
+  kept.forEach(segment => {
+    if (toDate(segment.startTime)!.getTime() < inMs) segment.startTime = clockIn;
+    if (!segment.endTime || toDate(segment.endTime)!.getTime() > outMs) segment.endTime = clockOut;
+  });
+  kept[0].startTime = clockIn;
+  kept[kept.length - 1].endTime = clockOut;
+  return kept;
+}
+
+/**
+ * Validate client-proposed segments: known types, contiguous, spanning clock-in to clock-out
+ */
+export function parseProposedSegments(input: any, clockIn: Timestamp, clockOut: Timestamp): TimecardSegment[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('segments must be a non-empty array');
+  }
+
+  const segments: TimecardSegment[] = input.map((segment: any, index: number) => {
+    if (!['work', 'meal', 'break'].includes(segment?.type)) {
+      throw new Error(`Segment ${index + 1} has an invalid type`);
+    }
+    const start = toDate(segment.startTime);
+    const end = toDate(segment.endTime);
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      throw new Error(`Segment ${index + 1} needs a startTime before its endTime`);
+    }
+    const parsed: TimecardSegment = {
+      type: segment.type,
+      startTime: Timestamp.fromDate(start),
+      endTime: Timestamp.fromDate(end)
+    };
+    if (segment.notes) parsed.notes = String(segment.notes);
+    return parsed;
+  });
+
+  segments.forEach((segment, index) => {
+    if (index > 0 && segment.startTime.toMillis() !== segments[index - 1].endTime!.toMillis()) {
+      throw new Error(`Segment ${index + 1} must start when segment ${index} ends`);
+    }
+  });
+
+  if (segments[0].startTime.toMillis() !== clockIn.toMillis() ||
+      segments[segments.length - 1].endTime!.toMillis() !== clockOut.toMillis()) {
+    throw new Error('Segments must start at the clock-in time and end at the clock-out time');
+  }
+
+  return segments;
+}
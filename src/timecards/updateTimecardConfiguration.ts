@@ -7,6 +7,7 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { createSuccessResponse, handleError } from '../shared/utils';
+import { validateApprovalChain } from './approval/approvalChainService';
 
 const db = getFirestore();
 
@@ -45,6 +46,7 @@ export const updateTimecardConfiguration = onCall(
         escalationComplianceIssues,
         escalationTurnaroundViolations,
         escalationReason,
+        approvalChain,
         isActive,
         configurationType
       } = request.data;
@@ -95,6 +97,7 @@ export const updateTimecardConfiguration = onCall(
       if (escalationComplianceIssues !== undefined) updateData.escalationComplianceIssues = escalationComplianceIssues;
       if (escalationTurnaroundViolations !== undefined) updateData.escalationTurnaroundViolations = escalationTurnaroundViolations;
       if (escalationReason !== undefined) updateData.escalationReason = escalationReason;
+      if (approvalChain !== undefined) updateData.approvalChain = approvalChain ? validateApprovalChain(approvalChain) : [];
       if (isActive !== undefined) updateData.isActive = isActive;
       if (configurationType !== undefined) updateData.configurationType = configurationType;
 
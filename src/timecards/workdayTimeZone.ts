@@ -0,0 +1,112 @@
+/**
+ * Workday Time Zone
+ *
+ * Buckets timecard activity into workdays using the project or organization time zone.
+ * A shift belongs to the workday on which it started, even when it crosses local midnight.
+ *
+ * Storage convention is unchanged: `timecard_entries.date` is UTC midnight of the
+ * workday string, so existing date-range queries keep working; `workday` and
+ * `timeZone` are written alongside it.
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+/**
+ * Used when neither the project nor the organization has a time zone set
+ * (matches the previous UTC-date behaviour)
+ */
+export const DEFAULT_WORKDAY_TIME_ZONE = 'UTC';
+
+const WORKDAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether the value is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: any): timeZone is string {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedDateParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the given time zone
+ */
+export function getWorkdayInTimeZone(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * UTC-midnight Date used as the stored `date` key for a workday
+ */
+export function workdayToDateKey(workday: string): Date {
+  const [year, month, day] = workday.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Shift a workday string by a number of calendar days
+ */
+export function addWorkdays(workday: string, days: number): string {
+  const date = workdayToDateKey(workday);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Normalize a client-supplied date filter to a workday.
+ * Plain YYYY-MM-DD values are taken as-is; full timestamps are bucketed in the time zone.
+ */
+export function normalizeWorkday(value: any, timeZone: string): string | null {
+  if (!value) return null;
+  if (typeof value === 'string' && WORKDAY_PATTERN.test(value)) return value;
+
+  const date = value?.toDate?.() || new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return getWorkdayInTimeZone(date, timeZone);
+}
+
+/**
+ * Resolve the workday time zone: project setting > organization setting > default
+ */
+export async function resolveWorkdayTimeZone(organizationId: string, projectId?: string | null): Promise<string> {
+  try {
+    if (projectId) {
+      const projectDoc = await db.collection('projects').doc(projectId).get();
+      const projectData = projectDoc.data();
+      const projectTimeZone = projectData?.settings?.timeZone || projectData?.timeZone;
+      if (isValidTimeZone(projectTimeZone)) {
+        return projectTimeZone;
+      }
+    }
+
+    const orgDoc = await db.collection('organizations').doc(organizationId).get();
+    const orgData = orgDoc.data();
+    const orgTimeZone = orgData?.settings?.timeZone || orgData?.timeZone;
+    if (isValidTimeZone(orgTimeZone)) {
+      return orgTimeZone;
+    }
+  } catch (error) {
+    console.warn(`⚠️ [WORKDAY TIME ZONE] Could not resolve time zone for org ${organizationId}, using default:`, error);
+  }
+
+  return DEFAULT_WORKDAY_TIME_ZONE;
+}
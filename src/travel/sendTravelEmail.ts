@@ -9,6 +9,7 @@ import { getFirestore } from 'firebase-admin/firestore';
 import * as nodemailer from 'nodemailer';
 import * as admin from 'firebase-admin';
 import { createSuccessResponse, createErrorResponse } from '../shared/utils';
+import { renderOrganizationEmail } from '../notifications/emailTemplates/emailTemplateService';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -83,17 +84,25 @@ export const sendTravelEmail = onCall(
       // Create email transporter
       const transporter = createEmailTransporter(emailSettings.smtpConfig);
 
-      // Generate HTML email template
-      const htmlBody = generateTravelEmailHTML(subject, body, type, travelRequest, actionUrl, rejectionReason);
+      // Render the organization's travel email template
+      const recipients = Array.isArray(to) ? to : [to];
+      const rendered = await renderOrganizationEmail(
+        organizationId,
+        'travel_notification',
+        buildTravelEmailVariables(subject, body, type, travelRequest, actionUrl, rejectionReason),
+        {
+          recipientEmail: recipients.length === 1 ? recipients[0] : null,
+          brandDefaults: { headerTitle: '✈️ Backbone Travel', footerText: 'This email was sent from Backbone Travel Management System' }
+        }
+      );
 
       // Send email
-      const recipients = Array.isArray(to) ? to : [to];
       const mailOptions = {
         from: emailSettings.smtpConfig.username || process.env.SMTP_FROM_EMAIL || 'noreply@backbone.com',
         to: recipients.join(', '),
-        subject: `[Backbone Travel] ${subject}`,
-        html: htmlBody,
-        text: body
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text
       };
 
       const result = await transporter.sendMail(mailOptions);
@@ -195,16 +204,16 @@ function createEmailTransporter(smtpConfig: any): nodemailer.Transporter {
 }
 
 /**
- * Generate HTML email template for travel emails
+ * Variables for the 'travel_notification' email template
  */
-function generateTravelEmailHTML(
+function buildTravelEmailVariables(
   subject: string,
   body: string,
   type: string,
   travelRequest?: any,
   actionUrl?: string,
   rejectionReason?: string
-): string {
+): Record<string, any> {
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'approval_request': return '✈️';
@@ -215,150 +224,30 @@ function generateTravelEmailHTML(
     }
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'approval_request': return '#ff9800';
-      case 'approval_confirmed': return '#4caf50';
-      case 'booking_confirmation': return '#2196f3';
-      case 'rejection': return '#f44336';
-      default: return '#2196f3';
-    }
-  };
-
-  // Build travel details section if travelRequest is provided
-  let travelDetailsHtml = '';
+  // Travel details section if travelRequest is provided
+  let travel: Record<string, any> | null = null;
   if (travelRequest) {
-    const startDate = travelRequest.startDate ? new Date(travelRequest.startDate).toLocaleDateString() : 'TBD';
-    const endDate = travelRequest.endDate ? new Date(travelRequest.endDate).toLocaleDateString() : 'TBD';
-    const cost = travelRequest.estimatedTotalCost ? `$${travelRequest.estimatedTotalCost.toLocaleString()}` : 'TBD';
-    
-    travelDetailsHtml = `
-      <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid ${getTypeColor(type)};">
-        <h3 style="color: #333; margin-top: 0;">Travel Request Details</h3>
-        <p><strong>Title:</strong> ${travelRequest.title || 'N/A'}</p>
-        <p><strong>Destination:</strong> ${travelRequest.destination || 'TBD'}</p>
-        <p><strong>Purpose:</strong> ${travelRequest.purpose || 'N/A'}</p>
-        <p><strong>Dates:</strong> ${startDate} - ${endDate}</p>
-        <p><strong>Estimated Cost:</strong> ${cost}</p>
-        ${travelRequest.participants?.length > 0 ? `
-          <p><strong>Participants:</strong> ${travelRequest.participants.map((p: any) => p.userName).join(', ')}</p>
-        ` : ''}
-      </div>
-    `;
-  }
-
-  // Build action buttons if actionUrl is provided
-  let actionButtonsHtml = '';
-  if (actionUrl && type !== 'rejection') {
-    actionButtonsHtml = `
-      <div style="text-align: center; margin: 30px 0;">
-        <a href="${actionUrl}" 
-           style="background: ${getTypeColor(type)}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600;">
-          ${type === 'approval_request' ? 'Review & Approve' : 'View Details'}
-        </a>
-      </div>
-    `;
-  }
-
-  // Build rejection reason if provided
-  let rejectionHtml = '';
-  if (type === 'rejection' && rejectionReason) {
-    rejectionHtml = `
-      <div style="background: #ffebee; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f44336;">
-        <p style="margin: 0; color: #c62828;"><strong>Reason:</strong> ${rejectionReason}</p>
-      </div>
-    `;
+    travel = {
+      title: travelRequest.title || 'N/A',
+      destination: travelRequest.destination || 'TBD',
+      purpose: travelRequest.purpose || 'N/A',
+      startDate: travelRequest.startDate ? new Date(travelRequest.startDate).toLocaleDateString() : 'TBD',
+      endDate: travelRequest.endDate ? new Date(travelRequest.endDate).toLocaleDateString() : 'TBD',
+      estimatedCost: travelRequest.estimatedTotalCost ? `$${travelRequest.estimatedTotalCost.toLocaleString()}` : 'TBD',
+      participants: travelRequest.participants?.length > 0
+        ? travelRequest.participants.map((p: any) => p.userName).join(', ')
+        : null
+    };
   }
 
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${subject}</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-          padding: 20px;
-        }
-        .header {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          padding: 30px;
-          text-align: center;
-          border-radius: 8px 8px 0 0;
-        }
-        .header h1 {
-          margin: 0;
-          font-size: 24px;
-        }
-        .content {
-          background: #f8f9fa;
-          padding: 30px;
-          border-radius: 0 0 8px 8px;
-        }
-        .notification-type {
-          display: inline-flex;
-          align-items: center;
-          background: ${getTypeColor(type)};
-          color: white;
-          padding: 8px 16px;
-          border-radius: 20px;
-          font-size: 14px;
-          font-weight: 500;
-          margin-bottom: 20px;
-        }
-        .notification-type span {
-          margin-right: 8px;
-          font-size: 16px;
-        }
-        .message {
-          background: white;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid ${getTypeColor(type)};
-          margin-bottom: 20px;
-        }
-        .footer {
-          text-align: center;
-          color: #666;
-          font-size: 12px;
-          margin-top: 30px;
-        }
-        .footer a {
-          color: #667eea;
-          text-decoration: none;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>✈️ Backbone Travel</h1>
-      </div>
-      <div class="content">
-        <div class="notification-type">
-          <span>${getTypeIcon(type)}</span>
-          ${type.replace('_', ' ').toUpperCase()}
-        </div>
-        <div class="message">
-          ${body.replace(/\n/g, '<br>')}
-        </div>
-        ${travelDetailsHtml}
-        ${rejectionHtml}
-        ${actionButtonsHtml}
-        <div class="footer">
-          <p>This email was sent from Backbone Travel Management System</p>
-          <p>
-            <a href="https://backbone-client.web.app">Visit Dashboard</a>
-          </p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  return {
+    subject,
+    body,
+    typeLabel: `${getTypeIcon(type)} ${type.replace(/_/g, ' ').toUpperCase()}`,
+    travel,
+    rejectionReason: type === 'rejection' ? rejectionReason || null : null,
+    // Rejections carry no action
+    actionUrl: actionUrl && type !== 'rejection' ? actionUrl : null,
+    actionLabel: type === 'approval_request' ? 'Review & Approve' : 'View Details'
+  };
 }
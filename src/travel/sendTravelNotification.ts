@@ -1,16 +1,15 @@
 /**
  * 🔥 SEND TRAVEL PUSH NOTIFICATION
- * Send FCM push notifications for travel-related events
+ * Send push notifications for travel-related events through the notification dispatcher
  */
 
 import { onCall } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { getMessaging } from 'firebase-admin/messaging';
 import { createSuccessResponse, createErrorResponse } from '../shared/utils';
 import * as admin from 'firebase-admin';
+import { dispatchNotification } from '../notifications/notificationDispatcher';
 
 const db = getFirestore();
-const messaging = getMessaging();
 
 interface TravelNotificationData {
   type: 'approval_request' | 'approval_confirmed' | 'booking_confirmation' | 'rejection' | 'reminder_24h' | 'reminder_receipts';
@@ -21,6 +20,69 @@ interface TravelNotificationData {
   actionUrl?: string;
 }
 
+/**
+ * Push a travel notification through the notification dispatcher, so the traveller's
+ * push preferences and quiet hours apply, and log the outcome to travel_notifications
+ */
+async function dispatchTravelPush(
+  travelRequestId: string,
+  userId: string,
+  travelType: TravelNotificationData['type'],
+  title: string,
+  body: string,
+  actionUrl: string,
+  travelRequest?: admin.firestore.DocumentData
+): Promise<{ sent: boolean; status: string; reason: string | null; dispatchId: string }> {
+  let organizationId = travelRequest?.organizationId;
+  if (!organizationId) {
+    const travelRequestDoc = await db.collection('travel_requests').doc(travelRequestId).get();
+    organizationId = travelRequestDoc.data()?.organizationId;
+  }
+  if (!organizationId) {
+    const userDoc = await db.collection('users').doc(userId).get();
+    organizationId = userDoc.data()?.organizationId;
+  }
+  if (!organizationId) {
+    throw new Error('Could not resolve the organization for this travel request');
+  }
+
+  const dispatch = await dispatchNotification({
+    organizationId,
+    category: 'travel',
+    type: travelType,
+    title,
+    message: body,
+    recipientIds: [userId],
+    channels: ['push'],
+    data: {
+      type: 'travel',
+      travelType,
+      travelRequestId,
+      actionUrl,
+      timestamp: new Date().toISOString()
+    }
+  });
+
+  const delivery = dispatch.deliveries.find(outcome => outcome.channel === 'push');
+  const status = delivery?.status || 'failed';
+
+  await db.collection('travel_notifications').add({
+    type: travelType,
+    travelRequestId,
+    userId,
+    title,
+    body,
+    actionUrl,
+    dispatchId: dispatch.dispatchId,
+    status,
+    reason: delivery?.reason || null,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+    success: status === 'sent',
+  });
+
+  return { sent: status === 'sent', status, reason: delivery?.reason || null, dispatchId: dispatch.dispatchId };
+}
+
 /**
  * Send travel push notification
  */
@@ -41,109 +103,18 @@ export const sendTravelNotification = onCall(
 
       console.log(`📱 [TravelNotification] Sending ${type} notification to user: ${userId}`);
 
-      // Get user's FCM tokens
-      const tokensSnapshot = await db
-        .collection('users')
-        .doc(userId)
-        .collection('fcmTokens')
-        .where('isActive', '==', true)
-        .get();
-
-      if (tokensSnapshot.empty) {
-        console.log(`⚠️ [TravelNotification] No active FCM tokens found for user: ${userId}`);
-        return createSuccessResponse(
-          { sent: false, reason: 'No active tokens' },
-          'No active FCM tokens found for user'
-        );
-      }
-
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      console.log(`📱 [TravelNotification] Found ${tokens.length} active token(s) for user: ${userId}`);
-
-      // Prepare notification payload
-      const notification: admin.messaging.Notification = {
-        title,
-        body,
-      };
-
-      const message: admin.messaging.MulticastMessage = {
-        notification,
-        data: {
-          type: 'travel',
-          travelType: type,
-          travelRequestId,
-          actionUrl: actionUrl || `/travel/${travelRequestId}`,
-          timestamp: new Date().toISOString(),
-        },
-        tokens,
-        android: {
-          priority: 'high' as const,
-          notification: {
-            channelId: 'travel_notifications',
-            sound: 'default',
-            clickAction: 'FLUTTER_NOTIFICATION_CLICK',
-          },
-        },
-        apns: {
-          payload: {
-            aps: {
-              sound: 'default',
-              badge: 1,
-            },
-          },
-        },
-        webpush: {
-          notification: {
-            icon: '/icons/travel-icon.png',
-            badge: '/icons/badge-icon.png',
-          },
-        },
-      };
-
-      // Send notifications
-      const response = await messaging.sendEachForMulticast(message);
-
-      console.log(`✅ [TravelNotification] Sent ${response.successCount} notification(s), ${response.failureCount} failed`);
-
-      // Log notification to Firestore
-      await db.collection('travel_notifications').add({
-        type,
+      const result = await dispatchTravelPush(
         travelRequestId,
         userId,
+        type,
         title,
         body,
-        actionUrl: actionUrl || `/travel/${travelRequestId}`,
-        tokensSent: tokens.length,
-        successCount: response.successCount,
-        failureCount: response.failureCount,
-        sentAt: admin.firestore.FieldValue.serverTimestamp(),
-        success: response.successCount > 0,
-      });
+        actionUrl || `/travel/${travelRequestId}`
+      );
 
-      // Handle failed tokens (remove inactive ones)
-      if (response.failureCount > 0) {
-        const failedTokens: string[] = [];
-        response.responses.forEach((resp, idx) => {
-          if (!resp.success) {
-            failedTokens.push(tokens[idx]);
-            // Check if token is invalid and mark as inactive
-            if (resp.error?.code === 'messaging/invalid-registration-token' ||
-                resp.error?.code === 'messaging/registration-token-not-registered') {
-              tokensSnapshot.docs[idx].ref.update({ isActive: false });
-            }
-          }
-        });
-        console.log(`⚠️ [TravelNotification] ${failedTokens.length} token(s) failed`);
-      }
+      console.log(`✅ [TravelNotification] Push ${result.status}${result.reason ? ` (${result.reason})` : ''}`);
 
-      return createSuccessResponse(
-        {
-          sent: response.successCount > 0,
-          successCount: response.successCount,
-          failureCount: response.failureCount,
-        },
-        `Notification sent to ${response.successCount} device(s)`
-      );
+      return createSuccessResponse(result, result.sent ? 'Notification sent' : `Notification ${result.status}`);
 
     } catch (error: any) {
       console.error('❌ [TravelNotification] Error sending notification:', error);
@@ -199,80 +170,18 @@ export const sendTravelReminder = onCall(
       }
       body += ' Tap to view full itinerary.';
 
-      // Send notification using the messaging service directly
-      const tokensSnapshot = await db
-        .collection('users')
-        .doc(userId)
-        .collection('fcmTokens')
-        .where('isActive', '==', true)
-        .get();
-
-      if (tokensSnapshot.empty) {
-        return createSuccessResponse(
-          { sent: false, reason: 'No active tokens' },
-          'No active FCM tokens found for user'
-        );
-      }
-
-      const tokens = tokensSnapshot.docs.map(doc => doc.data().token);
-      const notification: admin.messaging.Notification = {
-        title: `Travel Reminder: ${travelRequest?.title || 'Upcoming Trip'}`,
-        body,
-      };
-
-      const message: admin.messaging.MulticastMessage = {
-        notification,
-        data: {
-          type: 'travel',
-          travelType: 'reminder_24h',
-          travelRequestId,
-          actionUrl: `/travel/${travelRequestId}`,
-          timestamp: new Date().toISOString(),
-        },
-        tokens,
-        android: {
-          priority: 'high' as const,
-          notification: {
-            channelId: 'travel_notifications',
-            sound: 'default',
-          },
-        },
-        apns: {
-          payload: {
-            aps: {
-              sound: 'default',
-              badge: 1,
-            },
-          },
-        },
-      };
-
-      const response = await messaging.sendEachForMulticast(message);
-
-      // Log notification
-      await db.collection('travel_notifications').add({
-        type: 'reminder_24h',
+      const result = await dispatchTravelPush(
         travelRequestId,
         userId,
-        title: notification.title,
-        body: notification.body,
-        actionUrl: `/travel/${travelRequestId}`,
-        tokensSent: tokens.length,
-        successCount: response.successCount,
-        failureCount: response.failureCount,
-        sentAt: admin.firestore.FieldValue.serverTimestamp(),
-        success: response.successCount > 0,
-      });
-
-      return createSuccessResponse(
-        {
-          sent: response.successCount > 0,
-          successCount: response.successCount,
-          failureCount: response.failureCount,
-        },
-        `Reminder sent to ${response.successCount} device(s)`
+        'reminder_24h',
+        `Travel Reminder: ${travelRequest?.title || 'Upcoming Trip'}`,
+        body,
+        `/travel/${travelRequestId}`,
+        travelRequest
       );
 
+      return createSuccessResponse(result, result.sent ? 'Reminder sent' : `Reminder ${result.status}`);
+
     } catch (error: any) {
       console.error('❌ [TravelReminder] Error sending reminder:', error);
       return createErrorResponse(
@@ -1,109 +1,10 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
-import * as crypto from 'crypto';
-import { encryptionKey, getEncryptionKey } from '../slack/secrets';
+import { encryptionKey, encryptionKeyPrevious } from '../slack/secrets';
+import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 const db = admin.firestore();
 
-/**
- * Decrypt token helper (same as used in slack/oauth.ts)
- */
-function decryptToken(encryptedData: string): string {
-    try {
-        if (!encryptedData || typeof encryptedData !== 'string') {
-            throw new Error('Invalid token format: token is missing or not a string');
-        }
-
-        const parts = encryptedData.split(':');
-        if (parts.length !== 3) {
-            throw new Error(`Invalid token format. Expected 3 parts separated by ':', got ${parts.length} parts.`);
-        }
-
-        const [ivHex, authTagHex, encrypted] = parts;
-        if (!ivHex || !authTagHex || !encrypted) {
-            throw new Error('Invalid token format: missing required components (IV, auth tag, or encrypted data)');
-        }
-
-        const iv = Buffer.from(ivHex, 'hex');
-        const authTag = Buffer.from(authTagHex, 'hex');
-
-        if (iv.length !== 16) {
-            throw new Error(`Invalid IV length. Expected 16 bytes, got ${iv.length}`);
-        }
-        if (authTag.length !== 16) {
-            throw new Error(`Invalid auth tag length. Expected 16 bytes, got ${authTag.length}`);
-        }
-
-        const algorithm = 'aes-256-gcm';
-        let encryptionKeyValue: string;
-        try {
-            encryptionKeyValue = getEncryptionKey();
-        } catch (keyError: any) {
-            console.error('[VideoConferencing] Failed to get encryption key:', keyError);
-            throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-        }
-
-        // Validate encryption key before using it
-        if (!encryptionKeyValue) {
-            throw new Error('Encryption key is undefined. ENCRYPTION_KEY secret is not available.');
-        }
-
-        if (typeof encryptionKeyValue !== 'string') {
-            throw new Error(`Encryption key is not a string. Got type: ${typeof encryptionKeyValue}`);
-        }
-
-        if (encryptionKeyValue.length < 32) {
-            throw new Error(`Encryption key is too short. Must be at least 32 characters, got ${encryptionKeyValue.length}`);
-        }
-
-        // Ensure encryptionKeyValue is a valid string before passing to crypto
-        const key = crypto.createHash('sha256').update(String(encryptionKeyValue), 'utf8').digest();
-        const decipher = crypto.createDecipheriv(algorithm, key, iv);
-        decipher.setAuthTag(authTag);
-
-        let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-        decrypted += decipher.final('utf8');
-
-        return decrypted;
-    } catch (error: any) {
-        console.error('[VideoConferencing] Token decryption failed:', error);
-        throw new Error(`Failed to decrypt token: ${error.message}`);
-    }
-}
-
-/**
- * Encrypt token helper
- */
-function encryptToken(text: string): string {
-    if (!text || typeof text !== 'string') {
-        throw new Error('Text to encrypt must be a non-empty string');
-    }
-
-    const algorithm = 'aes-256-gcm';
-    let encryptionKeyValue: string;
-    try {
-        encryptionKeyValue = getEncryptionKey();
-    } catch (keyError: any) {
-        console.error('[VideoConferencing] Failed to get encryption key for encryption:', keyError);
-        throw new Error('Encryption key not available. Ensure ENCRYPTION_KEY secret is properly configured.');
-    }
-
-    if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string' || encryptionKeyValue.length < 32) {
-        throw new Error('Encryption key is invalid. ENCRYPTION_KEY must be at least 32 characters.');
-    }
-
-    const key = crypto.createHash('sha256').update(String(encryptionKeyValue), 'utf8').digest();
-    const iv = crypto.randomBytes(16);
-
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
-}
-
 // Required scopes for calendar and video conferencing
 const REQUIRED_CALENDAR_SCOPES = [
   'https://www.googleapis.com/auth/calendar',
@@ -345,7 +246,7 @@ export const scheduleMeetMeeting = onCall({
         /https:\/\/.*\.web\.app$/,
         /https:\/\/.*\.firebaseapp\.com$/
     ],
-    secrets: [encryptionKey]
+    secrets: [encryptionKey, encryptionKeyPrevious]
 }, async (request) => {
     try {
         const { organizationId, title, startTime, endTime, participants, description } = request.data as MeetingRequest;
@@ -496,7 +397,7 @@ export const getVideoConferencingProviders = onCall({
         /https:\/\/.*\.web\.app$/,
         /https:\/\/.*\.firebaseapp\.com$/
     ],
-    secrets: [encryptionKey]
+    secrets: [encryptionKey, encryptionKeyPrevious]
 }, async (request) => {
     // Return dummy list or check which integrations are enabled
     const { organizationId } = request.data;
@@ -592,7 +493,7 @@ export const createMeetMeeting = onCall({
         /https:\/\/.*\.web\.app$/,
         /https:\/\/.*\.firebaseapp\.com$/
     ],
-    secrets: [encryptionKey]
+    secrets: [encryptionKey, encryptionKeyPrevious]
 }, async (request) => {
     const { organizationId, title, participants } = request.data;
     // Create a 1 hour meeting starting now
@@ -23,96 +23,15 @@ import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
 import { db, getUserOrganizationId, validateOrganizationAccess, isAdminUser } from '../shared/utils';
 import { getGoogleConfig } from '../google/config';
 import { Timestamp } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from '../google/secrets';
+import { encryptionKey, encryptionKeyPrevious } from '../google/secrets';
 import { decryptTokens } from '../integrations/encryption';
 import { google } from 'googleapis';
 import * as crypto from 'crypto';
 import * as admin from 'firebase-admin';
+import { decryptToken } from '../integrations/unified-oauth/encryption';
 
 // Removed getFunctionsConfig() - no longer using functions.config()
 
-/**
- * Decrypt token (reuse from google/oauth pattern)
- */
-function decryptToken(encryptedData: string): string {
-  // Validate input
-  if (!encryptedData || typeof encryptedData !== 'string') {
-    throw new Error('Invalid encrypted data: must be a non-empty string');
-  }
-
-  // Check if data has the correct format (iv:authTag:encrypted)
-  if (!encryptedData.includes(':')) {
-    throw new Error(`Invalid encrypted data format: expected 'iv:authTag:encrypted', got data without ':' delimiter`);
-  }
-
-  const parts = encryptedData.split(':');
-  if (parts.length !== 3) {
-    throw new Error(`Invalid encrypted data format: expected 3 parts separated by ':', got ${parts.length} parts`);
-  }
-
-  const [ivHex, authTagHex, encrypted] = parts;
-  
-  // Validate each part exists and is not empty
-  if (!ivHex || typeof ivHex !== 'string' || ivHex.trim() === '') {
-    throw new Error('Invalid encrypted data format: IV is missing or empty');
-  }
-  if (!authTagHex || typeof authTagHex !== 'string' || authTagHex.trim() === '') {
-    throw new Error('Invalid encrypted data format: auth tag is missing or empty');
-  }
-  if (!encrypted || typeof encrypted !== 'string' || encrypted.trim() === '') {
-    throw new Error('Invalid encrypted data format: encrypted data is missing or empty');
-  }
-
-  // Validate hex format before creating buffers
-  if (!/^[0-9a-fA-F]+$/.test(ivHex)) {
-    throw new Error('Invalid encrypted data format: IV is not valid hex');
-  }
-  if (!/^[0-9a-fA-F]+$/.test(authTagHex)) {
-    throw new Error('Invalid encrypted data format: auth tag is not valid hex');
-  }
-
-  let iv: Buffer;
-  let authTag: Buffer;
-  try {
-    iv = Buffer.from(ivHex, 'hex');
-    authTag = Buffer.from(authTagHex, 'hex');
-  } catch (bufferError: any) {
-    throw new Error(`Failed to create buffer from hex data: ${bufferError.message}`);
-  }
-
-  // Validate buffer lengths
-  if (iv.length !== 16) {
-    throw new Error(`Invalid IV length: expected 16 bytes, got ${iv.length}`);
-  }
-  if (authTag.length !== 16) {
-    throw new Error(`Invalid auth tag length: expected 16 bytes, got ${authTag.length}`);
-  }
-
-  const algorithm = 'aes-256-gcm';
-  
-  // Get encryption key with validation
-  let encryptionKeyValue: string;
-  try {
-    encryptionKeyValue = getEncryptionKey();
-    if (!encryptionKeyValue || typeof encryptionKeyValue !== 'string') {
-      throw new Error('Encryption key is not available or invalid');
-    }
-  } catch (error: any) {
-    console.error('❌ [GoogleMeet] Failed to get encryption key:', error);
-    throw new Error(`Encryption key not available: ${error.message || 'Unknown error'}`);
-  }
-
-  const key = crypto.createHash('sha256').update(encryptionKeyValue, 'utf8').digest();
-
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
-}
-
 /**
  * Get authenticated Google OAuth client for organization
  */
@@ -694,7 +613,7 @@ export const createMeetMeeting = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -805,7 +724,7 @@ export const scheduleMeetMeeting = onCall(
     invoker: 'public',  // Required for public access via callable SDK
     cors: CORS_ORIGINS, // Use explicit origins array for stability
     memory: '512MiB', // Increased from default 256MiB - function runs out of memory during initialization
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1026,7 +945,7 @@ export const updateMeetMeeting = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1125,7 +1044,7 @@ export const cancelMeetMeeting = onCall(
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1198,7 +1117,7 @@ export const getMeetMeetingDetails = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -1274,7 +1193,7 @@ export const scheduleMeetMeetingHttp = onRequest(
   {
     region: 'us-central1',
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (req, res) => {
     // Set CORS headers first
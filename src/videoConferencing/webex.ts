@@ -8,9 +8,9 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { db, getUserOrganizationId, isAdminUser } from '../shared/utils';
 import { getWebexConfig } from '../webex/config';
 import { Timestamp } from 'firebase-admin/firestore';
-import { encryptionKey, getEncryptionKey } from '../webex/secrets';
+import { encryptionKey, encryptionKeyPrevious } from '../webex/secrets';
 import axios from 'axios';
-import * as crypto from 'crypto';
+import { encryptToken, decryptToken } from '../integrations/unified-oauth/encryption';
 
 // CORS allowed origins for video conferencing functions
 const CORS_ORIGINS = [
@@ -27,26 +27,6 @@ const CORS_ORIGINS = [
   'https://clipshowpro.web.app'
 ];
 
-/**
- * Decrypt token (reuse from webex/oauth pattern)
- */
-function decryptToken(encryptedData: string): string {
-  const [ivHex, authTagHex, encrypted] = encryptedData.split(':');
-  const iv = Buffer.from(ivHex, 'hex');
-  const authTag = Buffer.from(authTagHex, 'hex');
-
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(authTag);
-
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
-}
-
 /**
  * Get authenticated Webex access token for organization
  */
@@ -94,25 +74,12 @@ async function getAuthenticatedWebexToken(organizationId: string): Promise<strin
         const { access_token, expires_in } = tokenResponse.data;
         accessToken = access_token;
 
-        // Encrypt new token properly
-        const algorithm = 'aes-256-gcm';
-        const key = crypto.createHash('sha256').update(getEncryptionKey(), 'utf8').digest();
-        const iv = crypto.randomBytes(16);
-        const cipher = crypto.createCipheriv(algorithm, key, iv);
-        let encrypted = cipher.update(access_token, 'utf8', 'hex');
-        encrypted += cipher.final('hex');
-        const authTag = cipher.getAuthTag();
-        const encryptedAccessToken = `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+        const encryptedAccessToken = encryptToken(access_token);
 
         // Also update refresh token if provided
         let encryptedRefreshToken = connection.refreshToken;
         if (tokenResponse.data.refresh_token) {
-          const refreshIv = crypto.randomBytes(16);
-          const refreshCipher = crypto.createCipheriv(algorithm, key, refreshIv);
-          let refreshEncrypted = refreshCipher.update(tokenResponse.data.refresh_token, 'utf8', 'hex');
-          refreshEncrypted += refreshCipher.final('hex');
-          const refreshAuthTag = refreshCipher.getAuthTag();
-          encryptedRefreshToken = `${refreshIv.toString('hex')}:${refreshAuthTag.toString('hex')}:${refreshEncrypted}`;
+          encryptedRefreshToken = encryptToken(tokenResponse.data.refresh_token);
         }
 
         // Update connection with new token
@@ -141,7 +108,7 @@ export const createWebexMeeting = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -238,7 +205,7 @@ export const scheduleWebexMeeting = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for public access via callable SDK
     cors: CORS_ORIGINS, // Use explicit origins array for stability
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -394,7 +361,7 @@ export const updateWebexMeeting = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -487,7 +454,7 @@ export const cancelWebexMeeting = onCall(
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
     memory: '512MiB', // Avoid Cloud Run container healthcheck timeout on cold start
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -564,7 +531,7 @@ export const getWebexMeetingDetails = onCall(
     region: 'us-central1',
     invoker: 'public',  // Required for CORS preflight requests
     cors: CORS_ORIGINS,
-    secrets: [encryptionKey],
+    secrets: [encryptionKey, encryptionKeyPrevious],
   },
   async (request) => {
     try {
@@ -10,6 +10,9 @@ import { defineSecret } from 'firebase-functions/params';
 // Reuse the same ENCRYPTION_KEY as Google for consistency
 export const encryptionKey = defineSecret('ENCRYPTION_KEY');
 
+// Keys retired by a rotation, still accepted for decryption (see unified-oauth/keyring.ts)
+export const encryptionKeyPrevious = defineSecret('ENCRYPTION_KEY_PREVIOUS');
+
 /**
  * Get the encryption key value
  * This must be called from within a Firebase Function execution context
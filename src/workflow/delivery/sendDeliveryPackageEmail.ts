@@ -10,6 +10,7 @@ import * as admin from 'firebase-admin';
 // @ts-ignore - nodemailer types issue
 const nodemailer = require('nodemailer');
 import { getEnvironmentConfig } from '../utils/environment';
+import { renderOrganizationEmail } from '../../notifications/emailTemplates/emailTemplateService';
 
 interface EmailSettings {
   // Old schema
@@ -137,61 +138,6 @@ function createTransporter(settings: EmailSettings | null): any {
   return null;
 }
 
-/**
- * Generate email HTML content
- */
-function generateEmailHTML(data: DeliveryPackageEmailData, packageUrl?: string): string {
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${data.subject}</title>
-</head>
-<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
-    <h1 style="color: white; margin: 0;">Delivery Package Ready</h1>
-  </div>
-  
-  <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px;">
-    <p style="font-size: 16px;">Hello,</p>
-    
-    <p style="font-size: 16px;">
-      Your delivery package for <strong>${data.sessionName}</strong> is ready.
-    </p>
-    
-    <div style="background: white; padding: 20px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #667eea;">
-      <h2 style="margin-top: 0; color: #667eea;">${data.packageName}</h2>
-      <p style="margin-bottom: 0;"><strong>Session:</strong> ${data.sessionName}</p>
-    </div>
-    
-    ${data.message ? `<div style="background: white; padding: 20px; border-radius: 5px; margin: 20px 0;">
-      <p style="white-space: pre-wrap;">${data.message}</p>
-    </div>` : ''}
-    
-    ${packageUrl ? `
-    <div style="text-align: center; margin: 30px 0;">
-      <a href="${packageUrl}" 
-         style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
-        Download Package
-      </a>
-    </div>
-    ` : ''}
-    
-    <p style="font-size: 14px; color: #666; margin-top: 30px;">
-      If you have any questions, please contact the production team.
-    </p>
-  </div>
-  
-  <div style="text-align: center; margin-top: 20px; padding: 20px; color: #999; font-size: 12px;">
-    <p>This is an automated message from Backbone Production Workflow System</p>
-  </div>
-</body>
-</html>
-  `;
-}
-
 /**
  * Send delivery package email
  */
@@ -238,25 +184,22 @@ export const sendDeliveryPackageEmail = onCall(defaultCallableOptions,
         );
       }
 
-      // Generate email content
-      const html = generateEmailHTML(data, data.packageUrl);
-      const text = `
-Delivery Package Ready
-
-Your delivery package for ${data.sessionName} is ready.
-
-Package: ${data.packageName}
-Session: ${data.sessionName}
-
-${data.message || ''}
-
-${data.packageUrl ? `Download: ${data.packageUrl}` : ''}
-
-This is an automated message from Backbone Production Workflow System.
-      `.trim();
-
-      // Send email to all recipients
+      // Send email to all recipients, each rendered in the recipient's locale
       const emailPromises = data.recipientEmails.map(async (to) => {
+        const rendered = await renderOrganizationEmail(data.organizationId, 'delivery_package', {
+          subject: data.subject,
+          sessionName: data.sessionName,
+          packageName: data.packageName,
+          message: data.message || null,
+          packageUrl: data.packageUrl || null
+        }, {
+          recipientEmail: to,
+          brandDefaults: {
+            headerTitle: 'Delivery Package Ready',
+            footerText: 'This is an automated message from Backbone Production Workflow System'
+          }
+        });
+
         const senderName = emailSettings?.smtpConfig?.senderName || emailSettings?.senderName || 'Backbone Delivery';
         const senderEmail = emailSettings?.smtpConfig?.senderEmail || emailSettings?.senderEmail || emailSettings?.smtpConfig?.username || emailSettings?.smtpUser;
         const replyTo = emailSettings?.smtpConfig?.replyToEmail || emailSettings?.replyToEmail || senderEmail;
@@ -266,9 +209,9 @@ This is an automated message from Backbone Production Workflow System.
           to,
           cc: data.ccRecipients || undefined,
           replyTo,
-          subject: data.subject,
-          html,
-          text
+          subject: rendered.subject,
+          html: rendered.html,
+          text: rendered.text
         };
 
         const info = await transporter.sendMail(mailOptions);